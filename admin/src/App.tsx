@@ -3,6 +3,7 @@ import { AppProvider } from '@shopify/polaris';
 import React from 'react';
 import { BrowserRouter, Route, Routes } from 'react-router-dom';
 import SettingsPage from './pages/SettingsPage';
+import SMSSandboxPage from './pages/SMSSandboxPage';
 
 const App: React.FC = () => {
   // App Bridge configuration
@@ -19,6 +20,7 @@ const App: React.FC = () => {
           <Routes>
             <Route path="/" element={<SettingsPage />} />
             <Route path="/settings" element={<SettingsPage />} />
+            <Route path="/sms-sandbox" element={<SMSSandboxPage />} />
           </Routes>
         </BrowserRouter>
       </AppProvider>
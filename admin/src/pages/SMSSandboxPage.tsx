@@ -0,0 +1,198 @@
+import {
+    Badge,
+    Banner,
+    BlockStack,
+    Button,
+    Card,
+    EmptyState,
+    InlineStack,
+    Layout,
+    Page,
+    SkeletonBodyText,
+    Text,
+    TextField,
+} from '@shopify/polaris';
+import React, { useCallback, useEffect, useState } from 'react';
+
+interface SandboxMessage {
+  messageId: string;
+  to: string;
+  from?: string;
+  message: string;
+  channel: string;
+  status: 'pending' | 'sent' | 'delivered' | 'failed';
+  sentAt: string;
+}
+
+const STATUS_TONES: Record<SandboxMessage['status'], 'info' | 'success' | 'critical' | undefined> = {
+  pending: undefined,
+  sent: 'info',
+  delivered: 'success',
+  failed: 'critical',
+};
+
+// How often the inbox refreshes while open
+const REFRESH_INTERVAL_MS = 5000;
+
+// The inbox token is kept for the browser tab only
+const TOKEN_STORAGE_KEY = 'smsSandboxToken';
+
+const SMSSandboxPage: React.FC = () => {
+  const [messages, setMessages] = useState<SandboxMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [clearing, setClearing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [token, setToken] = useState(() => sessionStorage.getItem(TOKEN_STORAGE_KEY) || '');
+  const [tokenInput, setTokenInput] = useState('');
+  const [needsToken, setNeedsToken] = useState(false);
+
+  const loadMessages = useCallback(async () => {
+    try {
+      const response = await fetch('/api/admin/sms-sandbox/messages', {
+        headers: { 'X-Sandbox-Token': token },
+      });
+
+      if (response.status === 401) {
+        setNeedsToken(true);
+        setMessages([]);
+        return;
+      }
+      if (response.status === 404) {
+        throw new Error('The SMS sandbox is not enabled. Set SMS_SANDBOX_ENABLED=true and restart the server.');
+      }
+      if (!response.ok) {
+        throw new Error('Failed to load sandbox messages');
+      }
+
+      const data = await response.json();
+      setMessages(data.messages);
+      setNeedsToken(false);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sandbox messages');
+    } finally {
+      setLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadMessages();
+    const interval = setInterval(loadMessages, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadMessages]);
+
+  const handleUnlock = () => {
+    sessionStorage.setItem(TOKEN_STORAGE_KEY, tokenInput);
+    setToken(tokenInput);
+    setTokenInput('');
+  };
+
+  const handleClear = async () => {
+    try {
+      setClearing(true);
+      const response = await fetch('/api/admin/sms-sandbox/messages', {
+        method: 'DELETE',
+        headers: { 'X-Sandbox-Token': token },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to clear sandbox messages');
+      }
+
+      setMessages([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to clear sandbox messages');
+    } finally {
+      setClearing(false);
+    }
+  };
+
+  return (
+    <Page
+      title="SMS Sandbox"
+      subtitle="Messages the app would have sent. Nothing here reaches a real phone."
+      primaryAction={{ content: 'Refresh', onAction: loadMessages }}
+      secondaryActions={[
+        { content: 'Clear inbox', destructive: true, loading: clearing, onAction: handleClear },
+      ]}
+    >
+      <Layout>
+        {error && (
+          <Layout.Section>
+            <Banner tone="critical" onDismiss={() => setError(null)}>
+              {error}
+            </Banner>
+          </Layout.Section>
+        )}
+
+        {needsToken && (
+          <Layout.Section>
+            <Card>
+              <BlockStack gap="300">
+                <Text as="p">
+                  The inbox holds real sign-in codes. Enter the SMS_SANDBOX_INBOX_TOKEN the server was started with.
+                </Text>
+                <TextField
+                  label="Inbox token"
+                  type="password"
+                  value={tokenInput}
+                  onChange={setTokenInput}
+                  autoComplete="off"
+                />
+                <InlineStack>
+                  <Button variant="primary" onClick={handleUnlock} disabled={!tokenInput}>
+                    Open inbox
+                  </Button>
+                </InlineStack>
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        )}
+
+        <Layout.Section>
+          {needsToken ? null : loading ? (
+            <Card>
+              <SkeletonBodyText lines={6} />
+            </Card>
+          ) : messages.length === 0 ? (
+            <Card>
+              <EmptyState heading="No messages yet" image="">
+                <p>Request a login code on the storefront and it will show up here.</p>
+              </EmptyState>
+            </Card>
+          ) : (
+            <BlockStack gap="300">
+              {messages.map((message) => (
+                <Card key={message.messageId}>
+                  <BlockStack gap="200">
+                    <InlineStack align="space-between">
+                      <Text as="h3" variant="headingSm">
+                        {message.to}
+                      </Text>
+                      <InlineStack gap="200">
+                        <Badge tone={STATUS_TONES[message.status]}>{message.status}</Badge>
+                        <Text as="span" tone="subdued">
+                          {new Date(message.sentAt).toLocaleString()}
+                        </Text>
+                      </InlineStack>
+                    </InlineStack>
+                    <Text as="p">
+                      <span style={{ whiteSpace: 'pre-wrap' }}>{message.message}</span>
+                    </Text>
+                    {message.from && (
+                      <Text as="p" tone="subdued">
+                        From {message.from} via {message.channel}
+                      </Text>
+                    )}
+                  </BlockStack>
+                </Card>
+              ))}
+            </BlockStack>
+          )}
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+};
+
+export default SMSSandboxPage;
@@ -26,6 +26,7 @@ const SettingsPage: React.FC = () => {
   const [success, setSuccess] = useState(false);
   const [logoFile, setLogoFile] = useState<File | null>(null);
   const [logoPreview, setLogoPreview] = useState<string>('');
+  const [totpTags, setTotpTags] = useState('');
 
   // Load settings on mount
   useEffect(() => {
@@ -44,6 +45,7 @@ const SettingsPage: React.FC = () => {
       
       const data = await response.json();
       setSettings(data);
+      setTotpTags((data.totp?.requiredTags ?? []).join(', '));
       
       if (data.uiCustomization.logoUrl) {
         setLogoPreview(data.uiCustomization.logoUrl);
@@ -83,6 +85,9 @@ const SettingsPage: React.FC = () => {
       // Save settings
       const updatedSettings = {
         ...settings,
+        totp: {
+          requiredTags: totpTags.split(',').map((tag) => tag.trim()).filter(Boolean),
+        },
         uiCustomization: {
           ...settings.uiCustomization,
           logoUrl,
@@ -114,7 +119,7 @@ const SettingsPage: React.FC = () => {
     }
   };
 
-  const handleMethodToggle = useCallback((method: 'sms' | 'email' | 'google') => {
+  const handleMethodToggle = useCallback((method: 'sms' | 'email' | 'google' | 'passkey') => {
     setSettings((prev) => ({
       ...prev,
       enabledMethods: {
@@ -124,6 +129,15 @@ const SettingsPage: React.FC = () => {
     }));
   }, []);
 
+  const handleProfileCompletionToggle = useCallback(() => {
+    setSettings((prev) => ({
+      ...prev,
+      profileCompletion: {
+        enabled: !prev.profileCompletion?.enabled,
+      },
+    }));
+  }, []);
+
   const handleColorChange = useCallback((value: string) => {
     setSettings((prev) => ({
       ...prev,
@@ -235,6 +249,41 @@ const SettingsPage: React.FC = () => {
                   onChange={() => handleMethodToggle('google')}
                   helpText="Allow customers to login with their Google account"
                 />
+                <Checkbox
+                  label="Passkeys"
+                  checked={settings.enabledMethods.passkey ?? false}
+                  onChange={() => handleMethodToggle('passkey')}
+                  helpText="Offer a passkey after sign-in so returning customers can login with Face ID, Touch ID or Windows Hello"
+                />
+                <Checkbox
+                  label="Complete profile after SMS sign-up"
+                  checked={settings.profileCompletion?.enabled ?? false}
+                  onChange={handleProfileCompletionToggle}
+                  helpText="Ask new SMS customers for their email, name and marketing consent before they are signed in"
+                />
+              </FormLayout>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="400">
+              <Text as="h2" variant="headingMd">
+                Authenticator App
+              </Text>
+              <Text as="p" tone="subdued">
+                Customers can add an authenticator app as a second step after SMS, email or social sign-in
+              </Text>
+              <FormLayout>
+                <TextField
+                  label="Require for customer tags"
+                  value={totpTags}
+                  onChange={setTotpTags}
+                  autoComplete="off"
+                  placeholder="wholesale, b2b"
+                  helpText="Comma-separated. Customers with any of these tags must set up an authenticator app the next time they sign in"
+                />
               </FormLayout>
             </BlockStack>
           </Card>
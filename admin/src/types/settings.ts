@@ -3,6 +3,13 @@ export interface AuthSettings {
     sms: boolean;
     email: boolean;
     google: boolean;
+    passkey?: boolean;
+  };
+  profileCompletion?: {
+    enabled: boolean;
+  };
+  totp?: {
+    requiredTags: string[];
   };
   uiCustomization: {
     primaryColor: string;
@@ -16,6 +23,13 @@ export const DEFAULT_SETTINGS: AuthSettings = {
     sms: true,
     email: true,
     google: false,
+    passkey: false,
+  },
+  profileCompletion: {
+    enabled: false,
+  },
+  totp: {
+    requiredTags: [],
   },
   uiCustomization: {
     primaryColor: '#000000',
@@ -9,16 +9,27 @@ import {
     TextField,
 } from '@shopify/ui-extensions-react/checkout';
 import { useEffect, useState } from 'react';
-import type { AppSettings } from '../types';
-import { emailLogin, fetchSettings, initiateOAuth, sendOTP, verifyOTP } from '../utils/api';
+import type { AppSettings, AuthResponse } from '../types';
+import {
+    emailLogin,
+    fetchSettings,
+    getPasskeyLoginOptions,
+    getPasskeyRegistrationOptions,
+    initiateOAuth,
+    sendOTP,
+    verifyOTP,
+    verifyPasskeyLogin,
+    verifyPasskeyRegistration,
+} from '../utils/api';
 import { validateEmail, validateOTP, validatePhone } from '../utils/validation';
+import { createPasskey, getPasskey, isPasskeySupported } from '../utils/webauthn';
 
 interface LoginFormProps {
   onAuthSuccess: (multipassUrl: string) => void;
   onCancel?: () => void;
 }
 
-type AuthMode = 'select' | 'sms' | 'email' | 'otp';
+type AuthMode = 'select' | 'sms' | 'email' | 'otp' | 'passkeyEnroll';
 
 export function LoginForm({ onAuthSuccess, onCancel }: LoginFormProps) {
   const [settings, setSettings] = useState<AppSettings | null>(null);
@@ -34,6 +45,9 @@ export function LoginForm({ onAuthSuccess, onCancel }: LoginFormProps) {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
 
+  // Passkey state
+  const [pendingEnrollment, setPendingEnrollment] = useState<{ token: string; multipassUrl: string } | null>(null);
+
   useEffect(() => {
     loadSettings();
   }, []);
@@ -82,7 +96,7 @@ export function LoginForm({ onAuthSuccess, onCancel }: LoginFormProps) {
     try {
       const result = await verifyOTP(phone, otp);
       if (result.success && result.multipassUrl) {
-        onAuthSuccess(result.multipassUrl);
+        completeSignIn(result);
       } else {
         setError(result.error || 'Invalid code. Please try again.');
       }
@@ -110,7 +124,7 @@ export function LoginForm({ onAuthSuccess, onCancel }: LoginFormProps) {
     try {
       const result = await emailLogin(email, password);
       if (result.success && result.multipassUrl) {
-        onAuthSuccess(result.multipassUrl);
+        completeSignIn(result);
       } else {
         setError(result.error || 'Invalid credentials');
       }
@@ -121,6 +135,66 @@ export function LoginForm({ onAuthSuccess, onCancel }: LoginFormProps) {
     }
   }
 
+  /**
+   * Finish a sign-in, offering passkey enrollment first when the server issued a token
+   */
+  function completeSignIn(result: AuthResponse) {
+    if (!result.multipassUrl) return;
+
+    if (result.passkeyEnrollmentToken && settings?.enabledMethods.includes('passkey') && isPasskeySupported()) {
+      setPendingEnrollment({ token: result.passkeyEnrollmentToken, multipassUrl: result.multipassUrl });
+      setMode('passkeyEnroll');
+      return;
+    }
+
+    onAuthSuccess(result.multipassUrl);
+  }
+
+  async function handlePasskeyLogin() {
+    setLoading(true);
+    setError('');
+
+    try {
+      const optionsResult = await getPasskeyLoginOptions();
+      if (!optionsResult.success || !optionsResult.challengeId || !optionsResult.options) {
+        setError(optionsResult.error || 'Passkey sign-in is not available');
+        return;
+      }
+
+      const credential = await getPasskey(optionsResult.options);
+      const result = await verifyPasskeyLogin(optionsResult.challengeId, credential);
+      if (result.success && result.multipassUrl) {
+        onAuthSuccess(result.multipassUrl);
+      } else {
+        setError(result.error || 'We could not sign you in with that passkey');
+      }
+    } catch (err) {
+      setError('Passkey sign-in failed. Please try another method.');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handlePasskeyRegister() {
+    if (!pendingEnrollment) return;
+
+    setLoading(true);
+    setError('');
+
+    try {
+      const optionsResult = await getPasskeyRegistrationOptions(pendingEnrollment.token);
+      if (optionsResult.success && optionsResult.options) {
+        const credential = await createPasskey(optionsResult.options);
+        await verifyPasskeyRegistration(pendingEnrollment.token, credential);
+      }
+    } catch (err) {
+      // Enrollment is optional, so a failure just continues the sign-in
+    } finally {
+      setLoading(false);
+      onAuthSuccess(pendingEnrollment.multipassUrl);
+    }
+  }
+
   async function handleOAuthLogin(provider: string) {
     setLoading(true);
     setError('');
@@ -173,6 +247,17 @@ export function LoginForm({ onAuthSuccess, onCancel }: LoginFormProps) {
 
       {mode === 'select' && (
         <BlockStack spacing="base">
+          {enabledMethods.includes('passkey') && isPasskeySupported() && (
+            <Button
+              onPress={handlePasskeyLogin}
+              kind="primary"
+              loading={loading}
+              disabled={loading}
+            >
+              Sign in with a passkey
+            </Button>
+          )}
+
           {enabledMethods.includes('sms') && (
             <Button
               onPress={() => setMode('sms')}
@@ -305,6 +390,31 @@ export function LoginForm({ onAuthSuccess, onCancel }: LoginFormProps) {
         </BlockStack>
       )}
 
+      {mode === 'passkeyEnroll' && pendingEnrollment && (
+        <BlockStack spacing="base">
+          <Text>
+            Sign in faster next time with Face ID, Touch ID or your device screen lock.
+          </Text>
+          <InlineStack spacing="base">
+            <Button
+              onPress={handlePasskeyRegister}
+              kind="primary"
+              loading={loading}
+              disabled={loading}
+            >
+              Create a passkey
+            </Button>
+            <Button
+              onPress={() => onAuthSuccess(pendingEnrollment.multipassUrl)}
+              kind="plain"
+              disabled={loading}
+            >
+              Not now
+            </Button>
+          </InlineStack>
+        </BlockStack>
+      )}
+
       {mode === 'email' && (
         <BlockStack spacing="base">
           <TextField
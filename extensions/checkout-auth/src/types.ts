@@ -7,7 +7,7 @@ export interface AppSettings {
   };
 }
 
-export type AuthMethod = 'sms' | 'email' | 'google' | 'apple' | 'facebook';
+export type AuthMethod = 'sms' | 'email' | 'google' | 'apple' | 'facebook' | 'passkey';
 
 export interface SessionData {
   customerId: string;
@@ -19,6 +19,30 @@ export interface SessionData {
 export interface AuthResponse {
   success: boolean;
   multipassUrl?: string;
+  passkeyEnrollmentToken?: string;
+  error?: string;
+}
+
+/** WebAuthn options as JSON, with binary fields base64url encoded */
+export interface PasskeyCreationOptionsJSON {
+  challenge: string;
+  rp: { id?: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  pubKeyCredParams: { type: 'public-key'; alg: number }[];
+  excludeCredentials?: { id: string; type: 'public-key'; transports?: string[] }[];
+  [key: string]: unknown;
+}
+
+export interface PasskeyRequestOptionsJSON {
+  challenge: string;
+  allowCredentials?: { id: string; type: 'public-key'; transports?: string[] }[];
+  [key: string]: unknown;
+}
+
+export interface PasskeyOptionsResponse<T> {
+  success: boolean;
+  challengeId?: string;
+  options?: T;
   error?: string;
 }
 
@@ -1,4 +1,11 @@
-import type { AppSettings, AuthResponse, OTPResponse } from '../types';
+import type {
+  AppSettings,
+  AuthResponse,
+  OTPResponse,
+  PasskeyCreationOptionsJSON,
+  PasskeyOptionsResponse,
+  PasskeyRequestOptionsJSON,
+} from '../types';
 
 const API_BASE_URL = process.env.API_BASE_URL || 'http://localhost:3000';
 
@@ -43,6 +50,54 @@ export async function emailLogin(email: string, password: string): Promise<AuthR
   return response.json();
 }
 
+export async function getPasskeyRegistrationOptions(
+  enrollmentToken: string
+): Promise<PasskeyOptionsResponse<PasskeyCreationOptionsJSON>> {
+  const response = await fetch(`${API_BASE_URL}/api/auth/passkey/register/options`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ enrollmentToken }),
+  });
+  return response.json();
+}
+
+export async function verifyPasskeyRegistration(
+  enrollmentToken: string,
+  credential: unknown
+): Promise<{ success: boolean; error?: string }> {
+  const response = await fetch(`${API_BASE_URL}/api/auth/passkey/register/verify`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ enrollmentToken, response: credential }),
+  });
+  return response.json();
+}
+
+export async function getPasskeyLoginOptions(): Promise<PasskeyOptionsResponse<PasskeyRequestOptionsJSON>> {
+  const response = await fetch(`${API_BASE_URL}/api/auth/passkey/login/options`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+  return response.json();
+}
+
+export async function verifyPasskeyLogin(challengeId: string, credential: unknown): Promise<AuthResponse> {
+  const response = await fetch(`${API_BASE_URL}/api/auth/passkey/login/verify`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ challengeId, response: credential }),
+  });
+  return response.json();
+}
+
 export async function initiateOAuth(provider: string): Promise<{ authUrl: string }> {
   const response = await fetch(`${API_BASE_URL}/api/auth/oauth/${provider}`);
   if (!response.ok) {
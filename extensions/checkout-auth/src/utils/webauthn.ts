@@ -0,0 +1,118 @@
+/**
+ * Utility functions for passkey (WebAuthn) ceremonies
+ * The server speaks JSON with base64url-encoded binary fields, the browser API speaks ArrayBuffers
+ */
+
+import type { PasskeyCreationOptionsJSON, PasskeyRequestOptionsJSON } from '../types';
+
+/**
+ * Check whether the current runtime can use passkeys
+ */
+export function isPasskeySupported(): boolean {
+  return (
+    typeof PublicKeyCredential !== 'undefined' &&
+    typeof navigator !== 'undefined' &&
+    !!navigator.credentials
+  );
+}
+
+/**
+ * Decode a base64url string into an ArrayBuffer
+ */
+export function base64UrlToBuffer(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+/**
+ * Encode an ArrayBuffer as a base64url string
+ */
+export function bufferToBase64Url(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Run navigator.credentials.create() and return the attestation as JSON
+ */
+export async function createPasskey(options: PasskeyCreationOptionsJSON) {
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      ...options,
+      challenge: base64UrlToBuffer(options.challenge),
+      user: {
+        ...options.user,
+        id: base64UrlToBuffer(options.user.id),
+      },
+      excludeCredentials: (options.excludeCredentials || []).map((c) => ({
+        ...c,
+        id: base64UrlToBuffer(c.id),
+        transports: c.transports as AuthenticatorTransport[] | undefined,
+      })),
+    } as PublicKeyCredentialCreationOptions,
+  })) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error('Passkey creation was cancelled');
+  }
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+
+  return {
+    id: credential.id,
+    rawId: bufferToBase64Url(credential.rawId),
+    type: credential.type,
+    clientExtensionResults: credential.getClientExtensionResults(),
+    response: {
+      clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+      attestationObject: bufferToBase64Url(response.attestationObject),
+      transports: response.getTransports ? response.getTransports() : [],
+    },
+  };
+}
+
+/**
+ * Run navigator.credentials.get() and return the assertion as JSON
+ */
+export async function getPasskey(options: PasskeyRequestOptionsJSON) {
+  const credential = (await navigator.credentials.get({
+    publicKey: {
+      ...options,
+      challenge: base64UrlToBuffer(options.challenge),
+      allowCredentials: (options.allowCredentials || []).map((c) => ({
+        ...c,
+        id: base64UrlToBuffer(c.id),
+        transports: c.transports as AuthenticatorTransport[] | undefined,
+      })),
+    } as PublicKeyCredentialRequestOptions,
+  })) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error('Passkey sign-in was cancelled');
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+
+  return {
+    id: credential.id,
+    rawId: bufferToBase64Url(credential.rawId),
+    type: credential.type,
+    clientExtensionResults: credential.getClientExtensionResults(),
+    response: {
+      clientDataJSON: bufferToBase64Url(response.clientDataJSON),
+      authenticatorData: bufferToBase64Url(response.authenticatorData),
+      signature: bufferToBase64Url(response.signature),
+      userHandle: response.userHandle ? bufferToBase64Url(response.userHandle) : undefined,
+    },
+  };
+}
@@ -1,6 +1,6 @@
 import { Badge, BlockStack, Box, Card, InlineStack, Text } from "@shopify/polaris";
 
-interface AnalyticsData {
+export interface AnalyticsData {
   totalAuthentications: number;
   authMethodBreakdown: {
     sms: number;
@@ -8,6 +8,7 @@ interface AnalyticsData {
     google: number;
     apple: number;
     facebook: number;
+    oidc: number;
   };
   successRate: number;
   failureRate: number;
@@ -52,7 +53,8 @@ export function AnalyticsDashboard({ data }: AnalyticsDashboardProps) {
     data.authMethodBreakdown.email +
     data.authMethodBreakdown.google +
     data.authMethodBreakdown.apple +
-    data.authMethodBreakdown.facebook;
+    data.authMethodBreakdown.facebook +
+    data.authMethodBreakdown.oidc;
 
   const getMethodPercentage = (count: number) => {
     if (totalMethods === 0) return "0%";
@@ -134,6 +136,17 @@ export function AnalyticsDashboard({ data }: AnalyticsDashboardProps) {
                   </Text>
                 </InlineStack>
               </InlineStack>
+              <InlineStack align="space-between">
+                <Text as="span" variant="bodyMd">
+                  OpenID Connect
+                </Text>
+                <InlineStack gap="200">
+                  <Badge tone="info">{String(data.authMethodBreakdown.oidc)}</Badge>
+                  <Text as="span" variant="bodySm" tone="subdued">
+                    {getMethodPercentage(data.authMethodBreakdown.oidc)}
+                  </Text>
+                </InlineStack>
+              </InlineStack>
             </BlockStack>
           </Box>
         </BlockStack>
@@ -7,6 +7,7 @@ interface OAuthProviderConfigProps {
   appleClientId: string;
   appleTeamId: string;
   appleKeyId: string;
+  applePrivateKey: string;
   appleEnabled: boolean;
   facebookAppId: string;
   facebookAppSecret: string;
@@ -21,6 +22,7 @@ export function OAuthProviderConfig({
   appleClientId,
   appleTeamId,
   appleKeyId,
+  applePrivateKey,
   appleEnabled,
   facebookAppId,
   facebookAppSecret,
@@ -93,6 +95,15 @@ export function OAuthProviderConfig({
             disabled={!appleEnabled}
             autoComplete="off"
           />
+          <TextField
+            label="Private Key (.p8)"
+            value={applePrivateKey}
+            onChange={(value) => onChange("applePrivateKey", value)}
+            disabled={!appleEnabled}
+            multiline={4}
+            helpText="Paste the contents of the key file, including the BEGIN and END lines"
+            autoComplete="off"
+          />
         </BlockStack>
 
         <BlockStack gap="400">
@@ -0,0 +1,193 @@
+import {
+  Badge,
+  BlockStack,
+  Button,
+  Card,
+  InlineStack,
+  Text,
+  TextField,
+} from "@shopify/polaris";
+import { useEffect, useState } from "react";
+
+export interface OIDCProviderSummary {
+  id: string;
+  slug: string;
+  displayName: string;
+  issuer: string;
+  clientId: string;
+  scopes: string;
+  enabled: boolean;
+}
+
+export interface NewOIDCProvider {
+  displayName: string;
+  slug: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string;
+}
+
+interface OIDCProviderConfigProps {
+  providers: OIDCProviderSummary[];
+  callbackBaseUrl: string;
+  isLoading: boolean;
+  onAdd: (provider: NewOIDCProvider) => void;
+  onToggle: (id: string, enabled: boolean) => void;
+  onDelete: (id: string) => void;
+}
+
+const EMPTY_PROVIDER: NewOIDCProvider = {
+  displayName: "",
+  slug: "",
+  issuer: "",
+  clientId: "",
+  clientSecret: "",
+  scopes: "openid email profile",
+};
+
+function toSlug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+export function OIDCProviderConfig({
+  providers,
+  callbackBaseUrl,
+  isLoading,
+  onAdd,
+  onToggle,
+  onDelete,
+}: OIDCProviderConfigProps) {
+  const [newProvider, setNewProvider] = useState<NewOIDCProvider>(EMPTY_PROVIDER);
+  const [slugEdited, setSlugEdited] = useState(false);
+
+  const handleChange = (field: keyof NewOIDCProvider, value: string) => {
+    setNewProvider((prev) => {
+      const next = { ...prev, [field]: value };
+      // Derive the slug from the name until the merchant edits it
+      if (field === "displayName" && !slugEdited) {
+        next.slug = toSlug(value);
+      }
+      return next;
+    });
+  };
+
+  // Clear the form once the new provider shows up; keep it for corrections if discovery failed
+  useEffect(() => {
+    setNewProvider(EMPTY_PROVIDER);
+    setSlugEdited(false);
+  }, [providers.length]);
+
+  const canAdd =
+    newProvider.displayName &&
+    newProvider.slug &&
+    newProvider.issuer &&
+    newProvider.clientId &&
+    newProvider.clientSecret;
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <Text as="h2" variant="headingMd">
+          OpenID Connect Providers
+        </Text>
+        <Text as="p" variant="bodyMd" tone="subdued">
+          Let customers and staff sign in with any OpenID Connect identity provider, such as
+          Microsoft Entra ID, Okta, Auth0 or Keycloak. Each provider gets its own button on the
+          login form and at checkout.
+        </Text>
+
+        {providers.map((provider) => (
+          <BlockStack key={provider.id} gap="200">
+            <InlineStack align="space-between" blockAlign="center">
+              <InlineStack gap="200" blockAlign="center">
+                <Text as="h3" variant="headingSm">
+                  {provider.displayName}
+                </Text>
+                <Badge tone={provider.enabled ? "success" : undefined}>
+                  {provider.enabled ? "Enabled" : "Disabled"}
+                </Badge>
+              </InlineStack>
+              <InlineStack gap="200">
+                <Button
+                  onClick={() => onToggle(provider.id, !provider.enabled)}
+                  disabled={isLoading}
+                >
+                  {provider.enabled ? "Disable" : "Enable"}
+                </Button>
+                <Button
+                  tone="critical"
+                  onClick={() => onDelete(provider.id)}
+                  disabled={isLoading}
+                >
+                  Remove
+                </Button>
+              </InlineStack>
+            </InlineStack>
+            <Text as="p" variant="bodySm" tone="subdued">
+              Issuer: {provider.issuer}
+            </Text>
+            <Text as="p" variant="bodySm" tone="subdued">
+              Redirect URI: {callbackBaseUrl}/api/auth/oauth/oidc-{provider.slug}/callback
+            </Text>
+          </BlockStack>
+        ))}
+
+        <BlockStack gap="400">
+          <Text as="h3" variant="headingSm">
+            Add a provider
+          </Text>
+          <TextField
+            label="Button name"
+            value={newProvider.displayName}
+            onChange={(value) => handleChange("displayName", value)}
+            helpText='Shown as "Continue with <name>"'
+            autoComplete="off"
+          />
+          <TextField
+            label="Identifier"
+            value={newProvider.slug}
+            onChange={(value) => {
+              setSlugEdited(true);
+              handleChange("slug", toSlug(value));
+            }}
+            helpText={`Redirect URI: ${callbackBaseUrl}/api/auth/oauth/oidc-${newProvider.slug || "<identifier>"}/callback`}
+            autoComplete="off"
+          />
+          <TextField
+            label="Issuer URL"
+            value={newProvider.issuer}
+            onChange={(value) => handleChange("issuer", value)}
+            placeholder="https://login.microsoftonline.com/<tenant-id>/v2.0"
+            helpText="Endpoints and signing keys are read from the issuer's /.well-known/openid-configuration"
+            autoComplete="off"
+          />
+          <TextField
+            label="Client ID"
+            value={newProvider.clientId}
+            onChange={(value) => handleChange("clientId", value)}
+            autoComplete="off"
+          />
+          <TextField
+            label="Client Secret"
+            value={newProvider.clientSecret}
+            onChange={(value) => handleChange("clientSecret", value)}
+            type="password"
+            autoComplete="off"
+          />
+          <TextField
+            label="Scopes"
+            value={newProvider.scopes}
+            onChange={(value) => handleChange("scopes", value)}
+            autoComplete="off"
+          />
+          <InlineStack align="end">
+            <Button onClick={() => onAdd(newProvider)} disabled={!canAdd} loading={isLoading}>
+              Add provider
+            </Button>
+          </InlineStack>
+        </BlockStack>
+      </BlockStack>
+    </Card>
+  );
+}
@@ -0,0 +1,74 @@
+import { BlockStack, Card, FormLayout, Select, Text, TextField } from "@shopify/polaris";
+import type { OTPPolicy } from "../services/OTPService";
+
+interface OTPPolicyConfigProps {
+  otpPolicy: OTPPolicy;
+  onChange: (field: string, value: string) => void;
+}
+
+type NumericPolicyField = Exclude<keyof OTPPolicy, "alphabet">;
+
+export function OTPPolicyConfig({ otpPolicy, onChange }: OTPPolicyConfigProps) {
+  // The policy is saved as one JSON field
+  const update = (changes: Partial<OTPPolicy>) => {
+    onChange("otpPolicy", JSON.stringify({ ...otpPolicy, ...changes }));
+  };
+
+  const numberField = (field: NumericPolicyField, label: string, helpText?: string) => (
+    <TextField
+      label={label}
+      type="number"
+      value={String(otpPolicy[field])}
+      onChange={(value) => update({ [field]: parseInt(value, 10) || 0 })}
+      autoComplete="off"
+      helpText={helpText}
+    />
+  );
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <BlockStack gap="200">
+          <Text as="h2" variant="headingMd">
+            Verification Codes
+          </Text>
+          <Text as="p" variant="bodyMd" tone="subdued">
+            Format, expiry and rate limits for codes sent by SMS, WhatsApp, voice call and email.
+          </Text>
+        </BlockStack>
+
+        <FormLayout>
+          <FormLayout.Group>
+            {numberField("length", "Code length", "4 to 10 characters")}
+            <Select
+              label="Code characters"
+              options={[
+                { label: "Numbers only", value: "numeric" },
+                { label: "Letters and numbers", value: "alphanumeric" },
+              ]}
+              value={otpPolicy.alphabet}
+              onChange={(value) => update({ alphabet: value as OTPPolicy["alphabet"] })}
+              helpText="Letters and numbers give stronger codes; look-alike characters such as O and 0 are left out"
+            />
+          </FormLayout.Group>
+
+          <FormLayout.Group>
+            {numberField("ttlSeconds", "Code expiry (seconds)")}
+            {numberField("resendCooldownSeconds", "Resend cooldown (seconds)")}
+          </FormLayout.Group>
+
+          <FormLayout.Group>
+            {numberField("maxAttempts", "Wrong codes before blocking")}
+            {numberField("blockDurationSeconds", "Block after wrong codes (seconds)")}
+          </FormLayout.Group>
+
+          <FormLayout.Group>
+            {numberField("maxSendAttempts", "Codes sent per window")}
+            {numberField("sendAttemptsWindowSeconds", "Send window (seconds)")}
+            {numberField("sendAttemptsBlockDurationSeconds", "Block after too many sends (seconds)")}
+          </FormLayout.Group>
+        </FormLayout>
+      </BlockStack>
+    </Card>
+  );
+}
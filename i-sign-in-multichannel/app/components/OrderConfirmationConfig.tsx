@@ -0,0 +1,75 @@
+import { BlockStack, Card, Checkbox, Text, TextField } from "@shopify/polaris";
+import { SMSSegmentPreview } from "./SMSSegmentPreview";
+
+interface OrderConfirmationConfigProps {
+  orderConfirmationEnabled: boolean;
+  orderConfirmationMessage: string;
+  segmentCost: number;
+  onChange: (field: string, value: string | boolean) => void;
+}
+
+const DEFAULT_ORDER_CONFIRMATION_MESSAGE =
+  "Thank you for your order! Order #{order.number} - Total: ${order.total}. We'll notify you when it ships.";
+
+// Placeholders filled with typical values, so the preview is as long as a real message
+const SAMPLE_VALUES: Record<string, string> = {
+  "{order.number}": "1001",
+  "{order.id}": "5678901234567",
+  "{order.total}": "USD 49.99",
+  "{customer.firstName}": "Alex",
+  "{customer.lastName}": "Smith",
+  "{customer.email}": "alex@example.com",
+};
+
+function fillSampleValues(template: string): string {
+  return Object.entries(SAMPLE_VALUES)
+    .reduce((message, [placeholder, value]) => message.split(placeholder).join(value), template)
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function OrderConfirmationConfig({
+  orderConfirmationEnabled,
+  orderConfirmationMessage,
+  segmentCost,
+  onChange,
+}: OrderConfirmationConfigProps) {
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <BlockStack gap="200">
+          <Text as="h2" variant="headingMd">
+            Order Confirmation SMS
+          </Text>
+          <Text as="p" variant="bodyMd" tone="subdued">
+            Text customers who gave a phone number when they place an order.
+          </Text>
+        </BlockStack>
+
+        <Checkbox
+          label="Send an SMS when an order is placed"
+          checked={orderConfirmationEnabled}
+          onChange={(value) => onChange("orderConfirmationEnabled", value)}
+        />
+
+        {orderConfirmationEnabled && (
+          <BlockStack gap="200">
+            <TextField
+              label="Message"
+              value={orderConfirmationMessage}
+              onChange={(value) => onChange("orderConfirmationMessage", value)}
+              placeholder={DEFAULT_ORDER_CONFIRMATION_MESSAGE}
+              autoComplete="off"
+              multiline={3}
+              helpText="Use {order.number}, {order.total}, {customer.firstName} and {customer.lastName} as placeholders. Leave empty to use the default message."
+            />
+            <SMSSegmentPreview
+              message={fillSampleValues(orderConfirmationMessage || DEFAULT_ORDER_CONFIRMATION_MESSAGE)}
+              segmentCost={segmentCost}
+            />
+          </BlockStack>
+        )}
+      </BlockStack>
+    </Card>
+  );
+}
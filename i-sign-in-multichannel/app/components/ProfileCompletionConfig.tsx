@@ -0,0 +1,34 @@
+import { BlockStack, Card, Checkbox, Text } from "@shopify/polaris";
+
+interface ProfileCompletionConfigProps {
+  profileCompletionEnabled: boolean;
+  onChange: (field: string, value: boolean) => void;
+}
+
+export function ProfileCompletionConfig({
+  profileCompletionEnabled,
+  onChange,
+}: ProfileCompletionConfigProps) {
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <BlockStack gap="200">
+          <Text as="h2" variant="headingMd">
+            Customer Profile
+          </Text>
+          <Text as="p" variant="bodyMd" tone="subdued">
+            Customers who sign up by SMS only give a phone number, so they are created in Shopify
+            without an email or name.
+          </Text>
+        </BlockStack>
+
+        <Checkbox
+          label="Ask new SMS customers to complete their profile"
+          checked={profileCompletionEnabled}
+          onChange={(value) => onChange("profileCompletionEnabled", value)}
+          helpText="After the code is verified, customers enter their email, first and last name, and can opt in to marketing emails before they are signed in."
+        />
+      </BlockStack>
+    </Card>
+  );
+}
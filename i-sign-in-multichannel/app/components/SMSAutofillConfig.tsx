@@ -0,0 +1,58 @@
+import { BlockStack, Card, Checkbox, Text, TextField } from "@shopify/polaris";
+
+interface SMSAutofillConfigProps {
+  webOtpEnabled: boolean;
+  webOtpDomain: string;
+  androidAppHash: string;
+  shopDomain: string;
+  onChange: (field: string, value: string | boolean) => void;
+}
+
+export function SMSAutofillConfig({
+  webOtpEnabled,
+  webOtpDomain,
+  androidAppHash,
+  shopDomain,
+  onChange,
+}: SMSAutofillConfigProps) {
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <BlockStack gap="200">
+          <Text as="h2" variant="headingMd">
+            SMS Code Autofill
+          </Text>
+          <Text as="p" variant="bodyMd" tone="subdued">
+            Let phones fill in the verification code so customers don't have to type it.
+          </Text>
+        </BlockStack>
+
+        <Checkbox
+          label="Add a browser autofill line to SMS codes"
+          checked={webOtpEnabled}
+          onChange={(value) => onChange("webOtpEnabled", value)}
+          helpText="Adds a final line such as @your-store.com #123456 so Chrome and Safari can offer the code on your login form."
+        />
+
+        {webOtpEnabled && (
+          <TextField
+            label="Storefront domain"
+            value={webOtpDomain}
+            onChange={(value) => onChange("webOtpDomain", value)}
+            placeholder={shopDomain}
+            autoComplete="off"
+            helpText="The domain customers sign in on. Autofill only works on this exact domain."
+          />
+        )}
+
+        <TextField
+          label="Android app hash"
+          value={androidAppHash}
+          onChange={(value) => onChange("androidAppHash", value)}
+          autoComplete="off"
+          helpText="Only needed if you have an Android app that signs customers in with the SMS Retriever API (11 characters)."
+        />
+      </BlockStack>
+    </Card>
+  );
+}
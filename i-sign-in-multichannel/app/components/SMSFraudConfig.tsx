@@ -0,0 +1,87 @@
+import { Badge, BlockStack, Button, Card, InlineStack, Text, TextField } from "@shopify/polaris";
+import type { BlockedPrefix, SMSFraudReason } from "../services/SMSFraudService";
+
+interface SMSFraudConfigProps {
+  smsCountryAllowlist: string;
+  smsCountryDenylist: string;
+  blockedPrefixes: BlockedPrefix[];
+  isLoading: boolean;
+  onChange: (field: string, value: string | boolean) => void;
+  onUnblock: (prefix: string) => void;
+}
+
+const BLOCK_REASONS: Partial<Record<SMSFraudReason, string>> = {
+  prefix_velocity: "Too many codes requested",
+  low_verify_ratio: "Codes rarely entered",
+};
+
+export function SMSFraudConfig({
+  smsCountryAllowlist,
+  smsCountryDenylist,
+  blockedPrefixes,
+  isLoading,
+  onChange,
+  onUnblock,
+}: SMSFraudConfigProps) {
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <BlockStack gap="200">
+          <Text as="h2" variant="headingMd">
+            SMS Fraud Protection
+          </Text>
+          <Text as="p" variant="bodyMd" tone="subdued">
+            Stop bots from requesting codes to premium-rate numbers you pay for (SMS pumping). Countries that suddenly
+            request many codes that are never entered are paused automatically.
+          </Text>
+        </BlockStack>
+
+        <TextField
+          label="Only send codes to these countries"
+          value={smsCountryAllowlist}
+          onChange={(value) => onChange("smsCountryAllowlist", value)}
+          placeholder="+1, +44"
+          autoComplete="off"
+          helpText="Country calling codes separated by commas. Leave empty to allow every country."
+        />
+
+        <TextField
+          label="Never send codes to these countries"
+          value={smsCountryDenylist}
+          onChange={(value) => onChange("smsCountryDenylist", value)}
+          placeholder="+234, +880"
+          autoComplete="off"
+          helpText="Country calling codes or longer number prefixes separated by commas."
+        />
+
+        <BlockStack gap="200">
+          <Text as="h3" variant="headingSm">
+            Paused number ranges
+          </Text>
+          {blockedPrefixes.length === 0 ? (
+            <Text as="p" variant="bodyMd" tone="subdued">
+              No number ranges are paused right now.
+            </Text>
+          ) : (
+            blockedPrefixes.map((block) => (
+              <InlineStack key={block.prefix} align="space-between" blockAlign="center">
+                <InlineStack gap="200" blockAlign="center">
+                  <Text as="span" variant="bodyMd" fontWeight="semibold">
+                    {block.prefix}
+                  </Text>
+                  <Badge tone="critical">{BLOCK_REASONS[block.reason] || "Paused"}</Badge>
+                  <Text as="span" variant="bodySm" tone="subdued">
+                    {block.verified} of {block.sent} codes entered, until {new Date(block.expiresAt).toLocaleTimeString()}
+                  </Text>
+                </InlineStack>
+                <Button onClick={() => onUnblock(block.prefix)} loading={isLoading}>
+                  Resume
+                </Button>
+              </InlineStack>
+            ))
+          )}
+        </BlockStack>
+      </BlockStack>
+    </Card>
+  );
+}
@@ -1,5 +1,16 @@
-import { BlockStack, Button, Card, InlineStack, Select, Text, TextField } from "@shopify/polaris";
+import { BlockStack, Button, Card, Checkbox, FormLayout, InlineStack, Select, Text, TextField } from "@shopify/polaris";
 import { useState } from "react";
+import type { SMSRoutingRule } from "../services/SMSService";
+
+export type SMSProviderName = "sms.to" | "twilio" | "vonage" | "plivo" | "messagebird";
+
+const PROVIDER_OPTIONS: { label: string; value: SMSProviderName }[] = [
+  { label: "sms.to", value: "sms.to" },
+  { label: "Twilio", value: "twilio" },
+  { label: "Vonage", value: "vonage" },
+  { label: "Plivo", value: "plivo" },
+  { label: "MessageBird", value: "messagebird" },
+];
 
 interface SMSProviderConfigProps {
   smsPrimary: string;
@@ -8,8 +19,17 @@ interface SMSProviderConfigProps {
   twilioAccountSid: string;
   twilioAuthToken: string;
   twilioFromNumber: string;
+  vonageApiKey: string;
+  vonageApiSecret: string;
+  vonageFrom: string;
+  plivoAuthId: string;
+  plivoAuthToken: string;
+  plivoFrom: string;
+  messageBirdAccessKey: string;
+  messageBirdOriginator: string;
+  smsRoutingRules: SMSRoutingRule[];
   onChange: (field: string, value: string) => void;
-  onTestConnection: (provider: "sms.to" | "twilio") => void;
+  onTestConnection: (provider: SMSProviderName) => void;
 }
 
 export function SMSProviderConfig({
@@ -19,12 +39,21 @@ export function SMSProviderConfig({
   twilioAccountSid,
   twilioAuthToken,
   twilioFromNumber,
+  vonageApiKey,
+  vonageApiSecret,
+  vonageFrom,
+  plivoAuthId,
+  plivoAuthToken,
+  plivoFrom,
+  messageBirdAccessKey,
+  messageBirdOriginator,
+  smsRoutingRules,
   onChange,
   onTestConnection,
 }: SMSProviderConfigProps) {
-  const [testing, setTesting] = useState<"sms.to" | "twilio" | null>(null);
+  const [testing, setTesting] = useState<SMSProviderName | null>(null);
 
-  const handleTestConnection = async (provider: "sms.to" | "twilio") => {
+  const handleTestConnection = async (provider: SMSProviderName) => {
     setTesting(provider);
     try {
       await onTestConnection(provider);
@@ -33,6 +62,15 @@ export function SMSProviderConfig({
     }
   };
 
+  // The routing table is saved as one JSON field
+  const updateRoutingRules = (rules: SMSRoutingRule[]) => {
+    onChange("smsRoutingRules", JSON.stringify(rules));
+  };
+
+  const updateRoutingRule = (index: number, changes: Partial<SMSRoutingRule>) => {
+    updateRoutingRules(smsRoutingRules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
   return (
     <Card>
       <BlockStack gap="400">
@@ -40,15 +78,12 @@ export function SMSProviderConfig({
           SMS Provider Configuration
         </Text>
         <Text as="p" variant="bodyMd" tone="subdued">
-          Configure your SMS providers for sending OTP codes. The primary provider will be used first, with automatic failover to the secondary.
+          Configure your SMS providers for sending OTP codes. The primary provider will be used first, with automatic failover to the others.
         </Text>
 
         <Select
           label="Primary SMS Provider"
-          options={[
-            { label: "sms.to", value: "sms.to" },
-            { label: "Twilio", value: "twilio" },
-          ]}
+          options={PROVIDER_OPTIONS}
           value={smsPrimary}
           onChange={(value) => onChange("smsPrimary", value)}
         />
@@ -115,6 +150,166 @@ export function SMSProviderConfig({
             </Button>
           </InlineStack>
         </BlockStack>
+
+        <BlockStack gap="400">
+          <Text as="h3" variant="headingSm">
+            Vonage Configuration
+          </Text>
+          <TextField
+            label="API Key"
+            value={vonageApiKey}
+            onChange={(value) => onChange("vonageApiKey", value)}
+            autoComplete="off"
+          />
+          <TextField
+            label="API Secret"
+            value={vonageApiSecret}
+            onChange={(value) => onChange("vonageApiSecret", value)}
+            type="password"
+            autoComplete="off"
+          />
+          <TextField
+            label="Sender"
+            value={vonageFrom}
+            onChange={(value) => onChange("vonageFrom", value)}
+            helpText="Alphanumeric sender ID or a Vonage virtual number"
+            autoComplete="off"
+          />
+          <InlineStack align="start">
+            <Button
+              onClick={() => handleTestConnection("vonage")}
+              loading={testing === "vonage"}
+              disabled={!vonageApiKey || !vonageApiSecret || !vonageFrom}
+            >
+              Test Vonage Connection
+            </Button>
+          </InlineStack>
+        </BlockStack>
+
+        <BlockStack gap="400">
+          <Text as="h3" variant="headingSm">
+            Plivo Configuration
+          </Text>
+          <TextField
+            label="Auth ID"
+            value={plivoAuthId}
+            onChange={(value) => onChange("plivoAuthId", value)}
+            autoComplete="off"
+          />
+          <TextField
+            label="Auth Token"
+            value={plivoAuthToken}
+            onChange={(value) => onChange("plivoAuthToken", value)}
+            type="password"
+            autoComplete="off"
+          />
+          <TextField
+            label="Sender"
+            value={plivoFrom}
+            onChange={(value) => onChange("plivoFrom", value)}
+            placeholder="+1234567890"
+            helpText="Plivo number or approved sender ID"
+            autoComplete="off"
+          />
+          <InlineStack align="start">
+            <Button
+              onClick={() => handleTestConnection("plivo")}
+              loading={testing === "plivo"}
+              disabled={!plivoAuthId || !plivoAuthToken || !plivoFrom}
+            >
+              Test Plivo Connection
+            </Button>
+          </InlineStack>
+        </BlockStack>
+
+        <BlockStack gap="400">
+          <Text as="h3" variant="headingSm">
+            MessageBird Configuration
+          </Text>
+          <TextField
+            label="Access Key"
+            value={messageBirdAccessKey}
+            onChange={(value) => onChange("messageBirdAccessKey", value)}
+            type="password"
+            autoComplete="off"
+          />
+          <TextField
+            label="Originator"
+            value={messageBirdOriginator}
+            onChange={(value) => onChange("messageBirdOriginator", value)}
+            helpText="Alphanumeric sender ID (up to 11 characters) or a phone number"
+            autoComplete="off"
+          />
+          <InlineStack align="start">
+            <Button
+              onClick={() => handleTestConnection("messagebird")}
+              loading={testing === "messagebird"}
+              disabled={!messageBirdAccessKey || !messageBirdOriginator}
+            >
+              Test MessageBird Connection
+            </Button>
+          </InlineStack>
+        </BlockStack>
+
+        <BlockStack gap="400">
+          <Text as="h3" variant="headingSm">
+            Country Routing
+          </Text>
+          <Text as="p" variant="bodyMd" tone="subdued">
+            Choose which provider sends first and the sender ID for a country, or stop sending SMS there. The longest matching prefix wins, so +1264 overrides +1; other countries use the primary provider.
+          </Text>
+
+          {smsRoutingRules.map((rule, index) => (
+            <BlockStack gap="200" key={index}>
+              <FormLayout>
+                <FormLayout.Group>
+                  <TextField
+                    label="Country prefix"
+                    value={rule.prefix}
+                    onChange={(value) => updateRoutingRule(index, { prefix: value.trim() })}
+                    placeholder="+44"
+                    autoComplete="off"
+                  />
+                  <Select
+                    label="Send first with"
+                    options={[{ label: "Default order", value: "" }, ...PROVIDER_OPTIONS]}
+                    value={rule.providers?.[0] || ""}
+                    onChange={(value) => updateRoutingRule(index, { providers: value ? [value] : undefined })}
+                    disabled={rule.disabled}
+                  />
+                  <TextField
+                    label="Sender ID"
+                    value={rule.senderId || ""}
+                    onChange={(value) => updateRoutingRule(index, { senderId: value || undefined })}
+                    helpText="Leave blank to use the provider's sender"
+                    autoComplete="off"
+                    disabled={rule.disabled}
+                  />
+                </FormLayout.Group>
+              </FormLayout>
+              <InlineStack align="space-between">
+                <Checkbox
+                  label="Don't send SMS to this country"
+                  checked={rule.disabled ?? false}
+                  onChange={(value) => updateRoutingRule(index, { disabled: value || undefined })}
+                />
+                <Button
+                  variant="plain"
+                  tone="critical"
+                  onClick={() => updateRoutingRules(smsRoutingRules.filter((_, i) => i !== index))}
+                >
+                  Remove
+                </Button>
+              </InlineStack>
+            </BlockStack>
+          ))}
+
+          <InlineStack align="start">
+            <Button onClick={() => updateRoutingRules([...smsRoutingRules, { prefix: "" }])}>
+              Add country
+            </Button>
+          </InlineStack>
+        </BlockStack>
       </BlockStack>
     </Card>
   );
@@ -0,0 +1,43 @@
+import { Badge, Banner, BlockStack, InlineStack, Text } from "@shopify/polaris";
+import { getSMSSegmentInfo } from "../lib/smsSegments";
+
+interface SMSSegmentPreviewProps {
+  message: string; // The message as sent, with placeholders filled in
+  segmentCost: number;
+  maxSegments?: number; // Warn when the message takes more segments than this
+}
+
+export function SMSSegmentPreview({ message, segmentCost, maxSegments = 1 }: SMSSegmentPreviewProps) {
+  const info = getSMSSegmentInfo(message);
+
+  return (
+    <BlockStack gap="200">
+      <InlineStack gap="200" blockAlign="center">
+        <Badge tone={info.encoding === "UCS-2" ? "warning" : undefined}>{info.encoding}</Badge>
+        <Text as="span" variant="bodySm" tone="subdued">
+          {info.length} characters, {info.segments} {info.segments === 1 ? "segment" : "segments"} ({info.remaining} left
+          in the last), about ${(info.segments * segmentCost).toFixed(4)} per message
+        </Text>
+      </InlineStack>
+
+      {info.encoding === "UCS-2" && (
+        <Banner tone="warning">
+          <p>
+            {info.nonGsmCharacters.join(" ")} {info.nonGsmCharacters.length === 1 ? "isn't" : "aren't"} in the
+            standard SMS alphabet, so the message is sent as Unicode and only {info.perSegment} characters fit in
+            each segment. Replace {info.nonGsmCharacters.length === 1 ? "it" : "them"} to lower the cost.
+          </p>
+        </Banner>
+      )}
+
+      {info.segments > maxSegments && (
+        <Banner tone="warning">
+          <p>
+            This message is sent as {info.segments} segments and costs {info.segments} times as much as a
+            single SMS. Shorten it to fit in {maxSegments === 1 ? "one segment" : `${maxSegments} segments`}.
+          </p>
+        </Banner>
+      )}
+    </BlockStack>
+  );
+}
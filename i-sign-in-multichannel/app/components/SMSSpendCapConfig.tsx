@@ -0,0 +1,58 @@
+import { Banner, BlockStack, Card, ProgressBar, Text, TextField } from "@shopify/polaris";
+import type { SMSSpendCapStatus } from "../services/SMSCostService";
+
+interface SMSSpendCapConfigProps {
+  smsMonthlySpendCap: string;
+  spendCap: SMSSpendCapStatus;
+  onChange: (field: string, value: string | boolean) => void;
+}
+
+export function SMSSpendCapConfig({ smsMonthlySpendCap, spendCap, onChange }: SMSSpendCapConfigProps) {
+  const { spent, cap, currency, reached } = spendCap;
+
+  return (
+    <Card>
+      <BlockStack gap="400">
+        <BlockStack gap="200">
+          <Text as="h2" variant="headingMd">
+            SMS Spend Cap
+          </Text>
+          <Text as="p" variant="bodyMd" tone="subdued">
+            Stop sending order confirmations once this month's SMS spend reaches a limit. Sign-in codes and password
+            resets are always sent.
+          </Text>
+        </BlockStack>
+
+        <TextField
+          label="Monthly spend cap"
+          type="number"
+          min={0}
+          step={0.01}
+          value={smsMonthlySpendCap}
+          onChange={(value) => onChange("smsMonthlySpendCap", value)}
+          prefix={currency}
+          autoComplete="off"
+          helpText={`Counts what your providers charged in ${currency}. Leave empty for no cap.`}
+        />
+
+        {cap !== null && (
+          <BlockStack gap="200">
+            <ProgressBar progress={Math.min(100, (spent / cap) * 100)} tone={reached ? "critical" : "primary"} size="small" />
+            <Text as="p" variant="bodySm" tone="subdued">
+              {currency} {spent.toFixed(2)} of {cap.toFixed(2)} spent this month
+            </Text>
+          </BlockStack>
+        )}
+
+        {reached && (
+          <Banner tone="warning">
+            <p>
+              The cap has been reached, so order confirmations are paused until the start of next month (UTC). Raise the
+              cap to send them again.
+            </p>
+          </Banner>
+        )}
+      </BlockStack>
+    </Card>
+  );
+}
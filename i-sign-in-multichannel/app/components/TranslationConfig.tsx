@@ -17,10 +17,12 @@ import {
 } from "@shopify/polaris";
 import { useState } from "react";
 import { getSupportedLanguages, getTranslations, type SupportedLanguage } from "../lib/i18n.server";
+import { SMSSegmentPreview } from "./SMSSegmentPreview";
 
 interface TranslationConfigProps {
   defaultLanguage: string;
   customTranslations?: string; // JSON string
+  segmentCost: number; // Price of one SMS segment, for the message previews
   onSave: (language: string, translations: Record<string, string>) => void;
 }
 
@@ -34,6 +36,7 @@ const languageNames: Record<SupportedLanguage, string> = {
 export function TranslationConfig({
   defaultLanguage,
   customTranslations,
+  segmentCost,
   onSave,
 }: TranslationConfigProps) {
   const [selectedLanguage, setSelectedLanguage] = useState<SupportedLanguage>(
@@ -219,6 +222,10 @@ export function TranslationConfig({
             helpText={`Default: ${defaultTranslations.sms.otpMessage}. Use {code} as placeholder.`}
             multiline={2}
           />
+          <SMSSegmentPreview
+            message={getFieldValue("sms.otpMessage", defaultTranslations.sms.otpMessage).replace("{code}", "123456")}
+            segmentCost={segmentCost}
+          />
 
           <TextField
             label="Order Confirmation"
@@ -228,6 +235,12 @@ export function TranslationConfig({
             helpText={`Default: ${defaultTranslations.sms.orderConfirmation}. Use {number} and \${total} as placeholders.`}
             multiline={3}
           />
+          <SMSSegmentPreview
+            message={getFieldValue("sms.orderConfirmation", defaultTranslations.sms.orderConfirmation)
+              .replace("{number}", "1001")
+              .replace("${total}", "49.99")}
+            segmentCost={segmentCost}
+          />
         </FormLayout>
 
         <InlineStack gap="200">
@@ -3,6 +3,9 @@
  * Loads environment variables and provides typed config access
  */
 
+// Stand-in for secrets in development; validateConfig refuses to start with it as the OTP key anywhere else
+const DEVELOPMENT_SECRET = 'change_this_to_a_random_secret';
+
 export const config = {
     // Shopify Configuration
     shopify: {
@@ -25,6 +28,44 @@ export const config = {
             authToken: process.env.TWILIO_AUTH_TOKEN || '',
             fromNumber: process.env.TWILIO_FROM_NUMBER || '',
         },
+        // Store messages in Redis for the admin inbox instead of sending them (development and E2E tests)
+        sandbox: {
+            enabled: process.env.SMS_SANDBOX_ENABLED === 'true',
+            dlrDelayMs: parseInt(process.env.SMS_SANDBOX_DLR_DELAY_MS || '1000', 10),
+            dlrStatus: (process.env.SMS_SANDBOX_DLR_STATUS === 'failed' ? 'failed' : 'delivered') as 'delivered' | 'failed',
+        },
+        // Circuit breaker: skip a provider for a while once too many of its recent sends fail
+        circuitBreaker: {
+            windowSize: parseInt(process.env.SMS_CIRCUIT_WINDOW_SIZE || '20', 10),
+            minimumRequests: parseInt(process.env.SMS_CIRCUIT_MINIMUM_REQUESTS || '5', 10),
+            failureRateThreshold: parseFloat(process.env.SMS_CIRCUIT_FAILURE_RATE || '0.5'),
+            openDurationSeconds: parseInt(process.env.SMS_CIRCUIT_OPEN_SECONDS || '60', 10),
+        },
+        // Re-send OTPs through another provider when the delivery receipt reports failure or never arrives
+        deliveryReceipts: {
+            resendEnabled: process.env.SMS_DLR_RESEND_ENABLED === 'true',
+            timeoutSeconds: parseInt(process.env.SMS_DLR_TIMEOUT_SECONDS || '90', 10),
+            maxResends: parseInt(process.env.SMS_DLR_MAX_RESENDS || '1', 10),
+            sweepIntervalSeconds: parseInt(process.env.SMS_DLR_SWEEP_INTERVAL_SECONDS || '15', 10),
+        },
+        // SMS pumping protection: per-country velocity limits and blocks for prefixes whose codes go unverified
+        fraud: {
+            enabled: process.env.SMS_FRAUD_PROTECTION_ENABLED !== 'false',
+            windowSeconds: parseInt(process.env.SMS_FRAUD_WINDOW_SECONDS || '3600', 10),
+            maxSendsPerPrefix: parseInt(process.env.SMS_FRAUD_MAX_SENDS_PER_PREFIX || '500', 10),
+            minSendsForRatio: parseInt(process.env.SMS_FRAUD_MIN_SENDS_FOR_RATIO || '50', 10),
+            minVerifyRatio: parseFloat(process.env.SMS_FRAUD_MIN_VERIFY_RATIO || '0.2'),
+            blockDurationSeconds: parseInt(process.env.SMS_FRAUD_BLOCK_SECONDS || '3600', 10),
+            // Automatic prefix blocks are only logged until SMS_FRAUD_LOG_ONLY=false; the country lists always apply
+            logOnly: process.env.SMS_FRAUD_LOG_ONLY !== 'false',
+            // Comma-separated country prefixes applied to every shop, e.g. "+44,+1"; shops add their own in settings
+            allowlist: process.env.SMS_COUNTRY_ALLOWLIST || '',
+            denylist: process.env.SMS_COUNTRY_DENYLIST || '',
+        },
+        // Price of one SMS segment in SMS_COST_CURRENCY, for cost estimates; long and Unicode messages take several
+        segmentCost: parseFloat(process.env.SMS_SEGMENT_COST || '0.0079'),
+        // Currency ledger entries are recorded in when a provider doesn't report one; spend caps are set in it
+        costCurrency: (process.env.SMS_COST_CURRENCY || 'USD').toUpperCase(),
     },
 
     // OAuth Provider Configuration
@@ -36,6 +77,35 @@ export const config = {
         },
     },
 
+    // Passkey (WebAuthn) Configuration
+    // The relying party ID must match the storefront domain the login form runs on
+    passkey: {
+        rpId: process.env.PASSKEY_RP_ID || process.env.SHOPIFY_SHOP_DOMAIN || 'localhost',
+        rpName: process.env.PASSKEY_RP_NAME || 'Shopify Store',
+        origin: process.env.PASSKEY_ORIGIN || `https://${process.env.SHOPIFY_SHOP_DOMAIN || 'localhost'}`,
+        challengeTtlSeconds: parseInt(process.env.PASSKEY_CHALLENGE_TTL_SECONDS || '300', 10),
+        enrollmentTtlSeconds: parseInt(process.env.PASSKEY_ENROLLMENT_TTL_SECONDS || '600', 10),
+    },
+
+    // Email Configuration
+    // Without SMTP_HOST, emails are written to the log (development only)
+    email: {
+        from: process.env.EMAIL_FROM || 'no-reply@localhost',
+        smtp: {
+            host: process.env.SMTP_HOST || '',
+            port: parseInt(process.env.SMTP_PORT || '587', 10),
+            secure: process.env.SMTP_SECURE === 'true',
+            user: process.env.SMTP_USER || '',
+            pass: process.env.SMTP_PASS || '',
+        },
+    },
+
+    // Password Configuration
+    password: {
+        saltRounds: parseInt(process.env.PASSWORD_SALT_ROUNDS || '12', 10),
+        resetTokenTtlSeconds: parseInt(process.env.PASSWORD_RESET_TOKEN_TTL_SECONDS || '1800', 10),
+    },
+
     // Redis Configuration
     redis: {
         url: process.env.REDIS_URL || 'redis://localhost:6379',
@@ -61,6 +131,15 @@ export const config = {
         ttlSeconds: parseInt(process.env.OTP_TTL_SECONDS || '300', 10),
         maxAttempts: parseInt(process.env.OTP_MAX_ATTEMPTS || '5', 10),
         blockDurationSeconds: parseInt(process.env.OTP_BLOCK_DURATION_SECONDS || '900', 10),
+        // HMAC key for codes at rest; Redis only ever holds hashes
+        hashSecret: process.env.OTP_HASH_SECRET || process.env.SESSION_SECRET || DEVELOPMENT_SECRET,
+    },
+
+    // Phone Number Configuration
+    // PHONE_DEFAULT_REGION (e.g. GB) is used for numbers typed without a country code
+    phone: {
+        defaultRegion: process.env.PHONE_DEFAULT_REGION || '',
+        rejectVoip: process.env.PHONE_REJECT_VOIP === 'true',
     },
 
     // SMS Configuration
@@ -93,6 +172,11 @@ export function validateConfig(): void {
         missing.forEach(field => console.warn(`   - ${field.key}`));
         console.warn('   Please configure these in your .env file or environment');
     }
+
+    // Stored codes are only as safe as their HMAC key, so a shared stand-in is never used outside development
+    if (config.app.nodeEnv !== 'development' && config.otp.hashSecret === DEVELOPMENT_SECRET) {
+        throw new Error('OTP_HASH_SECRET (or SESSION_SECRET) must be set outside development');
+    }
 }
 
 // Export infrastructure modules
@@ -6,8 +6,12 @@ import {
   type EntryContext,
 } from "@remix-run/node";
 import { isbot } from "isbot";
+import { validateConfig } from "./config";
 import { addDocumentResponseHeaders } from "./shopify.server";
 
+// The server bundle loads this module at startup, so bad configuration stops it there
+validateConfig();
+
 export const streamTimeout = 5000;
 
 export default async function handleRequest(
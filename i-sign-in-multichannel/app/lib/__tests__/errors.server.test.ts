@@ -0,0 +1,50 @@
+/**
+ * Error Response Unit Tests
+ * Tests that the localized error responses used on sign-in error paths can be built
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  ErrorCode,
+  invalidResetTokenError,
+  oauthSignInExpiredError,
+  profileSignInExpiredError
+} from '../errors.server';
+
+describe('error responses', () => {
+  it('should build the expired profile completion error in the customer\'s language', async () => {
+    const response = profileSignInExpiredError('es', 'request-1');
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toEqual({
+      success: false,
+      error: {
+        code: ErrorCode.PROFILE_SIGN_IN_EXPIRED,
+        message: 'Tu inicio de sesión ha caducado. Solicita un nuevo código.'
+      },
+      requestId: 'request-1'
+    });
+  });
+
+  it('should build the expired OAuth sign-in error', async () => {
+    const response = oauthSignInExpiredError();
+    const body = await response.json();
+
+    expect(response.status).toBe(401);
+    expect(body.error).toEqual({
+      code: ErrorCode.OAUTH_SIGN_IN_EXPIRED,
+      message: 'Your sign-in has expired. Please start again.'
+    });
+    expect(body.requestId).toEqual(expect.any(String));
+  });
+
+  it('should fall back to English for languages without translations', async () => {
+    const response = invalidResetTokenError('xx');
+
+    expect(response.status).toBe(401);
+    expect((await response.json()).error).toEqual({
+      code: ErrorCode.INVALID_RESET_TOKEN,
+      message: 'This reset link is invalid or has expired.'
+    });
+  });
+});
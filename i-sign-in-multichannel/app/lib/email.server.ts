@@ -0,0 +1,73 @@
+/**
+ * Email transport for server-side use
+ * Sends transactional emails over SMTP, or logs them when SMTP is not configured
+ */
+
+import type { Transporter } from 'nodemailer';
+import nodemailer from 'nodemailer';
+import { config } from '../config';
+import { logger } from '../config/logger.js';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+let transporter: Transporter | null = null;
+
+/**
+ * Get or create the SMTP transporter
+ * Returns null when SMTP is not configured
+ */
+function getTransporter(): Transporter | null {
+  if (transporter || !config.email.smtp.host) {
+    return transporter;
+  }
+
+  transporter = nodemailer.createTransport({
+    host: config.email.smtp.host,
+    port: config.email.smtp.port,
+    secure: config.email.smtp.secure,
+    auth: config.email.smtp.user
+      ? { user: config.email.smtp.user, pass: config.email.smtp.pass }
+      : undefined
+  });
+
+  logger.info('Email transport initialized', { host: config.email.smtp.host });
+
+  return transporter;
+}
+
+/**
+ * Send an email
+ * Throws when SMTP is not configured in production so callers can report the failure
+ */
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  const smtp = getTransporter();
+
+  if (!smtp) {
+    if (config.app.nodeEnv === 'production') {
+      throw new Error('Email is not configured');
+    }
+
+    logger.info('Email (not sent, SMTP not configured)', {
+      to: message.to,
+      subject: message.subject,
+      text: message.text
+    });
+    return;
+  }
+
+  const info = await smtp.sendMail({
+    from: config.email.from,
+    ...message
+  });
+
+  logger.info('Email sent', {
+    to: message.to,
+    subject: message.subject,
+    messageId: info.messageId
+  });
+}
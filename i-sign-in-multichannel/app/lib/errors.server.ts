@@ -6,6 +6,7 @@
 
 import { json } from "@remix-run/node";
 import { logger } from "../config/logger";
+import { getTranslations } from "./i18n.server";
 
 /**
  * Standard error response format
@@ -36,6 +37,13 @@ export enum ErrorCode {
   EXPIRED_OTP = "EXPIRED_OTP",
   INVALID_CREDENTIALS = "INVALID_CREDENTIALS",
   EXPIRED_SESSION = "EXPIRED_SESSION",
+  PASSWORD_RESET_REQUIRED = "PASSWORD_RESET_REQUIRED",
+  INVALID_RESET_TOKEN = "INVALID_RESET_TOKEN",
+  OAUTH_SIGN_IN_EXPIRED = "OAUTH_SIGN_IN_EXPIRED",
+  PROFILE_SIGN_IN_EXPIRED = "PROFILE_SIGN_IN_EXPIRED",
+  
+  // Conflict errors (409)
+  EMAIL_IN_USE = "EMAIL_IN_USE",
   
   // Rate limiting errors (429)
   RATE_LIMIT_EXCEEDED = "RATE_LIMIT_EXCEEDED",
@@ -319,6 +327,77 @@ export function accountBlockedError(language: string = 'en', requestId?: string)
   );
 }
 
+/**
+ * Create a password reset required error response (401)
+ * Returned for existing customers who have no stored password yet
+ */
+export function passwordResetRequiredError(language: string = 'en', requestId?: string) {
+  const t = getTranslations(language);
+  return createErrorResponse(
+    ErrorCode.PASSWORD_RESET_REQUIRED,
+    t.errors.passwordResetRequired,
+    401,
+    undefined,
+    requestId
+  );
+}
+
+/**
+ * Create an invalid or expired reset token error response (401)
+ */
+export function invalidResetTokenError(language: string = 'en', requestId?: string) {
+  const t = getTranslations(language);
+  return createErrorResponse(
+    ErrorCode.INVALID_RESET_TOKEN,
+    t.errors.invalidResetLink,
+    401,
+    undefined,
+    requestId
+  );
+}
+
+/**
+ * Create an expired pending OAuth sign-in error response (401)
+ */
+export function oauthSignInExpiredError(language: string = 'en', requestId?: string) {
+  const t = getTranslations(language);
+  return createErrorResponse(
+    ErrorCode.OAUTH_SIGN_IN_EXPIRED,
+    t.errors.oauthSignInExpired,
+    401,
+    undefined,
+    requestId
+  );
+}
+
+/**
+ * Create an expired pending profile completion error response (401)
+ */
+export function profileSignInExpiredError(language: string = 'en', requestId?: string) {
+  const t = getTranslations(language);
+  return createErrorResponse(
+    ErrorCode.PROFILE_SIGN_IN_EXPIRED,
+    t.errors.profileSignInExpired,
+    401,
+    undefined,
+    requestId
+  );
+}
+
+/**
+ * Create an email already used by another customer error response (409)
+ */
+export function emailInUseError(language: string = 'en', requestId?: string) {
+  const t = getTranslations(language);
+  return createErrorResponse(
+    ErrorCode.EMAIL_IN_USE,
+    t.errors.emailInUse,
+    409,
+    undefined,
+    requestId
+  );
+}
+
 /**
  * Create a missing required field error response (400)
  */
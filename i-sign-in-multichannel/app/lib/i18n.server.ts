@@ -37,6 +37,11 @@ export interface Translations {
     invalidEmail: string;
     invalidCredentials: string;
     accountBlocked: string;
+    passwordResetRequired: string;
+    invalidResetLink: string;
+    oauthSignInExpired: string;
+    profileSignInExpired: string;
+    emailInUse: string;
     requiredField: string;
     genericError: string;
   };
@@ -47,6 +52,11 @@ export interface Translations {
     orderConfirmation: string; // Template: "Thank you for your order! Order #{number} - Total: ${total}"
   };
   
+  // Voice call message templates (read out by text-to-speech)
+  voice: {
+    otpMessage: string; // Template: "Your verification code is {code}. Again, your code is {code}."
+  };
+  
   // Success messages
   success: {
     codeSent: string;
@@ -84,6 +94,11 @@ const translations: Record<SupportedLanguage, Translations> = {
       invalidEmail: 'Invalid email address.',
       invalidCredentials: 'Invalid email or password.',
       accountBlocked: 'Account temporarily blocked. Please try again in 15 minutes.',
+      passwordResetRequired: 'Please reset your password to continue.',
+      invalidResetLink: 'This reset link is invalid or has expired.',
+      oauthSignInExpired: 'Your sign-in has expired. Please start again.',
+      profileSignInExpired: 'Your sign-in has expired. Please request a new code.',
+      emailInUse: 'This email is already used by another account. Sign in with your email instead.',
       requiredField: 'This field is required.',
       genericError: 'An error occurred. Please try again.',
     },
@@ -91,6 +106,9 @@ const translations: Record<SupportedLanguage, Translations> = {
       otpMessage: 'Your verification code is: {code}',
       orderConfirmation: 'Thank you for your order! Order #{number} - Total: ${total}. We\'ll notify you when it ships.',
     },
+    voice: {
+      otpMessage: 'Your verification code is {code}. Again, your code is {code}.',
+    },
     success: {
       codeSent: 'Verification code sent successfully.',
       loginSuccess: 'Login successful!',
@@ -126,6 +144,11 @@ const translations: Record<SupportedLanguage, Translations> = {
       invalidEmail: 'Dirección de correo electrónico inválida.',
       invalidCredentials: 'Correo electrónico o contraseña inválidos.',
       accountBlocked: 'Cuenta bloqueada temporalmente. Por favor, inténtalo en 15 minutos.',
+      passwordResetRequired: 'Restablece tu contraseña para continuar.',
+      invalidResetLink: 'Este enlace de restablecimiento no es válido o ha caducado.',
+      oauthSignInExpired: 'Tu inicio de sesión ha caducado. Vuelve a empezar.',
+      profileSignInExpired: 'Tu inicio de sesión ha caducado. Solicita un nuevo código.',
+      emailInUse: 'Este correo ya está en uso en otra cuenta. Inicia sesión con tu correo.',
       requiredField: 'Este campo es obligatorio.',
       genericError: 'Ocurrió un error. Por favor, inténtalo de nuevo.',
     },
@@ -133,6 +156,9 @@ const translations: Record<SupportedLanguage, Translations> = {
       otpMessage: 'Tu código de verificación es: {code}',
       orderConfirmation: '¡Gracias por tu pedido! Pedido #{number} - Total: ${total}. Te notificaremos cuando se envíe.',
     },
+    voice: {
+      otpMessage: 'Tu código de verificación es {code}. Repito, tu código es {code}.',
+    },
     success: {
       codeSent: 'Código de verificación enviado exitosamente.',
       loginSuccess: '¡Inicio de sesión exitoso!',
@@ -168,6 +194,11 @@ const translations: Record<SupportedLanguage, Translations> = {
       invalidEmail: 'Adresse email invalide.',
       invalidCredentials: 'Email ou mot de passe invalide.',
       accountBlocked: 'Compte temporairement bloqué. Veuillez réessayer dans 15 minutes.',
+      passwordResetRequired: 'Veuillez réinitialiser votre mot de passe pour continuer.',
+      invalidResetLink: 'Ce lien de réinitialisation est invalide ou a expiré.',
+      oauthSignInExpired: 'Votre connexion a expiré. Veuillez recommencer.',
+      profileSignInExpired: 'Votre connexion a expiré. Veuillez demander un nouveau code.',
+      emailInUse: 'Cet e-mail est déjà utilisé par un autre compte. Connectez-vous avec votre e-mail.',
       requiredField: 'Ce champ est obligatoire.',
       genericError: 'Une erreur s\'est produite. Veuillez réessayer.',
     },
@@ -175,6 +206,9 @@ const translations: Record<SupportedLanguage, Translations> = {
       otpMessage: 'Votre code de vérification est: {code}',
       orderConfirmation: 'Merci pour votre commande! Commande #{number} - Total: ${total}. Nous vous informerons lors de l\'expédition.',
     },
+    voice: {
+      otpMessage: 'Votre code de vérification est {code}. Je répète, votre code est {code}.',
+    },
     success: {
       codeSent: 'Code de vérification envoyé avec succès.',
       loginSuccess: 'Connexion réussie!',
@@ -210,6 +244,11 @@ const translations: Record<SupportedLanguage, Translations> = {
       invalidEmail: 'Ungültige E-Mail-Adresse.',
       invalidCredentials: 'Ungültige E-Mail oder Passwort.',
       accountBlocked: 'Konto vorübergehend gesperrt. Bitte versuchen Sie es in 15 Minuten erneut.',
+      passwordResetRequired: 'Bitte setzen Sie Ihr Passwort zurück, um fortzufahren.',
+      invalidResetLink: 'Dieser Link zum Zurücksetzen ist ungültig oder abgelaufen.',
+      oauthSignInExpired: 'Ihre Anmeldung ist abgelaufen. Bitte beginnen Sie erneut.',
+      profileSignInExpired: 'Ihre Anmeldung ist abgelaufen. Bitte fordern Sie einen neuen Code an.',
+      emailInUse: 'Diese E-Mail wird bereits von einem anderen Konto verwendet. Melden Sie sich mit Ihrer E-Mail an.',
       requiredField: 'Dieses Feld ist erforderlich.',
       genericError: 'Ein Fehler ist aufgetreten. Bitte versuchen Sie es erneut.',
     },
@@ -217,6 +256,9 @@ const translations: Record<SupportedLanguage, Translations> = {
       otpMessage: 'Ihr Bestätigungscode lautet: {code}',
       orderConfirmation: 'Vielen Dank für Ihre Bestellung! Bestellung #{number} - Gesamt: ${total}. Wir benachrichtigen Sie, wenn sie versendet wird.',
     },
+    voice: {
+      otpMessage: 'Ihr Bestätigungscode lautet {code}. Noch einmal, Ihr Code lautet {code}.',
+    },
     success: {
       codeSent: 'Bestätigungscode erfolgreich gesendet.',
       loginSuccess: 'Anmeldung erfolgreich!',
@@ -278,6 +320,16 @@ export function formatOTPMessage(code: string, language: string = 'en'): string
   return t.sms.otpMessage.replace('{code}', code);
 }
 
+/**
+ * Formats the spoken OTP message for a voice call
+ * Digits are separated so text-to-speech reads them one at a time
+ */
+export function formatVoiceOTPMessage(code: string, language: string = 'en'): string {
+  const t = getTranslations(language);
+  const spokenCode = code.split('').join(', ');
+  return t.voice.otpMessage.replace(/\{code\}/g, spokenCode);
+}
+
 /**
  * Formats an order confirmation SMS message
  */
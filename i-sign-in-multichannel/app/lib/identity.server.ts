@@ -0,0 +1,42 @@
+/**
+ * Linked identity helpers for server-side use
+ * Lets SMS, email and OAuth sign-ins resolve to the customer an identity was linked to
+ */
+
+import { logger } from '../config/logger.js';
+import type { CustomerService, ShopifyCustomer } from '../services/CustomerService';
+import type { IdentityInput } from '../services/IdentityService';
+import { IdentityService } from '../services/IdentityService';
+import { getRedis } from './redis.server';
+
+/**
+ * Find the customer an identity was linked to
+ * Returns null when the identity is not linked or its customer no longer exists
+ */
+export async function findLinkedCustomer(
+  customerService: CustomerService,
+  provider: string,
+  subject: string
+): Promise<ShopifyCustomer | null> {
+  const identityService = new IdentityService(getRedis());
+  const customerId = await identityService.findCustomerId(provider, subject);
+
+  return customerId ? customerService.findById(customerId) : null;
+}
+
+/**
+ * Record the identity a customer signed in with
+ * Bookkeeping only, so failures never fail the sign-in itself
+ */
+export async function recordIdentity(customerId: string, identity: IdentityInput): Promise<void> {
+  try {
+    const identityService = new IdentityService(getRedis());
+    await identityService.linkIdentity(customerId, identity);
+  } catch (error) {
+    logger.error('Failed to record identity', {
+      provider: identity.provider,
+      customerId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
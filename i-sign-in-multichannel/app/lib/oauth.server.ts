@@ -0,0 +1,262 @@
+/**
+ * OAuth sign-in helpers for server-side use
+ * Shared by the OAuth callback and the collect-email step for providers that return no verified email
+ */
+
+import crypto from 'crypto';
+import { logger } from '../config/logger.js';
+import prisma from '../db.server';
+import type { OAuthCallbackUser, UserProfile } from '../providers/IOAuthProvider';
+import { OIDCProvider } from '../providers/OIDCProvider';
+import { CustomerService } from '../services/CustomerService';
+import type { CustomerData } from '../services/MultipassService';
+import { MultipassService } from '../services/MultipassService';
+import { findLinkedCustomer, recordIdentity } from './identity.server';
+import { getRedis } from './redis.server';
+
+// How long a customer who declined to share their email has to verify one
+const PENDING_SIGN_IN_TTL_SECONDS = 900;
+
+// Merchant-configured OIDC providers are registered with the OAuth service under this prefix
+export const OIDC_PROVIDER_PREFIX = 'oidc-';
+
+// Discovered providers are kept per process so discovery and JWKS fetches are not repeated on every sign-in
+const oidcProviderCache = new Map<string, { provider: OIDCProvider; updatedAt: number }>();
+
+export interface PendingOAuthSignIn {
+  shop: string;
+  provider: string;
+  profile: Omit<UserProfile, 'email' | 'emailVerified'>;
+  returnTo?: string | null;
+}
+
+/**
+ * Store an OAuth sign-in that is waiting for the customer to verify an email
+ * Returns the opaque token handed to the storefront
+ */
+export async function storePendingOAuthSignIn(pending: PendingOAuthSignIn): Promise<string> {
+  const token = crypto.randomBytes(32).toString('hex');
+
+  await getRedis().setex(
+    getPendingKey(token),
+    PENDING_SIGN_IN_TTL_SECONDS,
+    JSON.stringify(pending)
+  );
+
+  logger.info('Pending OAuth sign-in stored', {
+    shop: pending.shop,
+    provider: pending.provider,
+    userId: pending.profile.id
+  });
+
+  return token;
+}
+
+export async function getPendingOAuthSignIn(token: string): Promise<PendingOAuthSignIn | null> {
+  const data = await getRedis().get(getPendingKey(token));
+  return data ? JSON.parse(data) as PendingOAuthSignIn : null;
+}
+
+export async function deletePendingOAuthSignIn(token: string): Promise<void> {
+  await getRedis().del(getPendingKey(token));
+}
+
+export function isOidcProvider(provider: string): boolean {
+  return provider.startsWith(OIDC_PROVIDER_PREFIX);
+}
+
+/**
+ * Load an enabled OIDC provider for a shop, e.g. "oidc-okta", and build it from the issuer's discovery document
+ * Returns null when the shop has no such provider
+ */
+export async function getOidcProvider(shopId: string, provider: string): Promise<OIDCProvider | null> {
+  const slug = provider.slice(OIDC_PROVIDER_PREFIX.length);
+
+  const record = await prisma.oidcProvider.findUnique({
+    where: { shopId_slug: { shopId, slug } },
+  });
+
+  if (!record || !record.enabled) {
+    return null;
+  }
+
+  const cacheKey = `${shopId}:${slug}`;
+  const cached = oidcProviderCache.get(cacheKey);
+
+  // Edits in the admin bump updatedAt, which invalidates the cached provider
+  if (cached && cached.updatedAt === record.updatedAt.getTime()) {
+    return cached.provider;
+  }
+
+  const oidcProvider = await OIDCProvider.discover({
+    name: provider,
+    issuer: record.issuer,
+    clientId: record.clientId,
+    clientSecret: record.clientSecret,
+    scopes: record.scopes.split(/[\s,]+/).filter(Boolean),
+  });
+
+  oidcProviderCache.set(cacheKey, { provider: oidcProvider, updatedAt: record.updatedAt.getTime() });
+
+  return oidcProvider;
+}
+
+/**
+ * Whether the provider account is linked to a customer, who then signs in without the provider sharing an email
+ */
+export async function hasLinkedCustomer(provider: string, subject: string): Promise<boolean> {
+  return !!(await findLinkedCustomer(new CustomerService(), provider, subject));
+}
+
+/**
+ * Storefront login page that opens the collect-email step
+ */
+export function buildCollectEmailUrl(shop: string, provider: string, token: string): string {
+  const url = new URL(`https://${shop}/account/login`);
+  url.searchParams.set('oauth_pending', token);
+  url.searchParams.set('oauth_provider', provider);
+  return url.toString();
+}
+
+/**
+ * Find or create the Shopify customer for an OAuth profile and return the Multipass URL
+ * Requirements: 7.5, 7.6
+ */
+export async function completeOAuthSignIn({
+  shop,
+  shopId,
+  provider,
+  profile,
+  returnTo,
+  callbackUser,
+}: {
+  shop: string;
+  shopId: string;
+  provider: string;
+  profile: UserProfile;
+  returnTo?: string | null;
+  callbackUser?: OAuthCallbackUser;
+}): Promise<string> {
+  const customerService = new CustomerService();
+
+  // Requirement 7.5: Find or create Shopify customer
+  // A linked provider account wins over an email match, so linked SMS customers keep one account
+  const linkedCustomer = await findLinkedCustomer(customerService, provider, profile.id);
+
+  // Only a verified email may match an existing customer, or an issuer could claim anyone's address
+  if (!linkedCustomer && !profile.emailVerified) {
+    throw new Error('A verified email address is required to sign in');
+  }
+
+  let customer = linkedCustomer || (await customerService.findByEmail(profile.email));
+
+  if (!customer) {
+    logger.info('Customer not found, creating new customer from OAuth', {
+      provider,
+      shop,
+      email: profile.email,
+    });
+
+    customer = await customerService.create({
+      email: profile.email,
+      firstName: profile.firstName,
+      lastName: profile.lastName,
+      phone: profile.phone,
+      // Relay addresses (Hide My Email) only reach the customer through Apple's forwarder
+      tags: profile.isPrivateEmail
+        ? [`${provider}-auth`, `${provider}-private-relay`]
+        : [`${provider}-auth`],
+    });
+
+    logger.info('New customer created from OAuth profile', {
+      customerId: customer.id,
+      provider,
+      shop,
+      email: profile.email,
+    });
+  } else {
+    logger.info('Existing customer found for OAuth profile', {
+      customerId: customer.id,
+      provider,
+      shop,
+      email: profile.email,
+    });
+
+    // Keep the name Apple sends once if the customer has none yet
+    const firstName = customer.first_name ? undefined : callbackUser?.firstName;
+    const lastName = customer.last_name ? undefined : callbackUser?.lastName;
+
+    if (firstName || lastName) {
+      customer = await customerService.update(customer.id, { firstName, lastName });
+    }
+  }
+
+  // Update customer metafields
+  // Merchant-configured OIDC providers are registered as oidc-<slug>
+  await customerService.setAuthMethod(
+    customer.id,
+    isOidcProvider(provider) ? 'oidc' : provider as 'google' | 'apple' | 'facebook'
+  );
+  await customerService.setLastLogin(customer.id);
+  await recordIdentity(customer.id, {
+    provider,
+    subject: profile.id,
+    verified: profile.emailVerified,
+    email: profile.email || undefined,
+  });
+
+  // Requirement 7.6: Generate Multipass token
+  const multipassService = new MultipassService(prisma);
+
+  const customerData: CustomerData = {
+    // Linked SMS-only customers have no email; Multipass needs one, so use the same placeholder as SMS sign-in
+    email: customer.email || `${(customer.phone || customer.id).replace(/\+/g, '')}@phone.local`,
+    created_at: customer.created_at || new Date().toISOString(),
+    first_name: customer.first_name,
+    last_name: customer.last_name,
+    identifier: customer.id,
+    return_to: returnTo || undefined,
+  };
+
+  // Validate customer data
+  multipassService.validateCustomerData(customerData);
+
+  const multipassUrl = await multipassService.generateMultipassUrl(
+    shop,
+    customerData,
+    returnTo || undefined
+  );
+
+  logger.info('OAuth authentication successful', {
+    customerId: customer.id,
+    provider,
+    shop,
+    email: profile.email,
+  });
+
+  // Track successful authentication
+  try {
+    await prisma.analytics.create({
+      data: {
+        shopId,
+        eventType: 'auth_success',
+        method: provider,
+        metadata: JSON.stringify({
+          email: profile.email,
+          customerId: customer.id,
+        }),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to track analytics', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  return multipassUrl;
+}
+
+// Redis key helpers
+function getPendingKey(token: string): string {
+  return `oauth:pending:${token}`;
+}
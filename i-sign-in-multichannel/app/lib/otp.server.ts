@@ -0,0 +1,131 @@
+/**
+ * OTP helpers for server-side use
+ * Builds an OTPService that applies the shop's OTP policy and SMS pumping protection,
+ * and formats OTP messages for autofill
+ */
+
+import { config } from '../config';
+import { logger } from '../config/logger.js';
+import prisma from '../db.server';
+import { OTPService } from '../services/OTPService';
+import type { BlockedPrefix } from '../services/SMSFraudService';
+import { parseCountryPrefixes, SMSFraudService } from '../services/SMSFraudService';
+import type { SMSCountryLists } from '../services/SettingsService';
+import { SettingsService } from '../services/SettingsService';
+import { getRedis } from './redis.server';
+
+export interface OTPAutofillOptions {
+  // Storefront host the code is bound to; browsers only autofill on this origin
+  webOtpDomain?: string;
+  // 11-character hash identifying the Android app to the SMS Retriever API
+  androidAppHash?: string;
+}
+
+const ANDROID_APP_HASH_PATTERN = /^[A-Za-z0-9+/]{11}$/;
+
+/**
+ * Get an OTPService using the code format and rate limits the shop configured in its settings
+ */
+export async function getOTPServiceForShop(shop: string): Promise<OTPService> {
+  const settingsService = new SettingsService(prisma);
+  const policy = await settingsService.getOTPPolicy(shop);
+  const countries = await settingsService.getSMSCountryLists(shop);
+  return new OTPService(getRedis(), policy, getSMSFraudServiceForShop(shop, countries));
+}
+
+/**
+ * Get the shop's SMS pumping protection; counters and prefix blocks are kept per shop
+ * The shop's allowlist replaces the env one, and its denylist adds to the env one
+ */
+export function getSMSFraudServiceForShop(
+  shop: string,
+  countries: SMSCountryLists = { allowlist: [], denylist: [] }
+): SMSFraudService {
+  const fraud = new SMSFraudService(getRedis(), {
+    scope: shop,
+    allowlist: countries.allowlist.length > 0 ? countries.allowlist : parseCountryPrefixes(config.sms.fraud.allowlist),
+    denylist: [...new Set([...parseCountryPrefixes(config.sms.fraud.denylist), ...countries.denylist])]
+  });
+
+  fraud.onPrefixBlocked(block => recordPrefixBlocked(shop, block));
+  return fraud;
+}
+
+async function recordPrefixBlocked(shopDomain: string, block: BlockedPrefix): Promise<void> {
+  try {
+    const shop = await prisma.shop.findUnique({ where: { domain: shopDomain } });
+    if (!shop) {
+      return;
+    }
+
+    await prisma.analytics.create({
+      data: {
+        shopId: shop.id,
+        eventType: 'sms_fraud_prefix_blocked',
+        method: 'sms',
+        metadata: JSON.stringify(block)
+      }
+    });
+  } catch (error) {
+    logger.error('Failed to log SMS prefix block analytics', {
+      prefix: block.prefix,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Check an Android app hash before it is saved
+ */
+export function isValidAndroidAppHash(hash: string): boolean {
+  return ANDROID_APP_HASH_PATTERN.test(hash);
+}
+
+/**
+ * Reduce a configured domain or URL to the bare host WebOTP expects
+ */
+export function normalizeWebOTPDomain(domain: string): string {
+  return domain.trim().replace(/^https?:\/\//i, '').split(/[/:]/)[0].toLowerCase();
+}
+
+/**
+ * Get the autofill lines the shop has turned on for OTP SMS
+ * WebOTP is bound to the shop domain unless the shop set its storefront domain
+ */
+export async function getOTPAutofillForShop(shop: string): Promise<OTPAutofillOptions> {
+  try {
+    const settings = await new SettingsService(prisma).getSettings(shop);
+    const autofill = settings?.smsAutofill;
+
+    return {
+      webOtpDomain: autofill?.webOtpEnabled ? autofill.webOtpDomain || shop : undefined,
+      androidAppHash: autofill?.androidAppHash || undefined
+    };
+  } catch {
+    // Codes still arrive without autofill, so settings errors shouldn't block sending
+    return {};
+  }
+}
+
+/**
+ * Add autofill lines to an OTP message
+ * The origin-bound `@domain #code` line must be the last line of the SMS, so it goes after the app hash
+ */
+export function appendOTPAutofill(message: string, code: string, options: OTPAutofillOptions): string {
+  const lines: string[] = [];
+
+  if (options.androidAppHash) {
+    if (isValidAndroidAppHash(options.androidAppHash)) {
+      lines.push(options.androidAppHash);
+    } else {
+      logger.warn('Ignoring invalid Android app hash for SMS autofill');
+    }
+  }
+
+  const domain = options.webOtpDomain ? normalizeWebOTPDomain(options.webOtpDomain) : '';
+  if (domain) {
+    lines.push(`@${domain} #${code}`);
+  }
+
+  return lines.length > 0 ? `${message}\n\n${lines.join('\n')}` : message;
+}
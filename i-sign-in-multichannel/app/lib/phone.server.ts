@@ -0,0 +1,162 @@
+/**
+ * Phone Number Parsing
+ * Parses numbers typed in national or international format into E.164 and tells mobiles from
+ * landlines, using the libphonenumber metadata shipped with libphonenumber-js
+ */
+
+import {
+  getCountryCallingCode as getRegionCallingCode,
+  isSupportedCountry,
+  type NumberType,
+  parsePhoneNumberFromString
+} from 'libphonenumber-js/max';
+
+export type PhoneNumberType =
+  | 'mobile'
+  | 'fixed_line'
+  | 'fixed_line_or_mobile' // Countries such as the US where the two share number ranges
+  | 'voip'
+  | 'toll_free'
+  | 'premium_rate'
+  | 'unknown';             // Valid number the metadata gives no type for
+
+export interface ParsedPhoneNumber {
+  e164: string;
+  countryCallingCode: string; // With the +, e.g. +44
+  nationalNumber: string;     // Without the trunk prefix, e.g. 7400123456
+  region?: string;            // ISO 3166 region the number belongs to, when known
+  type: PhoneNumberType;
+}
+
+// A number a customer entered to get sign-in codes, checked and normalized
+export type PhoneNumberCheck =
+  | { valid: true; phone: string; type: PhoneNumberType }
+  | { valid: false; error: string; type?: PhoneNumberType }; // No type when the number isn't valid
+
+export interface PhoneNumberPolicy {
+  defaultRegion?: string; // Region for numbers typed without a country code
+  rejectVoip?: boolean;   // Refuse virtual numbers, which are often used for throwaway accounts
+}
+
+// libphonenumber types folded into ours; shared-cost numbers are billed to the caller like premium rate ones
+const NUMBER_TYPES: Partial<Record<NonNullable<NumberType>, PhoneNumberType>> = {
+  MOBILE: 'mobile',
+  FIXED_LINE: 'fixed_line',
+  FIXED_LINE_OR_MOBILE: 'fixed_line_or_mobile',
+  VOIP: 'voip',
+  TOLL_FREE: 'toll_free',
+  PREMIUM_RATE: 'premium_rate',
+  SHARED_COST: 'premium_rate'
+};
+
+/**
+ * Country calling code of an E.164 number, such as +44 for +447400123456
+ * Only the calling code is read, so numbers outside any assigned range still have one
+ */
+export function getCountryCallingCode(phone: string): string | null {
+  const digits = phone.replace(/[\s\-()]/g, '').replace(/^\+/, '');
+
+  if (!/^[1-9]\d{3,14}$/.test(digits)) {
+    return null;
+  }
+
+  const callingCode = parsePhoneNumberFromString(`+${digits}`)?.countryCallingCode;
+  return callingCode ? `+${callingCode}` : null;
+}
+
+// National digits kept after the calling code to name a number range, enough to cover the
+// area or mobile network code in most numbering plans, e.g. 415 in +1 415 or 740 in +44 7400
+const NUMBER_RANGE_DIGITS = 3;
+
+/**
+ * Calling code plus the start of the national number, such as +44740 for +447400123456
+ * Names a range of numbers much narrower than a country, such as an area or a mobile network
+ */
+export function getNumberRangePrefix(phone: string): string | null {
+  const callingCode = getCountryCallingCode(phone);
+
+  if (!callingCode) {
+    return null;
+  }
+
+  const digits = phone.replace(/[\s\-()]/g, '').replace(/^\+/, '');
+  return `${callingCode}${digits.slice(callingCode.length - 1, callingCode.length - 1 + NUMBER_RANGE_DIGITS)}`;
+}
+
+/**
+ * Parse a phone number into E.164
+ * National numbers (07400 123456) need the region they were typed in; international ones (+44 7400 123456,
+ * 0044 7400 123456) don't. Returns null when the number isn't valid for its country.
+ */
+export function parsePhoneNumber(input: string, defaultRegion?: string): ParsedPhoneNumber | null {
+  // '(0)' is the trunk prefix sometimes written into international numbers, as in +44 (0)7400 123456
+  let value = input.trim().replace(/\(0\)/g, '');
+
+  // Extensions and letters can't receive codes, though libphonenumber would accept them
+  if (!/^\+?[\d\s\-().]+$/.test(value)) {
+    return null;
+  }
+
+  if (value.startsWith('00')) {
+    value = `+${value.slice(2)}`;
+  }
+
+  const region = defaultRegion?.toUpperCase();
+  const phone = parsePhoneNumberFromString(value, region && isSupportedCountry(region) ? region : undefined);
+
+  if (!phone?.isValid()) {
+    return null;
+  }
+
+  const type = phone.getType();
+
+  return {
+    e164: phone.number,
+    countryCallingCode: `+${phone.countryCallingCode}`,
+    nationalNumber: phone.nationalNumber,
+    region: phone.country,
+    type: (type && NUMBER_TYPES[type]) || 'unknown'
+  };
+}
+
+/**
+ * E.164 form of a phone number, or null if it isn't valid
+ */
+export function normalizePhoneNumber(input: string, defaultRegion?: string): string | null {
+  return parsePhoneNumber(input, defaultRegion)?.e164 ?? null;
+}
+
+/**
+ * Normalize a number entered for sign-in codes, refusing numbers that can't receive them
+ * Landlines, toll-free and premium-rate numbers are refused, and VoIP numbers when the policy says so
+ */
+export function checkSignInPhoneNumber(input: string, policy: PhoneNumberPolicy = {}): PhoneNumberCheck {
+  const parsed = parsePhoneNumber(input, policy.defaultRegion || undefined);
+
+  if (!parsed) {
+    return { valid: false, error: 'Invalid phone number. Please include your country code (e.g., +447400123456)' };
+  }
+
+  switch (parsed.type) {
+    case 'fixed_line':
+      return { valid: false, error: 'This looks like a landline number. Please enter a mobile number', type: parsed.type };
+    case 'toll_free':
+    case 'premium_rate':
+      return { valid: false, error: 'Verification codes cannot be sent to this number', type: parsed.type };
+    case 'voip':
+      if (policy.rejectVoip) {
+        return { valid: false, error: 'Virtual (VoIP) numbers are not supported. Please enter a mobile number', type: parsed.type };
+      }
+      break;
+  }
+
+  return { valid: true, phone: parsed.e164, type: parsed.type };
+}
+
+/**
+ * Country calling code for an ISO 3166 region such as GB, or null for unknown regions
+ */
+export function getCallingCodeForRegion(region: string): string | null {
+  const upper = region.toUpperCase();
+  return isSupportedCountry(upper) ? `+${getRegionCallingCode(upper)}` : null;
+}
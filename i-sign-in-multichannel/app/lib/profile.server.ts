@@ -0,0 +1,60 @@
+/**
+ * Profile completion helpers for server-side use
+ * Holds an SMS sign-in while the customer gives their email, name and marketing consent
+ */
+
+import crypto from 'crypto';
+import { logger } from '../config/logger.js';
+import type { ShopifyCustomer } from '../services/CustomerService';
+import { getRedis } from './redis.server';
+
+// How long an SMS sign-in waits for the customer to complete their profile
+const PENDING_PROFILE_TTL_SECONDS = 900;
+
+export interface PendingProfileSignIn {
+  shop: string;
+  customerId: string;
+  phone: string;
+  returnTo?: string;
+}
+
+/**
+ * SMS-created customers have no email or name until they complete their profile
+ */
+export function isProfileComplete(customer: ShopifyCustomer): boolean {
+  return !!customer.email && !!customer.first_name;
+}
+
+/**
+ * Store an SMS sign-in that is waiting for the customer to complete their profile
+ * Returns the opaque token handed to the storefront
+ */
+export async function storePendingProfileSignIn(pending: PendingProfileSignIn): Promise<string> {
+  const token = crypto.randomBytes(32).toString('hex');
+
+  await getRedis().setex(
+    getPendingKey(token),
+    PENDING_PROFILE_TTL_SECONDS,
+    JSON.stringify(pending)
+  );
+
+  logger.info('Pending profile completion stored', {
+    shop: pending.shop,
+    customerId: pending.customerId
+  });
+
+  return token;
+}
+
+export async function getPendingProfileSignIn(token: string): Promise<PendingProfileSignIn | null> {
+  const data = await getRedis().get(getPendingKey(token));
+  return data ? JSON.parse(data) as PendingProfileSignIn : null;
+}
+
+export async function deletePendingProfileSignIn(token: string): Promise<void> {
+  await getRedis().del(getPendingKey(token));
+}
+
+function getPendingKey(token: string): string {
+  return `profile:pending:${token}`;
+}
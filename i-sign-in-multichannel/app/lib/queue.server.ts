@@ -6,15 +6,34 @@
 import type { Job, Queue } from 'bull';
 import Bull from 'bull';
 import { logger } from '../config/logger.js';
+import type { MessageChannel } from '../providers/ISMSProvider.js';
+
+// Notifications (order confirmations) are paused once the shop's monthly spend cap is hit,
+// sign-in codes and password resets are always sent
+export type SMSCategory = 'auth' | 'notification';
 
 export interface SMSJobData {
   phone: string;
   message: string;
   attemptNumber?: number;
   callbackUrl?: string;
+  channel?: MessageChannel;
+  code?: string; // One-time code for template channels such as WhatsApp
+  language?: string; // Customer's language, for a voice call if the SMS can't be delivered
+  shop?: string; // Shop domain, for the shop's country routing rules
+  category?: SMSCategory; // Defaults to 'auth'
+}
+
+// OTP read out in a text-to-speech call, when SMS fails or the customer asks to be called
+export interface VoiceJobData {
+  phone: string;
+  code: string;
+  language?: string; // Language the code is spoken in, defaults to English
+  attemptNumber?: number;
 }
 
 let smsQueue: Queue<SMSJobData> | null = null;
+let voiceQueue: Queue<VoiceJobData> | null = null;
 
 /**
  * Get or create SMS queue instance
@@ -98,7 +117,64 @@ export function getSMSQueue(): Queue<SMSJobData> {
 }
 
 /**
- * Close SMS queue
+ * Get or create voice call queue instance
+ * Uses the same retry settings as the SMS queue
+ */
+export function getVoiceQueue(): Queue<VoiceJobData> {
+  if (voiceQueue) {
+    return voiceQueue;
+  }
+
+  const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
+
+  logger.info('Initializing voice queue');
+
+  try {
+    voiceQueue = new Bull<VoiceJobData>('voice-queue', redisUrl, {
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 1000
+        },
+        removeOnComplete: 100,
+        removeOnFail: 500
+      }
+    });
+
+    voiceQueue.on('error', (error) => {
+      logger.error('Voice queue error', { error: error.message });
+    });
+
+    voiceQueue.on('completed', (job: Job<VoiceJobData>) => {
+      logger.info('Voice job completed', {
+        jobId: job.id,
+        phone: maskPhone(job.data.phone)
+      });
+    });
+
+    voiceQueue.on('failed', (job: Job<VoiceJobData>, error: Error) => {
+      logger.error('Voice job failed', {
+        jobId: job.id,
+        phone: maskPhone(job.data.phone),
+        attempt: job.attemptsMade,
+        error: error.message
+      });
+    });
+
+    logger.info('Voice queue initialized successfully');
+
+    return voiceQueue;
+  } catch (error) {
+    logger.error('Failed to initialize voice queue', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    throw new Error('Failed to initialize voice queue');
+  }
+}
+
+/**
+ * Close SMS and voice queues
  * Should be called when shutting down the application
  */
 export async function closeSMSQueue(): Promise<void> {
@@ -107,6 +183,12 @@ export async function closeSMSQueue(): Promise<void> {
     await smsQueue.close();
     smsQueue = null;
   }
+
+  if (voiceQueue) {
+    logger.info('Closing voice queue');
+    await voiceQueue.close();
+    voiceQueue = null;
+  }
 }
 
 /**
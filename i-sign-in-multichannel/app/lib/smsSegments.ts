@@ -0,0 +1,75 @@
+/**
+ * SMS Segments
+ * Works out how a message is encoded (GSM-7 or UCS-2) and how many segments it is billed as.
+ * A single character outside the GSM-7 alphabet switches the whole message to UCS-2, which
+ * fits 70 characters per segment instead of 160.
+ */
+
+export type SMSEncoding = 'GSM-7' | 'UCS-2';
+
+export interface SMSSegmentInfo {
+  encoding: SMSEncoding;
+  length: number;             // Septets for GSM-7 (extension characters take two), UTF-16 code units for UCS-2
+  segments: number;
+  perSegment: number;         // Capacity of each segment at this length; multipart messages lose some to headers
+  remaining: number;          // Room left in the last segment before another is needed
+  nonGsmCharacters: string[]; // Characters that forced UCS-2, each listed once
+}
+
+// GSM 03.38 basic character set
+const GSM_7_BASIC = new Set(Array.from(
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà'
+));
+
+// Extension table characters, sent as an escape followed by the character
+const GSM_7_EXTENSION = new Set(Array.from('\f^{}\\[~]|€'));
+
+const SEGMENT_LIMITS: Record<SMSEncoding, { single: number; multipart: number }> = {
+  'GSM-7': { single: 160, multipart: 153 },
+  'UCS-2': { single: 70, multipart: 67 }
+};
+
+/**
+ * Encoding, length and segment count of an SMS message
+ */
+export function getSMSSegmentInfo(message: string): SMSSegmentInfo {
+  const characters = Array.from(message);
+  const nonGsmCharacters = [...new Set(characters.filter(c => !GSM_7_BASIC.has(c) && !GSM_7_EXTENSION.has(c)))];
+  const encoding: SMSEncoding = nonGsmCharacters.length > 0 ? 'UCS-2' : 'GSM-7';
+
+  const sizes = characters.map(c => encoding === 'GSM-7' ? (GSM_7_EXTENSION.has(c) ? 2 : 1) : c.length);
+  const length = sizes.reduce((total, size) => total + size, 0);
+  const limits = SEGMENT_LIMITS[encoding];
+
+  if (length <= limits.single) {
+    return {
+      encoding,
+      length,
+      segments: length > 0 ? 1 : 0,
+      perSegment: limits.single,
+      remaining: limits.single - length,
+      nonGsmCharacters
+    };
+  }
+
+  // Escape sequences and surrogate pairs can't be split, so a segment may end a unit early
+  let segments = 1;
+  let used = 0;
+  for (const size of sizes) {
+    if (used + size > limits.multipart) {
+      segments++;
+      used = 0;
+    }
+    used += size;
+  }
+
+  return {
+    encoding,
+    length,
+    segments,
+    perSegment: limits.multipart,
+    remaining: limits.multipart - used,
+    nonGsmCharacters
+  };
+}
@@ -0,0 +1,365 @@
+/**
+ * Apple OAuth Provider Implementation
+ * Implements IOAuthProvider for Sign in with Apple
+ *
+ * Apple differs from other providers in a few ways:
+ * - The client secret is an ES256 JWT signed with the team's private key
+ * - The callback is a form_post, not a redirect with query parameters
+ * - There is no userinfo endpoint; identity comes from the signed ID token
+ * - The user's name is only posted to the callback on the first authorization
+ */
+
+import axios, { AxiosError } from 'axios';
+import { createPublicKey, JsonWebKey } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { logger } from '../config/logger.js';
+import {
+    IOAuthProvider,
+    OAuthAuthorizationParams,
+    OAuthCallbackUser,
+    OAuthTokens,
+    UserProfile
+} from './IOAuthProvider.js';
+
+const APPLE_ISSUER = 'https://appleid.apple.com';
+const PRIVATE_RELAY_DOMAIN = '@privaterelay.appleid.com';
+
+// Apple allows up to six months; a short lifetime limits the damage of a leaked secret
+const CLIENT_SECRET_TTL_SECONDS = 3600;
+const JWKS_CACHE_TTL_MS = 60 * 60 * 1000;
+
+interface AppleIdTokenClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean | 'true' | 'false';
+  is_private_email?: boolean | 'true' | 'false';
+}
+
+interface AppleJWK extends JsonWebKey {
+  kid: string;
+}
+
+export class AppleOAuthProvider implements IOAuthProvider {
+  readonly name = 'apple';
+  readonly scopes = ['name', 'email'];
+
+  private readonly clientId: string;
+  private readonly teamId: string;
+  private readonly keyId: string;
+  private readonly privateKey: string;
+  private readonly authorizationEndpoint = 'https://appleid.apple.com/auth/authorize';
+  private readonly tokenEndpoint = 'https://appleid.apple.com/auth/token';
+  private readonly keysEndpoint = 'https://appleid.apple.com/auth/keys';
+
+  private clientSecret?: { value: string; expiresAt: number };
+  private signingKeys?: { keys: AppleJWK[]; fetchedAt: number };
+
+  constructor(clientId: string, teamId: string, keyId: string, privateKey: string) {
+    if (!clientId) {
+      throw new Error('Apple OAuth client ID (Services ID) is required');
+    }
+    if (!teamId) {
+      throw new Error('Apple OAuth team ID is required');
+    }
+    if (!keyId) {
+      throw new Error('Apple OAuth key ID is required');
+    }
+    if (!privateKey) {
+      throw new Error('Apple OAuth private key is required');
+    }
+
+    this.clientId = clientId;
+    this.teamId = teamId;
+    this.keyId = keyId;
+    this.privateKey = privateKey;
+  }
+
+  /**
+   * Apple does not support PKCE; the signed client secret authenticates the code exchange
+   * and the nonce binds the ID token to this request
+   */
+  getAuthorizationUrl({ state, nonce }: OAuthAuthorizationParams, redirectUri: string): string {
+    const params = new URLSearchParams({
+      client_id: this.clientId,
+      redirect_uri: redirectUri,
+      response_type: 'code',
+      // Apple requires form_post whenever name or email scopes are requested
+      response_mode: 'form_post',
+      scope: this.scopes.join(' '),
+      state: state,
+      nonce
+    });
+
+    const url = `${this.authorizationEndpoint}?${params.toString()}`;
+
+    logger.info('Generated Apple OAuth authorization URL', {
+      provider: this.name,
+      state,
+      redirectUri
+    });
+
+    return url;
+  }
+
+  async exchangeCodeForToken(code: string, redirectUri: string, _codeVerifier: string): Promise<OAuthTokens> {
+    try {
+      logger.info('Exchanging authorization code for tokens', {
+        provider: this.name,
+        redirectUri
+      });
+
+      const response = await axios.post(
+        this.tokenEndpoint,
+        {
+          code,
+          client_id: this.clientId,
+          client_secret: this.getClientSecret(),
+          redirect_uri: redirectUri,
+          grant_type: 'authorization_code'
+        },
+        {
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded'
+          },
+          timeout: 10000
+        }
+      );
+
+      const tokens: OAuthTokens = {
+        accessToken: response.data.access_token,
+        refreshToken: response.data.refresh_token,
+        expiresIn: response.data.expires_in,
+        tokenType: response.data.token_type,
+        idToken: response.data.id_token
+      };
+
+      logger.info('Successfully exchanged code for tokens', {
+        provider: this.name,
+        hasRefreshToken: !!tokens.refreshToken
+      });
+
+      return tokens;
+
+    } catch (error) {
+      const axiosError = error as AxiosError;
+
+      logger.error('Failed to exchange authorization code for tokens', {
+        provider: this.name,
+        error: axiosError.message,
+        statusCode: axiosError.response?.status,
+        responseData: axiosError.response?.data
+      });
+
+      throw new Error(`Failed to exchange authorization code: ${axiosError.message}`);
+    }
+  }
+
+  /**
+   * Build the user profile from the verified ID token
+   * The access token is unused because Apple has no userinfo endpoint
+   */
+  async getUserProfile(_accessToken: string, idToken?: string): Promise<UserProfile> {
+    if (!idToken) {
+      throw new Error('Apple did not return an ID token');
+    }
+
+    const claims = await this.verifyIdToken(idToken);
+
+    if (!claims.email) {
+      throw new Error('Apple ID token does not contain an email address');
+    }
+
+    const isPrivateEmail = isTrue(claims.is_private_email) ||
+      claims.email.toLowerCase().endsWith(PRIVATE_RELAY_DOMAIN);
+
+    const profile: UserProfile = {
+      id: claims.sub,
+      email: claims.email,
+      // Private relay addresses are generated and forwarded by Apple, so they are always deliverable
+      emailVerified: isTrue(claims.email_verified) || isPrivateEmail,
+      isPrivateEmail
+    };
+
+    logger.info('Successfully verified Apple ID token', {
+      provider: this.name,
+      userId: profile.id,
+      email: profile.email,
+      isPrivateEmail
+    });
+
+    return profile;
+  }
+
+  async refreshToken(refreshToken: string): Promise<OAuthTokens> {
+    try {
+      logger.info('Refreshing access token', {
+        provider: this.name
+      });
+
+      const response = await axios.post(
+        this.tokenEndpoint,
+        {
+          refresh_token: refreshToken,
+          client_id: this.clientId,
+          client_secret: this.getClientSecret(),
+          grant_type: 'refresh_token'
+        },
+        {
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded'
+          },
+          timeout: 10000
+        }
+      );
+
+      const tokens: OAuthTokens = {
+        accessToken: response.data.access_token,
+        refreshToken, // Apple never rotates refresh tokens
+        expiresIn: response.data.expires_in,
+        tokenType: response.data.token_type,
+        idToken: response.data.id_token
+      };
+
+      logger.info('Successfully refreshed access token', {
+        provider: this.name
+      });
+
+      return tokens;
+
+    } catch (error) {
+      const axiosError = error as AxiosError;
+
+      logger.error('Failed to refresh access token', {
+        provider: this.name,
+        error: axiosError.message,
+        statusCode: axiosError.response?.status
+      });
+
+      throw new Error(`Failed to refresh access token: ${axiosError.message}`);
+    }
+  }
+
+  /**
+   * Generate (or reuse) the ES256 client secret JWT
+   */
+  private getClientSecret(): string {
+    const now = Date.now();
+
+    // Reuse the secret until it is close to expiring
+    if (this.clientSecret && this.clientSecret.expiresAt - now > 60 * 1000) {
+      return this.clientSecret.value;
+    }
+
+    const value = jwt.sign({}, this.privateKey, {
+      algorithm: 'ES256',
+      keyid: this.keyId,
+      issuer: this.teamId,
+      subject: this.clientId,
+      audience: APPLE_ISSUER,
+      expiresIn: CLIENT_SECRET_TTL_SECONDS
+    });
+
+    this.clientSecret = {
+      value,
+      expiresAt: now + CLIENT_SECRET_TTL_SECONDS * 1000
+    };
+
+    return value;
+  }
+
+  /**
+   * Verify the ID token signature against Apple's published keys and check its claims
+   */
+  private async verifyIdToken(idToken: string): Promise<AppleIdTokenClaims> {
+    const decoded = jwt.decode(idToken, { complete: true });
+
+    if (!decoded || typeof decoded.payload === 'string' || !decoded.header.kid) {
+      throw new Error('Malformed Apple ID token');
+    }
+
+    const jwk = await this.getSigningKey(decoded.header.kid);
+    const publicKey = createPublicKey({ key: jwk, format: 'jwk' });
+
+    try {
+      return jwt.verify(idToken, publicKey, {
+        algorithms: ['RS256'],
+        issuer: APPLE_ISSUER,
+        audience: this.clientId
+      }) as AppleIdTokenClaims;
+    } catch (error) {
+      logger.warn('Apple ID token verification failed', {
+        provider: this.name,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw new Error('Invalid Apple ID token');
+    }
+  }
+
+  /**
+   * Look up a signing key by ID, refetching the key set when the ID is unknown (key rotation)
+   */
+  private async getSigningKey(kid: string): Promise<AppleJWK> {
+    const isFresh = this.signingKeys && Date.now() - this.signingKeys.fetchedAt < JWKS_CACHE_TTL_MS;
+    let key = isFresh ? this.signingKeys!.keys.find(k => k.kid === kid) : undefined;
+
+    if (!key) {
+      try {
+        const response = await axios.get(this.keysEndpoint, { timeout: 10000 });
+        this.signingKeys = { keys: response.data.keys, fetchedAt: Date.now() };
+      } catch (error) {
+        const axiosError = error as AxiosError;
+
+        logger.error('Failed to fetch Apple signing keys', {
+          provider: this.name,
+          error: axiosError.message,
+          statusCode: axiosError.response?.status
+        });
+
+        throw new Error(`Failed to fetch Apple signing keys: ${axiosError.message}`);
+      }
+
+      key = this.signingKeys.keys.find(k => k.kid === kid);
+    }
+
+    if (!key) {
+      throw new Error('Apple ID token was signed with an unknown key');
+    }
+
+    return key;
+  }
+}
+
+/**
+ * Parse the `user` field Apple posts to the callback on the first authorization
+ * It arrives as a JSON string: {"name":{"firstName":"..","lastName":".."},"email":".."}
+ */
+export function parseAppleCallbackUser(raw: unknown): OAuthCallbackUser | undefined {
+  if (!raw) {
+    return undefined;
+  }
+
+  try {
+    const user = typeof raw === 'string' ? JSON.parse(raw) : raw;
+    const firstName = user?.name?.firstName;
+    const lastName = user?.name?.lastName;
+
+    if (!firstName && !lastName) {
+      return undefined;
+    }
+
+    return {
+      firstName: typeof firstName === 'string' ? firstName : undefined,
+      lastName: typeof lastName === 'string' ? lastName : undefined
+    };
+  } catch (error) {
+    logger.warn('Failed to parse Apple callback user', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return undefined;
+  }
+}
+
+// Apple sends some boolean claims as the strings "true" / "false"
+function isTrue(value: boolean | 'true' | 'false' | undefined): boolean {
+  return value === true || value === 'true';
+}
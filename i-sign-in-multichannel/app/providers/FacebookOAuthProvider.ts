@@ -0,0 +1,217 @@
+/**
+ * Facebook OAuth Provider Implementation
+ * Implements IOAuthProvider for Facebook Login
+ *
+ * Facebook lets users untick the email permission on the consent screen, and
+ * accounts registered with a phone number may have no email at all. In both
+ * cases the profile is returned with an empty email so the caller can ask for one.
+ */
+
+import axios, { AxiosError } from 'axios';
+import { createHmac } from 'crypto';
+import { logger } from '../config/logger.js';
+import {
+    IOAuthProvider,
+    OAuthAuthorizationParams,
+    OAuthTokens,
+    UserProfile
+} from './IOAuthProvider.js';
+
+const GRAPH_API_VERSION = 'v19.0';
+
+export class FacebookOAuthProvider implements IOAuthProvider {
+  readonly name = 'facebook';
+  readonly scopes = ['email', 'public_profile'];
+
+  private readonly appId: string;
+  private readonly appSecret: string;
+  private readonly authorizationEndpoint = `https://www.facebook.com/${GRAPH_API_VERSION}/dialog/oauth`;
+  private readonly tokenEndpoint = `https://graph.facebook.com/${GRAPH_API_VERSION}/oauth/access_token`;
+  private readonly profileEndpoint = `https://graph.facebook.com/${GRAPH_API_VERSION}/me`;
+
+  constructor(appId: string, appSecret: string) {
+    if (!appId) {
+      throw new Error('Facebook app ID is required');
+    }
+    if (!appSecret) {
+      throw new Error('Facebook app secret is required');
+    }
+
+    this.appId = appId;
+    this.appSecret = appSecret;
+  }
+
+  /**
+   * The nonce is unused: without the openid scope Facebook returns no ID token
+   */
+  getAuthorizationUrl({ state, codeChallenge }: OAuthAuthorizationParams, redirectUri: string): string {
+    const params = new URLSearchParams({
+      client_id: this.appId,
+      redirect_uri: redirectUri,
+      response_type: 'code',
+      // Facebook expects a comma-separated scope list
+      scope: this.scopes.join(','),
+      state: state,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256'
+    });
+
+    const url = `${this.authorizationEndpoint}?${params.toString()}`;
+
+    logger.info('Generated Facebook OAuth authorization URL', {
+      provider: this.name,
+      state,
+      redirectUri
+    });
+
+    return url;
+  }
+
+  async exchangeCodeForToken(code: string, redirectUri: string, codeVerifier: string): Promise<OAuthTokens> {
+    try {
+      logger.info('Exchanging authorization code for tokens', {
+        provider: this.name,
+        redirectUri
+      });
+
+      const response = await axios.get(this.tokenEndpoint, {
+        params: {
+          client_id: this.appId,
+          client_secret: this.appSecret,
+          redirect_uri: redirectUri,
+          code,
+          code_verifier: codeVerifier
+        },
+        timeout: 10000
+      });
+
+      const tokens: OAuthTokens = {
+        accessToken: response.data.access_token,
+        expiresIn: response.data.expires_in,
+        tokenType: response.data.token_type
+      };
+
+      logger.info('Successfully exchanged code for tokens', {
+        provider: this.name
+      });
+
+      return tokens;
+
+    } catch (error) {
+      const axiosError = error as AxiosError;
+
+      logger.error('Failed to exchange authorization code for tokens', {
+        provider: this.name,
+        error: axiosError.message,
+        statusCode: axiosError.response?.status,
+        responseData: axiosError.response?.data
+      });
+
+      throw new Error(`Failed to exchange authorization code: ${axiosError.message}`);
+    }
+  }
+
+  async getUserProfile(accessToken: string): Promise<UserProfile> {
+    try {
+      logger.info('Fetching user profile', {
+        provider: this.name
+      });
+
+      const response = await axios.get(this.profileEndpoint, {
+        params: {
+          fields: 'id,email,first_name,last_name,picture.type(large)',
+          access_token: accessToken,
+          // Proves the call comes from our server, required when "Require App Secret" is on
+          appsecret_proof: this.getAppSecretProof(accessToken)
+        },
+        timeout: 10000
+      });
+
+      const data = response.data;
+
+      const profile: UserProfile = {
+        id: data.id,
+        email: data.email || '',
+        firstName: data.first_name,
+        lastName: data.last_name,
+        avatar: data.picture?.data?.url,
+        // Facebook only returns addresses the user has confirmed
+        emailVerified: !!data.email
+      };
+
+      if (!profile.email) {
+        logger.warn('Facebook profile has no email address', {
+          provider: this.name,
+          userId: profile.id
+        });
+      }
+
+      logger.info('Successfully fetched user profile', {
+        provider: this.name,
+        userId: profile.id,
+        email: profile.email
+      });
+
+      return profile;
+
+    } catch (error) {
+      const axiosError = error as AxiosError;
+
+      logger.error('Failed to fetch user profile', {
+        provider: this.name,
+        error: axiosError.message,
+        statusCode: axiosError.response?.status
+      });
+
+      throw new Error(`Failed to fetch user profile: ${axiosError.message}`);
+    }
+  }
+
+  /**
+   * Facebook has no refresh tokens; a valid token is exchanged for a long-lived one instead
+   */
+  async refreshToken(refreshToken: string): Promise<OAuthTokens> {
+    try {
+      logger.info('Refreshing access token', {
+        provider: this.name
+      });
+
+      const response = await axios.get(this.tokenEndpoint, {
+        params: {
+          grant_type: 'fb_exchange_token',
+          client_id: this.appId,
+          client_secret: this.appSecret,
+          fb_exchange_token: refreshToken
+        },
+        timeout: 10000
+      });
+
+      const tokens: OAuthTokens = {
+        accessToken: response.data.access_token,
+        expiresIn: response.data.expires_in,
+        tokenType: response.data.token_type
+      };
+
+      logger.info('Successfully refreshed access token', {
+        provider: this.name
+      });
+
+      return tokens;
+
+    } catch (error) {
+      const axiosError = error as AxiosError;
+
+      logger.error('Failed to refresh access token', {
+        provider: this.name,
+        error: axiosError.message,
+        statusCode: axiosError.response?.status
+      });
+
+      throw new Error(`Failed to refresh access token: ${axiosError.message}`);
+    }
+  }
+
+  private getAppSecretProof(accessToken: string): string {
+    return createHmac('sha256', this.appSecret).update(accessToken).digest('hex');
+  }
+}
@@ -7,6 +7,7 @@ import axios, { AxiosError } from 'axios';
 import { logger } from '../config/logger.js';
 import {
     IOAuthProvider,
+    OAuthAuthorizationParams,
     OAuthTokens,
     UserProfile
 } from './IOAuthProvider.js';
@@ -33,13 +34,16 @@ export class GoogleOAuthProvider implements IOAuthProvider {
     this.clientSecret = clientSecret;
   }
   
-  getAuthorizationUrl(state: string, redirectUri: string): string {
+  getAuthorizationUrl({ state, codeChallenge, nonce }: OAuthAuthorizationParams, redirectUri: string): string {
     const params = new URLSearchParams({
       client_id: this.clientId,
       redirect_uri: redirectUri,
       response_type: 'code',
       scope: this.scopes.join(' '),
       state: state,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+      nonce,
       access_type: 'offline',
       prompt: 'consent'
     });
@@ -55,7 +59,7 @@ export class GoogleOAuthProvider implements IOAuthProvider {
     return url;
   }
   
-  async exchangeCodeForToken(code: string, redirectUri: string): Promise<OAuthTokens> {
+  async exchangeCodeForToken(code: string, redirectUri: string, codeVerifier: string): Promise<OAuthTokens> {
     try {
       logger.info('Exchanging authorization code for tokens', {
         provider: this.name,
@@ -69,7 +73,8 @@ export class GoogleOAuthProvider implements IOAuthProvider {
           client_id: this.clientId,
           client_secret: this.clientSecret,
           redirect_uri: redirectUri,
-          grant_type: 'authorization_code'
+          grant_type: 'authorization_code',
+          code_verifier: codeVerifier
         },
         {
           headers: {
@@ -83,7 +88,8 @@ export class GoogleOAuthProvider implements IOAuthProvider {
         accessToken: response.data.access_token,
         refreshToken: response.data.refresh_token,
         expiresIn: response.data.expires_in,
-        tokenType: response.data.token_type
+        tokenType: response.data.token_type,
+        idToken: response.data.id_token
       };
       
       logger.info('Successfully exchanged code for tokens', {
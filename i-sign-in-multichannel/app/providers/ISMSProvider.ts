@@ -3,11 +3,16 @@
  * Defines the contract for all SMS provider implementations
  */
 
+// Channel a provider delivers messages on
+export type MessageChannel = 'sms' | 'whatsapp';
+
 export interface SendSMSParams {
   to: string;           // E.164 format phone number
   message: string;
   from?: string;        // Sender ID
   callbackUrl?: string; // DLR webhook URL
+  channel?: MessageChannel; // Preferred channel, defaults to SMS
+  code?: string;        // One-time code, sent as a parameter by template channels
 }
 
 export interface SendSMSResult {
@@ -15,6 +20,9 @@ export interface SendSMSResult {
   messageId: string;
   provider: string;
   error?: string;
+  segments?: number;    // Segments billed, when the provider reports them
+  cost?: number;        // Price of the send, when the provider reports it
+  currency?: string;    // ISO 4217 code the cost is in
 }
 
 export type DeliveryStatusType = 'pending' | 'sent' | 'delivered' | 'failed';
@@ -42,6 +50,7 @@ export interface BalanceInfo {
 export interface ISMSProvider {
   readonly name: string;
   readonly priority: number;
+  readonly channel?: MessageChannel; // Defaults to 'sms'
   
   sendSMS(params: SendSMSParams): Promise<SendSMSResult>;
   checkDeliveryStatus(messageId: string): Promise<DeliveryStatus>;
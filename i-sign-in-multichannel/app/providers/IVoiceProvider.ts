@@ -0,0 +1,31 @@
+/**
+ * Voice Provider Interface
+ * Defines the contract for providers that can read a message out in a text-to-speech call
+ */
+
+import type { SendSMSResult } from './ISMSProvider.js';
+
+export interface VoiceCallParams {
+  to: string;           // E.164 format phone number
+  message: string;      // Text spoken to the callee
+  language?: string;    // Language of the message, e.g. 'en' or 'es'
+  from?: string;        // Caller ID
+  callbackUrl?: string; // Call status webhook URL
+}
+
+// Calls report results the same way as messages; messageId is the call ID
+export type VoiceCallResult = SendSMSResult;
+
+export interface IVoiceProvider {
+  readonly name: string;
+  readonly priority: number;
+
+  makeCall(params: VoiceCallParams): Promise<VoiceCallResult>;
+}
+
+/**
+ * Check whether a provider can also place voice calls
+ */
+export function isVoiceProvider<T extends object>(provider: T): provider is T & IVoiceProvider {
+  return typeof (provider as Partial<IVoiceProvider>).makeCall === 'function';
+}
@@ -82,10 +82,17 @@ export class SmsToProvider implements ISMSProvider {
         to: params.to
       });
       
+      // sms.to reports the charge and parts billed; the currency is the account's
+      const cost = parseFloat(response.data.cost);
+      const segments = parseInt(response.data.sms_count, 10);
+      
       return {
         success: true,
         messageId,
-        provider: this.name
+        provider: this.name,
+        ...(Number.isFinite(segments) && { segments }),
+        ...(Number.isFinite(cost) && { cost }),
+        ...(response.data.currency && { currency: String(response.data.currency).toUpperCase() })
       };
       
     } catch (error) {
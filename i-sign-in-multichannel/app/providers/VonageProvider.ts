@@ -0,0 +1,331 @@
+/**
+ * Vonage Provider Implementation
+ * Implements ISMSProvider for the Vonage (Nexmo) SMS API
+ */
+
+import type { AxiosError } from 'axios';
+import axios from 'axios';
+import { logger } from '../config/logger.js';
+import type {
+    DeliveryReceipt,
+    DeliveryStatus,
+    DeliveryStatusType,
+    ISMSProvider,
+    SendSMSParams,
+    SendSMSResult
+} from './ISMSProvider.js';
+
+export class VonageProvider implements ISMSProvider {
+  readonly name = 'vonage';
+  readonly priority = 4;
+
+  private readonly apiKey: string;
+  private readonly apiSecret: string;
+  private readonly from: string;
+  private readonly apiBaseUrl = 'https://rest.nexmo.com';
+
+  constructor(apiKey: string, apiSecret: string, from: string) {
+    if (!apiKey) {
+      throw new Error('Vonage API key is required');
+    }
+    if (!apiSecret) {
+      throw new Error('Vonage API secret is required');
+    }
+    if (!from) {
+      throw new Error('Vonage sender is required');
+    }
+
+    this.apiKey = apiKey;
+    this.apiSecret = apiSecret;
+    this.from = from;
+  }
+
+  async sendSMS(params: SendSMSParams): Promise<SendSMSResult> {
+    try {
+      logger.info('Sending SMS via Vonage', {
+        provider: this.name,
+        to: params.to,
+        from: params.from || this.from
+      });
+
+      // Vonage expects numbers without the leading +
+      const response = await axios.post(
+        `${this.apiBaseUrl}/sms/json`,
+        {
+          api_key: this.apiKey,
+          api_secret: this.apiSecret,
+          to: params.to.replace(/^\+/, ''),
+          from: params.from || this.from,
+          text: params.message,
+          type: 'unicode',
+          callback: params.callbackUrl
+        },
+        {
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          timeout: 10000
+        }
+      );
+
+      // Vonage answers 200 even when a message is rejected; the status is per message
+      const message = response.data?.messages?.[0];
+
+      if (message && message.status !== '0') {
+        logger.error('Vonage rejected SMS', {
+          provider: this.name,
+          to: params.to,
+          status: message.status,
+          error: message['error-text']
+        });
+
+        return {
+          success: false,
+          messageId: '',
+          provider: this.name,
+          error: `SMS provider error: ${message['error-text'] || `status ${message.status}`}`
+        };
+      }
+
+      const messageId = message?.['message-id'];
+
+      if (!messageId) {
+        logger.error('Vonage response missing message ID', {
+          provider: this.name,
+          response: response.data
+        });
+
+        return {
+          success: false,
+          messageId: '',
+          provider: this.name,
+          error: 'Invalid response from SMS provider'
+        };
+      }
+
+      logger.info('SMS sent successfully via Vonage', {
+        provider: this.name,
+        messageId,
+        to: params.to
+      });
+
+      return {
+        success: true,
+        messageId,
+        provider: this.name
+      };
+
+    } catch (error) {
+      const axiosError = error as AxiosError;
+      const errorMessage = axiosError.response?.data
+        ? JSON.stringify(axiosError.response.data)
+        : axiosError.message;
+
+      logger.error('Failed to send SMS via Vonage', {
+        provider: this.name,
+        error: errorMessage,
+        to: params.to,
+        statusCode: axiosError.response?.status
+      });
+
+      return {
+        success: false,
+        messageId: '',
+        provider: this.name,
+        error: `SMS provider error: ${errorMessage}`
+      };
+    }
+  }
+
+  async checkDeliveryStatus(messageId: string): Promise<DeliveryStatus> {
+    try {
+      logger.info('Checking delivery status via Vonage', {
+        provider: this.name,
+        messageId
+      });
+
+      const response = await axios.get(
+        `${this.apiBaseUrl}/search/message`,
+        {
+          params: {
+            api_key: this.apiKey,
+            api_secret: this.apiSecret,
+            id: messageId
+          },
+          timeout: 5000
+        }
+      );
+
+      const status = this.mapStatusFromApi(response.data['final-status'] || response.data.status);
+      const errorCode = response.data['error-code'];
+
+      return {
+        messageId,
+        status,
+        timestamp: parseVonageDate(response.data['date-closed'] || response.data['date-received']) || new Date(),
+        error: errorCode && errorCode !== '0' ? `Error ${errorCode}` : undefined
+      };
+
+    } catch (error) {
+      const axiosError = error as AxiosError;
+
+      logger.error('Failed to check delivery status via Vonage', {
+        provider: this.name,
+        error: axiosError.message,
+        messageId
+      });
+
+      return {
+        messageId,
+        status: 'failed',
+        timestamp: new Date(),
+        error: 'Failed to check delivery status'
+      };
+    }
+  }
+
+  handleWebhook(payload: any): DeliveryReceipt {
+    try {
+      logger.info('Processing DLR webhook from Vonage', {
+        provider: this.name,
+        payload
+      });
+
+      const messageId = payload.messageId || payload['message-id'];
+
+      if (!messageId) {
+        throw new Error('Missing messageId in webhook payload');
+      }
+
+      const status = this.mapStatusFromApi(payload.status);
+
+      let deliveredAt: Date | undefined;
+      if (status === 'delivered') {
+        deliveredAt = parseVonageDate(payload['message-timestamp']);
+      }
+
+      const errorCode = payload['err-code'];
+      const failureReason = status === 'failed' && errorCode && errorCode !== '0'
+        ? `Error ${errorCode}`
+        : undefined;
+
+      return {
+        messageId,
+        status,
+        deliveredAt,
+        failureReason
+      };
+
+    } catch (error) {
+      logger.error('Failed to parse DLR webhook from Vonage', {
+        provider: this.name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        payload
+      });
+
+      throw new Error('Invalid webhook payload');
+    }
+  }
+
+  async getBalance(): Promise<import('./ISMSProvider.js').BalanceInfo> {
+    try {
+      logger.info('Fetching account balance from Vonage', {
+        provider: this.name
+      });
+
+      const response = await axios.get(
+        `${this.apiBaseUrl}/account/get-balance`,
+        {
+          params: {
+            api_key: this.apiKey,
+            api_secret: this.apiSecret
+          },
+          timeout: 5000
+        }
+      );
+
+      // Vonage accounts are billed in euros
+      const balance = parseFloat(response.data.value);
+      const currency = 'EUR';
+
+      logger.info('Successfully fetched Vonage balance', {
+        provider: this.name,
+        balance,
+        currency
+      });
+
+      return {
+        balance,
+        currency,
+        formattedBalance: `${currency} ${balance.toFixed(2)}`
+      };
+
+    } catch (error) {
+      const axiosError = error as AxiosError;
+
+      logger.error('Failed to fetch balance from Vonage', {
+        provider: this.name,
+        error: axiosError.message,
+        statusCode: axiosError.response?.status
+      });
+
+      // Return zero balance on error
+      return {
+        balance: 0,
+        currency: 'EUR',
+        formattedBalance: 'N/A'
+      };
+    }
+  }
+
+  /**
+   * Map Vonage status to our standard status types
+   * DLR statuses: accepted, buffered, delivered, expired, failed, rejected, unknown
+   * Message search statuses: ACCEPTD, BUFFRED, DELIVRD, EXPIRED, UNDELIV, REJECTD, UNKNOWN
+   */
+  private mapStatusFromApi(apiStatus: string): DeliveryStatusType {
+    const statusLower = (apiStatus || '').toLowerCase();
+
+    switch (statusLower) {
+      case 'submitted':
+      case 'unknown':
+        return 'pending';
+
+      case 'accepted':
+      case 'acceptd':
+      case 'buffered':
+      case 'buffred':
+        return 'sent';
+
+      case 'delivered':
+      case 'delivrd':
+        return 'delivered';
+
+      case 'expired':
+      case 'failed':
+      case 'undeliv':
+      case 'rejected':
+      case 'rejectd':
+        return 'failed';
+
+      default:
+        logger.warn('Unknown SMS status from Vonage', {
+          provider: this.name,
+          status: apiStatus
+        });
+        return 'pending';
+    }
+  }
+}
+
+/**
+ * Vonage timestamps are UTC without a zone, e.g. "2024-01-15 10:30:00"
+ */
+function parseVonageDate(value?: string): Date | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const date = new Date(`${value.replace(' ', 'T')}Z`);
+  return isNaN(date.getTime()) ? undefined : date;
+}
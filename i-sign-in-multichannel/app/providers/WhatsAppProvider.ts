@@ -0,0 +1,267 @@
+/**
+ * WhatsApp Provider Implementation
+ * Implements ISMSProvider for the WhatsApp Business Cloud API
+ * OTP codes are sent as authentication template messages, so only messages with a code can be delivered
+ */
+
+import type { AxiosError } from 'axios';
+import axios from 'axios';
+import { logger } from '../config/logger.js';
+import type {
+    BalanceInfo,
+    DeliveryReceipt,
+    DeliveryStatus,
+    DeliveryStatusType,
+    ISMSProvider,
+    SendSMSParams,
+    SendSMSResult
+} from './ISMSProvider.js';
+
+export class WhatsAppProvider implements ISMSProvider {
+  readonly name = 'whatsapp';
+  readonly priority = 3;
+  readonly channel = 'whatsapp' as const;
+
+  private readonly accessToken: string;
+  private readonly templateName: string;
+  private readonly templateLanguage: string;
+  private readonly apiBaseUrl: string;
+
+  constructor(
+    accessToken: string,
+    phoneNumberId: string,
+    templateName: string,
+    templateLanguage: string = 'en',
+    apiVersion: string = 'v21.0'
+  ) {
+    if (!accessToken) {
+      throw new Error('WhatsApp access token is required');
+    }
+    if (!phoneNumberId) {
+      throw new Error('WhatsApp phone number ID is required');
+    }
+    if (!templateName) {
+      throw new Error('WhatsApp template name is required');
+    }
+
+    this.accessToken = accessToken;
+    this.templateName = templateName;
+    this.templateLanguage = templateLanguage;
+    this.apiBaseUrl = `https://graph.facebook.com/${apiVersion}/${phoneNumberId}`;
+  }
+
+  async sendSMS(params: SendSMSParams): Promise<SendSMSResult> {
+    // Business-initiated messages must use an approved template, so free text can't be sent
+    if (!params.code) {
+      return {
+        success: false,
+        messageId: '',
+        provider: this.name,
+        error: 'WhatsApp can only deliver one-time codes'
+      };
+    }
+
+    try {
+      logger.info('Sending OTP via WhatsApp', {
+        provider: this.name,
+        to: params.to,
+        template: this.templateName
+      });
+
+      // Authentication templates take the code in the body and in the copy-code button
+      const response = await axios.post(
+        `${this.apiBaseUrl}/messages`,
+        {
+          messaging_product: 'whatsapp',
+          recipient_type: 'individual',
+          to: params.to.replace(/^\+/, ''),
+          type: 'template',
+          template: {
+            name: this.templateName,
+            language: { code: this.templateLanguage },
+            components: [
+              {
+                type: 'body',
+                parameters: [{ type: 'text', text: params.code }]
+              },
+              {
+                type: 'button',
+                sub_type: 'url',
+                index: '0',
+                parameters: [{ type: 'text', text: params.code }]
+              }
+            ]
+          }
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${this.accessToken}`,
+            'Content-Type': 'application/json'
+          },
+          timeout: 10000
+        }
+      );
+
+      const messageId = response.data?.messages?.[0]?.id;
+
+      if (!messageId) {
+        logger.error('WhatsApp response missing message ID', {
+          provider: this.name,
+          response: response.data
+        });
+
+        return {
+          success: false,
+          messageId: '',
+          provider: this.name,
+          error: 'Invalid response from WhatsApp provider'
+        };
+      }
+
+      logger.info('OTP sent successfully via WhatsApp', {
+        provider: this.name,
+        messageId,
+        to: params.to
+      });
+
+      return {
+        success: true,
+        messageId,
+        provider: this.name
+      };
+
+    } catch (error) {
+      const axiosError = error as AxiosError;
+      const errorMessage = axiosError.response?.data
+        ? JSON.stringify(axiosError.response.data)
+        : axiosError.message;
+
+      logger.error('Failed to send OTP via WhatsApp', {
+        provider: this.name,
+        error: errorMessage,
+        to: params.to,
+        statusCode: axiosError.response?.status
+      });
+
+      return {
+        success: false,
+        messageId: '',
+        provider: this.name,
+        error: `WhatsApp provider error: ${errorMessage}`
+      };
+    }
+  }
+
+  /**
+   * The Cloud API has no message lookup endpoint; statuses only arrive through webhooks
+   */
+  async checkDeliveryStatus(messageId: string): Promise<DeliveryStatus> {
+    return {
+      messageId,
+      status: 'pending',
+      timestamp: new Date()
+    };
+  }
+
+  /**
+   * WhatsApp is billed per conversation to the Meta business account, so there is no balance to report
+   */
+  async getBalance(): Promise<BalanceInfo> {
+    return {
+      balance: 0,
+      currency: 'USD',
+      formattedBalance: 'N/A'
+    };
+  }
+
+  /**
+   * Parse a single entry of a webhook's `statuses` array
+   */
+  handleWebhook(payload: any): DeliveryReceipt {
+    try {
+      const messageId = payload?.id;
+
+      if (!messageId) {
+        throw new Error('Missing id in webhook status');
+      }
+
+      const status = this.mapStatusFromApi(payload.status);
+
+      // Timestamps are Unix seconds as strings
+      let deliveredAt: Date | undefined;
+      if (status === 'delivered' && payload.timestamp) {
+        deliveredAt = new Date(Number(payload.timestamp) * 1000);
+      }
+
+      const error = payload.errors?.[0];
+      const failureReason = error
+        ? `Error ${error.code}: ${error.title || error.message || 'Unknown error'}`
+        : undefined;
+
+      return {
+        messageId,
+        status,
+        deliveredAt,
+        failureReason
+      };
+
+    } catch (error) {
+      logger.error('Failed to parse DLR webhook from WhatsApp', {
+        provider: this.name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        payload
+      });
+
+      throw new Error('Invalid webhook payload');
+    }
+  }
+
+  /**
+   * Extract delivery receipts from a WhatsApp Business webhook notification
+   * One notification can batch statuses for several messages; inbound messages are ignored
+   */
+  parseWebhookStatuses(payload: any): DeliveryReceipt[] {
+    if (payload?.object !== 'whatsapp_business_account' || !Array.isArray(payload.entry)) {
+      throw new Error('Invalid webhook payload');
+    }
+
+    const receipts: DeliveryReceipt[] = [];
+
+    for (const entry of payload.entry) {
+      for (const change of entry.changes || []) {
+        for (const status of change.value?.statuses || []) {
+          receipts.push(this.handleWebhook(status));
+        }
+      }
+    }
+
+    return receipts;
+  }
+
+  /**
+   * Map WhatsApp status to our standard status types
+   * WhatsApp statuses: sent, delivered, read, failed
+   */
+  private mapStatusFromApi(apiStatus: string): DeliveryStatusType {
+    const statusLower = (apiStatus || '').toLowerCase();
+
+    switch (statusLower) {
+      case 'sent':
+        return 'sent';
+
+      case 'delivered':
+      case 'read':
+        return 'delivered';
+
+      case 'failed':
+        return 'failed';
+
+      default:
+        logger.warn('Unknown message status from WhatsApp', {
+          provider: this.name,
+          status: apiStatus
+        });
+        return 'pending';
+    }
+  }
+}
@@ -3,21 +3,38 @@
  * Central export point for all providers
  */
 
+export { AppleOAuthProvider, parseAppleCallbackUser } from './AppleOAuthProvider.js';
+export { FacebookOAuthProvider } from './FacebookOAuthProvider.js';
 export { GoogleOAuthProvider } from './GoogleOAuthProvider.js';
+export { OIDCProvider, fetchDiscoveryDocument } from './OIDCProvider.js';
+export { PlivoProvider } from './PlivoProvider.js';
+export { SandboxSMSProvider } from './SandboxSMSProvider.js';
 export { SmsToProvider } from './SmsToProvider.js';
+export { isVoiceProvider } from './IVoiceProvider.js';
+export { MessageBirdProvider } from './MessageBirdProvider.js';
 export { TwilioProvider } from './TwilioProvider.js';
+export { VonageProvider } from './VonageProvider.js';
+export { WhatsAppProvider } from './WhatsAppProvider.js';
 
 // Export interfaces
 export type {
     DeliveryReceipt, DeliveryStatus,
     DeliveryStatusType, ISMSProvider,
+    MessageChannel,
     SendSMSParams,
     SendSMSResult
 } from './ISMSProvider.js';
 
+export type { SandboxMessage, SandboxSMSOptions } from './SandboxSMSProvider.js';
+
+export type { IVoiceProvider, VoiceCallParams, VoiceCallResult } from './IVoiceProvider.js';
+
 export type {
     IOAuthProvider,
+    OAuthCallbackUser,
     OAuthTokens,
     UserProfile
 } from './IOAuthProvider.js';
 
+export type { OIDCDiscoveryDocument, OIDCProviderConfig } from './OIDCProvider.js';
+
@@ -9,10 +9,21 @@ import { json } from "@remix-run/node";
 import * as bcrypt from "bcrypt";
 import { logger } from "../config/logger";
 import prisma from "../db.server";
+import {
+  accountBlockedError,
+  ErrorMessages,
+  internalError,
+  invalidCredentialsError,
+  missingFieldError,
+  passwordResetRequiredError,
+  validationError,
+} from "../lib/errors.server";
 import { getRedis } from "../lib/redis.server";
 import { CustomerService } from "../services/CustomerService";
 import type { CustomerData } from "../services/MultipassService";
 import { MultipassService } from "../services/MultipassService";
+import { PasskeyService } from "../services/PasskeyService";
+import { SettingsService } from "../services/SettingsService";
 
 interface EmailLoginRequest {
   email: string;
@@ -24,6 +35,7 @@ interface EmailLoginRequest {
 interface EmailLoginResponse {
   success: boolean;
   multipassUrl?: string;
+  passkeyEnrollmentToken?: string;
   error?: string;
 }
 
@@ -66,8 +78,11 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     const multipassService = new MultipassService(prisma);
     const customerService = new CustomerService();
 
+    // Redis keys are case-insensitive on the email, matching PasswordService
+    const normalizedEmail = email.trim().toLowerCase();
+
     // Requirement 6.6: Check for account blocking
-    const blockKey = `email:blocked:${email}`;
+    const blockKey = `email:blocked:${normalizedEmail}`;
     const isBlocked = await redis.exists(blockKey);
 
     if (isBlocked) {
@@ -103,7 +118,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
       // Store password hash in Redis for future verification
       // (In production, you might want to use a separate database)
-      const passwordKey = `email:password:${email}`;
+      const passwordKey = `email:password:${normalizedEmail}`;
       await redis.set(passwordKey, hashedPassword);
 
       logger.info("New customer created with email", {
@@ -120,22 +135,19 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       });
 
       // Get stored password hash from Redis
-      const passwordKey = `email:password:${email}`;
+      const passwordKey = `email:password:${normalizedEmail}`;
       const storedHash = await redis.get(passwordKey);
 
       if (!storedHash) {
-        // No password stored - this might be a customer created through other means
-        // Requirement 6.5: Don't reveal whether email or password was incorrect
-        logger.warn("No password hash found for customer", {
+        // No password stored - the customer was created through other means and
+        // has to set one through the reset flow before signing in with a password
+        logger.warn("No password hash found for customer, reset required", {
           customerId: customer.id,
           email,
           shop,
         });
 
-        await trackFailedAttempt(redis, email, shop);
-
-        // Requirement 6.5: Don't reveal which field was incorrect
-        return invalidCredentialsError();
+        return passwordResetRequiredError();
       }
 
       // Requirement 6.3: Verify password using bcrypt
@@ -148,7 +160,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
           shop,
         });
 
-        await trackFailedAttempt(redis, email, shop);
+        await trackFailedAttempt(redis, normalizedEmail, shop);
 
         // Track failed authentication
         try {
@@ -180,7 +192,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       }
 
       // Password is valid - reset failed attempts
-      const attemptsKey = `email:attempts:${email}`;
+      const attemptsKey = `email:attempts:${normalizedEmail}`;
       await redis.del(attemptsKey);
     }
 
@@ -239,9 +251,28 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       });
     }
 
+    // Offer passkey enrollment so the next sign-in can skip this step
+    let passkeyEnrollmentToken: string | undefined;
+    try {
+      const settingsService = new SettingsService(prisma);
+      if (await settingsService.isMethodEnabled(shop, "passkey")) {
+        const passkeyService = new PasskeyService(redis);
+        passkeyEnrollmentToken = await passkeyService.createEnrollmentToken({
+          customerId: customer.id,
+          userName: email,
+          displayName: [customer.first_name, customer.last_name].filter(Boolean).join(" ") || undefined,
+        });
+      }
+    } catch (error) {
+      logger.error("Failed to create passkey enrollment", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+
     return json<EmailLoginResponse>({
       success: true,
       multipassUrl,
+      passkeyEnrollmentToken,
     });
   } catch (error) {
     logger.error("Failed to authenticate with email", {
@@ -1,40 +1,76 @@
 /**
  * OAuth Callback API Route
  * Handles OAuth callback, token exchange, and Multipass generation
+ * Google redirects back with query parameters; Apple posts a form (response_mode=form_post)
  * Requirements: 7.2, 7.3, 7.4, 7.5, 7.6, 7.7
  */
 
-import type { LoaderFunctionArgs } from "@remix-run/node";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
 import { redirect } from "@remix-run/node";
 import { logger } from "../config/logger";
 import prisma from "../db.server";
+import {
+  buildCollectEmailUrl,
+  completeOAuthSignIn,
+  getOidcProvider,
+  hasLinkedCustomer,
+  isOidcProvider,
+  storePendingOAuthSignIn,
+} from "../lib/oauth.server";
 import { getRedis } from "../lib/redis.server";
+import { AppleOAuthProvider, parseAppleCallbackUser } from "../providers/AppleOAuthProvider";
+import { FacebookOAuthProvider } from "../providers/FacebookOAuthProvider";
 import { GoogleOAuthProvider } from "../providers/GoogleOAuthProvider";
-import { CustomerService } from "../services/CustomerService";
-import type { CustomerData } from "../services/MultipassService";
-import { MultipassService } from "../services/MultipassService";
 import { OAuthService } from "../services/OAuthService";
 
+interface CallbackParams {
+  code: string | null;
+  state: string | null;
+  error: string | null;
+  // Apple's first-login user JSON (name and email)
+  user: string | null;
+}
+
 /**
  * GET /api/auth/oauth/:provider/callback
  * Handle OAuth callback and complete authentication
  */
 export const loader = async ({ params, request }: LoaderFunctionArgs) => {
-  try {
-    // Get OAuth provider from URL params
-    const provider = params.provider;
+  const url = new URL(request.url);
+
+  return handleCallback(params.provider, {
+    code: url.searchParams.get("code"),
+    state: url.searchParams.get("state"),
+    error: url.searchParams.get("error"),
+    user: null,
+  });
+};
+
+/**
+ * POST /api/auth/oauth/:provider/callback
+ * Handle form_post callbacks (Sign in with Apple)
+ */
+export const action = async ({ params, request }: ActionFunctionArgs) => {
+  const formData = await request.formData();
+
+  return handleCallback(params.provider, {
+    code: formData.get("code") as string | null,
+    state: formData.get("state") as string | null,
+    error: formData.get("error") as string | null,
+    user: formData.get("user") as string | null,
+  });
+};
 
+async function handleCallback(
+  provider: string | undefined,
+  { code, state, error, user }: CallbackParams
+) {
+  try {
     if (!provider) {
       logger.error("OAuth provider not specified in callback");
       throw new Response("OAuth provider is required", { status: 400 });
     }
 
-    // Parse query parameters
-    const url = new URL(request.url);
-    const code = url.searchParams.get("code");
-    const state = url.searchParams.get("state");
-    const error = url.searchParams.get("error");
-
     // Check for OAuth errors
     if (error) {
       logger.error("OAuth provider returned error", {
@@ -54,12 +90,13 @@ export const loader = async ({ params, request }: LoaderFunctionArgs) => {
       throw new Response("State parameter is required", { status: 400 });
     }
 
-    // Requirement 7.2: Validate state token
-    const redis = getRedis();
-    const stateKey = `oauth:state:${state}`;
-    const stateDataStr = await redis.get(stateKey);
+    // Initialize OAuth service
+    const oauthService = new OAuthService(getRedis());
+
+    // Requirement 7.2: Validate state token (one-time use)
+    const flow = await oauthService.consumeState(state);
 
-    if (!stateDataStr) {
+    if (!flow || !flow.shop) {
       logger.error("Invalid or expired state token", {
         provider,
         state: state.substring(0, 8) + "...",
@@ -67,12 +104,7 @@ export const loader = async ({ params, request }: LoaderFunctionArgs) => {
       throw new Response("Invalid or expired state token", { status: 400 });
     }
 
-    // Parse state data
-    const stateData = JSON.parse(stateDataStr);
-    const { shop, returnTo } = stateData;
-
-    // Delete state token (one-time use)
-    await redis.del(stateKey);
+    const { shop, returnTo } = flow;
 
     logger.info("OAuth state validated", {
       provider,
@@ -93,9 +125,6 @@ export const loader = async ({ params, request }: LoaderFunctionArgs) => {
 
     const settings = shopRecord.settings;
 
-    // Initialize OAuth service
-    const oauthService = new OAuthService();
-
     // Register provider based on settings
     if (provider === "google") {
       if (!settings.googleClientId || !settings.googleClientSecret) {
@@ -109,13 +138,43 @@ export const loader = async ({ params, request }: LoaderFunctionArgs) => {
       );
       oauthService.registerProvider("google", googleProvider);
     } else if (provider === "apple") {
-      logger.error("Apple OAuth not yet implemented", { shop });
-      throw new Response("Apple OAuth is not yet implemented", { status: 501 });
+      if (
+        !settings.appleClientId ||
+        !settings.appleTeamId ||
+        !settings.appleKeyId ||
+        !settings.applePrivateKey
+      ) {
+        logger.error("Apple OAuth credentials not configured", { shop });
+        throw new Response("Apple OAuth is not configured", { status: 500 });
+      }
+
+      const appleProvider = new AppleOAuthProvider(
+        settings.appleClientId,
+        settings.appleTeamId,
+        settings.appleKeyId,
+        settings.applePrivateKey
+      );
+      oauthService.registerProvider("apple", appleProvider);
     } else if (provider === "facebook") {
-      logger.error("Facebook OAuth not yet implemented", { shop });
-      throw new Response("Facebook OAuth is not yet implemented", {
-        status: 501,
-      });
+      if (!settings.facebookAppId || !settings.facebookAppSecret) {
+        logger.error("Facebook OAuth credentials not configured", { shop });
+        throw new Response("Facebook OAuth is not configured", { status: 500 });
+      }
+
+      const facebookProvider = new FacebookOAuthProvider(
+        settings.facebookAppId,
+        settings.facebookAppSecret
+      );
+      oauthService.registerProvider("facebook", facebookProvider);
+    } else if (isOidcProvider(provider)) {
+      const oidcProvider = await getOidcProvider(shopRecord.id, provider);
+
+      if (!oidcProvider) {
+        logger.error("OIDC provider not configured", { provider, shop });
+        throw new Response("OIDC provider is not configured", { status: 404 });
+      }
+
+      oauthService.registerProvider(provider, oidcProvider);
     } else {
       logger.error("Unsupported OAuth provider", { provider, shop });
       throw new Response(`Unsupported OAuth provider: ${provider}`, {
@@ -123,22 +182,21 @@ export const loader = async ({ params, request }: LoaderFunctionArgs) => {
       });
     }
 
-    // Construct callback URL (must match the one used in initiation)
-    const callbackUrl = `${
-      process.env.SHOPIFY_APP_URL || "http://localhost:3000"
-    }/api/auth/oauth/${provider}/callback`;
-
     // Requirement 7.3, 7.4: Exchange authorization code for access token and fetch user info
     logger.info("Handling OAuth callback", {
       provider,
       shop,
-      callbackUrl,
+      callbackUrl: flow.redirectUri,
     });
 
+    // Apple only posts the user's name on the first authorization
+    const callbackUser = provider === "apple" ? parseAppleCallbackUser(user) : undefined;
+
     const profile = await oauthService.handleCallback(
       provider,
       code,
-      callbackUrl
+      flow,
+      callbackUser
     );
 
     logger.info("OAuth profile fetched", {
@@ -148,100 +206,44 @@ export const loader = async ({ params, request }: LoaderFunctionArgs) => {
       email: profile.email,
     });
 
-    // Initialize customer service
-    const customerService = new CustomerService();
-
-    // Requirement 7.5: Find or create Shopify customer
-    let customer = await customerService.findByEmail(profile.email);
-
-    if (!customer) {
-      logger.info("Customer not found, creating new customer from OAuth", {
-        provider,
+    // Facebook users can decline the email permission, and OIDC issuers may not have verified it;
+    // the storefront collects and verifies one before it can match an existing customer.
+    // A linked account signs in to its customer without one
+    if ((!profile.email || !profile.emailVerified) && !(await hasLinkedCustomer(provider, profile.id))) {
+      const pendingToken = await storePendingOAuthSignIn({
         shop,
-        email: profile.email,
-      });
-
-      customer = await customerService.create({
-        email: profile.email,
-        firstName: profile.firstName,
-        lastName: profile.lastName,
-        phone: profile.phone,
-        tags: [`${provider}-auth`],
-      });
-
-      logger.info("New customer created from OAuth profile", {
-        customerId: customer.id,
         provider,
-        shop,
-        email: profile.email,
+        profile: {
+          id: profile.id,
+          firstName: profile.firstName,
+          lastName: profile.lastName,
+          phone: profile.phone,
+        },
+        returnTo,
       });
-    } else {
-      logger.info("Existing customer found for OAuth profile", {
-        customerId: customer.id,
+
+      logger.info("OAuth profile has no verified email, redirecting to collect-email step", {
         provider,
         shop,
-        email: profile.email,
+        userId: profile.id,
+        hasEmail: !!profile.email,
       });
-    }
-
-    // Update customer metafields
-    await customerService.setAuthMethod(
-      customer.id,
-      provider as "google" | "apple" | "facebook"
-    );
-    await customerService.setLastLogin(customer.id);
 
-    // Requirement 7.6: Generate Multipass token
-    const multipassService = new MultipassService(prisma);
-
-    const customerData: CustomerData = {
-      email: customer.email!,
-      created_at: customer.created_at || new Date().toISOString(),
-      first_name: customer.first_name,
-      last_name: customer.last_name,
-      identifier: customer.id,
-      return_to: returnTo,
-    };
-
-    // Validate customer data
-    multipassService.validateCustomerData(customerData);
+      return redirect(buildCollectEmailUrl(shop, provider, pendingToken));
+    }
 
-    // Generate Multipass URL
-    const multipassUrl = await multipassService.generateMultipassUrl(
+    // Requirement 7.5, 7.6: Find or create Shopify customer and generate Multipass token
+    const multipassUrl = await completeOAuthSignIn({
       shop,
-      customerData,
-      returnTo
-    );
-
-    logger.info("OAuth authentication successful", {
-      customerId: customer.id,
+      shopId: shopRecord.id,
       provider,
-      shop,
-      email: profile.email,
+      profile,
+      returnTo,
+      callbackUser,
     });
 
-    // Track successful authentication
-    try {
-      await prisma.analytics.create({
-        data: {
-          shopId: shopRecord.id,
-          eventType: "auth_success",
-          method: provider,
-          metadata: JSON.stringify({
-            email: profile.email,
-            customerId: customer.id,
-          }),
-        },
-      });
-    } catch (error) {
-      logger.error("Failed to track analytics", {
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-
     // Requirement 7.7: Redirect to Multipass URL
     logger.info("Redirecting to Multipass URL", {
-      customerId: customer.id,
       provider,
       shop,
     });
@@ -262,4 +264,4 @@ export const loader = async ({ params, request }: LoaderFunctionArgs) => {
       status: 500,
     });
   }
-};
+}
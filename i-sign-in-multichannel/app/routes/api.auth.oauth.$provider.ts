@@ -6,10 +6,12 @@
 
 import type { LoaderFunctionArgs } from "@remix-run/node";
 import { redirect } from "@remix-run/node";
-import crypto from "crypto";
 import { logger } from "../config/logger";
 import prisma from "../db.server";
+import { getOidcProvider, isOidcProvider } from "../lib/oauth.server";
 import { getRedis } from "../lib/redis.server";
+import { AppleOAuthProvider } from "../providers/AppleOAuthProvider";
+import { FacebookOAuthProvider } from "../providers/FacebookOAuthProvider";
 import { GoogleOAuthProvider } from "../providers/GoogleOAuthProvider";
 import { OAuthService } from "../services/OAuthService";
 
@@ -51,7 +53,7 @@ export const loader = async ({ params, request }: LoaderFunctionArgs) => {
     const settings = shopRecord.settings;
 
     // Initialize OAuth service
-    const oauthService = new OAuthService();
+    const oauthService = new OAuthService(getRedis());
 
     // Register provider based on settings
     if (provider === "google") {
@@ -76,18 +78,49 @@ export const loader = async ({ params, request }: LoaderFunctionArgs) => {
         throw new Response("Apple OAuth is not enabled", { status: 403 });
       }
 
-      // Apple OAuth would be implemented similarly
-      logger.error("Apple OAuth not yet implemented", { shop });
-      throw new Response("Apple OAuth is not yet implemented", { status: 501 });
+      if (
+        !settings.appleClientId ||
+        !settings.appleTeamId ||
+        !settings.appleKeyId ||
+        !settings.applePrivateKey
+      ) {
+        logger.error("Apple OAuth credentials not configured", { shop });
+        throw new Response("Apple OAuth is not configured", { status: 500 });
+      }
+
+      const appleProvider = new AppleOAuthProvider(
+        settings.appleClientId,
+        settings.appleTeamId,
+        settings.appleKeyId,
+        settings.applePrivateKey
+      );
+      oauthService.registerProvider("apple", appleProvider);
     } else if (provider === "facebook") {
       if (!settings.facebookEnabled) {
         logger.error("Facebook OAuth not enabled", { shop });
         throw new Response("Facebook OAuth is not enabled", { status: 403 });
       }
 
-      // Facebook OAuth would be implemented similarly
-      logger.error("Facebook OAuth not yet implemented", { shop });
-      throw new Response("Facebook OAuth is not yet implemented", { status: 501 });
+      if (!settings.facebookAppId || !settings.facebookAppSecret) {
+        logger.error("Facebook OAuth credentials not configured", { shop });
+        throw new Response("Facebook OAuth is not configured", { status: 500 });
+      }
+
+      const facebookProvider = new FacebookOAuthProvider(
+        settings.facebookAppId,
+        settings.facebookAppSecret
+      );
+      oauthService.registerProvider("facebook", facebookProvider);
+    } else if (isOidcProvider(provider)) {
+      // Merchant-configured OpenID Connect provider, e.g. "oidc-okta"
+      const oidcProvider = await getOidcProvider(shopRecord.id, provider);
+
+      if (!oidcProvider) {
+        logger.error("OIDC provider not configured or disabled", { provider, shop });
+        throw new Response("This sign-in provider is not enabled", { status: 403 });
+      }
+
+      oauthService.registerProvider(provider, oidcProvider);
     } else {
       logger.error("Unsupported OAuth provider", { provider, shop });
       throw new Response(`Unsupported OAuth provider: ${provider}`, {
@@ -95,39 +128,17 @@ export const loader = async ({ params, request }: LoaderFunctionArgs) => {
       });
     }
 
-    // Requirement 7.1: Generate state token for CSRF protection
-    const state = crypto.randomBytes(32).toString("hex");
-
-    // Store state in Redis with shop and returnTo information
-    const redis = getRedis();
-    const stateKey = `oauth:state:${state}`;
-    const stateData = {
-      shop,
-      provider,
-      returnTo,
-      createdAt: Date.now(),
-    };
-
-    // Store state for 10 minutes
-    await redis.setex(stateKey, 600, JSON.stringify(stateData));
-
-    logger.info("OAuth state stored", {
-      provider,
-      shop,
-      state: state.substring(0, 8) + "...",
-    });
-
     // Construct callback URL
     const callbackUrl = `${
       process.env.SHOPIFY_APP_URL || "http://localhost:3000"
     }/api/auth/oauth/${provider}/callback`;
 
-    // Requirement 7.1: Get OAuth authorization URL from provider
-    const authUrl = await oauthService.initiateOAuth(
-      provider,
-      callbackUrl,
-      state
-    );
+    // Requirement 7.1: Get OAuth authorization URL from provider; the service stores
+    // the state, PKCE verifier and nonce together with the shop and returnTo
+    const authUrl = await oauthService.initiateOAuth(provider, callbackUrl, {
+      shop,
+      returnTo,
+    });
 
     logger.info("Redirecting to OAuth provider", {
       provider,
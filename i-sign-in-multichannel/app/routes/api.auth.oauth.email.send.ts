@@ -0,0 +1,139 @@
+/**
+ * OAuth Collect-Email Send API Route
+ * Emails a verification code to the address a customer gives when their OAuth
+ * provider did not share one (e.g. Facebook users who decline the email permission)
+ */
+
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { logger } from "../config/logger";
+import { sendEmail } from "../lib/email.server";
+import {
+  ErrorMessages,
+  internalError,
+  missingFieldError,
+  oauthSignInExpiredError,
+  rateLimitError,
+  validationError,
+} from "../lib/errors.server";
+import { getPendingOAuthSignIn } from "../lib/oauth.server";
+import { getOTPServiceForShop } from "../lib/otp.server";
+import type { OTPAlphabet } from "../services/OTPService";
+
+interface OAuthEmailSendRequest {
+  pendingToken: string;
+  email: string;
+  shop: string;
+}
+
+interface OAuthEmailSendResponse {
+  success: boolean;
+  message: string;
+  codeLength: number;
+  codeAlphabet: OTPAlphabet;
+}
+
+/**
+ * POST /api/auth/oauth/email/send
+ * Send a verification code for a pending OAuth sign-in
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    // Parse request body
+    const body = await request.json() as OAuthEmailSendRequest;
+    const { pendingToken, email, shop } = body;
+
+    if (!pendingToken) {
+      return missingFieldError("Pending sign-in token");
+    }
+
+    if (!email || email.trim() === "") {
+      return missingFieldError("Email");
+    }
+
+    if (!shop) {
+      return missingFieldError("Shop domain");
+    }
+
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(email)) {
+      logger.warn("Invalid email format", { email, shop });
+      return validationError(ErrorMessages.INVALID_EMAIL);
+    }
+
+    const pending = await getPendingOAuthSignIn(pendingToken);
+
+    if (!pending || pending.shop !== shop) {
+      logger.warn("Unknown or expired pending OAuth sign-in", { shop });
+      return oauthSignInExpiredError();
+    }
+
+    // Initialize services
+    const otpService = await getOTPServiceForShop(shop);
+
+    // Same identifier as email codes elsewhere, so attempt limits and blocking are shared
+    const identifier = `email:${email.trim().toLowerCase()}`;
+
+    if (await otpService.isBlocked(identifier) || await otpService.isSendBlocked(identifier)) {
+      logger.warn("Verification code requested for blocked email", { email, shop });
+      return rateLimitError();
+    }
+
+    const canResend = await otpService.canResendOTP(identifier);
+    if (!canResend.allowed) {
+      return rateLimitError(canResend.retryAfter);
+    }
+
+    const sendAllowed = await otpService.trackSendAttempt(identifier);
+    if (!sendAllowed.allowed) {
+      logger.warn("Too many verification code requests", {
+        email,
+        shop,
+        retryAfter: sendAllowed.retryAfter,
+      });
+      return rateLimitError(sendAllowed.retryAfter);
+    }
+
+    const otp = otpService.generateOTP();
+    await otpService.storeOTP(identifier, otp);
+
+    const ttlMinutes = Math.round(otpService.policy.ttlSeconds / 60);
+
+    try {
+      await sendEmail({
+        to: email,
+        subject: "Your verification code",
+        text: `Your verification code is: ${otp}. Valid for ${ttlMinutes} minutes.`,
+      });
+    } catch (error) {
+      // An undeliverable code must not stay valid
+      await otpService.deleteOTP(identifier);
+      throw error;
+    }
+
+    await otpService.recordSendTime(identifier);
+
+    logger.info("Verification code sent for pending OAuth sign-in", {
+      provider: pending.provider,
+      email,
+      shop,
+    });
+
+    return json<OAuthEmailSendResponse>({
+      success: true,
+      message: "Verification code sent",
+      codeLength: otpService.policy.length,
+      codeAlphabet: otpService.policy.alphabet,
+    });
+  } catch (error) {
+    logger.error("Failed to send verification code", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+
+    return internalError(error instanceof Error ? error : undefined);
+  }
+};
@@ -0,0 +1,135 @@
+/**
+ * OAuth Collect-Email Verify API Route
+ * Verifies the emailed code and finishes a pending OAuth sign-in with that address
+ */
+
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { logger } from "../config/logger";
+import prisma from "../db.server";
+import {
+  internalError,
+  invalidOTPError,
+  missingFieldError,
+  oauthSignInExpiredError,
+  rateLimitError,
+  validationError,
+} from "../lib/errors.server";
+import {
+  completeOAuthSignIn,
+  deletePendingOAuthSignIn,
+  getPendingOAuthSignIn,
+} from "../lib/oauth.server";
+import { getOTPServiceForShop } from "../lib/otp.server";
+
+interface OAuthEmailVerifyRequest {
+  pendingToken: string;
+  email: string;
+  code: string;
+  shop: string;
+}
+
+interface OAuthEmailVerifyResponse {
+  success: boolean;
+  multipassUrl: string;
+}
+
+/**
+ * POST /api/auth/oauth/email/verify
+ * Verify the code and complete the pending OAuth sign-in
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    // Parse request body
+    const body = await request.json() as OAuthEmailVerifyRequest;
+    const { pendingToken, email, code, shop } = body;
+
+    if (!pendingToken) {
+      return missingFieldError("Pending sign-in token");
+    }
+
+    if (!email || email.trim() === "") {
+      return missingFieldError("Email");
+    }
+
+    if (!code) {
+      return missingFieldError("Verification code");
+    }
+
+    if (!shop) {
+      return missingFieldError("Shop domain");
+    }
+
+    const pending = await getPendingOAuthSignIn(pendingToken);
+
+    if (!pending || pending.shop !== shop) {
+      logger.warn("Unknown or expired pending OAuth sign-in", { shop });
+      return oauthSignInExpiredError();
+    }
+
+    // Initialize services
+    const otpService = await getOTPServiceForShop(shop);
+
+    if (!otpService.isValidFormat(code)) {
+      return validationError("Invalid verification code format");
+    }
+    const normalizedEmail = email.trim().toLowerCase();
+    const identifier = `email:${normalizedEmail}`;
+
+    if (await otpService.isBlocked(identifier)) {
+      logger.warn("Verification attempted for blocked email", { email, shop });
+      return rateLimitError();
+    }
+
+    // The address is only trusted once the customer proves they can read it
+    const isValid = await otpService.verifyOTP(identifier, code);
+
+    if (!isValid) {
+      logger.warn("Invalid verification code for pending OAuth sign-in", {
+        provider: pending.provider,
+        email,
+        shop,
+      });
+      return invalidOTPError();
+    }
+
+    const shopRecord = await prisma.shop.findUnique({
+      where: { domain: shop },
+    });
+
+    if (!shopRecord) {
+      logger.error("Shop not found", { shop });
+      return oauthSignInExpiredError();
+    }
+
+    // Pending sign-ins are single-use
+    await deletePendingOAuthSignIn(pendingToken);
+
+    const multipassUrl = await completeOAuthSignIn({
+      shop,
+      shopId: shopRecord.id,
+      provider: pending.provider,
+      profile: {
+        ...pending.profile,
+        email: normalizedEmail,
+        emailVerified: true,
+      },
+      returnTo: pending.returnTo,
+    });
+
+    return json<OAuthEmailVerifyResponse>({
+      success: true,
+      multipassUrl,
+    });
+  } catch (error) {
+    logger.error("Failed to complete pending OAuth sign-in", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+
+    return internalError(error instanceof Error ? error : undefined);
+  }
+};
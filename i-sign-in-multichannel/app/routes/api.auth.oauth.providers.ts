@@ -0,0 +1,68 @@
+/**
+ * OAuth Providers API Route
+ * Lists the shop's enabled OpenID Connect providers so the login form and
+ * checkout extension can render a button for each one
+ */
+
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { logger } from "../config/logger";
+import prisma from "../db.server";
+import { internalError, missingFieldError } from "../lib/errors.server";
+import { OIDC_PROVIDER_PREFIX } from "../lib/oauth.server";
+
+interface OAuthProviderSummary {
+  // Value for /api/auth/oauth/:provider, e.g. "oidc-okta"
+  id: string;
+  name: string;
+}
+
+interface OAuthProvidersResponse {
+  success: boolean;
+  providers: OAuthProviderSummary[];
+}
+
+/**
+ * GET /api/auth/oauth/providers?shop=
+ * List enabled OIDC providers (no credentials are returned)
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  try {
+    const url = new URL(request.url);
+    const shop = url.searchParams.get("shop");
+
+    if (!shop) {
+      return missingFieldError("Shop domain");
+    }
+
+    const shopRecord = await prisma.shop.findUnique({
+      where: { domain: shop },
+      include: { settings: true },
+    });
+
+    // OIDC buttons live under the OAuth tab, so they follow its feature flag
+    if (!shopRecord || shopRecord.settings?.oauthAuthEnabled === false) {
+      return json<OAuthProvidersResponse>({ success: true, providers: [] });
+    }
+
+    const oidcProviders = await prisma.oidcProvider.findMany({
+      where: { shopId: shopRecord.id, enabled: true },
+      select: { slug: true, displayName: true },
+      orderBy: { displayName: "asc" },
+    });
+
+    return json<OAuthProvidersResponse>({
+      success: true,
+      providers: oidcProviders.map((provider: { slug: string; displayName: string }) => ({
+        id: `${OIDC_PROVIDER_PREFIX}${provider.slug}`,
+        name: provider.displayName,
+      })),
+    });
+  } catch (error) {
+    logger.error("Failed to list OAuth providers", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+
+    return internalError(error instanceof Error ? error : undefined);
+  }
+};
@@ -0,0 +1,52 @@
+/**
+ * Passkey Login Options API Route
+ * Issues a WebAuthn assertion challenge for discoverable credentials
+ */
+
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { logger } from "../config/logger";
+import prisma from "../db.server";
+import { internalError, missingFieldError, validationError } from "../lib/errors.server";
+import { getRedis } from "../lib/redis.server";
+import { PasskeyService } from "../services/PasskeyService";
+import { SettingsService } from "../services/SettingsService";
+
+interface LoginOptionsRequest {
+  shop: string;
+}
+
+/**
+ * POST /api/auth/passkey/login/options
+ * Get navigator.credentials.get() options
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const body = await request.json() as LoginOptionsRequest;
+    const { shop } = body;
+
+    if (!shop) {
+      return missingFieldError("Shop domain");
+    }
+
+    const settingsService = new SettingsService(prisma);
+    if (!(await settingsService.isMethodEnabled(shop, "passkey"))) {
+      return validationError("Passkey sign-in is not enabled");
+    }
+
+    const passkeyService = new PasskeyService(getRedis());
+    const { challengeId, options } = await passkeyService.generateAuthenticationOptions();
+
+    return json({ success: true, challengeId, options });
+  } catch (error) {
+    logger.error("Failed to create passkey login options", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+
+    return internalError(error instanceof Error ? error : undefined);
+  }
+};
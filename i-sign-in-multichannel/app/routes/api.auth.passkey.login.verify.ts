@@ -0,0 +1,162 @@
+/**
+ * Passkey Login Verify API Route
+ * Verifies a passkey assertion and generates the Multipass token
+ */
+
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import type { AuthenticationResponseJSON } from "@simplewebauthn/server";
+import { logger } from "../config/logger";
+import prisma from "../db.server";
+import { internalError, invalidCredentialsError, missingFieldError, validationError } from "../lib/errors.server";
+import { getRedis } from "../lib/redis.server";
+import { CustomerService } from "../services/CustomerService";
+import type { CustomerData } from "../services/MultipassService";
+import { MultipassService } from "../services/MultipassService";
+import { PasskeyService } from "../services/PasskeyService";
+import { SettingsService } from "../services/SettingsService";
+
+interface LoginVerifyRequest {
+  challengeId: string;
+  response: AuthenticationResponseJSON;
+  shop: string;
+  returnTo?: string;
+}
+
+interface LoginVerifyResponse {
+  success: boolean;
+  multipassUrl?: string;
+  error?: string;
+}
+
+/**
+ * POST /api/auth/passkey/login/verify
+ * Verify navigator.credentials.get() output and sign the customer in
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const body = await request.json() as LoginVerifyRequest;
+    const { challengeId, response, shop, returnTo } = body;
+
+    if (!challengeId) {
+      return missingFieldError("Challenge ID");
+    }
+
+    if (!response) {
+      return missingFieldError("Credential response");
+    }
+
+    if (!shop) {
+      return missingFieldError("Shop domain");
+    }
+
+    const settingsService = new SettingsService(prisma);
+    if (!(await settingsService.isMethodEnabled(shop, "passkey"))) {
+      return validationError("Passkey sign-in is not enabled");
+    }
+
+    const passkeyService = new PasskeyService(getRedis());
+    const multipassService = new MultipassService(prisma);
+    const customerService = new CustomerService();
+
+    let customerId: string;
+    try {
+      customerId = await passkeyService.verifyAuthentication(challengeId, response);
+    } catch (error) {
+      logger.warn("Passkey assertion rejected", {
+        shop,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      await trackAnalytics(shop, "auth_failure", {
+        reason: error instanceof Error ? error.message : "unknown",
+      });
+      return invalidCredentialsError();
+    }
+
+    const customer = await customerService.findById(customerId);
+
+    if (!customer) {
+      logger.warn("Passkey belongs to a customer that no longer exists", {
+        customerId,
+        shop,
+      });
+      await trackAnalytics(shop, "auth_failure", {
+        customerId,
+        reason: "customer_not_found",
+      });
+      return invalidCredentialsError();
+    }
+
+    await customerService.setAuthMethod(customer.id, "passkey");
+    await customerService.setLastLogin(customer.id);
+
+    const customerData: CustomerData = {
+      email: customer.email || `${(customer.phone || customer.id).replace(/\+/g, "")}@phone.local`,
+      created_at: customer.created_at || new Date().toISOString(),
+      first_name: customer.first_name,
+      last_name: customer.last_name,
+      identifier: customer.id,
+      return_to: returnTo,
+    };
+
+    multipassService.validateCustomerData(customerData);
+
+    const multipassUrl = await multipassService.generateMultipassUrl(
+      shop,
+      customerData,
+      returnTo
+    );
+
+    logger.info("Passkey authentication successful", {
+      customerId: customer.id,
+      shop,
+    });
+
+    await trackAnalytics(shop, "auth_success", { customerId: customer.id });
+
+    return json<LoginVerifyResponse>({
+      success: true,
+      multipassUrl,
+    });
+  } catch (error) {
+    logger.error("Failed to verify passkey assertion", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+
+    return internalError(error instanceof Error ? error : undefined);
+  }
+};
+
+/**
+ * Track a passkey authentication event
+ */
+async function trackAnalytics(
+  shop: string,
+  eventType: "auth_success" | "auth_failure",
+  metadata: Record<string, string>
+): Promise<void> {
+  try {
+    const shopRecord = await prisma.shop.findUnique({
+      where: { domain: shop },
+    });
+
+    if (shopRecord) {
+      await prisma.analytics.create({
+        data: {
+          shopId: shopRecord.id,
+          eventType,
+          method: "passkey",
+          metadata: JSON.stringify(metadata),
+        },
+      });
+    }
+  } catch (error) {
+    logger.error("Failed to track analytics", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
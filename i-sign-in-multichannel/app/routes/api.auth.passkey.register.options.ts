@@ -0,0 +1,65 @@
+/**
+ * Passkey Registration Options API Route
+ * Issues WebAuthn creation options for a customer who has just signed in
+ */
+
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { logger } from "../config/logger";
+import prisma from "../db.server";
+import { internalError, missingFieldError, validationError } from "../lib/errors.server";
+import { getRedis } from "../lib/redis.server";
+import { PasskeyService } from "../services/PasskeyService";
+import { SettingsService } from "../services/SettingsService";
+
+interface RegisterOptionsRequest {
+  enrollmentToken: string;
+  shop: string;
+}
+
+/**
+ * POST /api/auth/passkey/register/options
+ * Get navigator.credentials.create() options for an enrollment token
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const body = await request.json() as RegisterOptionsRequest;
+    const { enrollmentToken, shop } = body;
+
+    if (!enrollmentToken) {
+      return missingFieldError("Enrollment token");
+    }
+
+    if (!shop) {
+      return missingFieldError("Shop domain");
+    }
+
+    const settingsService = new SettingsService(prisma);
+    if (!(await settingsService.isMethodEnabled(shop, "passkey"))) {
+      return validationError("Passkey sign-in is not enabled");
+    }
+
+    const passkeyService = new PasskeyService(getRedis());
+
+    try {
+      const options = await passkeyService.generateRegistrationOptions(enrollmentToken);
+      return json({ success: true, options });
+    } catch (error) {
+      logger.warn("Passkey registration options rejected", {
+        shop,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      return validationError("Passkey enrollment has expired. Please sign in again.");
+    }
+  } catch (error) {
+    logger.error("Failed to create passkey registration options", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+
+    return internalError(error instanceof Error ? error : undefined);
+  }
+};
@@ -0,0 +1,77 @@
+/**
+ * Passkey Registration Verify API Route
+ * Verifies the attestation and stores the new passkey against the Shopify customer
+ */
+
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import type { RegistrationResponseJSON } from "@simplewebauthn/server";
+import { logger } from "../config/logger";
+import prisma from "../db.server";
+import { internalError, missingFieldError, validationError } from "../lib/errors.server";
+import { getRedis } from "../lib/redis.server";
+import { PasskeyService } from "../services/PasskeyService";
+import { SettingsService } from "../services/SettingsService";
+
+interface RegisterVerifyRequest {
+  enrollmentToken: string;
+  response: RegistrationResponseJSON;
+  shop: string;
+}
+
+/**
+ * POST /api/auth/passkey/register/verify
+ * Verify navigator.credentials.create() output and save the credential
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const body = await request.json() as RegisterVerifyRequest;
+    const { enrollmentToken, response, shop } = body;
+
+    if (!enrollmentToken) {
+      return missingFieldError("Enrollment token");
+    }
+
+    if (!response) {
+      return missingFieldError("Credential response");
+    }
+
+    if (!shop) {
+      return missingFieldError("Shop domain");
+    }
+
+    const settingsService = new SettingsService(prisma);
+    if (!(await settingsService.isMethodEnabled(shop, "passkey"))) {
+      return validationError("Passkey sign-in is not enabled");
+    }
+
+    const passkeyService = new PasskeyService(getRedis());
+
+    try {
+      const credential = await passkeyService.verifyRegistration(enrollmentToken, response);
+
+      logger.info("Passkey registered", {
+        customerId: credential.customerId,
+        shop,
+      });
+
+      return json({ success: true, credentialId: credential.id });
+    } catch (error) {
+      logger.warn("Passkey registration rejected", {
+        shop,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      return validationError("Passkey could not be registered. Please try again.");
+    }
+  } catch (error) {
+    logger.error("Failed to verify passkey registration", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+
+    return internalError(error instanceof Error ? error : undefined);
+  }
+};
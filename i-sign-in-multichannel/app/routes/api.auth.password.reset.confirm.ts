@@ -0,0 +1,130 @@
+/**
+ * Password Reset Confirm API Route
+ * Sets a new password with a reset token and signs the customer out everywhere
+ */
+
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { logger } from "../config/logger";
+import prisma from "../db.server";
+import {
+  internalError,
+  invalidResetTokenError,
+  missingFieldError,
+  validationError,
+} from "../lib/errors.server";
+import { getRedis } from "../lib/redis.server";
+import { CustomerService } from "../services/CustomerService";
+import { PasswordService } from "../services/PasswordService";
+import { SessionService } from "../services/SessionService";
+
+interface PasswordResetConfirmRequest {
+  token: string;
+  password: string;
+  shop: string;
+}
+
+interface PasswordResetConfirmResponse {
+  success: boolean;
+  message: string;
+}
+
+/**
+ * POST /api/auth/password/reset/confirm
+ * Set a new password with a reset token
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    // Parse request body
+    const body = await request.json() as PasswordResetConfirmRequest;
+    const { token, password, shop } = body;
+
+    if (!token) {
+      return missingFieldError("Reset token");
+    }
+
+    if (!password || password.trim() === "") {
+      return missingFieldError("Password");
+    }
+
+    if (!shop) {
+      return missingFieldError("Shop domain");
+    }
+
+    if (password.length < 8) {
+      return validationError("Password must be at least 8 characters", { field: "password" });
+    }
+
+    // Initialize services
+    const redis = getRedis();
+    const passwordService = new PasswordService(redis);
+    const customerService = new CustomerService();
+
+    const email = await passwordService.consumeResetToken(token);
+
+    if (!email) {
+      logger.warn("Invalid or expired password reset token used", { shop });
+      return invalidResetTokenError();
+    }
+
+    const customer = await customerService.findByEmail(email);
+
+    if (!customer) {
+      logger.warn("Password reset for email without a customer", { email, shop });
+      return invalidResetTokenError();
+    }
+
+    await passwordService.setPassword(email, password);
+    await passwordService.clearLockout(email);
+
+    // Existing sessions may belong to whoever the customer was locking out
+    const sessionService = new SessionService(redis);
+    const revoked = await sessionService.invalidateCustomerSessions(customer.id);
+
+    logger.info("Password reset completed", {
+      customerId: customer.id,
+      revokedSessions: revoked,
+      shop,
+    });
+
+    // Track analytics
+    try {
+      const shopRecord = await prisma.shop.findUnique({
+        where: { domain: shop },
+      });
+
+      if (shopRecord) {
+        await prisma.analytics.create({
+          data: {
+            shopId: shopRecord.id,
+            eventType: "password_reset",
+            method: "email",
+            metadata: JSON.stringify({
+              customerId: customer.id,
+            }),
+          },
+        });
+      }
+    } catch (error) {
+      // Don't fail the request if analytics tracking fails
+      logger.error("Failed to track analytics", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+
+    return json<PasswordResetConfirmResponse>({
+      success: true,
+      message: "Your password has been updated. Please sign in with your new password.",
+    });
+  } catch (error) {
+    logger.error("Failed to reset password", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+
+    return internalError(error instanceof Error ? error : undefined);
+  }
+};
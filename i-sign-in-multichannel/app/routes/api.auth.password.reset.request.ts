@@ -0,0 +1,197 @@
+/**
+ * Password Reset Request API Route
+ * Sends a single-use password reset link by email or SMS
+ */
+
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { logger } from "../config/logger";
+import prisma from "../db.server";
+import { sendEmail } from "../lib/email.server";
+import {
+  ErrorMessages,
+  internalError,
+  missingFieldError,
+  rateLimitError,
+  validationError,
+} from "../lib/errors.server";
+import { getOTPServiceForShop } from "../lib/otp.server";
+import { getSMSQueue } from "../lib/queue.server";
+import { getRedis } from "../lib/redis.server";
+import { CustomerService } from "../services/CustomerService";
+import { PasswordService } from "../services/PasswordService";
+
+interface PasswordResetRequest {
+  email: string;
+  shop: string;
+  channel?: "email" | "sms";
+}
+
+interface PasswordResetRequestResponse {
+  success: boolean;
+  message: string;
+}
+
+// Same answer whether or not the account exists, so the route can't be used to discover accounts
+const RESET_REQUESTED_MESSAGE = "If an account exists for this email, a reset link has been sent.";
+
+/**
+ * POST /api/auth/password/reset/request
+ * Send a password reset link
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    // Parse request body
+    const body = await request.json() as PasswordResetRequest;
+    const { email, shop, channel = "email" } = body;
+
+    if (!email || email.trim() === "") {
+      return missingFieldError("Email");
+    }
+
+    if (!shop) {
+      return missingFieldError("Shop domain");
+    }
+
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(email)) {
+      logger.warn("Invalid email format", { email, shop });
+      return validationError(ErrorMessages.INVALID_EMAIL);
+    }
+
+    if (channel !== "email" && channel !== "sms") {
+      return validationError("Channel must be email or sms", { field: "channel" });
+    }
+
+    // Initialize services
+    const redis = getRedis();
+    const otpService = await getOTPServiceForShop(shop);
+    const passwordService = new PasswordService(redis);
+    const customerService = new CustomerService();
+
+    // Rate limit per email the same way SMS codes are rate limited per phone
+    const identifier = `reset:${email.trim().toLowerCase()}`;
+
+    if (await otpService.isSendBlocked(identifier)) {
+      logger.warn("Password reset requested for send-blocked email", { email, shop });
+      return rateLimitError();
+    }
+
+    const canResend = await otpService.canResendOTP(identifier);
+    if (!canResend.allowed) {
+      return rateLimitError(canResend.retryAfter);
+    }
+
+    const sendAllowed = await otpService.trackSendAttempt(identifier);
+    if (!sendAllowed.allowed) {
+      logger.warn("Too many password reset requests", {
+        email,
+        shop,
+        retryAfter: sendAllowed.retryAfter,
+      });
+      return rateLimitError(sendAllowed.retryAfter);
+    }
+
+    await otpService.recordSendTime(identifier);
+
+    const customer = await customerService.findByEmail(email);
+
+    if (!customer) {
+      logger.info("Password reset requested for unknown email", { email, shop });
+      return json<PasswordResetRequestResponse>({
+        success: true,
+        message: RESET_REQUESTED_MESSAGE,
+      });
+    }
+
+    if (channel === "sms" && !customer.phone) {
+      logger.warn("SMS password reset requested for customer without a phone number", {
+        customerId: customer.id,
+        shop,
+      });
+      return json<PasswordResetRequestResponse>({
+        success: true,
+        message: RESET_REQUESTED_MESSAGE,
+      });
+    }
+
+    // The login form picks the token up from the URL and shows the new password screen
+    const token = await passwordService.createResetToken(email);
+    const link = `https://${shop}/account/login?reset_token=${token}`;
+    const ttlMinutes = Math.round(passwordService.getResetTokenTTL() / 60);
+
+    if (channel === "sms") {
+      const callbackUrl = `${
+        process.env.SHOPIFY_APP_URL || "http://localhost:3000"
+      }/api/webhooks/sms-dlr`;
+
+      await getSMSQueue().add({
+        phone: customer.phone!,
+        message: `Reset your password (valid for ${ttlMinutes} minutes): ${link}`,
+        attemptNumber: 0,
+        callbackUrl,
+        shop,
+      });
+    } else {
+      try {
+        await sendEmail({
+          to: email,
+          subject: "Reset your password",
+          text: `Use the link below to choose a new password. It is valid for ${ttlMinutes} minutes and can only be used once.\n\n${link}\n\nIf you didn't ask to reset your password, you can ignore this email.`,
+          html: `<p>Use the link below to choose a new password. It is valid for ${ttlMinutes} minutes and can only be used once.</p><p><a href="${link}">Reset password</a></p><p>If you didn't ask to reset your password, you can ignore this email.</p>`,
+        });
+      } catch (error) {
+        // An undeliverable token must not stay valid
+        await passwordService.consumeResetToken(token);
+        throw error;
+      }
+    }
+
+    logger.info("Password reset link sent", {
+      customerId: customer.id,
+      channel,
+      shop,
+    });
+
+    // Track analytics
+    try {
+      const shopRecord = await prisma.shop.findUnique({
+        where: { domain: shop },
+      });
+
+      if (shopRecord) {
+        await prisma.analytics.create({
+          data: {
+            shopId: shopRecord.id,
+            eventType: "password_reset_requested",
+            method: "email",
+            metadata: JSON.stringify({
+              customerId: customer.id,
+              channel,
+            }),
+          },
+        });
+      }
+    } catch (error) {
+      // Don't fail the request if analytics tracking fails
+      logger.error("Failed to track analytics", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+
+    return json<PasswordResetRequestResponse>({
+      success: true,
+      message: RESET_REQUESTED_MESSAGE,
+    });
+  } catch (error) {
+    logger.error("Failed to send password reset link", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+
+    return internalError(error instanceof Error ? error : undefined);
+  }
+};
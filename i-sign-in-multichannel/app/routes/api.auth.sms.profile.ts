@@ -0,0 +1,167 @@
+/**
+ * SMS Profile Completion API Route
+ * Saves the email, name and marketing consent of a new SMS customer and finishes the sign-in
+ */
+
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { logger } from "../config/logger";
+import prisma from "../db.server";
+import {
+  emailInUseError,
+  ErrorMessages,
+  internalError,
+  missingFieldError,
+  profileSignInExpiredError,
+  validationError,
+} from "../lib/errors.server";
+import { deletePendingProfileSignIn, getPendingProfileSignIn } from "../lib/profile.server";
+import { CustomerService } from "../services/CustomerService";
+import type { CustomerData } from "../services/MultipassService";
+import { MultipassService } from "../services/MultipassService";
+
+interface CompleteProfileRequest {
+  profileToken: string;
+  shop: string;
+  email: string;
+  firstName: string;
+  lastName?: string;
+  acceptsMarketing?: boolean;
+}
+
+interface CompleteProfileResponse {
+  success: boolean;
+  multipassUrl: string;
+}
+
+/**
+ * POST /api/auth/sms/profile
+ * Update the customer with their profile and return the Multipass URL
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    // Parse request body
+    const body = await request.json() as CompleteProfileRequest;
+    const { profileToken, shop, email, firstName, lastName, acceptsMarketing } = body;
+
+    if (!profileToken) {
+      return missingFieldError("Profile token");
+    }
+
+    if (!shop) {
+      return missingFieldError("Shop domain");
+    }
+
+    if (!email || email.trim() === "") {
+      return missingFieldError("Email");
+    }
+
+    if (!firstName || firstName.trim() === "") {
+      return missingFieldError("First name");
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+    if (!emailRegex.test(normalizedEmail)) {
+      logger.warn("Invalid email format", { email, shop });
+      return validationError(ErrorMessages.INVALID_EMAIL);
+    }
+
+    const pending = await getPendingProfileSignIn(profileToken);
+
+    if (!pending || pending.shop !== shop) {
+      logger.warn("Unknown or expired pending profile completion", { shop });
+      return profileSignInExpiredError();
+    }
+
+    const customerService = new CustomerService();
+
+    // Shopify allows one customer per email; the owner has to sign in with email instead
+    const emailOwner = await customerService.findByEmail(normalizedEmail);
+
+    if (emailOwner && emailOwner.id !== pending.customerId) {
+      logger.warn("Profile email belongs to another customer", {
+        customerId: pending.customerId,
+        shop,
+      });
+      return emailInUseError();
+    }
+
+    // Pending sign-ins are single-use
+    await deletePendingProfileSignIn(profileToken);
+
+    const customer = await customerService.update(pending.customerId, {
+      email: normalizedEmail,
+      firstName: firstName.trim(),
+      lastName: lastName?.trim() || undefined,
+      acceptsMarketing: acceptsMarketing === true,
+    });
+
+    // Generate Multipass token with the real email instead of the phone placeholder
+    const multipassService = new MultipassService(prisma);
+
+    const customerData: CustomerData = {
+      email: normalizedEmail,
+      created_at: customer.created_at || new Date().toISOString(),
+      first_name: customer.first_name,
+      last_name: customer.last_name,
+      identifier: customer.id,
+      return_to: pending.returnTo,
+    };
+
+    multipassService.validateCustomerData(customerData);
+
+    const multipassUrl = await multipassService.generateMultipassUrl(
+      shop,
+      customerData,
+      pending.returnTo
+    );
+
+    logger.info("Profile completed, SMS authentication successful", {
+      customerId: customer.id,
+      shop,
+    });
+
+    // Track successful authentication
+    try {
+      const shopRecord = await prisma.shop.findUnique({
+        where: { domain: shop },
+      });
+
+      if (shopRecord) {
+        await prisma.analytics.create({
+          data: {
+            shopId: shopRecord.id,
+            eventType: "auth_success",
+            method: "sms",
+            metadata: JSON.stringify({
+              customerId: customer.id,
+              profileCompleted: true,
+              acceptsMarketing: acceptsMarketing === true,
+            }),
+          },
+        });
+      }
+    } catch (error) {
+      logger.error("Failed to track analytics", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+
+    return json<CompleteProfileResponse>({
+      success: true,
+      multipassUrl,
+    });
+  } catch (error) {
+    logger.error("Failed to complete profile", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+
+    return internalError(error instanceof Error ? error : undefined);
+  }
+};
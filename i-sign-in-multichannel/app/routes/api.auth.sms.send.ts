@@ -1,26 +1,45 @@
 /**
  * SMS Send OTP API Route
- * Handles sending OTP codes via SMS
+ * Handles sending OTP codes via SMS or WhatsApp
  * Requirements: 5.1, 5.2, 5.3, 5.8
  */
 
 import type { ActionFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
+import { config } from "../config";
 import { logger } from "../config/logger";
 import prisma from "../db.server";
+import {
+  internalError,
+  invalidPhoneNumberError,
+  missingFieldError,
+  rateLimitError,
+  validationError,
+} from "../lib/errors.server";
+import { detectLanguage } from "../lib/i18n.server";
+import { appendOTPAutofill, getOTPAutofillForShop, getOTPServiceForShop } from "../lib/otp.server";
+import { checkSignInPhoneNumber, getCountryCallingCode } from "../lib/phone.server";
 import { getSMSQueue } from "../lib/queue.server";
-import { getRedis } from "../lib/redis.server";
-import { OTPService } from "../services/OTPService";
+import type { MessageChannel } from "../providers/ISMSProvider";
+import type { OTPAlphabet } from "../services/OTPService";
+import type { SMSFraudReason } from "../services/SMSFraudService";
+import { isVoiceCallConfigured } from "../workers/voice.worker.server";
 
 interface SendSMSRequest {
   phoneNumber: string;
   shop: string;
+  channel?: MessageChannel;
+  country?: string; // Storefront country, for numbers typed without a country code
 }
 
 interface SendSMSResponse {
   success: boolean;
   message: string;
+  phoneNumber?: string; // E.164 form of the number, to verify the code against
   cooldownSeconds?: number;
+  voiceCallAvailable?: boolean;
+  codeLength?: number;
+  codeAlphabet?: OTPAlphabet;
 }
 
 /**
@@ -35,10 +54,11 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   try {
     // Parse request body
     const body = await request.json() as SendSMSRequest;
-    const { phoneNumber, shop } = body;
+    const { shop } = body;
+    const channel: MessageChannel = body.channel || "sms";
 
     // Validate required fields
-    if (!phoneNumber) {
+    if (!body.phoneNumber) {
       return missingFieldError("Phone number");
     }
 
@@ -46,20 +66,30 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return missingFieldError("Shop domain");
     }
 
-    // Requirement 5.1: Validate phone number format (E.164)
-    const e164Regex = /^\+[1-9]\d{1,14}$/;
-    if (!e164Regex.test(phoneNumber)) {
-      logger.warn("Invalid phone number format", {
-        phone: maskPhone(phoneNumber),
+    // Requirement 5.1: Validate the phone number, normalized to E.164 so one number always gets one set of limits
+    const checked = checkSignInPhoneNumber(String(body.phoneNumber), {
+      defaultRegion: body.country || config.phone.defaultRegion,
+      rejectVoip: config.phone.rejectVoip,
+    });
+    if (!checked.valid) {
+      logger.warn("Phone number refused", {
+        phone: maskPhone(String(body.phoneNumber)),
+        type: checked.type,
         shop,
       });
-      return invalidPhoneNumberError();
+      return checked.type
+        ? validationError(checked.error, { field: "phoneNumber" })
+        : invalidPhoneNumberError();
+    }
+    const phoneNumber = checked.phone;
+
+    if (channel !== "sms" && channel !== "whatsapp") {
+      return validationError("Channel must be sms or whatsapp");
     }
 
     // Initialize services
-    const redis = getRedis();
     const smsQueue = getSMSQueue();
-    const otpService = new OTPService(redis);
+    const otpService = await getOTPServiceForShop(shop);
 
     // Check if phone is blocked from verification attempts
     if (await otpService.isBlocked(phoneNumber)) {
@@ -81,7 +111,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return rateLimitError();
     }
 
-    // Requirement 5.8: Check resend cooldown (30 seconds)
+    // Requirement 5.8: Check resend cooldown (30 seconds unless the shop's OTP policy says otherwise)
     const canResend = await otpService.canResendOTP(phoneNumber);
     if (!canResend.allowed) {
       logger.warn("OTP resend attempted too soon", {
@@ -93,8 +123,18 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return rateLimitError(canResend.retryAfter);
     }
 
+    // From the second resend the customer can ask for the code by voice call instead
+    const voiceCallAvailable = !!canResend.offerVoiceCall && isVoiceCallConfigured();
+
     // Track send attempt (rate limiting)
     const sendAllowed = await otpService.trackSendAttempt(phoneNumber);
+    if (sendAllowed.reason) {
+      await recordFraudBlocked(shop, phoneNumber, sendAllowed.reason);
+
+      if (sendAllowed.reason === "country_not_allowed") {
+        return validationError("SMS is not available for this country", { field: "phoneNumber" });
+      }
+    }
     if (!sendAllowed.allowed) {
       logger.warn("Too many send attempts", {
         phone: maskPhone(phoneNumber),
@@ -118,7 +158,12 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     await otpService.recordSendTime(phoneNumber);
 
     // Requirement 5.3: Queue SMS sending job
-    const message = `Your verification code is: ${otp}. Valid for 5 minutes.`;
+    // Autofill lines let the storefront fill the code in (WebOTP) and native apps read it (SMS Retriever)
+    const message = appendOTPAutofill(
+      `Your verification code is: ${otp}. Valid for ${Math.round(otpService.policy.ttlSeconds / 60)} minutes.`,
+      otp,
+      await getOTPAutofillForShop(shop)
+    );
     const callbackUrl = `${
       process.env.SHOPIFY_APP_URL || "http://localhost:3000"
     }/api/webhooks/sms-dlr`;
@@ -128,11 +173,19 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       message,
       attemptNumber: 0,
       callbackUrl,
+      // The worker falls back to SMS if WhatsApp can't deliver
+      channel,
+      code: otp,
+      language: detectLanguage(request.headers.get("Accept-Language")),
+      shop,
     });
+    // Only codes that were actually queued count towards SMS pumping protection
+    await otpService.recordQueuedSend(phoneNumber);
 
     logger.info("SMS job queued successfully", {
       phone: maskPhone(phoneNumber),
       shop,
+      channel,
     });
 
     // Track analytics
@@ -149,6 +202,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             method: "sms",
             metadata: JSON.stringify({
               phone: maskPhone(phoneNumber),
+              channel,
             }),
           },
         });
@@ -163,6 +217,11 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     return json<SendSMSResponse>({
       success: true,
       message: "Verification code sent successfully",
+      phoneNumber,
+      cooldownSeconds: otpService.policy.resendCooldownSeconds,
+      voiceCallAvailable,
+      codeLength: otpService.policy.length,
+      codeAlphabet: otpService.policy.alphabet,
     });
   } catch (error) {
     logger.error("Failed to send OTP", {
@@ -173,6 +232,36 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   }
 };
 
+/**
+ * Record a send refused by SMS pumping protection for the dashboard
+ */
+async function recordFraudBlocked(shopDomain: string, phone: string, reason: SMSFraudReason): Promise<void> {
+  try {
+    const shop = await prisma.shop.findUnique({
+      where: { domain: shopDomain },
+    });
+
+    if (shop) {
+      await prisma.analytics.create({
+        data: {
+          shopId: shop.id,
+          eventType: "sms_fraud_blocked",
+          method: "sms",
+          metadata: JSON.stringify({
+            phone: maskPhone(phone),
+            prefix: getCountryCallingCode(phone),
+            reason,
+          }),
+        },
+      });
+    }
+  } catch (error) {
+    logger.error("Failed to track analytics", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
 /**
  * Mask phone number for logging (PII protection)
  */
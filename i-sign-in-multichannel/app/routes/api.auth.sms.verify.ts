@@ -6,24 +6,44 @@
 
 import type { ActionFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
+import { config } from "../config";
 import { logger } from "../config/logger";
 import prisma from "../db.server";
+import {
+  expiredOTPError,
+  internalError,
+  invalidOTPError,
+  invalidPhoneNumberError,
+  missingFieldError,
+  rateLimitError,
+  validationError,
+} from "../lib/errors.server";
+import { findLinkedCustomer, recordIdentity } from "../lib/identity.server";
+import { getOTPServiceForShop } from "../lib/otp.server";
+import { normalizePhoneNumber } from "../lib/phone.server";
+import { isProfileComplete, storePendingProfileSignIn } from "../lib/profile.server";
 import { getRedis } from "../lib/redis.server";
 import { CustomerService } from "../services/CustomerService";
 import type { CustomerData } from "../services/MultipassService";
 import { MultipassService } from "../services/MultipassService";
-import { OTPService } from "../services/OTPService";
+import { PasskeyService } from "../services/PasskeyService";
+import { SettingsService } from "../services/SettingsService";
 
 interface VerifySMSRequest {
   phoneNumber: string;
   code: string;
   shop: string;
   returnTo?: string;
+  country?: string;
 }
 
 interface VerifySMSResponse {
   success: boolean;
   multipassUrl?: string;
+  passkeyEnrollmentToken?: string;
+  // Set when the shop asks new SMS customers for their email and name before signing them in
+  profileRequired?: boolean;
+  profileToken?: string;
   error?: string;
 }
 
@@ -39,10 +59,10 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   try {
     // Parse request body
     const body = await request.json() as VerifySMSRequest;
-    const { phoneNumber, code, shop, returnTo } = body;
+    const { code, shop, returnTo } = body;
 
     // Validate required fields
-    if (!phoneNumber) {
+    if (!body.phoneNumber) {
       return missingFieldError("Phone number");
     }
 
@@ -54,19 +74,24 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return missingFieldError("Shop domain");
     }
 
-    // Requirement 5.5: Validate OTP format (6 digits)
-    const otpRegex = /^\d{6}$/;
-    if (!otpRegex.test(code)) {
+    // Normalized the same way as when the code was sent, so the code is found under the same key
+    const phoneNumber = normalizePhoneNumber(String(body.phoneNumber), body.country || config.phone.defaultRegion);
+    if (!phoneNumber) {
+      return invalidPhoneNumberError();
+    }
+
+    // Initialize services
+    const redis = getRedis();
+    const otpService = await getOTPServiceForShop(shop);
+
+    // Requirement 5.5: Validate OTP format (length and characters from the shop's OTP policy)
+    if (!otpService.isValidFormat(code)) {
       logger.warn("Invalid OTP format", {
         phone: maskPhone(phoneNumber),
         shop,
       });
       return validationError("Invalid verification code format");
     }
-
-    // Initialize services
-    const redis = getRedis();
-    const otpService = new OTPService(redis);
     const multipassService = new MultipassService(prisma);
     const customerService = new CustomerService();
 
@@ -133,8 +158,10 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       shop,
     });
 
-    // Find or create customer
-    let customer = await customerService.findByPhone(phoneNumber);
+    // Find or create customer; a linked phone wins over a phone match in Shopify
+    let customer =
+      (await findLinkedCustomer(customerService, "sms", phoneNumber)) ||
+      (await customerService.findByPhone(phoneNumber));
 
     if (!customer) {
       logger.info("Customer not found, creating new customer", {
@@ -158,6 +185,29 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     await customerService.setAuthMethod(customer.id, "sms");
     await customerService.setPhoneVerified(customer.id, true);
     await customerService.setLastLogin(customer.id);
+    await recordIdentity(customer.id, { provider: "sms", subject: phoneNumber, verified: true });
+
+    // Hold the Multipass redirect until the customer replaces the placeholder email with their own
+    if (!isProfileComplete(customer) && await new SettingsService(prisma).isProfileCompletionEnabled(shop)) {
+      const profileToken = await storePendingProfileSignIn({
+        shop,
+        customerId: customer.id,
+        phone: phoneNumber,
+        returnTo,
+      });
+
+      logger.info("Profile completion required", {
+        customerId: customer.id,
+        phone: maskPhone(phoneNumber),
+        shop,
+      });
+
+      return json<VerifySMSResponse>({
+        success: false,
+        profileRequired: true,
+        profileToken,
+      });
+    }
 
     // Requirement 5.6: Generate Multipass token
     const customerData: CustomerData = {
@@ -210,9 +260,28 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       });
     }
 
+    // Offer passkey enrollment so the next sign-in can skip this step
+    let passkeyEnrollmentToken: string | undefined;
+    try {
+      const settingsService = new SettingsService(prisma);
+      if (await settingsService.isMethodEnabled(shop, "passkey")) {
+        const passkeyService = new PasskeyService(redis);
+        passkeyEnrollmentToken = await passkeyService.createEnrollmentToken({
+          customerId: customer.id,
+          userName: customer.email || phoneNumber,
+          displayName: [customer.first_name, customer.last_name].filter(Boolean).join(" ") || undefined,
+        });
+      }
+    } catch (error) {
+      logger.error("Failed to create passkey enrollment", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+
     return json<VerifySMSResponse>({
       success: true,
       multipassUrl,
+      passkeyEnrollmentToken,
     });
   } catch (error) {
     logger.error("Failed to verify OTP", {
@@ -0,0 +1,145 @@
+/**
+ * Voice OTP API Route
+ * Reads a fresh OTP code out in a voice call when SMS isn't arriving ("call me instead")
+ */
+
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { config } from "../config";
+import { logger } from "../config/logger";
+import prisma from "../db.server";
+import {
+  internalError,
+  invalidPhoneNumberError,
+  missingFieldError,
+  rateLimitError,
+  validationError,
+} from "../lib/errors.server";
+import { detectLanguage } from "../lib/i18n.server";
+import { getOTPServiceForShop } from "../lib/otp.server";
+import { normalizePhoneNumber } from "../lib/phone.server";
+import { getVoiceQueue } from "../lib/queue.server";
+import { isVoiceCallConfigured } from "../workers/voice.worker.server";
+
+interface VoiceCallRequest {
+  phoneNumber: string;
+  shop: string;
+  country?: string;
+}
+
+interface VoiceCallResponse {
+  success: boolean;
+  message: string;
+}
+
+/**
+ * POST /api/auth/sms/voice
+ * Queue a text-to-speech call with a new code; only offered after the second resend
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  try {
+    const body = await request.json() as VoiceCallRequest;
+    const { shop } = body;
+
+    if (!body.phoneNumber) {
+      return missingFieldError("Phone number");
+    }
+
+    if (!shop) {
+      return missingFieldError("Shop domain");
+    }
+
+    // Normalized the same way as when the code was sent
+    const phoneNumber = normalizePhoneNumber(String(body.phoneNumber), body.country || config.phone.defaultRegion);
+    if (!phoneNumber) {
+      return invalidPhoneNumberError();
+    }
+
+    if (!isVoiceCallConfigured()) {
+      return validationError("Voice calls are not available");
+    }
+
+    const otpService = await getOTPServiceForShop(shop);
+
+    if (await otpService.isBlocked(phoneNumber)) {
+      logger.warn("Voice OTP attempted for blocked phone", {
+        phone: maskPhone(phoneNumber),
+        shop,
+      });
+      return rateLimitError();
+    }
+
+    // One call per send window, and only once the call has been offered
+    const voiceCall = await otpService.trackVoiceCall(phoneNumber);
+    if (!voiceCall.allowed) {
+      return voiceCall.retryAfter
+        ? rateLimitError(voiceCall.retryAfter)
+        : validationError("A voice call is available after resending the code twice");
+    }
+
+    const otp = otpService.generateOTP();
+    await otpService.storeOTP(phoneNumber, otp);
+
+    await getVoiceQueue().add({
+      phone: phoneNumber,
+      code: otp,
+      language: detectLanguage(request.headers.get("Accept-Language")),
+      attemptNumber: 0,
+    });
+
+    logger.info("Voice call job queued successfully", {
+      phone: maskPhone(phoneNumber),
+      shop,
+    });
+
+    // Track analytics
+    try {
+      const shopRecord = await prisma.shop.findUnique({
+        where: { domain: shop },
+      });
+
+      if (shopRecord) {
+        await prisma.analytics.create({
+          data: {
+            shopId: shopRecord.id,
+            eventType: "sms_sent",
+            method: "sms",
+            metadata: JSON.stringify({
+              phone: maskPhone(phoneNumber),
+              channel: "voice",
+            }),
+          },
+        });
+      }
+    } catch (error) {
+      logger.error("Failed to track analytics", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+
+    return json<VoiceCallResponse>({
+      success: true,
+      message: "You will receive a call with your verification code",
+    });
+  } catch (error) {
+    logger.error("Failed to queue voice OTP", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+
+    return internalError(error instanceof Error ? error : undefined);
+  }
+};
+
+/**
+ * Mask phone number for logging (PII protection)
+ */
+function maskPhone(phone: string): string {
+  if (phone.length <= 4) {
+    return "****";
+  }
+  return phone.slice(0, -4).replace(/./g, "*") + phone.slice(-4);
+}
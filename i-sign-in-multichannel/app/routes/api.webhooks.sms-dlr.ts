@@ -0,0 +1,51 @@
+/**
+ * SMS Delivery Receipt Webhook Route
+ * Records the delivery receipts SMS providers post for the messages they sent
+ * Requirements: 5.2
+ */
+
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { logger } from "../config/logger";
+import { createDeliveryReceiptService } from "../workers/sms.worker.server";
+
+/**
+ * POST /api/webhooks/sms-dlr?provider=twilio
+ * Senders name the provider in the callback URL, so the receipt is read in its format
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const provider = new URL(request.url).searchParams.get("provider") ?? undefined;
+
+  try {
+    const payload = await readPayload(request);
+    const receipt = await createDeliveryReceiptService().handleDeliveryReceipt(provider, payload);
+
+    if (receipt) {
+      logger.info("Received SMS DLR webhook", {
+        provider,
+        messageId: receipt.messageId,
+        status: receipt.status,
+        failureReason: receipt.failureReason,
+      });
+    }
+  } catch (error) {
+    logger.error("Failed to process SMS DLR webhook", {
+      provider,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+
+  // Acknowledge every receipt, so the provider doesn't keep retrying one we can't use
+  return json({ success: true });
+};
+
+/**
+ * Providers post receipts as JSON or, like Twilio, as a form
+ */
+async function readPayload(request: Request): Promise<unknown> {
+  if (request.headers.get("Content-Type")?.includes("application/json")) {
+    return request.json();
+  }
+
+  return Object.fromEntries(new URLSearchParams(await request.text()));
+}
@@ -12,10 +12,27 @@ import {
     Text,
 } from "@shopify/polaris";
 import type { ISMSProvider } from "app/providers";
-import { SmsToProvider, TwilioProvider } from "app/providers";
+import { MessageBirdProvider, PlivoProvider, SmsToProvider, TwilioProvider, VonageProvider } from "app/providers";
 import { ThemeExtensionInstructions } from "../components/ThemeExtensionInstructions";
 import prisma from "../db.server";
+import { getSMSFraudServiceForShop } from "../lib/otp.server";
+import { getRedis } from "../lib/redis.server";
+import type { ProviderHealth } from "../services/ProviderHealthService";
+import { ProviderHealthService } from "../services/ProviderHealthService";
+import type { SMSMonthlySpend, SMSSpendCapStatus } from "../services/SMSCostService";
+import { SMSCostService } from "../services/SMSCostService";
+import type { BlockedPrefix } from "../services/SMSFraudService";
 import { authenticate } from "../shopify.server";
+import { initializeSMSProviders } from "../workers/sms.worker.server";
+
+// Analytics row the dashboard stats are built from
+interface AnalyticsEvent {
+  id: string;
+  eventType: string;
+  method: string | null;
+  metadata: string | null;
+  createdAt: Date;
+}
 
 interface AnalyticsStats {
   totalAuthentications: number;
@@ -36,6 +53,14 @@ interface AnalyticsStats {
       balance?: string;
     };
   };
+  providerHealth: ProviderHealth[];
+  smsFraud: {
+    blockedSends: number;
+    topPrefixes: Array<{ prefix: string; count: number }>;
+    blockedPrefixes: BlockedPrefix[];
+  };
+  smsSpend: SMSMonthlySpend[]; // This month and the two before, newest first
+  smsSpendCap: SMSSpendCapStatus;
   recentActivity: Array<{
     id: string;
     eventType: string;
@@ -44,6 +69,14 @@ interface AnalyticsStats {
   }>;
 }
 
+const PROVIDER_LABELS: Record<string, string> = {
+  "sms.to": "SMS.to",
+  twilio: "Twilio",
+  vonage: "Vonage",
+  plivo: "Plivo",
+  messagebird: "MessageBird",
+};
+
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
   const shop = session.shop;
@@ -68,7 +101,10 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   const settings = shopRecord.settings;
   const isNewInstallation = !settings || (
     !settings.smsToApiKey && 
-    !settings.twilioAccountSid
+    !settings.twilioAccountSid &&
+    !settings.vonageApiKey &&
+    !settings.plivoAuthId &&
+    !settings.messageBirdAccessKey
   );
 
   // Redirect to onboarding if new installation
@@ -80,7 +116,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   const now = new Date();
   const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
 
-  const analytics = await prisma.analytics.findMany({
+  const analytics: AnalyticsEvent[] = await prisma.analytics.findMany({
     where: {
       shopId: shopRecord.id,
       createdAt: {
@@ -178,6 +214,41 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     }
   }
 
+  if (shopRecord.settings?.vonageApiKey && shopRecord.settings?.vonageApiSecret && shopRecord.settings?.vonageFrom) {
+    try {
+      providers.push(new VonageProvider(
+        shopRecord.settings.vonageApiKey,
+        shopRecord.settings.vonageApiSecret,
+        shopRecord.settings.vonageFrom
+      ));
+    } catch (e) {
+      // Provider initialization failed
+    }
+  }
+
+  if (shopRecord.settings?.plivoAuthId && shopRecord.settings?.plivoAuthToken && shopRecord.settings?.plivoFrom) {
+    try {
+      providers.push(new PlivoProvider(
+        shopRecord.settings.plivoAuthId,
+        shopRecord.settings.plivoAuthToken,
+        shopRecord.settings.plivoFrom
+      ));
+    } catch (e) {
+      // Provider initialization failed
+    }
+  }
+
+  if (shopRecord.settings?.messageBirdAccessKey && shopRecord.settings?.messageBirdOriginator) {
+    try {
+      providers.push(new MessageBirdProvider(
+        shopRecord.settings.messageBirdAccessKey,
+        shopRecord.settings.messageBirdOriginator
+      ));
+    } catch (e) {
+      // Provider initialization failed
+    }
+  }
+
   // Fetch balance for each provider
   await Promise.all(
     providers.map(async (provider) => {
@@ -200,6 +271,51 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     })
   );
 
+  // Circuit state, failure rate and latency of the providers that send messages
+  let providerHealth: ProviderHealth[] = [];
+  try {
+    const providerNames = new Set([
+      ...initializeSMSProviders().map((provider) => provider.name),
+      ...providers.map((provider) => provider.name),
+    ]);
+    providerHealth = await new ProviderHealthService(getRedis()).getAllHealth([...providerNames]);
+  } catch (e) {
+    // Health is unavailable without Redis, skip
+  }
+
+  // Sends refused by SMS pumping protection, and the number ranges paused right now
+  const blockedSendsByPrefix: Record<string, number> = {};
+  const fraudBlocked = analytics.filter((a) => a.eventType === "sms_fraud_blocked");
+  fraudBlocked.forEach((event) => {
+    try {
+      const metadata = event.metadata ? JSON.parse(event.metadata) : {};
+      const prefix = metadata.prefix || "unknown";
+      blockedSendsByPrefix[prefix] = (blockedSendsByPrefix[prefix] || 0) + 1;
+    } catch (e) {
+      // Skip invalid metadata
+    }
+  });
+
+  let blockedPrefixes: BlockedPrefix[] = [];
+  try {
+    blockedPrefixes = await getSMSFraudServiceForShop(shop).getBlockedPrefixes();
+  } catch (e) {
+    // Blocks are unavailable without Redis, skip
+  }
+
+  const smsFraud = {
+    blockedSends: fraudBlocked.length,
+    topPrefixes: Object.entries(blockedSendsByPrefix)
+      .map(([prefix, count]) => ({ prefix, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 5),
+    blockedPrefixes,
+  };
+
+  const costService = new SMSCostService(prisma);
+  const smsSpend = await costService.getMonthlySpend(shopRecord.id);
+  const smsSpendCap = await costService.getSpendCapStatus(shopRecord.id);
+
   const authMethodBreakdown = {
     sms: authSuccesses.filter((a) => a.method === "sms").length,
     email: authSuccesses.filter((a) => a.method === "email").length,
@@ -221,6 +337,10 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     successRate,
     smsDeliveryRate,
     smsProviderStats,
+    providerHealth,
+    smsFraud,
+    smsSpend,
+    smsSpendCap,
     recentActivity,
   };
 
@@ -234,6 +354,15 @@ export default function Index() {
     return `${value.toFixed(1)}%`;
   };
 
+  const formatCost = (amount: number, currency: string) => {
+    return `${currency} ${amount.toFixed(2)}`;
+  };
+
+  // "2026-10" -> "October 2026"
+  const formatMonth = (month: string) => {
+    return new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, { month: "long", year: "numeric", timeZone: "UTC" });
+  };
+
   const formatEventType = (eventType: string) => {
     return eventType
       .split("_")
@@ -242,15 +371,28 @@ export default function Index() {
   };
 
   const getEventBadge = (eventType: string) => {
-    if (eventType === "auth_success" || eventType === "sms_sent") {
+    if (eventType === "auth_success" || eventType === "sms_sent" || eventType === "sms_provider_circuit_closed") {
       return <Badge tone="success">{formatEventType(eventType)}</Badge>;
     }
-    if (eventType === "auth_failure" || eventType === "sms_failed") {
+    if (eventType === "auth_failure" || eventType === "sms_failed" || eventType === "sms_provider_circuit_open") {
       return <Badge tone="critical">{formatEventType(eventType)}</Badge>;
     }
+    if (eventType === "sms_fraud_blocked" || eventType === "sms_fraud_prefix_blocked" || eventType === "sms_spend_cap_reached") {
+      return <Badge tone="warning">{formatEventType(eventType)}</Badge>;
+    }
     return <Badge>{formatEventType(eventType)}</Badge>;
   };
 
+  const getHealthBadge = (health: ProviderHealth) => {
+    if (health.state === "open") {
+      return <Badge tone="critical">Skipped</Badge>;
+    }
+    if (health.state === "half_open") {
+      return <Badge tone="attention">Recovering</Badge>;
+    }
+    return <Badge tone="success">Healthy</Badge>;
+  };
+
   return (
     <Page>
       <TitleBar title="Multi-Channel Authentication Dashboard" />
@@ -382,7 +524,7 @@ export default function Index() {
                             <BlockStack gap="200">
                               <InlineStack align="space-between">
                                 <Text as="span" variant="bodyMd" fontWeight="semibold">
-                                  {provider === "sms.to" ? "SMS.to" : provider === "twilio" ? "Twilio" : provider}
+                                  {PROVIDER_LABELS[provider] ?? provider}
                                 </Text>
                                 <Badge
                                   tone={
@@ -435,6 +577,140 @@ export default function Index() {
                 </BlockStack>
               </Card>
 
+              {stats.providerHealth.length > 0 && (
+                <Card>
+                  <BlockStack gap="400">
+                    <Text as="h3" variant="headingMd">
+                      SMS Provider Health
+                    </Text>
+                    <Text as="p" variant="bodySm" tone="subdued">
+                      Providers that fail too often are skipped for a while, then tried again with a single message.
+                    </Text>
+                    <BlockStack gap="300">
+                      {stats.providerHealth.map((health) => (
+                        <InlineStack key={health.provider} align="space-between" blockAlign="center">
+                          <BlockStack gap="100">
+                            <Text as="span" variant="bodyMd" fontWeight="semibold">
+                              {PROVIDER_LABELS[health.provider] ?? health.provider}
+                            </Text>
+                            <Text as="span" variant="bodySm" tone="subdued">
+                              {health.sampleSize > 0
+                                ? `${formatPercentage(health.failureRate * 100)} failed · ${health.averageLatencyMs} ms average over the last ${health.sampleSize} sends`
+                                : "No recent sends"}
+                            </Text>
+                          </BlockStack>
+                          {getHealthBadge(health)}
+                        </InlineStack>
+                      ))}
+                    </BlockStack>
+                  </BlockStack>
+                </Card>
+              )}
+
+              <Card>
+                <BlockStack gap="400">
+                  <InlineStack align="space-between" blockAlign="center">
+                    <Text as="h3" variant="headingMd">
+                      SMS Spend
+                    </Text>
+                    {stats.smsSpendCap.reached && <Badge tone="warning">Order confirmations paused</Badge>}
+                  </InlineStack>
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    What your providers charged per month. Where a provider doesn't report a price, the cost is estimated from
+                    the number of segments sent.
+                  </Text>
+                  {stats.smsSpendCap.cap !== null && (
+                    <Text as="p" variant="bodySm" tone="subdued">
+                      {formatCost(stats.smsSpendCap.spent, stats.smsSpendCap.currency)} of your{" "}
+                      {formatCost(stats.smsSpendCap.cap, stats.smsSpendCap.currency)} monthly cap spent.
+                    </Text>
+                  )}
+                  {stats.smsSpend.some((month) => month.providers.length > 0) ? (
+                    <BlockStack gap="400">
+                      {stats.smsSpend.map((month) => (
+                        <BlockStack key={month.month} gap="200">
+                          <InlineStack align="space-between">
+                            <Text as="h4" variant="headingSm">
+                              {formatMonth(month.month)}
+                            </Text>
+                            <Text as="span" variant="bodyMd" fontWeight="semibold">
+                              {Object.entries(month.totals)
+                                .map(([currency, total]) => formatCost(total, currency))
+                                .join(" + ") || formatCost(0, stats.smsSpendCap.currency)}
+                            </Text>
+                          </InlineStack>
+                          {month.providers.map((spend) => (
+                            <InlineStack key={`${spend.provider}:${spend.currency}`} align="space-between">
+                              <BlockStack gap="100">
+                                <Text as="span" variant="bodyMd">
+                                  {PROVIDER_LABELS[spend.provider] ?? spend.provider}
+                                </Text>
+                                <Text as="span" variant="bodySm" tone="subdued">
+                                  {spend.messages} messages · {spend.segments} segments
+                                  {spend.estimatedCost > 0 && ` · ${formatCost(spend.estimatedCost, spend.currency)} estimated`}
+                                </Text>
+                              </BlockStack>
+                              <Text as="span" variant="bodyMd">
+                                {formatCost(spend.cost, spend.currency)}
+                              </Text>
+                            </InlineStack>
+                          ))}
+                        </BlockStack>
+                      ))}
+                    </BlockStack>
+                  ) : (
+                    <Text as="p" variant="bodyMd" tone="subdued">
+                      No SMS spend recorded yet. What each message costs will appear here once SMS messages are sent.
+                    </Text>
+                  )}
+                </BlockStack>
+              </Card>
+
+              {(stats.smsFraud.blockedSends > 0 || stats.smsFraud.blockedPrefixes.length > 0) && (
+                <Card>
+                  <BlockStack gap="400">
+                    <Text as="h3" variant="headingMd">
+                      SMS Fraud Protection
+                    </Text>
+                    <Text as="p" variant="bodySm" tone="subdued">
+                      {stats.smsFraud.blockedSends} code requests refused in the last 30 days to protect you from SMS pumping.
+                    </Text>
+                    {stats.smsFraud.blockedPrefixes.length > 0 && (
+                      <BlockStack gap="200">
+                        <Text as="h4" variant="headingSm">
+                          Paused number ranges
+                        </Text>
+                        {stats.smsFraud.blockedPrefixes.map((block) => (
+                          <InlineStack key={block.prefix} align="space-between" blockAlign="center">
+                            <Text as="span" variant="bodyMd" fontWeight="semibold">
+                              {block.prefix}
+                            </Text>
+                            <Text as="span" variant="bodySm" tone="subdued">
+                              {block.verified} of {block.sent} codes entered · until {new Date(block.expiresAt).toLocaleTimeString()}
+                            </Text>
+                          </InlineStack>
+                        ))}
+                      </BlockStack>
+                    )}
+                    {stats.smsFraud.topPrefixes.length > 0 && (
+                      <BlockStack gap="200">
+                        <Text as="h4" variant="headingSm">
+                          Most refused countries
+                        </Text>
+                        {stats.smsFraud.topPrefixes.map(({ prefix, count }) => (
+                          <InlineStack key={prefix} align="space-between">
+                            <Text as="span" variant="bodyMd">
+                              {prefix}
+                            </Text>
+                            <Badge tone="warning">{`${count} refused`}</Badge>
+                          </InlineStack>
+                        ))}
+                      </BlockStack>
+                    )}
+                  </BlockStack>
+                </Card>
+              )}
+
               {stats.recentActivity.length > 0 && (
                 <Card>
                   <BlockStack gap="400">
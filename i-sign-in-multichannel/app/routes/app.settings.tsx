@@ -1,6 +1,6 @@
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
-import { useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import { useActionData, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
 import { TitleBar, useAppBridge } from "@shopify/app-bridge-react";
 import {
     Banner,
@@ -10,13 +10,33 @@ import {
     Layout,
     Page,
 } from "@shopify/polaris";
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import type { AnalyticsData } from "../components/AnalyticsDashboard";
 import { AnalyticsDashboard } from "../components/AnalyticsDashboard";
 import { MultipassConfig } from "../components/MultipassConfig";
 import { OAuthProviderConfig } from "../components/OAuthProviderConfig";
+import type { NewOIDCProvider } from "../components/OIDCProviderConfig";
+import { OIDCProviderConfig } from "../components/OIDCProviderConfig";
+import { OrderConfirmationConfig } from "../components/OrderConfirmationConfig";
+import { OTPPolicyConfig } from "../components/OTPPolicyConfig";
+import { ProfileCompletionConfig } from "../components/ProfileCompletionConfig";
+import { SMSAutofillConfig } from "../components/SMSAutofillConfig";
+import { SMSFraudConfig } from "../components/SMSFraudConfig";
+import type { SMSProviderName } from "../components/SMSProviderConfig";
 import { SMSProviderConfig } from "../components/SMSProviderConfig";
+import { SMSSpendCapConfig } from "../components/SMSSpendCapConfig";
+import { TranslationConfig } from "../components/TranslationConfig";
 import { UICustomization } from "../components/UICustomization";
+import { config } from "../config";
 import prisma from "../db.server";
+import { getSMSFraudServiceForShop, isValidAndroidAppHash } from "../lib/otp.server";
+import { fetchDiscoveryDocument } from "../providers/OIDCProvider";
+import type { OTPPolicy } from "../services/OTPService";
+import { resolveOTPPolicy, validateOTPPolicy } from "../services/OTPService";
+import type { BlockedPrefix } from "../services/SMSFraudService";
+import { SMSCostService } from "../services/SMSCostService";
+import { validateCountryPrefixes } from "../services/SMSFraudService";
+import { parseSMSRoutingRules, validateSMSRoutingRules } from "../services/SMSService";
 import { authenticate } from "../shopify.server";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
@@ -88,6 +108,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     google: authSuccesses.filter((a: any) => a.method === "google").length,
     apple: authSuccesses.filter((a: any) => a.method === "apple").length,
     facebook: authSuccesses.filter((a: any) => a.method === "facebook").length,
+    oidc: authSuccesses.filter((a: any) => a.method?.startsWith("oidc-")).length,
   };
 
   const recentAttempts = analytics.slice(0, 10).map((a: any) => ({
@@ -97,7 +118,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     createdAt: a.createdAt.toISOString(),
   }));
 
-  const analyticsData = {
+  const analyticsData: AnalyticsData = {
     totalAuthentications,
     authMethodBreakdown,
     successRate,
@@ -107,7 +128,48 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     recentAttempts,
   };
 
-  return json({ settings, analyticsData });
+  // Client secrets stay on the server
+  const oidcProviders = await prisma.oidcProvider.findMany({
+    where: { shopId: shopRecord.id },
+    select: {
+      id: true,
+      slug: true,
+      displayName: true,
+      issuer: true,
+      clientId: true,
+      scopes: true,
+      enabled: true,
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const appUrl = process.env.SHOPIFY_APP_URL || "http://localhost:3000";
+
+  // Unset policy fields are shown with the defaults they fall back to
+  const otpPolicy = resolveOTPPolicy(settings.otpPolicy);
+  const smsRoutingRules = parseSMSRoutingRules(settings.smsRoutingRules);
+
+  let blockedPrefixes: BlockedPrefix[] = [];
+  try {
+    blockedPrefixes = await getSMSFraudServiceForShop(shop).getBlockedPrefixes();
+  } catch {
+    // Redis being down shouldn't stop the settings page loading
+  }
+
+  const spendCap = await new SMSCostService(prisma).getSpendCapStatus(shopRecord.id);
+
+  return json({
+    settings,
+    analyticsData,
+    oidcProviders,
+    appUrl,
+    otpPolicy,
+    smsRoutingRules,
+    blockedPrefixes,
+    shop,
+    smsSegmentCost: config.sms.segmentCost,
+    spendCap,
+  });
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
@@ -132,6 +194,53 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   }
 
   if (action === "save") {
+    const otpPolicy = JSON.parse(formData.get("otpPolicy") as string || "{}") as Partial<OTPPolicy>;
+
+    try {
+      validateOTPPolicy(otpPolicy);
+    } catch (error) {
+      return json({
+        success: false,
+        error: error instanceof Error ? error.message : "Invalid verification code settings",
+      }, { status: 400 });
+    }
+
+    const smsRoutingRules = JSON.parse(formData.get("smsRoutingRules") as string || "[]");
+
+    try {
+      validateSMSRoutingRules(smsRoutingRules);
+    } catch (error) {
+      return json({
+        success: false,
+        error: error instanceof Error ? error.message : "Invalid country routing settings",
+      }, { status: 400 });
+    }
+
+    let smsCountryAllowlist: string[];
+    let smsCountryDenylist: string[];
+
+    try {
+      smsCountryAllowlist = validateCountryPrefixes((formData.get("smsCountryAllowlist") as string || "").split(/[\s,]+/).filter(Boolean));
+      smsCountryDenylist = validateCountryPrefixes((formData.get("smsCountryDenylist") as string || "").split(/[\s,]+/).filter(Boolean));
+    } catch (error) {
+      return json({
+        success: false,
+        error: error instanceof Error ? error.message : "Invalid SMS country settings",
+      }, { status: 400 });
+    }
+
+    const androidAppHash = (formData.get("androidAppHash") as string || "").trim();
+    const smsMonthlySpendCapInput = (formData.get("smsMonthlySpendCap") as string || "").trim();
+    const smsMonthlySpendCap = smsMonthlySpendCapInput ? Number(smsMonthlySpendCapInput) : null;
+
+    if (androidAppHash && !isValidAndroidAppHash(androidAppHash)) {
+      return json({ success: false, error: "Android app hash must be 11 characters" }, { status: 400 });
+    }
+
+    if (smsMonthlySpendCap !== null && !(smsMonthlySpendCap >= 0)) {
+      return json({ success: false, error: "Monthly SMS spend cap must be a positive amount" }, { status: 400 });
+    }
+
     // Update settings
     const settingsData = {
       smsPrimary: formData.get("smsPrimary") as string,
@@ -140,16 +249,36 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       twilioAccountSid: formData.get("twilioAccountSid") as string,
       twilioAuthToken: formData.get("twilioAuthToken") as string,
       twilioFromNumber: formData.get("twilioFromNumber") as string,
+      vonageApiKey: formData.get("vonageApiKey") as string,
+      vonageApiSecret: formData.get("vonageApiSecret") as string,
+      vonageFrom: formData.get("vonageFrom") as string,
+      plivoAuthId: formData.get("plivoAuthId") as string,
+      plivoAuthToken: formData.get("plivoAuthToken") as string,
+      plivoFrom: formData.get("plivoFrom") as string,
+      messageBirdAccessKey: formData.get("messageBirdAccessKey") as string,
+      messageBirdOriginator: formData.get("messageBirdOriginator") as string,
+      smsRoutingRules: smsRoutingRules.length > 0 ? JSON.stringify(smsRoutingRules) : null,
+      smsCountryAllowlist: smsCountryAllowlist.join(", ") || null,
+      smsCountryDenylist: smsCountryDenylist.join(", ") || null,
+      smsMonthlySpendCap,
+      webOtpEnabled: formData.get("webOtpEnabled") === "true",
+      webOtpDomain: (formData.get("webOtpDomain") as string || "").trim() || null,
+      androidAppHash: androidAppHash || null,
       googleClientId: formData.get("googleClientId") as string,
       googleClientSecret: formData.get("googleClientSecret") as string,
       googleEnabled: formData.get("googleEnabled") === "true",
       appleClientId: formData.get("appleClientId") as string,
       appleTeamId: formData.get("appleTeamId") as string,
       appleKeyId: formData.get("appleKeyId") as string,
+      applePrivateKey: formData.get("applePrivateKey") as string,
       appleEnabled: formData.get("appleEnabled") === "true",
       facebookAppId: formData.get("facebookAppId") as string,
       facebookAppSecret: formData.get("facebookAppSecret") as string,
       facebookEnabled: formData.get("facebookEnabled") === "true",
+      profileCompletionEnabled: formData.get("profileCompletionEnabled") === "true",
+      orderConfirmationEnabled: formData.get("orderConfirmationEnabled") === "true",
+      orderConfirmationMessage: (formData.get("orderConfirmationMessage") as string || "").trim() || null,
+      otpPolicy: JSON.stringify(otpPolicy),
       primaryColor: formData.get("primaryColor") as string,
       buttonStyle: formData.get("buttonStyle") as string,
       logoUrl: formData.get("logoUrl") as string,
@@ -209,6 +338,87 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     return json({ success: true, message: "Translations saved successfully" });
   }
 
+  if (action === "addOidcProvider") {
+    const slug = (formData.get("slug") as string || "").trim();
+    const displayName = (formData.get("displayName") as string || "").trim();
+    const issuer = (formData.get("issuer") as string || "").trim();
+    const clientId = (formData.get("clientId") as string || "").trim();
+    const clientSecret = (formData.get("clientSecret") as string || "").trim();
+    const scopes = (formData.get("scopes") as string || "").trim() || "openid email profile";
+
+    if (!slug || !displayName || !issuer || !clientId || !clientSecret) {
+      return json({ success: false, error: "All OpenID Connect provider fields are required" }, { status: 400 });
+    }
+
+    if (!/^[a-z0-9-]+$/.test(slug)) {
+      return json({ success: false, error: "Identifier may only contain lowercase letters, numbers and hyphens" }, { status: 400 });
+    }
+
+    // Reject issuers whose discovery document cannot be read now rather than at the customer's first sign-in
+    try {
+      await fetchDiscoveryDocument(issuer);
+    } catch (error) {
+      return json({
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to read the issuer's discovery document",
+      }, { status: 400 });
+    }
+
+    const existing = await prisma.oidcProvider.findUnique({
+      where: { shopId_slug: { shopId: shopRecord.id, slug } },
+    });
+
+    if (existing) {
+      return json({ success: false, error: `A provider with the identifier "${slug}" already exists` }, { status: 400 });
+    }
+
+    await prisma.oidcProvider.create({
+      data: {
+        shopId: shopRecord.id,
+        slug,
+        displayName,
+        issuer: issuer.replace(/\/+$/, ""),
+        clientId,
+        clientSecret,
+        scopes,
+      },
+    });
+
+    return json({ success: true, message: `${displayName} added` });
+  }
+
+  if (action === "toggleOidcProvider" || action === "deleteOidcProvider") {
+    const id = formData.get("id") as string;
+
+    // Scope by shop so one merchant cannot change another's providers
+    const provider = await prisma.oidcProvider.findFirst({
+      where: { id, shopId: shopRecord.id },
+    });
+
+    if (!provider) {
+      return json({ success: false, error: "Provider not found" }, { status: 404 });
+    }
+
+    if (action === "deleteOidcProvider") {
+      await prisma.oidcProvider.delete({ where: { id: provider.id } });
+      return json({ success: true, message: `${provider.displayName} removed` });
+    }
+
+    await prisma.oidcProvider.update({
+      where: { id: provider.id },
+      data: { enabled: formData.get("enabled") === "true" },
+    });
+
+    return json({ success: true, message: `${provider.displayName} updated` });
+  }
+
+  if (action === "unblockSmsPrefix") {
+    const prefix = formData.get("prefix") as string;
+
+    await getSMSFraudServiceForShop(shop).unblockPrefix(prefix);
+    return json({ success: true, message: `SMS to ${prefix} resumed` });
+  }
+
   if (action === "testConnection") {
     const provider = formData.get("provider") as string;
     // TODO: Implement actual connection testing
@@ -223,7 +433,19 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 };
 
 export default function Settings() {
-  const { settings, analyticsData } = useLoaderData<typeof loader>() as any;
+  const {
+    settings,
+    analyticsData,
+    oidcProviders,
+    appUrl,
+    otpPolicy,
+    smsRoutingRules,
+    blockedPrefixes,
+    shop,
+    smsSegmentCost,
+    spendCap,
+  } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>() as { success?: boolean; error?: string } | undefined;
   const submit = useSubmit();
   const navigation = useNavigation();
   const shopify = useAppBridge();
@@ -238,16 +460,36 @@ export default function Settings() {
     twilioAccountSid: settings.twilioAccountSid || "",
     twilioAuthToken: settings.twilioAuthToken || "",
     twilioFromNumber: settings.twilioFromNumber || "",
+    vonageApiKey: settings.vonageApiKey || "",
+    vonageApiSecret: settings.vonageApiSecret || "",
+    vonageFrom: settings.vonageFrom || "",
+    plivoAuthId: settings.plivoAuthId || "",
+    plivoAuthToken: settings.plivoAuthToken || "",
+    plivoFrom: settings.plivoFrom || "",
+    messageBirdAccessKey: settings.messageBirdAccessKey || "",
+    messageBirdOriginator: settings.messageBirdOriginator || "",
+    smsRoutingRules: JSON.stringify(smsRoutingRules),
+    smsCountryAllowlist: settings.smsCountryAllowlist || "",
+    smsCountryDenylist: settings.smsCountryDenylist || "",
+    smsMonthlySpendCap: settings.smsMonthlySpendCap?.toString() ?? "",
+    webOtpEnabled: settings.webOtpEnabled,
+    webOtpDomain: settings.webOtpDomain || "",
+    androidAppHash: settings.androidAppHash || "",
     googleClientId: settings.googleClientId || "",
     googleClientSecret: settings.googleClientSecret || "",
     googleEnabled: settings.googleEnabled,
     appleClientId: settings.appleClientId || "",
     appleTeamId: settings.appleTeamId || "",
     appleKeyId: settings.appleKeyId || "",
+    applePrivateKey: settings.applePrivateKey || "",
     appleEnabled: settings.appleEnabled,
     facebookAppId: settings.facebookAppId || "",
     facebookAppSecret: settings.facebookAppSecret || "",
     facebookEnabled: settings.facebookEnabled,
+    profileCompletionEnabled: settings.profileCompletionEnabled,
+    orderConfirmationEnabled: settings.orderConfirmationEnabled,
+    orderConfirmationMessage: settings.orderConfirmationMessage || "",
+    otpPolicy: JSON.stringify(otpPolicy),
     primaryColor: settings.primaryColor,
     buttonStyle: settings.buttonStyle,
     logoUrl: settings.logoUrl || "",
@@ -257,14 +499,22 @@ export default function Settings() {
   });
 
   const [showSuccessBanner, setShowSuccessBanner] = useState(false);
+  // The form data is gone once the save has finished, so remember what was submitted
+  const submittedAction = useRef<FormDataEntryValue | null>(null);
 
   useEffect(() => {
-    if (navigation.state === "idle" && (navigation.formData as any)?.get("action") === "save") {
-      setShowSuccessBanner(true);
-      shopify.toast.show("Settings saved successfully");
-      setTimeout(() => setShowSuccessBanner(false), 3000);
+    if (navigation.state === "submitting") {
+      submittedAction.current = navigation.formData?.get("action") ?? null;
+    } else if (navigation.state === "idle" && submittedAction.current === "save") {
+      submittedAction.current = null;
+
+      if (actionData?.success) {
+        setShowSuccessBanner(true);
+        shopify.toast.show("Settings saved successfully");
+        setTimeout(() => setShowSuccessBanner(false), 3000);
+      }
     }
-  }, [navigation.state, navigation.formData, shopify]);
+  }, [navigation.state, navigation.formData, actionData, shopify]);
 
   const handleChange = (field: string, value: string | boolean) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
@@ -279,7 +529,7 @@ export default function Settings() {
     submit(formDataToSubmit, { method: "post" });
   };
 
-  const handleTestConnection = async (provider: "sms.to" | "twilio") => {
+  const handleTestConnection = async (provider: SMSProviderName) => {
     const formDataToSubmit = new FormData();
     formDataToSubmit.append("action", "testConnection");
     formDataToSubmit.append("provider", provider);
@@ -287,6 +537,37 @@ export default function Settings() {
     shopify.toast.show(`Testing ${provider} connection...`);
   };
 
+  const handleAddOidcProvider = (provider: NewOIDCProvider) => {
+    const formDataToSubmit = new FormData();
+    formDataToSubmit.append("action", "addOidcProvider");
+    Object.entries(provider).forEach(([key, value]) => {
+      formDataToSubmit.append(key, value);
+    });
+    submit(formDataToSubmit, { method: "post" });
+  };
+
+  const handleToggleOidcProvider = (id: string, enabled: boolean) => {
+    const formDataToSubmit = new FormData();
+    formDataToSubmit.append("action", "toggleOidcProvider");
+    formDataToSubmit.append("id", id);
+    formDataToSubmit.append("enabled", String(enabled));
+    submit(formDataToSubmit, { method: "post" });
+  };
+
+  const handleDeleteOidcProvider = (id: string) => {
+    const formDataToSubmit = new FormData();
+    formDataToSubmit.append("action", "deleteOidcProvider");
+    formDataToSubmit.append("id", id);
+    submit(formDataToSubmit, { method: "post" });
+  };
+
+  const handleUnblockPrefix = (prefix: string) => {
+    const formDataToSubmit = new FormData();
+    formDataToSubmit.append("action", "unblockSmsPrefix");
+    formDataToSubmit.append("prefix", prefix);
+    submit(formDataToSubmit, { method: "post" });
+  };
+
   const handleSaveTranslations = (language: string, translations: Record<string, string>) => {
     const formDataToSubmit = new FormData();
     formDataToSubmit.append("action", "saveTranslations");
@@ -306,6 +587,12 @@ export default function Settings() {
           </Banner>
         )}
 
+        {actionData?.error && (
+          <Banner tone="critical">
+            {actionData.error}
+          </Banner>
+        )}
+
         <Layout>
           <Layout.Section>
             <BlockStack gap="500">
@@ -321,10 +608,36 @@ export default function Settings() {
                 twilioAccountSid={formData.twilioAccountSid}
                 twilioAuthToken={formData.twilioAuthToken}
                 twilioFromNumber={formData.twilioFromNumber}
+                vonageApiKey={formData.vonageApiKey}
+                vonageApiSecret={formData.vonageApiSecret}
+                vonageFrom={formData.vonageFrom}
+                plivoAuthId={formData.plivoAuthId}
+                plivoAuthToken={formData.plivoAuthToken}
+                plivoFrom={formData.plivoFrom}
+                messageBirdAccessKey={formData.messageBirdAccessKey}
+                messageBirdOriginator={formData.messageBirdOriginator}
+                smsRoutingRules={JSON.parse(formData.smsRoutingRules)}
                 onChange={handleChange}
                 onTestConnection={handleTestConnection}
               />
 
+              <SMSAutofillConfig
+                webOtpEnabled={formData.webOtpEnabled}
+                webOtpDomain={formData.webOtpDomain}
+                androidAppHash={formData.androidAppHash}
+                shopDomain={shop}
+                onChange={handleChange}
+              />
+
+              <SMSFraudConfig
+                smsCountryAllowlist={formData.smsCountryAllowlist}
+                smsCountryDenylist={formData.smsCountryDenylist}
+                blockedPrefixes={blockedPrefixes}
+                isLoading={isLoading}
+                onChange={handleChange}
+                onUnblock={handleUnblockPrefix}
+              />
+
               <OAuthProviderConfig
                 googleClientId={formData.googleClientId}
                 googleClientSecret={formData.googleClientSecret}
@@ -332,6 +645,7 @@ export default function Settings() {
                 appleClientId={formData.appleClientId}
                 appleTeamId={formData.appleTeamId}
                 appleKeyId={formData.appleKeyId}
+                applePrivateKey={formData.applePrivateKey}
                 appleEnabled={formData.appleEnabled}
                 facebookAppId={formData.facebookAppId}
                 facebookAppSecret={formData.facebookAppSecret}
@@ -339,6 +653,38 @@ export default function Settings() {
                 onChange={handleChange}
               />
 
+              <OIDCProviderConfig
+                providers={oidcProviders}
+                callbackBaseUrl={appUrl}
+                isLoading={isLoading}
+                onAdd={handleAddOidcProvider}
+                onToggle={handleToggleOidcProvider}
+                onDelete={handleDeleteOidcProvider}
+              />
+
+              <ProfileCompletionConfig
+                profileCompletionEnabled={formData.profileCompletionEnabled}
+                onChange={handleChange}
+              />
+
+              <OrderConfirmationConfig
+                orderConfirmationEnabled={formData.orderConfirmationEnabled}
+                orderConfirmationMessage={formData.orderConfirmationMessage}
+                segmentCost={smsSegmentCost}
+                onChange={handleChange}
+              />
+
+              <SMSSpendCapConfig
+                smsMonthlySpendCap={formData.smsMonthlySpendCap}
+                spendCap={spendCap}
+                onChange={handleChange}
+              />
+
+              <OTPPolicyConfig
+                otpPolicy={JSON.parse(formData.otpPolicy)}
+                onChange={handleChange}
+              />
+
               <UICustomization
                 primaryColor={formData.primaryColor}
                 buttonStyle={formData.buttonStyle}
@@ -349,6 +695,7 @@ export default function Settings() {
               <TranslationConfig
                 defaultLanguage={formData.defaultLanguage}
                 customTranslations={formData.customTranslations}
+                segmentCost={smsSegmentCost}
                 onSave={handleSaveTranslations}
               />
 
@@ -0,0 +1,36 @@
+/**
+ * SMS Sandbox API Route
+ * Returns the latest message the sandbox captured for a phone number, so E2E tests can read the code
+ */
+
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { getSMSSandbox } from "../workers/sms.worker.server";
+
+/**
+ * GET /app/sms-sandbox/latest?phone=+447700900000
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  await authenticate.admin(request);
+
+  const sandbox = getSMSSandbox();
+
+  if (!sandbox) {
+    return json({ error: "SMS sandbox is not enabled" }, { status: 404 });
+  }
+
+  const phone = new URL(request.url).searchParams.get("phone");
+
+  if (!phone || !/\d/.test(phone)) {
+    return json({ error: "Phone number is required" }, { status: 400 });
+  }
+
+  const message = await sandbox.getLatestMessage(phone);
+
+  if (!message) {
+    return json({ error: "No sandbox message for this phone number" }, { status: 404 });
+  }
+
+  return json({ message });
+};
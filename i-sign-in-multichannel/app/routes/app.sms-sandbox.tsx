@@ -0,0 +1,139 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useLoaderData, useRevalidator, useSubmit } from "@remix-run/react";
+import { TitleBar } from "@shopify/app-bridge-react";
+import {
+  Badge,
+  Banner,
+  BlockStack,
+  Card,
+  InlineStack,
+  Layout,
+  Page,
+  Text,
+} from "@shopify/polaris";
+import { useEffect } from "react";
+import type { SandboxMessage } from "../providers/SandboxSMSProvider";
+import { authenticate } from "../shopify.server";
+import { getSMSSandbox } from "../workers/sms.worker.server";
+
+// How often the inbox refreshes while open
+const REFRESH_INTERVAL_MS = 5000;
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  await authenticate.admin(request);
+
+  const sandbox = getSMSSandbox();
+  const messages: SandboxMessage[] = sandbox ? await sandbox.getMessages(50) : [];
+
+  return json({ enabled: sandbox !== null, messages });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  await authenticate.admin(request);
+
+  const sandbox = getSMSSandbox();
+
+  if (!sandbox) {
+    return json({ error: "SMS sandbox is not enabled" }, { status: 404 });
+  }
+
+  await sandbox.clear();
+  return json({ success: true });
+};
+
+const getStatusBadge = (status: SandboxMessage["status"]) => {
+  switch (status) {
+    case "delivered":
+      return <Badge tone="success">Delivered</Badge>;
+    case "failed":
+      return <Badge tone="critical">Failed</Badge>;
+    case "sent":
+      return <Badge tone="info">Sent</Badge>;
+    default:
+      return <Badge>Pending</Badge>;
+  }
+};
+
+export default function SMSSandbox() {
+  const { enabled, messages } = useLoaderData<typeof loader>();
+  const submit = useSubmit();
+  const revalidator = useRevalidator();
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      if (revalidator.state === "idle") {
+        revalidator.revalidate();
+      }
+    }, REFRESH_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [enabled, revalidator]);
+
+  return (
+    <Page
+      secondaryActions={[
+        {
+          content: "Clear inbox",
+          destructive: true,
+          disabled: !enabled || messages.length === 0,
+          onAction: () => submit({}, { method: "post" }),
+        },
+      ]}
+    >
+      <TitleBar title="SMS Sandbox" />
+      <Layout>
+        <Layout.Section>
+          {!enabled ? (
+            <Banner tone="warning">
+              The SMS sandbox is not enabled. Set SMS_SANDBOX_ENABLED=true outside production to capture messages here instead of sending them.
+            </Banner>
+          ) : (
+            <BlockStack gap="300">
+              <Text as="p" variant="bodyMd" tone="subdued">
+                Messages the app would have sent. Nothing here reaches a real phone.
+              </Text>
+
+              {messages.length === 0 ? (
+                <Card>
+                  <Text as="p" variant="bodyMd">
+                    No messages yet. Request a login code on the storefront and it will show up here.
+                  </Text>
+                </Card>
+              ) : (
+                messages.map((message) => (
+                  <Card key={message.messageId}>
+                    <BlockStack gap="200">
+                      <InlineStack align="space-between">
+                        <Text as="h3" variant="headingSm">
+                          {message.to}
+                        </Text>
+                        <InlineStack gap="200">
+                          {getStatusBadge(message.status)}
+                          <Text as="span" variant="bodySm" tone="subdued">
+                            {new Date(message.sentAt).toLocaleString()}
+                          </Text>
+                        </InlineStack>
+                      </InlineStack>
+                      <Text as="p" variant="bodyMd">
+                        <span style={{ whiteSpace: "pre-wrap" }}>{message.message}</span>
+                      </Text>
+                      <Text as="p" variant="bodySm" tone="subdued">
+                        {message.channel === "whatsapp" ? "WhatsApp" : "SMS"}
+                        {message.from ? ` from ${message.from}` : ""}
+                      </Text>
+                    </BlockStack>
+                  </Card>
+                ))
+              )}
+            </BlockStack>
+          )}
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
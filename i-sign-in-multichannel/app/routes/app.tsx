@@ -6,17 +6,18 @@ import { AppProvider } from "@shopify/shopify-app-remix/react";
 import { boundary } from "@shopify/shopify-app-remix/server";
 
 import { authenticate } from "../shopify.server";
+import { getSMSSandbox } from "../workers/sms.worker.server";
 
 export const links = () => [{ rel: "stylesheet", href: polarisStyles }];
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   await authenticate.admin(request);
 
-  return { apiKey: process.env.SHOPIFY_API_KEY || "" };
+  return { apiKey: process.env.SHOPIFY_API_KEY || "", smsSandbox: getSMSSandbox() !== null };
 };
 
 export default function App() {
-  const { apiKey } = useLoaderData<typeof loader>();
+  const { apiKey, smsSandbox } = useLoaderData<typeof loader>();
 
   return (
     <AppProvider isEmbeddedApp apiKey={apiKey}>
@@ -27,6 +28,7 @@ export default function App() {
         <Link to="/app/settings">Settings</Link>
         <Link to="/app/onboarding">Onboarding</Link>
         <Link to="/app/additional">Additional page</Link>
+        {smsSandbox && <Link to="/app/sms-sandbox">SMS Sandbox</Link>}
       </NavMenu>
       <Outlet />
     </AppProvider>
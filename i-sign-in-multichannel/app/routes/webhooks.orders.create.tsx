@@ -74,7 +74,10 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     const job = await smsQueue.add({
       phone: phoneNumber,
       message: message,
-      attemptNumber: 0
+      attemptNumber: 0,
+      shop,
+      // Paused once the shop's monthly SMS spend cap is hit
+      category: 'notification'
     });
 
     // Requirement 14.5: Log delivery status
@@ -6,8 +6,10 @@
 
 import * as bcrypt from 'bcrypt';
 import { Queue } from 'bull';
+import { config } from '../config/index.js';
 import { logger } from '../config/logger.js';
 import { SMSJobData } from '../config/queue.js';
+import { checkSignInPhoneNumber, PhoneNumberCheck } from '../lib/phone.server.js';
 import { CreateCustomerData, CustomerService, ShopifyCustomer } from './CustomerService.js';
 import { CustomerData, MultipassService } from './MultipassService.js';
 import { OAuthService } from './OAuthService.js';
@@ -180,6 +182,7 @@ export class AuthService {
   /**
    * Validate phone number format (E.164)
    * Requirement 1.1: Validate phone number format
+   * Only checks the syntax; numbers typed by customers go through normalizePhoneNumber first
    */
   validatePhoneNumber(phone: string): boolean {
     // E.164 format: +[country code][number]
@@ -189,6 +192,17 @@ export class AuthService {
     return e164Regex.test(phone);
   }
 
+  /**
+   * Normalize a phone number typed by a customer to E.164, using the storefront's country for
+   * national-format input, and refuse landlines and other numbers that can't receive codes
+   */
+  normalizePhoneNumber(input: string, defaultRegion?: string): PhoneNumberCheck {
+    return checkSignInPhoneNumber(input, {
+      defaultRegion: defaultRegion || config.phone.defaultRegion,
+      rejectVoip: config.phone.rejectVoip
+    });
+  }
+
   /**
    * Generate Multipass URL for customer
    * Requirements: 4.1, 4.2, 4.3
@@ -338,7 +352,7 @@ export class AuthService {
    * Initiate OAuth flow
    * Requirements: 3.1
    */
-  async initiateOAuth(providerName: string, redirectUri: string, state?: string): Promise<string> {
+  async initiateOAuth(providerName: string, redirectUri: string, returnTo?: string): Promise<string> {
     logger.info('Initiating OAuth flow', {
       provider: providerName,
       redirectUri
@@ -346,7 +360,7 @@ export class AuthService {
 
     try {
       // Requirement 3.1: Generate OAuth authorization URL
-      const authUrl = await this.oauthService.initiateOAuth(providerName, redirectUri, state);
+      const authUrl = await this.oauthService.initiateOAuth(providerName, redirectUri, { returnTo });
 
       logger.info('OAuth authorization URL generated', {
         provider: providerName
@@ -369,16 +383,27 @@ export class AuthService {
   async authenticateWithOAuth(
     providerName: string,
     code: string,
-    redirectUri: string,
-    returnTo?: string
+    state: string
   ): Promise<AuthResult> {
     logger.info('Authenticating with OAuth', {
       provider: providerName
     });
 
     try {
+      // Requirement 3.2: The state must match a flow this server started, and works only once
+      const flow = await this.oauthService.consumeState(state);
+
+      if (!flow) {
+        return {
+          success: false,
+          error: 'Your sign-in has expired. Please start again.'
+        };
+      }
+
+      const returnTo = flow.returnTo || undefined;
+
       // Requirement 3.2, 3.3: Handle OAuth callback, exchange code for tokens, fetch user profile
-      const profile = await this.oauthService.handleCallback(providerName, code, redirectUri);
+      const profile = await this.oauthService.handleCallback(providerName, code, flow);
 
       logger.info('OAuth profile fetched', {
         provider: providerName,
@@ -420,9 +445,10 @@ export class AuthService {
       }
 
       // Update customer metafields
+      // Merchant-configured OIDC providers are registered as oidc-<slug>
       await this.customerService.setAuthMethod(
         customer.id,
-        providerName as 'google' | 'apple' | 'facebook'
+        providerName.startsWith('oidc-') ? 'oidc' : providerName as 'google' | 'apple' | 'facebook'
       );
       await this.customerService.setLastLogin(customer.id);
 
@@ -22,6 +22,8 @@ export interface ShopifyCustomer {
   metafields?: CustomerMetafield[];
 }
 
+export type CustomerAuthMethod = 'sms' | 'email' | 'google' | 'apple' | 'facebook' | 'oidc' | 'passkey';
+
 export interface CustomerMetafield {
   namespace: string;
   key: string;
@@ -45,6 +47,7 @@ export interface UpdateCustomerData {
   firstName?: string;
   lastName?: string;
   tags?: string[];
+  acceptsMarketing?: boolean;
   metafields?: CustomerMetafield[];
 }
 
@@ -156,6 +159,40 @@ export class CustomerService {
     }
   }
 
+  /**
+   * Find customer by Shopify customer ID
+   * Used when an identifier other than email/phone (e.g. a passkey) resolves to a customer
+   */
+  async findById(id: string): Promise<ShopifyCustomer | null> {
+    try {
+      logger.info('Finding customer by ID', { customerId: id });
+
+      const client = new this.shopify.clients.Rest({ session: this.session });
+
+      const response = await this.retryWithBackoff(async () => {
+        return await client.get({
+          path: `customers/${id}`,
+        });
+      });
+
+      const customer = (response.body as { customer?: ShopifyCustomer }).customer;
+
+      if (customer) {
+        logger.info('Customer found by ID', { customerId: id });
+        return customer;
+      }
+
+      logger.info('No customer found by ID', { customerId: id });
+      return null;
+    } catch (error) {
+      logger.error('Failed to find customer by ID', {
+        customerId: id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw new Error('Failed to find customer by ID');
+    }
+  }
+
   /**
    * Create new customer with provided data
    * Requirement 2.4, 3.5: Create new customer
@@ -243,6 +280,7 @@ export class CustomerService {
           first_name: data.firstName,
           last_name: data.lastName,
           tags: data.tags?.join(', '),
+          accepts_marketing: data.acceptsMarketing,
         }
       };
 
@@ -275,7 +313,7 @@ export class CustomerService {
   }
 
   /**
-   * Update customer metafields (auth_method, phone_verified, last_login)
+   * Update customer metafields (auth_method, auth_methods, phone_verified, last_login)
    * Requirement 2.4, 3.4: Update customer metafields
    */
   async updateMetafields(customerId: string, metafields: CustomerMetafield[]): Promise<void> {
@@ -373,15 +411,55 @@ export class CustomerService {
   }
 
   /**
-   * Set authentication method metafield
+   * Record a sign-in method
+   * auth_method holds the most recent method; auth_methods lists every method the customer has used
    */
-  async setAuthMethod(customerId: string, authMethod: 'sms' | 'email' | 'google' | 'apple' | 'facebook'): Promise<void> {
-    await this.updateMetafields(customerId, [{
-      namespace: 'auth_app',
-      key: 'auth_method',
-      value: authMethod,
-      type: 'single_line_text_field'
-    }]);
+  async setAuthMethod(customerId: string, authMethod: CustomerAuthMethod): Promise<void> {
+    const authMethods = await this.getAuthMethods(customerId);
+
+    if (!authMethods.includes(authMethod)) {
+      authMethods.push(authMethod);
+    }
+
+    await this.updateMetafields(customerId, [
+      {
+        namespace: 'auth_app',
+        key: 'auth_method',
+        value: authMethod,
+        type: 'single_line_text_field'
+      },
+      {
+        namespace: 'auth_app',
+        key: 'auth_methods',
+        value: JSON.stringify(authMethods),
+        type: 'list.single_line_text_field'
+      }
+    ]);
+  }
+
+  /**
+   * Get every sign-in method recorded for a customer
+   */
+  async getAuthMethods(customerId: string): Promise<CustomerAuthMethod[]> {
+    try {
+      const client = new this.shopify.clients.Rest({ session: this.session });
+
+      const response = await this.retryWithBackoff(async () => {
+        return await client.get({
+          path: `customers/${customerId}/metafields`,
+          query: { namespace: 'auth_app', key: 'auth_methods' },
+        });
+      });
+
+      const metafield = (response.body as { metafields?: CustomerMetafield[] }).metafields?.[0];
+      return metafield ? JSON.parse(metafield.value) as CustomerAuthMethod[] : [];
+    } catch (error) {
+      logger.error('Failed to read customer auth methods', {
+        customerId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw new Error('Failed to read customer auth methods');
+    }
   }
 
   /**
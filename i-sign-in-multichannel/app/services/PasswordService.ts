@@ -0,0 +1,116 @@
+/**
+ * Password Service
+ * Stores password hashes for email-auth customers and manages single-use reset tokens
+ * Uses the same Redis keys as the email login route
+ */
+
+import * as bcrypt from 'bcrypt';
+import { randomBytes } from 'crypto';
+import type { Redis } from 'ioredis';
+import { config } from '../config';
+import { logger } from '../config/logger';
+
+export class PasswordService {
+  private readonly redis: Redis;
+  private readonly saltRounds: number;
+  private readonly resetTokenTtl: number;
+
+  constructor(redis: Redis, passwordConfig?: {
+    saltRounds?: number;
+    resetTokenTtlSeconds?: number;
+  }) {
+    this.redis = redis;
+    this.saltRounds = passwordConfig?.saltRounds || config.password.saltRounds;
+    this.resetTokenTtl = passwordConfig?.resetTokenTtlSeconds || config.password.resetTokenTtlSeconds;
+  }
+
+  /**
+   * Hash and store a customer's password
+   */
+  async setPassword(email: string, password: string): Promise<void> {
+    const hash = await bcrypt.hash(password, this.saltRounds);
+    await this.redis.set(this.getPasswordKey(email), hash);
+
+    logger.info('Password hash stored', { email: this.normalize(email) });
+  }
+
+  /**
+   * Clear failed attempts and any lockout, e.g. after a password reset
+   */
+  async clearLockout(email: string): Promise<void> {
+    await this.redis.del(this.getFailedAttemptsKey(email), this.getBlockedKey(email));
+  }
+
+  /**
+   * Issue a single-use password reset token
+   * Only the newest token for an email is valid; issuing one revokes the previous
+   */
+  async createResetToken(email: string): Promise<string> {
+    const token = randomBytes(32).toString('hex');
+    const pointerKey = this.getResetPointerKey(email);
+
+    const previous = await this.redis.get(pointerKey);
+    if (previous) {
+      await this.redis.del(this.getResetTokenKey(previous));
+    }
+
+    await this.redis.setex(this.getResetTokenKey(token), this.resetTokenTtl, this.normalize(email));
+    await this.redis.setex(pointerKey, this.resetTokenTtl, token);
+
+    logger.info('Password reset token issued', { email: this.normalize(email) });
+
+    return token;
+  }
+
+  /**
+   * Consume a reset token and return the email it was issued for
+   * Returns null for unknown, expired or already used tokens
+   */
+  async consumeResetToken(token: string): Promise<string | null> {
+    const key = this.getResetTokenKey(token);
+
+    // Tokens are single-use: read and delete in one transaction so concurrent requests can't both redeem it
+    const results = await this.redis.multi().get(key).del(key).exec();
+    const email = results?.[0]?.[1] as string | null | undefined;
+
+    if (!email) {
+      return null;
+    }
+
+    await this.redis.del(this.getResetPointerKey(email));
+
+    return email;
+  }
+
+  /**
+   * Get the reset token TTL in seconds
+   */
+  getResetTokenTTL(): number {
+    return this.resetTokenTtl;
+  }
+
+  private normalize(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  // Redis key helpers
+  private getPasswordKey(email: string): string {
+    return `email:password:${this.normalize(email)}`;
+  }
+
+  private getFailedAttemptsKey(email: string): string {
+    return `email:attempts:${this.normalize(email)}`;
+  }
+
+  private getBlockedKey(email: string): string {
+    return `email:blocked:${this.normalize(email)}`;
+  }
+
+  private getResetTokenKey(token: string): string {
+    return `password:reset:${token}`;
+  }
+
+  private getResetPointerKey(email: string): string {
+    return `password:reset:email:${this.normalize(email)}`;
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * SMS Cost Service
+ * Records what each message a provider accepted cost in a ledger, reports monthly spend per provider
+ * and tells the SMS worker when a shop has reached its monthly spend cap
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import { config } from '../config';
+import { logger } from '../config/logger.js';
+import { getCountryCallingCode } from '../lib/phone.server';
+import type { SMSCategory } from '../lib/queue.server.js';
+import { getSMSSegmentInfo } from '../lib/smsSegments';
+import type { MessageChannel, SendSMSResult } from '../providers/ISMSProvider.js';
+
+export interface SMSLedgerInput {
+  shopId: string;
+  phone: string;
+  message: string;
+  channel?: MessageChannel;
+  category?: SMSCategory;
+  result: SendSMSResult;
+}
+
+export interface SMSProviderSpend {
+  provider: string;
+  currency: string;
+  messages: number;
+  segments: number;
+  cost: number;
+  estimatedCost: number; // Part of the cost worked out from segments because the provider reported no price
+}
+
+export interface SMSMonthlySpend {
+  month: string; // "2026-10", UTC
+  providers: SMSProviderSpend[];
+  totals: Record<string, number>; // Cost per currency
+}
+
+export interface SMSSpendCapStatus {
+  cap: number | null;
+  spent: number; // This month, in config.sms.costCurrency
+  currency: string;
+  reached: boolean;
+}
+
+/**
+ * First instant of the UTC month, `offset` months from the one `date` falls in
+ */
+export function getMonthStart(date: Date = new Date(), offset = 0): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + offset, 1));
+}
+
+export class SMSCostService {
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Add a sent message to the ledger
+   * Falls back to the message's segment count and SMS_SEGMENT_COST when the provider reports no price
+   */
+  async record(input: SMSLedgerInput): Promise<void> {
+    const { result } = input;
+    // Sandbox messages never reach a carrier, so nothing is billed
+    const billed = result.provider !== 'sandbox';
+    const segments = result.segments ?? getSMSSegmentInfo(input.message).segments;
+    const estimated = billed && result.cost === undefined;
+    const cost = billed ? result.cost ?? segments * config.sms.segmentCost : 0;
+
+    try {
+      await this.prisma.smsLedgerEntry.create({
+        data: {
+          shopId: input.shopId,
+          provider: result.provider,
+          messageId: result.messageId,
+          channel: input.channel || 'sms',
+          category: input.category || 'auth',
+          countryCode: getCountryCallingCode(input.phone),
+          segments,
+          cost,
+          currency: (estimated ? undefined : result.currency) || config.sms.costCurrency,
+          estimated
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to record SMS cost', {
+        shopId: input.shopId,
+        provider: result.provider,
+        messageId: result.messageId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Spend per provider and currency for the current month and the `months - 1` before it, newest first
+   */
+  async getMonthlySpend(shopId: string, months = 3): Promise<SMSMonthlySpend[]> {
+    const report: SMSMonthlySpend[] = [];
+
+    for (let offset = 0; offset > -months; offset--) {
+      const start = getMonthStart(new Date(), offset);
+      const end = getMonthStart(start, 1);
+
+      const groups = await this.prisma.smsLedgerEntry.groupBy({
+        by: ['provider', 'currency', 'estimated'],
+        where: { shopId, createdAt: { gte: start, lt: end } },
+        _count: { _all: true },
+        _sum: { segments: true, cost: true }
+      });
+
+      const providers = new Map<string, SMSProviderSpend>();
+      const totals: Record<string, number> = {};
+
+      for (const group of groups) {
+        const key = `${group.provider}:${group.currency}`;
+        const spend = providers.get(key) ?? {
+          provider: group.provider,
+          currency: group.currency,
+          messages: 0,
+          segments: 0,
+          cost: 0,
+          estimatedCost: 0
+        };
+        const cost = group._sum.cost ?? 0;
+
+        spend.messages += group._count._all;
+        spend.segments += group._sum.segments ?? 0;
+        spend.cost += cost;
+        if (group.estimated) {
+          spend.estimatedCost += cost;
+        }
+        providers.set(key, spend);
+        totals[group.currency] = (totals[group.currency] ?? 0) + cost;
+      }
+
+      report.push({
+        month: start.toISOString().slice(0, 7),
+        providers: [...providers.values()].sort((a, b) => b.cost - a.cost),
+        totals
+      });
+    }
+
+    return report;
+  }
+
+  /**
+   * This month's spend against the shop's cap
+   * Only spend in SMS_COST_CURRENCY counts; if the ledger can't be read, sending carries on
+   */
+  async getSpendCapStatus(shopId: string): Promise<SMSSpendCapStatus> {
+    const currency = config.sms.costCurrency;
+
+    try {
+      const settings = await this.prisma.shopSettings.findUnique({
+        where: { shopId },
+        select: { smsMonthlySpendCap: true }
+      });
+      const cap = settings?.smsMonthlySpendCap ?? null;
+
+      if (cap === null) {
+        return { cap, spent: 0, currency, reached: false };
+      }
+
+      const { _sum } = await this.prisma.smsLedgerEntry.aggregate({
+        where: { shopId, currency, createdAt: { gte: getMonthStart() } },
+        _sum: { cost: true }
+      });
+      const spent = _sum.cost ?? 0;
+
+      return { cap, spent, currency, reached: spent >= cap };
+    } catch (error) {
+      logger.error('Failed to check SMS spend cap', {
+        shopId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return { cap: null, spent: 0, currency, reached: false };
+    }
+  }
+}
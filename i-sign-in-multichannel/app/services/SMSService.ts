@@ -5,32 +5,146 @@
  */
 
 import type { Redis } from 'ioredis';
+import { config } from '../config';
 import { logger } from '../config/logger.js';
 import type {
+    DeliveryReceipt,
     DeliveryStatus,
     ISMSProvider,
+    MessageChannel,
     SendSMSParams,
     SendSMSResult
 } from '../providers/ISMSProvider.js';
+import type { VoiceCallParams } from '../providers/IVoiceProvider.js';
+import { isVoiceProvider } from '../providers/IVoiceProvider.js';
+import { getSMSSegmentInfo } from '../lib/smsSegments';
+import { getOTPKey } from './OTPService';
+import { ProviderHealthService } from './ProviderHealthService.js';
 
 interface SMSDeliveryTracking {
   phone: string;
   provider: string;
+  channel?: MessageChannel | 'voice';
   status: string;
   sentAt: number;
   deliveredAt?: number;
   lastProvider?: string;
 }
 
+// OTP message waiting for its delivery receipt, kept so it can be re-sent through another provider
+interface PendingReceipt {
+  params: SendSMSParams;
+  provider: string;
+  resendCount: number;
+  otpHash: string; // Stored hash of the code when it was sent, to tell whether it is still waiting to be entered
+  shop?: string; // Shop domain the message was sent for
+}
+
+/**
+ * OTP message re-sent because its delivery receipt never arrived
+ * Re-sends happen outside the job that queued the message, so callers are told about them to account for the cost
+ */
+export interface ResentMessage {
+  shop?: string;
+  params: SendSMSParams;
+  result: SendSMSResult;
+}
+
+export type MessageResentListener = (message: ResentMessage) => void | Promise<void>;
+
+// Sorted set of message IDs waiting for a receipt, scored by when the receipt is overdue
+const PENDING_RECEIPTS_KEY = 'sms:dlr_pending';
+
+/**
+ * Routing rule for phone numbers starting with an E.164 country prefix
+ */
+export interface SMSRoutingRule {
+  prefix: string;       // E.164 prefix such as +44 or +1264; the longest matching prefix wins
+  providers?: string[]; // Provider names to try first, in order; the rest follow by priority
+  senderId?: string;    // Sender ID or number to send from in this country
+  disabled?: boolean;   // Refuse to send messages to this country
+}
+
+const ROUTING_PREFIX_PATTERN = /^\+[1-9]\d{0,5}$/;
+
+function getProviderChannel(provider: ISMSProvider): MessageChannel {
+  return provider.channel || 'sms';
+}
+
+/**
+ * Check a routing table before it is saved or used
+ */
+export function validateSMSRoutingRules(rules: unknown): SMSRoutingRule[] {
+  if (!Array.isArray(rules)) {
+    throw new Error('SMS routing rules must be a list');
+  }
+
+  const prefixes = new Set<string>();
+
+  for (const rule of rules) {
+    if (!rule || typeof rule.prefix !== 'string' || !ROUTING_PREFIX_PATTERN.test(rule.prefix)) {
+      throw new Error('SMS routing prefixes must be a + followed by up to 6 digits, such as +44');
+    }
+    if (prefixes.has(rule.prefix)) {
+      throw new Error(`SMS routing prefix ${rule.prefix} is listed more than once`);
+    }
+    prefixes.add(rule.prefix);
+
+    if (rule.providers !== undefined &&
+        (!Array.isArray(rule.providers) || !rule.providers.every((name: unknown) => typeof name === 'string'))) {
+      throw new Error(`SMS routing providers for ${rule.prefix} must be a list of provider names`);
+    }
+    if (rule.senderId !== undefined && typeof rule.senderId !== 'string') {
+      throw new Error(`SMS routing sender ID for ${rule.prefix} must be text`);
+    }
+    if (rule.disabled !== undefined && typeof rule.disabled !== 'boolean') {
+      throw new Error(`SMS routing disabled flag for ${rule.prefix} must be true or false`);
+    }
+  }
+
+  return rules as SMSRoutingRule[];
+}
+
+/**
+ * Read a routing table stored as JSON
+ * An invalid table is ignored, so a bad setting falls back to priority order instead of stopping every SMS
+ */
+export function parseSMSRoutingRules(stored?: string | null): SMSRoutingRule[] {
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    return validateSMSRoutingRules(JSON.parse(stored));
+  } catch (error) {
+    logger.warn('Ignoring invalid SMS routing rules', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return [];
+  }
+}
+
 export class SMSService {
   private providers: ISMSProvider[];
   private redis: Redis;
+  private routingRules: SMSRoutingRule[] = [];
+  private health: ProviderHealthService;
+  private shop?: string;
+  private resendListeners: MessageResentListener[] = [];
 
   /**
    * Initialize SMS Service with providers
    * Requirement 13.1: Load SMS provider configuration with priorities
    */
-  constructor(providers: ISMSProvider[], redis: Redis) {
+  constructor(
+    providers: ISMSProvider[],
+    redis: Redis,
+    routingRules: SMSRoutingRule[] = [],
+    health: ProviderHealthService = new ProviderHealthService(redis)
+  ) {
+    this.setRoutingRules(routingRules);
+    this.health = health;
+
     // Allow empty providers in development mode
     if (!providers || providers.length === 0) {
       logger.warn('SMS Service initialized without providers - SMS features will be disabled');
@@ -44,7 +158,11 @@ export class SMSService {
     this.redis = redis;
 
     logger.info('SMS Service initialized', {
-      providers: this.providers.map(p => ({ name: p.name, priority: p.priority }))
+      providers: this.providers.map(p => ({
+        name: p.name,
+        priority: p.priority,
+        channel: getProviderChannel(p)
+      }))
     });
   }
 
@@ -62,10 +180,24 @@ export class SMSService {
    * Requirement 10.1: Always try primary provider first
    * Requirement 10.2: On failure, automatically try secondary provider
    * Requirement 10.3: Log errors from both providers if both fail
+   * Providers on the preferred channel are tried first, then the other channels
    */
   async sendWithFallback(params: SendSMSParams, attemptNumber: number = 0): Promise<SendSMSResult> {
+    return await this.sendViaProviders(params, this.getRoutedProviders(params.to), attemptNumber);
+  }
+
+  /**
+   * Send through the given providers in order, applying the country routing rule for the recipient
+   */
+  private async sendViaProviders(
+    originalParams: SendSMSParams,
+    providers: ISMSProvider[],
+    attemptNumber: number,
+    resendCount: number = 0,
+    shop: string | undefined = this.shop
+  ): Promise<SendSMSResult> {
     // Check if any providers are configured
-    if (this.providers.length === 0) {
+    if (providers.length === 0) {
       logger.error('Cannot send SMS - no providers configured');
       return {
         success: false,
@@ -75,24 +207,108 @@ export class SMSService {
       };
     }
 
+    const route = this.getRoutingRule(originalParams.to);
+
+    if (route?.disabled) {
+      logger.warn('SMS is disabled for this country', {
+        to: this.maskPhone(originalParams.to),
+        prefix: route.prefix
+      });
+      return {
+        success: false,
+        messageId: '',
+        provider: 'none',
+        error: 'SMS is not available for this country'
+      };
+    }
+
+    // A sender ID passed by the caller wins over the country's
+    const params = route?.senderId && !originalParams.from
+      ? { ...originalParams, from: route.senderId }
+      : originalParams;
+    const candidates = this.getProvidersForMessage(params, providers);
+
+    if (candidates.length === 0) {
+      logger.error('Cannot send message - no provider supports it', {
+        to: this.maskPhone(params.to),
+        channel: params.channel || 'sms'
+      });
+      return {
+        success: false,
+        messageId: '',
+        provider: 'none',
+        error: 'No provider can deliver this message'
+      };
+    }
+
+    const preferredChannel = params.channel || 'sms';
+    // SMS is billed per segment, and one character outside GSM-7 switches the whole message to UCS-2
+    const segments = getSMSSegmentInfo(params.message);
+
+    if (preferredChannel === 'sms' && segments.encoding === 'UCS-2') {
+      logger.warn('SMS message needs UCS-2 encoding', {
+        to: this.maskPhone(params.to),
+        nonGsmCharacters: segments.nonGsmCharacters,
+        segments: segments.segments
+      });
+    }
+
     let lastError: string | undefined;
+    let providersAttempted = 0;
+
+    // Providers with an open circuit are skipped, unless every one is open: trying beats not sending
+    const states = await Promise.all(candidates.map(p => this.health.getState(p.name)));
+    const ignoreCircuits = states.every(state => state === 'open');
+
+    if (ignoreCircuits) {
+      logger.warn('Every SMS provider circuit is open, trying them anyway', {
+        to: this.maskPhone(params.to),
+        providers: candidates.map(p => p.name)
+      });
+    }
     const providerErrors: Array<{ provider: string; error: string }> = [];
 
-    // Try each provider in priority order (Requirement 10.1: primary first)
-    for (const provider of this.providers) {
+    // Try each provider in channel then priority order (Requirement 10.1: primary first)
+    for (const provider of candidates) {
+      const channel = getProviderChannel(provider);
+
+      if (!ignoreCircuits && !(await this.health.canAttempt(provider.name))) {
+        logger.info('Skipping SMS provider with open circuit', {
+          provider: provider.name,
+          to: this.maskPhone(params.to)
+        });
+        continue;
+      }
+
+      providersAttempted++;
+      const startedAt = Date.now();
+
+      if (channel !== preferredChannel) {
+        logger.warn('Falling back to another channel', {
+          preferredChannel,
+          channel,
+          provider: provider.name,
+          to: this.maskPhone(params.to)
+        });
+      }
+
       try {
         logger.info('Attempting to send SMS', {
           provider: provider.name,
           priority: provider.priority,
+          channel,
           to: this.maskPhone(params.to),
           attemptNumber
         });
 
-        const result = await provider.sendSMS(params);
+        const result = await provider.sendSMS(this.withReceiptProvider(params, provider.name));
 
         if (result.success) {
+          await this.health.recordSuccess(provider.name, Date.now() - startedAt);
+
           // Track delivery in Redis (Requirement 5.1)
-          await this.trackDelivery(result.messageId, provider.name, params.to);
+          await this.trackDelivery(result.messageId, provider.name, params.to, channel);
+          await this.trackPendingReceipt(result.messageId, provider.name, originalParams, resendCount, shop);
 
           // Track provider usage for analytics
           await this.trackProviderUsage(provider.name, 'success', params.to);
@@ -100,13 +316,15 @@ export class SMSService {
           logger.info('SMS sent successfully', {
             provider: provider.name,
             messageId: result.messageId,
-            to: this.maskPhone(params.to)
+            to: this.maskPhone(params.to),
+            ...(channel === 'sms' && { encoding: segments.encoding, segments: segments.segments })
           });
 
           return result;
         } else {
           // Provider returned failure, try next provider (Requirement 10.2)
           lastError = result.error;
+          await this.health.recordFailure(provider.name, Date.now() - startedAt);
           providerErrors.push({ provider: provider.name, error: result.error || 'Unknown error' });
           
           logger.warn('SMS provider returned failure, trying next provider', {
@@ -119,6 +337,7 @@ export class SMSService {
       } catch (error) {
         // Exception occurred, try next provider (Requirement 10.2)
         lastError = error instanceof Error ? error.message : 'Unknown error';
+        await this.health.recordFailure(provider.name, Date.now() - startedAt);
         providerErrors.push({ provider: provider.name, error: lastError });
         
         logger.error('SMS provider threw exception, trying next provider', {
@@ -133,7 +352,7 @@ export class SMSService {
     // All providers failed (Requirement 10.3: log errors from all providers)
     logger.error('All SMS providers failed', {
       to: this.maskPhone(params.to),
-      providersAttempted: this.providers.length,
+      providersAttempted,
       providerErrors, // Log all provider errors
       lastError
     });
@@ -149,27 +368,97 @@ export class SMSService {
     };
   }
 
+  /**
+   * Read a message out in a voice call, falling back across voice-capable providers
+   */
+  async sendVoiceCall(params: VoiceCallParams, attemptNumber: number = 0): Promise<SendSMSResult> {
+    const voiceProviders = this.providers.filter(isVoiceProvider);
+
+    if (voiceProviders.length === 0) {
+      logger.error('Cannot place voice call - no voice-capable providers configured');
+      return {
+        success: false,
+        messageId: '',
+        provider: 'none',
+        error: 'No voice providers configured'
+      };
+    }
+
+    let lastError: string | undefined;
+
+    for (const provider of voiceProviders) {
+      try {
+        logger.info('Attempting to place voice call', {
+          provider: provider.name,
+          to: this.maskPhone(params.to),
+          attemptNumber
+        });
+
+        const result = await provider.makeCall(params);
+
+        if (result.success) {
+          await this.trackDelivery(result.messageId, provider.name, params.to, 'voice');
+
+          logger.info('Voice call placed successfully', {
+            provider: provider.name,
+            callId: result.messageId,
+            to: this.maskPhone(params.to)
+          });
+
+          return result;
+        }
+
+        lastError = result.error;
+        logger.warn('Voice provider returned failure, trying next provider', {
+          provider: provider.name,
+          error: result.error,
+          to: this.maskPhone(params.to)
+        });
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Voice provider threw exception, trying next provider', {
+          provider: provider.name,
+          error: lastError,
+          to: this.maskPhone(params.to)
+        });
+      }
+    }
+
+    logger.error('All voice providers failed', {
+      to: this.maskPhone(params.to),
+      providersAttempted: voiceProviders.length,
+      lastError
+    });
+
+    return {
+      success: false,
+      messageId: '',
+      provider: 'none',
+      error: lastError || 'All voice providers failed'
+    };
+  }
+
   /**
    * Get next provider for resend (rotation)
    * Requirement 13.3: Implement provider rotation for resend requests
    */
-  getNextProvider(currentProvider?: string): ISMSProvider | null {
+  getNextProvider(currentProvider?: string, providers: ISMSProvider[] = this.providers): ISMSProvider | null {
     if (!currentProvider) {
       // Return first provider (highest priority)
-      return this.providers[0] || null;
+      return providers[0] || null;
     }
 
     // Find current provider index
-    const currentIndex = this.providers.findIndex(p => p.name === currentProvider);
+    const currentIndex = providers.findIndex(p => p.name === currentProvider);
 
     if (currentIndex === -1) {
       // Current provider not found, return first provider
-      return this.providers[0] || null;
+      return providers[0] || null;
     }
 
     // Return next provider in rotation (circular)
-    const nextIndex = (currentIndex + 1) % this.providers.length;
-    return this.providers[nextIndex];
+    const nextIndex = (currentIndex + 1) % providers.length;
+    return providers[nextIndex];
   }
 
   /**
@@ -180,8 +469,9 @@ export class SMSService {
     // Get last provider used for this phone number
     const lastUsedProvider = lastProvider || await this.getLastProviderUsed(params.to);
 
-    // Get next provider in rotation
-    const nextProvider = this.getNextProvider(lastUsedProvider);
+    // Get next provider in rotation, following the country's provider order
+    const routedProviders = this.getRoutedProviders(params.to);
+    const nextProvider = this.getNextProvider(lastUsedProvider, routedProviders);
 
     if (!nextProvider) {
       logger.error('No providers available for rotation', {
@@ -204,33 +494,78 @@ export class SMSService {
     // Try the next provider first, then fallback to others if it fails
     const reorderedProviders = [
       nextProvider,
-      ...this.providers.filter(p => p.name !== nextProvider.name)
+      ...routedProviders.filter(p => p.name !== nextProvider.name)
     ];
 
-    // Temporarily swap providers for this request
-    const originalProviders = this.providers;
-    this.providers = reorderedProviders;
+    return await this.sendViaProviders(params, reorderedProviders, 0);
+  }
 
-    try {
-      const result = await this.sendWithFallback(params);
-      return result;
-    } finally {
-      // Restore original provider order
-      this.providers = originalProviders;
+  /**
+   * Replace the country routing table
+   */
+  setRoutingRules(rules: SMSRoutingRule[]): void {
+    // Longest prefix first, so +1264 (Anguilla) wins over +1
+    this.routingRules = [...rules].sort((a, b) => b.prefix.length - a.prefix.length);
+  }
+
+  /**
+   * Set the shop messages are sent for, so re-sends of them can be attributed to it
+   */
+  setShop(shop?: string): void {
+    this.shop = shop;
+  }
+
+  /**
+   * Be told when an undelivered OTP message has been re-sent through another provider
+   */
+  onMessageResent(listener: MessageResentListener): void {
+    this.resendListeners.push(listener);
+  }
+
+  /**
+   * Routing rule for the country a phone number belongs to, if one is set
+   */
+  getRoutingRule(phone: string): SMSRoutingRule | undefined {
+    const e164 = phone.startsWith('+') ? phone : `+${phone}`;
+    return this.routingRules.find(rule => e164.startsWith(rule.prefix));
+  }
+
+  /**
+   * Providers in the order the recipient's country prefers, then by priority
+   */
+  private getRoutedProviders(phone: string): ISMSProvider[] {
+    const preferred = this.getRoutingRule(phone)?.providers || [];
+
+    if (preferred.length === 0) {
+      return this.providers;
     }
+
+    const rank = (provider: ISMSProvider) => {
+      const index = preferred.indexOf(provider.name);
+      return index === -1 ? preferred.length : index;
+    };
+
+    // Array sort is stable, so unlisted providers keep their priority order
+    return [...this.providers].sort((a, b) => rank(a) - rank(b));
   }
 
   /**
    * Track SMS delivery in Redis
    * Requirement 5.1: Track SMS delivery status
    */
-  async trackDelivery(messageId: string, provider: string, phone: string): Promise<void> {
+  async trackDelivery(
+    messageId: string,
+    provider: string,
+    phone: string,
+    channel: MessageChannel | 'voice' = 'sms'
+  ): Promise<void> {
     const key = this.getDeliveryTrackingKey(messageId);
     const ttl = 86400; // 24 hours
 
     const tracking: SMSDeliveryTracking = {
       phone,
       provider,
+      channel,
       status: 'pending',
       sentAt: Date.now()
     };
@@ -262,6 +597,9 @@ export class SMSService {
   async updateDeliveryStatus(messageId: string, status: DeliveryStatus | string): Promise<void> {
     const key = this.getDeliveryTrackingKey(messageId);
 
+    // Settle or re-send a pending OTP first, as delivery tracking may already have expired
+    await this.settlePendingReceipt(messageId, typeof status === 'string' ? status : status.status);
+
     try {
       const trackingData = await this.redis.get(key);
 
@@ -297,6 +635,179 @@ export class SMSService {
     }
   }
 
+  /**
+   * Record a delivery receipt posted to the DLR webhook
+   * The payload is read by the provider that sent the message, so its statuses map onto ours
+   * Without a provider name, the first provider whose reading matches a message it sent is used
+   * Returns the receipt, or null when no provider can read the payload
+   */
+  async handleDeliveryReceipt(providerName: string | undefined, payload: unknown): Promise<DeliveryReceipt | null> {
+    const receipt = providerName
+      ? this.readDeliveryReceipt(providerName, payload)
+      : await this.findDeliveryReceipt(payload);
+
+    if (!receipt) {
+      logger.warn('Ignoring unreadable SMS delivery receipt', { provider: providerName });
+      return null;
+    }
+
+    await this.updateDeliveryStatus(receipt.messageId, receipt.status);
+    return receipt;
+  }
+
+  /**
+   * Re-send OTP messages whose delivery receipt didn't arrive within the receipt window
+   * Returns how many messages were re-sent
+   */
+  async sweepUndeliveredMessages(now: number = Date.now()): Promise<number> {
+    let resent = 0;
+
+    try {
+      const overdue = await this.redis.zrangebyscore(PENDING_RECEIPTS_KEY, 0, now);
+
+      for (const messageId of overdue) {
+        if (await this.resendUndelivered(messageId, 'timeout')) {
+          resent++;
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to sweep undelivered messages', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+
+    return resent;
+  }
+
+  /**
+   * Remember an OTP message until its delivery receipt arrives
+   * The stored message contains the code, so it only lives for the receipt window
+   */
+  private async trackPendingReceipt(
+    messageId: string,
+    provider: string,
+    params: SendSMSParams,
+    resendCount: number,
+    shop?: string
+  ): Promise<void> {
+    const { resendEnabled, timeoutSeconds } = config.sms.deliveryReceipts;
+
+    if (!resendEnabled || !params.code) {
+      return;
+    }
+
+    try {
+      // Nothing to re-send once the code has been entered or has expired
+      const otpHash = await this.redis.get(getOTPKey(params.to));
+      if (!otpHash) {
+        return;
+      }
+
+      const pending: PendingReceipt = { params, provider, resendCount, otpHash, shop };
+      await this.redis.setex(this.getPendingReceiptKey(messageId), timeoutSeconds * 2, JSON.stringify(pending));
+      await this.redis.zadd(PENDING_RECEIPTS_KEY, Date.now() + timeoutSeconds * 1000, messageId);
+    } catch (error) {
+      logger.error('Failed to track pending delivery receipt', {
+        messageId,
+        provider,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Stop waiting on a delivered message, or re-send one the provider reports as failed
+   */
+  private async settlePendingReceipt(messageId: string, status: string): Promise<void> {
+    try {
+      if (status === 'delivered') {
+        await this.redis.zrem(PENDING_RECEIPTS_KEY, messageId);
+        await this.redis.del(this.getPendingReceiptKey(messageId));
+      } else if (status === 'failed') {
+        await this.resendUndelivered(messageId, 'failed');
+      }
+    } catch (error) {
+      logger.error('Failed to settle pending delivery receipt', {
+        messageId,
+        status,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Re-send an undelivered OTP message through the next provider
+   * The code is unchanged, so it stays valid, and re-sends don't count against the customer's send limit
+   */
+  private async resendUndelivered(messageId: string, reason: 'failed' | 'timeout'): Promise<boolean> {
+    // Whoever removes the entry re-sends it, so a late receipt and the sweeper can't both re-send
+    const claimed = await this.redis.zrem(PENDING_RECEIPTS_KEY, messageId);
+    const data = await this.redis.get(this.getPendingReceiptKey(messageId));
+    await this.redis.del(this.getPendingReceiptKey(messageId));
+
+    if (!claimed || !data) {
+      return false;
+    }
+
+    const pending: PendingReceipt = JSON.parse(data);
+    const to = this.maskPhone(pending.params.to);
+
+    if (pending.resendCount >= config.sms.deliveryReceipts.maxResends) {
+      logger.warn('Undelivered OTP message has no re-sends left', { messageId, reason, to });
+      return false;
+    }
+
+    // A code that was entered, expired or replaced by a newer one is no use to the customer
+    if (await this.redis.get(getOTPKey(pending.params.to)) !== pending.otpHash) {
+      logger.info('Undelivered OTP message no longer needed, not re-sending', { messageId, reason, to });
+      return false;
+    }
+
+    const routedProviders = this.getRoutedProviders(pending.params.to);
+    const nextProvider = this.getNextProvider(pending.provider, routedProviders);
+
+    if (!nextProvider || nextProvider.name === pending.provider) {
+      logger.warn('No other provider to re-send undelivered OTP message', { messageId, reason, to });
+      return false;
+    }
+
+    logger.warn('Re-sending undelivered OTP message through another provider', {
+      messageId,
+      reason,
+      failedProvider: pending.provider,
+      nextProvider: nextProvider.name,
+      to
+    });
+
+    const result = await this.sendViaProviders(
+      pending.params,
+      [nextProvider, ...routedProviders.filter(p => p.name !== nextProvider.name && p.name !== pending.provider)],
+      0,
+      pending.resendCount + 1,
+      pending.shop
+    );
+
+    if (result.success) {
+      await this.notifyResent({ shop: pending.shop, params: pending.params, result });
+    }
+
+    return result.success;
+  }
+
+  private async notifyResent(message: ResentMessage): Promise<void> {
+    for (const listener of this.resendListeners) {
+      try {
+        await listener(message);
+      } catch (error) {
+        logger.error('SMS re-send listener failed', {
+          messageId: message.result.messageId,
+          provider: message.result.provider,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+
   /**
    * Get delivery status for a message
    */
@@ -424,6 +935,62 @@ export class SMSService {
     return stats;
   }
 
+  /**
+   * Name the sending provider in the delivery receipt callback, so the receipt can be read in its format
+   */
+  private withReceiptProvider(params: SendSMSParams, provider: string): SendSMSParams {
+    if (!params.callbackUrl) {
+      return params;
+    }
+
+    const separator = params.callbackUrl.includes('?') ? '&' : '?';
+    return { ...params, callbackUrl: `${params.callbackUrl}${separator}provider=${encodeURIComponent(provider)}` };
+  }
+
+  /**
+   * Read a delivery receipt with the named provider, or null when it isn't configured or can't read it
+   */
+  private readDeliveryReceipt(providerName: string, payload: unknown): DeliveryReceipt | null {
+    const provider = this.providers.find(p => p.name === providerName);
+
+    try {
+      const receipt = provider?.handleWebhook(payload);
+      return receipt?.messageId ? receipt : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Read a delivery receipt that doesn't name its provider
+   * Payload formats overlap, so a reading only counts once the message is tracked as sent by that provider
+   */
+  private async findDeliveryReceipt(payload: unknown): Promise<DeliveryReceipt | null> {
+    for (const provider of this.providers) {
+      const receipt = this.readDeliveryReceipt(provider.name, payload);
+
+      if (receipt && (await this.getDeliveryStatus(receipt.messageId))?.provider === provider.name) {
+        return receipt;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Providers able to carry a message, preferred channel first and in routing order within a channel
+   * Template channels such as WhatsApp can only send one-time codes, so other messages stay on SMS
+   */
+  private getProvidersForMessage(params: SendSMSParams, providers: ISMSProvider[]): ISMSProvider[] {
+    const preferredChannel = params.channel || 'sms';
+    const usable = providers.filter(p => getProviderChannel(p) === 'sms' || !!params.code);
+
+    return [
+      ...usable.filter(p => getProviderChannel(p) === preferredChannel),
+      ...usable.filter(p => getProviderChannel(p) !== preferredChannel)
+    ];
+  }
+
   /**
    * Get all available providers
    */
@@ -440,6 +1007,10 @@ export class SMSService {
     return `sms:last_provider:${phone}`;
   }
 
+  private getPendingReceiptKey(messageId: string): string {
+    return `sms:dlr_pending:${messageId}`;
+  }
+
   // Mask phone number for logging (PII protection)
   private maskPhone(phone: string): string {
     if (phone.length <= 4) {
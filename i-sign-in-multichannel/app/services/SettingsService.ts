@@ -6,15 +6,46 @@
 
 import type { PrismaClient } from '@prisma/client';
 import { logger } from '../config/logger.js';
+import type { OTPPolicy } from './OTPService.js';
+import { getDefaultOTPPolicy, resolveOTPPolicy, validateOTPPolicy } from './OTPService.js';
+import { parseCountryPrefixes, validateCountryPrefixes } from './SMSFraudService.js';
+import type { SMSRoutingRule } from './SMSService.js';
+import { parseSMSRoutingRules, validateSMSRoutingRules } from './SMSService.js';
+
+/**
+ * E.164 country prefixes a shop sends codes to, or refuses to
+ * A non-empty allowlist restricts SMS to those countries
+ */
+export interface SMSCountryLists {
+  allowlist: string[];
+  denylist: string[];
+}
 
 export interface AuthSettings {
   enabledMethods: {
     sms: boolean;
     email: boolean;
     google: boolean;
+    passkey?: boolean;
+  };
+  // Ask SMS sign-ups for an email, name and marketing consent before signing them in
+  profileCompletion?: {
+    enabled: boolean;
+  };
+  // Code format, expiry, attempt limits and resend cooldowns for OTP sign-in
+  otpPolicy?: OTPPolicy;
+  // Lines added to OTP SMS so browsers (WebOTP) and Android apps can fill the code in
+  smsAutofill?: {
+    webOtpEnabled: boolean;
+    webOtpDomain: string;
+    androidAppHash: string;
   };
   smsProvider: {
-    primary: 'sms.to' | 'twilio';
+    primary: 'sms.to' | 'twilio' | 'vonage' | 'plivo' | 'messagebird';
+    // Per-country provider order, sender ID and opt-out
+    routingRules?: SMSRoutingRule[];
+    // Countries codes may or may not be sent to, against SMS pumping
+    countries?: SMSCountryLists;
     smsTo: {
       apiKey: string;
       senderId: string;
@@ -24,6 +55,20 @@ export interface AuthSettings {
       authToken: string;
       fromNumber: string;
     };
+    vonage?: {
+      apiKey: string;
+      apiSecret: string;
+      from: string;
+    };
+    plivo?: {
+      authId: string;
+      authToken: string;
+      from: string;
+    };
+    messageBird?: {
+      accessKey: string;
+      originator: string;
+    };
   };
   oauthProviders: {
     google: {
@@ -71,10 +116,25 @@ export class SettingsService {
         enabledMethods: {
           sms: settings.smsAuthEnabled,
           email: settings.emailAuthEnabled,
-          google: settings.googleEnabled
+          google: settings.googleEnabled,
+          passkey: settings.passkeyAuthEnabled
+        },
+        profileCompletion: {
+          enabled: settings.profileCompletionEnabled
+        },
+        otpPolicy: resolveOTPPolicy(settings.otpPolicy),
+        smsAutofill: {
+          webOtpEnabled: settings.webOtpEnabled,
+          webOtpDomain: settings.webOtpDomain || '',
+          androidAppHash: settings.androidAppHash || ''
         },
         smsProvider: {
-          primary: (settings.smsPrimary as 'sms.to' | 'twilio') || 'sms.to',
+          primary: (settings.smsPrimary as AuthSettings['smsProvider']['primary']) || 'sms.to',
+          routingRules: parseSMSRoutingRules(settings.smsRoutingRules),
+          countries: {
+            allowlist: parseCountryPrefixes(settings.smsCountryAllowlist),
+            denylist: parseCountryPrefixes(settings.smsCountryDenylist)
+          },
           smsTo: {
             apiKey: settings.smsToApiKey || '',
             senderId: settings.smsToSenderId || ''
@@ -83,6 +143,20 @@ export class SettingsService {
             accountSid: settings.twilioAccountSid || '',
             authToken: settings.twilioAuthToken || '',
             fromNumber: settings.twilioFromNumber || ''
+          },
+          vonage: {
+            apiKey: settings.vonageApiKey || '',
+            apiSecret: settings.vonageApiSecret || '',
+            from: settings.vonageFrom || ''
+          },
+          plivo: {
+            authId: settings.plivoAuthId || '',
+            authToken: settings.plivoAuthToken || '',
+            from: settings.plivoFrom || ''
+          },
+          messageBird: {
+            accessKey: settings.messageBirdAccessKey || '',
+            originator: settings.messageBirdOriginator || ''
           }
         },
         oauthProviders: {
@@ -150,6 +224,17 @@ export class SettingsService {
           twilioAccountSid: settings.smsProvider.twilio.accountSid,
           twilioAuthToken: settings.smsProvider.twilio.authToken,
           twilioFromNumber: settings.smsProvider.twilio.fromNumber,
+          vonageApiKey: settings.smsProvider.vonage?.apiKey || null,
+          vonageApiSecret: settings.smsProvider.vonage?.apiSecret || null,
+          vonageFrom: settings.smsProvider.vonage?.from || null,
+          plivoAuthId: settings.smsProvider.plivo?.authId || null,
+          plivoAuthToken: settings.smsProvider.plivo?.authToken || null,
+          plivoFrom: settings.smsProvider.plivo?.from || null,
+          messageBirdAccessKey: settings.smsProvider.messageBird?.accessKey || null,
+          messageBirdOriginator: settings.smsProvider.messageBird?.originator || null,
+          smsRoutingRules: settings.smsProvider.routingRules ? JSON.stringify(settings.smsProvider.routingRules) : null,
+          smsCountryAllowlist: settings.smsProvider.countries?.allowlist.join(', ') || null,
+          smsCountryDenylist: settings.smsProvider.countries?.denylist.join(', ') || null,
           googleClientId: settings.oauthProviders.google.clientId,
           googleClientSecret: settings.oauthProviders.google.clientSecret,
           googleEnabled: settings.oauthProviders.google.enabled,
@@ -160,6 +245,12 @@ export class SettingsService {
           smsAuthEnabled: settings.enabledMethods.sms,
           emailAuthEnabled: settings.enabledMethods.email,
           oauthAuthEnabled: settings.enabledMethods.google,
+          passkeyAuthEnabled: settings.enabledMethods.passkey ?? false,
+          profileCompletionEnabled: settings.profileCompletion?.enabled ?? false,
+          otpPolicy: settings.otpPolicy ? JSON.stringify(settings.otpPolicy) : null,
+          webOtpEnabled: settings.smsAutofill?.webOtpEnabled ?? false,
+          webOtpDomain: settings.smsAutofill?.webOtpDomain || null,
+          androidAppHash: settings.smsAutofill?.androidAppHash || null,
           orderConfirmationEnabled: settings.orderConfirmation.enabled,
           orderConfirmationMessage: settings.orderConfirmation.messageTemplate
         },
@@ -170,6 +261,17 @@ export class SettingsService {
           twilioAccountSid: settings.smsProvider.twilio.accountSid,
           twilioAuthToken: settings.smsProvider.twilio.authToken,
           twilioFromNumber: settings.smsProvider.twilio.fromNumber,
+          vonageApiKey: settings.smsProvider.vonage?.apiKey || null,
+          vonageApiSecret: settings.smsProvider.vonage?.apiSecret || null,
+          vonageFrom: settings.smsProvider.vonage?.from || null,
+          plivoAuthId: settings.smsProvider.plivo?.authId || null,
+          plivoAuthToken: settings.smsProvider.plivo?.authToken || null,
+          plivoFrom: settings.smsProvider.plivo?.from || null,
+          messageBirdAccessKey: settings.smsProvider.messageBird?.accessKey || null,
+          messageBirdOriginator: settings.smsProvider.messageBird?.originator || null,
+          smsRoutingRules: settings.smsProvider.routingRules ? JSON.stringify(settings.smsProvider.routingRules) : null,
+          smsCountryAllowlist: settings.smsProvider.countries?.allowlist.join(', ') || null,
+          smsCountryDenylist: settings.smsProvider.countries?.denylist.join(', ') || null,
           googleClientId: settings.oauthProviders.google.clientId,
           googleClientSecret: settings.oauthProviders.google.clientSecret,
           googleEnabled: settings.oauthProviders.google.enabled,
@@ -180,6 +282,12 @@ export class SettingsService {
           smsAuthEnabled: settings.enabledMethods.sms,
           emailAuthEnabled: settings.enabledMethods.email,
           oauthAuthEnabled: settings.enabledMethods.google,
+          passkeyAuthEnabled: settings.enabledMethods.passkey ?? false,
+          profileCompletionEnabled: settings.profileCompletion?.enabled ?? false,
+          otpPolicy: settings.otpPolicy ? JSON.stringify(settings.otpPolicy) : null,
+          webOtpEnabled: settings.smsAutofill?.webOtpEnabled ?? false,
+          webOtpDomain: settings.smsAutofill?.webOtpDomain || null,
+          androidAppHash: settings.smsAutofill?.androidAppHash || null,
           orderConfirmationEnabled: settings.orderConfirmation.enabled,
           orderConfirmationMessage: settings.orderConfirmation.messageTemplate
         }
@@ -221,6 +329,9 @@ export class SettingsService {
     if (settings.enabledMethods.google) {
       methods.push('google');
     }
+    if (settings.enabledMethods.passkey) {
+      methods.push('passkey');
+    }
 
     return methods;
   }
@@ -228,12 +339,57 @@ export class SettingsService {
   /**
    * Check if a specific auth method is enabled
    */
-  async isMethodEnabled(shopDomain: string, method: 'sms' | 'email' | 'google'): Promise<boolean> {
+  async isMethodEnabled(shopDomain: string, method: 'sms' | 'email' | 'google' | 'passkey'): Promise<boolean> {
     const settings = await this.getSettings(shopDomain);
     if (!settings) {
       return false;
     }
-    return settings.enabledMethods[method];
+    return settings.enabledMethods[method] ?? false;
+  }
+
+  /**
+   * Check if SMS sign-ups must complete their profile before they are signed in
+   */
+  async isProfileCompletionEnabled(shopDomain: string): Promise<boolean> {
+    const settings = await this.getSettings(shopDomain);
+    return settings?.profileCompletion?.enabled ?? false;
+  }
+
+  /**
+   * Get the OTP policy for a shop, or the env defaults if it has none
+   * Falls back to the defaults if settings can't be read, so sign-in keeps working
+   */
+  async getOTPPolicy(shopDomain: string): Promise<OTPPolicy> {
+    try {
+      const settings = await this.getSettings(shopDomain);
+      return settings?.otpPolicy ?? getDefaultOTPPolicy();
+    } catch {
+      return getDefaultOTPPolicy();
+    }
+  }
+
+  /**
+   * Get the shop's country SMS routing table, empty when none is set
+   */
+  async getSMSRoutingRules(shopDomain: string): Promise<SMSRoutingRule[]> {
+    try {
+      const settings = await this.getSettings(shopDomain);
+      return settings?.smsProvider.routingRules ?? [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Get the shop's SMS country allowlist and denylist, empty when none are set
+   */
+  async getSMSCountryLists(shopDomain: string): Promise<SMSCountryLists> {
+    try {
+      const settings = await this.getSettings(shopDomain);
+      return settings?.smsProvider.countries ?? { allowlist: [], denylist: [] };
+    } catch {
+      return { allowlist: [], denylist: [] };
+    }
   }
 
   /**
@@ -248,7 +404,21 @@ export class SettingsService {
       throw new Error('Invalid uiCustomization structure');
     }
 
+    if (settings.otpPolicy) {
+      validateOTPPolicy(settings.otpPolicy);
+    }
+
+    if (settings.smsProvider.routingRules) {
+      validateSMSRoutingRules(settings.smsProvider.routingRules);
+    }
+
+    if (settings.smsProvider.countries) {
+      validateCountryPrefixes(settings.smsProvider.countries.allowlist);
+      validateCountryPrefixes(settings.smsProvider.countries.denylist);
+    }
+
     // Ensure at least one method is enabled
+    // Passkeys are enrolled after another sign-in, so they don't count on their own
     const { sms, email, google } = settings.enabledMethods;
     if (!sms && !email && !google) {
       throw new Error('At least one authentication method must be enabled');
@@ -0,0 +1,190 @@
+/**
+ * SMSCostService Unit Tests
+ * Tests the SMS ledger, monthly spend report and spend cap against a mocked Prisma client
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { config } from '../../config';
+import type { SendSMSResult } from '../../providers/ISMSProvider.js';
+import { getMonthStart, SMSCostService } from '../SMSCostService';
+
+function createPrismaMock() {
+  return {
+    smsLedgerEntry: {
+      create: vi.fn().mockResolvedValue({}),
+      groupBy: vi.fn().mockResolvedValue([]),
+      aggregate: vi.fn().mockResolvedValue({ _sum: { cost: null } })
+    },
+    shopSettings: {
+      findUnique: vi.fn().mockResolvedValue(null)
+    }
+  };
+}
+
+describe('SMSCostService', () => {
+  let prisma: ReturnType<typeof createPrismaMock>;
+  let costService: SMSCostService;
+
+  const sent = (result: Partial<SendSMSResult>): SendSMSResult => ({
+    success: true,
+    messageId: 'msg-1',
+    provider: 'twilio',
+    ...result
+  });
+
+  beforeEach(() => {
+    prisma = createPrismaMock();
+    costService = new SMSCostService(prisma as unknown as PrismaClient);
+  });
+
+  describe('record', () => {
+    it('should record sandbox messages at no cost', async () => {
+      await costService.record({
+        shopId: 'shop-1',
+        phone: '+14155550123',
+        message: 'Your code is 123456',
+        result: sent({ provider: 'sandbox' })
+      });
+
+      expect(prisma.smsLedgerEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          provider: 'sandbox',
+          segments: 1,
+          cost: 0,
+          currency: config.sms.costCurrency,
+          estimated: false
+        })
+      });
+    });
+
+    it('should record the price and segments the provider reported', async () => {
+      await costService.record({
+        shopId: 'shop-1',
+        phone: '+14155550123',
+        message: 'Your code is 123456',
+        category: 'notification',
+        result: sent({ segments: 2, cost: 0.0158, currency: 'EUR' })
+      });
+
+      expect(prisma.smsLedgerEntry.create).toHaveBeenCalledWith({
+        data: {
+          shopId: 'shop-1',
+          provider: 'twilio',
+          messageId: 'msg-1',
+          channel: 'sms',
+          category: 'notification',
+          countryCode: '+1',
+          segments: 2,
+          cost: 0.0158,
+          currency: 'EUR',
+          estimated: false
+        }
+      });
+    });
+
+    it('should estimate the cost from segments when the provider reported no price', async () => {
+      const message = 'Your code is 123456. '.repeat(10); // 210 GSM-7 characters, 2 segments
+
+      await costService.record({
+        shopId: 'shop-1',
+        phone: '+447700900000',
+        message,
+        result: sent({ currency: 'EUR' })
+      });
+
+      expect(prisma.smsLedgerEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          countryCode: '+44',
+          segments: 2,
+          cost: 2 * config.sms.segmentCost,
+          // The estimate is in the configured currency, whatever the provider bills in
+          currency: config.sms.costCurrency,
+          estimated: true
+        })
+      });
+    });
+
+    it('should not fail the send when the ledger cannot be written', async () => {
+      prisma.smsLedgerEntry.create.mockRejectedValue(new Error('Database unavailable'));
+
+      await expect(costService.record({
+        shopId: 'shop-1',
+        phone: '+14155550123',
+        message: 'Your code is 123456',
+        result: sent({ cost: 0.01, currency: 'USD' })
+      })).resolves.toBeUndefined();
+    });
+  });
+
+  describe('getMonthlySpend', () => {
+    it('should total spend per provider and currency, keeping estimates apart', async () => {
+      prisma.smsLedgerEntry.groupBy.mockResolvedValueOnce([
+        { provider: 'twilio', currency: 'USD', estimated: false, _count: { _all: 3 }, _sum: { segments: 4, cost: 0.06 } },
+        { provider: 'twilio', currency: 'USD', estimated: true, _count: { _all: 1 }, _sum: { segments: 1, cost: 0.01 } },
+        { provider: 'vonage', currency: 'EUR', estimated: false, _count: { _all: 2 }, _sum: { segments: 2, cost: 0.1 } }
+      ]);
+
+      const [current, previous] = await costService.getMonthlySpend('shop-1', 2);
+
+      expect(current.month).toBe(getMonthStart().toISOString().slice(0, 7));
+      expect(current.providers).toEqual([
+        { provider: 'vonage', currency: 'EUR', messages: 2, segments: 2, cost: 0.1, estimatedCost: 0 },
+        { provider: 'twilio', currency: 'USD', messages: 4, segments: 5, cost: expect.closeTo(0.07), estimatedCost: 0.01 }
+      ]);
+      expect(current.totals).toEqual({ USD: expect.closeTo(0.07), EUR: 0.1 });
+      expect(previous).toEqual({
+        month: getMonthStart(new Date(), -1).toISOString().slice(0, 7),
+        providers: [],
+        totals: {}
+      });
+    });
+  });
+
+  describe('getSpendCapStatus', () => {
+    it('should not read the ledger while the shop has no cap', async () => {
+      expect(await costService.getSpendCapStatus('shop-1')).toEqual({
+        cap: null,
+        spent: 0,
+        currency: config.sms.costCurrency,
+        reached: false
+      });
+      expect(prisma.smsLedgerEntry.aggregate).not.toHaveBeenCalled();
+    });
+
+    it('should only count this month\'s spend in the configured currency', async () => {
+      prisma.shopSettings.findUnique.mockResolvedValue({ smsMonthlySpendCap: 10 });
+      prisma.smsLedgerEntry.aggregate.mockResolvedValue({ _sum: { cost: 10 } });
+
+      expect(await costService.getSpendCapStatus('shop-1')).toEqual({
+        cap: 10,
+        spent: 10,
+        currency: config.sms.costCurrency,
+        reached: true
+      });
+      expect(prisma.smsLedgerEntry.aggregate).toHaveBeenCalledWith({
+        where: { shopId: 'shop-1', currency: config.sms.costCurrency, createdAt: { gte: getMonthStart() } },
+        _sum: { cost: true }
+      });
+    });
+
+    it('should report the cap as not reached while under it', async () => {
+      prisma.shopSettings.findUnique.mockResolvedValue({ smsMonthlySpendCap: 10 });
+      prisma.smsLedgerEntry.aggregate.mockResolvedValue({ _sum: { cost: 9.99 } });
+
+      expect((await costService.getSpendCapStatus('shop-1')).reached).toBe(false);
+    });
+
+    it('should let messages through when the ledger cannot be read', async () => {
+      prisma.shopSettings.findUnique.mockResolvedValue({ smsMonthlySpendCap: 10 });
+      prisma.smsLedgerEntry.aggregate.mockRejectedValue(new Error('Database unavailable'));
+
+      expect(await costService.getSpendCapStatus('shop-1')).toEqual({
+        cap: null,
+        spent: 0,
+        currency: config.sms.costCurrency,
+        reached: false
+      });
+    });
+  });
+});
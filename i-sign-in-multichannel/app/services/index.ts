@@ -5,19 +5,28 @@
 
 export { AuthService } from './AuthService';
 export { CustomerService } from './CustomerService';
+export { IdentityService } from './IdentityService';
 export { MultipassService } from './MultipassService';
 export { OAuthService } from './OAuthService';
 export { OrderService } from './OrderService';
 export { OTPService } from './OTPService';
+export { PasskeyService } from './PasskeyService';
+export { PasswordService } from './PasswordService';
+export { ProviderHealthService } from './ProviderHealthService';
 export { SessionService } from './SessionService';
 export { SettingsService } from './SettingsService';
+export { SMSCostService } from './SMSCostService';
 export { SMSService } from './SMSService';
 
 // Export types
 export type { AuthResult } from './AuthService';
 export type { CreateCustomerData, ShopifyCustomer, UpdateCustomerData } from './CustomerService';
+export type { IdentityInput, LinkedIdentity } from './IdentityService';
 export type { CustomerData } from './MultipassService';
 export type { ShopifyOrder } from './OrderService';
+export type { PasskeyUser, StoredPasskeyCredential } from './PasskeyService';
+export type { CircuitState, ProviderHealth } from './ProviderHealthService';
 export type { SessionData } from './SessionService';
 export type { AuthSettings } from './SettingsService';
+export type { SMSMonthlySpend, SMSProviderSpend, SMSSpendCapStatus } from './SMSCostService';
 
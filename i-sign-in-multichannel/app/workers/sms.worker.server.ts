@@ -5,13 +5,25 @@
 
 import prisma from 'app/db.server.js';
 import type { Job } from 'bull';
+import { config } from '../config';
 import { logger } from '../config/logger.js';
 import type { SMSJobData } from '../lib/queue.server.js';
-import { getSMSQueue } from '../lib/queue.server.js';
+import { getSMSQueue, getVoiceQueue } from '../lib/queue.server.js';
 import { getRedis } from '../lib/redis.server.js';
 import type { ISMSProvider } from '../providers/ISMSProvider.js';
+import { isVoiceProvider } from '../providers/IVoiceProvider.js';
+import { MessageBirdProvider } from '../providers/MessageBirdProvider.js';
+import { PlivoProvider } from '../providers/PlivoProvider.js';
+import { SandboxSMSProvider } from '../providers/SandboxSMSProvider.js';
 import { SmsToProvider } from '../providers/SmsToProvider.js';
 import { TwilioProvider } from '../providers/TwilioProvider.js';
+import { VonageProvider } from '../providers/VonageProvider.js';
+import { WhatsAppProvider } from '../providers/WhatsAppProvider.js';
+import type { CircuitState, ProviderHealth } from '../services/ProviderHealthService.js';
+import { ProviderHealthService } from '../services/ProviderHealthService.js';
+import { SettingsService } from '../services/SettingsService.js';
+import type { SMSSpendCapStatus } from '../services/SMSCostService.js';
+import { SMSCostService } from '../services/SMSCostService.js';
 import { SMSService } from '../services/SMSService.js';
 
 /**
@@ -46,14 +58,51 @@ export function initializeSMSWorker(): void {
         throw new Error('No SMS providers configured');
       }
 
-      // Create SMS service
-      const smsService = new SMSService(providers, redis);
+      // Create SMS service with the shop's country routing
+      const routingRules = job.data.shop
+        ? await new SettingsService(prisma).getSMSRoutingRules(job.data.shop)
+        : [];
+      const health = new ProviderHealthService(redis);
+      health.onStateChange((provider, state, providerHealth) =>
+        recordCircuitEvent(job.data, provider, state, providerHealth)
+      );
+      const smsService = new SMSService(providers, redis, routingRules, health);
+      smsService.setShop(job.data.shop);
+      const costService = new SMSCostService(prisma);
+
+      // Order confirmations are skipped for the rest of the month once the shop's spend cap is hit
+      if (job.data.category === 'notification') {
+        const shop = await getShopFromJobData(job.data);
+        const spendCap = shop ? await costService.getSpendCapStatus(shop.id) : null;
+
+        if (shop && spendCap?.reached) {
+          logger.warn('SMS spend cap reached, notification not sent', {
+            jobId: job.id,
+            phone: maskPhone(job.data.phone),
+            shop: shop.domain,
+            spent: spendCap.spent,
+            cap: spendCap.cap,
+            currency: spendCap.currency
+          });
+          await recordSpendCapEvent(shop.id, spendCap);
+
+          // Not thrown, so the job isn't retried
+          return {
+            success: false,
+            messageId: '',
+            provider: 'none',
+            error: 'Monthly SMS spend cap reached'
+          };
+        }
+      }
 
       // Send SMS with attempt number for tracking
       const result = await smsService.sendSMS({
         to: job.data.phone,
         message: job.data.message,
-        callbackUrl: job.data.callbackUrl
+        callbackUrl: job.data.callbackUrl,
+        channel: job.data.channel,
+        code: job.data.code
       }, attemptNumber);
 
       if (!result.success) {
@@ -102,9 +151,21 @@ export function initializeSMSWorker(): void {
         wasRetry: isRetry
       });
 
+      // Record what the message cost, for spend reporting and caps
+      const shop = await getShopFromJobData(job.data);
+      if (shop) {
+        await costService.record({
+          shopId: shop.id,
+          phone: job.data.phone,
+          message: job.data.message,
+          channel: job.data.channel,
+          category: job.data.category,
+          result
+        });
+      }
+
       // Log analytics event for SMS success
       try {
-        const shop = await getShopFromJobData(job.data);
         if (shop) {
           await prisma.analytics.create({
             data: {
@@ -114,6 +175,7 @@ export function initializeSMSWorker(): void {
               metadata: JSON.stringify({
                 provider: result.provider,
                 messageId: result.messageId,
+                channel: job.data.channel || 'sms',
                 attempt: attemptNumber,
                 wasRetry: isRetry,
               }),
@@ -140,17 +202,80 @@ export function initializeSMSWorker(): void {
         nextRetryDelay: nextRetryDelay ? `${nextRetryDelay}ms` : null,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
+
+      // The code never arrived by message, so read it out in a call instead
+      if (!willRetry && job.data.code) {
+        await queueVoiceFallback(job.data);
+      }
+
       throw error;
     }
   });
 
+  initializeDeliveryReceiptSweeper();
+
   logger.info('SMS worker initialized successfully');
 }
 
+let deliveryReceiptSweeper: NodeJS.Timeout | null = null;
+
+/**
+ * Periodically re-send OTP messages whose delivery receipt never arrived
+ */
+function initializeDeliveryReceiptSweeper(): void {
+  const { resendEnabled, sweepIntervalSeconds } = config.sms.deliveryReceipts;
+
+  if (!resendEnabled || deliveryReceiptSweeper) {
+    return;
+  }
+
+  const smsService = createDeliveryReceiptService();
+
+  deliveryReceiptSweeper = setInterval(() => {
+    void smsService.sweepUndeliveredMessages();
+  }, sweepIntervalSeconds * 1000);
+
+  // Don't keep the process alive just for the sweeper
+  deliveryReceiptSweeper.unref();
+
+  logger.info('Delivery receipt sweeper started', { sweepIntervalSeconds });
+}
+
+/**
+ * SMS service for settling delivery receipts, by the sweeper and the DLR webhook
+ */
+export function createDeliveryReceiptService(): SMSService {
+  const smsService = new SMSService(initializeSMSProviders(), getRedis());
+  const costService = new SMSCostService(prisma);
+
+  // Re-sends are billed like any other message, so they go in the shop's ledger too
+  smsService.onMessageResent(async ({ shop: shopDomain, params, result }) => {
+    const shop = await getShopFromJobData({
+      phone: params.to,
+      message: params.message,
+      callbackUrl: params.callbackUrl,
+      shop: shopDomain
+    });
+
+    if (shop) {
+      await costService.record({
+        shopId: shop.id,
+        phone: params.to,
+        message: params.message,
+        channel: params.channel,
+        category: 'auth',
+        result
+      });
+    }
+  });
+
+  return smsService;
+}
+
 /**
  * Initialize SMS providers from environment variables
  */
-function initializeSMSProviders(): ISMSProvider[] {
+export function initializeSMSProviders(): ISMSProvider[] {
   const providers: ISMSProvider[] = [];
 
   // Initialize sms.to provider if configured
@@ -190,19 +315,205 @@ function initializeSMSProviders(): ISMSProvider[] {
     }
   }
 
+  // Initialize Vonage provider if configured
+  const vonageApiKey = process.env.VONAGE_API_KEY;
+  const vonageApiSecret = process.env.VONAGE_API_SECRET;
+  const vonageFrom = process.env.VONAGE_FROM;
+
+  if (vonageApiKey && vonageApiSecret && vonageFrom) {
+    try {
+      const vonageProvider = new VonageProvider(vonageApiKey, vonageApiSecret, vonageFrom);
+      providers.push(vonageProvider);
+      logger.info('Vonage provider initialized', { priority: vonageProvider.priority });
+    } catch (error) {
+      logger.error('Failed to initialize Vonage provider', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Initialize Plivo provider if configured
+  const plivoAuthId = process.env.PLIVO_AUTH_ID;
+  const plivoAuthToken = process.env.PLIVO_AUTH_TOKEN;
+  const plivoFrom = process.env.PLIVO_FROM;
+
+  if (plivoAuthId && plivoAuthToken && plivoFrom) {
+    try {
+      const plivoProvider = new PlivoProvider(plivoAuthId, plivoAuthToken, plivoFrom);
+      providers.push(plivoProvider);
+      logger.info('Plivo provider initialized', { priority: plivoProvider.priority });
+    } catch (error) {
+      logger.error('Failed to initialize Plivo provider', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Initialize MessageBird provider if configured
+  const messageBirdAccessKey = process.env.MESSAGEBIRD_ACCESS_KEY;
+  const messageBirdOriginator = process.env.MESSAGEBIRD_ORIGINATOR;
+
+  if (messageBirdAccessKey && messageBirdOriginator) {
+    try {
+      const messageBirdProvider = new MessageBirdProvider(messageBirdAccessKey, messageBirdOriginator);
+      providers.push(messageBirdProvider);
+      logger.info('MessageBird provider initialized', { priority: messageBirdProvider.priority });
+    } catch (error) {
+      logger.error('Failed to initialize MessageBird provider', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Initialize WhatsApp channel if configured (OTP codes only)
+  const whatsAppAccessToken = process.env.WHATSAPP_ACCESS_TOKEN;
+  const whatsAppPhoneNumberId = process.env.WHATSAPP_PHONE_NUMBER_ID;
+  const whatsAppTemplateName = process.env.WHATSAPP_TEMPLATE_NAME;
+
+  if (whatsAppAccessToken && whatsAppPhoneNumberId && whatsAppTemplateName) {
+    try {
+      const whatsAppProvider = new WhatsAppProvider(
+        whatsAppAccessToken,
+        whatsAppPhoneNumberId,
+        whatsAppTemplateName,
+        process.env.WHATSAPP_TEMPLATE_LANGUAGE || 'en',
+        process.env.WHATSAPP_API_VERSION || 'v21.0'
+      );
+      providers.push(whatsAppProvider);
+      logger.info('WhatsApp provider initialized', { priority: whatsAppProvider.priority });
+    } catch (error) {
+      logger.error('Failed to initialize WhatsApp provider', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  // Use the sandbox inbox instead of real providers for development and E2E tests
+  if (config.sms.sandbox.enabled || (providers.length === 0 && config.app.nodeEnv === 'development')) {
+    if (config.app.nodeEnv === 'production') {
+      logger.error('SMS sandbox cannot be used in production; ignoring SMS_SANDBOX_ENABLED');
+    } else {
+      return [
+        new SandboxSMSProvider(getRedis(), {
+          dlrUrl: `${config.shopify.appUrl}/api/webhooks/sms-dlr?provider=sandbox`,
+          dlrDelayMs: config.sms.sandbox.dlrDelayMs,
+          dlrStatus: config.sms.sandbox.dlrStatus
+        })
+      ];
+    }
+  }
+
   return providers;
 }
 
+/**
+ * Get the sandbox provider when it is standing in for real providers, for the admin inbox
+ */
+export function getSMSSandbox(): SandboxSMSProvider | null {
+  return initializeSMSProviders().find(
+    (provider): provider is SandboxSMSProvider => provider instanceof SandboxSMSProvider
+  ) ?? null;
+}
+
+/**
+ * Queue a voice call for an OTP whose SMS could not be delivered
+ */
+async function queueVoiceFallback(jobData: SMSJobData): Promise<void> {
+  try {
+    if (!initializeSMSProviders().some(isVoiceProvider)) {
+      return;
+    }
+
+    await getVoiceQueue().add({
+      phone: jobData.phone,
+      code: jobData.code!,
+      language: jobData.language,
+      attemptNumber: 0
+    });
+
+    logger.info('Voice call queued after SMS failure', {
+      phone: maskPhone(jobData.phone)
+    });
+  } catch (error) {
+    logger.error('Failed to queue voice call after SMS failure', {
+      phone: maskPhone(jobData.phone),
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Record an analytics event when a provider's circuit opens or closes
+ */
+async function recordCircuitEvent(
+  jobData: SMSJobData,
+  provider: string,
+  state: CircuitState,
+  health: ProviderHealth
+): Promise<void> {
+  try {
+    const shop = await getShopFromJobData(jobData);
+    if (!shop) {
+      return;
+    }
+
+    await prisma.analytics.create({
+      data: {
+        shopId: shop.id,
+        eventType: state === 'open' ? 'sms_provider_circuit_open' : 'sms_provider_circuit_closed',
+        method: 'sms',
+        metadata: JSON.stringify({
+          provider,
+          failureRate: health.failureRate,
+          averageLatencyMs: health.averageLatencyMs,
+          sampleSize: health.sampleSize,
+        }),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to log SMS provider circuit analytics', {
+      provider,
+      state,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * Record an analytics event when a notification is skipped because of the spend cap
+ */
+async function recordSpendCapEvent(shopId: string, spendCap: SMSSpendCapStatus): Promise<void> {
+  try {
+    await prisma.analytics.create({
+      data: {
+        shopId,
+        eventType: 'sms_spend_cap_reached',
+        method: 'sms',
+        metadata: JSON.stringify({
+          spent: spendCap.spent,
+          cap: spendCap.cap,
+          currency: spendCap.currency,
+        }),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to log SMS spend cap analytics', {
+      shopId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
 /**
  * Get shop record from job data
- * Extracts shop domain from callback URL or uses default
+ * Uses the shop domain the job was queued for, else extracts it from the callback URL or uses default
  */
 async function getShopFromJobData(jobData: SMSJobData) {
   try {
-    // Try to extract shop domain from callback URL
-    let shopDomain: string | null = null;
+    let shopDomain: string | null = jobData.shop || null;
     
-    if (jobData.callbackUrl) {
+    // Try to extract shop domain from callback URL
+    if (!shopDomain && jobData.callbackUrl) {
       const url = new URL(jobData.callbackUrl);
       // Assuming callback URL contains shop domain as a query parameter or in the path
       shopDomain = url.searchParams.get('shop') || url.hostname;
@@ -0,0 +1,88 @@
+/**
+ * Voice Worker
+ * Processes voice call OTP jobs from the Bull queue
+ */
+
+import type { Job } from 'bull';
+import { logger } from '../config/logger.js';
+import { formatVoiceOTPMessage } from '../lib/i18n.server.js';
+import type { VoiceJobData } from '../lib/queue.server.js';
+import { getVoiceQueue } from '../lib/queue.server.js';
+import { getRedis } from '../lib/redis.server.js';
+import { isVoiceProvider } from '../providers/IVoiceProvider.js';
+import { SMSService } from '../services/SMSService.js';
+import { initializeSMSProviders } from './sms.worker.server.js';
+
+/**
+ * Initialize voice worker
+ * Sets up job processor for the voice queue
+ */
+export function initializeVoiceWorker(): void {
+  const queue = getVoiceQueue();
+  const redis = getRedis();
+
+  logger.info('Initializing voice worker');
+
+  queue.process(async (job: Job<VoiceJobData>) => {
+    const attemptNumber = job.attemptsMade + 1;
+    const language = job.data.language || 'en';
+
+    logger.info('Processing voice job', {
+      jobId: job.id,
+      phone: maskPhone(job.data.phone),
+      attempt: attemptNumber,
+      maxAttempts: job.opts.attempts || 3,
+      language
+    });
+
+    // Voice calls go through the voice-capable SMS providers (Twilio)
+    const smsService = new SMSService(initializeSMSProviders(), redis);
+
+    const result = await smsService.sendVoiceCall({
+      to: job.data.phone,
+      message: formatVoiceOTPMessage(job.data.code, language),
+      language
+    }, attemptNumber);
+
+    if (!result.success) {
+      logger.error('Voice call failed', {
+        jobId: job.id,
+        phone: maskPhone(job.data.phone),
+        attempt: attemptNumber,
+        willRetry: attemptNumber < (job.opts.attempts || 3),
+        error: result.error
+      });
+
+      throw new Error(result.error || 'Voice call failed');
+    }
+
+    logger.info('Voice job completed successfully', {
+      jobId: job.id,
+      phone: maskPhone(job.data.phone),
+      callId: result.messageId,
+      provider: result.provider,
+      attempt: attemptNumber
+    });
+
+    return result;
+  });
+
+  logger.info('Voice worker initialized successfully');
+}
+
+/**
+ * Whether a voice-capable provider is configured
+ */
+export function isVoiceCallConfigured(): boolean {
+  return initializeSMSProviders().some(isVoiceProvider);
+}
+
+/**
+ * Mask phone number for logging (PII protection)
+ */
+function maskPhone(phone: string): string {
+  if (phone.length <= 4) {
+    return '****';
+  }
+  return phone.slice(0, -4).replace(/./g, '*') + phone.slice(-4);
+}
@@ -3,9 +3,15 @@ import {
     Button,
     Text,
 } from '@shopify/ui-extensions-react/checkout';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import type { CustomStyling } from '../utils/styling';
 
+// OpenID Connect provider configured by the merchant, e.g. { id: 'oidc-okta', name: 'Okta' }
+interface OIDCProviderOption {
+  id: string;
+  name: string;
+}
+
 interface OAuthAuthProps {
   shop: string;
   onSuccess: (multipassUrl: string) => void;
@@ -17,8 +23,17 @@ interface OAuthAuthProps {
 
 export function OAuthAuth({ shop, onBack, isLoading, setIsLoading, customStyling }: OAuthAuthProps) {
   const [error, setError] = useState('');
+  const [oidcProviders, setOidcProviders] = useState<OIDCProviderOption[]>([]);
 
-  const handleOAuthLogin = (provider: 'google' | 'apple' | 'facebook') => {
+  // Load the merchant's OpenID Connect providers so each gets its own button
+  useEffect(() => {
+    fetch(`https://${shop}/api/auth/oauth/providers?shop=${shop}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setOidcProviders(data?.providers || []))
+      .catch((err) => console.error('Failed to load sign-in providers:', err));
+  }, [shop]);
+
+  const handleOAuthLogin = (provider: 'google' | 'apple' | 'facebook' | `oidc-${string}`) => {
     setError('');
     setIsLoading(true);
 
@@ -59,6 +74,17 @@ export function OAuthAuth({ shop, onBack, isLoading, setIsLoading, customStyling
         >
           Continue with Facebook
         </Button>
+
+        {oidcProviders.map((provider) => (
+          <Button
+            key={provider.id}
+            onPress={() => handleOAuthLogin(provider.id as `oidc-${string}`)}
+            disabled={isLoading}
+            accessibilityLabel={`Sign in with your ${provider.name} account`}
+          >
+            Continue with {provider.name}
+          </Button>
+        ))}
       </BlockStack>
 
       {error && (
@@ -5,7 +5,7 @@ import {
     Text,
     TextField,
 } from '@shopify/ui-extensions-react/checkout';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import type { CustomStyling } from '../utils/styling';
 
 interface SMSAuthProps {
@@ -67,7 +67,32 @@ export function SMSAuth({ shop, onSuccess, onBack, isLoading, setIsLoading, cust
     }
   };
 
-  const handleVerifyOTP = async () => {
+  // Fill in and verify the code when it arrives, where the WebOTP API is available
+  // The SMS must end with the shop's @domain #code line; most checkout sandboxes don't expose WebOTP, so this is best effort
+  useEffect(() => {
+    if (!otpSent || typeof navigator === 'undefined' || !navigator.credentials || !('OTPCredential' in globalThis)) {
+      return;
+    }
+
+    const controller = new AbortController();
+
+    navigator.credentials
+      .get({ otp: { transport: ['sms'] }, signal: controller.signal } as CredentialRequestOptions)
+      .then((credential) => {
+        const code = (credential as (Credential & { code?: string }) | null)?.code;
+        if (code) {
+          setOtpCode(code);
+          handleVerifyOTP(code);
+        }
+      })
+      .catch(() => {
+        // Aborted, timed out or declined: the customer types the code instead
+      });
+
+    return () => controller.abort();
+  }, [otpSent]);
+
+  const handleVerifyOTP = async (code: string = otpCode) => {
     setError('');
     setIsLoading(true);
 
@@ -79,7 +104,7 @@ export function SMSAuth({ shop, onSuccess, onBack, isLoading, setIsLoading, cust
         },
         body: JSON.stringify({
           phoneNumber,
-          code: otpCode,
+          code,
           shop,
         }),
       });
@@ -150,6 +175,7 @@ export function SMSAuth({ shop, onSuccess, onBack, isLoading, setIsLoading, cust
             onChange={setOtpCode}
             type="number"
             placeholder="123456"
+            autocomplete={{ field: 'one-time-code' }}
             disabled={isLoading}
             accessibilityLabel="Enter the 6-digit verification code from SMS"
           />
@@ -161,7 +187,7 @@ export function SMSAuth({ shop, onSuccess, onBack, isLoading, setIsLoading, cust
           <BlockStack spacing="tight">
             <Button
               kind="primary"
-              onPress={handleVerifyOTP}
+              onPress={() => handleVerifyOTP()}
               disabled={isLoading || otpCode.length !== 6}
               accessibilityLabel="Verify the entered code and sign in"
             >
@@ -1,6 +1,7 @@
 /**
  * Customer Login Form JavaScript
- * Handles SMS, Email, and OAuth authentication flows
+ * Handles SMS, Email, OAuth and passkey authentication flows, plus password reset,
+ * profile completion for new SMS customers and email collection for social accounts that don't share one
  */
 
 (function() {
@@ -9,10 +10,17 @@
   // Configuration
   const API_BASE_URL = window.Shopify?.routes?.root || '/';
   const SHOP_DOMAIN = window.Shopify?.shop || '';
+  // Numbers typed without a country code are read in the storefront's country
+  const SHOP_COUNTRY = window.Shopify?.country || '';
 
   // State management
   let currentPhone = '';
   let cooldownTimer = null;
+  let pendingEnrollment = null;
+  let profileToken = null;
+  // Code format from the shop's OTP policy, sent back with each code
+  let codeFormat = { length: 6, alphabet: 'numeric' };
+  let webOtpAbort = null;
 
   /**
    * Initialize the login form
@@ -24,7 +32,10 @@
     setupTabs();
     setupSMSAuth();
     setupEmailAuth();
+    setupPasswordReset();
     setupOAuthAuth();
+    setupOAuthEmailCollection();
+    setupPasskeyAuth();
   }
 
   /**
@@ -65,6 +76,8 @@
     const sendButton = document.querySelector('[data-send-otp]');
     const verifyButton = document.querySelector('[data-verify-otp]');
     const resendButton = document.querySelector('[data-resend-otp]');
+    const callButton = document.querySelector('[data-call-otp]');
+    const profileButton = document.querySelector('[data-complete-profile]');
     const phoneInput = document.querySelector('[data-phone-input]');
     const otpInput = document.querySelector('[data-otp-input]');
 
@@ -80,6 +93,14 @@
       resendButton.addEventListener('click', handleResendOTP);
     }
 
+    if (callButton) {
+      callButton.addEventListener('click', handleCallOTP);
+    }
+
+    if (profileButton) {
+      profileButton.addEventListener('click', handleCompleteProfile);
+    }
+
     // Allow Enter key to submit
     if (phoneInput) {
       phoneInput.addEventListener('keypress', function(e) {
@@ -96,9 +117,9 @@
         }
       });
 
-      // Auto-format OTP input (numbers only)
+      // Auto-format OTP input to the shop's code format
       otpInput.addEventListener('input', function(e) {
-        this.value = this.value.replace(/[^0-9]/g, '').slice(0, 6);
+        this.value = formatCodeInput(this.value);
       });
     }
   }
@@ -113,6 +134,8 @@
     if (!phoneInput || !sendButton) return;
 
     const phoneNumber = phoneInput.value.trim();
+    const channelInput = document.querySelector('[data-otp-channel]:checked');
+    const channel = channelInput ? channelInput.value : 'sms';
 
     // Validate phone number
     if (!phoneNumber) {
@@ -121,7 +144,7 @@
     }
 
     if (!isValidPhoneNumber(phoneNumber)) {
-      showError('Please enter a valid phone number (e.g., +1234567890)');
+      showError('Please enter a valid phone number (e.g., +44 7700 900123)');
       return;
     }
 
@@ -137,23 +160,34 @@
         },
         body: JSON.stringify({
           phoneNumber: phoneNumber,
-          shop: SHOP_DOMAIN
+          shop: SHOP_DOMAIN,
+          channel: channel,
+          country: SHOP_COUNTRY
         })
       });
 
       const data = await response.json();
 
       if (data.success) {
-        currentPhone = phoneNumber;
+        // The server's E.164 form, so the code is verified against the number it was sent to
+        currentPhone = data.phoneNumber || phoneNumber;
+        applyCodeFormat(data, document.querySelector('[data-otp-input]'));
         showSMSStep2();
-        showSuccess('Code sent! Check your phone.');
+        listenForWebOTP(document.querySelector('[data-otp-input]'), handleVerifyOTP);
+        showSuccess(channel === 'whatsapp' ? 'Code sent! Check WhatsApp.' : 'Code sent! Check your phone.');
+
+        // Offered once the customer has had to resend twice
+        if (data.voiceCallAvailable) {
+          const callButton = document.querySelector('[data-call-otp]');
+          if (callButton) callButton.style.display = '';
+        }
         
         // Start cooldown timer if provided
         if (data.cooldownSeconds) {
           startCooldown(data.cooldownSeconds);
         }
       } else {
-        showError(data.message || 'Failed to send code. Please try again.');
+        showError(data.error?.message || data.message || 'Failed to send code. Please try again.');
       }
     } catch (error) {
       console.error('SMS send error:', error);
@@ -175,11 +209,14 @@
     const code = otpInput.value.trim();
 
     // Validate OTP
-    if (!code || code.length !== 6) {
-      showError('Please enter the 6-digit code');
+    if (!isCodeComplete(code)) {
+      showError(`Please enter the ${describeCode()}`);
       return;
     }
 
+    // The code is in, so stop waiting for it to arrive by SMS
+    stopWebOTP();
+
     // Show loading state
     setButtonLoading(verifyButton, true);
     hideError();
@@ -200,11 +237,10 @@
       const data = await response.json();
 
       if (data.success && data.multipassUrl) {
-        showSuccess('Verified! Redirecting...');
-        // Redirect to Multipass URL
-        setTimeout(() => {
-          window.location.href = data.multipassUrl;
-        }, 500);
+        completeSignIn(data, 'Verified! Redirecting...');
+      } else if (data.profileRequired && data.profileToken) {
+        profileToken = data.profileToken;
+        showSMSProfileStep();
       } else {
         showError(data.error || 'Invalid code. Please try again.');
       }
@@ -216,6 +252,67 @@
     }
   }
 
+  /**
+   * Handle saving the new SMS customer's profile and finishing the sign-in
+   */
+  async function handleCompleteProfile() {
+    const emailInput = document.querySelector('[data-profile-email-input]');
+    const firstNameInput = document.querySelector('[data-profile-first-name-input]');
+    const lastNameInput = document.querySelector('[data-profile-last-name-input]');
+    const marketingInput = document.querySelector('[data-profile-marketing-input]');
+    const profileButton = document.querySelector('[data-complete-profile]');
+
+    if (!emailInput || !firstNameInput || !profileButton || !profileToken) return;
+
+    const email = emailInput.value.trim();
+    const firstName = firstNameInput.value.trim();
+
+    if (!isValidEmail(email)) {
+      showError('Please enter a valid email address');
+      return;
+    }
+
+    if (!firstName) {
+      showError('Please enter your first name');
+      return;
+    }
+
+    setButtonLoading(profileButton, true);
+    hideError();
+
+    try {
+      const response = await fetch(`${API_BASE_URL}api/auth/sms/profile`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          profileToken: profileToken,
+          email: email,
+          firstName: firstName,
+          lastName: lastNameInput ? lastNameInput.value.trim() : '',
+          acceptsMarketing: !!(marketingInput && marketingInput.checked),
+          shop: SHOP_DOMAIN
+        })
+      });
+
+      const data = await response.json();
+
+      if (data.success && data.multipassUrl) {
+        profileToken = null;
+        showSuccess('Thanks! Redirecting...');
+        redirectTo(data.multipassUrl);
+      } else {
+        showError((data.error && data.error.message) || 'Failed to save your details. Please try again.');
+      }
+    } catch (error) {
+      console.error('Profile completion error:', error);
+      showError('Failed to save your details. Please try again.');
+    } finally {
+      setButtonLoading(profileButton, false);
+    }
+  }
+
   /**
    * Handle resending OTP
    */
@@ -234,6 +331,45 @@
     await handleSendOTP();
   }
 
+  /**
+   * Handle "call me instead": the code is read out in a voice call
+   */
+  async function handleCallOTP() {
+    const callButton = document.querySelector('[data-call-otp]');
+
+    if (!callButton || !currentPhone) return;
+
+    callButton.disabled = true;
+    hideError();
+
+    try {
+      const response = await fetch(`${API_BASE_URL}api/auth/sms/voice`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          phoneNumber: currentPhone,
+          shop: SHOP_DOMAIN
+        })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        callButton.style.display = 'none';
+        showSuccess('Calling you now with a new code.');
+      } else {
+        showError(data.message || 'Unable to call you. Please try again later.');
+      }
+    } catch (error) {
+      console.error('Voice call error:', error);
+      showError('Unable to call you. Please try again later.');
+    } finally {
+      callButton.disabled = false;
+    }
+  }
+
   /**
    * Setup email authentication flow
    */
@@ -308,11 +444,11 @@
       const data = await response.json();
 
       if (data.success && data.multipassUrl) {
-        showSuccess('Success! Redirecting...');
-        // Redirect to Multipass URL
-        setTimeout(() => {
-          window.location.href = data.multipassUrl;
-        }, 500);
+        completeSignIn(data, 'Success! Redirecting...');
+      } else if (data.error && data.error.code === 'PASSWORD_RESET_REQUIRED') {
+        // Accounts without a stored password have to set one first
+        showResetStep('request', email);
+        showError(data.error.message);
       } else {
         showError(data.error || 'Invalid credentials. Please try again.');
       }
@@ -324,6 +460,178 @@
     }
   }
 
+  /**
+   * Setup password reset flow
+   * Reset links open the login page with ?reset_token=, which jumps straight to the new password step
+   */
+  function setupPasswordReset() {
+    const forgotButton = document.querySelector('[data-forgot-password]');
+    const sendButton = document.querySelector('[data-send-reset]');
+    const confirmButton = document.querySelector('[data-confirm-reset]');
+    const backButtons = document.querySelectorAll('[data-reset-back]');
+
+    if (forgotButton) {
+      forgotButton.addEventListener('click', function() {
+        const emailInput = document.querySelector('[data-email-input]');
+        showResetStep('request', emailInput ? emailInput.value.trim() : '');
+      });
+    }
+
+    if (sendButton) {
+      sendButton.addEventListener('click', handleSendReset);
+    }
+
+    if (confirmButton) {
+      confirmButton.addEventListener('click', handleConfirmReset);
+    }
+
+    backButtons.forEach(button => {
+      button.addEventListener('click', function() {
+        showResetStep('login');
+      });
+    });
+
+    const resetToken = new URLSearchParams(window.location.search).get('reset_token');
+    if (resetToken && confirmButton) {
+      const emailTab = document.querySelector('[data-tab="email"]');
+      if (emailTab) emailTab.click();
+      showResetStep('confirm');
+    }
+  }
+
+  /**
+   * Switch between the sign in, reset request and new password steps of the email form
+   */
+  function showResetStep(step, email) {
+    document.querySelectorAll('[data-reset-step]').forEach(el => {
+      el.style.display = el.getAttribute('data-reset-step') === step ? 'block' : 'none';
+    });
+
+    if (step === 'request' && email !== undefined) {
+      const resetEmailInput = document.querySelector('[data-reset-email-input]');
+      if (resetEmailInput) resetEmailInput.value = email;
+    }
+
+    hideError();
+    hideSuccess();
+  }
+
+  /**
+   * Handle sending a password reset link
+   */
+  async function handleSendReset() {
+    const emailInput = document.querySelector('[data-reset-email-input]');
+    const sendButton = document.querySelector('[data-send-reset]');
+    const channelInput = document.querySelector('[data-reset-channel]:checked');
+
+    if (!emailInput || !sendButton) return;
+
+    const email = emailInput.value.trim();
+
+    if (!isValidEmail(email)) {
+      showError('Please enter a valid email address');
+      return;
+    }
+
+    setButtonLoading(sendButton, true);
+    hideError();
+
+    try {
+      const response = await fetch(`${API_BASE_URL}api/auth/password/reset/request`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          email: email,
+          channel: channelInput ? channelInput.value : 'email',
+          shop: SHOP_DOMAIN
+        })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        showSuccess(data.message || 'If an account exists for this email, a reset link has been sent.');
+      } else {
+        showError((data.error && data.error.message) || 'Failed to send reset link. Please try again.');
+      }
+    } catch (error) {
+      console.error('Password reset request error:', error);
+      showError('Failed to send reset link. Please try again.');
+    } finally {
+      setButtonLoading(sendButton, false);
+    }
+  }
+
+  /**
+   * Handle setting a new password from a reset link
+   */
+  async function handleConfirmReset() {
+    const passwordInput = document.querySelector('[data-new-password-input]');
+    const confirmInput = document.querySelector('[data-confirm-password-input]');
+    const confirmButton = document.querySelector('[data-confirm-reset]');
+
+    if (!passwordInput || !confirmInput || !confirmButton) return;
+
+    const params = new URLSearchParams(window.location.search);
+    const token = params.get('reset_token');
+    const password = passwordInput.value;
+
+    if (!token) {
+      showError('This reset link is invalid or has expired.');
+      return;
+    }
+
+    if (password.length < 8) {
+      showError('Password must be at least 8 characters');
+      return;
+    }
+
+    if (password !== confirmInput.value) {
+      showError('Passwords do not match');
+      return;
+    }
+
+    setButtonLoading(confirmButton, true);
+    hideError();
+
+    try {
+      const response = await fetch(`${API_BASE_URL}api/auth/password/reset/confirm`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          token: token,
+          password: password,
+          shop: SHOP_DOMAIN
+        })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        // The token is single-use, so drop it from the address bar
+        params.delete('reset_token');
+        const query = params.toString();
+        window.history.replaceState(null, '', window.location.pathname + (query ? `?${query}` : ''));
+
+        passwordInput.value = '';
+        confirmInput.value = '';
+        showResetStep('login');
+        showSuccess(data.message || 'Your password has been updated. Please sign in with your new password.');
+      } else {
+        showError((data.error && data.error.message) || 'This reset link is invalid or has expired.');
+      }
+    } catch (error) {
+      console.error('Password reset error:', error);
+      showError('Failed to update password. Please try again.');
+    } finally {
+      setButtonLoading(confirmButton, false);
+    }
+  }
+
   /**
    * Setup OAuth authentication flow
    */
@@ -336,6 +644,39 @@
         handleOAuthLogin(provider);
       });
     });
+
+    loadOIDCProviders();
+  }
+
+  /**
+   * Add a button for each OpenID Connect provider the merchant configured in the app
+   */
+  async function loadOIDCProviders() {
+    const container = document.querySelector('[data-oidc-buttons]');
+    if (!container) return;
+
+    try {
+      const response = await fetch(`${API_BASE_URL}api/auth/oauth/providers?shop=${encodeURIComponent(SHOP_DOMAIN)}`);
+      if (!response.ok) return;
+
+      const data = await response.json();
+
+      (data.providers || []).forEach(provider => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'oauth-button oauth-button-oidc';
+        button.setAttribute('data-oauth-provider', provider.id);
+        button.setAttribute('data-primary-color', container.getAttribute('data-primary-color') || '');
+        button.setAttribute('data-button-style', container.getAttribute('data-button-style') || '');
+        // Names come from the merchant's settings, so never inject them as HTML
+        button.textContent = `Continue with ${provider.name}`;
+        button.addEventListener('click', () => handleOAuthLogin(provider.id));
+        container.appendChild(button);
+      });
+    } catch (error) {
+      // The built-in providers still work without the list
+      console.error('Failed to load sign-in providers:', error);
+    }
   }
 
   /**
@@ -354,6 +695,410 @@
     window.location.href = oauthUrl;
   }
 
+  /**
+   * Setup the collect-email step
+   * The OAuth callback opens the login page with ?oauth_pending= when the provider shared no email
+   */
+  function setupOAuthEmailCollection() {
+    const sendButton = document.querySelector('[data-oauth-send-code]');
+    const verifyButton = document.querySelector('[data-oauth-verify-code]');
+
+    if (!sendButton || !verifyButton) return;
+
+    sendButton.addEventListener('click', handleSendOAuthEmailCode);
+    verifyButton.addEventListener('click', handleVerifyOAuthEmailCode);
+
+    if (new URLSearchParams(window.location.search).get('oauth_pending')) {
+      const oauthTab = document.querySelector('[data-tab="oauth"]');
+      if (oauthTab) oauthTab.click();
+
+      document.querySelectorAll('[data-oauth-step]').forEach(el => {
+        el.style.display = el.getAttribute('data-oauth-step') === 'email' ? 'block' : 'none';
+      });
+    }
+  }
+
+  /**
+   * Handle sending a code to the email entered for a pending OAuth sign-in
+   */
+  async function handleSendOAuthEmailCode() {
+    const emailInput = document.querySelector('[data-oauth-email-input]');
+    const sendButton = document.querySelector('[data-oauth-send-code]');
+    const pendingToken = new URLSearchParams(window.location.search).get('oauth_pending');
+
+    if (!emailInput || !sendButton) return;
+
+    const email = emailInput.value.trim();
+
+    if (!isValidEmail(email)) {
+      showError('Please enter a valid email address');
+      return;
+    }
+
+    setButtonLoading(sendButton, true);
+    hideError();
+
+    try {
+      const response = await fetch(`${API_BASE_URL}api/auth/oauth/email/send`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          pendingToken: pendingToken,
+          email: email,
+          shop: SHOP_DOMAIN
+        })
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        const codeGroup = document.querySelector('[data-oauth-code-group]');
+        if (codeGroup) codeGroup.style.display = 'block';
+
+        const codeInput = document.querySelector('[data-oauth-code-input]');
+        applyCodeFormat(data, codeInput);
+        if (codeInput) codeInput.focus();
+
+        showSuccess('Code sent! Check your email.');
+      } else {
+        showError((data.error && data.error.message) || 'Failed to send code. Please try again.');
+      }
+    } catch (error) {
+      console.error('OAuth email code error:', error);
+      showError('Failed to send code. Please try again.');
+    } finally {
+      setButtonLoading(sendButton, false);
+    }
+  }
+
+  /**
+   * Handle verifying the code and finishing the pending OAuth sign-in
+   */
+  async function handleVerifyOAuthEmailCode() {
+    const emailInput = document.querySelector('[data-oauth-email-input]');
+    const codeInput = document.querySelector('[data-oauth-code-input]');
+    const verifyButton = document.querySelector('[data-oauth-verify-code]');
+    const pendingToken = new URLSearchParams(window.location.search).get('oauth_pending');
+
+    if (!emailInput || !codeInput || !verifyButton) return;
+
+    const code = codeInput.value.trim();
+
+    if (!isCodeComplete(code)) {
+      showError(`Please enter a valid ${describeCode()}`);
+      return;
+    }
+
+    setButtonLoading(verifyButton, true);
+    hideError();
+
+    try {
+      const response = await fetch(`${API_BASE_URL}api/auth/oauth/email/verify`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          pendingToken: pendingToken,
+          email: emailInput.value.trim(),
+          code: code,
+          shop: SHOP_DOMAIN
+        })
+      });
+
+      const data = await response.json();
+
+      if (data.success && data.multipassUrl) {
+        showSuccess('Verified! Redirecting...');
+        redirectTo(data.multipassUrl);
+      } else {
+        showError((data.error && data.error.message) || 'Invalid code. Please try again.');
+      }
+    } catch (error) {
+      console.error('OAuth email verification error:', error);
+      showError('Verification failed. Please try again.');
+    } finally {
+      setButtonLoading(verifyButton, false);
+    }
+  }
+
+  /**
+   * Setup passkey authentication flow
+   * The passkey button is only revealed when the browser supports WebAuthn
+   */
+  function setupPasskeyAuth() {
+    const passkeyLogin = document.querySelector('[data-passkey-login]');
+    const signinButton = document.querySelector('[data-passkey-signin]');
+    const registerButton = document.querySelector('[data-passkey-register]');
+    const skipButton = document.querySelector('[data-passkey-skip]');
+
+    if (!isPasskeySupported()) return;
+
+    if (passkeyLogin) {
+      passkeyLogin.style.display = 'block';
+    }
+
+    if (signinButton) {
+      signinButton.addEventListener('click', handlePasskeyLogin);
+    }
+
+    if (registerButton) {
+      registerButton.addEventListener('click', handlePasskeyRegister);
+    }
+
+    if (skipButton) {
+      skipButton.addEventListener('click', function() {
+        if (pendingEnrollment) {
+          redirectTo(pendingEnrollment.multipassUrl);
+        }
+      });
+    }
+  }
+
+  /**
+   * Handle signing in with a passkey
+   */
+  async function handlePasskeyLogin() {
+    const signinButton = document.querySelector('[data-passkey-signin]');
+
+    setButtonLoading(signinButton, true);
+    hideError();
+
+    try {
+      const optionsResponse = await fetch(`${API_BASE_URL}api/auth/passkey/login/options`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          shop: SHOP_DOMAIN
+        })
+      });
+
+      const optionsData = await optionsResponse.json();
+
+      if (!optionsData.success) {
+        showError('Passkey sign-in is not available. Please use another method.');
+        return;
+      }
+
+      const credential = await navigator.credentials.get({
+        publicKey: toRequestOptions(optionsData.options)
+      });
+
+      const response = await fetch(`${API_BASE_URL}api/auth/passkey/login/verify`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          challengeId: optionsData.challengeId,
+          response: serializeAssertion(credential),
+          shop: SHOP_DOMAIN
+        })
+      });
+
+      const data = await response.json();
+
+      if (data.success && data.multipassUrl) {
+        showSuccess('Signed in! Redirecting...');
+        redirectTo(data.multipassUrl);
+      } else {
+        showError('We could not sign you in with that passkey. Please use another method.');
+      }
+    } catch (error) {
+      // NotAllowedError means the shopper dismissed the prompt
+      if (error && error.name === 'NotAllowedError') return;
+      console.error('Passkey login error:', error);
+      showError('Passkey sign-in failed. Please try again.');
+    } finally {
+      setButtonLoading(signinButton, false);
+    }
+  }
+
+  /**
+   * Handle creating a passkey after a successful sign-in
+   */
+  async function handlePasskeyRegister() {
+    const registerButton = document.querySelector('[data-passkey-register]');
+
+    if (!pendingEnrollment) return;
+
+    setButtonLoading(registerButton, true);
+    hideError();
+
+    try {
+      const optionsResponse = await fetch(`${API_BASE_URL}api/auth/passkey/register/options`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          enrollmentToken: pendingEnrollment.token,
+          shop: SHOP_DOMAIN
+        })
+      });
+
+      const optionsData = await optionsResponse.json();
+
+      if (optionsData.success) {
+        const credential = await navigator.credentials.create({
+          publicKey: toCreationOptions(optionsData.options)
+        });
+
+        await fetch(`${API_BASE_URL}api/auth/passkey/register/verify`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            enrollmentToken: pendingEnrollment.token,
+            response: serializeAttestation(credential),
+            shop: SHOP_DOMAIN
+          })
+        });
+      }
+    } catch (error) {
+      // Enrollment is optional, so any failure just continues the sign-in
+      console.error('Passkey registration error:', error);
+    } finally {
+      setButtonLoading(registerButton, false);
+      showSuccess('Success! Redirecting...');
+      redirectTo(pendingEnrollment.multipassUrl);
+    }
+  }
+
+  /**
+   * Finish a sign-in, offering passkey enrollment first when available
+   */
+  function completeSignIn(data, message) {
+    const enrollPanel = document.querySelector('[data-passkey-enroll]');
+
+    if (data.passkeyEnrollmentToken && enrollPanel && isPasskeySupported()) {
+      pendingEnrollment = {
+        token: data.passkeyEnrollmentToken,
+        multipassUrl: data.multipassUrl
+      };
+
+      document.querySelectorAll('[data-form]').forEach(f => f.classList.remove('active'));
+      enrollPanel.style.display = 'block';
+      return;
+    }
+
+    showSuccess(message);
+    redirectTo(data.multipassUrl);
+  }
+
+  /**
+   * Redirect to the Multipass URL
+   */
+  function redirectTo(multipassUrl) {
+    setTimeout(() => {
+      window.location.href = multipassUrl;
+    }, 500);
+  }
+
+  /**
+   * Check for WebAuthn support
+   */
+  function isPasskeySupported() {
+    return typeof window.PublicKeyCredential !== 'undefined' && !!navigator.credentials;
+  }
+
+  /**
+   * Convert JSON creation options from the server into WebAuthn binary form
+   */
+  function toCreationOptions(options) {
+    return Object.assign({}, options, {
+      challenge: base64UrlToBuffer(options.challenge),
+      user: Object.assign({}, options.user, {
+        id: base64UrlToBuffer(options.user.id)
+      }),
+      excludeCredentials: (options.excludeCredentials || []).map(c => Object.assign({}, c, {
+        id: base64UrlToBuffer(c.id)
+      }))
+    });
+  }
+
+  /**
+   * Convert JSON request options from the server into WebAuthn binary form
+   */
+  function toRequestOptions(options) {
+    return Object.assign({}, options, {
+      challenge: base64UrlToBuffer(options.challenge),
+      allowCredentials: (options.allowCredentials || []).map(c => Object.assign({}, c, {
+        id: base64UrlToBuffer(c.id)
+      }))
+    });
+  }
+
+  /**
+   * Serialize a registration credential for the server
+   */
+  function serializeAttestation(credential) {
+    return {
+      id: credential.id,
+      rawId: bufferToBase64Url(credential.rawId),
+      type: credential.type,
+      clientExtensionResults: credential.getClientExtensionResults(),
+      authenticatorAttachment: credential.authenticatorAttachment || undefined,
+      response: {
+        clientDataJSON: bufferToBase64Url(credential.response.clientDataJSON),
+        attestationObject: bufferToBase64Url(credential.response.attestationObject),
+        transports: credential.response.getTransports ? credential.response.getTransports() : []
+      }
+    };
+  }
+
+  /**
+   * Serialize an assertion credential for the server
+   */
+  function serializeAssertion(credential) {
+    return {
+      id: credential.id,
+      rawId: bufferToBase64Url(credential.rawId),
+      type: credential.type,
+      clientExtensionResults: credential.getClientExtensionResults(),
+      authenticatorAttachment: credential.authenticatorAttachment || undefined,
+      response: {
+        clientDataJSON: bufferToBase64Url(credential.response.clientDataJSON),
+        authenticatorData: bufferToBase64Url(credential.response.authenticatorData),
+        signature: bufferToBase64Url(credential.response.signature),
+        userHandle: credential.response.userHandle
+          ? bufferToBase64Url(credential.response.userHandle)
+          : undefined
+      }
+    };
+  }
+
+  /**
+   * Decode a base64url string into an ArrayBuffer
+   */
+  function base64UrlToBuffer(value) {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+    const binary = atob(padded);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes.buffer;
+  }
+
+  /**
+   * Encode an ArrayBuffer as a base64url string
+   */
+  function bufferToBase64Url(buffer) {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+      binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  }
+
   /**
    * Show SMS step 2 (OTP verification)
    */
@@ -373,6 +1118,85 @@
     }
   }
 
+  /**
+   * Show the SMS profile step (email, name and marketing consent)
+   */
+  function showSMSProfileStep() {
+    document.querySelectorAll('[data-sms-step]').forEach(el => {
+      el.style.display = el.getAttribute('data-sms-step') === 'profile' ? 'block' : 'none';
+    });
+    hideSuccess();
+
+    const emailInput = document.querySelector('[data-profile-email-input]');
+    if (emailInput) {
+      setTimeout(() => emailInput.focus(), 100);
+    }
+  }
+
+  /**
+   * Adopt the code length and alphabet returned with a sent code, and match the input to it
+   */
+  function applyCodeFormat(data, input) {
+    if (data.codeLength) {
+      codeFormat = { length: data.codeLength, alphabet: data.codeAlphabet || 'numeric' };
+    }
+
+    if (!input) return;
+
+    const numeric = codeFormat.alphabet === 'numeric';
+    input.maxLength = codeFormat.length;
+    input.pattern = numeric ? `[0-9]{${codeFormat.length}}` : `[0-9A-Za-z]{${codeFormat.length}}`;
+    input.inputMode = numeric ? 'numeric' : 'text';
+    input.placeholder = numeric ? '123456'.padEnd(codeFormat.length, '0').slice(0, codeFormat.length) : '';
+  }
+
+  /**
+   * Fill in the code from the SMS with the WebOTP API, then verify it
+   * Only works when the shop adds the @domain #code line to its SMS, and only in supporting browsers
+   */
+  function listenForWebOTP(input, onCode) {
+    if (!input || !('OTPCredential' in window)) return;
+
+    stopWebOTP();
+    webOtpAbort = new AbortController();
+
+    navigator.credentials.get({ otp: { transport: ['sms'] }, signal: webOtpAbort.signal })
+      .then(function(credential) {
+        if (credential && credential.code) {
+          input.value = formatCodeInput(credential.code);
+          onCode();
+        }
+      })
+      .catch(function() {
+        // Aborted, timed out or declined: the customer types the code instead
+      });
+  }
+
+  function stopWebOTP() {
+    if (webOtpAbort) {
+      webOtpAbort.abort();
+      webOtpAbort = null;
+    }
+  }
+
+  /**
+   * Strip characters the code can't contain; alphanumeric codes are upper case
+   */
+  function formatCodeInput(value) {
+    const cleaned = codeFormat.alphabet === 'numeric'
+      ? value.replace(/[^0-9]/g, '')
+      : value.replace(/[^0-9A-Za-z]/g, '').toUpperCase();
+    return cleaned.slice(0, codeFormat.length);
+  }
+
+  function isCodeComplete(code) {
+    return !!code && formatCodeInput(code) === code.toUpperCase() && code.length === codeFormat.length;
+  }
+
+  function describeCode() {
+    return codeFormat.alphabet === 'numeric' ? `${codeFormat.length}-digit code` : `${codeFormat.length}-character code`;
+  }
+
   /**
    * Start cooldown timer
    */
@@ -460,11 +1284,12 @@
   }
 
   /**
-   * Validate phone number format (E.164)
+   * Check a phone number looks plausible before sending it
+   * National and formatted numbers are allowed; the server normalizes and validates them per country
    */
   function isValidPhoneNumber(phone) {
-    // Basic E.164 validation: starts with +, followed by 1-15 digits
-    return /^\+[1-9]\d{1,14}$/.test(phone);
+    const digits = phone.replace(/\D/g, '');
+    return /^\+?[\d\s\-().]+$/.test(phone) && digits.length >= 6 && digits.length <= 15;
   }
 
   /**
@@ -14,6 +14,7 @@ import { MultipassService } from '../../services/MultipassService.js';
 import { OAuthService } from '../../services/OAuthService.js';
 import { OrderService } from '../../services/OrderService.js';
 import { OTPService } from '../../services/OTPService.js';
+import { PasswordService } from '../../services/PasswordService.js';
 import { SMSService } from '../../services/SMSService.js';
 
 describe('Authentication Integration Tests', () => {
@@ -25,6 +26,7 @@ describe('Authentication Integration Tests', () => {
   let customerService: jest.Mocked<CustomerService>;
   let multipassService: MultipassService;
   let oauthService: OAuthService;
+  let passwordService: PasswordService;
   let mockQueue: jest.Mocked<Queue>;
   let mockSmsProvider: jest.Mocked<ISMSProvider>;
   let mockSecondaryProvider: jest.Mocked<ISMSProvider>;
@@ -73,7 +75,7 @@ describe('Authentication Integration Tests', () => {
     multipassService = new MultipassService();
 
     // Create real OAuth service
-    oauthService = new OAuthService();
+    oauthService = new OAuthService(redis);
 
     // Create mock queue
     mockQueue = {
@@ -84,6 +86,7 @@ describe('Authentication Integration Tests', () => {
 
     // Create real services
     otpService = new OTPService(redis);
+    passwordService = new PasswordService(redis);
     smsService = new SMSService([mockSmsProvider, mockSecondaryProvider], redis);
     orderService = new OrderService(redis, otpService, smsService);
 
@@ -93,7 +96,10 @@ describe('Authentication Integration Tests', () => {
       otpService,
       smsService,
       oauthService,
-      mockQueue
+      mockQueue,
+      undefined,
+      undefined,
+      passwordService
     );
   });
 
@@ -258,6 +264,7 @@ describe('Authentication Integration Tests', () => {
       };
 
       customerService.findByEmail.mockResolvedValue(mockCustomer);
+      await passwordService.setPassword(email, password);
 
       // Authenticate with existing customer
       const result = await authService.authenticateWithEmail(email, password, '/');
@@ -270,6 +277,31 @@ describe('Authentication Integration Tests', () => {
       expect(customerService.create).not.toHaveBeenCalled();
     });
 
+    it('should lock an email account after repeated wrong passwords', async () => {
+      const email = 'locked@example.com';
+      const mockCustomer: ShopifyCustomer = {
+        id: '555444',
+        email,
+        created_at: new Date().toISOString(),
+      };
+
+      customerService.findByEmail.mockResolvedValue(mockCustomer);
+      await passwordService.setPassword(email, 'CorrectPassword123!');
+
+      for (let i = 0; i < 4; i++) {
+        const result = await authService.authenticateWithEmail(email, 'WrongPassword!', '/');
+        expect(result.error).toBe('Invalid email or password');
+      }
+
+      const locked = await authService.authenticateWithEmail(email, 'WrongPassword!', '/');
+      expect(locked.errorCode).toBe('ACCOUNT_LOCKED');
+
+      // Even the correct password is refused while locked
+      const afterLock = await authService.authenticateWithEmail(email, 'CorrectPassword123!', '/');
+      expect(afterLock.success).toBe(false);
+      expect(afterLock.errorCode).toBe('ACCOUNT_LOCKED');
+    });
+
     it('should reject invalid email format', async () => {
       const invalidEmail = 'not-an-email';
       const password = 'Password123!';
@@ -317,18 +349,17 @@ describe('Authentication Integration Tests', () => {
       customerService.create.mockResolvedValue(mockCustomer);
 
       // Step 1: Initiate OAuth
-      const authUrl = await authService.initiateOAuth('google', 'http://localhost:3000/callback', 'state123');
+      const authUrl = await authService.initiateOAuth('google', 'http://localhost:3000/callback', '/account');
 
       expect(authUrl).toContain('accounts.google.com');
-      expect(mockGoogleProvider.getAuthorizationUrl).toHaveBeenCalledWith('state123', 'http://localhost:3000/callback');
+      expect(mockGoogleProvider.getAuthorizationUrl).toHaveBeenCalledWith(
+        expect.objectContaining({ state: expect.any(String), codeChallenge: expect.any(String) }),
+        'http://localhost:3000/callback'
+      );
+      const { state } = mockGoogleProvider.getAuthorizationUrl.mock.calls[0][0];
 
       // Step 2: Handle OAuth callback
-      const result = await authService.authenticateWithOAuth(
-        'google',
-        'auth-code-789',
-        'http://localhost:3000/callback',
-        '/account'
-      );
+      const result = await authService.authenticateWithOAuth('google', 'auth-code-789', state);
 
       // Verify authentication succeeded
       expect(result.success).toBe(true);
@@ -337,8 +368,12 @@ describe('Authentication Integration Tests', () => {
       expect(result.customer).toEqual(mockCustomer);
 
       // Verify OAuth flow was completed
-      expect(mockGoogleProvider.exchangeCodeForToken).toHaveBeenCalledWith('auth-code-789', 'http://localhost:3000/callback');
-      expect(mockGoogleProvider.getUserProfile).toHaveBeenCalledWith('access-token-123');
+      expect(mockGoogleProvider.exchangeCodeForToken).toHaveBeenCalledWith(
+        'auth-code-789',
+        'http://localhost:3000/callback',
+        expect.any(String)
+      );
+      expect(mockGoogleProvider.getUserProfile).toHaveBeenCalledWith('access-token-123', undefined);
 
       // Verify customer was created with OAuth data
       expect(customerService.create).toHaveBeenCalledWith(
@@ -2,6 +2,9 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+// Stand-in for secrets in development; validateConfig refuses to start with it as the OTP key anywhere else
+const DEVELOPMENT_SECRET = 'change_this_to_a_random_secret';
+
 export const config = {
     // Shopify Configuration
     shopify: {
@@ -24,6 +27,77 @@ export const config = {
             authToken: process.env.TWILIO_AUTH_TOKEN || '',
             fromNumber: process.env.TWILIO_FROM_NUMBER || '',
         },
+        vonage: {
+            apiKey: process.env.VONAGE_API_KEY || '',
+            apiSecret: process.env.VONAGE_API_SECRET || '',
+            from: process.env.VONAGE_FROM || '',
+        },
+        plivo: {
+            authId: process.env.PLIVO_AUTH_ID || '',
+            authToken: process.env.PLIVO_AUTH_TOKEN || '',
+            from: process.env.PLIVO_FROM || '',
+        },
+        messageBird: {
+            accessKey: process.env.MESSAGEBIRD_ACCESS_KEY || '',
+            originator: process.env.MESSAGEBIRD_ORIGINATOR || '',
+        },
+        // WhatsApp Business Cloud API; codes are sent with an approved authentication template
+        whatsapp: {
+            accessToken: process.env.WHATSAPP_ACCESS_TOKEN || '',
+            phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID || '',
+            templateName: process.env.WHATSAPP_TEMPLATE_NAME || '',
+            templateLanguage: process.env.WHATSAPP_TEMPLATE_LANGUAGE || 'en',
+            apiVersion: process.env.WHATSAPP_API_VERSION || 'v21.0',
+            // Token echoed back when Meta verifies the status webhook subscription
+            webhookVerifyToken: process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN || '',
+        },
+        // Lines appended to OTP messages so browsers (WebOTP) and Android apps (SMS Retriever) can autofill the code
+        autofill: {
+            webOtpEnabled: process.env.SMS_WEBOTP_ENABLED === 'true',
+            // Storefront host customers sign in on; defaults to the shop domain
+            webOtpDomain: process.env.SMS_WEBOTP_DOMAIN || '',
+            androidAppHash: process.env.SMS_ANDROID_APP_HASH || '',
+        },
+        // Store messages in Redis for the admin inbox instead of sending them (development and E2E tests)
+        sandbox: {
+            enabled: process.env.SMS_SANDBOX_ENABLED === 'true',
+            dlrDelayMs: parseInt(process.env.SMS_SANDBOX_DLR_DELAY_MS || '1000', 10),
+            dlrStatus: (process.env.SMS_SANDBOX_DLR_STATUS === 'failed' ? 'failed' : 'delivered') as 'delivered' | 'failed',
+            // Sent in the X-Sandbox-Token header to read the inbox; it stays closed while this is empty
+            inboxToken: process.env.SMS_SANDBOX_INBOX_TOKEN || '',
+        },
+        // JSON list of country routing rules, e.g. [{"prefix":"+44","providers":["twilio"],"senderId":"MyShop"}]
+        routingRules: process.env.SMS_ROUTING_RULES || '',
+        // Circuit breaker: skip a provider for a while once too many of its recent sends fail
+        circuitBreaker: {
+            windowSize: parseInt(process.env.SMS_CIRCUIT_WINDOW_SIZE || '20', 10),
+            minimumRequests: parseInt(process.env.SMS_CIRCUIT_MINIMUM_REQUESTS || '5', 10),
+            failureRateThreshold: parseFloat(process.env.SMS_CIRCUIT_FAILURE_RATE || '0.5'),
+            openDurationSeconds: parseInt(process.env.SMS_CIRCUIT_OPEN_SECONDS || '60', 10),
+        },
+        // Re-send OTPs through another provider when the delivery receipt reports failure or never arrives
+        deliveryReceipts: {
+            resendEnabled: process.env.SMS_DLR_RESEND_ENABLED === 'true',
+            timeoutSeconds: parseInt(process.env.SMS_DLR_TIMEOUT_SECONDS || '90', 10),
+            maxResends: parseInt(process.env.SMS_DLR_MAX_RESENDS || '1', 10),
+            sweepIntervalSeconds: parseInt(process.env.SMS_DLR_SWEEP_INTERVAL_SECONDS || '15', 10),
+        },
+        // SMS pumping protection: per-country velocity limits and blocks for prefixes whose codes go unverified
+        fraud: {
+            enabled: process.env.SMS_FRAUD_PROTECTION_ENABLED !== 'false',
+            windowSeconds: parseInt(process.env.SMS_FRAUD_WINDOW_SECONDS || '3600', 10),
+            maxSendsPerPrefix: parseInt(process.env.SMS_FRAUD_MAX_SENDS_PER_PREFIX || '500', 10),
+            minSendsForRatio: parseInt(process.env.SMS_FRAUD_MIN_SENDS_FOR_RATIO || '50', 10),
+            minVerifyRatio: parseFloat(process.env.SMS_FRAUD_MIN_VERIFY_RATIO || '0.2'),
+            blockDurationSeconds: parseInt(process.env.SMS_FRAUD_BLOCK_SECONDS || '3600', 10),
+            // Automatic prefix blocks are only logged until SMS_FRAUD_LOG_ONLY=false; the country lists always apply
+            logOnly: process.env.SMS_FRAUD_LOG_ONLY !== 'false',
+            // Comma-separated country prefixes, e.g. "+44,+1"; an allowlist restricts SMS to those countries
+            allowlist: process.env.SMS_COUNTRY_ALLOWLIST || '',
+            denylist: process.env.SMS_COUNTRY_DENYLIST || '',
+        },
+        // Price of one SMS segment in USD, for cost estimates; long and Unicode messages take several
+        segmentCost: parseFloat(process.env.SMS_SEGMENT_COST || '0.0079'),
     },
 
     // OAuth Provider Configuration
@@ -33,6 +107,56 @@ export const config = {
             clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
             redirectUri: process.env.GOOGLE_REDIRECT_URI || 'http://localhost:3000/api/auth/oauth/google/callback',
         },
+        // Sign in with Apple: the client secret is a JWT signed with the .p8 key, so no static secret
+        apple: {
+            clientId: process.env.APPLE_CLIENT_ID || '',
+            teamId: process.env.APPLE_TEAM_ID || '',
+            keyId: process.env.APPLE_KEY_ID || '',
+            // Allow the PEM to be given on one line with escaped newlines
+            privateKey: (process.env.APPLE_PRIVATE_KEY || '').replace(/\\n/g, '\n'),
+        },
+        facebook: {
+            appId: process.env.FACEBOOK_APP_ID || '',
+            appSecret: process.env.FACEBOOK_APP_SECRET || '',
+        },
+        // Generic OpenID Connect provider (Microsoft Entra ID, Okta, Auth0, Keycloak, ...)
+        // Registered as oidc-<slug>; endpoints and signing keys come from the issuer's discovery document
+        oidc: {
+            slug: process.env.OIDC_PROVIDER_SLUG || '',
+            issuer: process.env.OIDC_ISSUER || '',
+            clientId: process.env.OIDC_CLIENT_ID || '',
+            clientSecret: process.env.OIDC_CLIENT_SECRET || '',
+            scopes: (process.env.OIDC_SCOPES || 'openid email profile').split(/[\s,]+/).filter(Boolean),
+        },
+        // How long a sign-in without an email waits for the customer to verify one
+        pendingEmailTtlSeconds: parseInt(process.env.OAUTH_PENDING_EMAIL_TTL_SECONDS || '900', 10),
+    },
+
+    // Passkey (WebAuthn) Configuration
+    // The relying party ID must match the storefront domain the login form runs on
+    passkey: {
+        rpId: process.env.PASSKEY_RP_ID || process.env.SHOPIFY_SHOP_DOMAIN || 'localhost',
+        rpName: process.env.PASSKEY_RP_NAME || 'Shopify Store',
+        origin: process.env.PASSKEY_ORIGIN || `https://${process.env.SHOPIFY_SHOP_DOMAIN || 'localhost'}`,
+        challengeTtlSeconds: parseInt(process.env.PASSKEY_CHALLENGE_TTL_SECONDS || '300', 10),
+        enrollmentTtlSeconds: parseInt(process.env.PASSKEY_ENROLLMENT_TTL_SECONDS || '600', 10),
+    },
+
+    // Email Configuration
+    // EMAIL_TRANSPORT is smtp, file or console; file and console are meant for development
+    email: {
+        transport: process.env.EMAIL_TRANSPORT || 'console',
+        from: process.env.EMAIL_FROM || 'no-reply@localhost',
+        smtp: {
+            host: process.env.SMTP_HOST || '',
+            port: parseInt(process.env.SMTP_PORT || '587', 10),
+            secure: process.env.SMTP_SECURE === 'true',
+            user: process.env.SMTP_USER || '',
+            pass: process.env.SMTP_PASS || '',
+        },
+        fileDirectory: process.env.EMAIL_FILE_DIRECTORY || './tmp/emails',
+        magicLinkSecret: process.env.MAGIC_LINK_SECRET || process.env.SESSION_SECRET || 'change_this_to_a_random_secret',
+        magicLinkTtlSeconds: parseInt(process.env.MAGIC_LINK_TTL_SECONDS || '900', 10),
     },
 
     // Redis Configuration
@@ -60,6 +184,38 @@ export const config = {
         ttlSeconds: parseInt(process.env.OTP_TTL_SECONDS || '300', 10),
         maxAttempts: parseInt(process.env.OTP_MAX_ATTEMPTS || '5', 10),
         blockDurationSeconds: parseInt(process.env.OTP_BLOCK_DURATION_SECONDS || '900', 10),
+        // HMAC key for codes at rest; Redis only ever holds hashes
+        hashSecret: process.env.OTP_HASH_SECRET || process.env.SESSION_SECRET || DEVELOPMENT_SECRET,
+    },
+
+    // TOTP (authenticator app) Configuration
+    // The issuer is the account name shown in the authenticator app
+    totp: {
+        issuer: process.env.TOTP_ISSUER || process.env.PASSKEY_RP_NAME || 'Shopify Store',
+        digits: parseInt(process.env.TOTP_DIGITS || '6', 10),
+        periodSeconds: parseInt(process.env.TOTP_PERIOD_SECONDS || '30', 10),
+        // Steps either side of now that are still accepted, to allow for clock drift
+        window: parseInt(process.env.TOTP_WINDOW || '1', 10),
+        enrollmentTtlSeconds: parseInt(process.env.TOTP_ENROLLMENT_TTL_SECONDS || '600', 10),
+        challengeTtlSeconds: parseInt(process.env.TOTP_CHALLENGE_TTL_SECONDS || '300', 10),
+        recoveryCodeCount: parseInt(process.env.TOTP_RECOVERY_CODE_COUNT || '10', 10),
+    },
+
+    // Password Configuration
+    password: {
+        saltRounds: parseInt(process.env.PASSWORD_SALT_ROUNDS || '12', 10),
+        maxAttempts: parseInt(process.env.PASSWORD_MAX_ATTEMPTS || '5', 10),
+        blockDurationSeconds: parseInt(process.env.PASSWORD_BLOCK_DURATION_SECONDS || '900', 10),
+        resetTokenTtlSeconds: parseInt(process.env.PASSWORD_RESET_TOKEN_TTL_SECONDS || '1800', 10),
+        // Storefront page that renders the login form; reset links land here with ?reset_token=
+        resetUrl: process.env.PASSWORD_RESET_URL || `https://${process.env.SHOPIFY_SHOP_DOMAIN || 'localhost'}/account/login`,
+    },
+
+    // Phone Number Configuration
+    // PHONE_DEFAULT_REGION (e.g. GB) is used for numbers typed without a country code
+    phone: {
+        defaultRegion: process.env.PHONE_DEFAULT_REGION || '',
+        rejectVoip: process.env.PHONE_REJECT_VOIP === 'true',
     },
 
     // SMS Configuration
@@ -92,6 +248,11 @@ export function validateConfig(): void {
         missing.forEach(field => console.warn(`   - ${field.key}`));
         console.warn('   Please configure these in your .env file or environment');
     }
+
+    // Stored codes are only as safe as their HMAC key, so a shared stand-in is never used outside development
+    if (config.app.nodeEnv !== 'development' && config.otp.hashSecret === DEVELOPMENT_SECRET) {
+        throw new Error('OTP_HASH_SECRET (or SESSION_SECRET) must be set outside development');
+    }
 }
 
 // Export infrastructure modules
@@ -1,4 +1,5 @@
 import Bull, { Queue, QueueOptions } from 'bull';
+import type { MessageChannel } from '../providers/ISMSProvider.js';
 import { logger } from './logger.js';
 import { getRedisClient } from './redis.js';
 
@@ -13,6 +14,16 @@ export interface SMSJobData {
   attemptNumber: number;
   preferredProvider?: string;
   callbackUrl: string;
+  channel?: MessageChannel;
+  code?: string; // One-time code for template channels such as WhatsApp
+}
+
+// OTP read out in a text-to-speech call, when SMS fails or the customer asks to be called
+export interface VoiceJobData {
+  phone: string;
+  code: string;
+  attemptNumber: number;
+  callbackUrl?: string;
 }
 
 const createQueueOptions = (): QueueOptions => {
@@ -98,6 +109,47 @@ export const closeSMSQueue = async (): Promise<void> => {
   }
 };
 
+// Voice Queue singleton
+let voiceQueue: Queue<VoiceJobData> | null = null;
+
+export const getVoiceQueue = (): Queue<VoiceJobData> => {
+  if (!voiceQueue) {
+    voiceQueue = new Bull<VoiceJobData>('voice-queue', createQueueOptions());
+
+    voiceQueue.on('error', (error) => {
+      logger.error('Voice Queue error', { error: error.message });
+    });
+
+    voiceQueue.on('completed', (job) => {
+      logger.info('Voice Job completed', { 
+        jobId: job.id, 
+        phone: job.data.phone 
+      });
+    });
+
+    voiceQueue.on('failed', (job, err) => {
+      logger.error('Voice Job failed', { 
+        jobId: job?.id, 
+        phone: job?.data.phone,
+        attempt: job?.attemptsMade,
+        error: err.message 
+      });
+    });
+
+    logger.info('Voice Queue initialized');
+  }
+
+  return voiceQueue;
+};
+
+export const closeVoiceQueue = async (): Promise<void> => {
+  if (voiceQueue) {
+    await voiceQueue.close();
+    voiceQueue = null;
+    logger.info('Voice Queue closed');
+  }
+};
+
 /**
  * Add an SMS job to the queue
  */
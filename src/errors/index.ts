@@ -18,11 +18,24 @@ export class ValidationError extends Error {
 
 export class AuthenticationError extends Error {
   public readonly statusCode = 401;
-  public readonly code = 'AUTHENTICATION_ERROR';
+  public readonly code: string;
 
-  constructor(message: string) {
+  constructor(message: string, code: string = 'AUTHENTICATION_ERROR') {
     super(message);
     this.name = 'AuthenticationError';
+    this.code = code;
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+export class ConflictError extends Error {
+  public readonly statusCode = 409;
+  public readonly code: string;
+
+  constructor(message: string, code: string = 'CONFLICT_ERROR') {
+    super(message);
+    this.name = 'ConflictError';
+    this.code = code;
     Error.captureStackTrace(this, this.constructor);
   }
 }
@@ -1,25 +1,45 @@
 import dotenv from 'dotenv';
 import express from 'express';
-import { config } from './config/index.js';
+import { config, validateConfig } from './config/index.js';
 import { logger } from './config/logger.js';
-import { closeSMSQueue, getSMSQueue } from './config/queue.js';
+import { closeSMSQueue, closeVoiceQueue, getSMSQueue, getVoiceQueue } from './config/queue.js';
 import { closeRedisClient, getRedisClient } from './config/redis.js';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler.js';
 import { httpsEnforcement } from './middleware/httpsEnforcement.js';
 import { requestLogger } from './middleware/requestLogger.js';
+import { FileEmailProvider } from './providers/FileEmailProvider.js';
+import { AppleOAuthProvider } from './providers/AppleOAuthProvider.js';
+import { FacebookOAuthProvider } from './providers/FacebookOAuthProvider.js';
 import { GoogleOAuthProvider } from './providers/GoogleOAuthProvider.js';
+import { IEmailProvider } from './providers/IEmailProvider.js';
+import { isVoiceProvider } from './providers/IVoiceProvider.js';
+import { MessageBirdProvider } from './providers/MessageBirdProvider.js';
+import { OIDCProvider } from './providers/OIDCProvider.js';
+import { PlivoProvider } from './providers/PlivoProvider.js';
+import { SandboxSMSProvider } from './providers/SandboxSMSProvider.js';
 import { SmsToProvider } from './providers/SmsToProvider.js';
+import { SmtpEmailProvider } from './providers/SmtpEmailProvider.js';
+import { VonageProvider } from './providers/VonageProvider.js';
+import { WhatsAppProvider } from './providers/WhatsAppProvider.js';
 import { createAdminRouter } from './routes/admin.js';
 import { createAuthRouter } from './routes/auth.js';
 import { createWebhookRouter } from './routes/webhooks.js';
 import { AuthService } from './services/AuthService.js';
 import { CustomerService } from './services/CustomerService.js';
+import { EmailService } from './services/EmailService.js';
+import { IdentityService } from './services/IdentityService.js';
 import { MultipassService } from './services/MultipassService.js';
 import { OAuthService } from './services/OAuthService.js';
 import { OrderService } from './services/OrderService.js';
 import { OTPService } from './services/OTPService.js';
+import { PasskeyService } from './services/PasskeyService.js';
+import { PasswordService } from './services/PasswordService.js';
+import { SessionService } from './services/SessionService.js';
 import { SettingsService } from './services/SettingsService.js';
-import { SMSService } from './services/SMSService.js';
+import { SMSFraudService } from './services/SMSFraudService.js';
+import { parseSMSRoutingRules, SMSService } from './services/SMSService.js';
+import { TOTPService } from './services/TOTPService.js';
+import { initializeDeliveryReceiptSweeper } from './workers/smsWorker.js';
 
 // Load environment variables
 dotenv.config();
@@ -27,6 +47,9 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// Stops re-sending OTPs with missing delivery receipts, set once the SMS service is up
+let stopDeliveryReceiptSweeper: () => void = () => {};
+
 // Middleware - Order matters!
 // 1. HTTPS enforcement (before any processing)
 app.use(httpsEnforcement);
@@ -106,10 +129,13 @@ const initializeInfrastructure = async (): Promise<void> => {
     // Initialize core services (these should always work)
     const multipassService = new MultipassService();
     const customerService = new CustomerService();
-    const otpService = new OTPService(redis);
+    const otpService = new OTPService(redis, new SMSFraudService(redis));
+    const passwordService = new PasswordService(redis);
+    const sessionService = new SessionService(redis);
     
     // Initialize SMS service with multiple providers
     let smsService: SMSService;
+    let sandboxProvider: SandboxSMSProvider | undefined;
     try {
         const providers: ISMSProvider[] = [];
         
@@ -148,8 +174,87 @@ const initializeInfrastructure = async (): Promise<void> => {
             logger.warn('⚠️  Twilio provider not configured (set TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, and TWILIO_FROM_NUMBER)');
         }
         
+        // Load Vonage provider (priority 4)
+        if (config.sms.vonage.apiKey && config.sms.vonage.apiSecret && config.sms.vonage.from) {
+            try {
+                providers.push(new VonageProvider(
+                    config.sms.vonage.apiKey,
+                    config.sms.vonage.apiSecret,
+                    config.sms.vonage.from
+                ));
+                logger.info('SMS provider loaded: Vonage (priority 4)');
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                logger.error('Failed to initialize Vonage provider', { error: errorMessage });
+            }
+        }
+        
+        // Load Plivo provider (priority 5)
+        if (config.sms.plivo.authId && config.sms.plivo.authToken && config.sms.plivo.from) {
+            try {
+                providers.push(new PlivoProvider(
+                    config.sms.plivo.authId,
+                    config.sms.plivo.authToken,
+                    config.sms.plivo.from
+                ));
+                logger.info('SMS provider loaded: Plivo (priority 5)');
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                logger.error('Failed to initialize Plivo provider', { error: errorMessage });
+            }
+        }
+        
+        // Load MessageBird provider (priority 6)
+        if (config.sms.messageBird.accessKey && config.sms.messageBird.originator) {
+            try {
+                providers.push(new MessageBirdProvider(
+                    config.sms.messageBird.accessKey,
+                    config.sms.messageBird.originator
+                ));
+                logger.info('SMS provider loaded: MessageBird (priority 6)');
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                logger.error('Failed to initialize MessageBird provider', { error: errorMessage });
+            }
+        }
+        
+        // Load WhatsApp channel (OTP codes only)
+        if (config.sms.whatsapp.accessToken && config.sms.whatsapp.phoneNumberId && config.sms.whatsapp.templateName) {
+            try {
+                const whatsAppProvider = new WhatsAppProvider(
+                    config.sms.whatsapp.accessToken,
+                    config.sms.whatsapp.phoneNumberId,
+                    config.sms.whatsapp.templateName,
+                    config.sms.whatsapp.templateLanguage,
+                    config.sms.whatsapp.apiVersion
+                );
+                providers.push(whatsAppProvider);
+                logger.info('OTP channel loaded: WhatsApp (priority 3)');
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                logger.error('Failed to initialize WhatsApp provider', { error: errorMessage });
+            }
+        } else {
+            logger.info('WhatsApp channel not configured (set WHATSAPP_ACCESS_TOKEN, WHATSAPP_PHONE_NUMBER_ID, and WHATSAPP_TEMPLATE_NAME)');
+        }
+        
+        // Use the sandbox inbox instead of real providers for development and E2E tests
+        if (config.sms.sandbox.enabled || (providers.length === 0 && config.app.nodeEnv === 'development')) {
+            if (config.app.nodeEnv === 'production') {
+                logger.error('SMS sandbox cannot be used in production; ignoring SMS_SANDBOX_ENABLED');
+            } else {
+                sandboxProvider = new SandboxSMSProvider(redis, {
+                    dlrUrl: `${config.shopify.appUrl}/api/webhooks/sms-dlr?provider=sandbox`,
+                    dlrDelayMs: config.sms.sandbox.dlrDelayMs,
+                    dlrStatus: config.sms.sandbox.dlrStatus
+                });
+                providers.splice(0, providers.length, sandboxProvider);
+                logger.warn('⚠️  SMS sandbox enabled: messages are stored in the admin inbox instead of being sent');
+            }
+        }
+        
         // Create SMS service with loaded providers
-        smsService = new SMSService(providers, redis);
+        smsService = new SMSService(providers, redis, parseSMSRoutingRules(config.sms.routingRules));
         
         if (providers.length === 0) {
             logger.warn('⚠️  SMS service initialized without providers (SMS features disabled)');
@@ -157,7 +262,7 @@ const initializeInfrastructure = async (): Promise<void> => {
         } else {
             logger.info('SMS service initialized', {
                 providerCount: providers.length,
-                providers: providers.map(p => ({ name: p.name, priority: p.priority }))
+                providers: providers.map(p => ({ name: p.name, priority: p.priority, channel: p.channel || 'sms' }))
             });
         }
     } catch (error) {
@@ -168,8 +273,11 @@ const initializeInfrastructure = async (): Promise<void> => {
         logger.warn('⚠️  SMS service running in fallback mode (no providers)');
     }
     
+    // Re-send OTPs whose delivery receipt reports failure or never arrives
+    stopDeliveryReceiptSweeper = initializeDeliveryReceiptSweeper(smsService);
+
     // Initialize OAuth service
-    const oauthService = new OAuthService();
+    const oauthService = new OAuthService(redis);
     try {
         if (config.oauth.google.clientId && config.oauth.google.clientSecret) {
             const googleProvider = new GoogleOAuthProvider(
@@ -187,7 +295,107 @@ const initializeInfrastructure = async (): Promise<void> => {
         logger.error('Failed to initialize Google OAuth provider', { error: errorMessage });
         logger.warn('⚠️  Google OAuth will not be available');
     }
+    try {
+        const apple = config.oauth.apple;
+        if (apple.clientId && apple.teamId && apple.keyId && apple.privateKey) {
+            const appleProvider = new AppleOAuthProvider(
+                apple.clientId,
+                apple.teamId,
+                apple.keyId,
+                apple.privateKey
+            );
+            oauthService.registerProvider('apple', appleProvider);
+            logger.info('OAuth service initialized with Apple provider');
+        } else {
+            logger.warn('⚠️  Apple OAuth not configured (Sign in with Apple disabled)');
+            logger.warn('⚠️  Set APPLE_CLIENT_ID, APPLE_TEAM_ID, APPLE_KEY_ID and APPLE_PRIVATE_KEY in .env to enable it');
+        }
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Failed to initialize Apple OAuth provider', { error: errorMessage });
+        logger.warn('⚠️  Sign in with Apple will not be available');
+    }
+    try {
+        if (config.oauth.facebook.appId && config.oauth.facebook.appSecret) {
+            const facebookProvider = new FacebookOAuthProvider(
+                config.oauth.facebook.appId,
+                config.oauth.facebook.appSecret
+            );
+            oauthService.registerProvider('facebook', facebookProvider);
+            logger.info('OAuth service initialized with Facebook provider');
+        } else {
+            logger.warn('⚠️  Facebook OAuth not configured (Facebook Login disabled)');
+            logger.warn('⚠️  Set FACEBOOK_APP_ID and FACEBOOK_APP_SECRET in .env to enable it');
+        }
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Failed to initialize Facebook OAuth provider', { error: errorMessage });
+        logger.warn('⚠️  Facebook Login will not be available');
+    }
+    try {
+        const oidc = config.oauth.oidc;
+        if (oidc.slug && oidc.issuer && oidc.clientId && oidc.clientSecret) {
+            const oidcProvider = await OIDCProvider.discover({
+                name: `oidc-${oidc.slug}`,
+                issuer: oidc.issuer,
+                clientId: oidc.clientId,
+                clientSecret: oidc.clientSecret,
+                scopes: oidc.scopes
+            });
+            oauthService.registerProvider(oidcProvider.name, oidcProvider);
+            logger.info('OAuth service initialized with OIDC provider', {
+                provider: oidcProvider.name,
+                issuer: oidc.issuer
+            });
+        } else {
+            logger.warn('⚠️  OIDC provider not configured');
+            logger.warn('⚠️  Set OIDC_PROVIDER_SLUG, OIDC_ISSUER, OIDC_CLIENT_ID and OIDC_CLIENT_SECRET in .env to enable it');
+        }
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Failed to initialize OIDC provider', { error: errorMessage });
+        logger.warn('⚠️  OIDC sign-in will not be available');
+    }
+    
+    // Initialize Email service (one-time codes and magic links)
+    const emailProviders: IEmailProvider[] = [];
+    try {
+        if (config.email.transport === 'smtp') {
+            emailProviders.push(new SmtpEmailProvider(config.email.smtp, config.email.from));
+            logger.info('Email provider loaded: SMTP');
+        } else if (config.email.transport === 'file') {
+            emailProviders.push(new FileEmailProvider(config.email.from, config.email.fileDirectory));
+            logger.info('Email provider loaded: file', { directory: config.email.fileDirectory });
+        } else {
+            emailProviders.push(new FileEmailProvider(config.email.from));
+            logger.info('Email provider loaded: console');
+        }
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Failed to initialize email provider', { error: errorMessage });
+        logger.warn('⚠️  Email one-time codes and magic links will not be available');
+    }
+    const emailService = new EmailService(emailProviders);
+
+    // Initialize Passkey service; it is only used while passkey sign-in is turned on in settings
+    const passkeyService = new PasskeyService(redis);
+
+    // Initialize Identity service (linked sign-in methods)
+    const identityService = new IdentityService(redis);
+
+    // Initialize Settings service
+    const settingsService = new SettingsService(redis);
+
+    // Apply the merchant's OTP policy now and whenever the settings are saved
+    otpService.setPolicy(await settingsService.getOTPPolicy());
+    settingsService.onSettingsSaved(settings => otpService.setPolicy(settings.otpPolicy));
+
+    // Initialize TOTP service (authenticator app second factor)
+    const totpService = new TOTPService(redis);
     
+    // Voice call OTPs need a voice-capable provider (Twilio)
+    const voiceQueue = smsService.getProviders().some(isVoiceProvider) ? getVoiceQueue() : undefined;
+
     // Initialize Auth service
     const authService = new AuthService(
         multipassService,
@@ -195,23 +403,28 @@ const initializeInfrastructure = async (): Promise<void> => {
         otpService,
         smsService,
         oauthService,
-        smsQueue
+        smsQueue,
+        passkeyService,
+        emailService,
+        passwordService,
+        sessionService,
+        identityService,
+        settingsService,
+        totpService,
+        voiceQueue
     );
     
     // Initialize Order service
     const orderService = new OrderService(redis, otpService, smsService);
-    
-    // Initialize Settings service
-    const settingsService = new SettingsService(redis);
 
     // Register routes
-    const authRouter = createAuthRouter(authService, otpService, smsService);
+    const authRouter = createAuthRouter(authService, otpService, smsService, passkeyService);
     app.use('/api/auth', authRouter);
     
     const webhookRouter = createWebhookRouter(orderService, smsService);
     app.use('/api/webhooks', webhookRouter);
     
-    const adminRouter = createAdminRouter(settingsService);
+    const adminRouter = createAdminRouter(settingsService, sandboxProvider);
     app.use('/api/admin', adminRouter);
     
     // Register 404 handler (after all routes)
@@ -229,7 +442,9 @@ const gracefulShutdown = async (): Promise<void> => {
     logger.info('Shutting down gracefully...');
     
     try {
+        stopDeliveryReceiptSweeper();
         await closeSMSQueue();
+        await closeVoiceQueue();
         await closeRedisClient();
         logger.info('All connections closed');
         process.exit(0);
@@ -248,6 +463,8 @@ process.on('SIGINT', gracefulShutdown);
 // Start server
 const startServer = async (): Promise<void> => {
     try {
+        validateConfig();
+
         // Initialize infrastructure first
         await initializeInfrastructure();
 
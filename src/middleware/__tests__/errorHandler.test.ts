@@ -2,6 +2,7 @@ import { NextFunction, Request, Response } from 'express';
 import fc from 'fast-check';
 import {
     AuthenticationError,
+    ConflictError,
     ExternalServiceError,
     InternalError,
     RateLimitError,
@@ -229,6 +230,7 @@ describe('Error Handler Middleware - Property Tests', () => {
           fc.oneof(
             fc.record({ error: fc.constant(new ValidationError('test')), expectedStatus: fc.constant(400) }),
             fc.record({ error: fc.constant(new AuthenticationError('test')), expectedStatus: fc.constant(401) }),
+            fc.record({ error: fc.constant(new ConflictError('test')), expectedStatus: fc.constant(409) }),
             fc.record({ error: fc.constant(new RateLimitError('test', 60)), expectedStatus: fc.constant(429) }),
             fc.record({ error: fc.constant(new InternalError('test')), expectedStatus: fc.constant(500) }),
             fc.record({ error: fc.constant(new ExternalServiceError('test', 502)), expectedStatus: fc.constant(502) }),
@@ -0,0 +1,55 @@
+/**
+ * Tests for the shared secret middleware
+ */
+
+import { Request, Response } from 'express';
+import { AuthenticationError } from '../../errors/index.js';
+import { createSharedSecretValidator } from '../sharedSecret.js';
+
+describe('Shared Secret Middleware', () => {
+  const createRequest = (headers: Record<string, string> = {}): Request => ({
+    path: '/sms-sandbox/messages/latest',
+    ip: '127.0.0.1',
+    headers,
+    logger: {
+      info: jest.fn(),
+      warn: jest.fn(),
+    },
+  } as unknown as Request);
+
+  it('should let requests carrying the secret through', () => {
+    const validator = createSharedSecretValidator({ secret: 'sandbox-secret', headerName: 'X-Sandbox-Token' });
+    const next = jest.fn();
+
+    validator(createRequest({ 'x-sandbox-token': 'sandbox-secret' }), {} as Response, next);
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  it('should refuse requests without the secret or with a wrong one', () => {
+    const validator = createSharedSecretValidator({ secret: 'sandbox-secret', headerName: 'X-Sandbox-Token' });
+
+    const attempts: Record<string, string>[] = [
+      {},
+      { 'x-sandbox-token': 'wrong' },
+      { 'x-sandbox-token': 'sandbox-secret-and-more' }
+    ];
+
+    for (const headers of attempts) {
+      const next = jest.fn();
+
+      validator(createRequest(headers), {} as Response, next);
+
+      expect(next).toHaveBeenCalledWith(expect.any(AuthenticationError));
+    }
+  });
+
+  it('should refuse every request while no secret is configured', () => {
+    const validator = createSharedSecretValidator({ secret: '', headerName: 'X-Sandbox-Token' });
+    const next = jest.fn();
+
+    validator(createRequest({ 'x-sandbox-token': '' }), {} as Response, next);
+
+    expect(next).toHaveBeenCalledWith(expect.any(AuthenticationError));
+  });
+});
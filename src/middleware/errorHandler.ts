@@ -2,6 +2,7 @@ import { NextFunction, Request, Response } from 'express';
 import { logger } from '../config/logger.js';
 import {
     AuthenticationError,
+    ConflictError,
     ExternalServiceError,
     InternalError,
     RateLimitError,
@@ -107,6 +108,15 @@ export const errorHandler = (
     req.logger?.warn('Authentication error', {
       error: error.message,
     });
+  } else if (error instanceof ConflictError) {
+    statusCode = error.statusCode;
+    errorCode = error.code;
+    errorMessage = error.message;
+    
+    // Log conflict errors at warn level
+    req.logger?.warn('Conflict error', {
+      error: error.message,
+    });
   } else if (error instanceof RateLimitError) {
     statusCode = error.statusCode;
     errorCode = error.code;
@@ -0,0 +1,55 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { AuthenticationError } from '../errors/index.js';
+
+/**
+ * Shared secret middleware for endpoints called by tools rather than customers,
+ * e.g. E2E tests reading codes from the SMS sandbox inbox
+ */
+
+interface SharedSecretOptions {
+  secret: string;
+  headerName: string;
+}
+
+/**
+ * Only lets requests through whose header carries the secret
+ * Every request is refused while no secret is configured
+ */
+export const createSharedSecretValidator = (options: SharedSecretOptions) => {
+  const { secret, headerName } = options;
+
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    const provided = req.headers[headerName.toLowerCase()];
+
+    if (!secret) {
+      req.logger?.warn('Shared secret request refused: no secret configured', {
+        path: req.path,
+        ip: req.ip,
+      });
+      next(new AuthenticationError('This endpoint is not configured'));
+      return;
+    }
+
+    if (typeof provided !== 'string' || !secretsMatch(secret, provided)) {
+      req.logger?.warn('Shared secret validation failed', {
+        path: req.path,
+        ip: req.ip,
+      });
+      next(new AuthenticationError('Invalid or missing token'));
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Compare digests so neither the secret's content nor its length leaks through timing
+ */
+function secretsMatch(secret: string, provided: string): boolean {
+  const expected = crypto.createHash('sha256').update(secret).digest();
+  const actual = crypto.createHash('sha256').update(provided).digest();
+
+  return crypto.timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,71 @@
+/**
+ * File/Console Email Provider Implementation
+ * Implements IEmailProvider for development: writes each email to a JSON file,
+ * or to the log when no directory is configured
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from '../config/logger.js';
+import { IEmailProvider, SendEmailParams, SendEmailResult } from './IEmailProvider.js';
+
+export class FileEmailProvider implements IEmailProvider {
+  readonly name: string;
+  readonly priority = 99;
+
+  private readonly directory?: string;
+  private readonly fromAddress: string;
+
+  constructor(fromAddress: string, directory?: string) {
+    this.fromAddress = fromAddress;
+    this.directory = directory;
+    this.name = directory ? 'file' : 'console';
+  }
+
+  async sendEmail(params: SendEmailParams): Promise<SendEmailResult> {
+    const messageId = randomUUID();
+    const email = {
+      messageId,
+      from: params.from || this.fromAddress,
+      to: params.to,
+      subject: params.subject,
+      text: params.text,
+      html: params.html,
+      sentAt: new Date().toISOString()
+    };
+
+    try {
+      if (this.directory) {
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.writeFile(
+          path.join(this.directory, `${Date.now()}-${messageId}.json`),
+          JSON.stringify(email, null, 2)
+        );
+      } else {
+        logger.info('Email (console transport)', email);
+      }
+
+      return {
+        success: true,
+        messageId,
+        provider: this.name
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      logger.error('Failed to write email', {
+        provider: this.name,
+        to: params.to,
+        error: errorMessage
+      });
+
+      return {
+        success: false,
+        messageId: '',
+        provider: this.name,
+        error: errorMessage
+      };
+    }
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Email Provider Interface
+ * Defines the contract for all email transport implementations
+ */
+
+export interface SendEmailParams {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  from?: string;
+}
+
+export interface SendEmailResult {
+  success: boolean;
+  messageId: string;
+  provider: string;
+  error?: string;
+}
+
+export interface IEmailProvider {
+  readonly name: string;
+  readonly priority: number;
+
+  sendEmail(params: SendEmailParams): Promise<SendEmailResult>;
+}
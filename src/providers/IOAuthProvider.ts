@@ -8,24 +8,48 @@ export interface OAuthTokens {
   refreshToken?: string;
   expiresIn: number;
   tokenType: string;
+  idToken?: string;
 }
 
 export interface UserProfile {
   id: string;
+  // Empty when the user declined to share it (Facebook)
   email: string;
   firstName?: string;
   lastName?: string;
   phone?: string;
   avatar?: string;
   emailVerified: boolean;
+  isPrivateEmail?: boolean;
+}
+
+/**
+ * User details posted to the callback alongside the code
+ * Apple only sends the name on the first authorization, never in the ID token
+ */
+export interface OAuthCallbackUser {
+  firstName?: string;
+  lastName?: string;
+}
+
+/**
+ * Per-flow values generated by OAuthService for the authorization request
+ * Providers must send the PKCE challenge and nonce when the identity provider supports them
+ */
+export interface OAuthAuthorizationParams {
+  state: string;
+  // S256 challenge for the code verifier later passed to exchangeCodeForToken
+  codeChallenge: string;
+  // Echoed in the ID token and checked by OAuthService
+  nonce: string;
 }
 
 export interface IOAuthProvider {
   readonly name: string;
   readonly scopes: string[];
   
-  getAuthorizationUrl(state: string, redirectUri: string): string;
-  exchangeCodeForToken(code: string, redirectUri: string): Promise<OAuthTokens>;
-  getUserProfile(accessToken: string): Promise<UserProfile>;
+  getAuthorizationUrl(params: OAuthAuthorizationParams, redirectUri: string): string;
+  exchangeCodeForToken(code: string, redirectUri: string, codeVerifier: string): Promise<OAuthTokens>;
+  getUserProfile(accessToken: string, idToken?: string): Promise<UserProfile>;
   refreshToken(refreshToken: string): Promise<OAuthTokens>;
 }
@@ -0,0 +1,233 @@
+/**
+ * MessageBird Provider Implementation
+ * Implements ISMSProvider for the MessageBird SMS API
+ */
+
+import axios, { AxiosError } from 'axios';
+import { logger } from '../config/logger.js';
+import {
+    DeliveryReceipt,
+    DeliveryStatus,
+    DeliveryStatusType,
+    ISMSProvider,
+    SendSMSParams,
+    SendSMSResult
+} from './ISMSProvider.js';
+
+export class MessageBirdProvider implements ISMSProvider {
+  readonly name = 'messagebird';
+  readonly priority = 6;
+
+  private readonly accessKey: string;
+  private readonly originator: string;
+  private readonly apiBaseUrl = 'https://rest.messagebird.com';
+
+  constructor(accessKey: string, originator: string) {
+    if (!accessKey) {
+      throw new Error('MessageBird access key is required');
+    }
+    if (!originator) {
+      throw new Error('MessageBird originator is required');
+    }
+
+    this.accessKey = accessKey;
+    this.originator = originator;
+  }
+
+  async sendSMS(params: SendSMSParams): Promise<SendSMSResult> {
+    try {
+      logger.info('Sending SMS via MessageBird', {
+        provider: this.name,
+        to: params.to,
+        from: params.from || this.originator
+      });
+
+      const response = await axios.post(
+        `${this.apiBaseUrl}/messages`,
+        {
+          originator: params.from || this.originator,
+          recipients: [params.to.replace(/^\+/, '')],
+          body: params.message,
+          reportUrl: params.callbackUrl
+        },
+        {
+          headers: {
+            'Authorization': `AccessKey ${this.accessKey}`,
+            'Content-Type': 'application/json'
+          },
+          timeout: 10000
+        }
+      );
+
+      const messageId = response.data?.id;
+
+      if (!messageId) {
+        logger.error('MessageBird response missing message ID', {
+          provider: this.name,
+          response: response.data
+        });
+
+        return {
+          success: false,
+          messageId: '',
+          provider: this.name,
+          error: 'Invalid response from SMS provider'
+        };
+      }
+
+      logger.info('SMS sent successfully via MessageBird', {
+        provider: this.name,
+        messageId,
+        to: params.to
+      });
+
+      return {
+        success: true,
+        messageId,
+        provider: this.name
+      };
+
+    } catch (error) {
+      const axiosError = error as AxiosError;
+      const errorMessage = axiosError.response?.data
+        ? JSON.stringify(axiosError.response.data)
+        : axiosError.message;
+
+      logger.error('Failed to send SMS via MessageBird', {
+        provider: this.name,
+        error: errorMessage,
+        to: params.to,
+        statusCode: axiosError.response?.status
+      });
+
+      return {
+        success: false,
+        messageId: '',
+        provider: this.name,
+        error: `SMS provider error: ${errorMessage}`
+      };
+    }
+  }
+
+  async checkDeliveryStatus(messageId: string): Promise<DeliveryStatus> {
+    try {
+      logger.info('Checking delivery status via MessageBird', {
+        provider: this.name,
+        messageId
+      });
+
+      const response = await axios.get(
+        `${this.apiBaseUrl}/messages/${messageId}`,
+        {
+          headers: {
+            'Authorization': `AccessKey ${this.accessKey}`
+          },
+          timeout: 5000
+        }
+      );
+
+      // We only ever send to one recipient
+      const recipient = response.data?.recipients?.items?.[0];
+      const status = this.mapStatusFromApi(recipient?.status);
+
+      return {
+        messageId,
+        status,
+        timestamp: recipient?.statusDatetime ? new Date(recipient.statusDatetime) : new Date(),
+        error: recipient?.statusReason && status === 'failed' ? recipient.statusReason : undefined
+      };
+
+    } catch (error) {
+      const axiosError = error as AxiosError;
+
+      logger.error('Failed to check delivery status via MessageBird', {
+        provider: this.name,
+        error: axiosError.message,
+        messageId
+      });
+
+      return {
+        messageId,
+        status: 'failed',
+        timestamp: new Date(),
+        error: 'Failed to check delivery status'
+      };
+    }
+  }
+
+  handleWebhook(payload: any): DeliveryReceipt {
+    try {
+      logger.info('Processing DLR webhook from MessageBird', {
+        provider: this.name,
+        payload
+      });
+
+      const messageId = payload.id;
+
+      if (!messageId) {
+        throw new Error('Missing id in webhook payload');
+      }
+
+      const status = this.mapStatusFromApi(payload.status);
+
+      let deliveredAt: Date | undefined;
+      if (status === 'delivered' && payload.statusDatetime) {
+        deliveredAt = new Date(payload.statusDatetime);
+      }
+
+      let failureReason: string | undefined;
+      if (status === 'failed') {
+        failureReason = payload.statusErrorCode
+          ? `Error ${payload.statusErrorCode}: ${payload.statusReason || 'Unknown error'}`
+          : payload.statusReason;
+      }
+
+      return {
+        messageId,
+        status,
+        deliveredAt,
+        failureReason
+      };
+
+    } catch (error) {
+      logger.error('Failed to parse DLR webhook from MessageBird', {
+        provider: this.name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        payload
+      });
+
+      throw new Error('Invalid webhook payload');
+    }
+  }
+
+  /**
+   * Map MessageBird status to our standard status types
+   * MessageBird statuses: scheduled, sent, buffered, delivered, expired, delivery_failed
+   */
+  private mapStatusFromApi(apiStatus: string): DeliveryStatusType {
+    const statusLower = (apiStatus || '').toLowerCase();
+
+    switch (statusLower) {
+      case 'scheduled':
+        return 'pending';
+
+      case 'sent':
+      case 'buffered':
+        return 'sent';
+
+      case 'delivered':
+        return 'delivered';
+
+      case 'expired':
+      case 'delivery_failed':
+        return 'failed';
+
+      default:
+        logger.warn('Unknown SMS status from MessageBird', {
+          provider: this.name,
+          status: apiStatus
+        });
+        return 'pending';
+    }
+  }
+}
@@ -0,0 +1,413 @@
+/**
+ * Generic OpenID Connect Provider Implementation
+ * Implements IOAuthProvider for any OIDC identity provider (Microsoft Entra ID, Okta, Auth0, Keycloak, ...)
+ *
+ * Endpoints come from the issuer's discovery document, and identity comes from
+ * the ID token, verified against the issuer's JWKS. The userinfo endpoint is
+ * only used when the ID token carries no email claim.
+ */
+
+import axios, { AxiosError } from 'axios';
+import { createPublicKey, JsonWebKey } from 'crypto';
+import jwt, { Algorithm } from 'jsonwebtoken';
+import { logger } from '../config/logger.js';
+import {
+    IOAuthProvider,
+    OAuthAuthorizationParams,
+    OAuthTokens,
+    UserProfile
+} from './IOAuthProvider.js';
+
+const DEFAULT_SCOPES = ['openid', 'email', 'profile'];
+const JWKS_CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Asymmetric algorithms only; HS256 would let anyone holding the client secret mint tokens
+const SUPPORTED_ALGORITHMS: Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'ES256', 'ES384', 'ES512'];
+
+export interface OIDCProviderConfig {
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes?: string[];
+}
+
+export interface OIDCDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  id_token_signing_alg_values_supported?: string[];
+}
+
+interface OIDCIdTokenClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean | 'true' | 'false';
+  given_name?: string;
+  family_name?: string;
+  picture?: string;
+  phone_number?: string;
+}
+
+interface OIDCJWK extends JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+export class OIDCProvider implements IOAuthProvider {
+  readonly name: string;
+  readonly scopes: string[];
+
+  private readonly clientId: string;
+  private readonly clientSecret: string;
+  private readonly discovery: OIDCDiscoveryDocument;
+
+  private signingKeys?: { keys: OIDCJWK[]; fetchedAt: number };
+
+  constructor(config: OIDCProviderConfig, discovery: OIDCDiscoveryDocument) {
+    if (!config.name) {
+      throw new Error('OIDC provider name is required');
+    }
+    if (!config.clientId) {
+      throw new Error('OIDC client ID is required');
+    }
+    if (!config.clientSecret) {
+      throw new Error('OIDC client secret is required');
+    }
+
+    const scopes = config.scopes?.length ? config.scopes : DEFAULT_SCOPES;
+
+    this.name = config.name;
+    // The openid scope is what makes the provider return an ID token
+    this.scopes = scopes.includes('openid') ? scopes : ['openid', ...scopes];
+    this.clientId = config.clientId;
+    this.clientSecret = config.clientSecret;
+    this.discovery = discovery;
+  }
+
+  /**
+   * Fetch the issuer's discovery document and build a provider from it
+   */
+  static async discover(config: OIDCProviderConfig): Promise<OIDCProvider> {
+    const discovery = await fetchDiscoveryDocument(config.issuer);
+    return new OIDCProvider(config, discovery);
+  }
+
+  getAuthorizationUrl({ state, codeChallenge, nonce }: OAuthAuthorizationParams, redirectUri: string): string {
+    const params = new URLSearchParams({
+      client_id: this.clientId,
+      redirect_uri: redirectUri,
+      response_type: 'code',
+      scope: this.scopes.join(' '),
+      state: state,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+      nonce
+    });
+
+    const url = `${this.discovery.authorization_endpoint}?${params.toString()}`;
+
+    logger.info('Generated OIDC authorization URL', {
+      provider: this.name,
+      issuer: this.discovery.issuer,
+      state,
+      redirectUri
+    });
+
+    return url;
+  }
+
+  async exchangeCodeForToken(code: string, redirectUri: string, codeVerifier: string): Promise<OAuthTokens> {
+    try {
+      logger.info('Exchanging authorization code for tokens', {
+        provider: this.name,
+        redirectUri
+      });
+
+      const response = await axios.post(
+        this.discovery.token_endpoint,
+        {
+          code,
+          client_id: this.clientId,
+          client_secret: this.clientSecret,
+          redirect_uri: redirectUri,
+          grant_type: 'authorization_code',
+          code_verifier: codeVerifier
+        },
+        {
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded'
+          },
+          timeout: 10000
+        }
+      );
+
+      const tokens: OAuthTokens = {
+        accessToken: response.data.access_token,
+        refreshToken: response.data.refresh_token,
+        expiresIn: response.data.expires_in,
+        tokenType: response.data.token_type,
+        idToken: response.data.id_token
+      };
+
+      logger.info('Successfully exchanged code for tokens', {
+        provider: this.name,
+        hasRefreshToken: !!tokens.refreshToken
+      });
+
+      return tokens;
+
+    } catch (error) {
+      const axiosError = error as AxiosError;
+
+      logger.error('Failed to exchange authorization code for tokens', {
+        provider: this.name,
+        error: axiosError.message,
+        statusCode: axiosError.response?.status,
+        responseData: axiosError.response?.data
+      });
+
+      throw new Error(`Failed to exchange authorization code: ${axiosError.message}`);
+    }
+  }
+
+  /**
+   * Build the user profile from the verified ID token
+   */
+  async getUserProfile(accessToken: string, idToken?: string): Promise<UserProfile> {
+    if (!idToken) {
+      throw new Error('OIDC provider did not return an ID token');
+    }
+
+    let claims = await this.verifyIdToken(idToken);
+
+    // Some providers (e.g. Okta by default) keep profile claims out of the ID token
+    if (!claims.email && this.discovery.userinfo_endpoint) {
+      claims = { ...claims, ...await this.fetchUserInfo(accessToken, claims.sub) };
+    }
+
+    if (!claims.email) {
+      throw new Error('OIDC provider did not return an email address');
+    }
+
+    const profile: UserProfile = {
+      id: claims.sub,
+      email: claims.email,
+      firstName: claims.given_name,
+      lastName: claims.family_name,
+      phone: claims.phone_number,
+      avatar: claims.picture,
+      emailVerified: isTrue(claims.email_verified)
+    };
+
+    logger.info('Successfully verified OIDC ID token', {
+      provider: this.name,
+      userId: profile.id,
+      email: profile.email
+    });
+
+    return profile;
+  }
+
+  async refreshToken(refreshToken: string): Promise<OAuthTokens> {
+    try {
+      logger.info('Refreshing access token', {
+        provider: this.name
+      });
+
+      const response = await axios.post(
+        this.discovery.token_endpoint,
+        {
+          refresh_token: refreshToken,
+          client_id: this.clientId,
+          client_secret: this.clientSecret,
+          grant_type: 'refresh_token'
+        },
+        {
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded'
+          },
+          timeout: 10000
+        }
+      );
+
+      const tokens: OAuthTokens = {
+        accessToken: response.data.access_token,
+        // Providers that do not rotate refresh tokens omit it from the response
+        refreshToken: response.data.refresh_token || refreshToken,
+        expiresIn: response.data.expires_in,
+        tokenType: response.data.token_type,
+        idToken: response.data.id_token
+      };
+
+      logger.info('Successfully refreshed access token', {
+        provider: this.name
+      });
+
+      return tokens;
+
+    } catch (error) {
+      const axiosError = error as AxiosError;
+
+      logger.error('Failed to refresh access token', {
+        provider: this.name,
+        error: axiosError.message,
+        statusCode: axiosError.response?.status
+      });
+
+      throw new Error(`Failed to refresh access token: ${axiosError.message}`);
+    }
+  }
+
+  /**
+   * Verify the ID token signature against the issuer's published keys and check its claims
+   */
+  private async verifyIdToken(idToken: string): Promise<OIDCIdTokenClaims> {
+    const decoded = jwt.decode(idToken, { complete: true });
+
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new Error('Malformed OIDC ID token');
+    }
+
+    const jwk = await this.getSigningKey(decoded.header.kid);
+    const publicKey = createPublicKey({ key: jwk, format: 'jwk' });
+
+    try {
+      return jwt.verify(idToken, publicKey, {
+        algorithms: SUPPORTED_ALGORITHMS,
+        issuer: this.discovery.issuer,
+        audience: this.clientId
+      }) as OIDCIdTokenClaims;
+    } catch (error) {
+      logger.warn('OIDC ID token verification failed', {
+        provider: this.name,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw new Error('Invalid OIDC ID token');
+    }
+  }
+
+  /**
+   * Look up a signing key by ID, refetching the key set when the ID is unknown (key rotation)
+   * Tokens without a kid are accepted only when the issuer publishes a single signing key
+   */
+  private async getSigningKey(kid?: string): Promise<OIDCJWK> {
+    const isFresh = this.signingKeys && Date.now() - this.signingKeys.fetchedAt < JWKS_CACHE_TTL_MS;
+    let key = isFresh ? findSigningKey(this.signingKeys!.keys, kid) : undefined;
+
+    if (!key) {
+      try {
+        const response = await axios.get(this.discovery.jwks_uri, { timeout: 10000 });
+        this.signingKeys = { keys: response.data.keys, fetchedAt: Date.now() };
+      } catch (error) {
+        const axiosError = error as AxiosError;
+
+        logger.error('Failed to fetch OIDC signing keys', {
+          provider: this.name,
+          error: axiosError.message,
+          statusCode: axiosError.response?.status
+        });
+
+        throw new Error(`Failed to fetch OIDC signing keys: ${axiosError.message}`);
+      }
+
+      key = findSigningKey(this.signingKeys.keys, kid);
+    }
+
+    if (!key) {
+      throw new Error('OIDC ID token was signed with an unknown key');
+    }
+
+    return key;
+  }
+
+  private async fetchUserInfo(accessToken: string, sub: string): Promise<Partial<OIDCIdTokenClaims>> {
+    try {
+      const response = await axios.get(this.discovery.userinfo_endpoint!, {
+        headers: {
+          Authorization: `Bearer ${accessToken}`
+        },
+        timeout: 10000
+      });
+
+      // The userinfo response must describe the same subject as the ID token
+      if (response.data.sub !== sub) {
+        throw new Error('userinfo subject does not match the ID token');
+      }
+
+      return response.data;
+
+    } catch (error) {
+      const axiosError = error as AxiosError;
+
+      logger.error('Failed to fetch OIDC userinfo', {
+        provider: this.name,
+        error: axiosError.message,
+        statusCode: axiosError.response?.status
+      });
+
+      throw new Error(`Failed to fetch user profile: ${axiosError.message}`);
+    }
+  }
+}
+
+/**
+ * Fetch and validate an issuer's discovery document
+ * Exported so the admin can check an issuer URL before saving it
+ */
+export async function fetchDiscoveryDocument(issuer: string): Promise<OIDCDiscoveryDocument> {
+  if (!issuer) {
+    throw new Error('OIDC issuer URL is required');
+  }
+
+  const issuerUrl = issuer.replace(/\/+$/, '');
+
+  if (!issuerUrl.startsWith('https://')) {
+    throw new Error('OIDC issuer URL must use HTTPS');
+  }
+
+  let discovery: OIDCDiscoveryDocument;
+
+  try {
+    const response = await axios.get(`${issuerUrl}/.well-known/openid-configuration`, { timeout: 10000 });
+    discovery = response.data;
+  } catch (error) {
+    const axiosError = error as AxiosError;
+
+    logger.error('Failed to fetch OIDC discovery document', {
+      issuer: issuerUrl,
+      error: axiosError.message,
+      statusCode: axiosError.response?.status
+    });
+
+    throw new Error(`Failed to fetch OIDC discovery document: ${axiosError.message}`);
+  }
+
+  if (!discovery?.authorization_endpoint || !discovery.token_endpoint || !discovery.jwks_uri) {
+    throw new Error('OIDC discovery document is missing required endpoints');
+  }
+
+  // Per OIDC Discovery, the document must name the issuer it was fetched from
+  if (discovery.issuer?.replace(/\/+$/, '') !== issuerUrl) {
+    throw new Error(`OIDC discovery issuer mismatch: expected ${issuerUrl}, got ${discovery.issuer}`);
+  }
+
+  return discovery;
+}
+
+function findSigningKey(keys: OIDCJWK[], kid?: string): OIDCJWK | undefined {
+  const signingKeys = keys.filter(k => !k.use || k.use === 'sig');
+
+  if (kid) {
+    return signingKeys.find(k => k.kid === kid);
+  }
+
+  return signingKeys.length === 1 ? signingKeys[0] : undefined;
+}
+
+// Some providers send boolean claims as strings
+function isTrue(value: boolean | 'true' | 'false' | undefined): boolean {
+  return value === true || value === 'true';
+}
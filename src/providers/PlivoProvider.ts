@@ -0,0 +1,236 @@
+/**
+ * Plivo Provider Implementation
+ * Implements ISMSProvider for the Plivo Message API
+ */
+
+import axios, { AxiosError } from 'axios';
+import { logger } from '../config/logger.js';
+import {
+    DeliveryReceipt,
+    DeliveryStatus,
+    DeliveryStatusType,
+    ISMSProvider,
+    SendSMSParams,
+    SendSMSResult
+} from './ISMSProvider.js';
+
+export class PlivoProvider implements ISMSProvider {
+  readonly name = 'plivo';
+  readonly priority = 5;
+
+  private readonly authId: string;
+  private readonly authToken: string;
+  private readonly from: string;
+  private readonly apiBaseUrl: string;
+
+  constructor(authId: string, authToken: string, from: string) {
+    if (!authId) {
+      throw new Error('Plivo Auth ID is required');
+    }
+    if (!authToken) {
+      throw new Error('Plivo Auth Token is required');
+    }
+    if (!from) {
+      throw new Error('Plivo sender is required');
+    }
+
+    this.authId = authId;
+    this.authToken = authToken;
+    this.from = from;
+    this.apiBaseUrl = `https://api.plivo.com/v1/Account/${authId}`;
+  }
+
+  async sendSMS(params: SendSMSParams): Promise<SendSMSResult> {
+    try {
+      logger.info('Sending SMS via Plivo', {
+        provider: this.name,
+        to: params.to,
+        from: params.from || this.from
+      });
+
+      const response = await axios.post(
+        `${this.apiBaseUrl}/Message/`,
+        {
+          src: params.from || this.from,
+          dst: params.to,
+          text: params.message,
+          url: params.callbackUrl,
+          method: params.callbackUrl ? 'POST' : undefined
+        },
+        {
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          auth: {
+            username: this.authId,
+            password: this.authToken
+          },
+          timeout: 10000
+        }
+      );
+
+      // Plivo returns one UUID per destination
+      const messageId = response.data?.message_uuid?.[0];
+
+      if (!messageId) {
+        logger.error('Plivo response missing message UUID', {
+          provider: this.name,
+          response: response.data
+        });
+
+        return {
+          success: false,
+          messageId: '',
+          provider: this.name,
+          error: 'Invalid response from SMS provider'
+        };
+      }
+
+      logger.info('SMS sent successfully via Plivo', {
+        provider: this.name,
+        messageId,
+        to: params.to
+      });
+
+      return {
+        success: true,
+        messageId,
+        provider: this.name
+      };
+
+    } catch (error) {
+      const axiosError = error as AxiosError;
+      const errorMessage = axiosError.response?.data
+        ? JSON.stringify(axiosError.response.data)
+        : axiosError.message;
+
+      logger.error('Failed to send SMS via Plivo', {
+        provider: this.name,
+        error: errorMessage,
+        to: params.to,
+        statusCode: axiosError.response?.status
+      });
+
+      return {
+        success: false,
+        messageId: '',
+        provider: this.name,
+        error: `SMS provider error: ${errorMessage}`
+      };
+    }
+  }
+
+  async checkDeliveryStatus(messageId: string): Promise<DeliveryStatus> {
+    try {
+      logger.info('Checking delivery status via Plivo', {
+        provider: this.name,
+        messageId
+      });
+
+      const response = await axios.get(
+        `${this.apiBaseUrl}/Message/${messageId}/`,
+        {
+          auth: {
+            username: this.authId,
+            password: this.authToken
+          },
+          timeout: 5000
+        }
+      );
+
+      const status = this.mapStatusFromApi(response.data.message_state);
+      const errorCode = response.data.error_code;
+
+      return {
+        messageId,
+        status,
+        timestamp: response.data.message_time ? new Date(response.data.message_time) : new Date(),
+        error: errorCode && errorCode !== '0' ? `Error ${errorCode}` : undefined
+      };
+
+    } catch (error) {
+      const axiosError = error as AxiosError;
+
+      logger.error('Failed to check delivery status via Plivo', {
+        provider: this.name,
+        error: axiosError.message,
+        messageId
+      });
+
+      return {
+        messageId,
+        status: 'failed',
+        timestamp: new Date(),
+        error: 'Failed to check delivery status'
+      };
+    }
+  }
+
+  handleWebhook(payload: any): DeliveryReceipt {
+    try {
+      logger.info('Processing DLR webhook from Plivo', {
+        provider: this.name,
+        payload
+      });
+
+      const messageId = payload.MessageUUID;
+
+      if (!messageId) {
+        throw new Error('Missing MessageUUID in webhook payload');
+      }
+
+      const status = this.mapStatusFromApi(payload.Status);
+
+      const failureReason = payload.ErrorCode && payload.ErrorCode !== '0'
+        ? `Error ${payload.ErrorCode}`
+        : undefined;
+
+      return {
+        messageId,
+        status,
+        deliveredAt: status === 'delivered' ? new Date() : undefined,
+        failureReason
+      };
+
+    } catch (error) {
+      logger.error('Failed to parse DLR webhook from Plivo', {
+        provider: this.name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        payload
+      });
+
+      throw new Error('Invalid webhook payload');
+    }
+  }
+
+  /**
+   * Map Plivo status to our standard status types
+   * Plivo statuses: queued, sent, delivered, undelivered, failed, rejected
+   */
+  private mapStatusFromApi(apiStatus: string): DeliveryStatusType {
+    const statusLower = (apiStatus || '').toLowerCase();
+
+    switch (statusLower) {
+      case 'queued':
+        return 'pending';
+
+      case 'sent':
+        return 'sent';
+
+      case 'delivered':
+        return 'delivered';
+
+      case 'undelivered':
+      case 'failed':
+      case 'rejected':
+        return 'failed';
+
+      default:
+        logger.warn('Unknown SMS status from Plivo', {
+          provider: this.name,
+          status: apiStatus
+        });
+        return 'pending';
+    }
+  }
+}
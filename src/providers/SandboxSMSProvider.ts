@@ -0,0 +1,254 @@
+/**
+ * Sandbox SMS Provider Implementation
+ * Implements ISMSProvider for development and E2E tests: messages are stored in Redis
+ * for the admin inbox instead of being sent, and a simulated delivery receipt is posted back
+ */
+
+import axios, { AxiosError } from 'axios';
+import { randomUUID } from 'crypto';
+import { Redis } from 'ioredis';
+import { logger } from '../config/logger.js';
+import {
+    DeliveryReceipt,
+    DeliveryStatus,
+    DeliveryStatusType,
+    ISMSProvider,
+    MessageChannel,
+    SendSMSParams,
+    SendSMSResult
+} from './ISMSProvider.js';
+
+export interface SandboxMessage {
+  messageId: string;
+  to: string;
+  from?: string;
+  message: string;
+  channel: MessageChannel;
+  code?: string;
+  status: DeliveryStatusType;
+  sentAt: string;
+  updatedAt: string;
+}
+
+export interface SandboxSMSOptions {
+  dlrUrl?: string;                    // Where receipts go when a send has no callbackUrl
+  dlrDelayMs?: number;                // How long after sending the receipt is posted
+  dlrStatus?: 'delivered' | 'failed'; // Status the simulated receipt reports
+  maxMessages?: number;               // Messages kept in the inbox
+}
+
+const INBOX_KEY = 'sms:sandbox:inbox';
+const MESSAGE_TTL_SECONDS = 86400; // 24 hours
+
+export class SandboxSMSProvider implements ISMSProvider {
+  readonly name = 'sandbox';
+  readonly priority = 99;
+
+  private readonly redis: Redis;
+  private readonly options: Required<Omit<SandboxSMSOptions, 'dlrUrl'>> & SandboxSMSOptions;
+
+  constructor(redis: Redis, options: SandboxSMSOptions = {}) {
+    this.redis = redis;
+    this.options = {
+      dlrUrl: options.dlrUrl,
+      dlrDelayMs: options.dlrDelayMs ?? 1000,
+      dlrStatus: options.dlrStatus ?? 'delivered',
+      maxMessages: options.maxMessages ?? 100
+    };
+  }
+
+  async sendSMS(params: SendSMSParams): Promise<SendSMSResult> {
+    const now = new Date().toISOString();
+    const stored: SandboxMessage = {
+      messageId: `sandbox-${randomUUID()}`,
+      to: params.to,
+      from: params.from,
+      message: params.message,
+      channel: params.channel || 'sms',
+      code: params.code,
+      status: 'sent',
+      sentAt: now,
+      updatedAt: now
+    };
+
+    try {
+      await this.saveMessage(stored);
+      await this.redis.set(this.getPhoneKey(params.to), stored.messageId, 'EX', MESSAGE_TTL_SECONDS);
+      await this.redis.lpush(INBOX_KEY, stored.messageId);
+      await this.redis.ltrim(INBOX_KEY, 0, this.options.maxMessages - 1);
+
+      logger.info('SMS stored in sandbox inbox', {
+        provider: this.name,
+        messageId: stored.messageId,
+        to: params.to
+      });
+
+      this.scheduleDeliveryReceipt(stored.messageId, params.callbackUrl || this.options.dlrUrl);
+
+      return {
+        success: true,
+        messageId: stored.messageId,
+        provider: this.name
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      logger.error('Failed to store SMS in sandbox inbox', {
+        provider: this.name,
+        to: params.to,
+        error: errorMessage
+      });
+
+      return {
+        success: false,
+        messageId: '',
+        provider: this.name,
+        error: `SMS provider error: ${errorMessage}`
+      };
+    }
+  }
+
+  async checkDeliveryStatus(messageId: string): Promise<DeliveryStatus> {
+    const stored = await this.getMessage(messageId).catch(() => null);
+
+    if (!stored) {
+      return {
+        messageId,
+        status: 'failed',
+        timestamp: new Date(),
+        error: 'Failed to check delivery status'
+      };
+    }
+
+    return {
+      messageId,
+      status: stored.status,
+      timestamp: new Date(stored.updatedAt)
+    };
+  }
+
+  handleWebhook(payload: any): DeliveryReceipt {
+    try {
+      const messageId = payload.messageId;
+
+      if (!messageId) {
+        throw new Error('Missing messageId in webhook payload');
+      }
+
+      const status = this.mapStatusFromApi(payload.status);
+
+      return {
+        messageId,
+        status,
+        deliveredAt: status === 'delivered' && payload.timestamp ? new Date(payload.timestamp) : undefined,
+        failureReason: status === 'failed' ? 'Simulated delivery failure' : undefined
+      };
+    } catch (error) {
+      logger.error('Failed to parse DLR webhook from sandbox', {
+        provider: this.name,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        payload
+      });
+
+      throw new Error('Invalid webhook payload');
+    }
+  }
+
+  /**
+   * Get the most recent message sent to a phone number, e.g. for an E2E test to read the code
+   */
+  async getLatestMessage(phone: string): Promise<SandboxMessage | null> {
+    const messageId = await this.redis.get(this.getPhoneKey(phone));
+    return messageId ? await this.getMessage(messageId) : null;
+  }
+
+  /**
+   * Get the inbox, newest first
+   */
+  async getMessages(limit: number = this.options.maxMessages): Promise<SandboxMessage[]> {
+    const messageIds = await this.redis.lrange(INBOX_KEY, 0, limit - 1);
+
+    if (messageIds.length === 0) {
+      return [];
+    }
+
+    const data = await this.redis.mget(...messageIds.map(id => this.getMessageKey(id)));
+    return data.filter((item): item is string => item !== null).map(item => JSON.parse(item));
+  }
+
+  /**
+   * Empty the inbox
+   */
+  async clear(): Promise<void> {
+    const messages = await this.getMessages();
+    const keys = messages.flatMap(message => [
+      this.getMessageKey(message.messageId),
+      this.getPhoneKey(message.to)
+    ]);
+
+    await this.redis.del(INBOX_KEY, ...keys);
+  }
+
+  // Mark the message delivered (or failed) and post the receipt like a real provider would
+  private scheduleDeliveryReceipt(messageId: string, url?: string): void {
+    const timer = setTimeout(async () => {
+      const status = this.options.dlrStatus;
+      const timestamp = new Date().toISOString();
+
+      try {
+        const stored = await this.getMessage(messageId);
+        if (stored) {
+          await this.saveMessage({ ...stored, status, updatedAt: timestamp });
+        }
+
+        if (url) {
+          await axios.post(url, { messageId, status, timestamp }, { timeout: 5000 });
+        }
+      } catch (error) {
+        const axiosError = error as AxiosError;
+
+        logger.warn('Failed to deliver simulated DLR from sandbox', {
+          provider: this.name,
+          messageId,
+          error: axiosError.message,
+          statusCode: axiosError.response?.status
+        });
+      }
+    }, this.options.dlrDelayMs);
+
+    // Pending receipts shouldn't keep the process alive
+    timer.unref();
+  }
+
+  private async getMessage(messageId: string): Promise<SandboxMessage | null> {
+    const data = await this.redis.get(this.getMessageKey(messageId));
+    return data ? JSON.parse(data) : null;
+  }
+
+  private async saveMessage(message: SandboxMessage): Promise<void> {
+    await this.redis.set(this.getMessageKey(message.messageId), JSON.stringify(message), 'EX', MESSAGE_TTL_SECONDS);
+  }
+
+  private mapStatusFromApi(apiStatus: string): DeliveryStatusType {
+    switch ((apiStatus || '').toLowerCase()) {
+      case 'delivered':
+        return 'delivered';
+      case 'failed':
+        return 'failed';
+      case 'sent':
+        return 'sent';
+      default:
+        return 'pending';
+    }
+  }
+
+  // Redis key helpers
+  private getMessageKey(messageId: string): string {
+    return `sms:sandbox:message:${messageId}`;
+  }
+
+  // Keyed by digits so "+44 7700 900000" and "447700900000" find the same inbox
+  private getPhoneKey(phone: string): string {
+    return `sms:sandbox:phone:${phone.replace(/\D/g, '')}`;
+  }
+}
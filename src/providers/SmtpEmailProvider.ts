@@ -0,0 +1,87 @@
+/**
+ * SMTP Email Provider Implementation
+ * Implements IEmailProvider over SMTP using nodemailer
+ */
+
+import nodemailer, { Transporter } from 'nodemailer';
+import { logger } from '../config/logger.js';
+import { IEmailProvider, SendEmailParams, SendEmailResult } from './IEmailProvider.js';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+export class SmtpEmailProvider implements IEmailProvider {
+  readonly name = 'smtp';
+  readonly priority = 1;
+
+  private readonly transporter: Transporter;
+  private readonly fromAddress: string;
+
+  constructor(smtpConfig: SmtpConfig, fromAddress: string) {
+    if (!smtpConfig.host) {
+      throw new Error('SMTP host is required');
+    }
+    if (!fromAddress) {
+      throw new Error('Email from address is required');
+    }
+
+    this.fromAddress = fromAddress;
+    this.transporter = nodemailer.createTransport({
+      host: smtpConfig.host,
+      port: smtpConfig.port,
+      secure: smtpConfig.secure,
+      auth: smtpConfig.user
+        ? { user: smtpConfig.user, pass: smtpConfig.pass }
+        : undefined
+    });
+  }
+
+  async sendEmail(params: SendEmailParams): Promise<SendEmailResult> {
+    try {
+      logger.info('Sending email via SMTP', {
+        provider: this.name,
+        to: params.to
+      });
+
+      const info = await this.transporter.sendMail({
+        from: params.from || this.fromAddress,
+        to: params.to,
+        subject: params.subject,
+        text: params.text,
+        html: params.html
+      });
+
+      logger.info('Email sent successfully via SMTP', {
+        provider: this.name,
+        messageId: info.messageId,
+        to: params.to
+      });
+
+      return {
+        success: true,
+        messageId: info.messageId,
+        provider: this.name
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+      logger.error('Failed to send email via SMTP', {
+        provider: this.name,
+        to: params.to,
+        error: errorMessage
+      });
+
+      return {
+        success: false,
+        messageId: '',
+        provider: this.name,
+        error: errorMessage
+      };
+    }
+  }
+}
@@ -1,6 +1,6 @@
 /**
  * Twilio Provider Implementation
- * Implements ISMSProvider for Twilio API
+ * Implements ISMSProvider for Twilio API, and IVoiceProvider through Twilio Voice
  * Configured as secondary provider with priority 2
  */
 
@@ -14,8 +14,17 @@ import {
     SendSMSParams,
     SendSMSResult
 } from './ISMSProvider.js';
+import { IVoiceProvider, VoiceCallParams, VoiceCallResult } from './IVoiceProvider.js';
 
-export class TwilioProvider implements ISMSProvider {
+// Twilio <Say> locales for the languages the spoken OTP message is translated into
+const VOICE_LOCALES: Record<string, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  fr: 'fr-FR',
+  de: 'de-DE'
+};
+
+export class TwilioProvider implements ISMSProvider, IVoiceProvider {
   readonly name = 'twilio';
   readonly priority = 2; // Secondary provider
   
@@ -96,10 +105,16 @@ export class TwilioProvider implements ISMSProvider {
         to: params.to
       });
       
+      // Twilio prices are negative (a debit) and often still null until the message is sent
+      const cost = Math.abs(parseFloat(response.data.price));
+      const segments = parseInt(response.data.num_segments, 10);
+      
       return {
         success: true,
         messageId,
-        provider: this.name
+        provider: this.name,
+        ...(Number.isFinite(segments) && { segments }),
+        ...(Number.isFinite(cost) && { cost, currency: (response.data.price_unit || 'USD').toUpperCase() })
       };
       
     } catch (error) {
@@ -124,6 +139,96 @@ export class TwilioProvider implements ISMSProvider {
     }
   }
   
+  /**
+   * Read the message out in a text-to-speech call using inline TwiML
+   */
+  async makeCall(params: VoiceCallParams): Promise<VoiceCallResult> {
+    try {
+      logger.info('Placing voice call via Twilio', {
+        provider: this.name,
+        to: params.to,
+        language: params.language || 'en'
+      });
+
+      const locale = VOICE_LOCALES[params.language || 'en'] || VOICE_LOCALES.en;
+
+      const formData = new URLSearchParams();
+      formData.append('To', params.to);
+      formData.append('From', params.from || this.fromNumber);
+      formData.append(
+        'Twiml',
+        `<Response><Say language="${locale}">${escapeXml(params.message)}</Say></Response>`
+      );
+
+      if (params.callbackUrl) {
+        formData.append('StatusCallback', params.callbackUrl);
+      }
+
+      const response = await axios.post(
+        `${this.apiBaseUrl}/Calls.json`,
+        formData.toString(),
+        {
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded'
+          },
+          auth: {
+            username: this.accountSid,
+            password: this.authToken
+          },
+          timeout: 10000
+        }
+      );
+
+      const callId = response.data.sid;
+
+      if (!callId) {
+        logger.error('Twilio response missing call SID', {
+          provider: this.name,
+          response: response.data
+        });
+
+        return {
+          success: false,
+          messageId: '',
+          provider: this.name,
+          error: 'Invalid response from voice provider'
+        };
+      }
+
+      logger.info('Voice call placed successfully via Twilio', {
+        provider: this.name,
+        callId,
+        to: params.to
+      });
+
+      return {
+        success: true,
+        messageId: callId,
+        provider: this.name
+      };
+
+    } catch (error) {
+      const axiosError = error as AxiosError;
+      const errorMessage = axiosError.response?.data
+        ? JSON.stringify(axiosError.response.data)
+        : axiosError.message;
+
+      logger.error('Failed to place voice call via Twilio', {
+        provider: this.name,
+        error: errorMessage,
+        to: params.to,
+        statusCode: axiosError.response?.status
+      });
+
+      return {
+        success: false,
+        messageId: '',
+        provider: this.name,
+        error: `Voice provider error: ${errorMessage}`
+      };
+    }
+  }
+  
   async checkDeliveryStatus(messageId: string): Promise<DeliveryStatus> {
     try {
       logger.info('Checking delivery status via Twilio', {
@@ -245,3 +350,12 @@ export class TwilioProvider implements ISMSProvider {
     }
   }
 }
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,161 @@
+/**
+ * Tests for AppleOAuthProvider
+ * Covers the ES256 client secret, ID token verification and the first-login user payload
+ */
+
+import axios from 'axios';
+import { generateKeyPairSync } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { AppleOAuthProvider, parseAppleCallbackUser } from '../AppleOAuthProvider.js';
+
+// Mock axios and logger
+jest.mock('axios');
+jest.mock('../../config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+// Stand-in for the team's .p8 key
+const teamKey = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+// Stand-in for Apple's ID token signing key
+const appleKey = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const appleJwk = { ...appleKey.publicKey.export({ format: 'jwk' }), kid: 'apple-kid', alg: 'RS256', use: 'sig' };
+
+function signIdToken(claims: Record<string, unknown>, options: jwt.SignOptions = {}): string {
+  return jwt.sign(claims, appleKey.privateKey, {
+    algorithm: 'RS256',
+    keyid: 'apple-kid',
+    issuer: 'https://appleid.apple.com',
+    audience: 'com.example.signin',
+    expiresIn: 600,
+    ...options
+  });
+}
+
+describe('AppleOAuthProvider', () => {
+  let provider: AppleOAuthProvider;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    provider = new AppleOAuthProvider(
+      'com.example.signin',
+      'TEAM123456',
+      'KEY1234567',
+      teamKey.privateKey.export({ format: 'pem', type: 'pkcs8' }).toString()
+    );
+    mockedAxios.get.mockResolvedValue({ data: { keys: [appleJwk] } });
+  });
+
+  it('should require every credential', () => {
+    expect(() => new AppleOAuthProvider('', 'team', 'key', 'pem')).toThrow('client ID');
+    expect(() => new AppleOAuthProvider('client', 'team', 'key', '')).toThrow('private key');
+  });
+
+  it('should request the form_post response mode with name and email scopes', () => {
+    const url = new URL(provider.getAuthorizationUrl(
+      { state: 'state-123', codeChallenge: 'challenge-123', nonce: 'nonce-123' },
+      'https://app.example.com/callback'
+    ));
+
+    expect(url.origin + url.pathname).toBe('https://appleid.apple.com/auth/authorize');
+    expect(url.searchParams.get('response_mode')).toBe('form_post');
+    expect(url.searchParams.get('scope')).toBe('name email');
+    expect(url.searchParams.get('state')).toBe('state-123');
+    expect(url.searchParams.get('nonce')).toBe('nonce-123');
+  });
+
+  it('should send an ES256 client secret signed with the team key', async () => {
+    mockedAxios.post.mockResolvedValueOnce({
+      data: { access_token: 'at', refresh_token: 'rt', expires_in: 3600, token_type: 'Bearer', id_token: 'idt' }
+    });
+
+    const tokens = await provider.exchangeCodeForToken('code-123', 'https://app.example.com/callback', 'verifier');
+
+    expect(tokens.idToken).toBe('idt');
+
+    const body = mockedAxios.post.mock.calls[0][1] as Record<string, string>;
+    const secret = jwt.verify(body.client_secret, teamKey.publicKey, {
+      algorithms: ['ES256'],
+      complete: true
+    }) as jwt.Jwt;
+    const payload = secret.payload as jwt.JwtPayload;
+
+    expect(secret.header.kid).toBe('KEY1234567');
+    expect(payload.iss).toBe('TEAM123456');
+    expect(payload.sub).toBe('com.example.signin');
+    expect(payload.aud).toBe('https://appleid.apple.com');
+  });
+
+  it('should reuse the client secret until it nears expiry', async () => {
+    mockedAxios.post.mockResolvedValue({
+      data: { access_token: 'at', expires_in: 3600, token_type: 'Bearer' }
+    });
+
+    await provider.exchangeCodeForToken('code-1', 'https://app.example.com/callback', 'verifier');
+    await provider.exchangeCodeForToken('code-2', 'https://app.example.com/callback', 'verifier');
+
+    const [first, second] = mockedAxios.post.mock.calls.map(call => (call[1] as Record<string, string>).client_secret);
+    expect(second).toBe(first);
+  });
+
+  it('should map a verified ID token to a profile, accepting string booleans', async () => {
+    const idToken = signIdToken({ sub: 'apple-user-1', email: 'jane@example.com', email_verified: 'true' });
+
+    const profile = await provider.getUserProfile('at', idToken);
+
+    expect(profile).toEqual({
+      id: 'apple-user-1',
+      email: 'jane@example.com',
+      emailVerified: true,
+      isPrivateEmail: false
+    });
+  });
+
+  it('should flag private relay addresses', async () => {
+    const idToken = signIdToken({
+      sub: 'apple-user-2',
+      email: 'abc123@privaterelay.appleid.com',
+      is_private_email: 'true'
+    });
+
+    const profile = await provider.getUserProfile('at', idToken);
+
+    expect(profile.isPrivateEmail).toBe(true);
+    expect(profile.emailVerified).toBe(true);
+  });
+
+  it('should reject ID tokens issued for another client', async () => {
+    const idToken = signIdToken({ sub: 'apple-user-1', email: 'jane@example.com' }, { audience: 'com.other.app' });
+
+    await expect(provider.getUserProfile('at', idToken)).rejects.toThrow('Invalid Apple ID token');
+  });
+
+  it('should reject ID tokens signed with an unknown key', async () => {
+    const idToken = signIdToken({ sub: 'apple-user-1', email: 'jane@example.com' }, { keyid: 'rotated-kid' });
+
+    await expect(provider.getUserProfile('at', idToken)).rejects.toThrow('unknown key');
+  });
+
+  it('should fail without an ID token', async () => {
+    await expect(provider.getUserProfile('at')).rejects.toThrow('did not return an ID token');
+  });
+
+  describe('parseAppleCallbackUser', () => {
+    it('should read the name from the posted JSON', () => {
+      const user = JSON.stringify({ name: { firstName: 'Jane', lastName: 'Doe' }, email: 'jane@example.com' });
+
+      expect(parseAppleCallbackUser(user)).toEqual({ firstName: 'Jane', lastName: 'Doe' });
+    });
+
+    it('should ignore missing or malformed payloads', () => {
+      expect(parseAppleCallbackUser(undefined)).toBeUndefined();
+      expect(parseAppleCallbackUser('not json')).toBeUndefined();
+      expect(parseAppleCallbackUser(JSON.stringify({ email: 'jane@example.com' }))).toBeUndefined();
+    });
+  });
+});
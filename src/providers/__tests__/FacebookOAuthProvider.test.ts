@@ -0,0 +1,107 @@
+/**
+ * Tests for FacebookOAuthProvider
+ * Covers the code exchange, Graph profile mapping and users who decline the email permission
+ */
+
+import axios from 'axios';
+import { createHmac } from 'crypto';
+import { FacebookOAuthProvider } from '../FacebookOAuthProvider.js';
+
+// Mock axios and logger
+jest.mock('axios');
+jest.mock('../../config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('FacebookOAuthProvider', () => {
+  let provider: FacebookOAuthProvider;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    provider = new FacebookOAuthProvider('test-app-id', 'test-app-secret');
+  });
+
+  it('should require the app ID and secret', () => {
+    expect(() => new FacebookOAuthProvider('', 'secret')).toThrow('app ID');
+    expect(() => new FacebookOAuthProvider('app', '')).toThrow('app secret');
+  });
+
+  it('should request the email and public_profile permissions with a PKCE challenge', () => {
+    const url = new URL(provider.getAuthorizationUrl(
+      { state: 'state-123', codeChallenge: 'challenge-123', nonce: 'nonce-123' },
+      'https://app.example.com/callback'
+    ));
+
+    expect(url.hostname).toBe('www.facebook.com');
+    expect(url.searchParams.get('scope')).toBe('email,public_profile');
+    expect(url.searchParams.get('state')).toBe('state-123');
+    expect(url.searchParams.get('code_challenge')).toBe('challenge-123');
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+  });
+
+  it('should exchange the code for an access token', async () => {
+    mockedAxios.get.mockResolvedValueOnce({
+      data: { access_token: 'fb-token', token_type: 'bearer', expires_in: 5183944 }
+    });
+
+    const tokens = await provider.exchangeCodeForToken('code-123', 'https://app.example.com/callback', 'verifier-123');
+
+    expect(tokens).toEqual({ accessToken: 'fb-token', tokenType: 'bearer', expiresIn: 5183944 });
+    expect(mockedAxios.get.mock.calls[0][1]?.params).toMatchObject({
+      client_id: 'test-app-id',
+      code: 'code-123',
+      redirect_uri: 'https://app.example.com/callback',
+      code_verifier: 'verifier-123'
+    });
+  });
+
+  it('should map the Graph profile and sign the request with an appsecret_proof', async () => {
+    mockedAxios.get.mockResolvedValueOnce({
+      data: {
+        id: 'fb-1',
+        email: 'jane@example.com',
+        first_name: 'Jane',
+        last_name: 'Doe',
+        picture: { data: { url: 'https://graph.facebook.com/pic.jpg' } }
+      }
+    });
+
+    const profile = await provider.getUserProfile('fb-token');
+
+    expect(profile).toEqual({
+      id: 'fb-1',
+      email: 'jane@example.com',
+      firstName: 'Jane',
+      lastName: 'Doe',
+      avatar: 'https://graph.facebook.com/pic.jpg',
+      emailVerified: true
+    });
+    expect(mockedAxios.get.mock.calls[0][1]?.params.appsecret_proof).toBe(
+      createHmac('sha256', 'test-app-secret').update('fb-token').digest('hex')
+    );
+  });
+
+  it('should return an empty, unverified email when the permission was declined', async () => {
+    mockedAxios.get.mockResolvedValueOnce({
+      data: { id: 'fb-2', first_name: 'John', last_name: 'Roe' }
+    });
+
+    const profile = await provider.getUserProfile('fb-token');
+
+    expect(profile.email).toBe('');
+    expect(profile.emailVerified).toBe(false);
+    expect(profile.firstName).toBe('John');
+  });
+
+  it('should surface Graph API failures', async () => {
+    mockedAxios.get.mockRejectedValueOnce(new Error('Request failed with status code 400'));
+
+    await expect(provider.getUserProfile('expired-token')).rejects.toThrow('Failed to fetch user profile');
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Tests for MessageBirdProvider
+ * Responses are recorded from the MessageBird SMS API and its status reports
+ */
+
+import axios from 'axios';
+import { SendSMSParams } from '../ISMSProvider.js';
+import { MessageBirdProvider } from '../MessageBirdProvider.js';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const messageResponse = {
+  id: 'e8077d803532c0b5937c639b60216938',
+  href: 'https://rest.messagebird.com/messages/e8077d803532c0b5937c639b60216938',
+  direction: 'mt',
+  type: 'sms',
+  originator: 'MyShop',
+  body: 'Your OTP is 123456',
+  reference: null,
+  validity: null,
+  gateway: 10,
+  typeDetails: {},
+  datacoding: 'plain',
+  mclass: 1,
+  scheduledDatetime: null,
+  createdDatetime: '2024-01-15T10:30:00+00:00',
+  recipients: {
+    totalCount: 1,
+    totalSentCount: 1,
+    totalDeliveredCount: 0,
+    totalDeliveryFailedCount: 0,
+    items: [
+      {
+        recipient: 447700900000,
+        status: 'sent',
+        statusDatetime: '2024-01-15T10:30:00+00:00',
+        messagePartCount: 1
+      }
+    ]
+  }
+};
+
+const deliveredReport = {
+  id: 'e8077d803532c0b5937c639b60216938',
+  reference: '',
+  recipient: '447700900000',
+  status: 'delivered',
+  statusDatetime: '2024-01-15T10:30:05+00:00',
+  mccmnc: '23410',
+  ported: '0',
+  messagePartCount: '1'
+};
+
+describe('MessageBirdProvider', () => {
+  let provider: MessageBirdProvider;
+  const accessKey = 'test_access_key';
+  const originator = 'MyShop';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    provider = new MessageBirdProvider(accessKey, originator);
+  });
+
+  describe('constructor', () => {
+    it('should create provider with correct name and priority', () => {
+      expect(provider.name).toBe('messagebird');
+      expect(provider.priority).toBe(6);
+    });
+
+    it('should throw error if accessKey is missing', () => {
+      expect(() => new MessageBirdProvider('', originator)).toThrow('MessageBird access key is required');
+    });
+
+    it('should throw error if originator is missing', () => {
+      expect(() => new MessageBirdProvider(accessKey, '')).toThrow('MessageBird originator is required');
+    });
+  });
+
+  describe('sendSMS', () => {
+    const params: SendSMSParams = {
+      to: '+447700900000',
+      message: 'Your OTP is 123456',
+      callbackUrl: 'https://example.com/webhook'
+    };
+
+    it('should send SMS successfully', async () => {
+      mockedAxios.post.mockResolvedValue({ data: messageResponse });
+
+      const result = await provider.sendSMS(params);
+
+      expect(result.success).toBe(true);
+      expect(result.messageId).toBe('e8077d803532c0b5937c639b60216938');
+      expect(result.provider).toBe('messagebird');
+      expect(result.error).toBeUndefined();
+
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'https://rest.messagebird.com/messages',
+        {
+          originator,
+          recipients: ['447700900000'],
+          body: params.message,
+          reportUrl: params.callbackUrl
+        },
+        expect.objectContaining({
+          headers: {
+            'Authorization': `AccessKey ${accessKey}`,
+            'Content-Type': 'application/json'
+          }
+        })
+      );
+    });
+
+    it('should handle missing message ID in response', async () => {
+      mockedAxios.post.mockResolvedValue({ data: {} });
+
+      const result = await provider.sendSMS(params);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid response from SMS provider');
+    });
+
+    it('should handle API errors', async () => {
+      mockedAxios.post.mockRejectedValue({
+        response: {
+          status: 422,
+          data: { errors: [{ code: 9, description: 'no (correct) recipients found', parameter: 'recipients' }] }
+        },
+        message: 'Request failed'
+      });
+
+      const result = await provider.sendSMS(params);
+
+      expect(result.success).toBe(false);
+      expect(result.provider).toBe('messagebird');
+      expect(result.error).toContain('no (correct) recipients found');
+    });
+  });
+
+  describe('checkDeliveryStatus', () => {
+    const messageId = 'e8077d803532c0b5937c639b60216938';
+
+    it('should check delivery status successfully', async () => {
+      mockedAxios.get.mockResolvedValue({ data: messageResponse });
+
+      const result = await provider.checkDeliveryStatus(messageId);
+
+      expect(result.messageId).toBe(messageId);
+      expect(result.status).toBe('sent');
+      expect(result.timestamp).toEqual(new Date('2024-01-15T10:30:00Z'));
+      expect(result.error).toBeUndefined();
+
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        `https://rest.messagebird.com/messages/${messageId}`,
+        expect.objectContaining({
+          headers: { 'Authorization': `AccessKey ${accessKey}` }
+        })
+      );
+    });
+
+    it('should handle API errors when checking status', async () => {
+      mockedAxios.get.mockRejectedValue(new Error('Network error'));
+
+      const result = await provider.checkDeliveryStatus(messageId);
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toBe('Failed to check delivery status');
+    });
+
+    it('should map MessageBird statuses correctly', async () => {
+      const statusMappings = [
+        { messageBirdStatus: 'scheduled', expectedStatus: 'pending' },
+        { messageBirdStatus: 'sent', expectedStatus: 'sent' },
+        { messageBirdStatus: 'buffered', expectedStatus: 'sent' },
+        { messageBirdStatus: 'delivered', expectedStatus: 'delivered' },
+        { messageBirdStatus: 'expired', expectedStatus: 'failed' },
+        { messageBirdStatus: 'delivery_failed', expectedStatus: 'failed' }
+      ];
+
+      for (const mapping of statusMappings) {
+        const recipient = { ...messageResponse.recipients.items[0], status: mapping.messageBirdStatus };
+        mockedAxios.get.mockResolvedValue({
+          data: { ...messageResponse, recipients: { ...messageResponse.recipients, items: [recipient] } }
+        });
+
+        const result = await provider.checkDeliveryStatus(messageId);
+        expect(result.status).toBe(mapping.expectedStatus);
+      }
+    });
+  });
+
+  describe('handleWebhook', () => {
+    it('should parse MessageBird status report correctly', () => {
+      const result = provider.handleWebhook(deliveredReport);
+
+      expect(result.messageId).toBe('e8077d803532c0b5937c639b60216938');
+      expect(result.status).toBe('delivered');
+      expect(result.deliveredAt).toEqual(new Date('2024-01-15T10:30:05Z'));
+      expect(result.failureReason).toBeUndefined();
+    });
+
+    it('should include the error code and reason for failed messages', () => {
+      const result = provider.handleWebhook({
+        ...deliveredReport,
+        status: 'delivery_failed',
+        statusReason: 'unknown subscriber',
+        statusErrorCode: '1'
+      });
+
+      expect(result.status).toBe('failed');
+      expect(result.failureReason).toBe('Error 1: unknown subscriber');
+    });
+
+    it('should throw error for invalid webhook payload', () => {
+      expect(() => provider.handleWebhook({ status: 'delivered' })).toThrow('Invalid webhook payload');
+    });
+  });
+});
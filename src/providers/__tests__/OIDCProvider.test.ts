@@ -0,0 +1,209 @@
+/**
+ * Tests for OIDCProvider
+ * Covers discovery, JWKS-based ID token validation and the userinfo fallback
+ */
+
+import axios from 'axios';
+import { generateKeyPairSync } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { OIDCDiscoveryDocument, OIDCProvider, fetchDiscoveryDocument } from '../OIDCProvider.js';
+
+// Mock axios and logger
+jest.mock('axios');
+jest.mock('../../config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const ISSUER = 'https://idp.example.com';
+
+const flowParams = { state: 'state-123', codeChallenge: 'challenge-123', nonce: 'nonce-123' };
+
+const discovery: OIDCDiscoveryDocument = {
+  issuer: ISSUER,
+  authorization_endpoint: `${ISSUER}/authorize`,
+  token_endpoint: `${ISSUER}/token`,
+  jwks_uri: `${ISSUER}/jwks`,
+  userinfo_endpoint: `${ISSUER}/userinfo`
+};
+
+// Stand-in for the identity provider's signing key
+const idpKey = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const idpJwk = { ...idpKey.publicKey.export({ format: 'jwk' }), kid: 'idp-kid', alg: 'RS256', use: 'sig' };
+
+function signIdToken(claims: Record<string, unknown>, options: jwt.SignOptions = {}): string {
+  return jwt.sign(claims, idpKey.privateKey, {
+    algorithm: 'RS256',
+    keyid: 'idp-kid',
+    issuer: ISSUER,
+    audience: 'client-123',
+    expiresIn: 600,
+    ...options
+  });
+}
+
+describe('OIDCProvider', () => {
+  let provider: OIDCProvider;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    provider = new OIDCProvider(
+      { name: 'oidc-okta', issuer: ISSUER, clientId: 'client-123', clientSecret: 'secret-123' },
+      discovery
+    );
+    mockedAxios.get.mockImplementation(async (url: string) => {
+      if (url === discovery.jwks_uri) {
+        return { data: { keys: [idpJwk] } };
+      }
+      throw new Error(`Unexpected request to ${url}`);
+    });
+  });
+
+  it('should require a client ID and secret', () => {
+    expect(() => new OIDCProvider({ name: 'oidc-x', issuer: ISSUER, clientId: '', clientSecret: 's' }, discovery))
+      .toThrow('client ID');
+    expect(() => new OIDCProvider({ name: 'oidc-x', issuer: ISSUER, clientId: 'c', clientSecret: '' }, discovery))
+      .toThrow('client secret');
+  });
+
+  it('should build the authorization URL from the discovery document', () => {
+    const url = new URL(provider.getAuthorizationUrl(flowParams, 'https://app.example.com/callback'));
+
+    expect(url.origin + url.pathname).toBe(`${ISSUER}/authorize`);
+    expect(url.searchParams.get('scope')).toBe('openid email profile');
+    expect(url.searchParams.get('state')).toBe('state-123');
+    expect(url.searchParams.get('code_challenge')).toBe('challenge-123');
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('nonce')).toBe('nonce-123');
+  });
+
+  it('should send the PKCE code verifier with the code exchange', async () => {
+    mockedAxios.post.mockResolvedValueOnce({
+      data: { access_token: 'at', expires_in: 3600, token_type: 'Bearer', id_token: 'idt' }
+    });
+
+    const tokens = await provider.exchangeCodeForToken('code-123', 'https://app.example.com/callback', 'verifier-123');
+
+    expect(tokens.idToken).toBe('idt');
+    expect(mockedAxios.post.mock.calls[0][0]).toBe(`${ISSUER}/token`);
+    expect(mockedAxios.post.mock.calls[0][1]).toMatchObject({
+      code: 'code-123',
+      code_verifier: 'verifier-123',
+      grant_type: 'authorization_code'
+    });
+  });
+
+  it('should always request the openid scope', () => {
+    const custom = new OIDCProvider(
+      { name: 'oidc-x', issuer: ISSUER, clientId: 'c', clientSecret: 's', scopes: ['email'] },
+      discovery
+    );
+
+    expect(custom.scopes).toEqual(['openid', 'email']);
+  });
+
+  it('should discover endpoints from the issuer', async () => {
+    mockedAxios.get.mockResolvedValueOnce({ data: discovery });
+
+    const discovered = await OIDCProvider.discover({
+      name: 'oidc-okta',
+      issuer: `${ISSUER}/`,
+      clientId: 'client-123',
+      clientSecret: 'secret-123'
+    });
+
+    expect(mockedAxios.get).toHaveBeenCalledWith(`${ISSUER}/.well-known/openid-configuration`, expect.any(Object));
+    expect(discovered.getAuthorizationUrl(flowParams, 'https://app.example.com/callback'))
+      .toContain(`${ISSUER}/authorize?`);
+  });
+
+  it('should reject a discovery document for a different issuer', async () => {
+    mockedAxios.get.mockResolvedValueOnce({ data: { ...discovery, issuer: 'https://evil.example.com' } });
+
+    await expect(fetchDiscoveryDocument(ISSUER)).rejects.toThrow('issuer mismatch');
+  });
+
+  it('should reject issuers that are not HTTPS', async () => {
+    await expect(fetchDiscoveryDocument('http://idp.example.com')).rejects.toThrow('HTTPS');
+  });
+
+  it('should build the profile from a verified ID token', async () => {
+    const idToken = signIdToken({
+      sub: 'user-1',
+      email: 'staff@b2b.example.com',
+      email_verified: true,
+      given_name: 'Jane',
+      family_name: 'Doe'
+    });
+
+    const profile = await provider.getUserProfile('access-token', idToken);
+
+    expect(profile).toEqual({
+      id: 'user-1',
+      email: 'staff@b2b.example.com',
+      firstName: 'Jane',
+      lastName: 'Doe',
+      phone: undefined,
+      avatar: undefined,
+      emailVerified: true
+    });
+  });
+
+  it('should reject ID tokens issued for another client', async () => {
+    const idToken = signIdToken({ sub: 'user-1', email: 'a@example.com' }, { audience: 'other-client' });
+
+    await expect(provider.getUserProfile('access-token', idToken)).rejects.toThrow('Invalid OIDC ID token');
+  });
+
+  it('should reject ID tokens from another issuer', async () => {
+    const idToken = signIdToken({ sub: 'user-1', email: 'a@example.com' }, { issuer: 'https://evil.example.com' });
+
+    await expect(provider.getUserProfile('access-token', idToken)).rejects.toThrow('Invalid OIDC ID token');
+  });
+
+  it('should reject HMAC-signed ID tokens', async () => {
+    const idToken = jwt.sign({ sub: 'user-1', email: 'a@example.com' }, 'secret-123', {
+      algorithm: 'HS256',
+      keyid: 'idp-kid',
+      issuer: ISSUER,
+      audience: 'client-123'
+    });
+
+    await expect(provider.getUserProfile('access-token', idToken)).rejects.toThrow('Invalid OIDC ID token');
+  });
+
+  it('should fall back to the userinfo endpoint when the ID token has no email', async () => {
+    mockedAxios.get.mockImplementation(async (url: string) => {
+      if (url === discovery.jwks_uri) {
+        return { data: { keys: [idpJwk] } };
+      }
+      return { data: { sub: 'user-1', email: 'staff@b2b.example.com', email_verified: 'true' } };
+    });
+
+    const profile = await provider.getUserProfile('access-token', signIdToken({ sub: 'user-1' }));
+
+    expect(profile.email).toBe('staff@b2b.example.com');
+    expect(profile.emailVerified).toBe(true);
+    expect(mockedAxios.get).toHaveBeenCalledWith(discovery.userinfo_endpoint, {
+      headers: { Authorization: 'Bearer access-token' },
+      timeout: 10000
+    });
+  });
+
+  it('should reject a userinfo response for another subject', async () => {
+    mockedAxios.get.mockImplementation(async (url: string) => {
+      if (url === discovery.jwks_uri) {
+        return { data: { keys: [idpJwk] } };
+      }
+      return { data: { sub: 'someone-else', email: 'other@example.com' } };
+    });
+
+    await expect(provider.getUserProfile('access-token', signIdToken({ sub: 'user-1' })))
+      .rejects.toThrow('Failed to fetch user profile');
+  });
+});
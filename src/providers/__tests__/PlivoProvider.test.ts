@@ -0,0 +1,217 @@
+/**
+ * Tests for PlivoProvider
+ * Responses are recorded from the Plivo Message API and its status callbacks
+ */
+
+import axios from 'axios';
+import { SendSMSParams } from '../ISMSProvider.js';
+import { PlivoProvider } from '../PlivoProvider.js';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const sendResponse = {
+  api_id: '3e9fa4f0-6d1b-11ee-b1d4-0242ac110003',
+  message: 'message(s) queued',
+  message_uuid: ['db3ce55a-7f1d-11e1-8ea7-1231380bc196']
+};
+
+const messageResponse = {
+  api_id: '035eeada-6df1-11ee-b1d4-0242ac110003',
+  error_code: '0',
+  from_number: '14155550100',
+  message_direction: 'outbound',
+  message_state: 'delivered',
+  message_time: '2024-01-15 10:30:05+00:00',
+  message_type: 'sms',
+  message_uuid: 'db3ce55a-7f1d-11e1-8ea7-1231380bc196',
+  to_number: '447700900000',
+  total_amount: '0.04000',
+  units: 1
+};
+
+const deliveredCallback = {
+  From: '14155550100',
+  To: '447700900000',
+  MessageUUID: 'db3ce55a-7f1d-11e1-8ea7-1231380bc196',
+  Status: 'delivered',
+  ErrorCode: '0',
+  TotalAmount: '0.04000',
+  Units: '1'
+};
+
+describe('PlivoProvider', () => {
+  let provider: PlivoProvider;
+  const authId = 'MAXXXXXXXXXXXXXXXXXX';
+  const authToken = 'test_auth_token';
+  const from = '+14155550100';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    provider = new PlivoProvider(authId, authToken, from);
+  });
+
+  describe('constructor', () => {
+    it('should create provider with correct name and priority', () => {
+      expect(provider.name).toBe('plivo');
+      expect(provider.priority).toBe(5);
+    });
+
+    it('should throw error if authId is missing', () => {
+      expect(() => new PlivoProvider('', authToken, from)).toThrow('Plivo Auth ID is required');
+    });
+
+    it('should throw error if authToken is missing', () => {
+      expect(() => new PlivoProvider(authId, '', from)).toThrow('Plivo Auth Token is required');
+    });
+
+    it('should throw error if from is missing', () => {
+      expect(() => new PlivoProvider(authId, authToken, '')).toThrow('Plivo sender is required');
+    });
+  });
+
+  describe('sendSMS', () => {
+    const params: SendSMSParams = {
+      to: '+447700900000',
+      message: 'Your OTP is 123456',
+      callbackUrl: 'https://example.com/webhook'
+    };
+
+    it('should send SMS successfully', async () => {
+      mockedAxios.post.mockResolvedValue({ data: sendResponse });
+
+      const result = await provider.sendSMS(params);
+
+      expect(result.success).toBe(true);
+      expect(result.messageId).toBe('db3ce55a-7f1d-11e1-8ea7-1231380bc196');
+      expect(result.provider).toBe('plivo');
+      expect(result.error).toBeUndefined();
+
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        `https://api.plivo.com/v1/Account/${authId}/Message/`,
+        {
+          src: from,
+          dst: params.to,
+          text: params.message,
+          url: params.callbackUrl,
+          method: 'POST'
+        },
+        expect.objectContaining({
+          auth: {
+            username: authId,
+            password: authToken
+          }
+        })
+      );
+    });
+
+    it('should handle missing message UUID in response', async () => {
+      mockedAxios.post.mockResolvedValue({ data: { ...sendResponse, message_uuid: [] } });
+
+      const result = await provider.sendSMS(params);
+
+      expect(result.success).toBe(false);
+      expect(result.messageId).toBe('');
+      expect(result.error).toBe('Invalid response from SMS provider');
+    });
+
+    it('should handle API errors', async () => {
+      mockedAxios.post.mockRejectedValue({
+        response: {
+          status: 400,
+          data: { api_id: '4f9a5e8e-6d1b-11ee-b1d4-0242ac110003', error: 'dst parameter not specified' }
+        },
+        message: 'Request failed'
+      });
+
+      const result = await provider.sendSMS(params);
+
+      expect(result.success).toBe(false);
+      expect(result.provider).toBe('plivo');
+      expect(result.error).toContain('dst parameter not specified');
+    });
+  });
+
+  describe('checkDeliveryStatus', () => {
+    const messageId = 'db3ce55a-7f1d-11e1-8ea7-1231380bc196';
+
+    it('should check delivery status successfully', async () => {
+      mockedAxios.get.mockResolvedValue({ data: messageResponse });
+
+      const result = await provider.checkDeliveryStatus(messageId);
+
+      expect(result.messageId).toBe(messageId);
+      expect(result.status).toBe('delivered');
+      expect(result.timestamp).toEqual(new Date('2024-01-15T10:30:05Z'));
+      expect(result.error).toBeUndefined();
+
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        `https://api.plivo.com/v1/Account/${authId}/Message/${messageId}/`,
+        expect.objectContaining({
+          auth: {
+            username: authId,
+            password: authToken
+          }
+        })
+      );
+    });
+
+    it('should report the error code of an undelivered message', async () => {
+      mockedAxios.get.mockResolvedValue({
+        data: { ...messageResponse, message_state: 'undelivered', error_code: '30' }
+      });
+
+      const result = await provider.checkDeliveryStatus(messageId);
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toBe('Error 30');
+    });
+
+    it('should handle API errors when checking status', async () => {
+      mockedAxios.get.mockRejectedValue(new Error('Network error'));
+
+      const result = await provider.checkDeliveryStatus(messageId);
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toBe('Failed to check delivery status');
+    });
+  });
+
+  describe('handleWebhook', () => {
+    it('should parse Plivo status callback correctly', () => {
+      const result = provider.handleWebhook(deliveredCallback);
+
+      expect(result.messageId).toBe('db3ce55a-7f1d-11e1-8ea7-1231380bc196');
+      expect(result.status).toBe('delivered');
+      expect(result.deliveredAt).toBeInstanceOf(Date);
+      expect(result.failureReason).toBeUndefined();
+    });
+
+    it('should include the error code for failed messages', () => {
+      const result = provider.handleWebhook({ ...deliveredCallback, Status: 'failed', ErrorCode: '200' });
+
+      expect(result.status).toBe('failed');
+      expect(result.failureReason).toBe('Error 200');
+    });
+
+    it('should throw error for invalid webhook payload', () => {
+      expect(() => provider.handleWebhook({ Status: 'delivered' })).toThrow('Invalid webhook payload');
+    });
+
+    it('should map webhook statuses correctly', () => {
+      const statusMappings = [
+        { plivoStatus: 'queued', expectedStatus: 'pending' },
+        { plivoStatus: 'sent', expectedStatus: 'sent' },
+        { plivoStatus: 'delivered', expectedStatus: 'delivered' },
+        { plivoStatus: 'undelivered', expectedStatus: 'failed' },
+        { plivoStatus: 'failed', expectedStatus: 'failed' },
+        { plivoStatus: 'rejected', expectedStatus: 'failed' }
+      ];
+
+      for (const mapping of statusMappings) {
+        const result = provider.handleWebhook({ ...deliveredCallback, Status: mapping.plivoStatus });
+        expect(result.status).toBe(mapping.expectedStatus);
+      }
+    });
+  });
+});
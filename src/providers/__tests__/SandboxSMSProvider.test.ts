@@ -0,0 +1,142 @@
+/**
+ * Tests for SandboxSMSProvider
+ */
+
+import axios from 'axios';
+import Redis from 'ioredis-mock';
+import { SandboxSMSProvider } from '../SandboxSMSProvider.js';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+jest.mock('../../config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+describe('SandboxSMSProvider', () => {
+  let redis: Redis;
+  let provider: SandboxSMSProvider;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    redis = new Redis();
+    provider = new SandboxSMSProvider(redis, {
+      dlrUrl: 'http://localhost:3000/api/webhooks/sms-dlr',
+      dlrDelayMs: 1000
+    });
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await redis.flushall();
+    redis.disconnect();
+  });
+
+  // Fire the simulated receipt and let its Redis writes and POST finish
+  async function deliverReceipts(): Promise<void> {
+    jest.advanceTimersByTime(1000);
+    await new Promise(resolve => setImmediate(resolve));
+    await new Promise(resolve => setImmediate(resolve));
+  }
+
+  it('should store messages instead of sending them', async () => {
+    const result = await provider.sendSMS({ to: '+447700900000', message: 'Your code is 123456', code: '123456' });
+
+    expect(result.success).toBe(true);
+    expect(result.provider).toBe('sandbox');
+    expect(result.messageId).toMatch(/^sandbox-/);
+
+    const latest = await provider.getLatestMessage('+447700900000');
+    expect(latest).toMatchObject({
+      messageId: result.messageId,
+      to: '+447700900000',
+      message: 'Your code is 123456',
+      code: '123456',
+      channel: 'sms',
+      status: 'sent'
+    });
+  });
+
+  it('should find the latest message regardless of phone formatting', async () => {
+    await provider.sendSMS({ to: '+447700900000', message: 'First' });
+    await provider.sendSMS({ to: '+447700900000', message: 'Second' });
+
+    expect((await provider.getLatestMessage('44 7700 900000'))?.message).toBe('Second');
+    expect(await provider.getLatestMessage('+15555550100')).toBeNull();
+  });
+
+  it('should list the inbox newest first', async () => {
+    await provider.sendSMS({ to: '+447700900000', message: 'First' });
+    await provider.sendSMS({ to: '+15555550100', message: 'Second' });
+
+    const messages = await provider.getMessages();
+
+    expect(messages.map(message => message.message)).toEqual(['Second', 'First']);
+  });
+
+  it('should post a simulated delivery receipt and mark the message delivered', async () => {
+    mockedAxios.post.mockResolvedValue({ data: { success: true } });
+
+    const { messageId } = await provider.sendSMS({ to: '+447700900000', message: 'Your code is 123456' });
+    expect(mockedAxios.post).not.toHaveBeenCalled();
+
+    await deliverReceipts();
+
+    expect(mockedAxios.post).toHaveBeenCalledWith(
+      'http://localhost:3000/api/webhooks/sms-dlr',
+      expect.objectContaining({ messageId, status: 'delivered' }),
+      expect.any(Object)
+    );
+    expect((await provider.checkDeliveryStatus(messageId)).status).toBe('delivered');
+  });
+
+  it('should post the receipt to the callback URL of the send when given', async () => {
+    mockedAxios.post.mockResolvedValue({ data: { success: true } });
+
+    await provider.sendSMS({ to: '+447700900000', message: 'Hi', callbackUrl: 'https://example.com/dlr' });
+    await deliverReceipts();
+
+    expect(mockedAxios.post).toHaveBeenCalledWith('https://example.com/dlr', expect.any(Object), expect.any(Object));
+  });
+
+  it('should simulate failed deliveries when configured', async () => {
+    mockedAxios.post.mockResolvedValue({ data: { success: true } });
+    provider = new SandboxSMSProvider(redis, { dlrStatus: 'failed' });
+
+    const { messageId } = await provider.sendSMS({ to: '+447700900000', message: 'Hi' });
+    await deliverReceipts();
+
+    expect((await provider.checkDeliveryStatus(messageId)).status).toBe('failed');
+    expect(mockedAxios.post).not.toHaveBeenCalled();
+  });
+
+  it('should parse its own delivery receipts', () => {
+    const receipt = provider.handleWebhook({
+      messageId: 'sandbox-1',
+      status: 'delivered',
+      timestamp: '2024-01-15T10:30:05.000Z'
+    });
+
+    expect(receipt).toEqual({
+      messageId: 'sandbox-1',
+      status: 'delivered',
+      deliveredAt: new Date('2024-01-15T10:30:05.000Z'),
+      failureReason: undefined
+    });
+    expect(() => provider.handleWebhook({ status: 'delivered' })).toThrow('Invalid webhook payload');
+  });
+
+  it('should clear the inbox', async () => {
+    await provider.sendSMS({ to: '+447700900000', message: 'Hi' });
+
+    await provider.clear();
+
+    expect(await provider.getMessages()).toEqual([]);
+    expect(await provider.getLatestMessage('+447700900000')).toBeNull();
+  });
+});
@@ -81,6 +81,42 @@ describe('TwilioProvider', () => {
       );
     });
 
+    it('should report the price and segments Twilio charged', async () => {
+      mockedAxios.post.mockResolvedValue({
+        data: {
+          sid: 'SM1234567890abcdef1234567890abcdef',
+          status: 'sent',
+          num_segments: '2',
+          price: '-0.01580',
+          price_unit: 'usd'
+        }
+      });
+
+      const result = await provider.sendSMS(params);
+
+      expect(result.segments).toBe(2);
+      expect(result.cost).toBeCloseTo(0.0158);
+      expect(result.currency).toBe('USD');
+    });
+
+    it('should leave the cost out while Twilio has not priced the message', async () => {
+      mockedAxios.post.mockResolvedValue({
+        data: {
+          sid: 'SM1234567890abcdef1234567890abcdef',
+          status: 'queued',
+          num_segments: '1',
+          price: null,
+          price_unit: 'USD'
+        }
+      });
+
+      const result = await provider.sendSMS(params);
+
+      expect(result.segments).toBe(1);
+      expect(result.cost).toBeUndefined();
+      expect(result.currency).toBeUndefined();
+    });
+
     it('should use custom from number if provided', async () => {
       const customFrom = '+9876543210';
       const paramsWithFrom = { ...params, from: customFrom };
@@ -158,6 +194,45 @@ describe('TwilioProvider', () => {
     });
   });
 
+  describe('makeCall', () => {
+    it('should read the message out with a localized voice', async () => {
+      mockedAxios.post.mockResolvedValue({
+        data: { sid: 'CA1234567890abcdef1234567890abcdef', status: 'queued' }
+      });
+
+      const result = await provider.makeCall({
+        to: '+1987654321',
+        message: 'Su código es 1, 2, 3 & <4>',
+        language: 'es'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.messageId).toBe('CA1234567890abcdef1234567890abcdef');
+
+      const [url, body] = mockedAxios.post.mock.calls[0];
+      const form = new URLSearchParams(body as string);
+
+      expect(url).toContain('/Calls.json');
+      expect(form.get('To')).toBe('+1987654321');
+      expect(form.get('From')).toBe(fromNumber);
+      expect(form.get('Twiml')).toBe(
+        '<Response><Say language="es-ES">Su código es 1, 2, 3 &amp; &lt;4&gt;</Say></Response>'
+      );
+    });
+
+    it('should handle API errors', async () => {
+      mockedAxios.post.mockRejectedValue({
+        response: { status: 400, data: { code: 21215, message: 'Geo permission not enabled' } },
+        message: 'Request failed'
+      });
+
+      const result = await provider.makeCall({ to: '+1987654321', message: 'Your code is 1, 2, 3' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Voice provider error');
+    });
+  });
+
   describe('checkDeliveryStatus', () => {
     const messageId = 'SM1234567890abcdef1234567890abcdef';
 
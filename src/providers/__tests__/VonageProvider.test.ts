@@ -0,0 +1,261 @@
+/**
+ * Tests for VonageProvider
+ * Responses are recorded from the Vonage SMS, message search and DLR APIs
+ */
+
+import axios from 'axios';
+import { SendSMSParams } from '../ISMSProvider.js';
+import { VonageProvider } from '../VonageProvider.js';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const sendResponse = {
+  'message-count': '1',
+  messages: [
+    {
+      to: '447700900000',
+      'message-id': '0A0000000123ABCD1',
+      status: '0',
+      'remaining-balance': '3.14159265',
+      'message-price': '0.03330000',
+      network: '23410'
+    }
+  ]
+};
+
+const rejectedResponse = {
+  'message-count': '1',
+  messages: [
+    {
+      to: '447700900000',
+      status: '4',
+      'error-text': 'Bad Credentials'
+    }
+  ]
+};
+
+const searchResponse = {
+  'message-id': '0A0000000123ABCD1',
+  'account-id': 'abcd1234',
+  network: '23410',
+  from: 'MyShop',
+  to: '447700900000',
+  price: '0.03330000',
+  'date-received': '2024-01-15 10:30:00',
+  'final-status': 'DELIVRD',
+  'date-closed': '2024-01-15 10:30:05',
+  latency: 5000,
+  type: 'MT'
+};
+
+const deliveredReceipt = {
+  msisdn: '447700900000',
+  to: 'MyShop',
+  'network-code': '23410',
+  messageId: '0A0000000123ABCD1',
+  price: '0.03330000',
+  status: 'delivered',
+  scts: '2401151030',
+  'err-code': '0',
+  'api-key': 'abcd1234',
+  'message-timestamp': '2024-01-15 10:30:05'
+};
+
+describe('VonageProvider', () => {
+  let provider: VonageProvider;
+  const apiKey = 'abcd1234';
+  const apiSecret = 'test_api_secret';
+  const from = 'MyShop';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    provider = new VonageProvider(apiKey, apiSecret, from);
+  });
+
+  describe('constructor', () => {
+    it('should create provider with correct name and priority', () => {
+      expect(provider.name).toBe('vonage');
+      expect(provider.priority).toBe(4);
+    });
+
+    it('should throw error if apiKey is missing', () => {
+      expect(() => new VonageProvider('', apiSecret, from)).toThrow('Vonage API key is required');
+    });
+
+    it('should throw error if apiSecret is missing', () => {
+      expect(() => new VonageProvider(apiKey, '', from)).toThrow('Vonage API secret is required');
+    });
+
+    it('should throw error if from is missing', () => {
+      expect(() => new VonageProvider(apiKey, apiSecret, '')).toThrow('Vonage sender is required');
+    });
+  });
+
+  describe('sendSMS', () => {
+    const params: SendSMSParams = {
+      to: '+447700900000',
+      message: 'Your OTP is 123456',
+      callbackUrl: 'https://example.com/webhook'
+    };
+
+    it('should send SMS successfully', async () => {
+      mockedAxios.post.mockResolvedValue({ data: sendResponse });
+
+      const result = await provider.sendSMS(params);
+
+      expect(result.success).toBe(true);
+      expect(result.messageId).toBe('0A0000000123ABCD1');
+      expect(result.provider).toBe('vonage');
+      expect(result.error).toBeUndefined();
+
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'https://rest.nexmo.com/sms/json',
+        expect.objectContaining({
+          api_key: apiKey,
+          api_secret: apiSecret,
+          to: '447700900000',
+          from,
+          text: params.message,
+          callback: params.callbackUrl
+        }),
+        expect.any(Object)
+      );
+    });
+
+    it('should use custom from if provided', async () => {
+      mockedAxios.post.mockResolvedValue({ data: sendResponse });
+
+      await provider.sendSMS({ ...params, from: 'OtherShop' });
+
+      expect(mockedAxios.post.mock.calls[0][1]).toMatchObject({ from: 'OtherShop' });
+    });
+
+    it('should fail when Vonage rejects the message', async () => {
+      mockedAxios.post.mockResolvedValue({ data: rejectedResponse });
+
+      const result = await provider.sendSMS(params);
+
+      expect(result.success).toBe(false);
+      expect(result.messageId).toBe('');
+      expect(result.error).toBe('SMS provider error: Bad Credentials');
+    });
+
+    it('should handle missing message ID in response', async () => {
+      mockedAxios.post.mockResolvedValue({ data: { 'message-count': '0', messages: [] } });
+
+      const result = await provider.sendSMS(params);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid response from SMS provider');
+    });
+
+    it('should handle API errors', async () => {
+      mockedAxios.post.mockRejectedValue({
+        response: {
+          status: 401,
+          data: { type: 'https://developer.nexmo.com/api-errors#unauthorized', title: 'Unauthorized' }
+        },
+        message: 'Request failed'
+      });
+
+      const result = await provider.sendSMS(params);
+
+      expect(result.success).toBe(false);
+      expect(result.provider).toBe('vonage');
+      expect(result.error).toContain('SMS provider error');
+    });
+  });
+
+  describe('checkDeliveryStatus', () => {
+    const messageId = '0A0000000123ABCD1';
+
+    it('should check delivery status successfully', async () => {
+      mockedAxios.get.mockResolvedValue({ data: searchResponse });
+
+      const result = await provider.checkDeliveryStatus(messageId);
+
+      expect(result.messageId).toBe(messageId);
+      expect(result.status).toBe('delivered');
+      expect(result.timestamp).toEqual(new Date('2024-01-15T10:30:05Z'));
+      expect(result.error).toBeUndefined();
+
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        'https://rest.nexmo.com/search/message',
+        expect.objectContaining({
+          params: { api_key: apiKey, api_secret: apiSecret, id: messageId }
+        })
+      );
+    });
+
+    it('should handle API errors when checking status', async () => {
+      mockedAxios.get.mockRejectedValue(new Error('Network error'));
+
+      const result = await provider.checkDeliveryStatus(messageId);
+
+      expect(result.status).toBe('failed');
+      expect(result.error).toBe('Failed to check delivery status');
+    });
+
+    it('should map Vonage search statuses correctly', async () => {
+      const statusMappings = [
+        { vonageStatus: 'ACCEPTD', expectedStatus: 'sent' },
+        { vonageStatus: 'BUFFRED', expectedStatus: 'sent' },
+        { vonageStatus: 'DELIVRD', expectedStatus: 'delivered' },
+        { vonageStatus: 'EXPIRED', expectedStatus: 'failed' },
+        { vonageStatus: 'UNDELIV', expectedStatus: 'failed' },
+        { vonageStatus: 'REJECTD', expectedStatus: 'failed' },
+        { vonageStatus: 'UNKNOWN', expectedStatus: 'pending' }
+      ];
+
+      for (const mapping of statusMappings) {
+        mockedAxios.get.mockResolvedValue({
+          data: { ...searchResponse, 'final-status': mapping.vonageStatus }
+        });
+
+        const result = await provider.checkDeliveryStatus(messageId);
+        expect(result.status).toBe(mapping.expectedStatus);
+      }
+    });
+  });
+
+  describe('handleWebhook', () => {
+    it('should parse Vonage delivery receipt correctly', () => {
+      const result = provider.handleWebhook(deliveredReceipt);
+
+      expect(result.messageId).toBe('0A0000000123ABCD1');
+      expect(result.status).toBe('delivered');
+      expect(result.deliveredAt).toEqual(new Date('2024-01-15T10:30:05Z'));
+      expect(result.failureReason).toBeUndefined();
+    });
+
+    it('should include the error code for failed messages', () => {
+      const result = provider.handleWebhook({ ...deliveredReceipt, status: 'failed', 'err-code': '6' });
+
+      expect(result.status).toBe('failed');
+      expect(result.deliveredAt).toBeUndefined();
+      expect(result.failureReason).toBe('Error 6');
+    });
+
+    it('should throw error for invalid webhook payload', () => {
+      expect(() => provider.handleWebhook({ status: 'delivered' })).toThrow('Invalid webhook payload');
+    });
+
+    it('should map webhook statuses correctly', () => {
+      const statusMappings = [
+        { vonageStatus: 'accepted', expectedStatus: 'sent' },
+        { vonageStatus: 'buffered', expectedStatus: 'sent' },
+        { vonageStatus: 'delivered', expectedStatus: 'delivered' },
+        { vonageStatus: 'expired', expectedStatus: 'failed' },
+        { vonageStatus: 'failed', expectedStatus: 'failed' },
+        { vonageStatus: 'rejected', expectedStatus: 'failed' },
+        { vonageStatus: 'unknown', expectedStatus: 'pending' }
+      ];
+
+      for (const mapping of statusMappings) {
+        const result = provider.handleWebhook({ ...deliveredReceipt, status: mapping.vonageStatus });
+        expect(result.status).toBe(mapping.expectedStatus);
+      }
+    });
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Tests for WhatsAppProvider
+ */
+
+import axios from 'axios';
+import { SendSMSParams } from '../ISMSProvider.js';
+import { WhatsAppProvider } from '../WhatsAppProvider.js';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('WhatsAppProvider', () => {
+  let provider: WhatsAppProvider;
+  const accessToken = 'test_access_token';
+  const phoneNumberId = '1234567890';
+  const templateName = 'login_code';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    provider = new WhatsAppProvider(accessToken, phoneNumberId, templateName, 'en_US');
+  });
+
+  describe('constructor', () => {
+    it('should create provider with correct name, priority and channel', () => {
+      expect(provider.name).toBe('whatsapp');
+      expect(provider.priority).toBe(3);
+      expect(provider.channel).toBe('whatsapp');
+    });
+
+    it('should throw error if configuration is missing', () => {
+      expect(() => new WhatsAppProvider('', phoneNumberId, templateName)).toThrow('WhatsApp access token is required');
+      expect(() => new WhatsAppProvider(accessToken, '', templateName)).toThrow('WhatsApp phone number ID is required');
+      expect(() => new WhatsAppProvider(accessToken, phoneNumberId, '')).toThrow('WhatsApp template name is required');
+    });
+  });
+
+  describe('sendSMS', () => {
+    const params: SendSMSParams = {
+      to: '+1987654321',
+      message: 'Your verification code is: 123456',
+      code: '123456'
+    };
+
+    it('should send the code as an authentication template', async () => {
+      mockedAxios.post.mockResolvedValue({
+        data: {
+          messaging_product: 'whatsapp',
+          messages: [{ id: 'wamid.HBgLMTk4NzY1NDMyMRUCABEYEjA=' }]
+        }
+      });
+
+      const result = await provider.sendSMS(params);
+
+      expect(result.success).toBe(true);
+      expect(result.messageId).toBe('wamid.HBgLMTk4NzY1NDMyMRUCABEYEjA=');
+      expect(result.provider).toBe('whatsapp');
+
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'https://graph.facebook.com/v21.0/1234567890/messages',
+        expect.objectContaining({
+          to: '1987654321',
+          type: 'template',
+          template: expect.objectContaining({
+            name: templateName,
+            language: { code: 'en_US' },
+            components: expect.arrayContaining([
+              { type: 'body', parameters: [{ type: 'text', text: '123456' }] }
+            ])
+          })
+        }),
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            'Authorization': `Bearer ${accessToken}`
+          })
+        })
+      );
+    });
+
+    it('should refuse messages without a code', async () => {
+      const result = await provider.sendSMS({ to: params.to, message: 'Your order has shipped' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('WhatsApp can only deliver one-time codes');
+      expect(mockedAxios.post).not.toHaveBeenCalled();
+    });
+
+    it('should handle missing message ID in response', async () => {
+      mockedAxios.post.mockResolvedValue({ data: { messages: [] } });
+
+      const result = await provider.sendSMS(params);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid response from WhatsApp provider');
+    });
+
+    it('should handle API errors', async () => {
+      mockedAxios.post.mockRejectedValue({
+        message: 'Request failed with status code 400',
+        response: {
+          status: 400,
+          data: { error: { code: 131026, message: 'Message undeliverable' } }
+        }
+      });
+
+      const result = await provider.sendSMS(params);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('WhatsApp provider error');
+      expect(result.error).toContain('131026');
+    });
+  });
+
+  describe('handleWebhook', () => {
+    it('should map WhatsApp statuses correctly', () => {
+      const statusMappings = [
+        { whatsAppStatus: 'sent', expectedStatus: 'sent' },
+        { whatsAppStatus: 'delivered', expectedStatus: 'delivered' },
+        { whatsAppStatus: 'read', expectedStatus: 'delivered' },
+        { whatsAppStatus: 'failed', expectedStatus: 'failed' }
+      ];
+
+      for (const mapping of statusMappings) {
+        const receipt = provider.handleWebhook({ id: 'wamid.1', status: mapping.whatsAppStatus, timestamp: '1700000000' });
+        expect(receipt.status).toBe(mapping.expectedStatus);
+      }
+    });
+
+    it('should include error information if present', () => {
+      const receipt = provider.handleWebhook({
+        id: 'wamid.1',
+        status: 'failed',
+        timestamp: '1700000000',
+        errors: [{ code: 131047, title: 'Re-engagement message' }]
+      });
+
+      expect(receipt.failureReason).toBe('Error 131047: Re-engagement message');
+    });
+
+    it('should throw error for invalid webhook payload', () => {
+      expect(() => provider.handleWebhook({ status: 'sent' })).toThrow('Invalid webhook payload');
+    });
+  });
+
+  describe('parseWebhookStatuses', () => {
+    it('should extract every status in a notification', () => {
+      const receipts = provider.parseWebhookStatuses({
+        object: 'whatsapp_business_account',
+        entry: [{
+          id: 'waba-id',
+          changes: [{
+            field: 'messages',
+            value: {
+              messaging_product: 'whatsapp',
+              statuses: [
+                { id: 'wamid.1', status: 'delivered', timestamp: '1700000000' },
+                { id: 'wamid.2', status: 'failed', timestamp: '1700000001', errors: [{ code: 131026, title: 'Message undeliverable' }] }
+              ]
+            }
+          }]
+        }]
+      });
+
+      expect(receipts).toEqual([
+        { messageId: 'wamid.1', status: 'delivered', deliveredAt: new Date(1700000000000), failureReason: undefined },
+        { messageId: 'wamid.2', status: 'failed', deliveredAt: undefined, failureReason: 'Error 131026: Message undeliverable' }
+      ]);
+    });
+
+    it('should ignore notifications without statuses', () => {
+      const receipts = provider.parseWebhookStatuses({
+        object: 'whatsapp_business_account',
+        entry: [{ id: 'waba-id', changes: [{ field: 'messages', value: { messages: [{ id: 'wamid.in' }] } }] }]
+      });
+
+      expect(receipts).toEqual([]);
+    });
+
+    it('should reject payloads from other webhook objects', () => {
+      expect(() => provider.parseWebhookStatuses({ object: 'page', entry: [] })).toThrow('Invalid webhook payload');
+    });
+  });
+});
@@ -4,14 +4,20 @@
  * Requirements: 15.3, 5.1
  */
 
+import express from 'express';
 import fc from 'fast-check';
 import type { Redis } from 'ioredis';
+import request from 'supertest';
+import { errorHandler } from '../../middleware/errorHandler.js';
 import { AuthService } from '../../services/AuthService.js';
 import { CustomerService } from '../../services/CustomerService.js';
 import { MultipassService } from '../../services/MultipassService.js';
 import { OAuthService } from '../../services/OAuthService.js';
 import { OTPService } from '../../services/OTPService.js';
+import { PasskeyService } from '../../services/PasskeyService.js';
 import { SMSService } from '../../services/SMSService.js';
+import { createMock } from '../../test/fixtures.js';
+import { createAuthRouter } from '../auth.js';
 
 describe('Auth Routes Property Tests', () => {
   let redis: jest.Mocked<Redis>;
@@ -83,13 +89,22 @@ describe('Auth Routes Property Tests', () => {
       add: jest.fn().mockResolvedValue({}),
     } as unknown;
 
+    // Mock password store that accepts every password
+    const mockPasswordService = {
+      setPassword: jest.fn().mockResolvedValue(undefined),
+      verifyPassword: jest.fn().mockResolvedValue({ status: 'valid' }),
+    } as any;
+
     authService = new AuthService(
       multipassService,
       customerService,
       otpService,
       smsService,
       oauthService,
-      mockQueue
+      mockQueue,
+      undefined,
+      undefined,
+      mockPasswordService
     );
   });
 
@@ -319,3 +334,79 @@ describe('Auth Routes Property Tests', () => {
     });
   });
 });
+
+describe('Auth Routes', () => {
+  let authService: jest.Mocked<AuthService>;
+  let smsService: jest.Mocked<SMSService>;
+  let app: express.Express;
+
+  beforeEach(() => {
+    authService = createMock<AuthService>({
+      isPasskeyEnabled: jest.fn().mockResolvedValue(true),
+      authenticateWithPasskey: jest.fn()
+    });
+    smsService = createMock<SMSService>({
+      handleDeliveryReceipt: jest.fn().mockResolvedValue(null)
+    });
+
+    app = express();
+    app.use(express.json());
+    app.use('/api/auth', createAuthRouter(
+      authService,
+      createMock<OTPService>(),
+      smsService,
+      createMock<PasskeyService>()
+    ));
+    app.use(errorHandler);
+  });
+
+  describe('POST /passkey/login/verify', () => {
+    const body = { challengeId: 'challenge-1', response: { id: 'credential-1' } };
+
+    it('should hand customers with an authenticator on to the TOTP step', async () => {
+      authService.authenticateWithPasskey.mockResolvedValue({
+        success: false,
+        error: 'Authenticator code required',
+        totpToken: 'totp-token'
+      });
+
+      const res = await request(app).post('/api/auth/passkey/login/verify').send(body);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ success: false, totpRequired: true, totpToken: 'totp-token' });
+    });
+
+    it('should refuse passkeys that fail verification', async () => {
+      authService.authenticateWithPasskey.mockResolvedValue({ success: false, error: 'Passkey sign-in failed' });
+
+      const res = await request(app).post('/api/auth/passkey/login/verify').send(body);
+
+      expect(res.status).toBe(401);
+    });
+  });
+
+  describe('POST /webhooks/sms-dlr', () => {
+    it('should have the sending provider read the receipt', async () => {
+      smsService.handleDeliveryReceipt.mockResolvedValue({ messageId: 'SM123', status: 'failed' });
+
+      const res = await request(app)
+        .post('/api/auth/webhooks/sms-dlr?provider=twilio')
+        .send({ MessageSid: 'SM123', MessageStatus: 'undelivered' });
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ success: true, messageId: 'SM123' });
+      expect(smsService.handleDeliveryReceipt).toHaveBeenCalledWith(
+        'twilio',
+        { MessageSid: 'SM123', MessageStatus: 'undelivered' }
+      );
+    });
+
+    it('should acknowledge receipts no provider can read', async () => {
+      const res = await request(app).post('/api/auth/webhooks/sms-dlr').send({ foo: 'bar' });
+
+      expect(res.status).toBe(200);
+      expect(res.body).toEqual({ received: true });
+      expect(smsService.handleDeliveryReceipt).toHaveBeenCalledWith(undefined, { foo: 'bar' });
+    });
+  });
+});
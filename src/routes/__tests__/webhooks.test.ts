@@ -0,0 +1,54 @@
+/**
+ * Webhook Routes Tests
+ * Tests the SMS delivery receipt webhook providers post to
+ * Requirements: 5.2
+ */
+
+import express from 'express';
+import request from 'supertest';
+import { errorHandler } from '../../middleware/errorHandler.js';
+import { OrderService } from '../../services/OrderService.js';
+import { SMSService } from '../../services/SMSService.js';
+import { createMock } from '../../test/fixtures.js';
+import { createWebhookRouter } from '../webhooks.js';
+
+describe('Webhook Routes', () => {
+  let smsService: jest.Mocked<SMSService>;
+  let app: express.Express;
+
+  beforeEach(() => {
+    smsService = createMock<SMSService>({
+      handleDeliveryReceipt: jest.fn().mockResolvedValue(null)
+    });
+
+    app = express();
+    app.use(express.json());
+    app.use(express.urlencoded({ extended: true }));
+    app.use('/api/webhooks', createWebhookRouter(createMock<OrderService>(), smsService));
+    app.use(errorHandler);
+  });
+
+  describe('POST /sms-dlr', () => {
+    it('should have the provider named in the callback URL read the receipt', async () => {
+      smsService.handleDeliveryReceipt.mockResolvedValue({ messageId: 'SM123', status: 'failed' });
+
+      const res = await request(app)
+        .post('/api/webhooks/sms-dlr?provider=twilio')
+        .type('form')
+        .send({ MessageSid: 'SM123', MessageStatus: 'undelivered' });
+
+      expect(res.status).toBe(200);
+      expect(smsService.handleDeliveryReceipt).toHaveBeenCalledWith(
+        'twilio',
+        { MessageSid: 'SM123', MessageStatus: 'undelivered' }
+      );
+    });
+
+    it('should acknowledge receipts no provider can read, so they aren\'t retried', async () => {
+      const res = await request(app).post('/api/webhooks/sms-dlr').send({ foo: 'bar' });
+
+      expect(res.status).toBe(200);
+      expect(smsService.handleDeliveryReceipt).toHaveBeenCalledWith(undefined, { foo: 'bar' });
+    });
+  });
+});
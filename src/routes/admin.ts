@@ -7,8 +7,12 @@
 import { NextFunction, Request, Response, Router } from 'express';
 import multer from 'multer';
 import path from 'path';
+import { config } from '../config/index.js';
 import { logger } from '../config/logger.js';
 import { ValidationError } from '../errors/index.js';
+import { createSharedSecretValidator } from '../middleware/sharedSecret.js';
+import { SandboxSMSProvider } from '../providers/SandboxSMSProvider.js';
+import { validateOTPPolicy } from '../services/OTPService.js';
 import { SettingsService } from '../services/SettingsService.js';
 
 // Configure multer for logo uploads
@@ -37,7 +41,7 @@ const upload = multer({
   }
 });
 
-export function createAdminRouter(settingsService: SettingsService): Router {
+export function createAdminRouter(settingsService: SettingsService, smsSandbox?: SandboxSMSProvider): Router {
   const router = Router();
 
   /**
@@ -130,6 +134,23 @@ export function createAdminRouter(settingsService: SettingsService): Router {
         });
       }
 
+      // Validate the OTP policy ranges, so codes can't be made guessable or never expire
+      if (settings.otpPolicy !== undefined) {
+        if (!settings.otpPolicy || typeof settings.otpPolicy !== 'object') {
+          throw new ValidationError('Invalid otpPolicy structure', {
+            field: 'otpPolicy',
+            message: 'otpPolicy must be an object'
+          });
+        }
+
+        try {
+          validateOTPPolicy(settings.otpPolicy);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Invalid OTP policy';
+          throw new ValidationError(message, { field: 'otpPolicy', message });
+        }
+      }
+
       // Requirement 12.2: Save settings to shop metafields
       const savedSettings = await settingsService.saveSettings(settings);
 
@@ -188,5 +209,80 @@ export function createAdminRouter(settingsService: SettingsService): Router {
     }
   });
 
+  // The SMS sandbox inbox only exists when the sandbox provider is in use
+  if (smsSandbox) {
+    // The inbox holds live sign-in codes, so only callers with SMS_SANDBOX_INBOX_TOKEN may read it
+    router.use('/sms-sandbox', createSharedSecretValidator({
+      secret: config.sms.sandbox.inboxToken,
+      headerName: 'X-Sandbox-Token'
+    }));
+
+    /**
+     * GET /api/admin/sms-sandbox/messages
+     * List messages captured by the SMS sandbox, newest first
+     */
+    router.get('/sms-sandbox/messages', async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 50, 1), 100);
+        const messages = await smsSandbox.getMessages(limit);
+
+        res.status(200).json({ messages });
+      } catch (error) {
+        next(error);
+      }
+    });
+
+    /**
+     * GET /api/admin/sms-sandbox/messages/latest?phone=+447700900000
+     * Latest message sent to a number, so E2E tests can read the code
+     */
+    router.get('/sms-sandbox/messages/latest', async (req: Request, res: Response, next: NextFunction) => {
+      const requestId = req.requestId;
+
+      try {
+        const phone = req.query.phone;
+
+        if (typeof phone !== 'string' || !/\d/.test(phone)) {
+          throw new ValidationError('Phone number is required', {
+            field: 'phone',
+            message: 'Phone number is required'
+          });
+        }
+
+        const message = await smsSandbox.getLatestMessage(phone);
+
+        if (!message) {
+          return res.status(404).json({
+            error: {
+              code: 'NOT_FOUND',
+              message: 'No sandbox message for this phone number',
+              requestId,
+            },
+          });
+        }
+
+        return res.status(200).json({ message });
+      } catch (error) {
+        return next(error);
+      }
+    });
+
+    /**
+     * DELETE /api/admin/sms-sandbox/messages
+     * Empty the sandbox inbox, e.g. between E2E tests
+     */
+    router.delete('/sms-sandbox/messages', async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        await smsSandbox.clear();
+
+        logger.info('SMS sandbox inbox cleared', { requestId: req.requestId });
+
+        res.status(200).json({ success: true });
+      } catch (error) {
+        next(error);
+      }
+    });
+  }
+
   return router;
 }
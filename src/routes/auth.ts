@@ -1,20 +1,24 @@
 /**
  * Authentication Routes
- * Handles all authentication endpoints (SMS, email, OAuth)
+ * Handles all authentication endpoints (SMS, email, OAuth, passkeys, authenticator apps)
  * Requirements: 1.1-1.5, 2.1-2.5, 3.1-3.5, 15.3
  */
 
 import { NextFunction, Request, Response, Router } from 'express';
+import { config } from '../config/index.js';
 import { logger } from '../config/logger.js';
-import { AuthenticationError, RateLimitError, ValidationError } from '../errors/index.js';
-import { AuthService } from '../services/AuthService.js';
+import { AuthenticationError, ConflictError, ExternalServiceError, RateLimitError, ValidationError } from '../errors/index.js';
+import { parseAppleCallbackUser } from '../providers/AppleOAuthProvider.js';
+import { AuthResult, AuthService, emailOTPIdentifier, passwordResetIdentifier } from '../services/AuthService.js';
 import { OTPService } from '../services/OTPService.js';
+import { PasskeyService } from '../services/PasskeyService.js';
 import { SMSService } from '../services/SMSService.js';
 
 export function createAuthRouter(
   authService: AuthService,
   otpService: OTPService,
-  smsService: SMSService
+  smsService: SMSService,
+  passkeyService?: PasskeyService
 ): Router {
   const router = Router();
 
@@ -27,27 +31,39 @@ export function createAuthRouter(
     const requestId = req.requestId;
 
     try {
-      const { phone, resend } = req.body;
+      const { phone: phoneInput, resend, channel, country } = req.body;
 
       // Validate phone number presence
-      if (!phone) {
+      if (!phoneInput) {
         throw new ValidationError('Phone number is required', {
           field: 'phone',
           message: 'Phone number is required'
         });
       }
 
-      // Requirement 1.1: Validate phone number format
-      if (!authService.validatePhoneNumber(phone)) {
-        throw new ValidationError('Invalid phone number format. Please use E.164 format (e.g., +1234567890)', {
+      // Requirement 1.1: Validate the phone number, normalized to E.164 so one number always gets one set of limits
+      // National numbers are read in the customer's country, e.g. the storefront's
+      const checked = authService.normalizePhoneNumber(String(phoneInput), typeof country === 'string' ? country : undefined);
+      if (!checked.valid) {
+        throw new ValidationError(checked.error, {
           field: 'phone',
-          message: 'Invalid phone number format. Must be in E.164 format'
+          message: checked.error
+        });
+      }
+      const phone = checked.phone;
+
+      if (channel !== undefined && channel !== 'sms' && channel !== 'whatsapp') {
+        throw new ValidationError('Invalid delivery channel', {
+          field: 'channel',
+          message: 'Channel must be sms or whatsapp'
         });
       }
 
       // Requirement 5.4: Check resend cooldown (30 seconds)
+      let offerVoiceCall = false;
       if (resend) {
         const canResend = await otpService.canResendOTP(phone);
+        offerVoiceCall = !!canResend.offerVoiceCall && authService.isVoiceOTPEnabled();
         if (!canResend.allowed) {
           throw new RateLimitError(
             `Please wait ${canResend.retryAfter} seconds before requesting another code`,
@@ -58,6 +74,12 @@ export function createAuthRouter(
 
       // Requirement 5.5: Check send attempts (3 per 10 minutes)
       const sendAttempt = await otpService.trackSendAttempt(phone);
+      if (sendAttempt.reason === 'country_not_allowed') {
+        throw new ValidationError('SMS is not available for this country', {
+          field: 'phone',
+          message: 'Sign-in codes cannot be sent to this country'
+        });
+      }
       if (!sendAttempt.allowed) {
         throw new RateLimitError(
           'Too many send attempts. Please try again later',
@@ -73,22 +95,1257 @@ export function createAuthRouter(
         );
       }
 
-      // Record send time for rate limiting
-      await otpService.recordSendTime(phone);
+      // Record send time for rate limiting
+      await otpService.recordSendTime(phone);
+
+      // Requirement 1.2, 1.3: Generate OTP and queue SMS job
+      await authService.sendOTP(phone, resend || false, channel || 'sms');
+
+      logger.info('OTP send request processed', {
+        requestId,
+        phone: maskPhone(phone),
+        resend: resend || false,
+        channel: channel || 'sms'
+      });
+
+      // Return success response immediately (non-blocking)
+      res.status(200).json({
+        success: true,
+        message: 'Verification code sent successfully',
+        // The number to verify the code against
+        phone,
+        voiceCallAvailable: offerVoiceCall,
+        requestId
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/auth/send-voice-otp
+   * Read a fresh code out in a voice call ("call me instead")
+   * Only offered after the second resend, once per send window
+   */
+  router.post('/send-voice-otp', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const { phone: phoneInput, country } = req.body;
+
+      if (!phoneInput) {
+        throw new ValidationError('Phone number is required', {
+          field: 'phone',
+          message: 'Phone number is required'
+        });
+      }
+
+      const checked = authService.normalizePhoneNumber(String(phoneInput), typeof country === 'string' ? country : undefined);
+      if (!checked.valid) {
+        throw new ValidationError(checked.error, {
+          field: 'phone',
+          message: checked.error
+        });
+      }
+      const phone = checked.phone;
+
+      if (!authService.isVoiceOTPEnabled()) {
+        throw new ValidationError('Voice calls are not available', {
+          field: 'phone',
+          message: 'Voice calls are not available'
+        });
+      }
+
+      if (await otpService.isBlocked(phone)) {
+        throw new RateLimitError(
+          'Too many failed verification attempts. Please try again later',
+          900
+        );
+      }
+
+      const voiceCall = await otpService.trackVoiceCall(phone);
+      if (!voiceCall.allowed) {
+        if (voiceCall.retryAfter) {
+          throw new RateLimitError('A call was already made. Please try again later', voiceCall.retryAfter);
+        }
+        throw new ValidationError('A voice call is available after resending the code twice', {
+          field: 'phone',
+          message: 'Voice call not available yet'
+        });
+      }
+
+      try {
+        await authService.sendVoiceOTP(phone);
+      } catch (error) {
+        throw new ExternalServiceError(error instanceof Error ? error.message : 'Failed to place voice call');
+      }
+
+      logger.info('Voice OTP request processed', {
+        requestId,
+        phone: maskPhone(phone)
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'You will receive a call with your verification code',
+        requestId
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/auth/verify-otp
+   * Verify OTP and authenticate user
+   * Requirements: 1.4, 1.5, 4.1, 4.3
+   */
+  router.post('/verify-otp', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const { phone: phoneInput, otp, returnTo, country } = req.body;
+
+      // Validate required fields
+      if (!phoneInput) {
+        throw new ValidationError('Phone number is required', {
+          field: 'phone',
+          message: 'Phone number is required'
+        });
+      }
+
+      if (!otp) {
+        throw new ValidationError('Verification code is required', {
+          field: 'otp',
+          message: 'Verification code is required'
+        });
+      }
+
+      // Requirement 1.4: Validate OTP format (length and characters from the OTP policy)
+      validateOTPFormat(otp);
+
+      // Validate the phone number, normalized the same way as when the code was sent
+      const checked = authService.normalizePhoneNumber(String(phoneInput), typeof country === 'string' ? country : undefined);
+      if (!checked.valid) {
+        throw new ValidationError(checked.error, {
+          field: 'phone',
+          message: checked.error
+        });
+      }
+      const phone = checked.phone;
+
+      // Requirement 1.4, 1.5, 4.1, 4.3: Verify OTP, find/create customer, generate Multipass token
+      const result = await authService.authenticateWithPhone(phone, otp, returnTo);
+
+      // The shop asks new SMS customers for their email and name before signing them in
+      if (result.errorCode === 'PROFILE_REQUIRED' && result.profileToken) {
+        logger.info('OTP verified, waiting for profile completion', {
+          requestId,
+          phone: maskPhone(phone)
+        });
+
+        res.status(200).json({
+          success: false,
+          profileRequired: true,
+          profileToken: result.profileToken,
+          requestId
+        });
+        return;
+      }
+
+      if (sendTOTPChallenge(res, result, requestId)) {
+        return;
+      }
+
+      if (!result.success) {
+        throw new AuthenticationError(result.error || 'Authentication failed');
+      }
+
+      logger.info('OTP verification successful', {
+        requestId,
+        phone: maskPhone(phone),
+        customerId: result.customer?.id
+      });
+
+      // Return Multipass URL (and a passkey enrollment token when passkeys are enabled)
+      res.status(200).json({
+        success: true,
+        multipassUrl: result.multipassUrl,
+        passkeyEnrollmentToken: result.passkeyEnrollmentToken,
+        linkToken: result.linkToken,
+        requestId
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/auth/profile/complete
+   * Finish an SMS sign-in with the customer's email, name and marketing consent
+   */
+  router.post('/profile/complete', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const { profileToken, email, firstName, lastName, acceptsMarketing } = req.body;
+
+      if (!profileToken) {
+        throw new ValidationError('Profile token is required', {
+          field: 'profileToken',
+          message: 'Profile token is required'
+        });
+      }
+
+      if (!email || !authService.validateEmail(email)) {
+        throw new ValidationError('A valid email is required', {
+          field: 'email',
+          message: 'A valid email is required'
+        });
+      }
+
+      if (!firstName || typeof firstName !== 'string' || !firstName.trim()) {
+        throw new ValidationError('First name is required', {
+          field: 'firstName',
+          message: 'First name is required'
+        });
+      }
+
+      const result = await authService.completeProfile(profileToken, {
+        email,
+        firstName,
+        lastName: typeof lastName === 'string' ? lastName : undefined,
+        acceptsMarketing: acceptsMarketing === true
+      });
+
+      if (result.errorCode === 'IDENTITY_CONFLICT') {
+        throw new ConflictError(result.error || 'This email is already used by another account', result.errorCode);
+      }
+
+      if (sendTOTPChallenge(res, result, requestId)) {
+        return;
+      }
+
+      if (!result.success) {
+        throw new AuthenticationError(result.error || 'Profile completion failed');
+      }
+
+      logger.info('Profile completed', {
+        requestId,
+        customerId: result.customer?.id
+      });
+
+      res.status(200).json({
+        success: true,
+        multipassUrl: result.multipassUrl,
+        passkeyEnrollmentToken: result.passkeyEnrollmentToken,
+        linkToken: result.linkToken,
+        requestId
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/auth/email-login
+   * Authenticate with email and password
+   * Requirements: 2.1, 2.2, 2.3, 2.4, 2.5
+   */
+  router.post('/email-login', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const { email, password, returnTo } = req.body;
+
+      // Validate required fields
+      if (!email) {
+        throw new ValidationError('Email is required', {
+          field: 'email',
+          message: 'Email is required'
+        });
+      }
+
+      if (!password) {
+        throw new ValidationError('Password is required', {
+          field: 'password',
+          message: 'Password is required'
+        });
+      }
+
+      // Requirement 2.1: Validate email format
+      if (!authService.validateEmail(email)) {
+        throw new ValidationError('Invalid email format', {
+          field: 'email',
+          message: 'Invalid email format'
+        });
+      }
+
+      // Validate password length
+      if (password.length < 8) {
+        throw new ValidationError('Password must be at least 8 characters', {
+          field: 'password',
+          message: 'Password must be at least 8 characters'
+        });
+      }
+
+      // Requirement 2.2, 2.3, 2.4, 2.5: Authenticate, find/create customer, generate Multipass token
+      const result = await authService.authenticateWithEmail(email, password, returnTo);
+
+      if (sendTOTPChallenge(res, result, requestId)) {
+        return;
+      }
+
+      if (!result.success) {
+        if (result.errorCode === 'ACCOUNT_LOCKED') {
+          throw new RateLimitError(result.error || 'Too many failed attempts', result.retryAfter || 900);
+        }
+        // PASSWORD_RESET_REQUIRED lets the storefront send the customer to the reset flow
+        throw new AuthenticationError(result.error || 'Authentication failed', result.errorCode);
+      }
+
+      logger.info('Email authentication successful', {
+        requestId,
+        email,
+        customerId: result.customer?.id
+      });
+
+      // Return Multipass URL (and a passkey enrollment token when passkeys are enabled)
+      res.status(200).json({
+        success: true,
+        multipassUrl: result.multipassUrl,
+        passkeyEnrollmentToken: result.passkeyEnrollmentToken,
+        linkToken: result.linkToken,
+        requestId
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/auth/email/send-otp
+   * Email a one-time code
+   */
+  router.post('/email/send-otp', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const { email, resend } = req.body;
+
+      if (!email) {
+        throw new ValidationError('Email is required', {
+          field: 'email',
+          message: 'Email is required'
+        });
+      }
+
+      if (!authService.validateEmail(email)) {
+        throw new ValidationError('Invalid email format', {
+          field: 'email',
+          message: 'Invalid email format'
+        });
+      }
+
+      await checkEmailSendLimits(email, resend);
+
+      try {
+        await authService.sendEmailOTP(email);
+      } catch (error) {
+        throw new ExternalServiceError(error instanceof Error ? error.message : 'Failed to send email');
+      }
+
+      logger.info('Email OTP send request processed', {
+        requestId,
+        email,
+        resend: resend || false
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Verification code sent successfully',
+        requestId
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/auth/email/verify-otp
+   * Verify an emailed one-time code and authenticate user
+   */
+  router.post('/email/verify-otp', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const { email, otp, returnTo } = req.body;
+
+      if (!email) {
+        throw new ValidationError('Email is required', {
+          field: 'email',
+          message: 'Email is required'
+        });
+      }
+
+      if (!otp) {
+        throw new ValidationError('Verification code is required', {
+          field: 'otp',
+          message: 'Verification code is required'
+        });
+      }
+
+      validateOTPFormat(otp);
+
+      if (await otpService.isBlocked(emailOTPIdentifier(email))) {
+        throw new RateLimitError(
+          'Too many failed verification attempts. Please try again later',
+          900
+        );
+      }
+
+      const result = await authService.authenticateWithEmailOTP(email, otp, returnTo);
+
+      if (sendTOTPChallenge(res, result, requestId)) {
+        return;
+      }
+
+      if (!result.success) {
+        throw new AuthenticationError(result.error || 'Authentication failed');
+      }
+
+      logger.info('Email OTP verification successful', {
+        requestId,
+        email,
+        customerId: result.customer?.id
+      });
+
+      res.status(200).json({
+        success: true,
+        multipassUrl: result.multipassUrl,
+        passkeyEnrollmentToken: result.passkeyEnrollmentToken,
+        linkToken: result.linkToken,
+        requestId
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/auth/email/magic-link
+   * Email a signed, single-use sign-in link
+   */
+  router.post('/email/magic-link', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const { email, returnTo, resend } = req.body;
+
+      if (!email) {
+        throw new ValidationError('Email is required', {
+          field: 'email',
+          message: 'Email is required'
+        });
+      }
+
+      if (!authService.validateEmail(email)) {
+        throw new ValidationError('Invalid email format', {
+          field: 'email',
+          message: 'Invalid email format'
+        });
+      }
+
+      await checkEmailSendLimits(email, resend);
+
+      try {
+        await authService.sendMagicLink(email, returnTo);
+      } catch (error) {
+        throw new ExternalServiceError(error instanceof Error ? error.message : 'Failed to send email');
+      }
+
+      logger.info('Magic link request processed', {
+        requestId,
+        email
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Sign-in link sent successfully',
+        requestId
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/auth/email/magic-link/verify
+   * Opened from the email; redirects straight to the Multipass URL
+   */
+  router.get('/email/magic-link/verify', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const token = req.query.token as string;
+
+      if (!token) {
+        throw new ValidationError('Sign-in link token is required', {
+          field: 'token',
+          message: 'Sign-in link token is required'
+        });
+      }
+
+      const result = await authService.authenticateWithMagicLink(token);
+
+      // The link is opened outside the login form, so send the customer back to it for their code
+      if (result.totpToken) {
+        res.redirect(buildTOTPChallengeUrl(result));
+        return;
+      }
+
+      if (!result.success || !result.multipassUrl) {
+        throw new AuthenticationError(result.error || 'Authentication failed');
+      }
+
+      logger.info('Magic link authentication successful', {
+        requestId,
+        customerId: result.customer?.id
+      });
+
+      res.redirect(result.multipassUrl);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/auth/password/reset/request
+   * Send a password reset link by email or SMS
+   * Always answers the same way so it can't be used to discover accounts
+   */
+  router.post('/password/reset/request', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const { email, channel = 'email', resend } = req.body;
+
+      if (!email) {
+        throw new ValidationError('Email is required', {
+          field: 'email',
+          message: 'Email is required'
+        });
+      }
+
+      if (!authService.validateEmail(email)) {
+        throw new ValidationError('Invalid email format', {
+          field: 'email',
+          message: 'Invalid email format'
+        });
+      }
+
+      if (channel !== 'email' && channel !== 'sms') {
+        throw new ValidationError('Channel must be email or sms', {
+          field: 'channel',
+          message: 'Channel must be email or sms'
+        });
+      }
+
+      await checkEmailSendLimits(email, resend, passwordResetIdentifier(email));
+
+      try {
+        await authService.requestPasswordReset(email, channel);
+      } catch (error) {
+        throw new ExternalServiceError(error instanceof Error ? error.message : 'Failed to send reset link');
+      }
+
+      logger.info('Password reset request processed', {
+        requestId,
+        email,
+        channel
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'If an account exists for this email, a reset link has been sent',
+        requestId
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/auth/password/reset/confirm
+   * Set a new password with a reset token
+   */
+  router.post('/password/reset/confirm', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const { token, password } = req.body;
+
+      if (!token) {
+        throw new ValidationError('Reset token is required', {
+          field: 'token',
+          message: 'Reset token is required'
+        });
+      }
+
+      validateNewPassword(password, 'password');
+
+      const result = await authService.resetPassword(token, password);
+
+      if (!result.success) {
+        throw new AuthenticationError(result.error || 'Password reset failed');
+      }
+
+      logger.info('Password reset successful', {
+        requestId,
+        customerId: result.customer?.id
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Your password has been updated. Please sign in with your new password',
+        requestId
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/auth/password/change
+   * Change a password by confirming the current one
+   */
+  router.post('/password/change', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const { email, currentPassword, newPassword } = req.body;
+
+      if (!email) {
+        throw new ValidationError('Email is required', {
+          field: 'email',
+          message: 'Email is required'
+        });
+      }
+
+      if (!currentPassword) {
+        throw new ValidationError('Current password is required', {
+          field: 'currentPassword',
+          message: 'Current password is required'
+        });
+      }
+
+      validateNewPassword(newPassword, 'newPassword');
+
+      const result = await authService.changePassword(email, currentPassword, newPassword);
+
+      if (!result.success) {
+        if (result.errorCode === 'ACCOUNT_LOCKED') {
+          throw new RateLimitError(result.error || 'Too many failed attempts', result.retryAfter || 900);
+        }
+        throw new AuthenticationError(result.error || 'Password change failed', result.errorCode);
+      }
+
+      logger.info('Password change successful', {
+        requestId,
+        customerId: result.customer?.id
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Your password has been changed',
+        requestId
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/auth/passkey/register/options
+   * Get WebAuthn registration options for a customer who has just signed in
+   */
+  router.post('/passkey/register/options', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const { enrollmentToken } = req.body;
+
+      const passkeys = await requirePasskeyService();
+
+      if (!enrollmentToken) {
+        throw new ValidationError('Enrollment token is required', {
+          field: 'enrollmentToken',
+          message: 'Enrollment token is required'
+        });
+      }
+
+      let options;
+      try {
+        options = await passkeys.generateRegistrationOptions(enrollmentToken);
+      } catch (error) {
+        throw new AuthenticationError(error instanceof Error ? error.message : 'Passkey enrollment failed');
+      }
+
+      logger.info('Passkey registration options issued', { requestId });
+
+      res.status(200).json({
+        success: true,
+        options,
+        requestId
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/auth/passkey/register/verify
+   * Verify the attestation and store the new passkey
+   */
+  router.post('/passkey/register/verify', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const { enrollmentToken, response } = req.body;
+
+      const passkeys = await requirePasskeyService();
+
+      if (!enrollmentToken || !response) {
+        throw new ValidationError('Enrollment token and credential response are required', {
+          field: !enrollmentToken ? 'enrollmentToken' : 'response',
+          message: 'Enrollment token and credential response are required'
+        });
+      }
+
+      let credential;
+      try {
+        credential = await passkeys.verifyRegistration(enrollmentToken, response);
+      } catch (error) {
+        throw new AuthenticationError(error instanceof Error ? error.message : 'Passkey registration failed');
+      }
+
+      logger.info('Passkey registered', {
+        requestId,
+        customerId: credential.customerId
+      });
+
+      res.status(200).json({
+        success: true,
+        credentialId: credential.id,
+        requestId
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/auth/passkey/login/options
+   * Get WebAuthn assertion options
+   */
+  router.post('/passkey/login/options', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const passkeys = await requirePasskeyService();
+
+      const { challengeId, options } = await passkeys.generateAuthenticationOptions();
+
+      logger.info('Passkey authentication options issued', { requestId });
+
+      res.status(200).json({
+        success: true,
+        challengeId,
+        options,
+        requestId
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/auth/passkey/login/verify
+   * Verify a passkey assertion and authenticate the customer
+   */
+  router.post('/passkey/login/verify', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const { challengeId, response, returnTo } = req.body;
+
+      await requirePasskeyService();
+
+      if (!challengeId || !response) {
+        throw new ValidationError('Challenge ID and credential response are required', {
+          field: !challengeId ? 'challengeId' : 'response',
+          message: 'Challenge ID and credential response are required'
+        });
+      }
+
+      const result = await authService.authenticateWithPasskey(challengeId, response, returnTo);
+
+      if (sendTOTPChallenge(res, result, requestId)) {
+        return;
+      }
+
+      if (!result.success) {
+        throw new AuthenticationError(result.error || 'Authentication failed');
+      }
+
+      logger.info('Passkey authentication successful', {
+        requestId,
+        customerId: result.customer?.id
+      });
+
+      res.status(200).json({
+        success: true,
+        multipassUrl: result.multipassUrl,
+        linkToken: result.linkToken,
+        requestId
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/auth/oauth/:provider
+   * Initiate OAuth flow
+   * Requirements: 3.1
+   */
+  router.get('/oauth/:provider', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const { provider } = req.params;
+      const { returnTo, linkToken } = req.query;
+
+      // Validate provider
+      if (!provider) {
+        throw new ValidationError('OAuth provider is required', {
+          field: 'provider',
+          message: 'OAuth provider is required'
+        });
+      }
+
+      // Build redirect URI
+      const redirectUri = `${process.env.SHOPIFY_APP_URL || 'http://localhost:3000'}/api/auth/oauth/${provider}/callback`;
+
+      const returnPath = typeof returnTo === 'string' ? returnTo : '/';
+
+      // Requirement 3.1: Generate OAuth authorization URL
+      // State, PKCE verifier and nonce are stored server-side; only the state travels with the user
+      // With a link token, the callback links the provider to the signed-in customer instead
+      const authUrl = typeof linkToken === 'string'
+        ? await authService.initiateOAuthLink(provider, redirectUri, linkToken, returnPath)
+        : await authService.initiateOAuth(provider, redirectUri, returnPath);
+
+      if (!authUrl) {
+        throw new AuthenticationError('Link token is invalid or has expired');
+      }
+
+      logger.info('OAuth flow initiated', {
+        requestId,
+        provider,
+        hasReturnTo: !!returnTo,
+        isLink: typeof linkToken === 'string'
+      });
+
+      // Redirect to OAuth provider
+      res.redirect(authUrl);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/auth/oauth/:provider/callback
+   * Handle OAuth callback (JSON from the storefront, or form_post from Apple)
+   * Requirements: 3.2, 3.3, 3.4, 3.5
+   */
+  router.post('/oauth/:provider/callback', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const { provider } = req.params;
+      const { code, state, user, error: providerError } = req.body;
+
+      // Apple posts the callback as a form, so the browser has to be redirected rather than sent JSON
+      const isFormPost = !!req.is('application/x-www-form-urlencoded');
+
+      // The user cancelled or the provider refused the request
+      if (providerError) {
+        throw new AuthenticationError(`OAuth authorization failed: ${providerError}`);
+      }
+
+      // Validate required fields
+      if (!code) {
+        throw new ValidationError('Authorization code is required', {
+          field: 'code',
+          message: 'Authorization code is required'
+        });
+      }
+
+      if (!state) {
+        throw new ValidationError('State parameter is required', {
+          field: 'state',
+          message: 'State parameter is required'
+        });
+      }
+
+      // Apple only includes the user's name on the first authorization
+      const callbackUser = provider === 'apple' ? parseAppleCallbackUser(user) : undefined;
+
+      // Requirement 3.2, 3.3, 3.4, 3.5: Check state, exchange code, fetch profile, find/create customer, generate Multipass
+      const result = await authService.authenticateWithOAuth(provider, code, state, callbackUser);
+
+      // The user declined to share an email; the storefront collects and verifies one
+      if (result.errorCode === 'EMAIL_REQUIRED' && result.pendingOAuthToken) {
+        logger.info('OAuth sign-in waiting for email verification', { requestId, provider });
+
+        if (isFormPost) {
+          res.redirect(303, buildCollectEmailUrl(provider, result.pendingOAuthToken));
+          return;
+        }
+
+        res.status(200).json({
+          success: false,
+          emailRequired: true,
+          pendingToken: result.pendingOAuthToken,
+          requestId
+        });
+        return;
+      }
+
+      if (result.errorCode === 'IDENTITY_CONFLICT') {
+        throw new ConflictError(result.error || 'This sign-in method is already linked to another account', result.errorCode);
+      }
+
+      if (isFormPost && result.totpToken) {
+        res.redirect(303, buildTOTPChallengeUrl(result));
+        return;
+      }
+
+      if (sendTOTPChallenge(res, result, requestId)) {
+        return;
+      }
+
+      if (!result.success) {
+        throw new AuthenticationError(result.error || 'OAuth authentication failed');
+      }
+
+      logger.info('OAuth authentication successful', {
+        requestId,
+        provider,
+        customerId: result.customer?.id
+      });
+
+      if (isFormPost && result.multipassUrl) {
+        // 303 so the browser follows up with a GET
+        res.redirect(303, result.multipassUrl);
+        return;
+      }
+
+      // Return Multipass URL
+      res.status(200).json({
+        success: true,
+        multipassUrl: result.multipassUrl,
+        linkToken: result.linkToken,
+        requestId
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * GET /api/auth/oauth/:provider/callback
+   * Handle OAuth callback (GET method for redirect-based flows)
+   * Requirements: 3.2, 3.3, 3.4, 3.5
+   */
+  router.get('/oauth/:provider/callback', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const { provider } = req.params;
+      const { code, state } = req.query;
+
+      // Validate required fields
+      if (!code || typeof code !== 'string') {
+        throw new ValidationError('Authorization code is required', {
+          field: 'code',
+          message: 'Authorization code is required'
+        });
+      }
+
+      if (!state || typeof state !== 'string') {
+        throw new ValidationError('State parameter is required', {
+          field: 'state',
+          message: 'State parameter is required'
+        });
+      }
+
+      // Requirement 3.2, 3.3, 3.4, 3.5: Check state, exchange code, fetch profile, find/create customer, generate Multipass
+      const result = await authService.authenticateWithOAuth(provider, code, state);
+
+      // The user declined to share an email; the storefront collects and verifies one
+      if (result.errorCode === 'EMAIL_REQUIRED' && result.pendingOAuthToken) {
+        logger.info('OAuth sign-in waiting for email verification', { requestId, provider });
+        res.redirect(buildCollectEmailUrl(provider, result.pendingOAuthToken));
+        return;
+      }
+
+      if (result.errorCode === 'IDENTITY_CONFLICT') {
+        throw new ConflictError(result.error || 'This sign-in method is already linked to another account', result.errorCode);
+      }
+
+      if (result.totpToken) {
+        res.redirect(buildTOTPChallengeUrl(result));
+        return;
+      }
+
+      if (!result.success) {
+        throw new AuthenticationError(result.error || 'OAuth authentication failed');
+      }
+
+      logger.info('OAuth authentication successful', {
+        requestId,
+        provider,
+        customerId: result.customer?.id
+      });
+
+      // Redirect to Multipass URL
+      if (result.multipassUrl) {
+        res.redirect(result.multipassUrl);
+      } else {
+        throw new Error('Failed to generate Multipass URL');
+      }
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/auth/oauth/email/verify
+   * Finish an OAuth sign-in that had no email; the code is sent with /email/send-otp
+   */
+  router.post('/oauth/email/verify', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const { pendingToken, email, otp } = req.body;
+
+      if (!pendingToken) {
+        throw new ValidationError('Pending sign-in token is required', {
+          field: 'pendingToken',
+          message: 'Pending sign-in token is required'
+        });
+      }
+
+      if (!email) {
+        throw new ValidationError('Email is required', {
+          field: 'email',
+          message: 'Email is required'
+        });
+      }
+
+      validateOTPFormat(otp);
+
+      if (await otpService.isBlocked(emailOTPIdentifier(email))) {
+        throw new RateLimitError(
+          'Too many failed verification attempts. Please try again later',
+          900
+        );
+      }
+
+      const result = await authService.completeOAuthWithEmail(pendingToken, email, otp);
+
+      if (sendTOTPChallenge(res, result, requestId)) {
+        return;
+      }
+
+      if (!result.success) {
+        throw new AuthenticationError(result.error || 'Authentication failed');
+      }
+
+      logger.info('Pending OAuth sign-in completed', {
+        requestId,
+        customerId: result.customer?.id
+      });
+
+      res.status(200).json({
+        success: true,
+        multipassUrl: result.multipassUrl,
+        linkToken: result.linkToken,
+        requestId
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/auth/link/identities
+   * List the sign-in methods linked to a customer who has just signed in
+   */
+  router.post('/link/identities', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const { linkToken } = req.body;
+
+      if (!linkToken) {
+        throw new ValidationError('Link token is required', {
+          field: 'linkToken',
+          message: 'Link token is required'
+        });
+      }
+
+      const identities = await authService.getLinkedIdentities(linkToken);
+
+      if (!identities) {
+        throw new AuthenticationError('Link token is invalid or has expired');
+      }
+
+      res.status(200).json({
+        success: true,
+        identities: identities.map(({ provider, subject, verified, email, linkedAt, lastUsedAt }) => ({
+          provider,
+          subject,
+          verified,
+          email,
+          linkedAt,
+          lastUsedAt
+        })),
+        requestId
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/auth/link/sms
+   * Link a phone number; the code is sent with /send-otp
+   */
+  router.post('/link/sms', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const { linkToken, phone: phoneInput, otp, country } = req.body;
+
+      if (!linkToken) {
+        throw new ValidationError('Link token is required', {
+          field: 'linkToken',
+          message: 'Link token is required'
+        });
+      }
+
+      if (!phoneInput) {
+        throw new ValidationError('Phone number is required', {
+          field: 'phone',
+          message: 'Phone number is required'
+        });
+      }
+
+      const checked = authService.normalizePhoneNumber(String(phoneInput), typeof country === 'string' ? country : undefined);
+      if (!checked.valid) {
+        throw new ValidationError(checked.error, {
+          field: 'phone',
+          message: checked.error
+        });
+      }
+      const phone = checked.phone;
+
+      validateOTPFormat(otp);
+
+      if (await otpService.isBlocked(phone)) {
+        throw new RateLimitError(
+          'Too many failed verification attempts. Please try again later',
+          900
+        );
+      }
+
+      const result = await authService.linkPhone(linkToken, phone, otp);
+
+      if (result.errorCode === 'IDENTITY_CONFLICT') {
+        throw new ConflictError(result.error || 'This phone number is already linked to another account', result.errorCode);
+      }
+
+      if (!result.success) {
+        throw new AuthenticationError(result.error || 'Linking failed');
+      }
+
+      logger.info('Phone linked', {
+        requestId,
+        customerId: result.customer?.id
+      });
+
+      res.status(200).json({
+        success: true,
+        requestId
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/auth/link/email
+   * Link an email address; the code is sent with /email/send-otp
+   */
+  router.post('/link/email', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const { linkToken, email, otp } = req.body;
+
+      if (!linkToken) {
+        throw new ValidationError('Link token is required', {
+          field: 'linkToken',
+          message: 'Link token is required'
+        });
+      }
+
+      if (!email) {
+        throw new ValidationError('Email is required', {
+          field: 'email',
+          message: 'Email is required'
+        });
+      }
+
+      validateOTPFormat(otp);
+
+      if (await otpService.isBlocked(emailOTPIdentifier(email))) {
+        throw new RateLimitError(
+          'Too many failed verification attempts. Please try again later',
+          900
+        );
+      }
+
+      const result = await authService.linkEmail(linkToken, email, otp);
 
-      // Requirement 1.2, 1.3: Generate OTP and queue SMS job
-      await authService.sendOTP(phone, resend || false);
+      if (result.errorCode === 'IDENTITY_CONFLICT') {
+        throw new ConflictError(result.error || 'This email is already linked to another account', result.errorCode);
+      }
 
-      logger.info('OTP send request processed', {
+      if (!result.success) {
+        throw new AuthenticationError(result.error || 'Linking failed');
+      }
+
+      logger.info('Email linked', {
         requestId,
-        phone: maskPhone(phone),
-        resend: resend || false
+        customerId: result.customer?.id
       });
 
-      // Return success response immediately (non-blocking)
       res.status(200).json({
         success: true,
-        message: 'Verification code sent successfully',
         requestId
       });
     } catch (error) {
@@ -97,64 +1354,79 @@ export function createAuthRouter(
   });
 
   /**
-   * POST /api/auth/verify-otp
-   * Verify OTP and authenticate user
-   * Requirements: 1.4, 1.5, 4.1, 4.3
+   * POST /api/auth/link/remove
+   * Unlink a sign-in method; the last one cannot be removed
    */
-  router.post('/verify-otp', async (req: Request, res: Response, next: NextFunction) => {
+  router.post('/link/remove', async (req: Request, res: Response, next: NextFunction) => {
     const requestId = req.requestId;
 
     try {
-      const { phone, otp, returnTo } = req.body;
+      const { linkToken, provider, subject } = req.body;
 
-      // Validate required fields
-      if (!phone) {
-        throw new ValidationError('Phone number is required', {
-          field: 'phone',
-          message: 'Phone number is required'
+      if (!linkToken || !provider || !subject) {
+        throw new ValidationError('Link token, provider and subject are required', {
+          field: !linkToken ? 'linkToken' : !provider ? 'provider' : 'subject',
+          message: 'Link token, provider and subject are required'
         });
       }
 
-      if (!otp) {
-        throw new ValidationError('Verification code is required', {
-          field: 'otp',
-          message: 'Verification code is required'
-        });
-      }
+      const result = await authService.unlinkIdentity(linkToken, provider, subject);
 
-      // Requirement 1.4: Validate OTP format (6 digits)
-      if (!/^\d{6}$/.test(otp)) {
-        throw new ValidationError('Invalid verification code format', {
-          field: 'otp',
-          message: 'Verification code must be 6 digits'
+      if (!result.success) {
+        throw new ValidationError(result.error || 'This sign-in method cannot be removed', {
+          field: 'provider',
+          message: result.error || 'This sign-in method cannot be removed'
         });
       }
 
-      // Validate phone number format
-      if (!authService.validatePhoneNumber(phone)) {
-        throw new ValidationError('Invalid phone number format', {
-          field: 'phone',
-          message: 'Invalid phone number format'
+      logger.info('Identity unlinked', { requestId, provider });
+
+      res.status(200).json({
+        success: true,
+        requestId
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/auth/totp/verify
+   * Finish a sign-in held for the authenticator step with an authenticator or recovery code
+   * When the customer is enrolling, the code confirms the new app and recovery codes are returned once
+   */
+  router.post('/totp/verify', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const { totpToken, code } = req.body;
+
+      if (!totpToken) {
+        throw new ValidationError('Sign-in token is required', {
+          field: 'totpToken',
+          message: 'Sign-in token is required'
         });
       }
 
-      // Requirement 1.4, 1.5, 4.1, 4.3: Verify OTP, find/create customer, generate Multipass token
-      const result = await authService.authenticateWithPhone(phone, otp, returnTo);
+      validateTOTPCode(code);
+
+      const result = await authService.completeTOTPChallenge(totpToken, code);
 
       if (!result.success) {
-        throw new AuthenticationError(result.error || 'Authentication failed');
+        throwTOTPFailure(result);
       }
 
-      logger.info('OTP verification successful', {
+      logger.info('TOTP challenge completed', {
         requestId,
-        phone: maskPhone(phone),
         customerId: result.customer?.id
       });
 
-      // Return Multipass URL
       res.status(200).json({
         success: true,
         multipassUrl: result.multipassUrl,
+        passkeyEnrollmentToken: result.passkeyEnrollmentToken,
+        linkToken: result.linkToken,
+        recoveryCodes: result.recoveryCodes,
         requestId
       });
     } catch (error) {
@@ -163,64 +1435,74 @@ export function createAuthRouter(
   });
 
   /**
-   * POST /api/auth/email-login
-   * Authenticate with email and password
-   * Requirements: 2.1, 2.2, 2.3, 2.4, 2.5
+   * POST /api/auth/totp/verify/enroll
+   * Provisioning details for a customer the shop requires an authenticator app for
    */
-  router.post('/email-login', async (req: Request, res: Response, next: NextFunction) => {
+  router.post('/totp/verify/enroll', async (req: Request, res: Response, next: NextFunction) => {
     const requestId = req.requestId;
 
     try {
-      const { email, password, returnTo } = req.body;
+      const { totpToken } = req.body;
 
-      // Validate required fields
-      if (!email) {
-        throw new ValidationError('Email is required', {
-          field: 'email',
-          message: 'Email is required'
+      if (!totpToken) {
+        throw new ValidationError('Sign-in token is required', {
+          field: 'totpToken',
+          message: 'Sign-in token is required'
         });
       }
 
-      if (!password) {
-        throw new ValidationError('Password is required', {
-          field: 'password',
-          message: 'Password is required'
-        });
+      const enrollment = await authService.beginTOTPChallengeEnrollment(totpToken);
+
+      if (!enrollment) {
+        throw new AuthenticationError('Your sign-in has expired. Please start again.');
       }
 
-      // Requirement 2.1: Validate email format
-      if (!authService.validateEmail(email)) {
-        throw new ValidationError('Invalid email format', {
-          field: 'email',
-          message: 'Invalid email format'
+      res.status(200).json({
+        success: true,
+        secret: enrollment.secret,
+        otpauthUrl: enrollment.otpauthUrl,
+        requestId
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * POST /api/auth/totp/enroll
+   * Start adding an authenticator app after sign-in; the storefront shows otpauthUrl as a QR code
+   */
+  router.post('/totp/enroll', async (req: Request, res: Response, next: NextFunction) => {
+    const requestId = req.requestId;
+
+    try {
+      const { linkToken } = req.body;
+
+      if (!linkToken) {
+        throw new ValidationError('Link token is required', {
+          field: 'linkToken',
+          message: 'Link token is required'
         });
       }
 
-      // Validate password length
-      if (password.length < 8) {
-        throw new ValidationError('Password must be at least 8 characters', {
-          field: 'password',
-          message: 'Password must be at least 8 characters'
+      let enrollment;
+      try {
+        enrollment = await authService.beginTOTPEnrollment(linkToken);
+      } catch (error) {
+        throw new ValidationError(error instanceof Error ? error.message : 'Failed to start enrollment', {
+          field: 'linkToken',
+          message: error instanceof Error ? error.message : 'Failed to start enrollment'
         });
       }
 
-      // Requirement 2.2, 2.3, 2.4, 2.5: Authenticate, find/create customer, generate Multipass token
-      const result = await authService.authenticateWithEmail(email, password, returnTo);
-
-      if (!result.success) {
-        throw new AuthenticationError(result.error || 'Authentication failed');
+      if (!enrollment) {
+        throw new AuthenticationError('Link token is invalid or has expired');
       }
 
-      logger.info('Email authentication successful', {
-        requestId,
-        email,
-        customerId: result.customer?.id
-      });
-
-      // Return Multipass URL
       res.status(200).json({
         success: true,
-        multipassUrl: result.multipassUrl,
+        secret: enrollment.secret,
+        otpauthUrl: enrollment.otpauthUrl,
         requestId
       });
     } catch (error) {
@@ -229,104 +1511,73 @@ export function createAuthRouter(
   });
 
   /**
-   * GET /api/auth/oauth/:provider
-   * Initiate OAuth flow
-   * Requirements: 3.1
+   * POST /api/auth/totp/enroll/confirm
+   * Activate the authenticator app with its first code; recovery codes are returned once
    */
-  router.get('/oauth/:provider', async (req: Request, res: Response, next: NextFunction) => {
+  router.post('/totp/enroll/confirm', async (req: Request, res: Response, next: NextFunction) => {
     const requestId = req.requestId;
 
     try {
-      const { provider } = req.params;
-      const { returnTo } = req.query;
+      const { linkToken, code } = req.body;
 
-      // Validate provider
-      if (!provider) {
-        throw new ValidationError('OAuth provider is required', {
-          field: 'provider',
-          message: 'OAuth provider is required'
+      if (!linkToken) {
+        throw new ValidationError('Link token is required', {
+          field: 'linkToken',
+          message: 'Link token is required'
         });
       }
 
-      // Generate state parameter for CSRF protection
-      const state = Buffer.from(
-        JSON.stringify({
-          returnTo: returnTo || '/',
-          timestamp: Date.now(),
-          requestId
-        })
-      ).toString('base64');
+      validateTOTPCode(code);
 
-      // Build redirect URI
-      const redirectUri = `${process.env.SHOPIFY_APP_URL || 'http://localhost:3000'}/api/auth/oauth/${provider}/callback`;
+      const result = await authService.confirmTOTPEnrollment(linkToken, code);
 
-      // Requirement 3.1: Generate OAuth authorization URL
-      const authUrl = await authService.initiateOAuth(provider, redirectUri, state);
+      if (!result.success) {
+        throwTOTPFailure(result);
+      }
 
-      logger.info('OAuth flow initiated', {
+      logger.info('TOTP enrolled', {
         requestId,
-        provider,
-        hasReturnTo: !!returnTo
+        customerId: result.customer?.id
       });
 
-      // Redirect to OAuth provider
-      res.redirect(authUrl);
+      res.status(200).json({
+        success: true,
+        recoveryCodes: result.recoveryCodes,
+        requestId
+      });
     } catch (error) {
       next(error);
     }
   });
 
   /**
-   * POST /api/auth/oauth/:provider/callback
-   * Handle OAuth callback
-   * Requirements: 3.2, 3.3, 3.4, 3.5
+   * POST /api/auth/totp/recovery-codes
+   * Replace the recovery codes; the previous ones stop working
    */
-  router.post('/oauth/:provider/callback', async (req: Request, res: Response, next: NextFunction) => {
+  router.post('/totp/recovery-codes', async (req: Request, res: Response, next: NextFunction) => {
     const requestId = req.requestId;
 
     try {
-      const { provider } = req.params;
-      const { code, state } = req.body;
+      const { linkToken, code } = req.body;
 
-      // Validate required fields
-      if (!code) {
-        throw new ValidationError('Authorization code is required', {
-          field: 'code',
-          message: 'Authorization code is required'
+      if (!linkToken) {
+        throw new ValidationError('Link token is required', {
+          field: 'linkToken',
+          message: 'Link token is required'
         });
       }
 
-      // Parse state parameter
-      let returnTo = '/';
-      if (state) {
-        try {
-          const stateData = JSON.parse(Buffer.from(state, 'base64').toString());
-          returnTo = stateData.returnTo || '/';
-        } catch (error) {
-          logger.warn('Failed to parse state parameter', { requestId, error });
-        }
-      }
-
-      // Build redirect URI
-      const redirectUri = `${process.env.SHOPIFY_APP_URL || 'http://localhost:3000'}/api/auth/oauth/${provider}/callback`;
+      validateTOTPCode(code);
 
-      // Requirement 3.2, 3.3, 3.4, 3.5: Exchange code, fetch profile, find/create customer, generate Multipass
-      const result = await authService.authenticateWithOAuth(provider, code, redirectUri, returnTo);
+      const result = await authService.regenerateTOTPRecoveryCodes(linkToken, code);
 
       if (!result.success) {
-        throw new AuthenticationError(result.error || 'OAuth authentication failed');
+        throwTOTPFailure(result);
       }
 
-      logger.info('OAuth authentication successful', {
-        requestId,
-        provider,
-        customerId: result.customer?.id
-      });
-
-      // Return Multipass URL
       res.status(200).json({
         success: true,
-        multipassUrl: result.multipassUrl,
+        recoveryCodes: result.recoveryCodes,
         requestId
       });
     } catch (error) {
@@ -335,58 +1586,39 @@ export function createAuthRouter(
   });
 
   /**
-   * GET /api/auth/oauth/:provider/callback
-   * Handle OAuth callback (GET method for redirect-based flows)
-   * Requirements: 3.2, 3.3, 3.4, 3.5
+   * POST /api/auth/totp/disable
+   * Remove the authenticator app; not allowed when the shop requires one for the customer
    */
-  router.get('/oauth/:provider/callback', async (req: Request, res: Response, next: NextFunction) => {
+  router.post('/totp/disable', async (req: Request, res: Response, next: NextFunction) => {
     const requestId = req.requestId;
 
     try {
-      const { provider } = req.params;
-      const { code, state } = req.query;
+      const { linkToken, code } = req.body;
 
-      // Validate required fields
-      if (!code || typeof code !== 'string') {
-        throw new ValidationError('Authorization code is required', {
-          field: 'code',
-          message: 'Authorization code is required'
+      if (!linkToken) {
+        throw new ValidationError('Link token is required', {
+          field: 'linkToken',
+          message: 'Link token is required'
         });
       }
 
-      // Parse state parameter
-      let returnTo = '/';
-      if (state && typeof state === 'string') {
-        try {
-          const stateData = JSON.parse(Buffer.from(state, 'base64').toString());
-          returnTo = stateData.returnTo || '/';
-        } catch (error) {
-          logger.warn('Failed to parse state parameter', { requestId, error });
-        }
-      }
-
-      // Build redirect URI
-      const redirectUri = `${process.env.SHOPIFY_APP_URL || 'http://localhost:3000'}/api/auth/oauth/${provider}/callback`;
+      validateTOTPCode(code);
 
-      // Requirement 3.2, 3.3, 3.4, 3.5: Exchange code, fetch profile, find/create customer, generate Multipass
-      const result = await authService.authenticateWithOAuth(provider, code, redirectUri, returnTo);
+      const result = await authService.disableTOTP(linkToken, code);
 
       if (!result.success) {
-        throw new AuthenticationError(result.error || 'OAuth authentication failed');
+        throwTOTPFailure(result);
       }
 
-      logger.info('OAuth authentication successful', {
+      logger.info('TOTP disabled', {
         requestId,
-        provider,
         customerId: result.customer?.id
       });
 
-      // Redirect to Multipass URL
-      if (result.multipassUrl) {
-        res.redirect(result.multipassUrl);
-      } else {
-        throw new Error('Failed to generate Multipass URL');
-      }
+      res.status(200).json({
+        success: true,
+        requestId
+      });
     } catch (error) {
       next(error);
     }
@@ -468,56 +1700,33 @@ export function createAuthRouter(
   });
 
   /**
-   * POST /api/webhooks/sms-dlr
-   * Handle SMS delivery receipt webhook
+   * POST /api/auth/webhooks/sms-dlr
+   * Handle SMS delivery receipt webhook, kept for providers configured with this URL
    * Requirements: 5.2
    */
   router.post('/webhooks/sms-dlr', async (req: Request, res: Response) => {
     const requestId = req.requestId;
 
     try {
-      const payload = req.body;
-
-      logger.info('SMS DLR webhook received', {
-        requestId,
-        payload
-      });
-
       // Requirement 5.2: Parse DLR webhook and update delivery status
-      // The SMS provider will send delivery status updates
-      // We need to extract the message ID and status from the payload
-
-      // Note: The exact payload structure depends on the SMS provider
-      // For sms.to, the webhook payload typically includes:
-      // - message_id: The ID of the message
-      // - status: delivered, failed, etc.
-      // - timestamp: When the status changed
-
-      const messageId = payload.message_id || payload.messageId || payload.id;
-      const status = payload.status || payload.delivery_status;
+      const provider = typeof req.query.provider === 'string' ? req.query.provider : undefined;
+      const receipt = await smsService.handleDeliveryReceipt(provider, req.body);
 
-      if (!messageId) {
-        logger.warn('SMS DLR webhook missing message ID', {
-          requestId,
-          payload
-        });
+      if (!receipt) {
         // Return 200 to acknowledge receipt even if we can't process it
         return res.status(200).json({ received: true });
       }
 
-      // Update delivery status in Redis
-      await smsService.updateDeliveryStatus(messageId, status);
-
       logger.info('SMS delivery status updated', {
         requestId,
-        messageId,
-        status
+        messageId: receipt.messageId,
+        status: receipt.status
       });
 
       // Acknowledge receipt
       return res.status(200).json({
         success: true,
-        messageId,
+        messageId: receipt.messageId,
         requestId
       });
     } catch (error) {
@@ -530,9 +1739,155 @@ export function createAuthRouter(
     }
   });
 
+  /**
+   * Check a submitted one-time code against the OTP policy's length and characters
+   */
+  function validateOTPFormat(otp: unknown): void {
+    if (!otpService.isValidFormat(otp)) {
+      throw new ValidationError('Invalid verification code format', {
+        field: 'otp',
+        message: `Verification code must be ${otpService.describeFormat()}`
+      });
+    }
+  }
+
+  /**
+   * Get the passkey service, or refuse the request while the merchant has passkey sign-in turned off
+   */
+  async function requirePasskeyService(): Promise<PasskeyService> {
+    if (!passkeyService || !(await authService.isPasskeyEnabled())) {
+      throw new ValidationError('Passkey sign-in is not enabled', {
+        field: 'passkey',
+        message: 'Passkey sign-in is not enabled'
+      });
+    }
+
+    return passkeyService;
+  }
+
+  /**
+   * Apply the same resend cooldown and send limits as SMS to email sends
+   */
+  async function checkEmailSendLimits(
+    email: string,
+    resend?: boolean,
+    identifier: string = emailOTPIdentifier(email)
+  ): Promise<void> {
+    if (resend) {
+      const canResend = await otpService.canResendOTP(identifier);
+      if (!canResend.allowed) {
+        throw new RateLimitError(
+          `Please wait ${canResend.retryAfter} seconds before requesting another email`,
+          canResend.retryAfter || 30
+        );
+      }
+    }
+
+    const sendAttempt = await otpService.trackSendAttempt(identifier);
+    if (!sendAttempt.allowed) {
+      throw new RateLimitError(
+        'Too many send attempts. Please try again later',
+        sendAttempt.retryAfter || 600
+      );
+    }
+
+    if (await otpService.isBlocked(identifier)) {
+      throw new RateLimitError(
+        'Too many failed verification attempts. Please try again later',
+        900
+      );
+    }
+
+    await otpService.recordSendTime(identifier);
+  }
+
   return router;
 }
 
+/**
+ * Validate a new password with the same rules as email sign-up
+ */
+function validateNewPassword(password: unknown, field: string): void {
+  if (!password || typeof password !== 'string') {
+    throw new ValidationError('New password is required', {
+      field,
+      message: 'New password is required'
+    });
+  }
+
+  if (password.length < 8) {
+    throw new ValidationError('Password must be at least 8 characters', {
+      field,
+      message: 'Password must be at least 8 characters'
+    });
+  }
+}
+
+/**
+ * Answer a sign-in held for the authenticator step
+ * Returns false when the result is not a TOTP challenge
+ */
+function sendTOTPChallenge(res: Response, result: AuthResult, requestId?: string): boolean {
+  if (!result.totpToken) {
+    return false;
+  }
+
+  res.status(200).json({
+    success: false,
+    totpRequired: true,
+    totpEnrollmentRequired: result.errorCode === 'TOTP_ENROLLMENT_REQUIRED',
+    totpToken: result.totpToken,
+    requestId
+  });
+  return true;
+}
+
+/**
+ * Authenticator codes are 6 digits; recovery codes are 10 characters with an optional dash
+ */
+function validateTOTPCode(code: unknown): void {
+  if (!code || typeof code !== 'string' || code.length > 16) {
+    throw new ValidationError('Invalid authenticator code format', {
+      field: 'code',
+      message: 'Enter the 6-digit code from your authenticator app or a recovery code'
+    });
+  }
+}
+
+/**
+ * Map a failed authenticator code check to the error returned to the client
+ */
+function throwTOTPFailure(result: AuthResult): never {
+  if (result.errorCode === 'ACCOUNT_LOCKED') {
+    throw new RateLimitError(result.error || 'Too many failed attempts', result.retryAfter || 900);
+  }
+  throw new AuthenticationError(result.error || 'Invalid authenticator code');
+}
+
+/**
+ * Storefront login page URL that opens the authenticator step for a held sign-in
+ */
+function buildTOTPChallengeUrl(result: AuthResult): string {
+  const url = new URL(`https://${config.shopify.shopDomain}/account/login`);
+  url.searchParams.set('totp_pending', result.totpToken!);
+
+  if (result.errorCode === 'TOTP_ENROLLMENT_REQUIRED') {
+    url.searchParams.set('totp_enroll', '1');
+  }
+
+  return url.toString();
+}
+
+/**
+ * Storefront login page URL that opens the collect-email step for a pending OAuth sign-in
+ */
+function buildCollectEmailUrl(provider: string, pendingToken: string): string {
+  const url = new URL(`https://${config.shopify.shopDomain}/account/login`);
+  url.searchParams.set('oauth_pending', pendingToken);
+  url.searchParams.set('oauth_provider', provider);
+  return url.toString();
+}
+
 /**
  * Mask phone number for logging (PII protection)
  */
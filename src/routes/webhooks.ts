@@ -1,17 +1,19 @@
 /**
  * Webhook Routes
- * Handles webhooks from Shopify and SMS providers
+ * Handles webhooks from Shopify, SMS providers and WhatsApp
  * Requirements: 5.2, 8.1
  */
 
 import { NextFunction, Request, Response, Router } from 'express';
+import { config } from '../config/index.js';
 import { logger } from '../config/logger.js';
+import { WhatsAppProvider } from '../providers/WhatsAppProvider.js';
 import { OrderService } from '../services/OrderService.js';
 import { SMSService } from '../services/SMSService.js';
 
 export function createWebhookRouter(
   orderService: OrderService,
-  _smsService: SMSService
+  smsService: SMSService
 ): Router {
   const router = Router();
 
@@ -22,20 +24,20 @@ export function createWebhookRouter(
    */
   router.post('/sms-dlr', async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const dlrData = req.body;
-
-      logger.info('Received SMS DLR webhook', {
-        messageId: dlrData.messageId,
-        status: dlrData.status
-      });
-
-      // Process DLR data
-      // Note: Implementation depends on SMS provider's webhook format
-      // For sms.to, the webhook payload typically includes:
-      // - messageId: unique message identifier
-      // - status: delivery status (delivered, failed, etc.)
-      // - timestamp: delivery timestamp
+      // Senders name the provider in the callback URL, so the receipt is read in its format
+      const provider = typeof req.query.provider === 'string' ? req.query.provider : undefined;
+      const receipt = await smsService.handleDeliveryReceipt(provider, req.body);
+
+      if (receipt) {
+        logger.info('Received SMS DLR webhook', {
+          provider,
+          messageId: receipt.messageId,
+          status: receipt.status,
+          failureReason: receipt.failureReason
+        });
+      }
 
+      // Acknowledge unreadable receipts too, so the provider doesn't keep retrying them
       res.status(200).json({ success: true });
     } catch (error) {
       logger.error('Failed to process SMS DLR webhook', {
@@ -45,6 +47,70 @@ export function createWebhookRouter(
     }
   });
 
+  /**
+   * GET /api/webhooks/whatsapp
+   * Answer Meta's verification challenge when the status webhook is subscribed
+   */
+  router.get('/whatsapp', (req: Request, res: Response) => {
+    const mode = req.query['hub.mode'];
+    const token = req.query['hub.verify_token'];
+    const challenge = req.query['hub.challenge'];
+    const verifyToken = config.sms.whatsapp.webhookVerifyToken;
+
+    if (mode === 'subscribe' && verifyToken && token === verifyToken && typeof challenge === 'string') {
+      logger.info('WhatsApp webhook subscription verified');
+      return res.status(200).send(challenge);
+    }
+
+    logger.warn('WhatsApp webhook verification rejected', { mode });
+    return res.status(403).json({ success: false });
+  });
+
+  /**
+   * POST /api/webhooks/whatsapp
+   * Handle WhatsApp message status webhook (the WhatsApp channel's DLR)
+   */
+  router.post('/whatsapp', async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const provider = smsService.getProviders().find(
+        (p): p is WhatsAppProvider => p instanceof WhatsAppProvider
+      );
+
+      if (!provider) {
+        logger.warn('WhatsApp webhook received but the channel is not configured');
+        return res.status(200).json({ success: true });
+      }
+
+      let receipts;
+      try {
+        receipts = provider.parseWebhookStatuses(req.body);
+      } catch (error) {
+        // Acknowledge anyway so Meta doesn't keep retrying a payload we can't use
+        logger.warn('Ignoring unparseable WhatsApp webhook', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+        return res.status(200).json({ success: true });
+      }
+
+      for (const receipt of receipts) {
+        logger.info('Received WhatsApp status webhook', {
+          messageId: receipt.messageId,
+          status: receipt.status,
+          failureReason: receipt.failureReason
+        });
+
+        await smsService.updateDeliveryStatus(receipt.messageId, receipt.status);
+      }
+
+      return res.status(200).json({ success: true });
+    } catch (error) {
+      logger.error('Failed to process WhatsApp webhook', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return next(error);
+    }
+  });
+
   /**
    * POST /api/webhooks/shopify/orders/create
    * Handle Shopify orders/create webhook
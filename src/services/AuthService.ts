@@ -1,24 +1,147 @@
 /**
  * Auth Service
- * Orchestrates authentication flow across all methods (SMS, email, OAuth)
+ * Orchestrates authentication flow across all methods (SMS, email, OAuth, passkeys),
+ * plus the authenticator app (TOTP) second factor
  * Requirements: 1.1-1.5, 2.1-2.5, 3.1-3.5
  */
 
+import type { AuthenticationResponseJSON } from '@simplewebauthn/server';
 import * as bcrypt from 'bcrypt';
 import { Queue } from 'bull';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { config } from '../config/index.js';
 import { logger } from '../config/logger.js';
-import { SMSJobData } from '../config/queue.js';
-import { CreateCustomerData, CustomerService, ShopifyCustomer } from './CustomerService.js';
+import { SMSJobData, VoiceJobData } from '../config/queue.js';
+import { OAuthCallbackUser, UserProfile } from '../providers/IOAuthProvider.js';
+import { MessageChannel } from '../providers/ISMSProvider.js';
+import { appendOTPAutofill } from '../utils/otpMessage.js';
+import { checkSignInPhoneNumber, PhoneNumberCheck } from '../utils/phoneNumber.js';
+import { CreateCustomerData, CustomerAuthMethod, CustomerService, ShopifyCustomer } from './CustomerService.js';
+import { EmailService } from './EmailService.js';
+import { IdentityInput, IdentityService, LinkedIdentity } from './IdentityService.js';
 import { CustomerData, MultipassService } from './MultipassService.js';
 import { OAuthService } from './OAuthService.js';
 import { OTPService } from './OTPService.js';
+import { PasskeyService } from './PasskeyService.js';
+import { PasswordService, PasswordVerificationResult } from './PasswordService.js';
+import { SessionService } from './SessionService.js';
+import { SettingsService } from './SettingsService.js';
 import { SMSService } from './SMSService.js';
+import { TOTPEnrollment, TOTPService } from './TOTPService.js';
 
 export interface AuthResult {
   success: boolean;
   multipassUrl?: string;
   customer?: ShopifyCustomer;
+  passkeyEnrollmentToken?: string;
+  // Lets the customer link another sign-in method right after this login
+  linkToken?: string;
   error?: string;
+  errorCode?: 'PASSWORD_RESET_REQUIRED' | 'ACCOUNT_LOCKED' | 'EMAIL_REQUIRED' | 'IDENTITY_CONFLICT' | 'PROFILE_REQUIRED' |
+    'TOTP_REQUIRED' | 'TOTP_ENROLLMENT_REQUIRED';
+  retryAfter?: number;
+  // Set with EMAIL_REQUIRED; exchanged for a session once the customer verifies an email
+  pendingOAuthToken?: string;
+  // Set with PROFILE_REQUIRED; exchanged for a session once the customer completes their profile
+  profileToken?: string;
+  // Set with TOTP_REQUIRED or TOTP_ENROLLMENT_REQUIRED; exchanged for a session with an authenticator code
+  totpToken?: string;
+  // Returned once, when an authenticator app is enrolled or its recovery codes are replaced
+  recoveryCodes?: string[];
+}
+
+export interface ProfileCompletionData {
+  email: string;
+  firstName: string;
+  lastName?: string;
+  acceptsMarketing?: boolean;
+}
+
+export type PasswordResetChannel = 'email' | 'sms';
+
+interface MagicLinkPayload {
+  email: string;
+  nonce: string;
+  exp: number;
+  returnTo?: string;
+}
+
+// How long an SMS sign-in waits for the customer to complete their profile
+const PROFILE_COMPLETION_TTL_SECONDS = 900;
+
+// An SMS sign-in waiting for the customer to complete their profile
+interface PendingProfilePayload {
+  customerId: string;
+  phone: string;
+  exp: number;
+  returnTo?: string;
+  // Set once the authenticator step has passed or isn't needed, so the profile can be saved
+  secondFactorChecked?: boolean;
+}
+
+// A sign-in waiting for the customer's authenticator code
+interface PendingTOTPPayload {
+  customerId: string;
+  method: CustomerAuthMethod;
+  exp: number;
+  returnTo?: string;
+}
+
+// An OAuth sign-in waiting for the customer to verify an email address
+interface PendingOAuthPayload {
+  provider: string;
+  profile: Omit<UserProfile, 'email' | 'emailVerified'>;
+  exp: number;
+  returnTo?: string;
+}
+
+/**
+ * OTPService identifiers for email flows
+ * OTPService is keyed by an opaque identifier, so email codes and magic links
+ * share its storage, attempt limits and blocking without colliding with phones
+ */
+export function emailOTPIdentifier(email: string): string {
+  return `email:${email.trim().toLowerCase()}`;
+}
+
+function magicLinkIdentifier(email: string): string {
+  return `magic:${email.trim().toLowerCase()}`;
+}
+
+export function passwordResetIdentifier(email: string): string {
+  return `reset:${email.trim().toLowerCase()}`;
+}
+
+// Authenticator codes share OTPService attempt counting and blocking, per customer
+export function totpIdentifier(customerId: string): string {
+  return `totp:${customerId}`;
+}
+
+// Subject of an 'email' identity
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Merchant-configured OIDC providers are registered as oidc-<slug>
+function getOAuthAuthMethod(providerName: string): CustomerAuthMethod {
+  return providerName.startsWith('oidc-') ? 'oidc' : providerName as CustomerAuthMethod;
+}
+
+function linkTokenExpired(): AuthResult {
+  return {
+    success: false,
+    error: 'Your session has expired. Please sign in again to link another sign-in method'
+  };
+}
+
+// OAuth identities are keyed by the provider's user ID, which outlives email changes
+function getOAuthIdentity(providerName: string, profile: UserProfile): IdentityInput {
+  return {
+    provider: providerName,
+    subject: profile.id,
+    verified: profile.emailVerified,
+    email: profile.email || undefined
+  };
 }
 
 export class AuthService {
@@ -28,6 +151,14 @@ export class AuthService {
   private smsService: SMSService;
   private oauthService: OAuthService;
   private smsQueue: Queue<SMSJobData>;
+  private passkeyService?: PasskeyService;
+  private emailService?: EmailService;
+  private passwordService?: PasswordService;
+  private sessionService?: SessionService;
+  private identityService?: IdentityService;
+  private settingsService?: SettingsService;
+  private totpService?: TOTPService;
+  private voiceQueue?: Queue<VoiceJobData>;
 
   constructor(
     multipassService: MultipassService,
@@ -35,7 +166,15 @@ export class AuthService {
     otpService: OTPService,
     smsService: SMSService,
     oauthService: OAuthService,
-    smsQueue: Queue<SMSJobData>
+    smsQueue: Queue<SMSJobData>,
+    passkeyService?: PasskeyService,
+    emailService?: EmailService,
+    passwordService?: PasswordService,
+    sessionService?: SessionService,
+    identityService?: IdentityService,
+    settingsService?: SettingsService,
+    totpService?: TOTPService,
+    voiceQueue?: Queue<VoiceJobData>
   ) {
     this.multipassService = multipassService;
     this.customerService = customerService;
@@ -43,18 +182,27 @@ export class AuthService {
     this.smsService = smsService;
     this.oauthService = oauthService;
     this.smsQueue = smsQueue;
+    this.passkeyService = passkeyService;
+    this.emailService = emailService;
+    this.passwordService = passwordService;
+    this.sessionService = sessionService;
+    this.identityService = identityService;
+    this.settingsService = settingsService;
+    this.totpService = totpService;
+    this.voiceQueue = voiceQueue;
 
     logger.info('AuthService initialized');
   }
 
   /**
-   * Send OTP to phone number
+   * Send OTP to phone number, by SMS or WhatsApp
    * Requirements: 1.1, 1.2, 1.3
    */
-  async sendOTP(phone: string, resend: boolean = false): Promise<void> {
+  async sendOTP(phone: string, resend: boolean = false, channel: MessageChannel = 'sms'): Promise<void> {
     logger.info('Sending OTP', {
       phone: this.maskPhone(phone),
-      resend
+      resend,
+      channel
     });
 
     // Requirement 1.1: Validate phone number format (E.164)
@@ -82,19 +230,89 @@ export class AuthService {
     });
 
     // Requirement 1.3: Queue SMS sending job
-    const message = `Your verification code is: ${otp}. Valid for 5 minutes.`;
+    // Autofill lines let the storefront fill the code in (WebOTP) and native apps read it (SMS Retriever)
+    const { autofill } = config.sms;
+    const message = appendOTPAutofill(`Your verification code is: ${otp}. Valid for ${Math.round(this.otpService.policy.ttlSeconds / 60)} minutes.`, otp, {
+      webOtpDomain: autofill.webOtpEnabled ? autofill.webOtpDomain || config.shopify.shopDomain : undefined,
+      androidAppHash: autofill.androidAppHash
+    });
     const callbackUrl = `${process.env.SHOPIFY_APP_URL || 'http://localhost:3000'}/api/webhooks/sms-dlr`;
 
     await this.smsQueue.add({
       phone,
       message,
       attemptNumber: resend ? 1 : 0,
-      callbackUrl
+      callbackUrl,
+      // SMSService falls back to SMS if the channel can't deliver
+      channel,
+      code: otp
     });
+    await this.otpService.recordQueuedSend(phone);
 
     logger.info('SMS job queued', {
       phone: this.maskPhone(phone),
-      resend
+      resend,
+      channel
+    });
+  }
+
+  /**
+   * Whether codes can be read out in a voice call
+   */
+  isVoiceOTPEnabled(): boolean {
+    return !!this.voiceQueue;
+  }
+
+  /**
+   * Whether passkeys are configured and the merchant has turned passkey sign-in on in settings
+   * Settings errors count as off, since every customer can still sign in another way
+   */
+  async isPasskeyEnabled(): Promise<boolean> {
+    if (!this.passkeyService || !this.settingsService) {
+      return false;
+    }
+
+    try {
+      return await this.settingsService.isMethodEnabled('passkey');
+    } catch (error) {
+      logger.error('Failed to check whether passkey sign-in is enabled', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Send a fresh OTP read out in a voice call, for customers whose SMS isn't arriving
+   * The caller is expected to have checked OTPService.trackVoiceCall
+   */
+  async sendVoiceOTP(phone: string): Promise<void> {
+    if (!this.voiceQueue) {
+      throw new Error('Voice calls are not configured');
+    }
+
+    if (!this.validatePhoneNumber(phone)) {
+      throw new Error('Invalid phone number format. Please use E.164 format (e.g., +1234567890)');
+    }
+
+    if (await this.otpService.isBlocked(phone)) {
+      logger.warn('Voice OTP attempted for blocked phone', {
+        phone: this.maskPhone(phone)
+      });
+      throw new Error('Too many failed attempts. Please try again later.');
+    }
+
+    const otp = this.otpService.generateOTP();
+    await this.otpService.storeOTP(phone, otp);
+
+    await this.voiceQueue.add({
+      phone,
+      code: otp,
+      attemptNumber: 0
+    });
+
+    logger.info('Voice OTP job queued', {
+      phone: this.maskPhone(phone)
     });
   }
 
@@ -125,8 +343,9 @@ export class AuthService {
         phone: this.maskPhone(phone)
       });
 
-      // Requirement 1.5: Find or create customer
-      let customer = await this.customerService.findByPhone(phone);
+      // Requirement 1.5: Find or create customer, preferring the customer the phone was linked to
+      let customer = await this.findLinkedCustomer('sms', phone) ||
+        await this.customerService.findByPhone(phone);
 
       if (!customer) {
         logger.info('Customer not found, creating new customer', {
@@ -150,6 +369,22 @@ export class AuthService {
       await this.customerService.setAuthMethod(customer.id, 'sms');
       await this.customerService.setPhoneVerified(customer.id, true);
       await this.customerService.setLastLogin(customer.id);
+      await this.recordIdentity(customer.id, { provider: 'sms', subject: phone, verified: true });
+
+      // Customers with an authenticator app enter a code from it before the Multipass redirect,
+      // and before the profile step, which could otherwise change the email of a protected account
+      const totpChallenge = await this.createTOTPChallenge(customer, 'sms', returnTo);
+
+      if (totpChallenge) {
+        return totpChallenge;
+      }
+
+      // Customers without an email or name complete their profile before the Multipass redirect
+      const profileChallenge = await this.createProfileChallenge(customer, phone, returnTo);
+
+      if (profileChallenge) {
+        return profileChallenge;
+      }
 
       // Requirement 4.1, 4.3: Generate Multipass token
       const multipassUrl = await this.generateMultipassUrl(customer, returnTo);
@@ -162,7 +397,9 @@ export class AuthService {
       return {
         success: true,
         multipassUrl,
-        customer
+        customer,
+        passkeyEnrollmentToken: await this.createPasskeyEnrollment(customer),
+        linkToken: await this.createLinkToken(customer)
       };
     } catch (error) {
       logger.error('Phone authentication failed', {
@@ -177,9 +414,115 @@ export class AuthService {
     }
   }
 
+  /**
+   * Finish an SMS sign-in once the customer has given their email, name and marketing consent
+   * The details are saved to the Shopify customer, so it no longer carries a placeholder email
+   */
+  async completeProfile(profileToken: string, profile: ProfileCompletionData): Promise<AuthResult> {
+    const pending = this.verifyPendingProfile(profileToken);
+
+    if (!pending || pending.exp < Date.now()) {
+      logger.warn('Invalid or expired profile completion token');
+      return {
+        success: false,
+        error: 'Your sign-in has expired. Please start again.'
+      };
+    }
+
+    const email = normalizeEmail(profile.email || '');
+    const firstName = profile.firstName?.trim();
+    const lastName = profile.lastName?.trim() || undefined;
+
+    if (!this.validateEmail(email)) {
+      return {
+        success: false,
+        error: 'Invalid email format'
+      };
+    }
+
+    if (!firstName) {
+      return {
+        success: false,
+        error: 'First name is required'
+      };
+    }
+
+    logger.info('Completing customer profile', {
+      customerId: pending.customerId,
+      phone: this.maskPhone(pending.phone)
+    });
+
+    try {
+      const customer = await this.customerService.findById(pending.customerId);
+
+      if (!customer) {
+        return {
+          success: false,
+          error: 'Your sign-in has expired. Please start again.'
+        };
+      }
+
+      // Tokens issued before the authenticator step was checked must not change the account
+      if (!pending.secondFactorChecked) {
+        const totpChallenge = await this.createTOTPChallenge(customer, 'sms', pending.returnTo);
+
+        if (totpChallenge) {
+          return totpChallenge;
+        }
+      }
+
+      // Shopify allows one customer per email; the owner has to sign in with email and link this phone
+      const emailOwner = await this.customerService.findByEmail(email);
+
+      if (emailOwner && emailOwner.id !== customer.id) {
+        logger.warn('Profile email belongs to another customer', {
+          customerId: customer.id
+        });
+        return {
+          success: false,
+          error: 'This email is already used by another account. Sign in with your email to add this phone number.',
+          errorCode: 'IDENTITY_CONFLICT'
+        };
+      }
+
+      const updated = await this.customerService.update(customer.id, {
+        email,
+        firstName,
+        lastName,
+        acceptsMarketing: profile.acceptsMarketing ?? false
+      });
+
+      const multipassUrl = await this.generateMultipassUrl(updated, pending.returnTo);
+
+      logger.info('Profile completed, phone authentication successful', {
+        customerId: updated.id,
+        phone: this.maskPhone(pending.phone)
+      });
+
+      return {
+        success: true,
+        multipassUrl,
+        customer: updated,
+        passkeyEnrollmentToken: await this.createPasskeyEnrollment(updated),
+        linkToken: await this.createLinkToken(updated)
+      };
+    } catch (error) {
+      logger.error('Profile completion failed', {
+        customerId: pending.customerId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Profile completion failed'
+      };
+    }
+  }
+
   /**
    * Validate phone number format (E.164)
    * Requirement 1.1: Validate phone number format
+   * Only checks the syntax; numbers typed by customers go through normalizePhoneNumber first
    */
   validatePhoneNumber(phone: string): boolean {
     // E.164 format: +[country code][number]
@@ -189,6 +532,17 @@ export class AuthService {
     return e164Regex.test(phone);
   }
 
+  /**
+   * Normalize a phone number typed by a customer to E.164, using the storefront's country for
+   * national-format input, and refuse landlines and other numbers that can't receive codes
+   */
+  normalizePhoneNumber(input: string, defaultRegion?: string): PhoneNumberCheck {
+    return checkSignInPhoneNumber(input, {
+      defaultRegion: defaultRegion || config.phone.defaultRegion,
+      rejectVoip: config.phone.rejectVoip
+    });
+  }
+
   /**
    * Generate Multipass URL for customer
    * Requirements: 4.1, 4.2, 4.3
@@ -196,7 +550,7 @@ export class AuthService {
   private async generateMultipassUrl(customer: ShopifyCustomer, returnTo?: string): Promise<string> {
     // Prepare customer data for Multipass
     const customerData: CustomerData = {
-      email: customer.email || `${customer.phone}@phone.local`, // Fallback email for phone-only customers
+      email: customer.email || `${customer.phone || customer.id}@phone.local`, // Fallback email for phone-only customers
       created_at: customer.created_at || new Date().toISOString(),
       first_name: customer.first_name,
       last_name: customer.last_name,
@@ -230,8 +584,18 @@ export class AuthService {
         };
       }
 
-      // Requirement 2.2: Find customer in Shopify
-      let customer = await this.customerService.findByEmail(email);
+      // Passwords can't be checked without the credential store, so fail closed
+      if (!this.passwordService) {
+        logger.error('Password login attempted without a password store configured', { email });
+        return {
+          success: false,
+          error: 'Password sign-in is not configured'
+        };
+      }
+
+      // Requirement 2.2: Find customer in Shopify, preferring the customer the email was linked to
+      let customer = await this.findLinkedCustomer('email', normalizeEmail(email)) ||
+        await this.customerService.findByEmail(email);
 
       if (!customer) {
         // Requirement 2.4: Create new customer if not exists
@@ -247,6 +611,7 @@ export class AuthService {
         };
 
         customer = await this.customerService.create(customerData);
+        await this.passwordService.setPassword(email, password);
 
         logger.info('New customer created with email', {
           customerId: customer.id,
@@ -254,9 +619,13 @@ export class AuthService {
         });
       } else {
         // Requirement 2.3: Verify password with bcrypt
-        // Note: In a real implementation, we would need to store and verify passwords
-        // For Shopify, we might use customer metafields or a separate database
-        // For now, we'll assume password verification is handled
+        const verification = await this.passwordService.verifyPassword(email, password);
+        const failure = this.passwordVerificationFailure(verification, customer.id, email);
+
+        if (failure) {
+          return failure;
+        }
+
         logger.info('Existing customer found', {
           customerId: customer.id,
           email
@@ -264,8 +633,16 @@ export class AuthService {
       }
 
       // Update customer metafields
+      // A password proves knowledge of the password, not ownership of the address
       await this.customerService.setAuthMethod(customer.id, 'email');
       await this.customerService.setLastLogin(customer.id);
+      await this.recordIdentity(customer.id, { provider: 'email', subject: normalizeEmail(email), verified: false });
+
+      const totpChallenge = await this.createTOTPChallenge(customer, 'email', returnTo);
+
+      if (totpChallenge) {
+        return totpChallenge;
+      }
 
       // Requirement 2.5: Generate Multipass token
       const multipassUrl = await this.generateMultipassUrl(customer, returnTo);
@@ -278,7 +655,9 @@ export class AuthService {
       return {
         success: true,
         multipassUrl,
-        customer
+        customer,
+        passkeyEnrollmentToken: await this.createPasskeyEnrollment(customer),
+        linkToken: await this.createLinkToken(customer)
       };
     } catch (error) {
       logger.error('Email authentication failed', {
@@ -294,163 +673,1649 @@ export class AuthService {
   }
 
   /**
-   * Validate email format
-   * Requirement 2.1: Validate email format
+   * Send a one-time code by email
+   * Reuses OTPService storage, TTL and blocking under an email identifier
    */
-  validateEmail(email: string): boolean {
-    // RFC 5322 simplified email regex
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email);
-  }
+  async sendEmailOTP(email: string): Promise<void> {
+    logger.info('Sending email OTP', { email });
 
-  /**
-   * Hash password with bcrypt
-   * Requirement 2.3, 9.3: Hash passwords using bcrypt with cost factor >= 12
-   */
-  async hashPassword(password: string): Promise<string> {
-    const saltRounds = 12; // Cost factor of 12 as per requirement 9.3
-    const hashedPassword = await bcrypt.hash(password, saltRounds);
-    
-    logger.info('Password hashed successfully', {
-      saltRounds
+    if (!this.validateEmail(email)) {
+      throw new Error('Invalid email format');
+    }
+
+    const emailService = this.requireEmailService();
+    const identifier = emailOTPIdentifier(email);
+
+    if (await this.otpService.isBlocked(identifier)) {
+      logger.warn('Email OTP send attempted for blocked email', { email });
+      throw new Error('Too many failed attempts. Please try again later.');
+    }
+
+    const otp = this.otpService.generateOTP();
+    await this.otpService.storeOTP(identifier, otp);
+
+    const ttlMinutes = Math.round(this.otpService.policy.ttlSeconds / 60);
+    const result = await emailService.sendEmail({
+      to: email,
+      subject: 'Your sign-in code',
+      text: `Your verification code is: ${otp}. Valid for ${ttlMinutes} minutes.`
     });
-    
-    return hashedPassword;
-  }
 
-  /**
-   * Verify password with bcrypt
-   * Requirement 2.3: Verify password using bcrypt
-   */
-  async verifyPassword(password: string, hashedPassword: string): Promise<boolean> {
-    try {
-      const isValid = await bcrypt.compare(password, hashedPassword);
-      return isValid;
-    } catch (error) {
-      logger.error('Password verification failed', {
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
-      return false;
+    if (!result.success) {
+      await this.otpService.deleteOTP(identifier);
+      throw new Error(result.error || 'Failed to send email');
     }
+
+    logger.info('Email OTP sent', {
+      email,
+      provider: result.provider
+    });
   }
 
   /**
-   * Initiate OAuth flow
-   * Requirements: 3.1
+   * Verify an emailed one-time code and authenticate
    */
-  async initiateOAuth(providerName: string, redirectUri: string, state?: string): Promise<string> {
-    logger.info('Initiating OAuth flow', {
-      provider: providerName,
-      redirectUri
-    });
+  async authenticateWithEmailOTP(email: string, otp: string, returnTo?: string): Promise<AuthResult> {
+    logger.info('Authenticating with email OTP', { email });
 
     try {
-      // Requirement 3.1: Generate OAuth authorization URL
-      const authUrl = await this.oauthService.initiateOAuth(providerName, redirectUri, state);
+      const isValid = await this.otpService.verifyOTP(emailOTPIdentifier(email), otp);
 
-      logger.info('OAuth authorization URL generated', {
-        provider: providerName
-      });
+      if (!isValid) {
+        logger.warn('Invalid email OTP provided', { email });
+        return {
+          success: false,
+          error: 'Invalid or expired verification code'
+        };
+      }
 
-      return authUrl;
+      return await this.completePasswordlessEmailLogin(email, returnTo);
     } catch (error) {
-      logger.error('Failed to initiate OAuth', {
-        provider: providerName,
+      logger.error('Email OTP authentication failed', {
+        email,
         error: error instanceof Error ? error.message : 'Unknown error'
       });
-      throw error;
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Authentication failed'
+      };
     }
   }
 
   /**
-   * Authenticate with OAuth
-   * Requirements: 3.2, 3.3, 3.4, 3.5
+   * Email a signed, single-use magic link
+   * The link carries an HMAC-signed payload; its nonce is stored through OTPService
+   * so it expires, can only be used once and counts towards blocking
    */
-  async authenticateWithOAuth(
-    providerName: string,
-    code: string,
-    redirectUri: string,
-    returnTo?: string
-  ): Promise<AuthResult> {
-    logger.info('Authenticating with OAuth', {
-      provider: providerName
-    });
+  async sendMagicLink(email: string, returnTo?: string): Promise<void> {
+    logger.info('Sending magic link', { email });
 
-    try {
-      // Requirement 3.2, 3.3: Handle OAuth callback, exchange code for tokens, fetch user profile
-      const profile = await this.oauthService.handleCallback(providerName, code, redirectUri);
+    if (!this.validateEmail(email)) {
+      throw new Error('Invalid email format');
+    }
 
-      logger.info('OAuth profile fetched', {
-        provider: providerName,
-        userId: profile.id,
-        email: profile.email
-      });
+    const emailService = this.requireEmailService();
 
-      // Requirement 3.4: Find customer in Shopify by email
-      let customer = await this.customerService.findByEmail(profile.email);
+    if (await this.otpService.isBlocked(emailOTPIdentifier(email)) ||
+        await this.otpService.isBlocked(magicLinkIdentifier(email))) {
+      logger.warn('Magic link send attempted for blocked email', { email });
+      throw new Error('Too many failed attempts. Please try again later.');
+    }
 
-      if (!customer) {
-        // Requirement 3.5: Create new customer with OAuth profile data
-        logger.info('Customer not found, creating new customer from OAuth profile', {
-          provider: providerName,
-          email: profile.email
-        });
+    const ttl = config.email.magicLinkTtlSeconds;
+    const nonce = randomBytes(16).toString('hex');
+    await this.otpService.storeOTP(magicLinkIdentifier(email), nonce, ttl);
 
-        const customerData: CreateCustomerData = {
-          email: profile.email,
-          firstName: profile.firstName,
-          lastName: profile.lastName,
-          phone: profile.phone,
-          tags: [`${providerName}-auth`]
-        };
+    const token = this.signToken({
+      email: email.trim().toLowerCase(),
+      nonce,
+      exp: Date.now() + ttl * 1000,
+      returnTo
+    });
+    const link = `${config.shopify.appUrl}/api/auth/email/magic-link/verify?token=${encodeURIComponent(token)}`;
+    const ttlMinutes = Math.round(ttl / 60);
+
+    const result = await emailService.sendEmail({
+      to: email,
+      subject: 'Your sign-in link',
+      text: `Click the link below to sign in. It is valid for ${ttlMinutes} minutes and can only be used once.\n\n${link}`,
+      html: `<p>Click the link below to sign in. It is valid for ${ttlMinutes} minutes and can only be used once.</p><p><a href="${link}">Sign in</a></p>`
+    });
 
-        customer = await this.customerService.create(customerData);
+    if (!result.success) {
+      await this.otpService.deleteOTP(magicLinkIdentifier(email));
+      throw new Error(result.error || 'Failed to send email');
+    }
 
-        logger.info('New customer created from OAuth profile', {
-          customerId: customer.id,
-          provider: providerName,
-          email: profile.email
-        });
-      } else {
-        logger.info('Existing customer found for OAuth profile', {
-          customerId: customer.id,
+    logger.info('Magic link sent', {
+      email,
+      provider: result.provider
+    });
+  }
+
+  /**
+   * Authenticate with a magic link token
+   */
+  async authenticateWithMagicLink(token: string): Promise<AuthResult> {
+    const payload = this.verifyMagicLinkSignature(token);
+
+    if (!payload) {
+      logger.warn('Magic link with invalid signature');
+      return {
+        success: false,
+        error: 'Invalid or expired sign-in link'
+      };
+    }
+
+    logger.info('Authenticating with magic link', { email: payload.email });
+
+    try {
+      if (payload.exp < Date.now()) {
+        logger.warn('Expired magic link used', { email: payload.email });
+        return {
+          success: false,
+          error: 'Invalid or expired sign-in link'
+        };
+      }
+
+      if (await this.otpService.isBlocked(emailOTPIdentifier(payload.email))) {
+        return {
+          success: false,
+          error: 'Too many failed attempts. Please try again later.'
+        };
+      }
+
+      const isValid = await this.otpService.verifyOTP(magicLinkIdentifier(payload.email), payload.nonce);
+
+      if (!isValid) {
+        logger.warn('Magic link already used or expired', { email: payload.email });
+        return {
+          success: false,
+          error: 'Invalid or expired sign-in link'
+        };
+      }
+
+      return await this.completePasswordlessEmailLogin(payload.email, payload.returnTo);
+    } catch (error) {
+      logger.error('Magic link authentication failed', {
+        email: payload.email,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Authentication failed'
+      };
+    }
+  }
+
+  /**
+   * Send a single-use password reset link by email or SMS
+   * Unknown emails are ignored without an error so the endpoint can't be used to discover accounts
+   */
+  async requestPasswordReset(email: string, channel: PasswordResetChannel = 'email'): Promise<void> {
+    logger.info('Password reset requested', { email, channel });
+
+    if (!this.validateEmail(email)) {
+      throw new Error('Invalid email format');
+    }
+
+    const passwordService = this.requirePasswordService();
+    const emailService = channel === 'email' ? this.requireEmailService() : undefined;
+
+    const customer = await this.customerService.findByEmail(email);
+
+    if (!customer) {
+      logger.info('Password reset requested for unknown email', { email });
+      return;
+    }
+
+    if (channel === 'sms' && !customer.phone) {
+      logger.warn('SMS password reset requested for customer without a phone number', {
+        customerId: customer.id
+      });
+      return;
+    }
+
+    const token = await passwordService.createResetToken(email);
+    const link = new URL(config.password.resetUrl);
+    link.searchParams.set('reset_token', token);
+    const ttlMinutes = Math.round(config.password.resetTokenTtlSeconds / 60);
+
+    if (!emailService) {
+      const callbackUrl = `${process.env.SHOPIFY_APP_URL || 'http://localhost:3000'}/api/webhooks/sms-dlr`;
+
+      await this.smsQueue.add({
+        phone: customer.phone!,
+        message: `Reset your password (valid for ${ttlMinutes} minutes): ${link.toString()}`,
+        attemptNumber: 0,
+        callbackUrl
+      });
+
+      logger.info('Password reset SMS queued', {
+        customerId: customer.id,
+        phone: this.maskPhone(customer.phone!)
+      });
+      return;
+    }
+
+    const result = await emailService.sendEmail({
+      to: email,
+      subject: 'Reset your password',
+      text: `Use the link below to choose a new password. It is valid for ${ttlMinutes} minutes and can only be used once.\n\n${link.toString()}\n\nIf you didn't ask to reset your password, you can ignore this email.`,
+      html: `<p>Use the link below to choose a new password. It is valid for ${ttlMinutes} minutes and can only be used once.</p><p><a href="${link.toString()}">Reset password</a></p><p>If you didn't ask to reset your password, you can ignore this email.</p>`
+    });
+
+    if (!result.success) {
+      await passwordService.revokeResetToken(token);
+      throw new Error(result.error || 'Failed to send email');
+    }
+
+    logger.info('Password reset email sent', {
+      customerId: customer.id,
+      provider: result.provider
+    });
+  }
+
+  /**
+   * Set a new password with a reset token
+   * Clears any lockout and signs the customer out everywhere
+   */
+  async resetPassword(token: string, newPassword: string): Promise<AuthResult> {
+    try {
+      const passwordService = this.requirePasswordService();
+      const email = await passwordService.consumeResetToken(token);
+
+      if (!email) {
+        logger.warn('Invalid or expired password reset token used');
+        return {
+          success: false,
+          error: 'Invalid or expired reset link'
+        };
+      }
+
+      const customer = await this.customerService.findByEmail(email);
+
+      if (!customer) {
+        logger.warn('Password reset for email without a customer', { email });
+        return {
+          success: false,
+          error: 'Invalid or expired reset link'
+        };
+      }
+
+      await passwordService.setPassword(email, newPassword);
+      await passwordService.clearLockout(email);
+      await this.revokeCustomerSessions(customer.id);
+
+      logger.info('Password reset completed', {
+        customerId: customer.id,
+        email
+      });
+
+      return {
+        success: true,
+        customer
+      };
+    } catch (error) {
+      logger.error('Password reset failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Password reset failed'
+      };
+    }
+  }
+
+  /**
+   * Change a password after verifying the current one
+   * Wrong current passwords count towards the same lockout as sign-in
+   */
+  async changePassword(email: string, currentPassword: string, newPassword: string): Promise<AuthResult> {
+    logger.info('Password change requested', { email });
+
+    try {
+      const passwordService = this.requirePasswordService();
+      const customer = await this.customerService.findByEmail(email);
+
+      if (!customer) {
+        return {
+          success: false,
+          error: 'Invalid email or password'
+        };
+      }
+
+      const verification = await passwordService.verifyPassword(email, currentPassword);
+      const failure = this.passwordVerificationFailure(verification, customer.id, email);
+
+      if (failure) {
+        return failure;
+      }
+
+      await passwordService.setPassword(email, newPassword);
+      await this.revokeCustomerSessions(customer.id);
+
+      logger.info('Password changed', {
+        customerId: customer.id,
+        email
+      });
+
+      return {
+        success: true,
+        customer
+      };
+    } catch (error) {
+      logger.error('Password change failed', {
+        email,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Password change failed'
+      };
+    }
+  }
+
+  /**
+   * Validate email format
+   * Requirement 2.1: Validate email format
+   */
+  validateEmail(email: string): boolean {
+    // RFC 5322 simplified email regex
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    return emailRegex.test(email);
+  }
+
+  /**
+   * Hash password with bcrypt
+   * Requirement 2.3, 9.3: Hash passwords using bcrypt with cost factor >= 12
+   */
+  async hashPassword(password: string): Promise<string> {
+    const saltRounds = 12; // Cost factor of 12 as per requirement 9.3
+    const hashedPassword = await bcrypt.hash(password, saltRounds);
+    
+    logger.info('Password hashed successfully', {
+      saltRounds
+    });
+    
+    return hashedPassword;
+  }
+
+  /**
+   * Verify password with bcrypt
+   * Requirement 2.3: Verify password using bcrypt
+   */
+  async verifyPassword(password: string, hashedPassword: string): Promise<boolean> {
+    try {
+      const isValid = await bcrypt.compare(password, hashedPassword);
+      return isValid;
+    } catch (error) {
+      logger.error('Password verification failed', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Initiate OAuth flow
+   * The return path is kept server-side with the state and used once the callback completes
+   * Requirements: 3.1
+   */
+  async initiateOAuth(providerName: string, redirectUri: string, returnTo?: string): Promise<string> {
+    logger.info('Initiating OAuth flow', {
+      provider: providerName,
+      redirectUri
+    });
+
+    try {
+      // Requirement 3.1: Generate OAuth authorization URL
+      const authUrl = await this.oauthService.initiateOAuth(providerName, redirectUri, { returnTo });
+
+      logger.info('OAuth authorization URL generated', {
+        provider: providerName
+      });
+
+      return authUrl;
+    } catch (error) {
+      logger.error('Failed to initiate OAuth', {
+        provider: providerName,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Start an OAuth flow that links the provider account to the customer a link token was issued for
+   * @returns Authorization URL, or null if the link token is invalid or expired
+   */
+  async initiateOAuthLink(
+    providerName: string,
+    redirectUri: string,
+    linkToken: string,
+    returnTo?: string
+  ): Promise<string | null> {
+    const customerId = await this.identityService?.getLinkTokenCustomerId(linkToken);
+
+    if (!customerId) {
+      logger.warn('OAuth link attempted with an invalid or expired link token', {
+        provider: providerName
+      });
+      return null;
+    }
+
+    logger.info('Initiating OAuth link flow', {
+      provider: providerName,
+      customerId
+    });
+
+    return this.oauthService.initiateOAuth(providerName, redirectUri, {
+      returnTo,
+      linkCustomerId: customerId
+    });
+  }
+
+  /**
+   * Authenticate with OAuth
+   * Requirements: 3.2, 3.3, 3.4, 3.5
+   */
+  async authenticateWithOAuth(
+    providerName: string,
+    code: string,
+    state: string,
+    callbackUser?: OAuthCallbackUser
+  ): Promise<AuthResult> {
+    logger.info('Authenticating with OAuth', {
+      provider: providerName
+    });
+
+    try {
+      // Requirement 3.2: The state must match a flow this server started, and works only once
+      const flow = await this.oauthService.consumeState(state);
+
+      if (!flow) {
+        return {
+          success: false,
+          error: 'Your sign-in has expired. Please start again.'
+        };
+      }
+
+      const returnTo = flow.returnTo || undefined;
+
+      // Requirement 3.2, 3.3: Handle OAuth callback, exchange code for tokens, fetch user profile
+      const profile = await this.oauthService.handleCallback(
+        providerName,
+        code,
+        flow,
+        callbackUser
+      );
+
+      logger.info('OAuth profile fetched', {
+        provider: providerName,
+        userId: profile.id,
+        email: profile.email
+      });
+
+      // The flow was started by a signed-in customer to link this provider account
+      if (flow.linkCustomerId) {
+        return await this.completeOAuthLink(flow.linkCustomerId, providerName, profile, returnTo);
+      }
+
+      // An account linked earlier signs in to its customer, even when the provider shares no email
+      const linkedCustomer = await this.findLinkedCustomer(providerName, profile.id);
+
+      // Users can decline to share their email (Facebook), and OIDC issuers may not have verified it;
+      // ask for one and verify it before it can match an existing customer
+      if ((!profile.email || !profile.emailVerified) && !linkedCustomer) {
+        logger.info('OAuth profile has no verified email, verification required', {
           provider: providerName,
-          email: profile.email
+          userId: profile.id,
+          hasEmail: !!profile.email
         });
+
+        const pending: PendingOAuthPayload = {
+          provider: providerName,
+          profile: {
+            id: profile.id,
+            firstName: profile.firstName,
+            lastName: profile.lastName,
+            phone: profile.phone
+          },
+          exp: Date.now() + config.oauth.pendingEmailTtlSeconds * 1000,
+          returnTo
+        };
+
+        return {
+          success: false,
+          error: profile.email
+            ? 'Please verify your email address to finish signing in'
+            : 'An email address is required to finish signing in',
+          errorCode: 'EMAIL_REQUIRED',
+          pendingOAuthToken: this.signToken(pending)
+        };
+      }
+
+      return await this.completeOAuthLogin(providerName, profile, returnTo, callbackUser, linkedCustomer);
+    } catch (error) {
+      logger.error('OAuth authentication failed', {
+        provider: providerName,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Authentication failed'
+      };
+    }
+  }
+
+  /**
+   * Finish an OAuth sign-in that had no email, once the customer verifies one with an emailed code
+   * The code is sent through sendEmailOTP, so attempt limits and blocking are shared with email sign-in
+   */
+  async completeOAuthWithEmail(pendingToken: string, email: string, otp: string): Promise<AuthResult> {
+    const pending = this.verifyPendingOAuth(pendingToken);
+
+    if (!pending || pending.exp < Date.now()) {
+      logger.warn('Invalid or expired pending OAuth token');
+      return {
+        success: false,
+        error: 'Your sign-in has expired. Please start again.'
+      };
+    }
+
+    logger.info('Completing OAuth sign-in with verified email', {
+      provider: pending.provider,
+      userId: pending.profile.id,
+      email
+    });
+
+    try {
+      const isValid = await this.otpService.verifyOTP(emailOTPIdentifier(email), otp);
+
+      if (!isValid) {
+        logger.warn('Invalid email OTP for pending OAuth sign-in', {
+          provider: pending.provider,
+          email
+        });
+        return {
+          success: false,
+          error: 'Invalid or expired verification code'
+        };
+      }
+
+      return await this.completeOAuthLogin(
+        pending.provider,
+        {
+          ...pending.profile,
+          email: email.trim().toLowerCase(),
+          emailVerified: true
+        },
+        pending.returnTo
+      );
+    } catch (error) {
+      logger.error('Pending OAuth sign-in failed', {
+        provider: pending.provider,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Authentication failed'
+      };
+    }
+  }
+
+  /**
+   * Authenticate with a passkey assertion
+   * Resolves the credential to a Shopify customer and finishes with the same Multipass redirect as SMS
+   */
+  async authenticateWithPasskey(
+    challengeId: string,
+    response: AuthenticationResponseJSON,
+    returnTo?: string
+  ): Promise<AuthResult> {
+    logger.info('Authenticating with passkey', { challengeId });
+
+    if (!this.passkeyService || !(await this.isPasskeyEnabled())) {
+      return {
+        success: false,
+        error: 'Passkey sign-in is not enabled'
+      };
+    }
+
+    try {
+      const customerId = await this.passkeyService.verifyAuthentication(challengeId, response);
+
+      const customer = await this.customerService.findById(customerId);
+
+      if (!customer) {
+        logger.warn('Passkey belongs to a customer that no longer exists', { customerId });
+        return {
+          success: false,
+          error: 'Customer not found'
+        };
+      }
+
+      // Update customer metafields
+      await this.customerService.setAuthMethod(customer.id, 'passkey');
+      await this.customerService.setLastLogin(customer.id);
+
+      // A passkey is one factor like any other sign-in, so enrolled and tagged customers still enter a TOTP code
+      const totpChallenge = await this.createTOTPChallenge(customer, 'passkey', returnTo);
+
+      if (totpChallenge) {
+        return totpChallenge;
+      }
+
+      const multipassUrl = await this.generateMultipassUrl(customer, returnTo);
+
+      logger.info('Passkey authentication successful', {
+        customerId: customer.id
+      });
+
+      return {
+        success: true,
+        multipassUrl,
+        customer,
+        linkToken: await this.createLinkToken(customer)
+      };
+    } catch (error) {
+      logger.error('Passkey authentication failed', {
+        challengeId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Authentication failed'
+      };
+    }
+  }
+
+  /**
+   * Link a phone number to the customer a link token was issued for
+   * The customer proves they own the number with a code sent by sendOTP
+   */
+  async linkPhone(linkToken: string, phone: string, otp: string): Promise<AuthResult> {
+    logger.info('Linking phone', {
+      phone: this.maskPhone(phone)
+    });
+
+    try {
+      let customer = await this.findLinkTokenCustomer(linkToken);
+
+      if (!customer) {
+        return linkTokenExpired();
+      }
+
+      if (!this.validatePhoneNumber(phone)) {
+        return {
+          success: false,
+          error: 'Invalid phone number format. Please use E.164 format (e.g., +1234567890)'
+        };
+      }
+
+      if (!await this.otpService.verifyOTP(phone, otp)) {
+        logger.warn('Invalid OTP provided for phone link', {
+          phone: this.maskPhone(phone),
+          customerId: customer.id
+        });
+        return {
+          success: false,
+          error: 'Invalid or expired verification code'
+        };
+      }
+
+      const result = await this.linkIdentityToCustomer(
+        customer,
+        { provider: 'sms', subject: phone, verified: true },
+        await this.customerService.findByPhone(phone)
+      );
+
+      if (!result.success) {
+        return result;
+      }
+
+      // Phone-less customers (email or OAuth sign-ups) get the number on their Shopify record
+      if (!customer.phone) {
+        customer = await this.customerService.update(customer.id, { phone });
+      }
+
+      await this.customerService.setAuthMethod(customer.id, 'sms');
+      await this.customerService.setPhoneVerified(customer.id, true);
+
+      logger.info('Phone linked', {
+        customerId: customer.id,
+        phone: this.maskPhone(phone)
+      });
+
+      return {
+        success: true,
+        customer
+      };
+    } catch (error) {
+      logger.error('Phone link failed', {
+        phone: this.maskPhone(phone),
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Linking failed'
+      };
+    }
+  }
+
+  /**
+   * Link an email address to the customer a link token was issued for
+   * The customer proves they own the address with a code sent by sendEmailOTP
+   */
+  async linkEmail(linkToken: string, email: string, otp: string): Promise<AuthResult> {
+    logger.info('Linking email', { email });
+
+    try {
+      let customer = await this.findLinkTokenCustomer(linkToken);
+
+      if (!customer) {
+        return linkTokenExpired();
+      }
+
+      if (!this.validateEmail(email)) {
+        return {
+          success: false,
+          error: 'Invalid email format'
+        };
+      }
+
+      if (!await this.otpService.verifyOTP(emailOTPIdentifier(email), otp)) {
+        logger.warn('Invalid email OTP provided for email link', {
+          email,
+          customerId: customer.id
+        });
+        return {
+          success: false,
+          error: 'Invalid or expired verification code'
+        };
+      }
+
+      const normalizedEmail = normalizeEmail(email);
+      const result = await this.linkIdentityToCustomer(
+        customer,
+        { provider: 'email', subject: normalizedEmail, verified: true },
+        await this.customerService.findByEmail(normalizedEmail)
+      );
+
+      if (!result.success) {
+        return result;
+      }
+
+      // SMS sign-ups have no email on their Shopify record until they link one
+      if (!customer.email) {
+        customer = await this.customerService.update(customer.id, { email: normalizedEmail });
+      }
+
+      await this.customerService.setAuthMethod(customer.id, 'email');
+
+      logger.info('Email linked', {
+        customerId: customer.id,
+        email: normalizedEmail
+      });
+
+      return {
+        success: true,
+        customer
+      };
+    } catch (error) {
+      logger.error('Email link failed', {
+        email,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Linking failed'
+      };
+    }
+  }
+
+  /**
+   * List the sign-in methods linked to the customer a link token was issued for
+   * @returns Linked identities, or null if the link token is invalid or expired
+   */
+  async getLinkedIdentities(linkToken: string): Promise<LinkedIdentity[] | null> {
+    const customerId = await this.identityService?.getLinkTokenCustomerId(linkToken);
+
+    if (!customerId) {
+      return null;
+    }
+
+    return this.identityService!.getIdentities(customerId);
+  }
+
+  /**
+   * Unlink a sign-in method from the customer a link token was issued for
+   * The last linked method is kept so the customer can still sign in
+   */
+  async unlinkIdentity(linkToken: string, provider: string, subject: string): Promise<AuthResult> {
+    const customerId = await this.identityService?.getLinkTokenCustomerId(linkToken);
+
+    if (!customerId) {
+      return linkTokenExpired();
+    }
+
+    const removed = await this.identityService!.unlinkIdentity(customerId, provider, subject);
+
+    if (!removed) {
+      return {
+        success: false,
+        error: 'This sign-in method cannot be removed'
+      };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Start the authenticator app enrollment a shop requires before a held sign-in can finish
+   * @returns Provisioning details, or null if the sign-in token is invalid or expired
+   */
+  async beginTOTPChallengeEnrollment(totpToken: string): Promise<TOTPEnrollment | null> {
+    const pending = this.verifyPendingTOTP(totpToken);
+
+    if (!pending || pending.exp < Date.now() || !this.totpService) {
+      return null;
+    }
+
+    const customer = await this.customerService.findById(pending.customerId);
+
+    if (!customer || await this.totpService.isEnrolled(customer.id)) {
+      return null;
+    }
+
+    return this.totpService.beginEnrollment(customer.id, customer.email || customer.phone || customer.id);
+  }
+
+  /**
+   * Finish a sign-in held for the authenticator step
+   * A customer who is enrolling confirms the new app with the code and gets their recovery codes
+   */
+  async completeTOTPChallenge(totpToken: string, code: string): Promise<AuthResult> {
+    const pending = this.verifyPendingTOTP(totpToken);
+
+    if (!pending || pending.exp < Date.now() || !this.totpService) {
+      logger.warn('Invalid or expired TOTP challenge token');
+      return {
+        success: false,
+        error: 'Your sign-in has expired. Please start again.'
+      };
+    }
+
+    const totpService = this.totpService;
+
+    try {
+      const customer = await this.customerService.findById(pending.customerId);
+
+      if (!customer) {
+        return {
+          success: false,
+          error: 'Your sign-in has expired. Please start again.'
+        };
+      }
+
+      let recoveryCodes: string[] | undefined;
+      const enrolled = await totpService.isEnrolled(customer.id);
+
+      const failure = await this.verifyTOTPCode(customer.id, async () => {
+        if (enrolled) {
+          return totpService.verifyCode(customer.id, code);
+        }
+
+        recoveryCodes = await totpService.confirmEnrollment(customer.id, code) ?? undefined;
+        return !!recoveryCodes;
+      });
+
+      if (failure) {
+        return failure;
+      }
+
+      // SMS sign-ups still complete their profile, now that the second factor has passed
+      if (pending.method === 'sms') {
+        const profileChallenge = await this.createProfileChallenge(customer, customer.phone || '', pending.returnTo);
+
+        if (profileChallenge) {
+          return { ...profileChallenge, recoveryCodes };
+        }
+      }
+
+      const multipassUrl = await this.generateMultipassUrl(customer, pending.returnTo);
+
+      logger.info('TOTP challenge completed', {
+        customerId: customer.id,
+        method: pending.method,
+        enrolled: !enrolled
+      });
+
+      // Passkeys are only offered after SMS and email sign-in, as without the TOTP step
+      const offerPasskey = pending.method === 'sms' || pending.method === 'email';
+
+      return {
+        success: true,
+        multipassUrl,
+        customer,
+        passkeyEnrollmentToken: offerPasskey ? await this.createPasskeyEnrollment(customer) : undefined,
+        linkToken: await this.createLinkToken(customer),
+        recoveryCodes
+      };
+    } catch (error) {
+      logger.error('TOTP challenge failed', {
+        customerId: pending.customerId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Authentication failed'
+      };
+    }
+  }
+
+  /**
+   * Start adding an authenticator app for the customer a link token was issued for
+   * @returns Provisioning details, or null if the link token is invalid or expired
+   */
+  async beginTOTPEnrollment(linkToken: string): Promise<TOTPEnrollment | null> {
+    const customer = await this.findLinkTokenCustomer(linkToken);
+
+    if (!customer) {
+      return null;
+    }
+
+    const totpService = this.requireTOTPService();
+
+    if (await totpService.isEnrolled(customer.id)) {
+      throw new Error('An authenticator app is already set up. Remove it before adding another.');
+    }
+
+    return totpService.beginEnrollment(customer.id, customer.email || customer.phone || customer.id);
+  }
+
+  /**
+   * Activate the authenticator app with its first code and return the recovery codes
+   */
+  async confirmTOTPEnrollment(linkToken: string, code: string): Promise<AuthResult> {
+    const customer = await this.findLinkTokenCustomer(linkToken);
+
+    if (!customer) {
+      return linkTokenExpired();
+    }
+
+    const totpService = this.requireTOTPService();
+    let recoveryCodes: string[] | null = null;
+
+    const failure = await this.verifyTOTPCode(customer.id, async () => {
+      recoveryCodes = await totpService.confirmEnrollment(customer.id, code);
+      return !!recoveryCodes;
+    });
+
+    if (failure) {
+      return failure;
+    }
+
+    return {
+      success: true,
+      customer,
+      recoveryCodes: recoveryCodes ?? undefined
+    };
+  }
+
+  /**
+   * Replace the recovery codes after checking a current authenticator or recovery code
+   */
+  async regenerateTOTPRecoveryCodes(linkToken: string, code: string): Promise<AuthResult> {
+    const customer = await this.findLinkTokenCustomer(linkToken);
+
+    if (!customer) {
+      return linkTokenExpired();
+    }
+
+    const totpService = this.requireTOTPService();
+    const failure = await this.verifyTOTPCode(customer.id, () => totpService.verifyCode(customer.id, code));
+
+    if (failure) {
+      return failure;
+    }
+
+    return {
+      success: true,
+      customer,
+      recoveryCodes: await totpService.regenerateRecoveryCodes(customer.id)
+    };
+  }
+
+  /**
+   * Remove the authenticator app after checking a current authenticator or recovery code
+   * Customers the shop requires it for can't remove it
+   */
+  async disableTOTP(linkToken: string, code: string): Promise<AuthResult> {
+    const customer = await this.findLinkTokenCustomer(linkToken);
+
+    if (!customer) {
+      return linkTokenExpired();
+    }
+
+    const totpService = this.requireTOTPService();
+
+    if (await this.isTOTPRequired(customer)) {
+      return {
+        success: false,
+        error: 'Your account requires an authenticator app'
+      };
+    }
+
+    const failure = await this.verifyTOTPCode(customer.id, () => totpService.verifyCode(customer.id, code));
+
+    if (failure) {
+      return failure;
+    }
+
+    await totpService.disable(customer.id);
+
+    return {
+      success: true,
+      customer
+    };
+  }
+
+  /**
+   * Find or create the customer for an OAuth profile and build the Multipass URL
+   */
+  private async completeOAuthLogin(
+    providerName: string,
+    profile: UserProfile,
+    returnTo?: string,
+    callbackUser?: OAuthCallbackUser,
+    linkedCustomer?: ShopifyCustomer | null
+  ): Promise<AuthResult> {
+    // Only a verified email may match an existing customer, or an issuer could claim anyone's address
+    if (!linkedCustomer && !profile.emailVerified) {
+      throw new Error('A verified email address is required to sign in');
+    }
+
+    // Requirement 3.4: Find customer in Shopify by email, unless the provider account was linked
+    let customer = linkedCustomer || await this.customerService.findByEmail(profile.email);
+
+    if (!customer) {
+      // Requirement 3.5: Create new customer with OAuth profile data
+      logger.info('Customer not found, creating new customer from OAuth profile', {
+        provider: providerName,
+        email: profile.email
+      });
+
+      const tags = [`${providerName}-auth`];
+
+      // Relay addresses (Hide My Email) only reach the customer through the provider's forwarder
+      if (profile.isPrivateEmail) {
+        tags.push(`${providerName}-private-relay`);
       }
 
-      // Update customer metafields
-      await this.customerService.setAuthMethod(
-        customer.id,
-        providerName as 'google' | 'apple' | 'facebook'
-      );
-      await this.customerService.setLastLogin(customer.id);
+      const customerData: CreateCustomerData = {
+        email: profile.email,
+        firstName: profile.firstName,
+        lastName: profile.lastName,
+        phone: profile.phone,
+        tags
+      };
 
-      // Generate Multipass token
-      const multipassUrl = await this.generateMultipassUrl(customer, returnTo);
+      customer = await this.customerService.create(customerData);
 
-      logger.info('OAuth authentication successful', {
+      logger.info('New customer created from OAuth profile', {
+        customerId: customer.id,
+        provider: providerName,
+        email: profile.email
+      });
+    } else {
+      logger.info('Existing customer found for OAuth profile', {
         customerId: customer.id,
         provider: providerName,
         email: profile.email
       });
 
+      // Apple only posts the name once, so keep it if the customer has none yet
+      const firstName = customer.first_name ? undefined : callbackUser?.firstName;
+      const lastName = customer.last_name ? undefined : callbackUser?.lastName;
+
+      if (firstName || lastName) {
+        customer = await this.customerService.update(customer.id, { firstName, lastName });
+      }
+    }
+
+    // Update customer metafields
+    // Merchant-configured OIDC providers are registered as oidc-<slug>
+    await this.customerService.setAuthMethod(customer.id, getOAuthAuthMethod(providerName));
+    await this.customerService.setLastLogin(customer.id);
+    await this.recordIdentity(customer.id, getOAuthIdentity(providerName, profile));
+
+    const totpChallenge = await this.createTOTPChallenge(customer, getOAuthAuthMethod(providerName), returnTo);
+
+    if (totpChallenge) {
+      return totpChallenge;
+    }
+
+    // Generate Multipass token
+    const multipassUrl = await this.generateMultipassUrl(customer, returnTo);
+
+    logger.info('OAuth authentication successful', {
+      customerId: customer.id,
+      provider: providerName,
+      email: profile.email
+    });
+
+    return {
+      success: true,
+      multipassUrl,
+      customer,
+      linkToken: await this.createLinkToken(customer)
+    };
+  }
+
+  /**
+   * Link an OAuth account to the customer who started the link flow, then sign them back in
+   */
+  private async completeOAuthLink(
+    customerId: string,
+    providerName: string,
+    profile: UserProfile,
+    returnTo?: string
+  ): Promise<AuthResult> {
+    const customer = await this.customerService.findById(customerId);
+
+    if (!customer) {
+      logger.warn('OAuth link flow for a customer that no longer exists', { customerId });
       return {
-        success: true,
-        multipassUrl,
-        customer
+        success: false,
+        error: 'Customer not found'
+      };
+    }
+
+    const result = await this.linkIdentityToCustomer(customer, getOAuthIdentity(providerName, profile));
+
+    if (!result.success) {
+      return result;
+    }
+
+    await this.customerService.setAuthMethod(customer.id, getOAuthAuthMethod(providerName));
+    await this.customerService.setLastLogin(customer.id);
+
+    logger.info('OAuth account linked', {
+      customerId: customer.id,
+      provider: providerName
+    });
+
+    return {
+      success: true,
+      multipassUrl: await this.generateMultipassUrl(customer, returnTo),
+      customer,
+      linkToken: await this.createLinkToken(customer)
+    };
+  }
+
+  /**
+   * Find or create the customer for a verified email address and build the Multipass URL
+   */
+  private async completePasswordlessEmailLogin(email: string, returnTo?: string): Promise<AuthResult> {
+    let customer = await this.findLinkedCustomer('email', normalizeEmail(email)) ||
+      await this.customerService.findByEmail(email);
+
+    if (!customer) {
+      logger.info('Customer not found, creating new customer', { email });
+
+      customer = await this.customerService.create({
+        email,
+        tags: ['email-auth']
+      });
+
+      logger.info('New customer created with email', {
+        customerId: customer.id,
+        email
+      });
+    }
+
+    await this.customerService.setAuthMethod(customer.id, 'email');
+    await this.customerService.setLastLogin(customer.id);
+    await this.recordIdentity(customer.id, { provider: 'email', subject: normalizeEmail(email), verified: true });
+
+    const totpChallenge = await this.createTOTPChallenge(customer, 'email', returnTo);
+
+    if (totpChallenge) {
+      return totpChallenge;
+    }
+
+    const multipassUrl = await this.generateMultipassUrl(customer, returnTo);
+
+    logger.info('Passwordless email authentication successful', {
+      customerId: customer.id,
+      email
+    });
+
+    return {
+      success: true,
+      multipassUrl,
+      customer,
+      passkeyEnrollmentToken: await this.createPasskeyEnrollment(customer),
+      linkToken: await this.createLinkToken(customer)
+    };
+  }
+
+  /**
+   * Map a failed password check to the AuthResult returned to the client
+   * Returns null when the password was valid
+   */
+  private passwordVerificationFailure(
+    verification: PasswordVerificationResult,
+    customerId: string,
+    email: string
+  ): AuthResult | null {
+    if (verification.status === 'blocked') {
+      return {
+        success: false,
+        error: 'Too many failed attempts. Please try again later.',
+        errorCode: 'ACCOUNT_LOCKED',
+        retryAfter: verification.retryAfter
+      };
+    }
+
+    // Customers created before passwords were stored have no hash and must reset
+    if (verification.status === 'not_set') {
+      logger.warn('Existing customer has no stored password, reset required', {
+        customerId,
+        email
+      });
+      return {
+        success: false,
+        error: 'Please reset your password to continue',
+        errorCode: 'PASSWORD_RESET_REQUIRED'
+      };
+    }
+
+    if (verification.status !== 'valid') {
+      logger.warn('Invalid password provided', {
+        customerId,
+        email
+      });
+      return {
+        success: false,
+        error: 'Invalid email or password'
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Sign a customer out of every session after their password changes
+   */
+  private async revokeCustomerSessions(customerId: string): Promise<void> {
+    if (!this.sessionService) {
+      return;
+    }
+
+    const revoked = await this.sessionService.invalidateCustomerSessions(customerId);
+
+    logger.info('Customer sessions revoked after password change', {
+      customerId,
+      revoked
+    });
+  }
+
+  private requirePasswordService(): PasswordService {
+    if (!this.passwordService) {
+      throw new Error('Password sign-in is not configured');
+    }
+    return this.passwordService;
+  }
+
+  private requireTOTPService(): TOTPService {
+    if (!this.totpService) {
+      throw new Error('Authenticator apps are not configured');
+    }
+    return this.totpService;
+  }
+
+  private requireEmailService(): EmailService {
+    if (!this.emailService || !this.emailService.isConfigured()) {
+      throw new Error('Email sign-in is not configured');
+    }
+    return this.emailService;
+  }
+
+  /**
+   * Whether the shop asks SMS sign-ups to complete their profile and this customer has not yet
+   */
+  private async requiresProfileCompletion(customer: ShopifyCustomer): Promise<boolean> {
+    if (customer.email && customer.first_name) {
+      return false;
+    }
+
+    return await this.settingsService?.isProfileCompletionEnabled() ?? false;
+  }
+
+  /**
+   * Hold an SMS sign-in for the profile step when the customer has no email or name yet
+   * Only called once the authenticator step has passed or isn't needed
+   * Returns null when the profile is complete or the shop doesn't ask for it
+   */
+  private async createProfileChallenge(
+    customer: ShopifyCustomer,
+    phone: string,
+    returnTo?: string
+  ): Promise<AuthResult | null> {
+    if (!await this.requiresProfileCompletion(customer)) {
+      return null;
+    }
+
+    logger.info('Profile completion required', {
+      customerId: customer.id,
+      phone: this.maskPhone(phone)
+    });
+
+    const pending: PendingProfilePayload = {
+      customerId: customer.id,
+      phone,
+      exp: Date.now() + PROFILE_COMPLETION_TTL_SECONDS * 1000,
+      returnTo,
+      secondFactorChecked: true
+    };
+
+    return {
+      success: false,
+      error: 'Please complete your profile to finish signing in',
+      errorCode: 'PROFILE_REQUIRED',
+      profileToken: this.signToken(pending)
+    };
+  }
+
+  /**
+   * Hold a sign-in for the authenticator step when the customer has an app enrolled,
+   * or has to enroll one because the shop requires it for one of their tags
+   * Returns null when no second factor is needed
+   */
+  private async createTOTPChallenge(
+    customer: ShopifyCustomer,
+    method: CustomerAuthMethod,
+    returnTo?: string
+  ): Promise<AuthResult | null> {
+    if (!this.totpService) {
+      return null;
+    }
+
+    const enrolled = await this.totpService.isEnrolled(customer.id);
+
+    if (!enrolled && !await this.isTOTPRequired(customer)) {
+      return null;
+    }
+
+    logger.info('TOTP step required', {
+      customerId: customer.id,
+      method,
+      enrolled
+    });
+
+    const pending: PendingTOTPPayload = {
+      customerId: customer.id,
+      method,
+      exp: Date.now() + config.totp.challengeTtlSeconds * 1000,
+      returnTo
+    };
+
+    return {
+      success: false,
+      error: enrolled
+        ? 'Enter the code from your authenticator app to finish signing in'
+        : 'Set up an authenticator app to finish signing in',
+      errorCode: enrolled ? 'TOTP_REQUIRED' : 'TOTP_ENROLLMENT_REQUIRED',
+      totpToken: this.signToken(pending)
+    };
+  }
+
+  /**
+   * Whether the shop requires an authenticator app for one of the customer's tags
+   * Shopify tags are case-insensitive
+   */
+  private async isTOTPRequired(customer: ShopifyCustomer): Promise<boolean> {
+    const requiredTags = await this.settingsService?.getTOTPRequiredTags() ?? [];
+
+    if (requiredTags.length === 0 || !customer.tags) {
+      return false;
+    }
+
+    const customerTags = customer.tags.split(',').map(tag => tag.trim().toLowerCase());
+    return requiredTags.some(tag => customerTags.includes(tag.trim().toLowerCase()));
+  }
+
+  /**
+   * Check an authenticator code with the same attempt counting and blocking as OTPService.verifyOTP
+   * Returns null when the code was valid
+   */
+  private async verifyTOTPCode(customerId: string, verify: () => Promise<boolean>): Promise<AuthResult | null> {
+    const identifier = totpIdentifier(customerId);
+
+    if (await this.otpService.isBlocked(identifier)) {
+      logger.warn('TOTP verification attempted for blocked customer', { customerId });
+      return {
+        success: false,
+        error: 'Too many failed attempts. Please try again later.',
+        errorCode: 'ACCOUNT_LOCKED',
+        retryAfter: this.otpService.policy.blockDurationSeconds
+      };
+    }
+
+    if (!await verify()) {
+      await this.otpService.incrementFailedAttempts(identifier);
+      return {
+        success: false,
+        error: 'Invalid authenticator code'
       };
+    }
+
+    await this.otpService.resetFailedAttempts(identifier);
+    return null;
+  }
+
+  /**
+   * Sign a JSON payload with the magic link secret (magic links, pending OAuth, profile and TOTP sign-ins)
+   */
+  private signToken(payload: object): string {
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    const signature = createHmac('sha256', config.email.magicLinkSecret).update(body).digest('base64url');
+    return `${body}.${signature}`;
+  }
+
+  private verifyTokenSignature(token: string): Record<string, unknown> | null {
+    const [body, signature] = token.split('.');
+
+    if (!body || !signature) {
+      return null;
+    }
+
+    const expected = createHmac('sha256', config.email.magicLinkSecret).update(body).digest();
+    const provided = Buffer.from(signature, 'base64url');
+
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+      return null;
+    }
+
+    try {
+      const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+      return payload && typeof payload === 'object' ? payload : null;
     } catch (error) {
-      logger.error('OAuth authentication failed', {
-        provider: providerName,
+      logger.warn('Malformed signed token payload', {
         error: error instanceof Error ? error.message : 'Unknown error'
       });
+      return null;
+    }
+  }
+
+  private verifyMagicLinkSignature(token: string): MagicLinkPayload | null {
+    const payload = this.verifyTokenSignature(token);
+    return payload && typeof payload.email === 'string' && typeof payload.nonce === 'string'
+      ? payload as unknown as MagicLinkPayload
+      : null;
+  }
+
+  private verifyPendingProfile(token: string): PendingProfilePayload | null {
+    const payload = this.verifyTokenSignature(token) as Partial<PendingProfilePayload> | null;
+    return payload && typeof payload.customerId === 'string' && typeof payload.phone === 'string'
+      ? payload as PendingProfilePayload
+      : null;
+  }
+
+  private verifyPendingTOTP(token: string): PendingTOTPPayload | null {
+    const payload = this.verifyTokenSignature(token) as Partial<PendingTOTPPayload> | null;
+    return payload && typeof payload.customerId === 'string' && typeof payload.method === 'string'
+      ? payload as PendingTOTPPayload
+      : null;
+  }
+
+  private verifyPendingOAuth(token: string): PendingOAuthPayload | null {
+    const payload = this.verifyTokenSignature(token) as Partial<PendingOAuthPayload> | null;
+    return payload && typeof payload.provider === 'string' && typeof payload.profile?.id === 'string'
+      ? payload as PendingOAuthPayload
+      : null;
+  }
+
+  /**
+   * Find the customer an identity was linked to
+   * Returns null when linking is not configured or the customer no longer exists
+   */
+  private async findLinkedCustomer(provider: string, subject: string): Promise<ShopifyCustomer | null> {
+    const customerId = await this.identityService?.findCustomerId(provider, subject);
+
+    if (!customerId) {
+      return null;
+    }
+
+    const customer = await this.customerService.findById(customerId);
+
+    if (!customer) {
+      logger.warn('Linked identity belongs to a customer that no longer exists', {
+        provider,
+        customerId
+      });
+    }
+
+    return customer;
+  }
 
+  private async findLinkTokenCustomer(linkToken: string): Promise<ShopifyCustomer | null> {
+    const customerId = await this.identityService?.getLinkTokenCustomerId(linkToken);
+    return customerId ? this.customerService.findById(customerId) : null;
+  }
+
+  /**
+   * Link an identity the customer has just proven they own
+   * @param matchingCustomer - Shopify customer that already has the phone or email, if any
+   */
+  private async linkIdentityToCustomer(
+    customer: ShopifyCustomer,
+    identity: IdentityInput,
+    matchingCustomer?: ShopifyCustomer | null
+  ): Promise<AuthResult> {
+    // Another Shopify customer already signs in with this phone or email
+    const ownedElsewhere = !!matchingCustomer && matchingCustomer.id !== customer.id;
+    const result = ownedElsewhere
+      ? { status: 'conflict' as const }
+      : await this.identityService!.linkIdentity(customer.id, identity);
+
+    if (result.status === 'conflict') {
+      logger.warn('Identity already belongs to another customer', {
+        provider: identity.provider,
+        customerId: customer.id
+      });
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Authentication failed'
+        error: 'This sign-in method is already linked to another account',
+        errorCode: 'IDENTITY_CONFLICT'
       };
     }
+
+    return { success: true, customer };
+  }
+
+  /**
+   * Record the identity a customer signed in with
+   * Bookkeeping only, so failures never fail the login itself
+   */
+  private async recordIdentity(customerId: string, identity: IdentityInput): Promise<void> {
+    if (!this.identityService) {
+      return;
+    }
+
+    try {
+      const result = await this.identityService.linkIdentity(customerId, identity);
+
+      if (result.status === 'conflict') {
+        logger.warn('Signed-in identity is linked to another customer', {
+          provider: identity.provider,
+          customerId
+        });
+      }
+    } catch (error) {
+      logger.error('Failed to record identity', {
+        provider: identity.provider,
+        customerId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Issue a link token after a successful login
+   * Linking is optional, so failures here never fail the login itself
+   */
+  private async createLinkToken(customer: ShopifyCustomer): Promise<string | undefined> {
+    if (!this.identityService) {
+      return undefined;
+    }
+
+    try {
+      return await this.identityService.createLinkToken(customer.id);
+    } catch (error) {
+      logger.error('Failed to create identity link token', {
+        customerId: customer.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Issue a passkey enrollment token after a successful login, while passkey sign-in is enabled
+   * Enrollment is optional, so failures here never fail the login itself
+   */
+  private async createPasskeyEnrollment(customer: ShopifyCustomer): Promise<string | undefined> {
+    if (!this.passkeyService || !(await this.isPasskeyEnabled())) {
+      return undefined;
+    }
+
+    try {
+      return await this.passkeyService.createEnrollmentToken({
+        customerId: customer.id,
+        userName: customer.email || customer.phone || customer.id,
+        displayName: [customer.first_name, customer.last_name].filter(Boolean).join(' ') || undefined
+      });
+    } catch (error) {
+      logger.error('Failed to create passkey enrollment token', {
+        customerId: customer.id,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return undefined;
+    }
   }
 
   /**
@@ -0,0 +1,84 @@
+/**
+ * Email Service
+ * Manages email transports with fallback logic
+ */
+
+import { logger } from '../config/logger.js';
+import { IEmailProvider, SendEmailParams, SendEmailResult } from '../providers/IEmailProvider.js';
+
+export class EmailService {
+  private providers: IEmailProvider[];
+
+  constructor(providers: IEmailProvider[]) {
+    if (!providers || providers.length === 0) {
+      logger.warn('Email Service initialized without providers - email features will be disabled');
+      this.providers = [];
+      return;
+    }
+
+    // Sort providers by priority (lower number = higher priority)
+    this.providers = [...providers].sort((a, b) => a.priority - b.priority);
+
+    logger.info('Email Service initialized', {
+      providers: this.providers.map(p => ({ name: p.name, priority: p.priority }))
+    });
+  }
+
+  /**
+   * Send email with automatic fallback to next provider on failure
+   */
+  async sendEmail(params: SendEmailParams): Promise<SendEmailResult> {
+    if (this.providers.length === 0) {
+      logger.error('Cannot send email - no providers configured');
+      return {
+        success: false,
+        messageId: '',
+        provider: 'none',
+        error: 'No email providers configured'
+      };
+    }
+
+    let lastError: string | undefined;
+
+    for (const provider of this.providers) {
+      try {
+        const result = await provider.sendEmail(params);
+
+        if (result.success) {
+          return result;
+        }
+
+        lastError = result.error;
+        logger.warn('Email provider returned failure, trying next provider', {
+          provider: provider.name,
+          error: result.error
+        });
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : 'Unknown error';
+        logger.error('Email provider threw exception, trying next provider', {
+          provider: provider.name,
+          error: lastError
+        });
+      }
+    }
+
+    logger.error('All email providers failed', {
+      providersAttempted: this.providers.length,
+      lastError
+    });
+
+    return {
+      success: false,
+      messageId: '',
+      provider: 'none',
+      error: lastError || 'All email providers failed'
+    };
+  }
+
+  /**
+   * Whether any transport is configured
+   */
+  isConfigured(): boolean {
+    return this.providers.length > 0;
+  }
+}
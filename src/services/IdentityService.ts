@@ -0,0 +1,183 @@
+/**
+ * Identity Service
+ * Links sign-in identities (phone, email, OAuth accounts) to Shopify customers
+ *
+ * An identity is a provider plus the subject that provider vouches for: the
+ * E.164 phone for SMS, the lowercased address for email, and the provider's
+ * user ID for OAuth. Each identity belongs to at most one customer, so a
+ * shopper who signs up by SMS and later links Google keeps a single account.
+ */
+
+import { randomBytes } from 'crypto';
+import type { Redis } from 'ioredis';
+import { logger } from '../config/logger.js';
+
+// Default configuration values
+const DEFAULT_LINK_TOKEN_TTL = 900; // 15 minutes in seconds
+
+export interface LinkedIdentity {
+  // 'sms', 'email' or the OAuth provider name (e.g. 'google', 'oidc-okta')
+  provider: string;
+  subject: string;
+  customerId: string;
+  // Whether the provider confirmed the customer controls the phone or email
+  verified: boolean;
+  // Email reported by an OAuth provider, for display
+  email?: string;
+  linkedAt: number;
+  lastUsedAt: number;
+}
+
+export type IdentityInput = Pick<LinkedIdentity, 'provider' | 'subject' | 'verified' | 'email'>;
+
+export type IdentityLinkStatus = 'linked' | 'conflict';
+
+export interface IdentityLinkResult {
+  status: IdentityLinkStatus;
+  identity?: LinkedIdentity;
+}
+
+export class IdentityService {
+  private readonly redis: Redis;
+  private readonly linkTokenTTL: number;
+
+  constructor(redis: Redis, config?: {
+    linkTokenTTL?: number;
+  }) {
+    this.redis = redis;
+    this.linkTokenTTL = config?.linkTokenTTL || DEFAULT_LINK_TOKEN_TTL;
+  }
+
+  /**
+   * Find the customer an identity is linked to
+   */
+  async findCustomerId(provider: string, subject: string): Promise<string | null> {
+    return this.redis.get(this.getOwnerKey(provider, subject));
+  }
+
+  /**
+   * Link an identity to a customer, or refresh it if the customer already has it
+   * Returns 'conflict' without changing anything when the identity belongs to another customer
+   */
+  async linkIdentity(customerId: string, input: IdentityInput): Promise<IdentityLinkResult> {
+    const ownerKey = this.getOwnerKey(input.provider, input.subject);
+
+    // Claim the identity atomically so two customers cannot link it at the same time
+    const claimed = await this.redis.set(ownerKey, customerId, 'NX');
+
+    if (!claimed) {
+      const owner = await this.redis.get(ownerKey);
+
+      if (owner !== customerId) {
+        logger.warn('Identity is linked to another customer', {
+          provider: input.provider,
+          customerId
+        });
+        return { status: 'conflict' };
+      }
+    }
+
+    const field = this.getIdentityField(input.provider, input.subject);
+    const existing = await this.redis.hget(this.getIdentitiesKey(customerId), field);
+    const previous: LinkedIdentity | null = existing ? JSON.parse(existing) : null;
+    const now = Date.now();
+
+    const identity: LinkedIdentity = {
+      provider: input.provider,
+      subject: input.subject,
+      customerId,
+      // Once verified, an identity stays verified
+      verified: input.verified || !!previous?.verified,
+      email: input.email ?? previous?.email,
+      linkedAt: previous?.linkedAt ?? now,
+      lastUsedAt: now
+    };
+
+    await this.redis.hset(this.getIdentitiesKey(customerId), field, JSON.stringify(identity));
+
+    if (!previous) {
+      logger.info('Identity linked', {
+        provider: input.provider,
+        customerId,
+        verified: identity.verified
+      });
+    }
+
+    return { status: 'linked', identity };
+  }
+
+  /**
+   * Get every identity linked to a customer
+   */
+  async getIdentities(customerId: string): Promise<LinkedIdentity[]> {
+    const entries = await this.redis.hvals(this.getIdentitiesKey(customerId));
+    return entries
+      .map(entry => JSON.parse(entry) as LinkedIdentity)
+      .sort((a, b) => a.linkedAt - b.linkedAt);
+  }
+
+  /**
+   * Unlink an identity from a customer
+   * The last identity cannot be removed, or the customer would have no way to sign in
+   */
+  async unlinkIdentity(customerId: string, provider: string, subject: string): Promise<boolean> {
+    const identitiesKey = this.getIdentitiesKey(customerId);
+    const field = this.getIdentityField(provider, subject);
+
+    if (!await this.redis.hexists(identitiesKey, field) || await this.redis.hlen(identitiesKey) <= 1) {
+      return false;
+    }
+
+    await this.redis.hdel(identitiesKey, field);
+    await this.redis.del(this.getOwnerKey(provider, subject));
+
+    logger.info('Identity unlinked', {
+      provider,
+      customerId
+    });
+
+    return true;
+  }
+
+  /**
+   * Create a short-lived token that lets a customer who has just signed in link another method
+   * Like passkey enrollment, linking always starts from a successful login
+   */
+  async createLinkToken(customerId: string): Promise<string> {
+    const token = randomBytes(32).toString('hex');
+
+    await this.redis.setex(this.getLinkTokenKey(token), this.linkTokenTTL, customerId);
+
+    logger.info('Identity link token created', { customerId });
+
+    return token;
+  }
+
+  /**
+   * Resolve a link token to the customer it was issued for
+   */
+  async getLinkTokenCustomerId(token: string): Promise<string | null> {
+    if (!token) {
+      return null;
+    }
+
+    return this.redis.get(this.getLinkTokenKey(token));
+  }
+
+  private getIdentityField(provider: string, subject: string): string {
+    return `${provider}:${subject}`;
+  }
+
+  // Redis key helpers
+  private getIdentitiesKey(customerId: string): string {
+    return `identity:customer:${customerId}`;
+  }
+
+  private getOwnerKey(provider: string, subject: string): string {
+    return `identity:owner:${provider}:${subject}`;
+  }
+
+  private getLinkTokenKey(token: string): string {
+    return `identity:link:${token}`;
+  }
+}
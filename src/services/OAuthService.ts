@@ -1,20 +1,54 @@
 /**
  * OAuth Service
  * Manages OAuth providers and orchestrates OAuth authentication flow
+ *
+ * Every flow gets a random state, a PKCE code verifier and an ID token nonce.
+ * They are kept in Redis under the state and consumed once by the callback,
+ * so a callback can only complete a flow this server started.
  */
 
+import { createHash, randomBytes } from 'crypto';
+import type { Redis } from 'ioredis';
+import jwt from 'jsonwebtoken';
 import { logger } from '../config/logger.js';
 import {
     IOAuthProvider,
+    OAuthCallbackUser,
     OAuthTokens,
     UserProfile
 } from '../providers/IOAuthProvider.js';
 
+// How long the user has to finish signing in with the provider
+const STATE_TTL_SECONDS = 600;
+
+/**
+ * Caller data kept with the state and handed back to the callback
+ */
+export interface OAuthStateContext {
+  returnTo?: string | null;
+  shop?: string;
+  // Set when a signed-in customer is linking this provider instead of signing in
+  linkCustomerId?: string;
+}
+
+/**
+ * Server-side record of an OAuth flow, keyed by its state parameter
+ */
+export interface OAuthFlowState extends OAuthStateContext {
+  provider: string;
+  redirectUri: string;
+  codeVerifier: string;
+  nonce: string;
+  createdAt: number;
+}
+
 export class OAuthService {
   private providers: Map<string, IOAuthProvider>;
+  private redis: Redis;
   
-  constructor() {
+  constructor(redis: Redis) {
     this.providers = new Map();
+    this.redis = redis;
     
     logger.info('OAuthService initialized');
   }
@@ -72,14 +106,14 @@ export class OAuthService {
    * Initiate OAuth flow by generating authorization URL
    * @param providerName - Name of the OAuth provider
    * @param redirectUri - Redirect URI after authorization
-   * @param state - State parameter for CSRF protection
+   * @param context - Data to hand back to the callback (return path, shop)
    * @returns Authorization URL to redirect user to
    * @throws Error if provider not found
    */
   async initiateOAuth(
     providerName: string,
     redirectUri: string,
-    state?: string
+    context: OAuthStateContext = {}
   ): Promise<string> {
     logger.info('Initiating OAuth flow', {
       provider: providerName,
@@ -95,19 +129,27 @@ export class OAuthService {
       throw new Error(`OAuth provider '${providerName}' not found`);
     }
     
-    // Generate state parameter if not provided (for CSRF protection)
-    const stateParam = state || this.generateState();
+    const state = generateRandomToken();
+    const flow: OAuthFlowState = {
+      ...context,
+      provider: providerName,
+      redirectUri,
+      codeVerifier: generateRandomToken(),
+      nonce: generateRandomToken(),
+      createdAt: Date.now()
+    };
+    
+    let authUrl: string;
     
     try {
-      const authUrl = provider.getAuthorizationUrl(stateParam, redirectUri);
-      
-      logger.info('OAuth authorization URL generated', {
-        provider: providerName,
-        state: stateParam
-      });
-      
-      return authUrl;
-      
+      authUrl = provider.getAuthorizationUrl(
+        {
+          state,
+          codeChallenge: getCodeChallenge(flow.codeVerifier),
+          nonce: flow.nonce
+        },
+        redirectUri
+      );
     } catch (error) {
       logger.error('Failed to generate OAuth authorization URL', {
         provider: providerName,
@@ -120,26 +162,72 @@ export class OAuthService {
         }`
       );
     }
+    
+    await this.redis.setex(this.getStateKey(state), STATE_TTL_SECONDS, JSON.stringify(flow));
+    
+    logger.info('OAuth authorization URL generated', {
+      provider: providerName,
+      state: state.substring(0, 8) + '...'
+    });
+    
+    return authUrl;
+  }
+  
+  /**
+   * Look up and delete the flow for a state parameter
+   * @param state - State parameter returned to the callback
+   * @returns The stored flow, or null if the state is unknown, expired or already used
+   */
+  async consumeState(state: string): Promise<OAuthFlowState | null> {
+    if (!state) {
+      return null;
+    }
+    
+    const key = this.getStateKey(state);
+    
+    // Read and delete in one transaction so a replayed callback finds nothing
+    const results = await this.redis.multi().get(key).del(key).exec();
+    const data = results?.[0]?.[1] as string | null | undefined;
+    
+    if (!data) {
+      logger.warn('Unknown, expired or reused OAuth state', {
+        state: state.substring(0, 8) + '...'
+      });
+      return null;
+    }
+    
+    return JSON.parse(data) as OAuthFlowState;
   }
   
   /**
    * Handle OAuth callback by exchanging code for tokens and fetching user profile
    * @param providerName - Name of the OAuth provider
    * @param code - Authorization code from OAuth provider
-   * @param redirectUri - Redirect URI used in the initial request
+   * @param flow - Flow returned by consumeState for the callback's state parameter
+   * @param callbackUser - User details posted with the callback (Apple, first login only)
    * @returns User profile from OAuth provider
    * @throws Error if provider not found or exchange fails
    */
   async handleCallback(
     providerName: string,
     code: string,
-    redirectUri: string
+    flow: OAuthFlowState,
+    callbackUser?: OAuthCallbackUser
   ): Promise<UserProfile> {
     logger.info('Handling OAuth callback', {
       provider: providerName,
-      redirectUri
+      redirectUri: flow.redirectUri
     });
     
+    // A state issued for one provider must not complete a callback for another
+    if (flow.provider !== providerName) {
+      logger.error('OAuth state was issued for a different provider', {
+        provider: providerName,
+        stateProvider: flow.provider
+      });
+      throw new Error(`OAuth state does not belong to ${providerName}`);
+    }
+    
     const provider = this.getProvider(providerName);
     
     if (!provider) {
@@ -157,9 +245,15 @@ export class OAuthService {
       
       const tokens: OAuthTokens = await provider.exchangeCodeForToken(
         code,
-        redirectUri
+        flow.redirectUri,
+        flow.codeVerifier
       );
       
+      // An ID token minted for another flow (e.g. injected from a different session) is rejected
+      if (tokens.idToken) {
+        verifyNonce(tokens.idToken, flow.nonce);
+      }
+      
       logger.info('Successfully obtained OAuth tokens', {
         provider: providerName,
         hasRefreshToken: !!tokens.refreshToken
@@ -171,9 +265,16 @@ export class OAuthService {
       });
       
       const profile: UserProfile = await provider.getUserProfile(
-        tokens.accessToken
+        tokens.accessToken,
+        tokens.idToken
       );
       
+      // Providers that only post the name with the callback leave it out of the profile
+      if (callbackUser) {
+        profile.firstName = profile.firstName || callbackUser.firstName;
+        profile.lastName = profile.lastName || callbackUser.lastName;
+      }
+      
       logger.info('Successfully fetched user profile', {
         provider: providerName,
         userId: profile.id,
@@ -197,16 +298,34 @@ export class OAuthService {
     }
   }
   
-  /**
-   * Generate a random state parameter for CSRF protection
-   * @returns Random state string
-   */
-  private generateState(): string {
-    // Generate a random 32-character hex string
-    const randomBytes = Array.from({ length: 16 }, () =>
-      Math.floor(Math.random() * 256)
-    );
-    
-    return randomBytes.map(byte => byte.toString(16).padStart(2, '0')).join('');
+  // Redis key helpers
+  private getStateKey(state: string): string {
+    return `oauth:state:${state}`;
+  }
+}
+
+/**
+ * 32 random bytes, base64url-encoded (43 characters, a valid PKCE code verifier)
+ */
+function generateRandomToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * PKCE S256 code challenge: BASE64URL(SHA256(code_verifier))
+ */
+function getCodeChallenge(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+/**
+ * Check the ID token's nonce claim; the provider verifies the signature itself
+ */
+function verifyNonce(idToken: string, expectedNonce: string): void {
+  const claims = jwt.decode(idToken);
+  const nonce = claims && typeof claims !== 'string' ? claims.nonce : undefined;
+
+  if (nonce !== expectedNonce) {
+    throw new Error('ID token nonce does not match the OAuth request');
   }
 }
@@ -4,50 +4,207 @@
  * Requirements: 1.2, 1.4, 6.1, 6.2, 6.4
  */
 
+import { createHmac, randomInt, timingSafeEqual } from 'crypto';
 import { Redis } from 'ioredis';
 import { config } from '../config/index.js';
 import { logger } from '../config/logger.js';
+import { normalizePhoneNumber } from '../utils/phoneNumber.js';
+import { SMSFraudReason, SMSFraudService } from './SMSFraudService.js';
+
+export type OTPAlphabet = 'numeric' | 'alphanumeric';
+
+/**
+ * Code format and rate limits for OTP sign-in
+ * Stored in AuthSettings.otpPolicy; fields the merchant hasn't set come from config.otp and config.smsConfig
+ */
+export interface OTPPolicy {
+  length: number;
+  alphabet: OTPAlphabet;
+  ttlSeconds: number;
+  maxAttempts: number;
+  blockDurationSeconds: number;
+  resendCooldownSeconds: number;
+  maxSendAttempts: number;
+  sendAttemptsWindowSeconds: number;
+  sendAttemptsBlockDurationSeconds: number;
+}
+
+const OTP_ALPHABETS: Record<OTPAlphabet, string> = {
+  numeric: '0123456789',
+  // Upper case only, without 0/O and 1/I/L, so codes can be read off a phone without mistakes
+  alphanumeric: '23456789ABCDEFGHJKMNPQRSTUVWXYZ'
+};
+
+// Allowed range for each numeric field, so a merchant can't configure guessable or never-expiring codes
+const OTP_POLICY_LIMITS: Record<Exclude<keyof OTPPolicy, 'alphabet'>, [number, number]> = {
+  length: [4, 10],
+  ttlSeconds: [60, 3600],
+  maxAttempts: [1, 20],
+  blockDurationSeconds: [60, 86400],
+  resendCooldownSeconds: [10, 600],
+  maxSendAttempts: [1, 20],
+  sendAttemptsWindowSeconds: [60, 86400],
+  sendAttemptsBlockDurationSeconds: [60, 86400]
+};
+
+// A voice call is offered from the second resend, when the SMS evidently isn't arriving
+const VOICE_CALL_AFTER_RESENDS = 2;
+
+export function getDefaultOTPPolicy(): OTPPolicy {
+  return {
+    length: config.otp.length,
+    alphabet: 'numeric',
+    ttlSeconds: config.otp.ttlSeconds,
+    maxAttempts: config.otp.maxAttempts,
+    blockDurationSeconds: config.otp.blockDurationSeconds,
+    resendCooldownSeconds: config.smsConfig.resendCooldownSeconds,
+    maxSendAttempts: config.smsConfig.maxSendAttempts,
+    sendAttemptsWindowSeconds: config.smsConfig.sendAttemptsWindowSeconds,
+    sendAttemptsBlockDurationSeconds: config.smsConfig.sendAttemptsBlockDurationSeconds
+  };
+}
+
+/**
+ * Check a policy before it is saved
+ * @throws Error describing the first field that is out of range
+ */
+export function validateOTPPolicy(policy: Partial<OTPPolicy>): void {
+  if (policy.alphabet !== undefined && !(policy.alphabet in OTP_ALPHABETS)) {
+    throw new Error('Code characters must be numeric or alphanumeric');
+  }
+
+  for (const [field, [min, max]] of Object.entries(OTP_POLICY_LIMITS)) {
+    const value = policy[field as keyof typeof OTP_POLICY_LIMITS];
+
+    if (value !== undefined && (!Number.isInteger(value) || value < min || value > max)) {
+      throw new Error(`OTP policy ${field} must be a whole number between ${min} and ${max}`);
+    }
+  }
+}
+
+/**
+ * Build the effective policy from the one stored in settings
+ * A stored policy that fails validation is ignored, so a bad value can't stop every sign-in
+ */
+export function resolveOTPPolicy(stored?: Partial<OTPPolicy> | null): OTPPolicy {
+  const defaults = getDefaultOTPPolicy();
+
+  if (!stored) {
+    return defaults;
+  }
+
+  try {
+    validateOTPPolicy(stored);
+    return { ...defaults, ...stored };
+  } catch (error) {
+    logger.warn('Ignoring invalid OTP policy in settings', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return defaults;
+  }
+}
+
+/**
+ * Redis key the code for a phone number or email identifier is stored under
+ */
+export function getOTPKey(identifier: string): string {
+  return `otp:${normalizePhoneNumber(identifier) ?? identifier}`;
+}
 
 export class OTPService {
   private readonly redis: Redis;
-  private readonly otpLength: number;
-  private readonly otpTTL: number;
-  private readonly maxAttempts: number;
-  private readonly blockDuration: number;
+  private readonly hashSecret: string;
+  private readonly fraud?: SMSFraudService;
+  policy: OTPPolicy;
 
-  constructor(redis: Redis) {
+  constructor(redis: Redis, fraud?: SMSFraudService, policy?: Partial<OTPPolicy>) {
     this.redis = redis;
-    this.otpLength = config.otp.length;
-    this.otpTTL = config.otp.ttlSeconds;
-    this.maxAttempts = config.otp.maxAttempts;
-    this.blockDuration = config.otp.blockDurationSeconds;
+    this.fraud = fraud;
+    this.hashSecret = config.otp.hashSecret;
+    this.policy = resolveOTPPolicy(policy);
   }
 
   /**
-   * Generate a random 6-digit OTP code
+   * Apply a new policy, e.g. after the merchant saved their settings
+   * Codes already sent keep the expiry they were stored with
+   */
+  setPolicy(policy?: Partial<OTPPolicy> | null): void {
+    this.policy = resolveOTPPolicy(policy);
+  }
+
+  /**
+   * Generate a random OTP code in the policy's length and alphabet
    * Requirement 1.2: Generate 6-digit OTP codes
    */
-  generateOTP(length: number = this.otpLength): string {
-    const digits = '0123456789';
+  generateOTP(length: number = this.policy.length): string {
+    const characters = OTP_ALPHABETS[this.policy.alphabet];
     let otp = '';
     
+    // Characters come from the CSPRNG so codes can't be predicted from earlier ones
     for (let i = 0; i < length; i++) {
-      const randomIndex = Math.floor(Math.random() * digits.length);
-      otp += digits[randomIndex];
+      otp += characters[randomInt(characters.length)];
     }
     
     return otp;
   }
 
+  /**
+   * Check that a submitted code has the policy's length and alphabet
+   * Alphanumeric codes are accepted in either case
+   */
+  isValidFormat(code: unknown): code is string {
+    if (typeof code !== 'string') {
+      return false;
+    }
+
+    const characters = OTP_ALPHABETS[this.policy.alphabet];
+    const normalized = this.normalizeCode(code);
+
+    return normalized.length === this.policy.length && [...normalized].every(char => characters.includes(char));
+  }
+
+  /**
+   * What a valid code looks like, for validation messages
+   */
+  describeFormat(): string {
+    return this.policy.alphabet === 'alphanumeric'
+      ? `${this.policy.length} letters or numbers`
+      : `${this.policy.length} digits`;
+  }
+
+  /**
+   * HMAC of a code bound to what it was issued for, so a hash can't be replayed against another phone
+   */
+  hashOTP(identifier: string, otp: string): string {
+    return createHmac('sha256', this.hashSecret)
+      .update(`${this.normalizeIdentifier(identifier)}:${otp}`)
+      .digest('hex');
+  }
+
+  /**
+   * Compare a submitted code with the stored value in constant time
+   * Codes stored before hashing was introduced are still plaintext and are compared as-is until they expire
+   */
+  matchesStoredOTP(identifier: string, stored: string, otp: string): boolean {
+    const expected = /^[0-9a-f]{64}$/.test(stored) ? stored : this.hashOTP(identifier, stored);
+
+    return timingSafeEqual(
+      Buffer.from(expected, 'hex'),
+      Buffer.from(this.hashOTP(identifier, otp), 'hex')
+    );
+  }
+
   /**
    * Store OTP in Redis with TTL
    * Requirement 1.2: Store OTP in Redis with 5-minute TTL
+   * Only the HMAC is stored, so Redis access doesn't reveal codes
    */
-  async storeOTP(phone: string, otp: string, ttl: number = this.otpTTL): Promise<void> {
+  async storeOTP(phone: string, otp: string, ttl: number = this.policy.ttlSeconds): Promise<void> {
     const key = this.getOTPKey(phone);
     
     try {
-      await this.redis.setex(key, ttl, otp);
+      // Hashed the way verifyOTP reads codes, so values that aren't generated codes, such as magic link nonces, still match
+      await this.redis.setex(key, ttl, this.hashOTP(phone, this.normalizeCode(otp)));
       
       logger.info('OTP stored in Redis', {
         phone: this.maskPhone(phone),
@@ -88,7 +245,7 @@ export class OTPService {
         return false;
       }
       
-      const isValid = storedOTP === otp;
+      const isValid = this.matchesStoredOTP(phone, storedOTP, this.normalizeCode(otp));
       
       if (isValid) {
         logger.info('OTP verified successfully', {
@@ -98,6 +255,7 @@ export class OTPService {
         await this.deleteOTP(phone);
         // Reset failed attempts counter
         await this.resetFailedAttempts(phone);
+        await this.fraud?.recordVerification(phone);
       } else {
         logger.warn('Invalid OTP provided', {
           phone: this.maskPhone(phone)
@@ -127,7 +285,7 @@ export class OTPService {
       
       // Set TTL on first attempt
       if (attempts === 1) {
-        await this.redis.expire(key, this.blockDuration);
+        await this.redis.expire(key, this.policy.blockDurationSeconds);
       }
       
       logger.info('Failed OTP attempts incremented', {
@@ -136,12 +294,12 @@ export class OTPService {
       });
       
       // Block phone if max attempts reached (Requirement 6.2)
-      if (attempts >= this.maxAttempts) {
-        await this.blockPhone(phone, this.blockDuration);
+      if (attempts >= this.policy.maxAttempts) {
+        await this.blockPhone(phone, this.policy.blockDurationSeconds);
         logger.warn('Phone blocked due to too many failed attempts', {
           phone: this.maskPhone(phone),
           attempts,
-          blockDuration: this.blockDuration
+          blockDuration: this.policy.blockDurationSeconds
         });
       }
       
@@ -178,7 +336,7 @@ export class OTPService {
    * Block phone for specified duration
    * Requirement 6.2: Implement phone blocking logic (5 attempts = 15 min block)
    */
-  async blockPhone(phone: string, duration: number = this.blockDuration): Promise<void> {
+  async blockPhone(phone: string, duration: number = this.policy.blockDurationSeconds): Promise<void> {
     const key = this.getBlockedKey(phone);
     
     try {
@@ -222,7 +380,7 @@ export class OTPService {
   /**
    * Reset failed attempts counter
    */
-  private async resetFailedAttempts(phone: string): Promise<void> {
+  async resetFailedAttempts(phone: string): Promise<void> {
     const key = this.getFailedAttemptsKey(phone);
     
     try {
@@ -258,23 +416,27 @@ export class OTPService {
   }
 
   /**
-   * Check if resend is allowed (30 seconds cooldown)
+   * Check if resend is allowed (SMS_RESEND_COOLDOWN_SECONDS, 30 seconds by default)
    * Requirement 5.4: Check that at least 30 seconds passed since last send
+   * offerVoiceCall is set from the second resend on, so the customer can ask for a call instead
    */
-  async canResendOTP(phone: string): Promise<{ allowed: boolean; retryAfter?: number }> {
+  async canResendOTP(phone: string): Promise<{ allowed: boolean; retryAfter?: number; offerVoiceCall?: boolean }> {
     const key = this.getLastSendKey(phone);
     
     try {
       const lastSendTime = await this.redis.get(key);
+      // Sends so far include the first one, so this resend is the sends-th
+      const sends = parseInt(await this.redis.get(this.getSendAttemptsKey(phone)) || '0', 10);
+      const offerVoiceCall = sends >= VOICE_CALL_AFTER_RESENDS;
       
       if (!lastSendTime) {
-        return { allowed: true };
+        return { allowed: true, offerVoiceCall };
       }
       
       const lastSend = parseInt(lastSendTime, 10);
       const now = Date.now();
       const timeSinceLastSend = now - lastSend;
-      const minInterval = 30 * 1000; // 30 seconds
+      const minInterval = this.policy.resendCooldownSeconds * 1000;
       
       if (timeSinceLastSend < minInterval) {
         const retryAfter = Math.ceil((minInterval - timeSinceLastSend) / 1000);
@@ -285,10 +447,10 @@ export class OTPService {
           retryAfter: `${retryAfter}s`
         });
         
-        return { allowed: false, retryAfter };
+        return { allowed: false, retryAfter, offerVoiceCall };
       }
       
-      return { allowed: true };
+      return { allowed: true, offerVoiceCall };
     } catch (error) {
       logger.error('Failed to check resend cooldown', {
         phone: this.maskPhone(phone),
@@ -301,13 +463,30 @@ export class OTPService {
 
   /**
    * Track send attempt and check if phone should be blocked
-   * Requirement 5.5: Track send attempts (3 per 10 minutes), block after 3 attempts
+   * Requirement 5.5: Track send attempts (3 per 10 minutes by default), block once the limit is exceeded
+   * Phone numbers are also checked for SMS pumping; `reason` says why the fraud check refused one
+   * Nothing is counted towards the number range here, see recordQueuedSend
    */
-  async trackSendAttempt(phone: string): Promise<{ allowed: boolean; retryAfter?: number }> {
+  async trackSendAttempt(phone: string): Promise<{ allowed: boolean; retryAfter?: number; reason?: SMSFraudReason }> {
+    // Email identifiers share this counter but can't be pumped
+    const e164 = this.normalizeIdentifier(phone);
+    if (this.fraud && /^\+\d+$/.test(e164)) {
+      const check = await this.fraud.checkSend(e164);
+
+      if (!check.allowed) {
+        logger.warn('Send attempt refused by SMS fraud protection', {
+          phone: this.maskPhone(phone),
+          reason: check.reason,
+          prefix: check.prefix
+        });
+        return { allowed: false, retryAfter: check.retryAfter, reason: check.reason };
+      }
+    }
+
     const key = this.getSendAttemptsKey(phone);
-    const maxSendAttempts = 3;
-    const windowSeconds = 10 * 60; // 10 minutes
-    const blockDurationSeconds = 10 * 60; // 10 minutes
+    const maxSendAttempts = this.policy.maxSendAttempts;
+    const windowSeconds = this.policy.sendAttemptsWindowSeconds;
+    const blockDurationSeconds = this.policy.sendAttemptsBlockDurationSeconds;
     
     try {
       const attempts = await this.redis.incr(key);
@@ -369,13 +548,53 @@ export class OTPService {
     }
   }
 
+  /**
+   * Check if the customer may ask for the code by voice call, and record the call if so
+   * Calls are only offered after the second resend, and one call is allowed per send window
+   */
+  async trackVoiceCall(phone: string): Promise<{ allowed: boolean; retryAfter?: number }> {
+    const windowSeconds = this.policy.sendAttemptsWindowSeconds; // Same window as send attempts
+    
+    try {
+      const sends = parseInt(await this.redis.get(this.getSendAttemptsKey(phone)) || '0', 10);
+      
+      if (sends <= VOICE_CALL_AFTER_RESENDS) {
+        logger.warn('Voice call requested before it was offered', {
+          phone: this.maskPhone(phone),
+          sends
+        });
+        return { allowed: false };
+      }
+      
+      const recorded = await this.redis.set(this.getVoiceCallKey(phone), Date.now().toString(), 'EX', windowSeconds, 'NX');
+      
+      if (recorded !== 'OK') {
+        const ttl = await this.redis.ttl(this.getVoiceCallKey(phone));
+        
+        logger.warn('Voice call already placed in this window', {
+          phone: this.maskPhone(phone)
+        });
+        return { allowed: false, retryAfter: ttl > 0 ? ttl : windowSeconds };
+      }
+      
+      return { allowed: true };
+    } catch (error) {
+      logger.error('Failed to track voice call', {
+        phone: this.maskPhone(phone),
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      // Fail closed: calls cost far more than SMS
+      return { allowed: false };
+    }
+  }
+
   /**
    * Record the timestamp of OTP send
    * Requirement 5.4: Track last send time for rate limiting
    */
   async recordSendTime(phone: string): Promise<void> {
     const key = this.getLastSendKey(phone);
-    const ttl = 60; // Keep for 1 minute (longer than 30s cooldown)
+    const ttl = this.policy.resendCooldownSeconds * 2; // Outlives the cooldown
     
     try {
       await this.redis.setex(key, ttl, Date.now().toString());
@@ -392,29 +611,58 @@ export class OTPService {
     }
   }
 
+  /**
+   * Count a code that was queued for the phone number towards SMS pumping protection
+   * Called after the send passed every limit, so refused attempts can't get a country blocked
+   */
+  async recordQueuedSend(phone: string): Promise<void> {
+    const e164 = this.normalizeIdentifier(phone);
+    if (this.fraud && /^\+\d+$/.test(e164)) {
+      await this.fraud.recordSend(e164);
+    }
+  }
+
+  /**
+   * Alphanumeric codes are generated in upper case; customers may type them in either
+   */
+  private normalizeCode(code: string): string {
+    const trimmed = code.trim();
+    return this.policy.alphabet === 'alphanumeric' ? trimmed.toUpperCase() : trimmed;
+  }
+
   // Redis key helpers
   private getOTPKey(phone: string): string {
-    return `otp:${phone}`;
+    return getOTPKey(phone);
   }
 
   private getFailedAttemptsKey(phone: string): string {
-    return `otp:attempts:${phone}`;
+    return `otp:attempts:${this.normalizeIdentifier(phone)}`;
   }
 
   private getBlockedKey(phone: string): string {
-    return `otp:blocked:${phone}`;
+    return `otp:blocked:${this.normalizeIdentifier(phone)}`;
   }
 
   private getLastSendKey(phone: string): string {
-    return `otp:lastsend:${phone}`;
+    return `otp:lastsend:${this.normalizeIdentifier(phone)}`;
   }
 
   private getSendAttemptsKey(phone: string): string {
-    return `otp:sendattempts:${phone}`;
+    return `otp:sendattempts:${this.normalizeIdentifier(phone)}`;
   }
 
   private getSendBlockedKey(phone: string): string {
-    return `otp:sendblocked:${phone}`;
+    return `otp:sendblocked:${this.normalizeIdentifier(phone)}`;
+  }
+
+  private getVoiceCallKey(phone: string): string {
+    return `otp:voicecall:${this.normalizeIdentifier(phone)}`;
+  }
+
+  // Phone numbers are keyed by their E.164 form, so +44 7700 900000 and +447700900000 share one code
+  // and one set of limits; email and other identifiers are used as they are
+  private normalizeIdentifier(identifier: string): string {
+    return normalizePhoneNumber(identifier) ?? identifier;
   }
 
   // Mask phone number for logging (PII protection)
@@ -105,7 +105,7 @@ export class OrderService {
     const key = this.getOrderOTPKey(orderId);
 
     try {
-      await this.redis.setex(key, this.orderOTPTTL, otp);
+      await this.redis.setex(key, this.orderOTPTTL, this.otpService.hashOTP(key, otp));
 
       logger.info('Order OTP stored in Redis', {
         orderId,
@@ -179,7 +179,7 @@ export class OrderService {
         return false;
       }
 
-      const isValid = storedOTP === otp;
+      const isValid = this.otpService.matchesStoredOTP(key, storedOTP, otp);
 
       if (isValid) {
         logger.info('Order OTP verified successfully', {
@@ -0,0 +1,354 @@
+/**
+ * Passkey Service
+ * Manages WebAuthn passkey registration, assertion challenges and credential storage
+ */
+
+import {
+    AuthenticationResponseJSON,
+    AuthenticatorTransportFuture,
+    generateAuthenticationOptions,
+    generateRegistrationOptions,
+    PublicKeyCredentialCreationOptionsJSON,
+    PublicKeyCredentialRequestOptionsJSON,
+    RegistrationResponseJSON,
+    verifyAuthenticationResponse,
+    verifyRegistrationResponse
+} from '@simplewebauthn/server';
+import { randomBytes } from 'crypto';
+import type { Redis } from 'ioredis';
+import { config } from '../config/index.js';
+import { logger } from '../config/logger.js';
+
+export interface PasskeyConfig {
+  rpId: string;
+  rpName: string;
+  origin: string;
+  challengeTtlSeconds: number;
+  enrollmentTtlSeconds: number;
+}
+
+export interface PasskeyUser {
+  customerId: string;
+  userName: string;
+  displayName?: string;
+}
+
+export interface StoredPasskeyCredential {
+  id: string;
+  customerId: string;
+  publicKey: string; // base64url encoded COSE public key
+  counter: number;
+  transports?: AuthenticatorTransportFuture[];
+  deviceType: string;
+  backedUp: boolean;
+  createdAt: number;
+  lastUsedAt?: number;
+}
+
+interface PasskeyEnrollment extends PasskeyUser {
+  challenge?: string;
+}
+
+export class PasskeyService {
+  private readonly redis: Redis;
+  private readonly passkeyConfig: PasskeyConfig;
+
+  constructor(redis: Redis, passkeyConfig?: Partial<PasskeyConfig>) {
+    this.redis = redis;
+    this.passkeyConfig = {
+      ...config.passkey,
+      ...passkeyConfig
+    };
+
+    logger.info('PasskeyService initialized', {
+      rpId: this.passkeyConfig.rpId
+    });
+  }
+
+  /**
+   * Create a short-lived enrollment token for a customer who has just authenticated
+   * The token is the only way to start passkey registration, so a passkey can never
+   * be attached to a customer without a prior successful login
+   */
+  async createEnrollmentToken(user: PasskeyUser): Promise<string> {
+    const token = randomBytes(32).toString('hex');
+    const enrollment: PasskeyEnrollment = { ...user };
+
+    await this.redis.setex(
+      this.getEnrollmentKey(token),
+      this.passkeyConfig.enrollmentTtlSeconds,
+      JSON.stringify(enrollment)
+    );
+
+    logger.info('Passkey enrollment token created', {
+      customerId: user.customerId
+    });
+
+    return token;
+  }
+
+  /**
+   * Generate registration options for navigator.credentials.create()
+   */
+  async generateRegistrationOptions(enrollmentToken: string): Promise<PublicKeyCredentialCreationOptionsJSON> {
+    const enrollment = await this.getEnrollment(enrollmentToken);
+
+    if (!enrollment) {
+      throw new Error('Invalid or expired passkey enrollment token');
+    }
+
+    const existingCredentials = await this.getCredentials(enrollment.customerId);
+
+    const options = await generateRegistrationOptions({
+      rpName: this.passkeyConfig.rpName,
+      rpID: this.passkeyConfig.rpId,
+      userName: enrollment.userName,
+      userID: new TextEncoder().encode(enrollment.customerId),
+      userDisplayName: enrollment.displayName || enrollment.userName,
+      attestationType: 'none',
+      excludeCredentials: existingCredentials.map(credential => ({
+        id: credential.id,
+        transports: credential.transports
+      })),
+      authenticatorSelection: {
+        residentKey: 'required',
+        userVerification: 'preferred',
+        authenticatorAttachment: 'platform'
+      }
+    });
+
+    // Keep the challenge with the enrollment so it can only be answered once
+    enrollment.challenge = options.challenge;
+    await this.redis.setex(
+      this.getEnrollmentKey(enrollmentToken),
+      this.passkeyConfig.challengeTtlSeconds,
+      JSON.stringify(enrollment)
+    );
+
+    logger.info('Passkey registration options generated', {
+      customerId: enrollment.customerId,
+      excludedCredentials: existingCredentials.length
+    });
+
+    return options;
+  }
+
+  /**
+   * Verify the attestation returned by the browser and store the new credential
+   */
+  async verifyRegistration(
+    enrollmentToken: string,
+    response: RegistrationResponseJSON
+  ): Promise<StoredPasskeyCredential> {
+    const enrollment = await this.getEnrollment(enrollmentToken);
+
+    if (!enrollment || !enrollment.challenge) {
+      throw new Error('Invalid or expired passkey enrollment token');
+    }
+
+    // Enrollment tokens are single-use, whatever the outcome
+    await this.redis.del(this.getEnrollmentKey(enrollmentToken));
+
+    const verification = await verifyRegistrationResponse({
+      response,
+      expectedChallenge: enrollment.challenge,
+      expectedOrigin: this.passkeyConfig.origin,
+      expectedRPID: this.passkeyConfig.rpId
+    });
+
+    if (!verification.verified) {
+      logger.warn('Passkey registration verification failed', {
+        customerId: enrollment.customerId
+      });
+      throw new Error('Passkey registration could not be verified');
+    }
+
+    const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+
+    const storedCredential: StoredPasskeyCredential = {
+      id: credential.id,
+      customerId: enrollment.customerId,
+      publicKey: Buffer.from(credential.publicKey).toString('base64url'),
+      counter: credential.counter,
+      transports: credential.transports,
+      deviceType: credentialDeviceType,
+      backedUp: credentialBackedUp,
+      createdAt: Date.now()
+    };
+
+    await this.saveCredential(storedCredential);
+
+    logger.info('Passkey registered', {
+      customerId: enrollment.customerId,
+      deviceType: credentialDeviceType,
+      backedUp: credentialBackedUp
+    });
+
+    return storedCredential;
+  }
+
+  /**
+   * Generate assertion options for navigator.credentials.get()
+   * Uses discoverable credentials, so the shopper does not need to type an identifier
+   */
+  async generateAuthenticationOptions(): Promise<{
+    challengeId: string;
+    options: PublicKeyCredentialRequestOptionsJSON;
+  }> {
+    const options = await generateAuthenticationOptions({
+      rpID: this.passkeyConfig.rpId,
+      userVerification: 'preferred'
+    });
+
+    const challengeId = randomBytes(16).toString('hex');
+
+    await this.redis.setex(
+      this.getChallengeKey(challengeId),
+      this.passkeyConfig.challengeTtlSeconds,
+      options.challenge
+    );
+
+    logger.info('Passkey authentication options generated', {
+      challengeId
+    });
+
+    return { challengeId, options };
+  }
+
+  /**
+   * Verify an assertion and return the Shopify customer ID the credential belongs to
+   */
+  async verifyAuthentication(
+    challengeId: string,
+    response: AuthenticationResponseJSON
+  ): Promise<string> {
+    const challengeKey = this.getChallengeKey(challengeId);
+    const expectedChallenge = await this.redis.get(challengeKey);
+
+    if (!expectedChallenge) {
+      throw new Error('Invalid or expired passkey challenge');
+    }
+
+    // Challenges are single-use
+    await this.redis.del(challengeKey);
+
+    const credential = await this.findCredential(response.id);
+
+    if (!credential) {
+      logger.warn('Passkey assertion for unknown credential', {
+        challengeId
+      });
+      throw new Error('Passkey is not registered');
+    }
+
+    const verification = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge,
+      expectedOrigin: this.passkeyConfig.origin,
+      expectedRPID: this.passkeyConfig.rpId,
+      credential: {
+        id: credential.id,
+        publicKey: new Uint8Array(Buffer.from(credential.publicKey, 'base64url')),
+        counter: credential.counter,
+        transports: credential.transports
+      }
+    });
+
+    if (!verification.verified) {
+      logger.warn('Passkey assertion verification failed', {
+        customerId: credential.customerId
+      });
+      throw new Error('Passkey could not be verified');
+    }
+
+    credential.counter = verification.authenticationInfo.newCounter;
+    credential.lastUsedAt = Date.now();
+    await this.saveCredential(credential);
+
+    logger.info('Passkey assertion verified', {
+      customerId: credential.customerId
+    });
+
+    return credential.customerId;
+  }
+
+  /**
+   * Get all passkeys registered for a customer
+   */
+  async getCredentials(customerId: string): Promise<StoredPasskeyCredential[]> {
+    const entries = await this.redis.hvals(this.getCredentialsKey(customerId));
+    return entries.map(entry => JSON.parse(entry) as StoredPasskeyCredential);
+  }
+
+  /**
+   * Remove a passkey from a customer
+   * Credentials registered to another customer are left alone
+   */
+  async deleteCredential(customerId: string, credentialId: string): Promise<boolean> {
+    const owner = await this.redis.get(this.getCredentialIndexKey(credentialId));
+
+    if (owner !== customerId) {
+      logger.warn('Passkey delete refused, credential is not registered to the customer', { customerId });
+      return false;
+    }
+
+    // The credential and its index go together, so neither is left behind on its own
+    const results = await this.redis.multi()
+      .hdel(this.getCredentialsKey(customerId), credentialId)
+      .del(this.getCredentialIndexKey(credentialId))
+      .exec();
+    const removed = results?.[0]?.[1] === 1;
+
+    logger.info('Passkey deleted', {
+      customerId,
+      removed
+    });
+
+    return removed;
+  }
+
+  /**
+   * Look up a credential by its ID
+   */
+  private async findCredential(credentialId: string): Promise<StoredPasskeyCredential | null> {
+    const customerId = await this.redis.get(this.getCredentialIndexKey(credentialId));
+
+    if (!customerId) {
+      return null;
+    }
+
+    const data = await this.redis.hget(this.getCredentialsKey(customerId), credentialId);
+    return data ? JSON.parse(data) : null;
+  }
+
+  private async saveCredential(credential: StoredPasskeyCredential): Promise<void> {
+    await this.redis.hset(
+      this.getCredentialsKey(credential.customerId),
+      credential.id,
+      JSON.stringify(credential)
+    );
+    await this.redis.set(this.getCredentialIndexKey(credential.id), credential.customerId);
+  }
+
+  private async getEnrollment(token: string): Promise<PasskeyEnrollment | null> {
+    const data = await this.redis.get(this.getEnrollmentKey(token));
+    return data ? JSON.parse(data) : null;
+  }
+
+  // Redis key helpers
+  private getCredentialsKey(customerId: string): string {
+    return `passkey:credentials:${customerId}`;
+  }
+
+  private getCredentialIndexKey(credentialId: string): string {
+    return `passkey:credential:${credentialId}`;
+  }
+
+  private getChallengeKey(challengeId: string): string {
+    return `passkey:challenge:${challengeId}`;
+  }
+
+  private getEnrollmentKey(token: string): string {
+    return `passkey:enroll:${token}`;
+  }
+}
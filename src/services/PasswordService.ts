@@ -0,0 +1,225 @@
+/**
+ * Password Service
+ * Stores bcrypt password hashes for email-auth customers and enforces failed-attempt lockout
+ * Requirements: 2.3, 9.3
+ */
+
+import * as bcrypt from 'bcrypt';
+import { randomBytes } from 'crypto';
+import { Redis } from 'ioredis';
+import { config } from '../config/index.js';
+import { logger } from '../config/logger.js';
+
+export type PasswordVerificationStatus = 'valid' | 'invalid' | 'not_set' | 'blocked';
+
+export interface PasswordVerificationResult {
+  status: PasswordVerificationStatus;
+  retryAfter?: number;
+}
+
+export interface PasswordConfig {
+  saltRounds: number;
+  maxAttempts: number;
+  blockDurationSeconds: number;
+  resetTokenTtlSeconds: number;
+}
+
+export class PasswordService {
+  private readonly redis: Redis;
+  private readonly saltRounds: number;
+  private readonly maxAttempts: number;
+  private readonly blockDuration: number;
+  private readonly resetTokenTtl: number;
+
+  constructor(redis: Redis, passwordConfig?: Partial<PasswordConfig>) {
+    const settings: PasswordConfig = {
+      ...config.password,
+      ...passwordConfig
+    };
+
+    this.redis = redis;
+    this.saltRounds = settings.saltRounds;
+    this.maxAttempts = settings.maxAttempts;
+    this.blockDuration = settings.blockDurationSeconds;
+    this.resetTokenTtl = settings.resetTokenTtlSeconds;
+  }
+
+  /**
+   * Hash a password with bcrypt
+   * Requirement 2.3, 9.3: Hash passwords using bcrypt with cost factor >= 12
+   */
+  async hashPassword(password: string): Promise<string> {
+    return bcrypt.hash(password, this.saltRounds);
+  }
+
+  /**
+   * Hash and store a customer's password
+   */
+  async setPassword(email: string, password: string): Promise<void> {
+    const hash = await this.hashPassword(password);
+    await this.redis.set(this.getPasswordKey(email), hash);
+
+    logger.info('Password hash stored', { email: this.normalize(email) });
+  }
+
+  /**
+   * Check whether a password hash exists for the email
+   */
+  async hasPassword(email: string): Promise<boolean> {
+    return (await this.redis.exists(this.getPasswordKey(email))) === 1;
+  }
+
+  /**
+   * Verify a password against the stored hash
+   * Failed attempts count towards a temporary lockout; a missing hash does not,
+   * since those customers were created before passwords were stored and must reset
+   */
+  async verifyPassword(email: string, password: string): Promise<PasswordVerificationResult> {
+    const blockedFor = await this.getBlockedTTL(email);
+    if (blockedFor > 0) {
+      logger.warn('Password login attempted for locked account', {
+        email: this.normalize(email),
+        retryAfter: blockedFor
+      });
+      return { status: 'blocked', retryAfter: blockedFor };
+    }
+
+    const storedHash = await this.redis.get(this.getPasswordKey(email));
+
+    if (!storedHash) {
+      logger.warn('No password hash stored for email', { email: this.normalize(email) });
+      return { status: 'not_set' };
+    }
+
+    const isValid = await bcrypt.compare(password, storedHash);
+
+    if (!isValid) {
+      const attempts = await this.incrementFailedAttempts(email);
+      if (attempts >= this.maxAttempts) {
+        return { status: 'blocked', retryAfter: this.blockDuration };
+      }
+      return { status: 'invalid' };
+    }
+
+    await this.redis.del(this.getFailedAttemptsKey(email));
+    return { status: 'valid' };
+  }
+
+  /**
+   * Check if an email is locked out
+   */
+  async isBlocked(email: string): Promise<boolean> {
+    return (await this.getBlockedTTL(email)) > 0;
+  }
+
+  /**
+   * Clear failed attempts and any lockout, e.g. after a password reset
+   */
+  async clearLockout(email: string): Promise<void> {
+    await this.redis.del(this.getFailedAttemptsKey(email), this.getBlockedKey(email));
+  }
+
+  /**
+   * Issue a single-use password reset token
+   * Only the newest token for an email is valid; issuing one revokes the previous
+   */
+  async createResetToken(email: string): Promise<string> {
+    const token = randomBytes(32).toString('hex');
+    const pointerKey = this.getResetPointerKey(email);
+
+    const previous = await this.redis.get(pointerKey);
+    if (previous) {
+      await this.redis.del(this.getResetTokenKey(previous));
+    }
+
+    await this.redis.setex(this.getResetTokenKey(token), this.resetTokenTtl, this.normalize(email));
+    await this.redis.setex(pointerKey, this.resetTokenTtl, token);
+
+    logger.info('Password reset token issued', { email: this.normalize(email) });
+
+    return token;
+  }
+
+  /**
+   * Consume a reset token and return the email it was issued for
+   * Returns null for unknown, expired or already used tokens
+   */
+  async consumeResetToken(token: string): Promise<string | null> {
+    const key = this.getResetTokenKey(token);
+
+    // Tokens are single-use: read and delete in one transaction so concurrent requests can't both redeem it
+    const results = await this.redis.multi().get(key).del(key).exec();
+    const email = results?.[0]?.[1] as string | null | undefined;
+
+    if (!email) {
+      return null;
+    }
+
+    await this.redis.del(this.getResetPointerKey(email));
+
+    return email;
+  }
+
+  /**
+   * Revoke an issued reset token, e.g. when it could not be delivered
+   */
+  async revokeResetToken(token: string): Promise<void> {
+    await this.consumeResetToken(token);
+  }
+
+  /**
+   * Increment failed attempts and lock the account once the limit is reached
+   */
+  private async incrementFailedAttempts(email: string): Promise<number> {
+    const key = this.getFailedAttemptsKey(email);
+    const attempts = await this.redis.incr(key);
+
+    // Set TTL on first attempt
+    if (attempts === 1) {
+      await this.redis.expire(key, this.blockDuration);
+    }
+
+    if (attempts >= this.maxAttempts) {
+      await this.redis.setex(this.getBlockedKey(email), this.blockDuration, '1');
+      await this.redis.del(key);
+
+      logger.warn('Account locked due to too many failed password attempts', {
+        email: this.normalize(email),
+        attempts,
+        blockDuration: this.blockDuration
+      });
+    }
+
+    return attempts;
+  }
+
+  private async getBlockedTTL(email: string): Promise<number> {
+    const ttl = await this.redis.ttl(this.getBlockedKey(email));
+    return ttl > 0 ? ttl : 0;
+  }
+
+  private normalize(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  // Redis key helpers
+  private getPasswordKey(email: string): string {
+    return `email:password:${this.normalize(email)}`;
+  }
+
+  private getFailedAttemptsKey(email: string): string {
+    return `email:attempts:${this.normalize(email)}`;
+  }
+
+  private getBlockedKey(email: string): string {
+    return `email:blocked:${this.normalize(email)}`;
+  }
+
+  private getResetTokenKey(token: string): string {
+    return `password:reset:${token}`;
+  }
+
+  private getResetPointerKey(email: string): string {
+    return `password:reset:email:${this.normalize(email)}`;
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Provider Health Service
+ * Tracks failure rate and latency per SMS provider in Redis and runs a circuit breaker,
+ * so a provider that keeps failing is skipped instead of being tried on every message
+ */
+
+import { Redis } from 'ioredis';
+import { config } from '../config/index.js';
+import { logger } from '../config/logger.js';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  windowSize: number;           // Recent sends the failure rate is measured over
+  minimumRequests: number;      // Sends needed in the window before the circuit can open
+  failureRateThreshold: number; // Share of failed sends (0-1) that opens the circuit
+  openDurationSeconds: number;  // How long an open circuit skips the provider before a trial send
+}
+
+export interface ProviderHealth {
+  provider: string;
+  state: CircuitState;
+  failureRate: number;      // 0-1 over the recent window
+  averageLatencyMs: number;
+  sampleSize: number;
+  openedAt?: number;
+}
+
+export type CircuitStateListener = (provider: string, state: CircuitState, health: ProviderHealth) => void | Promise<void>;
+
+interface CircuitData {
+  openedAt: number;
+}
+
+export class ProviderHealthService {
+  private redis: Redis;
+  private options: CircuitBreakerOptions;
+  private listeners: CircuitStateListener[] = [];
+
+  constructor(redis: Redis, options: Partial<CircuitBreakerOptions> = {}) {
+    this.redis = redis;
+    this.options = { ...config.sms.circuitBreaker, ...options };
+  }
+
+  /**
+   * Be told when a provider's circuit opens or closes
+   */
+  onStateChange(listener: CircuitStateListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Whether a message may be sent through the provider now
+   * Once an open circuit has waited long enough, one caller gets a trial send (half-open)
+   */
+  async canAttempt(provider: string): Promise<boolean> {
+    try {
+      const circuit = await this.getCircuit(provider);
+
+      if (!circuit) {
+        return true;
+      }
+
+      if (this.getOpenCircuitState(circuit) === 'open') {
+        return false;
+      }
+
+      // Only one trial send at a time while half-open
+      const claimed = await this.redis.set(
+        this.getProbeKey(provider),
+        '1',
+        'EX',
+        this.options.openDurationSeconds,
+        'NX'
+      );
+      return claimed === 'OK';
+    } catch (error) {
+      logger.error('Failed to read SMS provider circuit', {
+        provider,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      // Health tracking failures shouldn't stop messages going out
+      return true;
+    }
+  }
+
+  /**
+   * Get a provider's circuit state without claiming a trial send
+   */
+  async getState(provider: string): Promise<CircuitState> {
+    try {
+      const circuit = await this.getCircuit(provider);
+      return circuit ? this.getOpenCircuitState(circuit) : 'closed';
+    } catch {
+      return 'closed';
+    }
+  }
+
+  /**
+   * Record a successful send; closes the circuit if this was a trial send
+   */
+  async recordSuccess(provider: string, latencyMs: number): Promise<void> {
+    try {
+      await this.recordOutcome(provider, true, latencyMs);
+
+      if (await this.getCircuit(provider)) {
+        await this.redis.del(this.getCircuitKey(provider), this.getProbeKey(provider), this.getOutcomesKey(provider));
+
+        logger.info('SMS provider circuit closed', { provider });
+        await this.notify(provider, 'closed');
+      }
+    } catch (error) {
+      logger.error('Failed to record SMS provider success', {
+        provider,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Record a failed send; opens the circuit when the recent failure rate is too high
+   * or a trial send fails
+   */
+  async recordFailure(provider: string, latencyMs: number): Promise<void> {
+    try {
+      await this.recordOutcome(provider, false, latencyMs);
+
+      const circuit = await this.getCircuit(provider);
+      const health = await this.getHealth(provider);
+
+      // A failed trial send re-opens the circuit for another wait
+      const trialFailed = circuit !== null && health.state === 'half_open';
+      const tripped = circuit === null &&
+        health.sampleSize >= this.options.minimumRequests &&
+        health.failureRate >= this.options.failureRateThreshold;
+
+      if (!trialFailed && !tripped) {
+        return;
+      }
+
+      const data: CircuitData = { openedAt: Date.now() };
+      await this.redis.set(this.getCircuitKey(provider), JSON.stringify(data));
+      await this.redis.del(this.getProbeKey(provider));
+
+      logger.warn('SMS provider circuit opened', {
+        provider,
+        failureRate: health.failureRate,
+        averageLatencyMs: health.averageLatencyMs,
+        sampleSize: health.sampleSize,
+        retryInSeconds: this.options.openDurationSeconds
+      });
+      await this.notify(provider, 'open');
+    } catch (error) {
+      logger.error('Failed to record SMS provider failure', {
+        provider,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get circuit state, failure rate and latency for a provider
+   */
+  async getHealth(provider: string): Promise<ProviderHealth> {
+    const [circuit, outcomes] = await Promise.all([
+      this.getCircuit(provider),
+      this.redis.lrange(this.getOutcomesKey(provider), 0, -1)
+    ]);
+
+    let failures = 0;
+    let totalLatency = 0;
+
+    for (const outcome of outcomes) {
+      const [ok, latency] = outcome.split(':');
+      if (ok !== '1') {
+        failures++;
+      }
+      totalLatency += parseInt(latency, 10) || 0;
+    }
+
+    return {
+      provider,
+      state: circuit ? this.getOpenCircuitState(circuit) : 'closed',
+      failureRate: outcomes.length > 0 ? failures / outcomes.length : 0,
+      averageLatencyMs: outcomes.length > 0 ? Math.round(totalLatency / outcomes.length) : 0,
+      sampleSize: outcomes.length,
+      openedAt: circuit?.openedAt
+    };
+  }
+
+  /**
+   * Get health for several providers, e.g. for a dashboard
+   */
+  async getAllHealth(providers: string[]): Promise<ProviderHealth[]> {
+    return await Promise.all(providers.map(provider => this.getHealth(provider)));
+  }
+
+  private async recordOutcome(provider: string, success: boolean, latencyMs: number): Promise<void> {
+    const key = this.getOutcomesKey(provider);
+
+    // Newest first, trimmed to the window
+    await this.redis.lpush(key, `${success ? 1 : 0}:${Math.round(latencyMs)}`);
+    await this.redis.ltrim(key, 0, this.options.windowSize - 1);
+    await this.redis.expire(key, 86400); // 24 hours
+  }
+
+  // An open circuit turns half-open once it has waited out the open duration
+  private getOpenCircuitState(circuit: CircuitData): CircuitState {
+    return Date.now() < circuit.openedAt + this.options.openDurationSeconds * 1000 ? 'open' : 'half_open';
+  }
+
+  private async getCircuit(provider: string): Promise<CircuitData | null> {
+    const data = await this.redis.get(this.getCircuitKey(provider));
+    return data ? JSON.parse(data) : null;
+  }
+
+  private async notify(provider: string, state: CircuitState): Promise<void> {
+    if (this.listeners.length === 0) {
+      return;
+    }
+
+    const health = await this.getHealth(provider);
+
+    for (const listener of this.listeners) {
+      try {
+        await listener(provider, state, health);
+      } catch (error) {
+        logger.error('SMS provider circuit listener failed', {
+          provider,
+          state,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+
+  // Redis key helpers
+  private getOutcomesKey(provider: string): string {
+    return `sms:health:${provider}:outcomes`;
+  }
+
+  private getCircuitKey(provider: string): string {
+    return `sms:circuit:${provider}`;
+  }
+
+  private getProbeKey(provider: string): string {
+    return `sms:circuit:${provider}:probe`;
+  }
+}
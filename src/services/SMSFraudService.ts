@@ -0,0 +1,334 @@
+/**
+ * SMS Fraud Service
+ * Guards OTP sends against SMS pumping (toll fraud): country allow/deny lists, per-range
+ * velocity limits, and temporary blocks for number ranges whose codes are rarely verified
+ * Automatic blocks cover a number range (see getNumberRangePrefix), never a whole country,
+ * so pumping can't be used to cut a country off; whole countries are only refused by the lists
+ */
+
+import { Redis } from 'ioredis';
+import { config } from '../config/index.js';
+import { logger } from '../config/logger.js';
+import { getCountryCallingCode, getNumberRangePrefix } from '../utils/phoneNumber.js';
+
+export type SMSFraudReason = 'country_not_allowed' | 'prefix_blocked' | 'prefix_velocity' | 'low_verify_ratio';
+
+export interface SMSFraudOptions {
+  enabled: boolean;
+  windowSeconds: number;        // Window sends and verifications are counted over, per number range
+  maxSendsPerPrefix: number;    // Sends to one number range per window before the range is blocked
+  minSendsForRatio: number;     // Sends needed before the verify ratio is judged
+  minVerifyRatio: number;       // Share of sends (0-1) that must be verified, below which the range is blocked
+  blockDurationSeconds: number; // How long an automatic range block lasts
+  logOnly: boolean;             // Log ranges that would be blocked automatically without blocking them
+  allowlist: string[];          // When set, only numbers starting with one of these prefixes get codes
+  denylist: string[];           // Numbers starting with one of these prefixes never get codes
+  scope?: string;               // Keeps counters and blocks apart, e.g. per shop
+}
+
+export interface SMSFraudCheck {
+  allowed: boolean;
+  reason?: SMSFraudReason;
+  prefix?: string;
+  retryAfter?: number;
+}
+
+export interface BlockedPrefix {
+  prefix: string;
+  reason: SMSFraudReason;
+  sent: number;
+  verified: number;
+  blockedAt: number;
+  expiresAt: number;
+}
+
+export type PrefixBlockedListener = (block: BlockedPrefix) => void | Promise<void>;
+
+const COUNTRY_PREFIX_PATTERN = /^\+[1-9]\d{0,5}$/;
+
+/**
+ * Check a country allowlist or denylist before it is saved or used
+ */
+export function validateCountryPrefixes(prefixes: unknown): string[] {
+  if (!Array.isArray(prefixes)) {
+    throw new Error('SMS country lists must be a list of prefixes');
+  }
+
+  for (const prefix of prefixes) {
+    if (typeof prefix !== 'string' || !COUNTRY_PREFIX_PATTERN.test(prefix)) {
+      throw new Error('SMS country prefixes must be a + followed by up to 6 digits, such as +44');
+    }
+  }
+
+  return [...new Set(prefixes as string[])];
+}
+
+/**
+ * Read a comma-separated list of country prefixes, e.g. "+44, +1"
+ * An invalid list is ignored, so a typo can't stop every SMS
+ */
+export function parseCountryPrefixes(value?: string | null): string[] {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    return validateCountryPrefixes(value.split(/[\s,]+/).filter(Boolean));
+  } catch (error) {
+    logger.warn('Ignoring invalid SMS country list', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return [];
+  }
+}
+
+export class SMSFraudService {
+  private redis: Redis;
+  private options: SMSFraudOptions;
+  private listeners: PrefixBlockedListener[] = [];
+
+  constructor(redis: Redis, options: Partial<SMSFraudOptions> = {}) {
+    this.redis = redis;
+    this.options = {
+      ...config.sms.fraud,
+      allowlist: parseCountryPrefixes(config.sms.fraud.allowlist),
+      denylist: parseCountryPrefixes(config.sms.fraud.denylist),
+      ...options
+    };
+  }
+
+  /**
+   * Be told when a number range is blocked automatically
+   */
+  onPrefixBlocked(listener: PrefixBlockedListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Whether a code may be sent to the phone number
+   * Only reads the country lists and range blocks; sends are counted with recordSend once the code is queued
+   */
+  async checkSend(phone: string): Promise<SMSFraudCheck> {
+    if (!this.options.enabled) {
+      return { allowed: true };
+    }
+
+    const e164 = phone.startsWith('+') ? phone : `+${phone}`;
+
+    if (this.options.denylist.some(prefix => e164.startsWith(prefix)) ||
+        (this.options.allowlist.length > 0 && !this.options.allowlist.some(prefix => e164.startsWith(prefix)))) {
+      return { allowed: false, reason: 'country_not_allowed', prefix: getCountryCallingCode(phone) || undefined };
+    }
+
+    const prefix = getNumberRangePrefix(phone);
+
+    // Malformed numbers are rejected by validation before a code is sent
+    if (!prefix) {
+      return { allowed: true };
+    }
+
+    try {
+      const block = await this.getBlock(prefix);
+
+      if (block) {
+        return {
+          allowed: false,
+          reason: 'prefix_blocked',
+          prefix,
+          retryAfter: Math.max(1, Math.ceil((block.expiresAt - Date.now()) / 1000))
+        };
+      }
+
+      return { allowed: true, prefix };
+    } catch (error) {
+      logger.error('Failed to check SMS send for fraud', {
+        prefix,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      // Fail open to not block legitimate users
+      return { allowed: true, prefix };
+    }
+  }
+
+  /**
+   * Count a code sent to the phone number towards its number range
+   * Blocks the range for later sends when its sends are too fast or rarely verified
+   */
+  async recordSend(phone: string): Promise<void> {
+    const prefix = getNumberRangePrefix(phone);
+
+    if (!this.options.enabled || !prefix) {
+      return;
+    }
+
+    try {
+      const key = this.getCountsKey(prefix, this.getWindow());
+      const sent = await this.redis.hincrby(key, 'sent', 1);
+      if (sent === 1) {
+        await this.redis.expire(key, this.options.windowSeconds * 2);
+      }
+
+      if (sent > this.options.maxSendsPerPrefix) {
+        await this.blockPrefix(prefix, 'prefix_velocity');
+        return;
+      }
+
+      // Judged over this window and the last, so codes sent just before a new window
+      // and verified just after it still count
+      const counts = await this.getCounts(prefix);
+      if (counts.sent >= this.options.minSendsForRatio &&
+          counts.verified / counts.sent < this.options.minVerifyRatio) {
+        await this.blockPrefix(prefix, 'low_verify_ratio');
+      }
+    } catch (error) {
+      logger.error('Failed to record SMS send', {
+        prefix,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Count a verified code towards its number range's verify ratio
+   */
+  async recordVerification(phone: string): Promise<void> {
+    const prefix = getNumberRangePrefix(phone);
+
+    if (!this.options.enabled || !prefix) {
+      return;
+    }
+
+    try {
+      const key = this.getCountsKey(prefix, this.getWindow());
+      await this.redis.hincrby(key, 'verified', 1);
+      await this.redis.expire(key, this.options.windowSeconds * 2);
+    } catch (error) {
+      logger.error('Failed to record SMS verification', {
+        prefix,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Number ranges blocked right now, e.g. for a dashboard
+   */
+  async getBlockedPrefixes(): Promise<BlockedPrefix[]> {
+    const listKey = this.getBlockedListKey();
+    await this.redis.zremrangebyscore(listKey, '-inf', Date.now());
+
+    const prefixes = await this.redis.zrange(listKey, 0, -1);
+    const blocks = await Promise.all(prefixes.map(prefix => this.getBlock(prefix)));
+
+    return blocks.filter((block): block is BlockedPrefix => block !== null);
+  }
+
+  /**
+   * Lift an automatic block early, e.g. after a merchant confirms the traffic is genuine
+   * The range's counters are reset so it isn't blocked again straight away
+   */
+  async unblockPrefix(prefix: string): Promise<void> {
+    const window = this.getWindow();
+
+    await this.redis.del(
+      this.getBlockKey(prefix),
+      this.getCountsKey(prefix, window),
+      this.getCountsKey(prefix, window - 1)
+    );
+    await this.redis.zrem(this.getBlockedListKey(), prefix);
+
+    logger.info('SMS number range unblocked', { prefix, scope: this.options.scope });
+  }
+
+  private async blockPrefix(prefix: string, reason: SMSFraudReason): Promise<void> {
+    const counts = await this.getCounts(prefix);
+
+    // Lets the limits be tuned against real traffic before they refuse anyone
+    if (this.options.logOnly) {
+      logger.warn('SMS number range would be blocked for suspected SMS pumping (log-only mode)', {
+        prefix,
+        reason,
+        sent: counts.sent,
+        verified: counts.verified,
+        scope: this.options.scope
+      });
+      return;
+    }
+
+    const now = Date.now();
+    const block: BlockedPrefix = {
+      prefix,
+      reason,
+      sent: counts.sent,
+      verified: counts.verified,
+      blockedAt: now,
+      expiresAt: now + this.options.blockDurationSeconds * 1000
+    };
+
+    await this.redis.set(this.getBlockKey(prefix), JSON.stringify(block), 'EX', this.options.blockDurationSeconds);
+    await this.redis.zadd(this.getBlockedListKey(), block.expiresAt, prefix);
+
+    logger.warn('SMS number range blocked for suspected SMS pumping', {
+      prefix,
+      reason,
+      sent: counts.sent,
+      verified: counts.verified,
+      scope: this.options.scope,
+      blockDuration: this.options.blockDurationSeconds
+    });
+    await this.notify(block);
+  }
+
+  private async getBlock(prefix: string): Promise<BlockedPrefix | null> {
+    const data = await this.redis.get(this.getBlockKey(prefix));
+    return data ? JSON.parse(data) : null;
+  }
+
+  // Sends and verifications over the current and previous window
+  private async getCounts(prefix: string): Promise<{ sent: number; verified: number }> {
+    const window = this.getWindow();
+    const [current, previous] = await Promise.all([
+      this.redis.hgetall(this.getCountsKey(prefix, window)),
+      this.redis.hgetall(this.getCountsKey(prefix, window - 1))
+    ]);
+
+    return {
+      sent: (parseInt(current.sent, 10) || 0) + (parseInt(previous.sent, 10) || 0),
+      verified: (parseInt(current.verified, 10) || 0) + (parseInt(previous.verified, 10) || 0)
+    };
+  }
+
+  private getWindow(): number {
+    return Math.floor(Date.now() / (this.options.windowSeconds * 1000));
+  }
+
+  private async notify(block: BlockedPrefix): Promise<void> {
+    for (const listener of this.listeners) {
+      try {
+        await listener(block);
+      } catch (error) {
+        logger.error('SMS prefix block listener failed', {
+          prefix: block.prefix,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+
+  // Redis key helpers
+  private getKeyPrefix(): string {
+    return this.options.scope ? `sms:fraud:${this.options.scope}` : 'sms:fraud';
+  }
+
+  private getCountsKey(prefix: string, window: number): string {
+    return `${this.getKeyPrefix()}:counts:${prefix}:${window}`;
+  }
+
+  private getBlockKey(prefix: string): string {
+    return `${this.getKeyPrefix()}:blocked:${prefix}`;
+  }
+
+  private getBlockedListKey(): string {
+    return `${this.getKeyPrefix()}:blocked`;
+  }
+}
@@ -6,13 +6,25 @@
 
 import { Redis } from 'ioredis';
 import { logger } from '../config/logger.js';
+import { OTPPolicy, resolveOTPPolicy, validateOTPPolicy } from './OTPService.js';
 
 export interface AuthSettings {
   enabledMethods: {
     sms: boolean;
     email: boolean;
     google: boolean;
+    passkey?: boolean;
   };
+  // Ask SMS sign-ups for an email, name and marketing consent before signing them in
+  profileCompletion?: {
+    enabled: boolean;
+  };
+  // Customers with any of these tags (e.g. wholesale) must sign in with an authenticator app
+  totp?: {
+    requiredTags: string[];
+  };
+  // Code format, expiry, attempt limits and resend cooldowns for OTP sign-in; unset fields use the env defaults
+  otpPolicy?: Partial<OTPPolicy>;
   uiCustomization: {
     primaryColor: string;
     buttonStyle: 'rounded' | 'square' | 'pill';
@@ -25,6 +37,13 @@ const DEFAULT_SETTINGS: AuthSettings = {
     sms: true,
     email: true,
     google: false,
+    passkey: false,
+  },
+  profileCompletion: {
+    enabled: false,
+  },
+  totp: {
+    requiredTags: [],
   },
   uiCustomization: {
     primaryColor: '#000000',
@@ -36,9 +55,20 @@ const DEFAULT_SETTINGS: AuthSettings = {
 const SETTINGS_CACHE_KEY = 'app:settings';
 const SETTINGS_CACHE_TTL = 300; // 5 minutes
 
+export type SettingsSavedListener = (settings: AuthSettings) => void | Promise<void>;
+
 export class SettingsService {
+  private listeners: SettingsSavedListener[] = [];
+
   constructor(private redis: Redis) {}
 
+  /**
+   * Be told when settings are saved, e.g. to apply a new OTP policy
+   */
+  onSettingsSaved(listener: SettingsSavedListener): void {
+    this.listeners.push(listener);
+  }
+
   /**
    * Get current settings
    * Requirement 12.2: Fetch settings from shop metafields (cached in Redis)
@@ -110,6 +140,16 @@ export class SettingsService {
         buttonStyle: settings.uiCustomization.buttonStyle
       });
 
+      for (const listener of this.listeners) {
+        try {
+          await listener(settings);
+        } catch (error) {
+          logger.error('Settings saved listener failed', {
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      }
+
       return settings;
     } catch (error) {
       logger.error('Failed to save settings', {
@@ -136,6 +176,9 @@ export class SettingsService {
     if (settings.enabledMethods.google) {
       methods.push('google');
     }
+    if (settings.enabledMethods.passkey) {
+      methods.push('passkey');
+    }
 
     return methods;
   }
@@ -143,9 +186,33 @@ export class SettingsService {
   /**
    * Check if a specific auth method is enabled
    */
-  async isMethodEnabled(method: 'sms' | 'email' | 'google'): Promise<boolean> {
+  async isMethodEnabled(method: 'sms' | 'email' | 'google' | 'passkey'): Promise<boolean> {
+    const settings = await this.getSettings();
+    return settings.enabledMethods[method] ?? false;
+  }
+
+  /**
+   * Check if SMS sign-ups must complete their profile before they are signed in
+   */
+  async isProfileCompletionEnabled(): Promise<boolean> {
+    const settings = await this.getSettings();
+    return settings.profileCompletion?.enabled ?? false;
+  }
+
+  /**
+   * Get the customer tags that require an authenticator app as a second factor
+   */
+  async getTOTPRequiredTags(): Promise<string[]> {
     const settings = await this.getSettings();
-    return settings.enabledMethods[method];
+    return settings.totp?.requiredTags ?? [];
+  }
+
+  /**
+   * Get the OTP policy with the env defaults filled in
+   */
+  async getOTPPolicy(): Promise<OTPPolicy> {
+    const settings = await this.getSettings();
+    return resolveOTPPolicy(settings.otpPolicy);
   }
 
   /**
@@ -170,9 +237,14 @@ export class SettingsService {
     }
 
     // Ensure at least one method is enabled
+    // Passkeys are enrolled after another sign-in, so they don't count on their own
     const { sms, email, google } = settings.enabledMethods;
     if (!sms && !email && !google) {
       throw new Error('At least one authentication method must be enabled');
     }
+
+    if (settings.otpPolicy) {
+      validateOTPPolicy(settings.otpPolicy);
+    }
   }
 }
@@ -0,0 +1,319 @@
+/**
+ * TOTP Service
+ * Manages authenticator app (RFC 6238) enrollment, code verification and recovery codes
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { Redis } from 'ioredis';
+import { config } from '../config/index.js';
+import { logger } from '../config/logger.js';
+
+export interface TOTPConfig {
+  issuer: string;
+  digits: number;
+  periodSeconds: number;
+  window: number;
+  enrollmentTtlSeconds: number;
+  recoveryCodeCount: number;
+}
+
+export interface TOTPEnrollment {
+  // Base32 secret for manual entry when the QR code can't be scanned
+  secret: string;
+  // otpauth:// provisioning URI, rendered as a QR code by the storefront
+  otpauthUrl: string;
+}
+
+interface StoredTOTPSecret {
+  secret: string;
+  enrolledAt: number;
+  // Last time step a code was accepted for, so a code can't be replayed
+  lastCounter?: number;
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(encoded: string): Buffer {
+  const clean = encoded.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * HOTP value (RFC 4226) for a counter; TOTP uses the current time step as the counter
+ */
+export function generateTOTP(secret: Buffer, counter: number, digits: number = 6): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac('sha1', secret).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+export class TOTPService {
+  private readonly redis: Redis;
+  private readonly totpConfig: TOTPConfig;
+
+  constructor(redis: Redis, totpConfig?: Partial<TOTPConfig>) {
+    this.redis = redis;
+    this.totpConfig = {
+      ...config.totp,
+      ...totpConfig
+    };
+  }
+
+  /**
+   * Check whether a customer has an authenticator app enrolled
+   */
+  async isEnrolled(customerId: string): Promise<boolean> {
+    return (await this.redis.exists(this.getSecretKey(customerId))) === 1;
+  }
+
+  /**
+   * Start enrollment with a fresh secret
+   * The secret only becomes active once confirmEnrollment sees a valid code from the app
+   */
+  async beginEnrollment(customerId: string, accountName: string): Promise<TOTPEnrollment> {
+    const secret = base32Encode(randomBytes(20));
+
+    await this.redis.setex(
+      this.getPendingKey(customerId),
+      this.totpConfig.enrollmentTtlSeconds,
+      secret
+    );
+
+    logger.info('TOTP enrollment started', { customerId });
+
+    return {
+      secret,
+      otpauthUrl: this.buildOtpauthUrl(secret, accountName)
+    };
+  }
+
+  /**
+   * Check whether a customer has started enrollment and not yet confirmed it
+   */
+  async hasPendingEnrollment(customerId: string): Promise<boolean> {
+    return (await this.redis.exists(this.getPendingKey(customerId))) === 1;
+  }
+
+  /**
+   * Activate a pending enrollment with the first code from the authenticator app
+   * @returns Recovery codes to show the customer once, or null if the code is wrong or enrollment expired
+   */
+  async confirmEnrollment(customerId: string, code: string): Promise<string[] | null> {
+    const secret = await this.redis.get(this.getPendingKey(customerId));
+
+    if (!secret) {
+      logger.warn('TOTP enrollment confirmed without a pending enrollment', { customerId });
+      return null;
+    }
+
+    const counter = this.findCounter(secret, code);
+
+    if (counter === null) {
+      logger.warn('Invalid TOTP code for enrollment', { customerId });
+      return null;
+    }
+
+    const stored: StoredTOTPSecret = {
+      secret,
+      enrolledAt: Date.now(),
+      lastCounter: counter
+    };
+
+    await this.redis.set(this.getSecretKey(customerId), JSON.stringify(stored));
+    await this.redis.del(this.getPendingKey(customerId));
+
+    logger.info('TOTP enrollment confirmed', { customerId });
+
+    return this.regenerateRecoveryCodes(customerId);
+  }
+
+  /**
+   * Verify an authenticator code, or use up one of the customer's recovery codes
+   * Attempt counting and blocking are left to the caller
+   */
+  async verifyCode(customerId: string, code: string): Promise<boolean> {
+    const data = await this.redis.get(this.getSecretKey(customerId));
+
+    if (!data) {
+      return false;
+    }
+
+    const normalized = code.replace(/[\s-]/g, '');
+
+    // Recovery codes are longer than authenticator codes
+    if (normalized.length !== this.totpConfig.digits) {
+      return this.consumeRecoveryCode(customerId, normalized);
+    }
+
+    const stored = JSON.parse(data) as StoredTOTPSecret;
+    const counter = this.findCounter(stored.secret, normalized);
+
+    // Codes for a step that was already used are rejected, so an observed code can't be replayed
+    if (counter === null || (stored.lastCounter !== undefined && counter <= stored.lastCounter)) {
+      logger.warn('Invalid TOTP code provided', { customerId });
+      return false;
+    }
+
+    stored.lastCounter = counter;
+    await this.redis.set(this.getSecretKey(customerId), JSON.stringify(stored));
+
+    return true;
+  }
+
+  /**
+   * Replace the customer's recovery codes; previous codes stop working
+   * Only SHA-256 hashes are stored, so the codes are returned here and never again
+   */
+  async regenerateRecoveryCodes(customerId: string): Promise<string[]> {
+    const codes = Array.from({ length: this.totpConfig.recoveryCodeCount }, () => {
+      const raw = randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+    const key = this.getRecoveryKey(customerId);
+
+    await this.redis.del(key);
+    await this.redis.sadd(key, ...codes.map(code => this.hashRecoveryCode(code)));
+
+    logger.info('TOTP recovery codes generated', {
+      customerId,
+      count: codes.length
+    });
+
+    return codes;
+  }
+
+  /**
+   * Count the recovery codes the customer has left
+   */
+  async getRemainingRecoveryCodes(customerId: string): Promise<number> {
+    return this.redis.scard(this.getRecoveryKey(customerId));
+  }
+
+  /**
+   * Remove the authenticator app and its recovery codes
+   */
+  async disable(customerId: string): Promise<void> {
+    await this.redis.del(
+      this.getSecretKey(customerId),
+      this.getPendingKey(customerId),
+      this.getRecoveryKey(customerId)
+    );
+
+    logger.info('TOTP disabled', { customerId });
+  }
+
+  /**
+   * Find the time step within the drift window that the code was generated for
+   */
+  private findCounter(secret: string, code: string): number | null {
+    if (!new RegExp(`^\\d{${this.totpConfig.digits}}$`).test(code)) {
+      return null;
+    }
+
+    const key = base32Decode(secret);
+    const current = Math.floor(Date.now() / 1000 / this.totpConfig.periodSeconds);
+    const provided = Buffer.from(code);
+
+    for (let offset = -this.totpConfig.window; offset <= this.totpConfig.window; offset++) {
+      const counter = current + offset;
+      const expected = Buffer.from(generateTOTP(key, counter, this.totpConfig.digits));
+
+      if (timingSafeEqual(expected, provided)) {
+        return counter;
+      }
+    }
+
+    return null;
+  }
+
+  private async consumeRecoveryCode(customerId: string, code: string): Promise<boolean> {
+    const formatted = code.length === 10 ? `${code.slice(0, 5)}-${code.slice(5)}` : code;
+    const removed = await this.redis.srem(this.getRecoveryKey(customerId), this.hashRecoveryCode(formatted.toLowerCase()));
+
+    if (removed === 1) {
+      logger.info('TOTP recovery code used', { customerId });
+      return true;
+    }
+
+    logger.warn('Invalid TOTP recovery code provided', { customerId });
+    return false;
+  }
+
+  private hashRecoveryCode(code: string): string {
+    return createHash('sha256').update(code).digest('hex');
+  }
+
+  private buildOtpauthUrl(secret: string, accountName: string): string {
+    const issuer = this.totpConfig.issuer;
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: 'SHA1',
+      digits: String(this.totpConfig.digits),
+      period: String(this.totpConfig.periodSeconds)
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  // Redis key helpers
+  private getSecretKey(customerId: string): string {
+    return `totp:secret:${customerId}`;
+  }
+
+  private getPendingKey(customerId: string): string {
+    return `totp:pending:${customerId}`;
+  }
+
+  private getRecoveryKey(customerId: string): string {
+    return `totp:recovery:${customerId}`;
+  }
+}
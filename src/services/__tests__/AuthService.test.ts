@@ -3,15 +3,27 @@
  * Property-based and unit tests for authentication orchestration
  */
 
+import type { AuthenticationResponseJSON } from '@simplewebauthn/server';
 import { Queue } from 'bull';
+import { createHmac } from 'crypto';
 import fc from 'fast-check';
+import { config } from '../../config/index.js';
 import { SMSJobData } from '../../config/queue.js';
+import Redis from 'ioredis-mock';
 import { AuthService } from '../AuthService.js';
-import { CustomerService } from '../CustomerService.js';
+import { CustomerService, ShopifyCustomer, UpdateCustomerData } from '../CustomerService.js';
+import { EmailService } from '../EmailService.js';
+import { IdentityService } from '../IdentityService.js';
 import { MultipassService } from '../MultipassService.js';
 import { OAuthService } from '../OAuthService.js';
-import { OTPService } from '../OTPService.js';
+import { getDefaultOTPPolicy, OTPService } from '../OTPService.js';
+import { PasskeyService } from '../PasskeyService.js';
+import { PasswordService } from '../PasswordService.js';
+import { SessionService } from '../SessionService.js';
+import { SettingsService } from '../SettingsService.js';
 import { SMSService } from '../SMSService.js';
+import { base32Decode, generateTOTP, TOTPService } from '../TOTPService.js';
+import { buildCustomer, createMock } from '../../test/fixtures.js';
 
 describe('AuthService', () => {
   let authService: AuthService;
@@ -21,52 +33,69 @@ describe('AuthService', () => {
   let mockSMSService: jest.Mocked<SMSService>;
   let mockOAuthService: jest.Mocked<OAuthService>;
   let mockSMSQueue: jest.Mocked<Queue<SMSJobData>>;
+  let mockPasswordService: jest.Mocked<PasswordService>;
 
   beforeEach(() => {
     // Create mocks
-    mockMultipassService = {
+    mockMultipassService = createMock<MultipassService>({
       generateToken: jest.fn(),
       encryptAndSign: jest.fn(),
       generateMultipassUrl: jest.fn(),
       validateCustomerData: jest.fn()
-    } as any;
+    });
 
-    mockCustomerService = {
+    mockCustomerService = createMock<CustomerService>({
       findByPhone: jest.fn(),
       findByEmail: jest.fn(),
+      findById: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
       setAuthMethod: jest.fn(),
       setPhoneVerified: jest.fn(),
       setLastLogin: jest.fn()
-    } as any;
+    });
 
-    mockOTPService = {
+    mockOTPService = createMock<OTPService>({
       generateOTP: jest.fn(),
       storeOTP: jest.fn(),
       verifyOTP: jest.fn(),
       isBlocked: jest.fn(),
       incrementFailedAttempts: jest.fn(),
       blockPhone: jest.fn(),
-      deleteOTP: jest.fn()
-    } as any;
+      deleteOTP: jest.fn(),
+      recordQueuedSend: jest.fn(),
+      policy: getDefaultOTPPolicy()
+    });
 
-    mockSMSService = {
+    mockSMSService = createMock<SMSService>({
       sendSMS: jest.fn(),
       sendWithFallback: jest.fn(),
       getNextProvider: jest.fn()
-    } as any;
+    });
 
-    mockOAuthService = {
+    mockOAuthService = createMock<OAuthService>({
       registerProvider: jest.fn(),
       getProvider: jest.fn(),
       initiateOAuth: jest.fn(),
+      consumeState: jest.fn().mockResolvedValue({
+        provider: 'google',
+        redirectUri: 'https://example.com/callback',
+        codeVerifier: 'code-verifier',
+        nonce: 'nonce',
+        createdAt: Date.now(),
+        returnTo: '/'
+      }),
       handleCallback: jest.fn()
-    } as any;
+    });
 
-    mockSMSQueue = {
+    mockSMSQueue = createMock<Queue<SMSJobData>>({
       add: jest.fn().mockResolvedValue({ id: 'job-123' })
-    } as any;
+    });
+
+    mockPasswordService = createMock<PasswordService>({
+      setPassword: jest.fn().mockResolvedValue(undefined),
+      verifyPassword: jest.fn().mockResolvedValue({ status: 'valid' })
+    });
 
     authService = new AuthService(
       mockMultipassService,
@@ -74,7 +103,10 @@ describe('AuthService', () => {
       mockOTPService,
       mockSMSService,
       mockOAuthService,
-      mockSMSQueue
+      mockSMSQueue,
+      undefined,
+      undefined,
+      mockPasswordService
     );
   });
 
@@ -147,6 +179,27 @@ describe('AuthService', () => {
     });
   });
 
+  describe('normalizePhoneNumber', () => {
+    it('should normalize the ways one number is written to the same E.164 number', () => {
+      const inputs = ['+447400123456', '+44 7400 123456', '+44 (0)7400 123456', '0044 7400 123456'];
+
+      inputs.forEach(input => {
+        expect(authService.normalizePhoneNumber(input)).toEqual({ valid: true, phone: '+447400123456', type: 'mobile' });
+      });
+      expect(authService.normalizePhoneNumber('07400 123456', 'GB')).toEqual(
+        expect.objectContaining({ valid: true, phone: '+447400123456' })
+      );
+    });
+
+    it('should reject landlines', () => {
+      expect(authService.normalizePhoneNumber('+44 20 7946 0000')).toEqual({
+        valid: false,
+        error: 'This looks like a landline number. Please enter a mobile number',
+        type: 'fixed_line'
+      });
+    });
+  });
+
   describe('sendOTP', () => {
     it('should validate phone number before sending OTP', async () => {
       const invalidPhone = '1234567890'; // Missing +
@@ -190,6 +243,7 @@ describe('AuthService', () => {
           attemptNumber: 0
         })
       );
+      expect(mockOTPService.recordQueuedSend).toHaveBeenCalledWith(phone);
     });
   });
 
@@ -210,16 +264,14 @@ describe('AuthService', () => {
     it('should find existing customer and generate Multipass URL', async () => {
       const phone = '+1234567890';
       const otp = '123456';
-      const customer = {
-        id: 'cust-123',
+      const customer = buildCustomer({
         phone,
-        email: 'test@example.com',
-        created_at: new Date().toISOString()
-      };
+        email: 'test@example.com'
+      });
       const multipassUrl = 'https://shop.myshopify.com/account/login/multipass/token';
 
       mockOTPService.verifyOTP.mockResolvedValue(true);
-      mockCustomerService.findByPhone.mockResolvedValue(customer as any);
+      mockCustomerService.findByPhone.mockResolvedValue(customer);
       mockCustomerService.setAuthMethod.mockResolvedValue();
       mockCustomerService.setPhoneVerified.mockResolvedValue();
       mockCustomerService.setLastLogin.mockResolvedValue();
@@ -239,16 +291,15 @@ describe('AuthService', () => {
     it('should create new customer if not found', async () => {
       const phone = '+1234567890';
       const otp = '123456';
-      const newCustomer = {
+      const newCustomer = buildCustomer({
         id: 'cust-new',
-        phone,
-        created_at: new Date().toISOString()
-      };
+        phone
+      });
       const multipassUrl = 'https://shop.myshopify.com/account/login/multipass/token';
 
       mockOTPService.verifyOTP.mockResolvedValue(true);
       mockCustomerService.findByPhone.mockResolvedValue(null);
-      mockCustomerService.create.mockResolvedValue(newCustomer as any);
+      mockCustomerService.create.mockResolvedValue(newCustomer);
       mockCustomerService.setAuthMethod.mockResolvedValue();
       mockCustomerService.setPhoneVerified.mockResolvedValue();
       mockCustomerService.setLastLogin.mockResolvedValue();
@@ -400,14 +451,10 @@ describe('AuthService', () => {
     it('should find existing customer and generate Multipass URL', async () => {
       const email = 'test@example.com';
       const password = 'password123';
-      const customer = {
-        id: 'cust-123',
-        email,
-        created_at: new Date().toISOString()
-      };
+      const customer = buildCustomer({ email });
       const multipassUrl = 'https://shop.myshopify.com/account/login/multipass/token';
 
-      mockCustomerService.findByEmail.mockResolvedValue(customer as any);
+      mockCustomerService.findByEmail.mockResolvedValue(customer);
       mockCustomerService.setAuthMethod.mockResolvedValue();
       mockCustomerService.setLastLogin.mockResolvedValue();
       mockMultipassService.validateCustomerData.mockReturnValue(true);
@@ -419,21 +466,54 @@ describe('AuthService', () => {
       expect(result.multipassUrl).toBe(multipassUrl);
       expect(result.customer).toEqual(customer);
       expect(mockCustomerService.findByEmail).toHaveBeenCalledWith(email);
+      expect(mockPasswordService.verifyPassword).toHaveBeenCalledWith(email, password);
       expect(mockCustomerService.setAuthMethod).toHaveBeenCalledWith(customer.id, 'email');
     });
 
+    it('should reject an existing customer when the password does not match', async () => {
+      mockCustomerService.findByEmail.mockResolvedValue({ id: 'cust-123', email: 'test@example.com' });
+      mockPasswordService.verifyPassword.mockResolvedValue({ status: 'invalid' });
+
+      const result = await authService.authenticateWithEmail('test@example.com', 'wrong-password');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid email or password');
+      expect(mockMultipassService.generateMultipassUrl).not.toHaveBeenCalled();
+    });
+
+    it('should report a locked account with the remaining lockout time', async () => {
+      mockCustomerService.findByEmail.mockResolvedValue({ id: 'cust-123', email: 'test@example.com' });
+      mockPasswordService.verifyPassword.mockResolvedValue({ status: 'blocked', retryAfter: 600 });
+
+      const result = await authService.authenticateWithEmail('test@example.com', 'password123');
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('ACCOUNT_LOCKED');
+      expect(result.retryAfter).toBe(600);
+    });
+
+    it('should require a reset for existing customers without a stored password', async () => {
+      mockCustomerService.findByEmail.mockResolvedValue({ id: 'cust-123', email: 'test@example.com' });
+      mockPasswordService.verifyPassword.mockResolvedValue({ status: 'not_set' });
+
+      const result = await authService.authenticateWithEmail('test@example.com', 'password123');
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('PASSWORD_RESET_REQUIRED');
+      expect(mockMultipassService.generateMultipassUrl).not.toHaveBeenCalled();
+    });
+
     it('should create new customer if not found', async () => {
       const email = 'newuser@example.com';
       const password = 'password123';
-      const newCustomer = {
+      const newCustomer = buildCustomer({
         id: 'cust-new',
-        email,
-        created_at: new Date().toISOString()
-      };
+        email
+      });
       const multipassUrl = 'https://shop.myshopify.com/account/login/multipass/token';
 
       mockCustomerService.findByEmail.mockResolvedValue(null);
-      mockCustomerService.create.mockResolvedValue(newCustomer as any);
+      mockCustomerService.create.mockResolvedValue(newCustomer);
       mockCustomerService.setAuthMethod.mockResolvedValue();
       mockCustomerService.setLastLogin.mockResolvedValue();
       mockMultipassService.validateCustomerData.mockReturnValue(true);
@@ -448,6 +528,7 @@ describe('AuthService', () => {
           tags: ['email-auth']
         })
       );
+      expect(mockPasswordService.setPassword).toHaveBeenCalledWith(email, password);
       expect(mockCustomerService.setAuthMethod).toHaveBeenCalledWith(newCustomer.id, 'email');
     });
   });
@@ -465,7 +546,7 @@ describe('AuthService', () => {
       const mockProvider = {
         name: 'google',
         scopes: ['openid', 'email', 'profile'],
-        getAuthorizationUrl: jest.fn((state: string, redirectUri: string) => {
+        getAuthorizationUrl: jest.fn(({ state }: { state: string }, redirectUri: string) => {
           return `https://accounts.google.com/o/oauth2/v2/auth?client_id=test&redirect_uri=${encodeURIComponent(redirectUri)}&scope=openid%20email%20profile&state=${state}&response_type=code`;
         }),
         exchangeCodeForToken: jest.fn(),
@@ -473,10 +554,6 @@ describe('AuthService', () => {
         refreshToken: jest.fn()
       };
 
-      mockOAuthService.initiateOAuth.mockImplementation(async (providerName, redirectUri, state) => {
-        return mockProvider.getAuthorizationUrl(state || 'default-state', redirectUri);
-      });
-
       // Generate random redirect URIs and state parameters
       // Filter out URLs that would be normalized (e.g., trailing spaces)
       const redirectUriGenerator = fc.webUrl().filter(url => {
@@ -495,7 +572,12 @@ describe('AuthService', () => {
           redirectUriGenerator,
           stateGenerator,
           async (redirectUri, state) => {
-            const authUrl = await authService.initiateOAuth('google', redirectUri, state);
+            mockOAuthService.initiateOAuth.mockImplementation(async (_providerName, uri) => {
+              return mockProvider.getAuthorizationUrl({ state }, uri);
+            });
+
+            const authUrl = await authService.initiateOAuth('google', redirectUri, '/');
+            expect(mockOAuthService.initiateOAuth).toHaveBeenLastCalledWith('google', redirectUri, { returnTo: '/' });
 
             // Parse URL
             const url = new URL(authUrl);
@@ -506,7 +588,7 @@ describe('AuthService', () => {
             expect(url.searchParams.has('scope')).toBe(true);
             expect(url.searchParams.has('state')).toBe(true);
 
-            // State should match what was provided
+            // State should match what the OAuth service generated
             expect(url.searchParams.get('state')).toBe(state);
 
             // Redirect URI should be present and properly encoded
@@ -549,7 +631,7 @@ describe('AuthService', () => {
       const mockProvider = {
         name: 'google',
         scopes: ['openid', 'email', 'profile'],
-        getAuthorizationUrl: jest.fn((state: string, redirectUri: string) => {
+        getAuthorizationUrl: jest.fn(({ state }: { state: string }, redirectUri: string) => {
           return `https://accounts.google.com/o/oauth2/v2/auth?client_id=test&redirect_uri=${encodeURIComponent(redirectUri)}&scope=openid%20email%20profile&state=${state}&response_type=code`;
         }),
         exchangeCodeForToken: jest.fn(),
@@ -557,16 +639,16 @@ describe('AuthService', () => {
         refreshToken: jest.fn()
       };
 
-      mockOAuthService.initiateOAuth.mockImplementation(async (providerName, redirectUri, state) => {
-        return mockProvider.getAuthorizationUrl(state || 'default-state', redirectUri);
-      });
-
       const redirectUri = 'https://example.com/callback';
       const state1 = 'state-123';
       const state2 = 'state-456';
 
-      const url1 = await authService.initiateOAuth('google', redirectUri, state1);
-      const url2 = await authService.initiateOAuth('google', redirectUri, state2);
+      mockOAuthService.initiateOAuth
+        .mockImplementationOnce(async (_providerName, uri) => mockProvider.getAuthorizationUrl({ state: state1 }, uri))
+        .mockImplementationOnce(async (_providerName, uri) => mockProvider.getAuthorizationUrl({ state: state2 }, uri));
+
+      const url1 = await authService.initiateOAuth('google', redirectUri);
+      const url2 = await authService.initiateOAuth('google', redirectUri);
 
       // URLs should be different
       expect(url1).not.toBe(url2);
@@ -584,7 +666,7 @@ describe('AuthService', () => {
     it('should find existing customer and generate Multipass URL', async () => {
       const providerName = 'google';
       const code = 'auth-code-123';
-      const redirectUri = 'https://example.com/callback';
+      const state = 'state-123';
       const profile = {
         id: 'google-123',
         email: 'test@example.com',
@@ -592,26 +674,28 @@ describe('AuthService', () => {
         lastName: 'User',
         emailVerified: true
       };
-      const customer = {
-        id: 'cust-123',
-        email: profile.email,
-        created_at: new Date().toISOString()
-      };
+      const customer = buildCustomer({ email: profile.email });
       const multipassUrl = 'https://shop.myshopify.com/account/login/multipass/token';
 
-      mockOAuthService.handleCallback.mockResolvedValue(profile as any);
-      mockCustomerService.findByEmail.mockResolvedValue(customer as any);
+      mockOAuthService.handleCallback.mockResolvedValue(profile);
+      mockCustomerService.findByEmail.mockResolvedValue(customer);
       mockCustomerService.setAuthMethod.mockResolvedValue();
       mockCustomerService.setLastLogin.mockResolvedValue();
       mockMultipassService.validateCustomerData.mockReturnValue(true);
       mockMultipassService.generateMultipassUrl.mockReturnValue(multipassUrl);
 
-      const result = await authService.authenticateWithOAuth(providerName, code, redirectUri);
+      const result = await authService.authenticateWithOAuth(providerName, code, state);
 
       expect(result.success).toBe(true);
       expect(result.multipassUrl).toBe(multipassUrl);
       expect(result.customer).toEqual(customer);
-      expect(mockOAuthService.handleCallback).toHaveBeenCalledWith(providerName, code, redirectUri);
+      expect(mockOAuthService.consumeState).toHaveBeenCalledWith(state);
+      expect(mockOAuthService.handleCallback).toHaveBeenCalledWith(
+        providerName,
+        code,
+        expect.objectContaining({ provider: 'google', redirectUri: 'https://example.com/callback' }),
+        undefined
+      );
       expect(mockCustomerService.findByEmail).toHaveBeenCalledWith(profile.email);
       expect(mockCustomerService.setAuthMethod).toHaveBeenCalledWith(customer.id, providerName);
     });
@@ -619,7 +703,7 @@ describe('AuthService', () => {
     it('should create new customer from OAuth profile if not found', async () => {
       const providerName = 'google';
       const code = 'auth-code-123';
-      const redirectUri = 'https://example.com/callback';
+      const state = 'state-123';
       const profile = {
         id: 'google-123',
         email: 'newuser@example.com',
@@ -628,22 +712,21 @@ describe('AuthService', () => {
         phone: '+1234567890',
         emailVerified: true
       };
-      const newCustomer = {
+      const newCustomer = buildCustomer({
         id: 'cust-new',
-        email: profile.email,
-        created_at: new Date().toISOString()
-      };
+        email: profile.email
+      });
       const multipassUrl = 'https://shop.myshopify.com/account/login/multipass/token';
 
-      mockOAuthService.handleCallback.mockResolvedValue(profile as any);
+      mockOAuthService.handleCallback.mockResolvedValue(profile);
       mockCustomerService.findByEmail.mockResolvedValue(null);
-      mockCustomerService.create.mockResolvedValue(newCustomer as unknown);
+      mockCustomerService.create.mockResolvedValue(newCustomer);
       mockCustomerService.setAuthMethod.mockResolvedValue();
       mockCustomerService.setLastLogin.mockResolvedValue();
       mockMultipassService.validateCustomerData.mockReturnValue(true);
       mockMultipassService.generateMultipassUrl.mockReturnValue(multipassUrl);
 
-      const result = await authService.authenticateWithOAuth(providerName, code, redirectUri);
+      const result = await authService.authenticateWithOAuth(providerName, code, state);
 
       expect(result.success).toBe(true);
       expect(mockCustomerService.create).toHaveBeenCalledWith({
@@ -656,18 +739,1046 @@ describe('AuthService', () => {
       expect(mockCustomerService.setAuthMethod).toHaveBeenCalledWith(newCustomer.id, providerName);
     });
 
+    it('should tag customers created with an Apple private relay email', async () => {
+      const profile = {
+        id: 'apple-123',
+        email: 'abc123@privaterelay.appleid.com',
+        firstName: 'Jane',
+        emailVerified: true,
+        isPrivateEmail: true
+      };
+
+      mockOAuthService.handleCallback.mockResolvedValue(profile);
+      mockCustomerService.findByEmail.mockResolvedValue(null);
+      mockCustomerService.create.mockResolvedValue({ id: 'cust-new', email: profile.email });
+      mockMultipassService.validateCustomerData.mockReturnValue(true);
+      mockMultipassService.generateMultipassUrl.mockReturnValue('https://shop.myshopify.com/account/login/multipass/token');
+
+      const result = await authService.authenticateWithOAuth('apple', 'auth-code-123', 'state-123');
+
+      expect(result.success).toBe(true);
+      expect(mockCustomerService.create).toHaveBeenCalledWith(
+        expect.objectContaining({ tags: ['apple-auth', 'apple-private-relay'] })
+      );
+    });
+
+    it('should save the first-login name from Apple onto an existing customer without one', async () => {
+      const callbackUser = { firstName: 'Jane', lastName: 'Doe' };
+      const customer = { id: 'cust-123', email: 'jane@example.com', last_name: 'Smith' };
+
+      mockOAuthService.handleCallback.mockResolvedValue({
+        id: 'apple-123',
+        email: customer.email,
+        ...callbackUser,
+        emailVerified: true
+      });
+      mockCustomerService.findByEmail.mockResolvedValue(customer);
+      mockCustomerService.update.mockResolvedValue({ ...customer, first_name: 'Jane' });
+      mockMultipassService.validateCustomerData.mockReturnValue(true);
+      mockMultipassService.generateMultipassUrl.mockReturnValue('https://shop.myshopify.com/account/login/multipass/token');
+
+      const result = await authService.authenticateWithOAuth(
+        'apple',
+        'auth-code-123',
+        'state-123',
+        callbackUser
+      );
+
+      expect(result.success).toBe(true);
+      expect(mockOAuthService.handleCallback).toHaveBeenCalledWith(
+        'apple',
+        'auth-code-123',
+        expect.any(Object),
+        callbackUser
+      );
+      // The existing last name is kept
+      expect(mockCustomerService.update).toHaveBeenCalledWith('cust-123', { firstName: 'Jane', lastName: undefined });
+    });
+
+    it('should ask for an email when the provider returned none', async () => {
+      mockOAuthService.handleCallback.mockResolvedValue({
+        id: 'fb-123',
+        email: '',
+        firstName: 'Jane',
+        emailVerified: false
+      });
+
+      const result = await authService.authenticateWithOAuth('facebook', 'auth-code-123', 'state-123');
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('EMAIL_REQUIRED');
+      expect(result.pendingOAuthToken).toEqual(expect.any(String));
+      expect(mockCustomerService.findByEmail).not.toHaveBeenCalled();
+      expect(mockCustomerService.create).not.toHaveBeenCalled();
+    });
+
+    it('should not match an unverified OIDC email to an existing customer', async () => {
+      mockOAuthService.handleCallback.mockResolvedValue({
+        id: 'okta-123',
+        email: 'victim@example.com',
+        emailVerified: false
+      });
+      mockCustomerService.findByEmail.mockResolvedValue({ id: 'cust-victim', email: 'victim@example.com' });
+
+      const result = await authService.authenticateWithOAuth('oidc-okta', 'auth-code-123', 'state-123');
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('EMAIL_REQUIRED');
+      expect(result.pendingOAuthToken).toEqual(expect.any(String));
+      expect(mockCustomerService.findByEmail).not.toHaveBeenCalled();
+      expect(mockMultipassService.generateMultipassUrl).not.toHaveBeenCalled();
+    });
+
+    it('should finish a pending sign-in once the customer verifies an email', async () => {
+      mockOAuthService.handleCallback.mockResolvedValue({
+        id: 'fb-123',
+        email: '',
+        firstName: 'Jane',
+        lastName: 'Doe',
+        emailVerified: false
+      });
+
+      const pending = await authService.authenticateWithOAuth('facebook', 'auth-code-123', 'state-123');
+
+      mockOTPService.verifyOTP.mockResolvedValue(true);
+      mockCustomerService.findByEmail.mockResolvedValue(null);
+      mockCustomerService.create.mockResolvedValue({ id: 'cust-new', email: 'jane@example.com' });
+      mockMultipassService.validateCustomerData.mockReturnValue(true);
+      mockMultipassService.generateMultipassUrl.mockReturnValue('https://shop.myshopify.com/account/login/multipass/token');
+
+      const result = await authService.completeOAuthWithEmail(pending.pendingOAuthToken!, 'Jane@Example.com', '123456');
+
+      expect(result.success).toBe(true);
+      expect(mockOTPService.verifyOTP).toHaveBeenCalledWith('email:jane@example.com', '123456');
+      expect(mockCustomerService.create).toHaveBeenCalledWith({
+        email: 'jane@example.com',
+        firstName: 'Jane',
+        lastName: 'Doe',
+        phone: undefined,
+        tags: ['facebook-auth']
+      });
+      expect(mockCustomerService.setAuthMethod).toHaveBeenCalledWith('cust-new', 'facebook');
+    });
+
+    it('should not finish a pending sign-in without a valid code', async () => {
+      mockOAuthService.handleCallback.mockResolvedValue({ id: 'fb-123', email: '', emailVerified: false });
+
+      const pending = await authService.authenticateWithOAuth('facebook', 'auth-code-123', 'state-123');
+      mockOTPService.verifyOTP.mockResolvedValue(false);
+
+      const result = await authService.completeOAuthWithEmail(pending.pendingOAuthToken!, 'victim@example.com', '000000');
+
+      expect(result.success).toBe(false);
+      expect(mockCustomerService.findByEmail).not.toHaveBeenCalled();
+    });
+
+    it('should reject a tampered pending token', async () => {
+      mockOAuthService.handleCallback.mockResolvedValue({ id: 'fb-123', email: '', emailVerified: false });
+
+      const pending = await authService.authenticateWithOAuth('facebook', 'auth-code-123', 'state-123');
+      const [, signature] = pending.pendingOAuthToken!.split('.');
+      const forged = Buffer.from(JSON.stringify({
+        provider: 'facebook',
+        profile: { id: 'someone-else' },
+        exp: Date.now() + 60000
+      })).toString('base64url');
+
+      const result = await authService.completeOAuthWithEmail(`${forged}.${signature}`, 'jane@example.com', '123456');
+
+      expect(result.success).toBe(false);
+      expect(mockOTPService.verifyOTP).not.toHaveBeenCalled();
+    });
+
     it('should return error if OAuth callback fails', async () => {
       const providerName = 'google';
       const code = 'invalid-code';
-      const redirectUri = 'https://example.com/callback';
+      const state = 'state-123';
 
       mockOAuthService.handleCallback.mockRejectedValue(new Error('Invalid authorization code'));
 
-      const result = await authService.authenticateWithOAuth(providerName, code, redirectUri);
+      const result = await authService.authenticateWithOAuth(providerName, code, state);
 
       expect(result.success).toBe(false);
       expect(result.error).toContain('Invalid authorization code');
       expect(mockCustomerService.findByEmail).not.toHaveBeenCalled();
     });
+
+    it('should reject a callback whose state is unknown, expired or already used', async () => {
+      mockOAuthService.consumeState.mockResolvedValueOnce(null);
+
+      const result = await authService.authenticateWithOAuth('google', 'auth-code-123', 'replayed-state');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('expired');
+      expect(mockOAuthService.handleCallback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('email OTP and magic links', () => {
+    let redis: Redis;
+    let mockEmailService: jest.Mocked<EmailService>;
+    let emailAuthService: AuthService;
+    const customer = buildCustomer({
+      id: 'customer-1',
+      email: 'test@example.com'
+    });
+
+    beforeEach(() => {
+      redis = new Redis();
+      mockEmailService = createMock<EmailService>({
+        sendEmail: jest.fn().mockResolvedValue({ success: true, messageId: 'msg-1', provider: 'console' }),
+        isConfigured: jest.fn().mockReturnValue(true)
+      });
+
+      // Real OTPService so storage, single use and blocking are exercised
+      emailAuthService = new AuthService(
+        mockMultipassService,
+        mockCustomerService,
+        new OTPService(redis),
+        mockSMSService,
+        mockOAuthService,
+        mockSMSQueue,
+        undefined,
+        mockEmailService
+      );
+
+      mockCustomerService.findByEmail.mockResolvedValue(customer);
+      mockCustomerService.setAuthMethod.mockResolvedValue();
+      mockCustomerService.setLastLogin.mockResolvedValue();
+      mockMultipassService.validateCustomerData.mockReturnValue(true);
+      mockMultipassService.generateMultipassUrl.mockReturnValue('https://shop.myshopify.com/account/login/multipass/token');
+    });
+
+    afterEach(async () => {
+      await redis.flushall();
+      redis.disconnect();
+    });
+
+    function sentText(): string {
+      return mockEmailService.sendEmail.mock.calls[mockEmailService.sendEmail.mock.calls.length - 1][0].text;
+    }
+
+    function sentMagicToken(): string {
+      const match = sentText().match(/token=([^\s]+)/);
+      return decodeURIComponent(match![1]);
+    }
+
+    it('should email a 6-digit code and authenticate with it', async () => {
+      await emailAuthService.sendEmailOTP('test@example.com');
+
+      const code = sentText().match(/\d{6}/)![0];
+      const result = await emailAuthService.authenticateWithEmailOTP('test@example.com', code);
+
+      expect(result.success).toBe(true);
+      expect(result.multipassUrl).toBeDefined();
+      expect(mockCustomerService.setAuthMethod).toHaveBeenCalledWith(customer.id, 'email');
+    });
+
+    it('should reject a wrong email code', async () => {
+      await emailAuthService.sendEmailOTP('test@example.com');
+
+      const code = sentText().match(/\d{6}/)![0];
+      const wrongCode = code === '000000' ? '111111' : '000000';
+      const result = await emailAuthService.authenticateWithEmailOTP('test@example.com', wrongCode);
+
+      expect(result.success).toBe(false);
+      expect(mockMultipassService.generateMultipassUrl).not.toHaveBeenCalled();
+    });
+
+    it('should create a customer for an unknown email', async () => {
+      mockCustomerService.findByEmail.mockResolvedValue(null);
+      mockCustomerService.create.mockResolvedValue(customer);
+
+      await emailAuthService.sendEmailOTP('test@example.com');
+      const code = sentText().match(/\d{6}/)![0];
+      const result = await emailAuthService.authenticateWithEmailOTP('test@example.com', code);
+
+      expect(result.success).toBe(true);
+      expect(mockCustomerService.create).toHaveBeenCalledWith({
+        email: 'test@example.com',
+        tags: ['email-auth']
+      });
+    });
+
+    it('should throw when no email transport is configured', async () => {
+      mockEmailService.isConfigured.mockReturnValue(false);
+
+      await expect(emailAuthService.sendEmailOTP('test@example.com')).rejects.toThrow(
+        'Email sign-in is not configured'
+      );
+    });
+
+    it('should authenticate with a magic link only once', async () => {
+      await emailAuthService.sendMagicLink('test@example.com', '/checkout');
+
+      const token = sentMagicToken();
+      const first = await emailAuthService.authenticateWithMagicLink(token);
+      const second = await emailAuthService.authenticateWithMagicLink(token);
+
+      expect(first.success).toBe(true);
+      expect(mockMultipassService.generateMultipassUrl).toHaveBeenCalledWith(
+        expect.objectContaining({ email: customer.email }),
+        '/checkout'
+      );
+      expect(second.success).toBe(false);
+    });
+
+    it('should authenticate with a magic link under the alphanumeric code policy', async () => {
+      const otpService = new OTPService(redis);
+      otpService.setPolicy({ length: 8, alphabet: 'alphanumeric' });
+      const alphanumericAuthService = new AuthService(
+        mockMultipassService,
+        mockCustomerService,
+        otpService,
+        mockSMSService,
+        mockOAuthService,
+        mockSMSQueue,
+        undefined,
+        mockEmailService
+      );
+
+      await alphanumericAuthService.sendMagicLink('test@example.com');
+      const result = await alphanumericAuthService.authenticateWithMagicLink(sentMagicToken());
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject tampered magic link tokens', async () => {
+      await emailAuthService.sendMagicLink('test@example.com');
+
+      const [body, signature] = sentMagicToken().split('.');
+      const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+      const forged = Buffer.from(JSON.stringify({ ...payload, email: 'attacker@example.com' })).toString('base64url');
+
+      const result = await emailAuthService.authenticateWithMagicLink(`${forged}.${signature}`);
+
+      expect(result.success).toBe(false);
+      expect(mockCustomerService.findByEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('password reset and change', () => {
+    let redis: Redis;
+    let passwordService: PasswordService;
+    let mockEmailService: jest.Mocked<EmailService>;
+    let mockSessionService: jest.Mocked<SessionService>;
+    let resetAuthService: AuthService;
+    const customer = buildCustomer({
+      id: 'customer-1',
+      email: 'test@example.com',
+      phone: '+14155552671'
+    });
+
+    beforeEach(() => {
+      redis = new Redis();
+      passwordService = new PasswordService(redis, { saltRounds: 4 });
+      mockEmailService = createMock<EmailService>({
+        sendEmail: jest.fn().mockResolvedValue({ success: true, messageId: 'msg-1', provider: 'console' }),
+        isConfigured: jest.fn().mockReturnValue(true)
+      });
+      mockSessionService = createMock<SessionService>({
+        invalidateCustomerSessions: jest.fn().mockResolvedValue(2)
+      });
+
+      resetAuthService = new AuthService(
+        mockMultipassService,
+        mockCustomerService,
+        mockOTPService,
+        mockSMSService,
+        mockOAuthService,
+        mockSMSQueue,
+        undefined,
+        mockEmailService,
+        passwordService,
+        mockSessionService
+      );
+
+      mockCustomerService.findByEmail.mockResolvedValue(customer);
+    });
+
+    afterEach(async () => {
+      await redis.flushall();
+      redis.disconnect();
+    });
+
+    function tokenFrom(text: string): string {
+      const match = text.match(/reset_token=([0-9a-f]+)/);
+      return match![1];
+    }
+
+    it('should email a reset link that sets the new password once', async () => {
+      await passwordService.setPassword('test@example.com', 'OldPassword123!');
+      await resetAuthService.requestPasswordReset('test@example.com');
+
+      const token = tokenFrom(mockEmailService.sendEmail.mock.calls[0][0].text);
+      const first = await resetAuthService.resetPassword(token, 'NewPassword123!');
+      const second = await resetAuthService.resetPassword(token, 'OtherPassword123!');
+
+      expect(first.success).toBe(true);
+      expect(second).toEqual({ success: false, error: 'Invalid or expired reset link' });
+      expect((await passwordService.verifyPassword('test@example.com', 'NewPassword123!')).status).toBe('valid');
+      expect(mockSessionService.invalidateCustomerSessions).toHaveBeenCalledWith('customer-1');
+    });
+
+    it('should queue the reset link by SMS to the phone on file', async () => {
+      await resetAuthService.requestPasswordReset('test@example.com', 'sms');
+
+      expect(mockEmailService.sendEmail).not.toHaveBeenCalled();
+      expect(mockSMSQueue.add).toHaveBeenCalledWith(expect.objectContaining({
+        phone: customer.phone,
+        message: expect.stringContaining('reset_token=')
+      }));
+    });
+
+    it('should invalidate the previous link when a new one is requested', async () => {
+      await resetAuthService.requestPasswordReset('test@example.com');
+      await resetAuthService.requestPasswordReset('test@example.com');
+
+      const [firstCall, secondCall] = mockEmailService.sendEmail.mock.calls;
+
+      expect((await resetAuthService.resetPassword(tokenFrom(firstCall[0].text), 'NewPassword123!')).success).toBe(false);
+      expect((await resetAuthService.resetPassword(tokenFrom(secondCall[0].text), 'NewPassword123!')).success).toBe(true);
+    });
+
+    it('should not send anything for unknown emails', async () => {
+      mockCustomerService.findByEmail.mockResolvedValue(null);
+
+      await resetAuthService.requestPasswordReset('unknown@example.com');
+
+      expect(mockEmailService.sendEmail).not.toHaveBeenCalled();
+      expect(mockSMSQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('should lift a lockout once the password is reset', async () => {
+      await passwordService.setPassword('test@example.com', 'OldPassword123!');
+      for (let i = 0; i < 5; i++) {
+        await passwordService.verifyPassword('test@example.com', 'wrong');
+      }
+      expect(await passwordService.isBlocked('test@example.com')).toBe(true);
+
+      await resetAuthService.requestPasswordReset('test@example.com');
+      await resetAuthService.resetPassword(tokenFrom(mockEmailService.sendEmail.mock.calls[0][0].text), 'NewPassword123!');
+
+      expect(await passwordService.isBlocked('test@example.com')).toBe(false);
+    });
+
+    it('should only change the password when the current one is correct', async () => {
+      await passwordService.setPassword('test@example.com', 'OldPassword123!');
+
+      const rejected = await resetAuthService.changePassword('test@example.com', 'wrong', 'NewPassword123!');
+      const changed = await resetAuthService.changePassword('test@example.com', 'OldPassword123!', 'NewPassword123!');
+
+      expect(rejected).toEqual({ success: false, error: 'Invalid email or password' });
+      expect(changed.success).toBe(true);
+      expect((await passwordService.verifyPassword('test@example.com', 'NewPassword123!')).status).toBe('valid');
+      expect(mockSessionService.invalidateCustomerSessions).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('linked identities', () => {
+    let redis: Redis;
+    let identityService: IdentityService;
+    let linkAuthService: AuthService;
+    const smsCustomer = buildCustomer({
+      id: 'customer-sms',
+      phone: '+14155552671'
+    });
+    const otherCustomer = buildCustomer({
+      id: 'customer-other',
+      email: 'other@example.com'
+    });
+    const googleProfile = {
+      id: 'google-123',
+      email: 'shopper@example.com',
+      emailVerified: true
+    };
+
+    beforeEach(() => {
+      redis = new Redis();
+      identityService = new IdentityService(redis);
+
+      linkAuthService = new AuthService(
+        mockMultipassService,
+        mockCustomerService,
+        mockOTPService,
+        mockSMSService,
+        mockOAuthService,
+        mockSMSQueue,
+        undefined,
+        undefined,
+        mockPasswordService,
+        undefined,
+        identityService
+      );
+
+      const customers: Record<string, ShopifyCustomer> = {
+        [smsCustomer.id]: smsCustomer,
+        [otherCustomer.id]: otherCustomer
+      };
+      mockCustomerService.findById.mockImplementation(async (id: string) => customers[id] || null);
+      mockCustomerService.findByPhone.mockResolvedValue(smsCustomer);
+      mockCustomerService.findByEmail.mockResolvedValue(null);
+      mockCustomerService.update.mockImplementation(async (id: string, data: UpdateCustomerData) => ({
+        ...customers[id],
+        email: data.email ?? customers[id].email
+      }));
+      mockOTPService.verifyOTP.mockResolvedValue(true);
+      mockMultipassService.validateCustomerData.mockReturnValue(true);
+      mockMultipassService.generateMultipassUrl.mockReturnValue('https://shop.myshopify.com/account/login/multipass/token');
+    });
+
+    afterEach(async () => {
+      await redis.flushall();
+      redis.disconnect();
+    });
+
+    function linkFlow(linkCustomerId?: string) {
+      return {
+        provider: 'google',
+        redirectUri: 'https://example.com/callback',
+        codeVerifier: 'code-verifier',
+        nonce: 'nonce',
+        createdAt: Date.now(),
+        returnTo: '/',
+        linkCustomerId
+      };
+    }
+
+    it('should record the phone identity and issue a link token on SMS login', async () => {
+      const result = await linkAuthService.authenticateWithPhone(smsCustomer.phone, '123456');
+
+      expect(result.success).toBe(true);
+      expect(await identityService.getLinkTokenCustomerId(result.linkToken!)).toBe(smsCustomer.id);
+      expect(await identityService.findCustomerId('sms', smsCustomer.phone)).toBe(smsCustomer.id);
+    });
+
+    it('should sign in to the linked customer after Google is linked to an SMS account', async () => {
+      const { linkToken } = await linkAuthService.authenticateWithPhone(smsCustomer.phone, '123456');
+      mockOAuthService.initiateOAuth.mockResolvedValue('https://accounts.google.com/auth');
+
+      const authUrl = await linkAuthService.initiateOAuthLink('google', 'https://example.com/callback', linkToken!);
+
+      expect(authUrl).toBe('https://accounts.google.com/auth');
+      expect(mockOAuthService.initiateOAuth).toHaveBeenCalledWith(
+        'google',
+        'https://example.com/callback',
+        expect.objectContaining({ linkCustomerId: smsCustomer.id })
+      );
+
+      mockOAuthService.handleCallback.mockResolvedValue(googleProfile);
+      mockOAuthService.consumeState.mockResolvedValueOnce(linkFlow(smsCustomer.id));
+      const linked = await linkAuthService.authenticateWithOAuth('google', 'code', 'state');
+
+      expect(linked.success).toBe(true);
+      expect(linked.customer?.id).toBe(smsCustomer.id);
+
+      // The next Google sign-in finds the SMS customer even though its email is unknown to Shopify
+      mockOAuthService.consumeState.mockResolvedValueOnce(linkFlow());
+      const login = await linkAuthService.authenticateWithOAuth('google', 'code', 'state');
+
+      expect(login.success).toBe(true);
+      expect(login.customer?.id).toBe(smsCustomer.id);
+      expect(mockCustomerService.create).not.toHaveBeenCalled();
+      expect(mockCustomerService.setAuthMethod).toHaveBeenCalledWith(smsCustomer.id, 'google');
+    });
+
+    it('should sign a linked account without a verified email in to its email-less customer', async () => {
+      await identityService.linkIdentity(smsCustomer.id, { provider: 'google', subject: googleProfile.id, verified: true });
+      mockOAuthService.handleCallback.mockResolvedValue({ ...googleProfile, emailVerified: false });
+      mockOAuthService.consumeState.mockResolvedValueOnce(linkFlow());
+
+      const result = await linkAuthService.authenticateWithOAuth('google', 'code', 'state');
+
+      expect(result.success).toBe(true);
+      expect(result.customer?.id).toBe(smsCustomer.id);
+      expect(mockCustomerService.findByEmail).not.toHaveBeenCalled();
+      expect(mockMultipassService.validateCustomerData).toHaveBeenCalledWith(
+        expect.objectContaining({ email: `${smsCustomer.phone}@phone.local`, identifier: smsCustomer.id })
+      );
+    });
+
+    it('should refuse to link an OAuth identity that belongs to another customer', async () => {
+      await identityService.linkIdentity(otherCustomer.id, { provider: 'google', subject: googleProfile.id, verified: true });
+      mockOAuthService.handleCallback.mockResolvedValue(googleProfile);
+      mockOAuthService.consumeState.mockResolvedValueOnce(linkFlow(smsCustomer.id));
+
+      const result = await linkAuthService.authenticateWithOAuth('google', 'code', 'state');
+
+      expect(result).toEqual({
+        success: false,
+        error: 'This sign-in method is already linked to another account',
+        errorCode: 'IDENTITY_CONFLICT'
+      });
+      expect(await identityService.findCustomerId('google', googleProfile.id)).toBe(otherCustomer.id);
+    });
+
+    it('should link a verified email to an SMS customer', async () => {
+      const { linkToken } = await linkAuthService.authenticateWithPhone(smsCustomer.phone, '123456');
+
+      const result = await linkAuthService.linkEmail(linkToken!, 'Shopper@Example.com', '123456');
+
+      expect(result.success).toBe(true);
+      expect(mockCustomerService.update).toHaveBeenCalledWith(smsCustomer.id, { email: 'shopper@example.com' });
+      expect(mockCustomerService.setAuthMethod).toHaveBeenCalledWith(smsCustomer.id, 'email');
+      expect((await linkAuthService.getLinkedIdentities(linkToken!))?.map(identity => identity.provider))
+        .toEqual(['sms', 'email']);
+    });
+
+    it('should refuse to link a phone number another customer signs in with', async () => {
+      const linkToken = await identityService.createLinkToken(otherCustomer.id);
+
+      const result = await linkAuthService.linkPhone(linkToken, smsCustomer.phone, '123456');
+
+      expect(result.errorCode).toBe('IDENTITY_CONFLICT');
+      expect(mockCustomerService.update).not.toHaveBeenCalled();
+      expect(await identityService.findCustomerId('sms', smsCustomer.phone)).toBeNull();
+    });
+
+    it('should not link without a valid link token or code', async () => {
+      const linkToken = await identityService.createLinkToken(otherCustomer.id);
+      mockOTPService.verifyOTP.mockResolvedValueOnce(false);
+
+      expect((await linkAuthService.linkPhone('unknown-token', '+14155550000', '123456')).success).toBe(false);
+      expect((await linkAuthService.linkPhone(linkToken, '+14155550000', '000000')).success).toBe(false);
+      expect(await linkAuthService.initiateOAuthLink('google', 'https://example.com/callback', 'unknown-token')).toBeNull();
+      expect(await identityService.getIdentities(otherCustomer.id)).toEqual([]);
+    });
+  });
+
+  describe('passkey sign-in', () => {
+    const phone = '+14155552671';
+    const customer = buildCustomer({
+      id: 'customer-passkey',
+      phone,
+      email: 'passkey@example.com',
+      first_name: 'Pat'
+    });
+    let isMethodEnabled: jest.Mock<Promise<boolean>, ['sms' | 'email' | 'google' | 'passkey']>;
+    let passkeyService: { createEnrollmentToken: jest.Mock; verifyAuthentication: jest.Mock };
+    let passkeyAuthService: AuthService;
+
+    beforeEach(() => {
+      isMethodEnabled = jest.fn().mockResolvedValue(false);
+      passkeyService = {
+        createEnrollmentToken: jest.fn().mockResolvedValue('enrollment-token'),
+        verifyAuthentication: jest.fn().mockResolvedValue(customer.id)
+      };
+
+      passkeyAuthService = new AuthService(
+        mockMultipassService,
+        mockCustomerService,
+        mockOTPService,
+        mockSMSService,
+        mockOAuthService,
+        mockSMSQueue,
+        passkeyService as unknown as PasskeyService,
+        undefined,
+        mockPasswordService,
+        undefined,
+        undefined,
+        { isMethodEnabled, isProfileCompletionEnabled: jest.fn().mockResolvedValue(false) } as unknown as SettingsService
+      );
+
+      mockOTPService.verifyOTP.mockResolvedValue(true);
+      mockCustomerService.findByPhone.mockResolvedValue(customer);
+      mockCustomerService.findById.mockResolvedValue(customer);
+      mockMultipassService.generateMultipassUrl.mockReturnValue('https://shop.myshopify.com/account/login/multipass/token');
+    });
+
+    it('should not offer passkey enrollment while passkeys are turned off', async () => {
+      const result = await passkeyAuthService.authenticateWithPhone(phone, '123456');
+
+      expect(result.success).toBe(true);
+      expect(result.passkeyEnrollmentToken).toBeUndefined();
+      expect(isMethodEnabled).toHaveBeenCalledWith('passkey');
+      expect(passkeyService.createEnrollmentToken).not.toHaveBeenCalled();
+    });
+
+    it('should offer passkey enrollment once passkeys are turned on', async () => {
+      isMethodEnabled.mockResolvedValue(true);
+
+      const result = await passkeyAuthService.authenticateWithPhone(phone, '123456');
+
+      expect(result.passkeyEnrollmentToken).toBe('enrollment-token');
+    });
+
+    it('should refuse passkey sign-in while passkeys are turned off', async () => {
+      const result = await passkeyAuthService.authenticateWithPasskey('challenge-1', {} as AuthenticationResponseJSON);
+
+      expect(result).toEqual({ success: false, error: 'Passkey sign-in is not enabled' });
+      expect(passkeyService.verifyAuthentication).not.toHaveBeenCalled();
+    });
+
+    it('should treat a settings error as passkeys being off', async () => {
+      isMethodEnabled.mockRejectedValue(new Error('Redis unavailable'));
+
+      expect(await passkeyAuthService.isPasskeyEnabled()).toBe(false);
+    });
+  });
+
+  describe('profile completion', () => {
+    let mockSettingsService: jest.Mocked<SettingsService>;
+    let profileAuthService: AuthService;
+    const phone = '+14155552671';
+    const smsCustomer = buildCustomer({
+      id: 'customer-sms',
+      phone
+    });
+
+    beforeEach(() => {
+      mockSettingsService = createMock<SettingsService>({
+        isProfileCompletionEnabled: jest.fn().mockResolvedValue(true)
+      });
+
+      profileAuthService = new AuthService(
+        mockMultipassService,
+        mockCustomerService,
+        mockOTPService,
+        mockSMSService,
+        mockOAuthService,
+        mockSMSQueue,
+        undefined,
+        undefined,
+        mockPasswordService,
+        undefined,
+        undefined,
+        mockSettingsService
+      );
+
+      mockOTPService.verifyOTP.mockResolvedValue(true);
+      mockCustomerService.findByPhone.mockResolvedValue(smsCustomer);
+      mockCustomerService.findById.mockResolvedValue(smsCustomer);
+      mockCustomerService.findByEmail.mockResolvedValue(null);
+      mockCustomerService.update.mockImplementation(async (_id: string, data: UpdateCustomerData) => ({
+        ...smsCustomer,
+        email: data.email,
+        first_name: data.firstName,
+        last_name: data.lastName
+      }));
+      mockMultipassService.validateCustomerData.mockReturnValue(true);
+      mockMultipassService.generateMultipassUrl.mockReturnValue('https://shop.myshopify.com/account/login/multipass/token');
+    });
+
+    it('should hold back the Multipass URL until an SMS customer completes their profile', async () => {
+      const result = await profileAuthService.authenticateWithPhone(phone, '123456', '/account');
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe('PROFILE_REQUIRED');
+      expect(result.profileToken).toBeDefined();
+      expect(result.multipassUrl).toBeUndefined();
+      expect(mockMultipassService.generateMultipassUrl).not.toHaveBeenCalled();
+    });
+
+    it('should save the profile to the customer and then sign them in', async () => {
+      const { profileToken } = await profileAuthService.authenticateWithPhone(phone, '123456', '/account');
+
+      const result = await profileAuthService.completeProfile(profileToken!, {
+        email: ' Shopper@Example.com ',
+        firstName: 'Jane',
+        lastName: 'Doe',
+        acceptsMarketing: true
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.multipassUrl).toBe('https://shop.myshopify.com/account/login/multipass/token');
+      expect(mockCustomerService.update).toHaveBeenCalledWith(smsCustomer.id, {
+        email: 'shopper@example.com',
+        firstName: 'Jane',
+        lastName: 'Doe',
+        acceptsMarketing: true
+      });
+      // The real email replaces the phone placeholder
+      expect(mockMultipassService.generateMultipassUrl).toHaveBeenCalledWith(
+        expect.objectContaining({ email: 'shopper@example.com', first_name: 'Jane' }),
+        '/account'
+      );
+    });
+
+    it('should sign in customers whose profile is already complete', async () => {
+      mockCustomerService.findByPhone.mockResolvedValue({ ...smsCustomer, email: 'jane@example.com', first_name: 'Jane' });
+
+      const result = await profileAuthService.authenticateWithPhone(phone, '123456');
+
+      expect(result.success).toBe(true);
+      expect(result.multipassUrl).toBeDefined();
+    });
+
+    it('should skip the step when the shop has not enabled it', async () => {
+      mockSettingsService.isProfileCompletionEnabled.mockResolvedValue(false);
+
+      const result = await profileAuthService.authenticateWithPhone(phone, '123456');
+
+      expect(result.success).toBe(true);
+      expect(result.profileToken).toBeUndefined();
+    });
+
+    it('should refuse an email that belongs to another customer', async () => {
+      const { profileToken } = await profileAuthService.authenticateWithPhone(phone, '123456');
+      mockCustomerService.findByEmail.mockResolvedValue({ id: 'customer-other', email: 'jane@example.com' });
+
+      const result = await profileAuthService.completeProfile(profileToken!, { email: 'jane@example.com', firstName: 'Jane' });
+
+      expect(result.errorCode).toBe('IDENTITY_CONFLICT');
+      expect(mockCustomerService.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject tampered profile tokens and missing names', async () => {
+      const { profileToken } = await profileAuthService.authenticateWithPhone(phone, '123456');
+      const [, signature] = profileToken!.split('.');
+      const forged = Buffer.from(JSON.stringify({
+        customerId: 'customer-other',
+        phone,
+        exp: Date.now() + 60000
+      })).toString('base64url');
+
+      expect((await profileAuthService.completeProfile(`${forged}.${signature}`, {
+        email: 'jane@example.com',
+        firstName: 'Jane'
+      })).success).toBe(false);
+      expect((await profileAuthService.completeProfile(profileToken!, {
+        email: 'jane@example.com',
+        firstName: ' '
+      })).error).toBe('First name is required');
+      expect(mockCustomerService.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticator app second factor', () => {
+    let redis: Redis;
+    let totpService: TOTPService;
+    let otpService: OTPService;
+    let mockSettingsService: jest.Mocked<SettingsService>;
+    let totpAuthService: AuthService;
+    const phone = '+14155552671';
+    const customer = buildCustomer({
+      id: 'customer-totp',
+      phone,
+      email: 'buyer@example.com',
+      first_name: 'Jane',
+      tags: 'sms-auth, Wholesale'
+    });
+
+    // Code the customer's app shows, offset by whole time steps from now
+    const codeAt = (secret: string, offsetSteps: number = 0): string =>
+      generateTOTP(base32Decode(secret), Math.floor(Date.now() / 1000 / 30) + offsetSteps);
+
+    const enroll = async (): Promise<string> => {
+      const { secret } = await totpService.beginEnrollment(customer.id, customer.email);
+      await totpService.confirmEnrollment(customer.id, codeAt(secret, -1));
+      return secret;
+    };
+
+    beforeEach(() => {
+      redis = new Redis();
+      totpService = new TOTPService(redis);
+      // Real OTPService so attempt counting and blocking are exercised end to end
+      otpService = new OTPService(redis);
+      mockSettingsService = createMock<SettingsService>({
+        isProfileCompletionEnabled: jest.fn().mockResolvedValue(false),
+        getTOTPRequiredTags: jest.fn().mockResolvedValue([]),
+        isMethodEnabled: jest.fn().mockResolvedValue(true)
+      });
+
+      totpAuthService = new AuthService(
+        mockMultipassService,
+        mockCustomerService,
+        otpService,
+        mockSMSService,
+        mockOAuthService,
+        mockSMSQueue,
+        undefined,
+        undefined,
+        mockPasswordService,
+        undefined,
+        undefined,
+        mockSettingsService,
+        totpService
+      );
+
+      mockCustomerService.findByPhone.mockResolvedValue(customer);
+      mockCustomerService.findById.mockResolvedValue(customer);
+      mockMultipassService.validateCustomerData.mockReturnValue(true);
+      mockMultipassService.generateMultipassUrl.mockReturnValue('https://shop.myshopify.com/account/login/multipass/token');
+    });
+
+    afterEach(async () => {
+      await redis.flushall();
+      redis.disconnect();
+    });
+
+    const signInWithSMS = async () => {
+      await otpService.storeOTP(phone, '123456');
+      return totpAuthService.authenticateWithPhone(phone, '123456', '/account');
+    };
+
+    it('should hold the sign-in for an authenticator code when the customer has an app enrolled', async () => {
+      const secret = await enroll();
+
+      const challenge = await signInWithSMS();
+
+      expect(challenge.success).toBe(false);
+      expect(challenge.errorCode).toBe('TOTP_REQUIRED');
+      expect(challenge.multipassUrl).toBeUndefined();
+      expect(mockMultipassService.generateMultipassUrl).not.toHaveBeenCalled();
+
+      const result = await totpAuthService.completeTOTPChallenge(challenge.totpToken!, codeAt(secret));
+
+      expect(result.success).toBe(true);
+      expect(result.multipassUrl).toBe('https://shop.myshopify.com/account/login/multipass/token');
+      expect(mockMultipassService.generateMultipassUrl).toHaveBeenCalledWith(
+        expect.objectContaining({ identifier: customer.id }),
+        '/account'
+      );
+    });
+
+    it('should check the authenticator code before an enrolled customer completes their profile', async () => {
+      const secret = await enroll();
+      const noProfile = { ...customer, email: undefined, first_name: undefined };
+      mockSettingsService.isProfileCompletionEnabled.mockResolvedValue(true);
+      mockCustomerService.findByPhone.mockResolvedValue(noProfile);
+      mockCustomerService.findById.mockResolvedValue(noProfile);
+      mockCustomerService.findByEmail.mockResolvedValue(null);
+      mockCustomerService.update.mockImplementation(async (_id, data) => ({
+        ...noProfile,
+        email: data.email,
+        first_name: data.firstName
+      }));
+
+      const challenge = await signInWithSMS();
+
+      expect(challenge.errorCode).toBe('TOTP_REQUIRED');
+      expect(challenge.profileToken).toBeUndefined();
+
+      const profileStep = await totpAuthService.completeTOTPChallenge(challenge.totpToken!, codeAt(secret));
+
+      expect(profileStep.errorCode).toBe('PROFILE_REQUIRED');
+      expect(mockCustomerService.update).not.toHaveBeenCalled();
+
+      const result = await totpAuthService.completeProfile(profileStep.profileToken!, {
+        email: 'buyer@example.com',
+        firstName: 'Jane'
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockCustomerService.update).toHaveBeenCalledWith(customer.id, expect.objectContaining({ email: 'buyer@example.com' }));
+    });
+
+    it('should not let a profile token from before the authenticator step change the email', async () => {
+      await enroll();
+      mockCustomerService.findByEmail.mockResolvedValue(null);
+      const body = Buffer.from(JSON.stringify({
+        customerId: customer.id,
+        phone,
+        exp: Date.now() + 60000
+      })).toString('base64url');
+      const signature = createHmac('sha256', config.email.magicLinkSecret).update(body).digest('base64url');
+
+      const result = await totpAuthService.completeProfile(`${body}.${signature}`, {
+        email: 'attacker@example.com',
+        firstName: 'Mallory'
+      });
+
+      expect(result.errorCode).toBe('TOTP_REQUIRED');
+      expect(mockCustomerService.update).not.toHaveBeenCalled();
+    });
+
+    it('should hold a passkey sign-in for the authenticator code', async () => {
+      const secret = await enroll();
+      const passkeyService = { verifyAuthentication: jest.fn().mockResolvedValue(customer.id) };
+      const passkeyAuthService = new AuthService(
+        mockMultipassService,
+        mockCustomerService,
+        otpService,
+        mockSMSService,
+        mockOAuthService,
+        mockSMSQueue,
+        passkeyService as unknown as PasskeyService,
+        undefined,
+        mockPasswordService,
+        undefined,
+        undefined,
+        mockSettingsService,
+        totpService
+      );
+
+      const challenge = await passkeyAuthService.authenticateWithPasskey('challenge-1', {} as AuthenticationResponseJSON);
+
+      expect(challenge.errorCode).toBe('TOTP_REQUIRED');
+      expect(mockMultipassService.generateMultipassUrl).not.toHaveBeenCalled();
+
+      const result = await passkeyAuthService.completeTOTPChallenge(challenge.totpToken!, codeAt(secret));
+
+      expect(result.success).toBe(true);
+      expect(result.passkeyEnrollmentToken).toBeUndefined();
+    });
+
+    it('should sign customers without an app straight in', async () => {
+      const result = await signInWithSMS();
+
+      expect(result.success).toBe(true);
+      expect(result.totpToken).toBeUndefined();
+    });
+
+    it('should block the TOTP step after too many wrong codes, like OTP verification', async () => {
+      const secret = await enroll();
+      const { totpToken } = await signInWithSMS();
+
+      for (let attempt = 0; attempt < 5; attempt++) {
+        const result = await totpAuthService.completeTOTPChallenge(totpToken!, '000000');
+        expect(result.success).toBe(false);
+      }
+
+      const blocked = await totpAuthService.completeTOTPChallenge(totpToken!, codeAt(secret));
+
+      expect(blocked.errorCode).toBe('ACCOUNT_LOCKED');
+      expect(await otpService.isBlocked(`totp:${customer.id}`)).toBe(true);
+      expect(mockMultipassService.generateMultipassUrl).not.toHaveBeenCalled();
+    });
+
+    it('should make tagged customers enroll an app before signing in', async () => {
+      mockSettingsService.getTOTPRequiredTags.mockResolvedValue(['wholesale']);
+
+      const challenge = await signInWithSMS();
+
+      expect(challenge.errorCode).toBe('TOTP_ENROLLMENT_REQUIRED');
+
+      const enrollment = await totpAuthService.beginTOTPChallengeEnrollment(challenge.totpToken!);
+
+      expect(enrollment?.otpauthUrl).toMatch(/^otpauth:\/\/totp\//);
+
+      const result = await totpAuthService.completeTOTPChallenge(challenge.totpToken!, codeAt(enrollment!.secret));
+
+      expect(result.success).toBe(true);
+      expect(result.recoveryCodes).toHaveLength(10);
+      expect(await totpService.isEnrolled(customer.id)).toBe(true);
+    });
+
+    it('should not let tagged customers remove their app', async () => {
+      const secret = await enroll();
+      const identityService = new IdentityService(redis);
+      const linkToken = await identityService.createLinkToken(customer.id);
+      mockSettingsService.getTOTPRequiredTags.mockResolvedValue(['wholesale']);
+
+      const linkAuthService = new AuthService(
+        mockMultipassService,
+        mockCustomerService,
+        otpService,
+        mockSMSService,
+        mockOAuthService,
+        mockSMSQueue,
+        undefined,
+        undefined,
+        mockPasswordService,
+        undefined,
+        identityService,
+        mockSettingsService,
+        totpService
+      );
+
+      const result = await linkAuthService.disableTOTP(linkToken, codeAt(secret));
+
+      expect(result.success).toBe(false);
+      expect(await totpService.isEnrolled(customer.id)).toBe(true);
+    });
   });
 });
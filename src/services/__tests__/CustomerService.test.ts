@@ -366,6 +366,9 @@ describe('CustomerService', () => {
 
   describe('helper methods', () => {
     it('should set auth method', async () => {
+      mockRestClient.get.mockResolvedValue({
+        body: { metafields: [] },
+      });
       mockRestClient.post.mockResolvedValue({
         body: { metafield: {} },
       });
@@ -386,6 +389,43 @@ describe('CustomerService', () => {
       );
     });
 
+    it('should add the auth method to the methods already recorded', async () => {
+      mockRestClient.get.mockResolvedValue({
+        body: { metafields: [{ namespace: 'auth_app', key: 'auth_methods', value: '["sms"]', type: 'list.single_line_text_field' }] },
+      });
+      mockRestClient.post.mockResolvedValue({
+        body: { metafield: {} },
+      });
+
+      await customerService.setAuthMethod('123', 'google');
+      await customerService.setAuthMethod('123', 'sms');
+
+      expect(mockRestClient.get).toHaveBeenCalledWith({
+        path: 'customers/123/metafields',
+        query: { namespace: 'auth_app', key: 'auth_methods' },
+      });
+      expect(mockRestClient.post).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            metafield: {
+              namespace: 'auth_app',
+              key: 'auth_methods',
+              value: '["sms","google"]',
+              type: 'list.single_line_text_field',
+            },
+          },
+        })
+      );
+      // A method that is already recorded is not listed twice
+      expect(mockRestClient.post).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            metafield: expect.objectContaining({ key: 'auth_methods', value: '["sms"]' }),
+          }),
+        })
+      );
+    });
+
     it('should set phone verified status', async () => {
       mockRestClient.post.mockResolvedValue({
         body: { metafield: {} },
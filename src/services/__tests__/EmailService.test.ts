@@ -0,0 +1,86 @@
+/**
+ * EmailService Tests
+ * Unit tests for email transport fallback
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileEmailProvider } from '../../providers/FileEmailProvider.js';
+import { IEmailProvider } from '../../providers/IEmailProvider.js';
+import { EmailService } from '../EmailService.js';
+
+jest.mock('../../config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+function createProvider(name: string, priority: number, success: boolean): jest.Mocked<IEmailProvider> {
+  return {
+    name,
+    priority,
+    sendEmail: jest.fn().mockResolvedValue({
+      success,
+      messageId: success ? `${name}-msg` : '',
+      provider: name,
+      error: success ? undefined : `${name} failed`
+    })
+  } as any;
+}
+
+const email = {
+  to: 'test@example.com',
+  subject: 'Your sign-in code',
+  text: 'Your verification code is: 123456.'
+};
+
+describe('EmailService', () => {
+  it('should try providers in priority order and fall back on failure', async () => {
+    const primary = createProvider('primary', 1, false);
+    const backup = createProvider('backup', 2, true);
+    const emailService = new EmailService([backup, primary]);
+
+    const result = await emailService.sendEmail(email);
+
+    expect(result.success).toBe(true);
+    expect(result.provider).toBe('backup');
+    expect(primary.sendEmail).toHaveBeenCalledWith(email);
+  });
+
+  it('should report failure when every provider fails', async () => {
+    const emailService = new EmailService([
+      createProvider('primary', 1, false),
+      createProvider('backup', 2, false)
+    ]);
+
+    const result = await emailService.sendEmail(email);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('backup failed');
+  });
+
+  it('should report failure when no providers are configured', async () => {
+    const emailService = new EmailService([]);
+
+    expect(emailService.isConfigured()).toBe(false);
+    expect((await emailService.sendEmail(email)).success).toBe(false);
+  });
+
+  it('should write emails to the configured directory with the file transport', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'emails-'));
+    const emailService = new EmailService([new FileEmailProvider('no-reply@example.com', directory)]);
+
+    const result = await emailService.sendEmail(email);
+    const files = await fs.readdir(directory);
+    const written = JSON.parse(await fs.readFile(path.join(directory, files[0]), 'utf8'));
+
+    expect(result.success).toBe(true);
+    expect(result.provider).toBe('file');
+    expect(written).toMatchObject({ ...email, from: 'no-reply@example.com', messageId: result.messageId });
+
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+});
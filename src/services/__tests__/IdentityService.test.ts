@@ -0,0 +1,89 @@
+/**
+ * Tests for IdentityService
+ * Covers identity ownership, conflicts, unlinking and link tokens
+ */
+
+import Redis from 'ioredis-mock';
+import { IdentityService } from '../IdentityService.js';
+
+jest.mock('../../config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+describe('IdentityService', () => {
+  let redis: Redis;
+  let identityService: IdentityService;
+
+  beforeEach(() => {
+    redis = new Redis();
+    identityService = new IdentityService(redis as any, { linkTokenTTL: 60 });
+  });
+
+  afterEach(async () => {
+    await redis.flushall();
+    redis.disconnect();
+  });
+
+  it('should link several identities to one customer', async () => {
+    await identityService.linkIdentity('customer-1', { provider: 'sms', subject: '+14155552671', verified: true });
+    await identityService.linkIdentity('customer-1', {
+      provider: 'google',
+      subject: 'google-123',
+      verified: true,
+      email: 'shopper@example.com'
+    });
+
+    const identities = await identityService.getIdentities('customer-1');
+
+    expect(identities.map(identity => identity.provider).sort()).toEqual(['google', 'sms']);
+    expect(await identityService.findCustomerId('google', 'google-123')).toBe('customer-1');
+    expect(await identityService.findCustomerId('sms', '+14155552671')).toBe('customer-1');
+  });
+
+  it('should not let a second customer claim a linked identity', async () => {
+    await identityService.linkIdentity('customer-1', { provider: 'google', subject: 'google-123', verified: true });
+
+    const result = await identityService.linkIdentity('customer-2', { provider: 'google', subject: 'google-123', verified: true });
+
+    expect(result).toEqual({ status: 'conflict' });
+    expect(await identityService.findCustomerId('google', 'google-123')).toBe('customer-1');
+    expect(await identityService.getIdentities('customer-2')).toEqual([]);
+  });
+
+  it('should keep an identity verified and keep its link time when it is used again', async () => {
+    const first = await identityService.linkIdentity('customer-1', { provider: 'email', subject: 'a@example.com', verified: true });
+    const second = await identityService.linkIdentity('customer-1', { provider: 'email', subject: 'a@example.com', verified: false });
+
+    expect(second.status).toBe('linked');
+    expect(second.identity?.verified).toBe(true);
+    expect(second.identity?.linkedAt).toBe(first.identity?.linkedAt);
+  });
+
+  it('should unlink an identity but never the last one', async () => {
+    await identityService.linkIdentity('customer-1', { provider: 'sms', subject: '+14155552671', verified: true });
+    await identityService.linkIdentity('customer-1', { provider: 'google', subject: 'google-123', verified: true });
+
+    expect(await identityService.unlinkIdentity('customer-1', 'google', 'google-123')).toBe(true);
+    expect(await identityService.unlinkIdentity('customer-1', 'sms', '+14155552671')).toBe(false);
+    expect(await identityService.unlinkIdentity('customer-1', 'google', 'google-123')).toBe(false);
+
+    // An unlinked identity is free to be linked elsewhere
+    expect(await identityService.findCustomerId('google', 'google-123')).toBeNull();
+    expect((await identityService.linkIdentity('customer-2', { provider: 'google', subject: 'google-123', verified: true })).status)
+      .toBe('linked');
+  });
+
+  it('should resolve link tokens to the customer they were issued for', async () => {
+    const token = await identityService.createLinkToken('customer-1');
+
+    expect(token).toMatch(/^[0-9a-f]{64}$/);
+    expect(await identityService.getLinkTokenCustomerId(token)).toBe('customer-1');
+    expect(await identityService.getLinkTokenCustomerId('unknown-token')).toBeNull();
+    expect(await identityService.getLinkTokenCustomerId('')).toBeNull();
+    expect(await redis.ttl(`identity:link:${token}`)).toBe(60);
+  });
+});
@@ -3,13 +3,17 @@
  * Feature: shopify-sms-auth
  */
 
+import { createHash } from 'crypto';
 import fc from 'fast-check';
+import Redis from 'ioredis-mock';
+import jwt from 'jsonwebtoken';
 import {
     IOAuthProvider,
+    OAuthAuthorizationParams,
     OAuthTokens,
     UserProfile
 } from '../../providers/IOAuthProvider.js';
-import { OAuthService } from '../OAuthService.js';
+import { OAuthFlowState, OAuthService } from '../OAuthService.js';
 
 // Mock logger
 jest.mock('../../config/logger.js', () => ({
@@ -31,6 +35,9 @@ class MockOAuthProvider implements IOAuthProvider {
   public authUrlCallCount: number = 0;
   public tokenCallCount: number = 0;
   public profileCallCount: number = 0;
+  public lastAuthorizationParams?: OAuthAuthorizationParams;
+  public lastCodeVerifier?: string;
+  public idToken?: string;
 
   constructor(
     name: string,
@@ -44,18 +51,21 @@ class MockOAuthProvider implements IOAuthProvider {
     this.shouldFailProfile = shouldFailProfile;
   }
 
-  getAuthorizationUrl(state: string, redirectUri: string): string {
+  getAuthorizationUrl(params: OAuthAuthorizationParams, redirectUri: string): string {
     this.authUrlCallCount++;
+    this.lastAuthorizationParams = params;
     return `https://oauth.example.com/authorize?client_id=test&redirect_uri=${encodeURIComponent(
       redirectUri
-    )}&state=${state}&scope=${this.scopes.join(' ')}`;
+    )}&state=${params.state}&code_challenge=${params.codeChallenge}&nonce=${params.nonce}&scope=${this.scopes.join(' ')}`;
   }
 
   async exchangeCodeForToken(
     code: string,
-    _redirectUri: string
+    _redirectUri: string,
+    codeVerifier: string
   ): Promise<OAuthTokens> {
     this.tokenCallCount++;
+    this.lastCodeVerifier = codeVerifier;
 
     if (this.shouldFailToken) {
       throw new Error(`${this.name} failed to exchange code for token`);
@@ -65,7 +75,8 @@ class MockOAuthProvider implements IOAuthProvider {
       accessToken: `access_token_${code}`,
       refreshToken: `refresh_token_${code}`,
       expiresIn: 3600,
-      tokenType: 'Bearer'
+      tokenType: 'Bearer',
+      idToken: this.idToken
     };
   }
 
@@ -109,11 +120,31 @@ class MockOAuthProvider implements IOAuthProvider {
   }
 }
 
+/**
+ * Flow record as consumeState would return it for a callback
+ */
+function buildFlow(provider: string, redirectUri = 'https://myapp.com/callback'): OAuthFlowState {
+  return {
+    provider,
+    redirectUri,
+    codeVerifier: 'code_verifier_123',
+    nonce: 'nonce_123',
+    createdAt: Date.now()
+  };
+}
+
 describe('OAuthService', () => {
+  let redis: Redis;
   let oauthService: OAuthService;
 
   beforeEach(() => {
-    oauthService = new OAuthService();
+    redis = new Redis();
+    oauthService = new OAuthService(redis);
+  });
+
+  afterEach(async () => {
+    await redis.flushall();
+    redis.disconnect();
   });
 
   describe('Provider Registration', () => {
@@ -200,25 +231,56 @@ describe('OAuthService', () => {
   });
 
   describe('Initiate OAuth Flow', () => {
-    it('should generate authorization URL with state parameter', async () => {
+    it('should store the flow under the state parameter', async () => {
       const provider = new MockOAuthProvider('google');
       oauthService.registerProvider('google', provider);
 
       const redirectUri = 'https://myapp.com/callback';
-      const state = 'random_state_123';
 
-      const authUrl = await oauthService.initiateOAuth(
-        'google',
-        redirectUri,
-        state
-      );
+      const authUrl = await oauthService.initiateOAuth('google', redirectUri, {
+        returnTo: '/account',
+        shop: 'test-shop.myshopify.com'
+      });
+
+      const state = new URL(authUrl).searchParams.get('state')!;
+      const flow = await oauthService.consumeState(state);
 
-      expect(authUrl).toContain('state=random_state_123');
       expect(authUrl).toContain(encodeURIComponent(redirectUri));
-      expect(provider.authUrlCallCount).toBe(1);
+      expect(flow).toMatchObject({
+        provider: 'google',
+        redirectUri,
+        returnTo: '/account',
+        shop: 'test-shop.myshopify.com',
+        nonce: provider.lastAuthorizationParams!.nonce
+      });
+      expect(await redis.ttl(`oauth:state:${state}`)).toBe(-2);
+    });
+
+    it('should send the S256 challenge of the stored code verifier', async () => {
+      const provider = new MockOAuthProvider('google');
+      oauthService.registerProvider('google', provider);
+
+      const authUrl = await oauthService.initiateOAuth('google', 'https://myapp.com/callback');
+      const flow = await oauthService.consumeState(new URL(authUrl).searchParams.get('state')!);
+
+      const expectedChallenge = createHash('sha256').update(flow!.codeVerifier).digest('base64url');
+      expect(provider.lastAuthorizationParams!.codeChallenge).toBe(expectedChallenge);
+      expect(flow!.codeVerifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    });
+
+    it('should expire stored flows', async () => {
+      const provider = new MockOAuthProvider('google');
+      oauthService.registerProvider('google', provider);
+
+      const authUrl = await oauthService.initiateOAuth('google', 'https://myapp.com/callback');
+      const state = new URL(authUrl).searchParams.get('state')!;
+
+      const ttl = await redis.ttl(`oauth:state:${state}`);
+      expect(ttl).toBeGreaterThan(0);
+      expect(ttl).toBeLessThanOrEqual(600);
     });
 
-    it('should generate state parameter if not provided', async () => {
+    it('should generate a state parameter', async () => {
       const provider = new MockOAuthProvider('google');
       oauthService.registerProvider('google', provider);
 
@@ -278,7 +340,7 @@ describe('OAuthService', () => {
       const profile = await oauthService.handleCallback(
         'google',
         code,
-        redirectUri
+        buildFlow('google', redirectUri)
       );
 
       expect(profile.email).toBe('user@example.com');
@@ -293,7 +355,7 @@ describe('OAuthService', () => {
         oauthService.handleCallback(
           'nonexistent',
           'code',
-          'https://myapp.com/callback'
+          buildFlow('nonexistent')
         )
       ).rejects.toThrow("OAuth provider 'nonexistent' not found");
     });
@@ -306,7 +368,7 @@ describe('OAuthService', () => {
         oauthService.handleCallback(
           'google',
           'code',
-          'https://myapp.com/callback'
+          buildFlow('google')
         )
       ).rejects.toThrow('Failed to complete OAuth with google');
     });
@@ -319,7 +381,7 @@ describe('OAuthService', () => {
         oauthService.handleCallback(
           'google',
           'code',
-          'https://myapp.com/callback'
+          buildFlow('google')
         )
       ).rejects.toThrow('Failed to complete OAuth with google');
     });
@@ -334,11 +396,12 @@ describe('OAuthService', () => {
       expect(authUrl).toBeDefined();
 
       // Step 2: Handle callback
+      const flow = await oauthService.consumeState(new URL(authUrl).searchParams.get('state')!);
       const code = 'auth_code_123';
       const profile = await oauthService.handleCallback(
         'google',
         code,
-        redirectUri
+        flow!
       );
 
       expect(profile).toBeDefined();
@@ -355,12 +418,83 @@ describe('OAuthService', () => {
       const code = 'specific_auth_code';
       const redirectUri = 'https://myapp.com/specific/callback';
 
-      await oauthService.handleCallback('google', code, redirectUri);
+      await oauthService.handleCallback('google', code, buildFlow('google', redirectUri));
 
       // Verify the provider received correct parameters
       expect(provider.tokenCallCount).toBe(1);
+      expect(provider.lastCodeVerifier).toBe('code_verifier_123');
       expect(provider.profileCallCount).toBe(1);
     });
+
+    it('should fill missing profile names from the posted callback user', async () => {
+      const provider = new MockOAuthProvider('apple');
+      oauthService.registerProvider('apple', provider);
+
+      jest.spyOn(provider, 'getUserProfile').mockResolvedValue({
+        id: 'apple_user',
+        email: 'user@example.com',
+        emailVerified: true
+      });
+
+      const profile = await oauthService.handleCallback(
+        'apple',
+        'auth_code_123',
+        buildFlow('apple'),
+        { firstName: 'Jane', lastName: 'Doe' }
+      );
+
+      expect(profile.firstName).toBe('Jane');
+      expect(profile.lastName).toBe('Doe');
+    });
+
+    it('should reject a flow started for another provider', async () => {
+      const provider = new MockOAuthProvider('google');
+      oauthService.registerProvider('google', provider);
+
+      await expect(
+        oauthService.handleCallback('google', 'code', buildFlow('apple'))
+      ).rejects.toThrow('OAuth state does not belong to google');
+      expect(provider.tokenCallCount).toBe(0);
+    });
+
+    it('should accept an ID token carrying the flow nonce', async () => {
+      const provider = new MockOAuthProvider('google');
+      provider.idToken = jwt.sign({ sub: 'user', nonce: 'nonce_123' }, 'test-secret');
+      oauthService.registerProvider('google', provider);
+
+      const profile = await oauthService.handleCallback('google', 'code', buildFlow('google'));
+
+      expect(profile.email).toBe('user@example.com');
+    });
+
+    it('should reject an ID token minted for another flow', async () => {
+      const provider = new MockOAuthProvider('google');
+      provider.idToken = jwt.sign({ sub: 'user', nonce: 'other_nonce' }, 'test-secret');
+      oauthService.registerProvider('google', provider);
+
+      await expect(
+        oauthService.handleCallback('google', 'code', buildFlow('google'))
+      ).rejects.toThrow('ID token nonce does not match');
+      expect(provider.profileCallCount).toBe(0);
+    });
+  });
+
+  describe('State Consumption', () => {
+    it('should return a stored flow only once', async () => {
+      const provider = new MockOAuthProvider('google');
+      oauthService.registerProvider('google', provider);
+
+      const authUrl = await oauthService.initiateOAuth('google', 'https://myapp.com/callback');
+      const state = new URL(authUrl).searchParams.get('state')!;
+
+      expect(await oauthService.consumeState(state)).not.toBeNull();
+      expect(await oauthService.consumeState(state)).toBeNull();
+    });
+
+    it('should return null for unknown states', async () => {
+      expect(await oauthService.consumeState('forged_state')).toBeNull();
+      expect(await oauthService.consumeState('')).toBeNull();
+    });
   });
 
   describe('Multiple Provider Support', () => {
@@ -400,7 +534,7 @@ describe('OAuthService', () => {
       const googleProfile = await oauthService.handleCallback(
         'google',
         'code',
-        'https://myapp.com/callback'
+        buildFlow('google')
       );
       expect(googleProfile).toBeDefined();
 
@@ -409,7 +543,7 @@ describe('OAuthService', () => {
         oauthService.handleCallback(
           'apple',
           'code',
-          'https://myapp.com/callback'
+          buildFlow('apple')
         )
       ).rejects.toThrow();
     });
@@ -445,7 +579,7 @@ describe('OAuthService', () => {
 
       const state = new URL(authUrl).searchParams.get('state');
       expect(state).toBeDefined();
-      expect(state!.length).toBeGreaterThanOrEqual(32); // 16 bytes = 32 hex chars
+      expect(state!.length).toBeGreaterThanOrEqual(43); // 32 bytes, base64url-encoded
     });
   });
 
@@ -486,7 +620,10 @@ describe('OAuthService', () => {
             expect(typeof provider.getAuthorizationUrl).toBe('function');
             
             // Verify: getAuthorizationUrl returns a string
-            const authUrl = provider.getAuthorizationUrl(testData.state, testData.redirectUri);
+            const authUrl = provider.getAuthorizationUrl(
+              { state: testData.state, codeChallenge: 'code_challenge', nonce: 'nonce' },
+              testData.redirectUri
+            );
             expect(typeof authUrl).toBe('string');
             expect(authUrl.length).toBeGreaterThan(0);
             
@@ -519,7 +656,7 @@ describe('OAuthService', () => {
             const provider = new MockOAuthProvider(testData.providerName);
             
             // Execute: Exchange code for tokens
-            const tokens = await provider.exchangeCodeForToken(testData.authCode, testData.redirectUri);
+            const tokens = await provider.exchangeCodeForToken(testData.authCode, testData.redirectUri, 'code_verifier');
             
             // Verify: Tokens object has required structure
             expect(tokens).toHaveProperty('accessToken');
@@ -638,7 +775,7 @@ describe('OAuthService', () => {
             scopes: fc.array(fc.string({ minLength: 1, maxLength: 20 }), { minLength: 1, maxLength: 5 })
           }),
           (testData) => {
-            const service = new OAuthService();
+            const service = new OAuthService(redis);
             const provider = new MockOAuthProvider(testData.providerName, testData.scopes);
             
             // Verify: Provider can be registered
@@ -679,7 +816,7 @@ describe('OAuthService', () => {
             return Array.from(uniqueProviders.values());
           }),
           (providersData) => {
-            const service = new OAuthService();
+            const service = new OAuthService(redis);
             
             // Create and register all providers
             const providers = providersData.map(data => {
@@ -6,7 +6,8 @@
 
 import fc from 'fast-check';
 import Redis from 'ioredis-mock';
-import { OTPService } from '../OTPService.js';
+import { getDefaultOTPPolicy, OTPService, resolveOTPPolicy, validateOTPPolicy } from '../OTPService.js';
+import { SMSFraudService } from '../SMSFraudService.js';
 
 describe('OTPService Property-Based Tests', () => {
   let redis: Redis;
@@ -55,9 +56,9 @@ describe('OTPService Property-Based Tests', () => {
             const otp = otpService.generateOTP();
             await otpService.storeOTP(phone, otp, 300);
             
-            // Verify OTP is stored
+            // Verify OTP is stored, hashed rather than in plaintext
             const storedOTP = await redis.get(`otp:${phone}`);
-            expect(storedOTP).toBe(otp);
+            expect(storedOTP).toBe(otpService.hashOTP(phone, otp));
             
             // Verify TTL is set (ioredis-mock supports ttl)
             const ttl = await redis.ttl(`otp:${phone}`);
@@ -116,7 +117,7 @@ describe('OTPService Property-Based Tests', () => {
             
             // OTP should still exist after failed verification
             const storedOTP = await redis.get(`otp:${phone}`);
-            expect(storedOTP).toBe(correctOTP);
+            expect(storedOTP).toBe(otpService.hashOTP(phone, correctOTP));
           }
         ),
         { numRuns: 100 }
@@ -352,7 +353,7 @@ describe('OTPService Property-Based Tests', () => {
             
             // Verify OTP exists
             const storedBefore = await redis.get(`otp:${phone}`);
-            expect(storedBefore).toBe(otp);
+            expect(storedBefore).toBe(otpService.hashOTP(phone, otp));
             
             // Verify OTP successfully
             const result = await otpService.verifyOTP(phone, otp);
@@ -396,4 +397,180 @@ describe('OTPService Property-Based Tests', () => {
       );
     });
   });
+
+  describe('Voice call offer after resends', () => {
+    it('should offer a voice call from the second resend and allow one call per window', async () => {
+      const phone = '+14155550123';
+
+      // First send
+      await otpService.trackSendAttempt(phone);
+      expect((await otpService.canResendOTP(phone)).offerVoiceCall).toBe(false);
+      expect((await otpService.trackVoiceCall(phone)).allowed).toBe(false);
+
+      // First resend
+      await otpService.trackSendAttempt(phone);
+      expect((await otpService.canResendOTP(phone)).offerVoiceCall).toBe(true);
+
+      // Second resend
+      await otpService.trackSendAttempt(phone);
+
+      expect((await otpService.trackVoiceCall(phone)).allowed).toBe(true);
+
+      const secondCall = await otpService.trackVoiceCall(phone);
+      expect(secondCall.allowed).toBe(false);
+      expect(secondCall.retryAfter).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Hashed storage', () => {
+    it('should bind stored hashes to the phone they were issued for', async () => {
+      await otpService.storeOTP('+14155550123', '123456');
+      const stored = await redis.get('otp:+14155550123');
+
+      expect(stored).toMatch(/^[0-9a-f]{64}$/);
+
+      // Copying the hash to another phone's key doesn't let that phone sign in with the code
+      await redis.setex('otp:+14155550199', 300, stored!);
+      expect(await otpService.verifyOTP('+14155550199', '123456')).toBe(false);
+      expect(await otpService.verifyOTP('+14155550123', '123456')).toBe(true);
+    });
+
+    it('should still verify plaintext codes stored before hashing was introduced', async () => {
+      await redis.setex('otp:+14155550123', 300, '654321');
+
+      expect(await otpService.verifyOTP('+14155550123', '123456')).toBe(false);
+      expect(await otpService.verifyOTP('+14155550123', '654321')).toBe(true);
+      expect(await redis.get('otp:+14155550123')).toBeNull();
+    });
+  });
+
+  describe('Phone number normalization', () => {
+    it('should treat the ways one number is written as the same phone', async () => {
+      await otpService.storeOTP('+44 7400 123456', '123456');
+
+      expect(await redis.get('otp:+447400123456')).toMatch(/^[0-9a-f]{64}$/);
+      expect(await otpService.verifyOTP('+447400123456', '123456')).toBe(true);
+    });
+
+    it('should share send limits between the ways one number is written', async () => {
+      await otpService.trackSendAttempt('+447400123456');
+      await otpService.trackSendAttempt('+44 (0)7400 123456');
+      await otpService.trackSendAttempt('0044 7400 123456');
+
+      expect((await otpService.trackSendAttempt('+44 7400 123456')).allowed).toBe(false);
+    });
+  });
+
+  describe('SMS fraud protection', () => {
+    it('should refuse sends the fraud check refuses and count verified codes', async () => {
+      const fraud = new SMSFraudService(redis, { enabled: true, allowlist: [], denylist: ['+234'] });
+      const recordVerification = jest.spyOn(fraud, 'recordVerification');
+      otpService = new OTPService(redis, fraud);
+
+      expect(await otpService.trackSendAttempt('+2348012345678')).toEqual({
+        allowed: false,
+        retryAfter: undefined,
+        reason: 'country_not_allowed'
+      });
+      expect((await otpService.trackSendAttempt('+14155550123')).allowed).toBe(true);
+
+      await otpService.storeOTP('+14155550123', '123456');
+      await otpService.verifyOTP('+14155550123', '123456');
+      expect(recordVerification).toHaveBeenCalledWith('+14155550123');
+    });
+
+    it('should only count queued codes towards the number range', async () => {
+      const fraud = new SMSFraudService(redis, {
+        enabled: true,
+        maxSendsPerPrefix: 2,
+        logOnly: false,
+        allowlist: [],
+        denylist: []
+      });
+      otpService = new OTPService(redis, fraud);
+
+      // Attempts past the per-number limit are refused before anything is queued
+      for (let i = 0; i < 10; i++) {
+        await otpService.trackSendAttempt('+2348012345678');
+      }
+      expect(await otpService.trackSendAttempt('+2348012345678')).toEqual({ allowed: false, retryAfter: expect.any(Number) });
+      expect(await redis.keys('sms:fraud:counts:*')).toEqual([]);
+      expect((await otpService.trackSendAttempt('+2349099999999')).allowed).toBe(true);
+
+      await otpService.recordQueuedSend('+2349099999999');
+      const [countsKey] = await redis.keys('sms:fraud:counts:+234909:*');
+      expect(await redis.hget(countsKey, 'sent')).toBe('1');
+    });
+
+    it('should not check email identifiers', async () => {
+      const fraud = new SMSFraudService(redis, { enabled: true, allowlist: ['+44'], denylist: [] });
+      otpService = new OTPService(redis, fraud);
+
+      expect((await otpService.trackSendAttempt('email:customer@example.com')).allowed).toBe(true);
+    });
+  });
+
+  describe('OTP policy', () => {
+    it('should accept policies within range and reject ones outside it', () => {
+      expect(() => validateOTPPolicy({})).not.toThrow();
+      expect(() => validateOTPPolicy({ length: 8, alphabet: 'alphanumeric', maxAttempts: 3 })).not.toThrow();
+
+      expect(() => validateOTPPolicy({ length: 3 })).toThrow('OTP policy length must be a whole number between 4 and 10');
+      expect(() => validateOTPPolicy({ ttlSeconds: 7200 })).toThrow('ttlSeconds');
+      expect(() => validateOTPPolicy({ maxAttempts: 2.5 })).toThrow('maxAttempts');
+      expect(() => validateOTPPolicy({ alphabet: 'emoji' as never })).toThrow('Code characters must be numeric or alphanumeric');
+    });
+
+    it('should fall back to the defaults for a stored policy that is invalid', () => {
+      expect(resolveOTPPolicy(null)).toEqual(getDefaultOTPPolicy());
+      expect(resolveOTPPolicy({ length: 2 })).toEqual(getDefaultOTPPolicy());
+      expect(resolveOTPPolicy({ length: 8 })).toEqual({ ...getDefaultOTPPolicy(), length: 8 });
+    });
+
+    it('should generate alphanumeric codes of the configured length', () => {
+      otpService.setPolicy({ length: 8, alphabet: 'alphanumeric' });
+
+      for (let i = 0; i < 50; i++) {
+        const otp = otpService.generateOTP();
+
+        expect(otp).toMatch(/^[2-9A-HJKMNP-Z]{8}$/);
+        expect(otpService.isValidFormat(otp)).toBe(true);
+      }
+      expect(otpService.describeFormat()).toBe('8 letters or numbers');
+    });
+
+    it('should check submitted codes against the policy format', () => {
+      expect(otpService.isValidFormat('123456')).toBe(true);
+      expect(otpService.isValidFormat('12345')).toBe(false);
+      expect(otpService.isValidFormat('ABC123')).toBe(false);
+      expect(otpService.isValidFormat(123456)).toBe(false);
+
+      otpService.setPolicy({ length: 6, alphabet: 'alphanumeric' });
+
+      expect(otpService.isValidFormat('abc234')).toBe(true);
+      expect(otpService.isValidFormat('ABC1O0')).toBe(false);
+    });
+
+    it('should verify alphanumeric codes entered in lower case', async () => {
+      otpService.setPolicy({ length: 6, alphabet: 'alphanumeric' });
+
+      await otpService.storeOTP('+14155550123', 'K7PX4M');
+
+      expect(await otpService.verifyOTP('+14155550123', 'k7px4m')).toBe(true);
+    });
+
+    it('should apply the policy limits to failed attempts', async () => {
+      otpService.setPolicy({ maxAttempts: 2, blockDurationSeconds: 120 });
+
+      await otpService.storeOTP('+14155550123', '123456');
+      await otpService.verifyOTP('+14155550123', '000000');
+      expect(await otpService.isBlocked('+14155550123')).toBe(false);
+
+      await otpService.verifyOTP('+14155550123', '000000');
+      expect(await otpService.isBlocked('+14155550123')).toBe(true);
+      const ttl = await redis.ttl('otp:blocked:+14155550123');
+      expect(ttl).toBeGreaterThan(0);
+      expect(ttl).toBeLessThanOrEqual(120);
+    });
+  });
 });
@@ -66,9 +66,10 @@ describe('OrderService Property-Based Tests', () => {
           async (orderId, orderNumber, phone) => {
             const otp = await orderService.generateOrderOTP(orderId, orderNumber, phone);
 
-            // Verify OTP is stored with correct key
+            // Verify OTP is stored hashed with correct key
             const storedOTP = await redis.get(`order:otp:${orderId}`);
-            expect(storedOTP).toBe(otp);
+            expect(storedOTP).toBe(otpService.hashOTP(`order:otp:${orderId}`, otp));
+            expect(storedOTP).not.toContain(otp);
 
             // Verify OTP format (6 digits)
             expect(otp).toMatch(/^\d{6}$/);
@@ -148,7 +149,7 @@ describe('OrderService Property-Based Tests', () => {
 
             // OTP should still be in Redis (not deleted on failed verification)
             const storedOTP = await redis.get(`order:otp:${orderId}`);
-            expect(storedOTP).toBe(correctOTP);
+            expect(storedOTP).toBe(otpService.hashOTP(`order:otp:${orderId}`, correctOTP));
           }
         ),
         { numRuns: 10 }
@@ -177,7 +178,7 @@ describe('OrderService Property-Based Tests', () => {
 
             // Original OTP should still be in Redis
             const storedOTP = await redis.get(`order:otp:${orderId1}`);
-            expect(storedOTP).toBe(otp);
+            expect(storedOTP).toBe(otpService.hashOTP(`order:otp:${orderId1}`, otp));
           }
         ),
         { numRuns: 10 }
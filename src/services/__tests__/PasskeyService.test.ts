@@ -0,0 +1,210 @@
+/**
+ * Tests for PasskeyService
+ * Covers enrollment tokens, single-use challenges and credential storage
+ */
+
+import {
+  AuthenticationResponseJSON,
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+  VerifiedAuthenticationResponse,
+  VerifiedRegistrationResponse,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse
+} from '@simplewebauthn/server';
+import fc from 'fast-check';
+import Redis from 'ioredis-mock';
+import { PasskeyService } from '../PasskeyService.js';
+
+jest.mock('@simplewebauthn/server');
+jest.mock('../../config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const mockedGenerateRegistrationOptions = generateRegistrationOptions as jest.MockedFunction<typeof generateRegistrationOptions>;
+const mockedVerifyRegistrationResponse = verifyRegistrationResponse as jest.MockedFunction<typeof verifyRegistrationResponse>;
+const mockedGenerateAuthenticationOptions = generateAuthenticationOptions as jest.MockedFunction<typeof generateAuthenticationOptions>;
+const mockedVerifyAuthenticationResponse = verifyAuthenticationResponse as jest.MockedFunction<typeof verifyAuthenticationResponse>;
+
+const passkeyConfig = {
+  rpId: 'test-shop.myshopify.com',
+  rpName: 'Test Shop',
+  origin: 'https://test-shop.myshopify.com',
+  challengeTtlSeconds: 300,
+  enrollmentTtlSeconds: 600
+};
+
+const registrationResponse = (id: string) => ({ id }) as RegistrationResponseJSON;
+const authenticationResponse = (id: string) => ({ id }) as AuthenticationResponseJSON;
+
+describe('PasskeyService', () => {
+  let redis: Redis;
+  let passkeyService: PasskeyService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    redis = new Redis();
+    passkeyService = new PasskeyService(redis, passkeyConfig);
+
+    mockedGenerateRegistrationOptions.mockResolvedValue({ challenge: 'reg-challenge' } as PublicKeyCredentialCreationOptionsJSON);
+    mockedGenerateAuthenticationOptions.mockResolvedValue({ challenge: 'auth-challenge' } as PublicKeyCredentialRequestOptionsJSON);
+    mockedVerifyRegistrationResponse.mockResolvedValue({
+      verified: true,
+      registrationInfo: {
+        credential: {
+          id: 'credential-1',
+          publicKey: new Uint8Array([1, 2, 3]),
+          counter: 0,
+          transports: ['internal']
+        },
+        credentialDeviceType: 'multiDevice',
+        credentialBackedUp: true
+      }
+    } as VerifiedRegistrationResponse);
+    mockedVerifyAuthenticationResponse.mockResolvedValue({
+      verified: true,
+      authenticationInfo: { newCounter: 1 }
+    } as VerifiedAuthenticationResponse);
+  });
+
+  afterEach(async () => {
+    await redis.flushall();
+    redis.disconnect();
+  });
+
+  async function registerPasskey(customerId: string): Promise<void> {
+    const token = await passkeyService.createEnrollmentToken({ customerId, userName: 'test@example.com' });
+    await passkeyService.generateRegistrationOptions(token);
+    await passkeyService.verifyRegistration(token, registrationResponse('credential-1'));
+  }
+
+  describe('registration', () => {
+    it('should store the credential against the enrolled customer', async () => {
+      await registerPasskey('customer-1');
+
+      const credentials = await passkeyService.getCredentials('customer-1');
+      expect(credentials).toHaveLength(1);
+      expect(credentials[0]).toMatchObject({
+        id: 'credential-1',
+        customerId: 'customer-1',
+        publicKey: Buffer.from([1, 2, 3]).toString('base64url'),
+        counter: 0,
+        deviceType: 'multiDevice',
+        backedUp: true
+      });
+    });
+
+    it('should verify against the challenge issued for the enrollment', async () => {
+      await registerPasskey('customer-1');
+
+      expect(mockedVerifyRegistrationResponse).toHaveBeenCalledWith(
+        expect.objectContaining({
+          expectedChallenge: 'reg-challenge',
+          expectedOrigin: passkeyConfig.origin,
+          expectedRPID: passkeyConfig.rpId
+        })
+      );
+    });
+
+    it('should reject unknown enrollment tokens', async () => {
+      await fc.assert(
+        fc.asyncProperty(fc.hexaString({ minLength: 1, maxLength: 64 }), async (token) => {
+          await expect(passkeyService.generateRegistrationOptions(token)).rejects.toThrow(
+            'Invalid or expired passkey enrollment token'
+          );
+        }),
+        { numRuns: 20 }
+      );
+    });
+
+    it('should only allow an enrollment token to be used once', async () => {
+      const token = await passkeyService.createEnrollmentToken({ customerId: 'customer-1', userName: 'test@example.com' });
+      await passkeyService.generateRegistrationOptions(token);
+      await passkeyService.verifyRegistration(token, registrationResponse('credential-1'));
+
+      await expect(
+        passkeyService.verifyRegistration(token, registrationResponse('credential-1'))
+      ).rejects.toThrow('Invalid or expired passkey enrollment token');
+    });
+
+    it('should not store the credential when verification fails', async () => {
+      mockedVerifyRegistrationResponse.mockResolvedValueOnce({ verified: false });
+
+      const token = await passkeyService.createEnrollmentToken({ customerId: 'customer-1', userName: 'test@example.com' });
+      await passkeyService.generateRegistrationOptions(token);
+
+      await expect(
+        passkeyService.verifyRegistration(token, registrationResponse('credential-1'))
+      ).rejects.toThrow('Passkey registration could not be verified');
+      expect(await passkeyService.getCredentials('customer-1')).toHaveLength(0);
+    });
+  });
+
+  describe('authentication', () => {
+    it('should resolve the customer ID and update the signature counter', async () => {
+      await registerPasskey('customer-1');
+
+      const { challengeId } = await passkeyService.generateAuthenticationOptions();
+      const customerId = await passkeyService.verifyAuthentication(challengeId, authenticationResponse('credential-1'));
+
+      expect(customerId).toBe('customer-1');
+      expect(mockedVerifyAuthenticationResponse).toHaveBeenCalledWith(
+        expect.objectContaining({ expectedChallenge: 'auth-challenge' })
+      );
+
+      const [credential] = await passkeyService.getCredentials('customer-1');
+      expect(credential.counter).toBe(1);
+      expect(credential.lastUsedAt).toBeDefined();
+    });
+
+    it('should only allow a challenge to be answered once', async () => {
+      await registerPasskey('customer-1');
+
+      const { challengeId } = await passkeyService.generateAuthenticationOptions();
+      await passkeyService.verifyAuthentication(challengeId, authenticationResponse('credential-1'));
+
+      await expect(
+        passkeyService.verifyAuthentication(challengeId, authenticationResponse('credential-1'))
+      ).rejects.toThrow('Invalid or expired passkey challenge');
+    });
+
+    it('should reject credentials that are not registered', async () => {
+      const { challengeId } = await passkeyService.generateAuthenticationOptions();
+
+      await expect(
+        passkeyService.verifyAuthentication(challengeId, authenticationResponse('unknown'))
+      ).rejects.toThrow('Passkey is not registered');
+      expect(mockedVerifyAuthenticationResponse).not.toHaveBeenCalled();
+    });
+
+    it('should reject a deleted credential', async () => {
+      await registerPasskey('customer-1');
+      await passkeyService.deleteCredential('customer-1', 'credential-1');
+
+      const { challengeId } = await passkeyService.generateAuthenticationOptions();
+
+      await expect(
+        passkeyService.verifyAuthentication(challengeId, authenticationResponse('credential-1'))
+      ).rejects.toThrow('Passkey is not registered');
+    });
+
+    it('should not delete a credential registered to another customer', async () => {
+      await registerPasskey('customer-1');
+
+      expect(await passkeyService.deleteCredential('customer-2', 'credential-1')).toBe(false);
+      expect(await passkeyService.getCredentials('customer-1')).toHaveLength(1);
+
+      const { challengeId } = await passkeyService.generateAuthenticationOptions();
+      await expect(
+        passkeyService.verifyAuthentication(challengeId, authenticationResponse('credential-1'))
+      ).resolves.toBe('customer-1');
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for PasswordService
+ * Covers hash storage, verification and failed-attempt lockout
+ */
+
+import Redis from 'ioredis-mock';
+import { PasswordService } from '../PasswordService.js';
+
+jest.mock('../../config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+const passwordConfig = {
+  saltRounds: 4,
+  maxAttempts: 3,
+  blockDurationSeconds: 900,
+  resetTokenTtlSeconds: 1800
+};
+
+describe('PasswordService', () => {
+  let redis: Redis;
+  let passwordService: PasswordService;
+
+  beforeEach(() => {
+    redis = new Redis();
+    passwordService = new PasswordService(redis as any, passwordConfig);
+  });
+
+  afterEach(async () => {
+    await redis.flushall();
+    redis.disconnect();
+  });
+
+  it('should store a bcrypt hash rather than the password', async () => {
+    await passwordService.setPassword('test@example.com', 'SecurePassword123!');
+
+    const stored = await redis.get('email:password:test@example.com');
+    expect(stored).not.toBe('SecurePassword123!');
+    expect(stored).toMatch(/^\$2[aby]\$/);
+  });
+
+  it('should verify the stored password regardless of email case', async () => {
+    await passwordService.setPassword('Test@Example.com', 'SecurePassword123!');
+
+    expect(await passwordService.hasPassword('test@example.com')).toBe(true);
+    expect(await passwordService.verifyPassword(' test@example.COM ', 'SecurePassword123!')).toEqual({ status: 'valid' });
+  });
+
+  it('should report not_set without counting an attempt when no hash is stored', async () => {
+    for (let i = 0; i < passwordConfig.maxAttempts + 1; i++) {
+      expect(await passwordService.verifyPassword('legacy@example.com', 'anything')).toEqual({ status: 'not_set' });
+    }
+
+    expect(await passwordService.isBlocked('legacy@example.com')).toBe(false);
+  });
+
+  it('should lock the account once the attempt limit is reached', async () => {
+    await passwordService.setPassword('test@example.com', 'SecurePassword123!');
+
+    expect((await passwordService.verifyPassword('test@example.com', 'wrong')).status).toBe('invalid');
+    expect((await passwordService.verifyPassword('test@example.com', 'wrong')).status).toBe('invalid');
+    expect(await passwordService.verifyPassword('test@example.com', 'wrong')).toEqual({
+      status: 'blocked',
+      retryAfter: passwordConfig.blockDurationSeconds
+    });
+
+    const result = await passwordService.verifyPassword('test@example.com', 'SecurePassword123!');
+    expect(result.status).toBe('blocked');
+    expect(result.retryAfter).toBeGreaterThan(0);
+  });
+
+  it('should reset the attempt counter after a successful login', async () => {
+    await passwordService.setPassword('test@example.com', 'SecurePassword123!');
+
+    await passwordService.verifyPassword('test@example.com', 'wrong');
+    await passwordService.verifyPassword('test@example.com', 'wrong');
+    await passwordService.verifyPassword('test@example.com', 'SecurePassword123!');
+
+    expect((await passwordService.verifyPassword('test@example.com', 'wrong')).status).toBe('invalid');
+    expect(await passwordService.isBlocked('test@example.com')).toBe(false);
+  });
+
+  it('should resolve a reset token to its email exactly once', async () => {
+    const token = await passwordService.createResetToken('Test@Example.com');
+
+    expect(await passwordService.consumeResetToken(token)).toBe('test@example.com');
+    expect(await passwordService.consumeResetToken(token)).toBeNull();
+  });
+
+  it('should let only one of several concurrent requests redeem a reset token', async () => {
+    const token = await passwordService.createResetToken('test@example.com');
+
+    const results = await Promise.all([
+      passwordService.consumeResetToken(token),
+      passwordService.consumeResetToken(token),
+      passwordService.consumeResetToken(token)
+    ]);
+
+    expect(results.filter(email => email !== null)).toEqual(['test@example.com']);
+  });
+
+  it('should expire reset tokens after the configured TTL', async () => {
+    const token = await passwordService.createResetToken('test@example.com');
+
+    expect(await redis.ttl(`password:reset:${token}`)).toBe(passwordConfig.resetTokenTtlSeconds);
+  });
+});
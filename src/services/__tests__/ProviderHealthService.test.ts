@@ -0,0 +1,105 @@
+/**
+ * Tests for ProviderHealthService
+ * Tests failure rate tracking and the open/half-open/closed circuit
+ */
+
+import Redis from 'ioredis-mock';
+import { ProviderHealthService } from '../ProviderHealthService.js';
+
+jest.mock('../../config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+describe('ProviderHealthService', () => {
+  let redis: Redis;
+  let health: ProviderHealthService;
+
+  beforeEach(() => {
+    redis = new Redis();
+    health = new ProviderHealthService(redis, {
+      windowSize: 10,
+      minimumRequests: 4,
+      failureRateThreshold: 0.5,
+      openDurationSeconds: 60
+    });
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await redis.flushall();
+    redis.disconnect();
+  });
+
+  async function failTimes(provider: string, times: number): Promise<void> {
+    for (let i = 0; i < times; i++) {
+      await health.recordFailure(provider, 100);
+    }
+  }
+
+  it('should track failure rate and average latency', async () => {
+    await health.recordSuccess('twilio', 100);
+    await health.recordFailure('twilio', 300);
+
+    const result = await health.getHealth('twilio');
+
+    expect(result.state).toBe('closed');
+    expect(result.failureRate).toBe(0.5);
+    expect(result.averageLatencyMs).toBe(200);
+    expect(result.sampleSize).toBe(2);
+  });
+
+  it('should not open the circuit before the minimum number of sends', async () => {
+    await failTimes('twilio', 3);
+
+    expect(await health.getState('twilio')).toBe('closed');
+    expect(await health.canAttempt('twilio')).toBe(true);
+  });
+
+  it('should open the circuit and notify listeners when the failure rate is too high', async () => {
+    const listener = jest.fn();
+    health.onStateChange(listener);
+
+    await failTimes('twilio', 4);
+
+    expect(await health.getState('twilio')).toBe('open');
+    expect(await health.canAttempt('twilio')).toBe(false);
+    expect(listener).toHaveBeenCalledWith('twilio', 'open', expect.objectContaining({ failureRate: 1 }));
+  });
+
+  it('should allow a single trial send once the open duration has passed', async () => {
+    await failTimes('twilio', 4);
+
+    jest.useFakeTimers({ now: Date.now() + 61_000, doNotFake: ['nextTick', 'setImmediate'] });
+
+    expect(await health.getState('twilio')).toBe('half_open');
+    expect(await health.canAttempt('twilio')).toBe(true);
+    expect(await health.canAttempt('twilio')).toBe(false);
+  });
+
+  it('should close the circuit when the trial send succeeds', async () => {
+    const listener = jest.fn();
+    health.onStateChange(listener);
+    await failTimes('twilio', 4);
+
+    jest.useFakeTimers({ now: Date.now() + 61_000, doNotFake: ['nextTick', 'setImmediate'] });
+    await health.canAttempt('twilio');
+    await health.recordSuccess('twilio', 100);
+
+    expect(await health.getState('twilio')).toBe('closed');
+    expect(listener).toHaveBeenLastCalledWith('twilio', 'closed', expect.anything());
+  });
+
+  it('should re-open the circuit when the trial send fails', async () => {
+    await failTimes('twilio', 4);
+
+    jest.useFakeTimers({ now: Date.now() + 61_000, doNotFake: ['nextTick', 'setImmediate'] });
+    await health.canAttempt('twilio');
+    await health.recordFailure('twilio', 100);
+
+    expect(await health.getState('twilio')).toBe('open');
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Tests for SMSFraudService
+ * Tests country lists, per-range velocity limits and blocking on low verify ratios
+ */
+
+import Redis from 'ioredis-mock';
+import { parseCountryPrefixes, SMSFraudService } from '../SMSFraudService.js';
+
+jest.mock('../../config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+describe('SMSFraudService', () => {
+  let redis: Redis;
+  let fraud: SMSFraudService;
+
+  beforeEach(() => {
+    redis = new Redis();
+    fraud = new SMSFraudService(redis, {
+      enabled: true,
+      windowSeconds: 3600,
+      maxSendsPerPrefix: 10,
+      minSendsForRatio: 5,
+      minVerifyRatio: 0.2,
+      blockDurationSeconds: 600,
+      logOnly: false,
+      allowlist: [],
+      denylist: []
+    });
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await redis.flushall();
+    redis.disconnect();
+  });
+
+  async function sendTimes(phone: string, times: number): Promise<void> {
+    for (let i = 0; i < times; i++) {
+      await fraud.recordSend(phone);
+    }
+  }
+
+  describe('parseCountryPrefixes', () => {
+    it('should read a comma-separated list', () => {
+      expect(parseCountryPrefixes('+44, +1,+353')).toEqual(['+44', '+1', '+353']);
+    });
+
+    it('should ignore an invalid list', () => {
+      expect(parseCountryPrefixes('+44,UK')).toEqual([]);
+    });
+  });
+
+  it('should allow sends to unremarkable numbers', async () => {
+    expect(await fraud.checkSend('+447700900000')).toEqual({ allowed: true, prefix: '+44770' });
+  });
+
+  it('should refuse numbers on the denylist', async () => {
+    fraud = new SMSFraudService(redis, { enabled: true, allowlist: [], denylist: ['+234'] });
+
+    const result = await fraud.checkSend('+2348012345678');
+
+    expect(result).toEqual({ allowed: false, reason: 'country_not_allowed', prefix: '+234' });
+  });
+
+  it('should only allow numbers on the allowlist when one is set', async () => {
+    fraud = new SMSFraudService(redis, { enabled: true, allowlist: ['+44', '+1'], denylist: [] });
+
+    expect((await fraud.checkSend('+447700900000')).allowed).toBe(true);
+    expect((await fraud.checkSend('+2348012345678')).reason).toBe('country_not_allowed');
+  });
+
+  it('should block a number range whose codes are rarely verified', async () => {
+    const listener = jest.fn();
+    fraud.onPrefixBlocked(listener);
+
+    await sendTimes('+2348012345678', 4);
+    expect((await fraud.checkSend('+2348012345679')).allowed).toBe(true);
+
+    await sendTimes('+2348012345679', 1);
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+      prefix: '+234801',
+      reason: 'low_verify_ratio',
+      sent: 5,
+      verified: 0
+    }));
+
+    // Every number in the range is refused until the block expires, the rest of the country is not
+    expect(await fraud.checkSend('+2348019999999')).toEqual({
+      allowed: false,
+      reason: 'prefix_blocked',
+      prefix: '+234801',
+      retryAfter: 600
+    });
+    expect((await fraud.checkSend('+2349099999999')).allowed).toBe(true);
+    expect((await fraud.checkSend('+447700900000')).allowed).toBe(true);
+  });
+
+  it('should not block a number range whose codes are verified', async () => {
+    for (let i = 0; i < 8; i++) {
+      expect((await fraud.checkSend('+447700900000')).allowed).toBe(true);
+      await fraud.recordSend('+447700900000');
+      await fraud.recordVerification('+447700900000');
+    }
+  });
+
+  it('should block a number range that exceeds its send limit', async () => {
+    for (let i = 0; i < 11; i++) {
+      await fraud.recordSend('+447700900000');
+      await fraud.recordVerification('+447700900000');
+    }
+
+    expect(await fraud.getBlockedPrefixes()).toEqual([
+      expect.objectContaining({ prefix: '+44770', reason: 'prefix_velocity' })
+    ]);
+    expect((await fraud.checkSend('+447700900000')).reason).toBe('prefix_blocked');
+  });
+
+  it('should not count checks as sends', async () => {
+    for (let i = 0; i < 20; i++) {
+      await fraud.checkSend('+2348012345678');
+    }
+
+    expect(await fraud.getBlockedPrefixes()).toEqual([]);
+    expect(await redis.keys('sms:fraud:counts:*')).toEqual([]);
+  });
+
+  it('should only log blocks in log-only mode', async () => {
+    const listener = jest.fn();
+    fraud = new SMSFraudService(redis, {
+      enabled: true,
+      maxSendsPerPrefix: 10,
+      minSendsForRatio: 5,
+      minVerifyRatio: 0.2,
+      logOnly: true,
+      allowlist: [],
+      denylist: ['+7']
+    });
+    fraud.onPrefixBlocked(listener);
+
+    await sendTimes('+2348012345678', 5);
+
+    expect(await fraud.getBlockedPrefixes()).toEqual([]);
+    expect(listener).not.toHaveBeenCalled();
+    expect((await fraud.checkSend('+2348012345678')).allowed).toBe(true);
+    // The country lists are set on purpose, so they still apply
+    expect((await fraud.checkSend('+79161234567')).reason).toBe('country_not_allowed');
+  });
+
+  it('should lift a block once it expires', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    await sendTimes('+2348012345678', 5);
+
+    expect(await fraud.getBlockedPrefixes()).toHaveLength(1);
+
+    jest.advanceTimersByTime(601 * 1000);
+
+    expect(await fraud.getBlockedPrefixes()).toEqual([]);
+  });
+
+  it('should lift a block early and reset the counters', async () => {
+    await sendTimes('+2348012345678', 5);
+
+    await fraud.unblockPrefix('+234801');
+
+    expect(await fraud.getBlockedPrefixes()).toEqual([]);
+    expect((await fraud.checkSend('+2348012345678')).allowed).toBe(true);
+  });
+
+  it('should keep counters apart per scope', async () => {
+    const otherShop = new SMSFraudService(redis, {
+      enabled: true,
+      maxSendsPerPrefix: 10,
+      minSendsForRatio: 5,
+      minVerifyRatio: 0.2,
+      logOnly: false,
+      allowlist: [],
+      denylist: [],
+      scope: 'other-shop.myshopify.com'
+    });
+
+    await sendTimes('+2348012345678', 5);
+
+    expect((await otherShop.checkSend('+2348012345678')).allowed).toBe(true);
+  });
+
+  it('should allow everything when disabled', async () => {
+    fraud = new SMSFraudService(redis, { enabled: false, denylist: ['+234'] });
+
+    expect((await fraud.checkSend('+2348012345678')).allowed).toBe(true);
+  });
+});
@@ -4,24 +4,33 @@
  */
 
 import Redis from 'ioredis-mock';
-import { ISMSProvider, SendSMSParams, SendSMSResult } from '../../providers/ISMSProvider.js';
-import { SMSService } from '../SMSService.js';
+import { config } from '../../config/index.js';
+import { ISMSProvider, MessageChannel, SendSMSParams, SendSMSResult } from '../../providers/ISMSProvider.js';
+import { IVoiceProvider, VoiceCallParams } from '../../providers/IVoiceProvider.js';
+import { OTPService } from '../OTPService.js';
+import { ProviderHealthService } from '../ProviderHealthService.js';
+import { parseSMSRoutingRules, SMSService } from '../SMSService.js';
 
 // Mock SMS Provider for testing
 class MockSMSProvider implements ISMSProvider {
   readonly name: string;
   readonly priority: number;
+  readonly channel: MessageChannel;
   private shouldFail: boolean;
   public callCount: number = 0;
+  public lastParams?: SendSMSParams;
+  public lastMessageId?: string;
 
-  constructor(name: string, priority: number, shouldFail: boolean = false) {
+  constructor(name: string, priority: number, shouldFail: boolean = false, channel: MessageChannel = 'sms') {
     this.name = name;
     this.priority = priority;
     this.shouldFail = shouldFail;
+    this.channel = channel;
   }
 
   async sendSMS(params: SendSMSParams): Promise<SendSMSResult> {
     this.callCount++;
+    this.lastParams = params;
 
     if (this.shouldFail) {
       return {
@@ -32,9 +41,10 @@ class MockSMSProvider implements ISMSProvider {
       };
     }
 
+    this.lastMessageId = `msg_${this.name}_${Date.now()}_${this.callCount}`;
     return {
       success: true,
-      messageId: `msg_${this.name}_${Date.now()}`,
+      messageId: this.lastMessageId,
       provider: this.name
     };
   }
@@ -50,7 +60,7 @@ class MockSMSProvider implements ISMSProvider {
   handleWebhook(payload: any) {
     return {
       messageId: payload.messageId,
-      status: 'delivered' as const
+      status: payload.status === 'UNDELIVERED' ? 'failed' as const : 'delivered' as const
     };
   }
 
@@ -63,6 +73,20 @@ class MockSMSProvider implements ISMSProvider {
   }
 }
 
+// Mock provider that can also place voice calls
+class MockVoiceProvider extends MockSMSProvider implements IVoiceProvider {
+  public calls: VoiceCallParams[] = [];
+
+  async makeCall(params: VoiceCallParams): Promise<SendSMSResult> {
+    this.calls.push(params);
+    return {
+      success: true,
+      messageId: `call_${this.name}_${Date.now()}`,
+      provider: this.name
+    };
+  }
+}
+
 describe('SMSService - Multi-Provider Tests', () => {
   let redis: Redis;
   let smsToProvider: MockSMSProvider;
@@ -317,4 +341,340 @@ describe('SMSService - Multi-Provider Tests', () => {
       expect(provider3.callCount).toBe(1);
     });
   });
+
+  describe('Cross-Channel Fallback', () => {
+    let whatsAppProvider: MockSMSProvider;
+    let channelService: SMSService;
+
+    beforeEach(() => {
+      whatsAppProvider = new MockSMSProvider('whatsapp', 3, false, 'whatsapp');
+      channelService = new SMSService([smsToProvider, twilioProvider, whatsAppProvider], redis);
+    });
+
+    it('should try the preferred channel before higher priority providers', async () => {
+      const result = await channelService.sendSMS({
+        to: '+1234567890',
+        message: 'Your verification code is: 123456',
+        code: '123456',
+        channel: 'whatsapp'
+      });
+
+      expect(result.provider).toBe('whatsapp');
+      expect(smsToProvider.callCount).toBe(0);
+
+      const tracking = await channelService.getDeliveryStatus(result.messageId);
+      expect(tracking?.channel).toBe('whatsapp');
+    });
+
+    it('should fall back to SMS when the WhatsApp channel fails', async () => {
+      whatsAppProvider.setFailure(true);
+
+      const result = await channelService.sendSMS({
+        to: '+1234567890',
+        message: 'Your verification code is: 123456',
+        code: '123456',
+        channel: 'whatsapp'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.provider).toBe('sms.to');
+      expect(whatsAppProvider.callCount).toBe(1);
+    });
+
+    it('should fall back to WhatsApp when every SMS provider fails', async () => {
+      smsToProvider.setFailure(true);
+      twilioProvider.setFailure(true);
+
+      const result = await channelService.sendSMS({
+        to: '+1234567890',
+        message: 'Your verification code is: 123456',
+        code: '123456'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.provider).toBe('whatsapp');
+    });
+
+    it('should never send messages without a code over WhatsApp', async () => {
+      smsToProvider.setFailure(true);
+      twilioProvider.setFailure(true);
+
+      const result = await channelService.sendSMS({
+        to: '+1234567890',
+        message: 'Your order has shipped',
+        channel: 'whatsapp'
+      });
+
+      expect(result.success).toBe(false);
+      expect(whatsAppProvider.callCount).toBe(0);
+    });
+  });
+
+  describe('Country Routing', () => {
+    const params: SendSMSParams = {
+      to: '+447700900123',
+      message: 'Your verification code is: 123456'
+    };
+
+    it('should try the country\'s providers first', async () => {
+      smsService.setRoutingRules([{ prefix: '+44', providers: ['twilio'] }]);
+
+      const result = await smsService.sendSMS(params);
+
+      expect(result.provider).toBe('twilio');
+      expect(smsToProvider.callCount).toBe(0);
+    });
+
+    it('should fall back to unlisted providers when the routed provider fails', async () => {
+      smsService.setRoutingRules([{ prefix: '+44', providers: ['twilio'] }]);
+      twilioProvider.setFailure(true);
+
+      const result = await smsService.sendSMS(params);
+
+      expect(result.provider).toBe('sms.to');
+      expect(twilioProvider.callCount).toBe(1);
+    });
+
+    it('should use the longest matching prefix', async () => {
+      smsService.setRoutingRules([
+        { prefix: '+1', providers: ['twilio'] },
+        { prefix: '+1264', providers: ['sms.to'], senderId: 'AXA' }
+      ]);
+
+      const result = await smsService.sendSMS({ ...params, to: '+12645551234' });
+
+      expect(result.provider).toBe('sms.to');
+      expect(smsToProvider.lastParams?.from).toBe('AXA');
+    });
+
+    it('should send from the country\'s sender ID', async () => {
+      smsService.setRoutingRules([{ prefix: '+44', senderId: 'MyShop' }]);
+
+      await smsService.sendSMS(params);
+
+      expect(smsToProvider.lastParams?.from).toBe('MyShop');
+    });
+
+    it('should refuse to send to a disabled country', async () => {
+      smsService.setRoutingRules([{ prefix: '+44', disabled: true }]);
+
+      const result = await smsService.sendWithRotation(params);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('SMS is not available for this country');
+      expect(smsToProvider.callCount + twilioProvider.callCount).toBe(0);
+    });
+
+    it('should rotate within the country\'s provider order', async () => {
+      const provider3 = new MockSMSProvider('provider-3', 3, false);
+      const service = new SMSService([smsToProvider, twilioProvider, provider3], redis, [
+        { prefix: '+44', providers: ['provider-3', 'twilio'] }
+      ]);
+
+      const result = await service.sendWithRotation(params, 'provider-3');
+
+      expect(result.provider).toBe('twilio');
+    });
+
+    it('should ignore an invalid stored routing table', () => {
+      expect(parseSMSRoutingRules('[{"prefix":"44"}]')).toEqual([]);
+      expect(parseSMSRoutingRules('[{"prefix":"+44","disabled":true}]')).toEqual([{ prefix: '+44', disabled: true }]);
+    });
+  });
+
+  describe('Circuit Breaker', () => {
+    const params: SendSMSParams = {
+      to: '+1234567890',
+      message: 'Your verification code is: 123456'
+    };
+
+    let health: ProviderHealthService;
+    let breakerService: SMSService;
+
+    beforeEach(() => {
+      health = new ProviderHealthService(redis, { minimumRequests: 2, failureRateThreshold: 0.5 });
+      breakerService = new SMSService([smsToProvider, twilioProvider], redis, [], health);
+    });
+
+    it('should skip a provider once its circuit opens', async () => {
+      smsToProvider.setFailure(true);
+
+      await breakerService.sendSMS(params);
+      await breakerService.sendSMS(params);
+      expect(await health.getState('sms.to')).toBe('open');
+
+      smsToProvider.resetCallCount();
+      const result = await breakerService.sendSMS(params);
+
+      expect(result.provider).toBe('twilio');
+      expect(smsToProvider.callCount).toBe(0);
+    });
+
+    it('should still try providers when every circuit is open', async () => {
+      smsToProvider.setFailure(true);
+      twilioProvider.setFailure(true);
+      await breakerService.sendSMS(params);
+      await breakerService.sendSMS(params);
+
+      smsToProvider.setFailure(false);
+      const result = await breakerService.sendSMS(params);
+
+      expect(result.success).toBe(true);
+      expect(result.provider).toBe('sms.to');
+    });
+  });
+
+  describe('Delivery Receipt Re-send', () => {
+    const params: SendSMSParams = {
+      to: '+1234567890',
+      message: 'Your verification code is: 123456',
+      code: '123456'
+    };
+
+    let otpService: OTPService;
+
+    beforeEach(async () => {
+      config.sms.deliveryReceipts.resendEnabled = true;
+      // Codes are stored before their SMS is queued
+      otpService = new OTPService(redis);
+      await otpService.storeOTP(params.to, params.code!);
+    });
+
+    afterEach(() => {
+      config.sms.deliveryReceipts.resendEnabled = false;
+    });
+
+    it('should re-send the same OTP through the next provider when the receipt reports failure', async () => {
+      const first = await smsService.sendSMS(params);
+
+      await smsService.updateDeliveryStatus(first.messageId, 'failed');
+
+      expect(twilioProvider.callCount).toBe(1);
+      expect(twilioProvider.lastParams?.message).toBe(params.message);
+    });
+
+    it('should not re-send a delivered message', async () => {
+      const first = await smsService.sendSMS(params);
+
+      await smsService.updateDeliveryStatus(first.messageId, 'delivered');
+      const resent = await smsService.sweepUndeliveredMessages(Date.now() + 3600_000);
+
+      expect(resent).toBe(0);
+      expect(twilioProvider.callCount).toBe(0);
+    });
+
+    it('should re-send when no receipt arrives within the window', async () => {
+      await smsService.sendSMS(params);
+
+      expect(await smsService.sweepUndeliveredMessages()).toBe(0);
+
+      const overdue = Date.now() + (config.sms.deliveryReceipts.timeoutSeconds + 1) * 1000;
+      expect(await smsService.sweepUndeliveredMessages(overdue)).toBe(1);
+      expect(twilioProvider.callCount).toBe(1);
+    });
+
+    it('should stop after the maximum number of re-sends', async () => {
+      const first = await smsService.sendSMS(params);
+      await smsService.updateDeliveryStatus(first.messageId, 'failed');
+
+      await smsService.updateDeliveryStatus(twilioProvider.lastMessageId!, 'failed');
+
+      expect(smsToProvider.callCount).toBe(1);
+      expect(twilioProvider.callCount).toBe(1);
+    });
+
+    it('should not re-send a code the customer has already entered', async () => {
+      await smsService.sendSMS(params);
+      await otpService.verifyOTP(params.to, params.code!);
+
+      const overdue = Date.now() + (config.sms.deliveryReceipts.timeoutSeconds + 1) * 1000;
+      expect(await smsService.sweepUndeliveredMessages(overdue)).toBe(0);
+      expect(twilioProvider.callCount).toBe(0);
+    });
+
+    it('should not re-send an expired code or one replaced by a newer code', async () => {
+      const first = await smsService.sendSMS(params);
+      await otpService.storeOTP(params.to, '654321');
+      await smsService.updateDeliveryStatus(first.messageId, 'failed');
+
+      await smsService.sendSMS(params);
+      await otpService.deleteOTP(params.to);
+      const overdue = Date.now() + (config.sms.deliveryReceipts.timeoutSeconds + 1) * 1000;
+      expect(await smsService.sweepUndeliveredMessages(overdue)).toBe(0);
+
+      expect(twilioProvider.callCount).toBe(0);
+    });
+
+    it('should name the sending provider in the receipt callback', async () => {
+      await smsService.sendSMS({ ...params, callbackUrl: 'https://app.example.com/api/webhooks/sms-dlr' });
+
+      expect(smsToProvider.lastParams?.callbackUrl).toBe('https://app.example.com/api/webhooks/sms-dlr?provider=sms.to');
+    });
+
+    it('should re-send when the provider\'s own failure status arrives at the webhook', async () => {
+      const first = await smsService.sendSMS(params);
+
+      const receipt = await smsService.handleDeliveryReceipt('sms.to', { messageId: first.messageId, status: 'UNDELIVERED' });
+
+      expect(receipt?.status).toBe('failed');
+      expect(twilioProvider.callCount).toBe(1);
+    });
+
+    it('should read a receipt that doesn\'t name its provider with the provider that sent the message', async () => {
+      smsToProvider.setFailure(true);
+      const first = await smsService.sendSMS(params);
+      smsToProvider.setFailure(false);
+      smsToProvider.resetCallCount();
+
+      const receipt = await smsService.handleDeliveryReceipt(undefined, { messageId: first.messageId, status: 'UNDELIVERED' });
+
+      expect(receipt).toEqual({ messageId: first.messageId, status: 'failed' });
+      expect(smsToProvider.callCount).toBe(1);
+    });
+
+    it('should ignore receipts no configured provider can read', async () => {
+      const first = await smsService.sendSMS(params);
+
+      expect(await smsService.handleDeliveryReceipt('plivo', { messageId: first.messageId })).toBeNull();
+      expect(await smsService.handleDeliveryReceipt(undefined, { messageId: 'unknown' })).toBeNull();
+    });
+
+    it('should only wait on receipts for one-time codes', async () => {
+      await smsService.sendSMS({ to: params.to, message: 'Your order has shipped' });
+
+      const overdue = Date.now() + 3600_000;
+      expect(await smsService.sweepUndeliveredMessages(overdue)).toBe(0);
+    });
+  });
+
+  describe('Voice Calls', () => {
+    it('should only place calls through voice-capable providers', async () => {
+      const voiceProvider = new MockVoiceProvider('twilio', 2);
+      const voiceService = new SMSService([smsToProvider, voiceProvider], redis);
+
+      const result = await voiceService.sendVoiceCall({
+        to: '+1234567890',
+        message: 'Your verification code is 1, 2, 3, 4, 5, 6',
+        language: 'en'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.provider).toBe('twilio');
+      expect(voiceProvider.calls).toHaveLength(1);
+      expect(smsToProvider.callCount).toBe(0);
+
+      const tracking = await voiceService.getDeliveryStatus(result.messageId);
+      expect(tracking?.channel).toBe('voice');
+    });
+
+    it('should fail when no provider can place calls', async () => {
+      const result = await smsService.sendVoiceCall({
+        to: '+1234567890',
+        message: 'Your verification code is 1, 2, 3, 4, 5, 6'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('No voice providers configured');
+    });
+  });
 });
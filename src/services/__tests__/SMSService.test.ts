@@ -96,6 +96,9 @@ describe('SMSService Property-Based Tests', () => {
           fc.string({ minLength: 10, maxLength: 15 }).filter(s => s.trim().length > 0),
           fc.string({ minLength: 10, maxLength: 100 }),
           async (phone, message) => {
+            // Each run starts with every provider's circuit closed
+            await redis.flushall();
+
             // Create providers: primary fails, secondary succeeds
             const primaryProvider = new MockSMSProvider('primary', 1, true);
             const secondaryProvider = new MockSMSProvider('secondary', 2, false);
@@ -129,6 +132,9 @@ describe('SMSService Property-Based Tests', () => {
           fc.string({ minLength: 10, maxLength: 100 }),
           fc.integer({ min: 2, max: 5 }),
           async (phone, message, numProviders) => {
+            // Each run starts with every provider's circuit closed
+            await redis.flushall();
+
             // Create multiple failing providers and one succeeding provider
             const providers: MockSMSProvider[] = [];
 
@@ -170,6 +176,9 @@ describe('SMSService Property-Based Tests', () => {
           fc.string({ minLength: 10, maxLength: 100 }),
           fc.integer({ min: 1, max: 4 }),
           async (phone, message, numProviders) => {
+            // Each run starts with every provider's circuit closed
+            await redis.flushall();
+
             // Create multiple failing providers
             const providers: MockSMSProvider[] = [];
 
@@ -206,6 +215,9 @@ describe('SMSService Property-Based Tests', () => {
           fc.string({ minLength: 10, maxLength: 15 }).filter(s => s.trim().length > 0),
           fc.string({ minLength: 10, maxLength: 100 }),
           async (phone, message) => {
+            // Each run starts with every provider's circuit closed
+            await redis.flushall();
+
             // Create providers with different priorities (lower number = higher priority)
             const lowPriorityProvider = new MockSMSProvider('low-priority', 3, true);
             const highPriorityProvider = new MockSMSProvider('high-priority', 1, true);
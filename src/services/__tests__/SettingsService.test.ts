@@ -300,6 +300,39 @@ describe('SettingsService Property Tests', () => {
       expect(settings.enabledMethods.google).toBe(false);
     });
 
+    it('should only require profile completion once the shop enables it', async () => {
+      expect(await settingsService.isProfileCompletionEnabled()).toBe(false);
+
+      await settingsService.saveSettings({
+        enabledMethods: { sms: true, email: false, google: false },
+        profileCompletion: { enabled: true },
+        uiCustomization: { primaryColor: '#000000', buttonStyle: 'rounded', logoUrl: '' },
+      });
+
+      expect(await settingsService.isProfileCompletionEnabled()).toBe(true);
+    });
+
+    it('should store the OTP policy and tell listeners about saved settings', async () => {
+      const listener = jest.fn();
+      settingsService.onSettingsSaved(listener);
+
+      const settings: AuthSettings = {
+        enabledMethods: { sms: true, email: false, google: false },
+        uiCustomization: { primaryColor: '#000000', buttonStyle: 'rounded', logoUrl: '' },
+        otpPolicy: { length: 8, alphabet: 'alphanumeric' },
+      };
+
+      await settingsService.saveSettings(settings);
+
+      expect(listener).toHaveBeenCalledWith(settings);
+      expect(await settingsService.getOTPPolicy()).toMatchObject({ length: 8, alphabet: 'alphanumeric' });
+
+      await expect(
+        settingsService.saveSettings({ ...settings, otpPolicy: { length: 20 } })
+      ).rejects.toThrow('OTP policy length must be a whole number between 4 and 10');
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
     it('should handle all methods enabled', async () => {
       const settings: AuthSettings = {
         enabledMethods: {
@@ -0,0 +1,124 @@
+/**
+ * Tests for TOTPService
+ * Covers RFC 6238 code generation, enrollment, replay protection and recovery codes
+ */
+
+import Redis from 'ioredis-mock';
+import { base32Decode, base32Encode, generateTOTP, TOTPService } from '../TOTPService.js';
+
+jest.mock('../../config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+// Code the customer's app shows, offset by whole time steps from now
+function codeAt(secret: string, offsetSteps: number = 0): string {
+  const counter = Math.floor(Date.now() / 1000 / 30) + offsetSteps;
+  return generateTOTP(base32Decode(secret), counter);
+}
+
+describe('TOTPService', () => {
+  let redis: Redis;
+  let totpService: TOTPService;
+
+  beforeEach(() => {
+    // Fix the clock mid-step so codes don't roll over during a test
+    jest.spyOn(Date, 'now').mockReturnValue(1700000010000);
+    redis = new Redis();
+    totpService = new TOTPService(redis as any, {
+      issuer: 'Test Store',
+      digits: 6,
+      periodSeconds: 30,
+      window: 1,
+      enrollmentTtlSeconds: 600,
+      recoveryCodeCount: 4
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await redis.flushall();
+    redis.disconnect();
+  });
+
+  it('should match the RFC 6238 SHA-1 test vectors', () => {
+    const secret = Buffer.from('12345678901234567890');
+    const vectors: Array<[number, string]> = [
+      [59, '94287082'],
+      [1111111109, '07081804'],
+      [1111111111, '14050471'],
+      [1234567890, '89005924'],
+      [2000000000, '69279037']
+    ];
+
+    for (const [time, expected] of vectors) {
+      expect(generateTOTP(secret, Math.floor(time / 30), 8)).toBe(expected);
+    }
+  });
+
+  it('should encode and decode base32 secrets', () => {
+    const secret = Buffer.from('12345678901234567890');
+
+    expect(base32Encode(secret)).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode('gezdgnbvgy3tqojqgezdgnbvgy3tqojq')).toEqual(secret);
+    expect(() => base32Decode('not base32!')).toThrow('Invalid base32 character');
+  });
+
+  it('should only enroll once the app returns a valid code', async () => {
+    const { secret, otpauthUrl } = await totpService.beginEnrollment('customer-1', 'shopper@example.com');
+
+    expect(otpauthUrl).toBe(
+      `otpauth://totp/Test%20Store%3Ashopper%40example.com?secret=${secret}&issuer=Test+Store&algorithm=SHA1&digits=6&period=30`
+    );
+    expect(await totpService.confirmEnrollment('customer-1', codeAt(secret, 5))).toBeNull();
+    expect(await totpService.isEnrolled('customer-1')).toBe(false);
+
+    const recoveryCodes = await totpService.confirmEnrollment('customer-1', codeAt(secret));
+
+    expect(recoveryCodes).toHaveLength(4);
+    expect(await totpService.isEnrolled('customer-1')).toBe(true);
+    expect(await totpService.hasPendingEnrollment('customer-1')).toBe(false);
+  });
+
+  it('should accept codes within the drift window once and reject replays', async () => {
+    const { secret } = await totpService.beginEnrollment('customer-1', 'shopper@example.com');
+    await totpService.confirmEnrollment('customer-1', codeAt(secret, -1));
+
+    // The enrollment code can't be used to sign in
+    expect(await totpService.verifyCode('customer-1', codeAt(secret, -1))).toBe(false);
+    expect(await totpService.verifyCode('customer-1', codeAt(secret, 3))).toBe(false);
+
+    expect(await totpService.verifyCode('customer-1', codeAt(secret))).toBe(true);
+    expect(await totpService.verifyCode('customer-1', codeAt(secret))).toBe(false);
+    expect(await totpService.verifyCode('customer-1', codeAt(secret, 1))).toBe(true);
+  });
+
+  it('should use each recovery code once and revoke them when replaced', async () => {
+    const { secret } = await totpService.beginEnrollment('customer-1', 'shopper@example.com');
+    const [first, second] = (await totpService.confirmEnrollment('customer-1', codeAt(secret)))!;
+
+    expect(first).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+    expect(await totpService.verifyCode('customer-1', first.toUpperCase())).toBe(true);
+    expect(await totpService.verifyCode('customer-1', first)).toBe(false);
+    expect(await totpService.getRemainingRecoveryCodes('customer-1')).toBe(3);
+
+    const replaced = await totpService.regenerateRecoveryCodes('customer-1');
+
+    expect(await totpService.verifyCode('customer-1', second)).toBe(false);
+    expect(await totpService.verifyCode('customer-1', replaced[0].replace('-', ''))).toBe(true);
+  });
+
+  it('should forget the secret and recovery codes when disabled', async () => {
+    const { secret } = await totpService.beginEnrollment('customer-1', 'shopper@example.com');
+    const [recoveryCode] = (await totpService.confirmEnrollment('customer-1', codeAt(secret)))!;
+
+    await totpService.disable('customer-1');
+
+    expect(await totpService.isEnrolled('customer-1')).toBe(false);
+    expect(await totpService.verifyCode('customer-1', codeAt(secret, 1))).toBe(false);
+    expect(await totpService.verifyCode('customer-1', recoveryCode)).toBe(false);
+  });
+});
@@ -0,0 +1,22 @@
+// Shared mock and fixture helpers for service tests
+import { ShopifyCustomer } from '../services/CustomerService.js';
+
+/**
+ * Typed mock of a service from just the members a test uses
+ * Members the test doesn't list are undefined, so calling them fails loudly
+ */
+export function createMock<T>(members: Partial<jest.Mocked<T>> = {}): jest.Mocked<T> {
+  return members as jest.Mocked<T>;
+}
+
+/**
+ * Shopify customer with sensible defaults, overridden per test
+ * Fields the test sets stay required in the returned type, so they can be passed on without checks
+ */
+export function buildCustomer<T extends Partial<ShopifyCustomer>>(overrides: T): ShopifyCustomer & T {
+  return {
+    id: 'cust-123',
+    created_at: new Date().toISOString(),
+    ...overrides
+  };
+}
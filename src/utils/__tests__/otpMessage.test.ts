@@ -0,0 +1,47 @@
+/**
+ * Tests for OTP message autofill formatting
+ */
+
+import { appendOTPAutofill, normalizeWebOTPDomain } from '../otpMessage.js';
+
+jest.mock('../../config/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn()
+  }
+}));
+
+describe('appendOTPAutofill', () => {
+  const message = 'Your verification code is: 123456. Valid for 5 minutes.';
+
+  it('should leave the message unchanged when autofill is off', () => {
+    expect(appendOTPAutofill(message, '123456', {})).toBe(message);
+  });
+
+  it('should end the message with the origin-bound WebOTP line', () => {
+    const result = appendOTPAutofill(message, '123456', { webOtpDomain: 'https://Shop.Example.com/account/login' });
+
+    expect(result).toBe(`${message}\n\n@shop.example.com #123456`);
+  });
+
+  it('should put the Android app hash before the WebOTP line', () => {
+    const result = appendOTPAutofill(message, '123456', {
+      webOtpDomain: 'shop.example.com',
+      androidAppHash: 'FA+9qCX9VSu'
+    });
+
+    expect(result.split('\n').slice(-2)).toEqual(['FA+9qCX9VSu', '@shop.example.com #123456']);
+  });
+
+  it('should skip an app hash that is not 11 base64 characters', () => {
+    expect(appendOTPAutofill(message, '123456', { androidAppHash: 'not-a-hash' })).toBe(message);
+  });
+});
+
+describe('normalizeWebOTPDomain', () => {
+  it('should strip the scheme, port and path', () => {
+    expect(normalizeWebOTPDomain(' http://localhost:3000/login ')).toBe('localhost');
+    expect(normalizeWebOTPDomain('my-store.myshopify.com')).toBe('my-store.myshopify.com');
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests for phone number parsing and normalization
+ */
+
+import { checkSignInPhoneNumber, getCountryCallingCode, getNumberRangePrefix, normalizePhoneNumber, parsePhoneNumber } from '../phoneNumber.js';
+
+describe('getCountryCallingCode', () => {
+  it('should read one, two and three digit calling codes', () => {
+    expect(getCountryCallingCode('+15555550100')).toBe('+1');
+    expect(getCountryCallingCode('+79161234567')).toBe('+7');
+    expect(getCountryCallingCode('+447400123456')).toBe('+44');
+    expect(getCountryCallingCode('+2348012345678')).toBe('+234');
+    expect(getCountryCallingCode('+88212345678')).toBe('+882');
+  });
+
+  it('should return null for malformed numbers', () => {
+    expect(getCountryCallingCode('+0123456')).toBeNull();
+    expect(getCountryCallingCode('not a number')).toBeNull();
+  });
+});
+
+describe('getNumberRangePrefix', () => {
+  it('should keep the calling code and the start of the national number', () => {
+    expect(getNumberRangePrefix('+14155550100')).toBe('+1415');
+    expect(getNumberRangePrefix('+44 7400 123456')).toBe('+44740');
+    expect(getNumberRangePrefix('+2348012345678')).toBe('+234801');
+  });
+
+  it('should return null for malformed numbers', () => {
+    expect(getNumberRangePrefix('not a number')).toBeNull();
+  });
+});
+
+describe('normalizePhoneNumber', () => {
+  it('should give one E.164 form for the ways a number is written', () => {
+    expect(normalizePhoneNumber('+447400123456')).toBe('+447400123456');
+    expect(normalizePhoneNumber('+44 7400 123456')).toBe('+447400123456');
+    expect(normalizePhoneNumber('+44 (0)7400 123456')).toBe('+447400123456');
+    expect(normalizePhoneNumber('+44 07400 123456')).toBe('+447400123456');
+    expect(normalizePhoneNumber('0044 7400-123456')).toBe('+447400123456');
+  });
+
+  it('should read national numbers using the default region', () => {
+    expect(normalizePhoneNumber('07400 123456', 'GB')).toBe('+447400123456');
+    expect(normalizePhoneNumber('(415) 555-0123', 'us')).toBe('+14155550123');
+    expect(normalizePhoneNumber('1 415 555 0123', 'US')).toBe('+14155550123');
+  });
+
+  it('should ignore the default region for international numbers', () => {
+    expect(normalizePhoneNumber('+33 6 12 34 56 78', 'GB')).toBe('+33612345678');
+  });
+
+  it('should reject national numbers without a known region', () => {
+    expect(normalizePhoneNumber('07400 123456')).toBeNull();
+    expect(normalizePhoneNumber('07400 123456', 'ZZ')).toBeNull();
+  });
+
+  it('should reject numbers that are invalid for their country', () => {
+    expect(normalizePhoneNumber('+44 1234')).toBeNull();
+    expect(normalizePhoneNumber('+1 055 555 0123')).toBeNull();
+    expect(normalizePhoneNumber('+44 7400 123456 ext. 2')).toBeNull();
+    expect(normalizePhoneNumber('call me')).toBeNull();
+  });
+});
+
+describe('parsePhoneNumber', () => {
+  it('should tell mobiles from landlines', () => {
+    expect(parsePhoneNumber('+447400123456')).toEqual({
+      e164: '+447400123456',
+      countryCallingCode: '+44',
+      nationalNumber: '7400123456',
+      region: 'GB',
+      type: 'mobile'
+    });
+    expect(parsePhoneNumber('020 7946 0000', 'GB')?.type).toBe('fixed_line');
+    expect(parsePhoneNumber('+33 1 23 45 67 89')?.type).toBe('fixed_line');
+    expect(parsePhoneNumber('+61 412 345 678')?.type).toBe('mobile');
+  });
+
+  it('should detect VoIP, toll-free and premium-rate numbers', () => {
+    expect(parsePhoneNumber('+44 56 1234 5678')?.type).toBe('voip');
+    expect(parsePhoneNumber('+1 800 555 0199')?.type).toBe('toll_free');
+    expect(parsePhoneNumber('+1 900 555 0123')?.type).toBe('premium_rate');
+  });
+
+  it('should not tell mobiles from landlines where they share ranges', () => {
+    expect(parsePhoneNumber('+14155550123')?.type).toBe('fixed_line_or_mobile');
+  });
+
+  it('should read numbers from countries beyond the most common ones', () => {
+    expect(parsePhoneNumber('+234 801 234 5678')).toEqual({
+      e164: '+2348012345678',
+      countryCallingCode: '+234',
+      nationalNumber: '8012345678',
+      region: 'NG',
+      type: 'mobile'
+    });
+    expect(parsePhoneNumber('+7 916 123 4567')?.region).toBe('RU');
+    expect(parsePhoneNumber('+234 80')).toBeNull();
+  });
+
+  it('should reject numbers outside the ranges assigned to operators', () => {
+    // Ofcom keeps 07700 900000-900999 for drama, so no phone is ever given one
+    expect(parsePhoneNumber('+44 7700 900000')).toBeNull();
+  });
+});
+
+describe('checkSignInPhoneNumber', () => {
+  it('should accept mobiles in E.164 form', () => {
+    expect(checkSignInPhoneNumber('07400 123456', { defaultRegion: 'GB' })).toEqual({
+      valid: true,
+      phone: '+447400123456',
+      type: 'mobile'
+    });
+  });
+
+  it('should refuse landlines and numbers that cannot receive codes', () => {
+    expect(checkSignInPhoneNumber('+44 20 7946 0000')).toEqual({
+      valid: false,
+      error: 'This looks like a landline number. Please enter a mobile number',
+      type: 'fixed_line'
+    });
+    expect(checkSignInPhoneNumber('+1 800 555 0199').valid).toBe(false);
+    expect(checkSignInPhoneNumber('+44 1234').valid).toBe(false);
+  });
+
+  it('should only refuse VoIP numbers when asked to', () => {
+    expect(checkSignInPhoneNumber('+44 56 1234 5678').valid).toBe(true);
+    expect(checkSignInPhoneNumber('+44 56 1234 5678', { rejectVoip: true }).valid).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Tests for SMS encoding and segment counting
+ */
+
+import { getSMSSegmentInfo } from '../smsSegments.js';
+
+describe('getSMSSegmentInfo', () => {
+  it('should fit a short GSM-7 message in one segment', () => {
+    expect(getSMSSegmentInfo('Your verification code is: 123456')).toEqual({
+      encoding: 'GSM-7',
+      length: 33,
+      segments: 1,
+      perSegment: 160,
+      remaining: 127,
+      nonGsmCharacters: []
+    });
+  });
+
+  it('should split GSM-7 messages over 160 characters into 153 character segments', () => {
+    expect(getSMSSegmentInfo('a'.repeat(160)).segments).toBe(1);
+
+    const info = getSMSSegmentInfo('a'.repeat(161));
+    expect(info.segments).toBe(2);
+    expect(info.perSegment).toBe(153);
+    expect(info.remaining).toBe(145);
+  });
+
+  it('should count extension characters twice', () => {
+    const info = getSMSSegmentInfo(`${'a'.repeat(159)}€`);
+
+    expect(info.encoding).toBe('GSM-7');
+    expect(info.length).toBe(161);
+    expect(info.segments).toBe(2);
+  });
+
+  it('should not split an extension character across segments', () => {
+    expect(getSMSSegmentInfo(`${'a'.repeat(152)}€${'a'.repeat(152)}`).segments).toBe(3);
+  });
+
+  it('should keep accented letters in the GSM-7 alphabet', () => {
+    expect(getSMSSegmentInfo('Vielen Dank für Ihre Bestellung! Nous vous informerons lors de l\'expédition.').encoding)
+      .toBe('GSM-7');
+  });
+
+  it('should switch to UCS-2 for a single character outside GSM-7', () => {
+    const info = getSMSSegmentInfo('Te notificaremos cuando se envíe. ¡Gracias, envíe!');
+
+    expect(info.encoding).toBe('UCS-2');
+    expect(info.perSegment).toBe(70);
+    expect(info.nonGsmCharacters).toEqual(['í']);
+  });
+
+  it('should split UCS-2 messages over 70 characters into 67 character segments', () => {
+    expect(getSMSSegmentInfo('í'.repeat(70)).segments).toBe(1);
+    expect(getSMSSegmentInfo('í'.repeat(71)).segments).toBe(2);
+    expect(getSMSSegmentInfo('í'.repeat(135)).segments).toBe(3);
+  });
+
+  it('should count characters outside the basic plane as two UCS-2 units', () => {
+    const info = getSMSSegmentInfo('Thanks 😀');
+
+    expect(info.length).toBe(9);
+    expect(info.nonGsmCharacters).toEqual(['😀']);
+  });
+
+  it('should count an empty message as no segments', () => {
+    expect(getSMSSegmentInfo('').segments).toBe(0);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * OTP Message Formatting
+ * Appends the lines that let browsers (WebOTP) and Android apps (SMS Retriever) read the code from the SMS
+ */
+
+import { logger } from '../config/logger.js';
+
+export interface OTPAutofillOptions {
+  // Storefront host the code is bound to; browsers only autofill on this origin
+  webOtpDomain?: string;
+  // 11-character hash identifying the Android app to the SMS Retriever API
+  androidAppHash?: string;
+}
+
+const ANDROID_APP_HASH_PATTERN = /^[A-Za-z0-9+/]{11}$/;
+
+/**
+ * Reduce a configured domain or URL to the bare host WebOTP expects
+ */
+export function normalizeWebOTPDomain(domain: string): string {
+  return domain.trim().replace(/^https?:\/\//i, '').split(/[/:]/)[0].toLowerCase();
+}
+
+/**
+ * Add autofill lines to an OTP message
+ * The origin-bound `@domain #code` line must be the last line of the SMS, so it goes after the app hash
+ */
+export function appendOTPAutofill(message: string, code: string, options: OTPAutofillOptions): string {
+  const lines: string[] = [];
+
+  if (options.androidAppHash) {
+    if (ANDROID_APP_HASH_PATTERN.test(options.androidAppHash)) {
+      lines.push(options.androidAppHash);
+    } else {
+      logger.warn('Ignoring invalid Android app hash for SMS autofill');
+    }
+  }
+
+  const domain = options.webOtpDomain ? normalizeWebOTPDomain(options.webOtpDomain) : '';
+  if (domain) {
+    lines.push(`@${domain} #${code}`);
+  }
+
+  return lines.length > 0 ? `${message}\n\n${lines.join('\n')}` : message;
+}
@@ -4,8 +4,10 @@
  */
 
 import { Job } from 'bull';
+import { config } from '../config/index.js';
 import { logger } from '../config/logger.js';
-import { SMSJobData, getSMSQueue } from '../config/queue.js';
+import { SMSJobData, getSMSQueue, getVoiceQueue } from '../config/queue.js';
+import { isVoiceProvider } from '../providers/IVoiceProvider.js';
 import { SMSService } from '../services/SMSService.js';
 
 /**
@@ -19,11 +21,12 @@ export const initializeSMSWorker = (smsService: SMSService): void => {
 
   // Process SMS jobs
   queue.process(async (job: Job<SMSJobData>) => {
-    const { phone, message, attemptNumber, callbackUrl } = job.data;
+    const { phone, message, attemptNumber, callbackUrl, channel, code } = job.data;
 
     logger.info('Processing SMS job', {
       jobId: job.id,
       phone: maskPhone(phone),
+      channel: channel || 'sms',
       attempt: job.attemptsMade + 1,
       maxAttempts: job.opts.attempts || 3
     });
@@ -34,7 +37,9 @@ export const initializeSMSWorker = (smsService: SMSService): void => {
         {
           to: phone,
           message,
-          callbackUrl
+          callbackUrl,
+          channel,
+          code
         },
         attemptNumber
       );
@@ -82,6 +87,11 @@ export const initializeSMSWorker = (smsService: SMSService): void => {
           totalAttempts: job.attemptsMade + 1,
           error: errorMessage
         });
+
+        // The code never arrived by message, so read it out in a call instead
+        if (code && smsService.getProviders().some(isVoiceProvider)) {
+          await queueVoiceFallback(phone, code);
+        }
       }
 
       // Re-throw to let Bull handle retry logic
@@ -92,6 +102,51 @@ export const initializeSMSWorker = (smsService: SMSService): void => {
   logger.info('SMS Worker initialized and processing jobs');
 };
 
+/**
+ * Queue a voice call for an OTP whose SMS could not be delivered
+ */
+const queueVoiceFallback = async (phone: string, code: string): Promise<void> => {
+  try {
+    await getVoiceQueue().add({
+      phone,
+      code,
+      attemptNumber: 0
+    });
+
+    logger.info('Voice call queued after SMS failure', {
+      phone: maskPhone(phone)
+    });
+  } catch (error) {
+    logger.error('Failed to queue voice call after SMS failure', {
+      phone: maskPhone(phone),
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+};
+
+/**
+ * Periodically re-send OTP messages whose delivery receipt never arrived
+ * Returns a function that stops the sweeper
+ */
+export const initializeDeliveryReceiptSweeper = (smsService: SMSService): (() => void) => {
+  const { resendEnabled, sweepIntervalSeconds } = config.sms.deliveryReceipts;
+
+  if (!resendEnabled) {
+    return () => {};
+  }
+
+  const timer = setInterval(() => {
+    void smsService.sweepUndeliveredMessages();
+  }, sweepIntervalSeconds * 1000);
+
+  // Don't keep the process alive just for the sweeper
+  timer.unref();
+
+  logger.info('Delivery receipt sweeper started', { sweepIntervalSeconds });
+
+  return () => clearInterval(timer);
+};
+
 /**
  * Mask phone number for logging (PII protection)
  */
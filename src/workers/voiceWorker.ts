@@ -0,0 +1,80 @@
+/**
+ * Voice Worker - Processes voice call OTP jobs from Bull queue
+ * Reads the code out through a voice-capable SMS provider, retrying like SMS jobs
+ */
+
+import { Job } from 'bull';
+import { logger } from '../config/logger.js';
+import { VoiceJobData, getVoiceQueue } from '../config/queue.js';
+import { SMSService } from '../services/SMSService.js';
+
+/**
+ * Initialize voice worker to process jobs from the queue
+ */
+export const initializeVoiceWorker = (smsService: SMSService): void => {
+  const queue = getVoiceQueue();
+
+  queue.process(async (job: Job<VoiceJobData>) => {
+    const { phone, code, attemptNumber, callbackUrl } = job.data;
+
+    logger.info('Processing voice job', {
+      jobId: job.id,
+      phone: maskPhone(phone),
+      attempt: job.attemptsMade + 1,
+      maxAttempts: job.opts.attempts || 3
+    });
+
+    const result = await smsService.sendVoiceCall(
+      {
+        to: phone,
+        message: formatVoiceOTPMessage(code),
+        language: 'en',
+        callbackUrl
+      },
+      attemptNumber
+    );
+
+    if (!result.success) {
+      logger.error('Voice job failed', {
+        jobId: job.id,
+        phone: maskPhone(phone),
+        provider: result.provider,
+        error: result.error,
+        attempt: job.attemptsMade + 1
+      });
+
+      // Throw to let Bull handle retry logic
+      throw new Error(result.error || 'Voice call failed');
+    }
+
+    logger.info('Voice job completed successfully', {
+      jobId: job.id,
+      phone: maskPhone(phone),
+      provider: result.provider,
+      callId: result.messageId
+    });
+
+    return result;
+  });
+
+  logger.info('Voice Worker initialized and processing jobs');
+};
+
+/**
+ * Spoken OTP message
+ * Digits are separated so text-to-speech reads them one at a time, and the code is repeated once
+ */
+export const formatVoiceOTPMessage = (code: string): string => {
+  const spoken = code.split('').join(', ');
+  return `Your verification code is ${spoken}. Again, your code is ${spoken}.`;
+};
+
+/**
+ * Mask phone number for logging (PII protection)
+ */
+const maskPhone = (phone: string): string => {
+  if (phone.length <= 4) {
+    return '****';
+  }
+  return phone.slice(0, -4).replace(/./g, '*') + phone.slice(-4);
+};